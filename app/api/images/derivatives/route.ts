@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { getObjectDerivatives } from '@/lib/asset-storage'
+import { createImageDerivativesSchema } from '@/types/schemas'
+
+// Generate derivatives for an image uploaded straight to storage, such as
+// board assets, or for one uploaded before derivatives existed
+export const maxDuration = 60
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuth(request)
+    const { bucket, path } = createImageDerivativesSchema.parse(
+      await request.json()
+    )
+
+    const derivatives = await getObjectDerivatives(bucket, path)
+
+    return NextResponse.json({ derivatives })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
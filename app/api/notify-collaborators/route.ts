@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Resend } from 'resend'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { ApiError, apiErrorResponse } from '@/lib/api-errors'
 
 const resend = new Resend(
   process.env.RESEND_API_KEY || 're_CzgaWp7P_3BwTmwjaMXCzZ4T6xuQwPsEK'
@@ -7,38 +9,30 @@ const resend = new Resend(
 
 interface NotifyCollaboratorsData {
   projectId: string
-  projectTitle: string
   action: string
   details: string
   changedBy: string
-  changedByEmail: string
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const {
-      projectId,
-      projectTitle,
-      action,
-      details,
-      changedBy,
-      changedByEmail,
-    }: NotifyCollaboratorsData = await request.json()
+    const auth = await requireAuth(request)
+    const { projectId, action, details, changedBy }: NotifyCollaboratorsData =
+      await request.json()
 
     // Validate required fields
-    if (
-      !projectId ||
-      !projectTitle ||
-      !action ||
-      !changedBy ||
-      !changedByEmail
-    ) {
+    if (!projectId || !action || !changedBy) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       )
     }
 
+    // Only people who can change the project notify its collaborators
+    const { project } = await requireProjectAccess(auth, projectId, 'edit')
+    const projectTitle = project.title
+    const changedByEmail = auth.user.email || ''
+
     // Get project collaborators (excluding the person who made the change)
     const { createClient } = await import('@supabase/supabase-js')
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
@@ -172,6 +166,7 @@ export async function POST(request: NextRequest) {
       },
     })
   } catch (error) {
+    if (error instanceof ApiError) return apiErrorResponse(error)
     console.error('Error in notify-collaborators:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import {
+  GET as getBoardOperations,
+  POST as postBoardOperations,
+} from '../boards/[boardId]/operations/route'
+
+type RouteParams = { params: { id: string } }
+
+// The project's main board, whose board id is the project's; kept for
+// clients from before projects had several boards
+export function GET(request: NextRequest, { params }: RouteParams) {
+  return getBoardOperations(request, {
+    params: { id: params.id, boardId: params.id },
+  })
+}
+
+export function POST(request: NextRequest, { params }: RouteParams) {
+  return postBoardOperations(request, {
+    params: { id: params.id, boardId: params.id },
+  })
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import {
+  appendBoardOperations,
+  getBoardSyncState,
+} from '@/lib/board-operations'
+import { requireBoardAccess } from '@/lib/project-boards'
+import { boardOperationsSchema, boardSyncQuerySchema } from '@/types/schemas'
+
+type RouteParams = { params: { id: string; boardId: string } }
+
+// The whole board, or with `since` the operations after that seq
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const { since } = boardSyncQuerySchema.parse({
+      since: request.nextUrl.searchParams.get('since') ?? undefined,
+    })
+    await requireBoardAccess(auth, params.id, params.boardId, 'view')
+
+    return NextResponse.json(await getBoardSyncState(params.boardId, since))
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// Append whiteboard operations; see lib/board-operations.ts
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const { client_id, operations } = boardOperationsSchema.parse(
+      await request.json()
+    )
+    await requireBoardAccess(auth, params.id, params.boardId, 'edit')
+
+    const seq = await appendBoardOperations(
+      params.boardId,
+      auth.user.id,
+      client_id,
+      operations
+    )
+
+    return NextResponse.json({ seq })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission, requireAuth } from '@/lib/api-auth'
+import { ApiError, apiErrorResponse } from '@/lib/api-errors'
+import {
+  canAccessBoard,
+  deleteBoard,
+  requireBoardAccess,
+  updateBoard,
+} from '@/lib/project-boards'
+import { updateBoardSchema } from '@/types/schemas'
+
+type RouteParams = { params: { id: string; boardId: string } }
+
+// Rename a board; changing who can open or edit it takes admin permission
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const changes = updateBoardSchema.parse(await request.json())
+    const { permission, board } = await requireBoardAccess(
+      auth,
+      params.id,
+      params.boardId,
+      'edit'
+    )
+
+    if (
+      (changes.view_permission || changes.edit_permission) &&
+      !hasPermission(permission, 'admin')
+    ) {
+      throw new ApiError(
+        'forbidden',
+        'Changing board permissions requires admin permission on the project'
+      )
+    }
+
+    const updated = await updateBoard(board, changes)
+
+    return NextResponse.json({
+      ...updated,
+      can_edit: canAccessBoard(permission, updated, 'edit'),
+    })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// Delete a board: its creator or a project admin
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const { permission, board } = await requireBoardAccess(
+      auth,
+      params.id,
+      params.boardId,
+      'edit'
+    )
+
+    if (
+      board.created_by !== auth.user.id &&
+      !hasPermission(permission, 'admin')
+    ) {
+      throw new ApiError(
+        'forbidden',
+        'Only the board creator or a project admin can delete a board'
+      )
+    }
+
+    await deleteBoard(board)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { applyBoardChanges } from '@/lib/board-sync'
+import { getBoardSyncState } from '@/lib/board-operations'
+import {
+  deleteBoardCheckpoint,
+  getBoardVersion,
+  renameBoardVersion,
+} from '@/lib/board-history'
+import { requireBoardAccess } from '@/lib/project-boards'
+import { boardCheckpointSchema } from '@/types/schemas'
+
+type RouteParams = {
+  params: { id: string; boardId: string; versionId: string }
+}
+
+// A version with its elements, to preview, restore or fork
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    await requireBoardAccess(auth, params.id, params.boardId, 'view')
+
+    // Images are the board's; versions don't keep copies
+    const board = await getBoardSyncState(params.boardId)
+    const { files } = applyBoardChanges(board.snapshot!, board.operations)
+
+    return NextResponse.json(
+      await getBoardVersion(params.boardId, params.versionId, files)
+    )
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// Name a version, making it a checkpoint
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const { name } = boardCheckpointSchema.parse(await request.json())
+    await requireBoardAccess(auth, params.id, params.boardId, 'edit')
+
+    return NextResponse.json(
+      await renameBoardVersion(params.boardId, params.versionId, name)
+    )
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    await requireBoardAccess(auth, params.id, params.boardId, 'edit')
+
+    await deleteBoardCheckpoint(params.boardId, params.versionId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { createBoardCheckpoint } from '@/lib/board-operations'
+import { listBoardVersions } from '@/lib/board-history'
+import { requireBoardAccess } from '@/lib/project-boards'
+import { boardCheckpointSchema } from '@/types/schemas'
+
+type RouteParams = { params: { id: string; boardId: string } }
+
+// The board's history, latest first; see lib/board-history.ts
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    await requireBoardAccess(auth, params.id, params.boardId, 'view')
+
+    return NextResponse.json(await listBoardVersions(params.boardId))
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// Name the board as it is now
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const { name } = boardCheckpointSchema.parse(await request.json())
+    await requireBoardAccess(auth, params.id, params.boardId, 'edit')
+
+    const version = await createBoardCheckpoint(
+      params.boardId,
+      auth.user.id,
+      name
+    )
+
+    return NextResponse.json(version, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { listBoards, reorderBoards } from '@/lib/project-boards'
+import { boardOrderSchema } from '@/types/schemas'
+
+type RouteParams = { params: { id: string } }
+
+// Reorder the board switcher; returns the boards in their new order
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const { board_ids } = boardOrderSchema.parse(await request.json())
+    const { permission } = await requireProjectAccess(auth, params.id, 'edit')
+
+    await reorderBoards(params.id, board_ids)
+
+    return NextResponse.json(await listBoards(params.id, permission))
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
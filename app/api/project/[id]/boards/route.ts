@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { createBoard, listBoards } from '@/lib/project-boards'
+import { createBoardSchema } from '@/types/schemas'
+
+type RouteParams = { params: { id: string } }
+
+// The project's boards the caller can open, in order; see lib/project-boards.ts
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const { permission } = await requireProjectAccess(auth, params.id, 'view')
+
+    return NextResponse.json(await listBoards(params.id, permission))
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// Add a board
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const { name } = createBoardSchema.parse(await request.json())
+    await requireProjectAccess(auth, params.id, 'edit')
+
+    const board = await createBoard(params.id, auth.user.id, name)
+
+    return NextResponse.json({ ...board, can_edit: true }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
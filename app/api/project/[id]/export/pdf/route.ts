@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supaAdmin'
+import {
+  authenticateRequest,
+  getAccessibleProject,
+  hasScope,
+} from '@/lib/api-auth'
+import {
+  generatePDFSpecSheet,
+  getPresentationTheme,
+} from '@/lib/pdf-spec-sheet-generator'
+import { imageQualitySchema } from '@/types/schemas'
+
+// pdf-lib and remote image fetching need the Node.js runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { data: auth, error: authError } = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: 401 })
+    }
+    if (!hasScope(auth, 'export')) {
+      return NextResponse.json(
+        { error: 'This token is missing the export scope' },
+        { status: 403 }
+      )
+    }
+
+    // Same access rules as the project page: owners and any collaborator,
+    // including view-only, can download the spec sheet
+    const accessible = await getAccessibleProject(auth, params.id)
+    if (!accessible) {
+      return NextResponse.json(
+        { error: 'Project not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const theme = getPresentationTheme(searchParams.get('theme'))
+    const quality = imageQualitySchema
+      .catch('high')
+      .parse(searchParams.get('quality'))
+
+    const pdfBytes = await generatePDFSpecSheet(
+      accessible.project,
+      theme,
+      quality
+    )
+
+    const filename = `${accessible.project.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_spec_sheet.pdf`
+
+    // Record the export for the project history and export_completed
+    // webhooks; a logging failure shouldn't fail the download
+    const { error: logError } = await supabaseAdmin
+      .from('project_logs')
+      .insert({
+        project_id: accessible.project.id,
+        user_id: auth.user.id,
+        action: 'export_completed',
+        details: {
+          export: { format: 'pdf', filename },
+          changed_by: auth.user.email || auth.user.id,
+        },
+        timestamp: new Date().toISOString(),
+      })
+    if (logError) {
+      console.error('Failed to log PDF export:', logError)
+    }
+
+    return new NextResponse(Buffer.from(pdfBytes), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('PDF export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate PDF' },
+      { status: 500 }
+    )
+  }
+}
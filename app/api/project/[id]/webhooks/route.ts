@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supaAdmin'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { ApiError, apiErrorResponse } from '@/lib/api-errors'
+import {
+  generateWebhookSecret,
+  getProjectTeam,
+  getWebhooksForProject,
+  isTeamAdmin,
+  WEBHOOK_COLUMNS,
+} from '@/lib/webhooks'
+import { createWebhookSchema } from '@/types/schemas'
+
+type RouteParams = { params: { id: string } }
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    await requireProjectAccess(auth, params.id, 'admin')
+
+    const [webhooks, team] = await Promise.all([
+      getWebhooksForProject(params.id),
+      getProjectTeam(params.id),
+    ])
+
+    // The team is only offered as a scope to its admins
+    const canManageTeam = !!team && (await isTeamAdmin(auth.user.id, team))
+
+    return NextResponse.json({ webhooks, team: canManageTeam ? team : null })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const { url, events, scope } = createWebhookSchema.parse(
+      await request.json()
+    )
+    await requireProjectAccess(auth, params.id, 'admin')
+
+    let team: string | null = null
+    if (scope === 'team') {
+      team = await getProjectTeam(params.id)
+      if (!team || !(await isTeamAdmin(auth.user.id, team))) {
+        throw new ApiError(
+          'forbidden',
+          "Team webhooks can only be added by admins of the project owner's team"
+        )
+      }
+    }
+
+    const secret = generateWebhookSecret()
+
+    const { data, error } = await supabaseAdmin
+      .from('webhooks')
+      .insert([
+        {
+          project_id: team ? null : params.id,
+          team,
+          url,
+          events,
+          secret,
+          created_by: auth.user.id,
+        },
+      ])
+      .select(WEBHOOK_COLUMNS)
+      .single()
+
+    if (error) throw error
+
+    // The signing secret is only ever returned here
+    return NextResponse.json({ ...data, secret }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -1,40 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supaAdmin'
+import { authenticateRequest, hasScope } from '@/lib/api-auth'
+import { migrateItems } from '@/lib/project-migrations'
 import { createProjectSchema } from '@/types/schemas'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
 
-    // Get the authorization header
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader) {
+    // Verify the caller (session JWT or a token with the parts:write scope)
+    const { data: auth, error: authError } = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: 401 })
+    }
+    if (!hasScope(auth, 'parts:write')) {
       return NextResponse.json(
-        { error: 'No authorization header' },
-        { status: 401 }
+        { error: 'This token is missing the parts:write scope' },
+        { status: 403 }
       )
     }
 
-    // Extract the JWT token
-    const token = authHeader.replace('Bearer ', '')
-
-    // Verify the user
-    const {
-      data: { user },
-      error: authError,
-    } = await supabaseAdmin.auth.getUser(token)
-
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-
     // Validate the request body
     const validatedData = createProjectSchema.parse(body)
 
     // Add user_id to the project data
     const projectData = {
       ...validatedData,
-      user_id: user.id,
+      items: migrateItems(validatedData.items),
+      user_id: auth.user.id,
     }
 
     // Insert the project into Supabase
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Resend } from 'resend'
 import { createClient } from '@supabase/supabase-js'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { ApiError, apiErrorResponse } from '@/lib/api-errors'
 
 const resend = new Resend('re_CzgaWp7P_3BwTmwjaMXCzZ4T6xuQwPsEK')
 
@@ -18,18 +20,15 @@ const supabase = supabaseUrl && supabaseServiceKey
 
 export async function POST(request: NextRequest) {
   try {
-    const { projectId, projectTitle, projectOwnerId, requesterEmail, action } =
-      await request.json()
+    const auth = await requireAuth(request)
+    const { projectId, action } = await request.json()
 
     console.log('📧 Access request API called with:', {
       projectId,
-      projectTitle,
-      projectOwnerId,
-      requesterEmail,
       action,
     })
 
-    if (!projectId || !projectTitle || !projectOwnerId || !requesterEmail) {
+    if (!projectId) {
       console.log('❌ Missing required fields')
       return NextResponse.json(
         { error: 'Missing required fields' },
@@ -37,6 +36,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // The requester, project and owner come from the session and the
+    // project itself, so the email can't be sent on someone else's behalf
+    const { project } = await requireProjectAccess(auth, projectId)
+    const projectTitle = project.title
+    const projectOwnerId = project.user_id || ''
+    const requesterEmail = auth.user.email || ''
+
     // Get project owner's email
     let ownerEmail = requesterEmail // fallback
 
@@ -96,20 +102,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Get requester's name if available
-    let requesterName = requesterEmail
-    if (supabase && requesterEmail) {
-      try {
-        const { data } = await supabase.auth.admin.listUsers()
-        const requesterUser = data?.users?.find((u) => u.email === requesterEmail)
-        if (requesterUser?.user_metadata?.full_name) {
-          requesterName = requesterUser.user_metadata.full_name
-        } else if (requesterUser?.user_metadata?.display_name) {
-          requesterName = requesterUser.user_metadata.display_name
-        }
-      } catch (err) {
-        // Ignore errors, just use email
-      }
-    }
+    const requesterName =
+      auth.user.user_metadata?.full_name ||
+      auth.user.user_metadata?.display_name ||
+      requesterEmail
 
     // Send email to project owner/admin
     const emailData = {
@@ -206,6 +202,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ success: true, data: result })
   } catch (error) {
+    if (error instanceof ApiError) return apiErrorResponse(error)
     console.error('❌ Error sending access request email:', error)
     return NextResponse.json(
       { error: 'Failed to send access request' },
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Resend } from 'resend'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { ApiError, apiErrorResponse } from '@/lib/api-errors'
+import { supabaseAdmin } from '@/lib/supaAdmin'
 
 const resend = new Resend('re_CzgaWp7P_3BwTmwjaMXCzZ4T6xuQwPsEK')
 
 export async function POST(request: NextRequest) {
   try {
-    const { to, invitationUrl, permissionLevel, projectId, projectTitle } =
+    const auth = await requireAuth(request)
+    const { to, invitationUrl, permissionLevel, projectId } =
       await request.json()
 
     console.log('📧 Email API called with:', {
@@ -13,10 +17,9 @@ export async function POST(request: NextRequest) {
       invitationUrl,
       permissionLevel,
       projectId,
-      projectTitle,
     })
 
-    if (!to || !invitationUrl || !permissionLevel) {
+    if (!to || !invitationUrl || !permissionLevel || !projectId) {
       console.log('❌ Missing required fields')
       return NextResponse.json(
         { error: 'Missing required fields' },
@@ -24,6 +27,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Only people who can invite to the project, and only to addresses
+    // invite_user_to_project has a pending invitation for
+    const { project } = await requireProjectAccess(auth, projectId, 'admin')
+    const projectTitle = project.title
+
+    const { data: invitation } = await supabaseAdmin
+      .from('project_invitations')
+      .select('id')
+      .eq('project_id', projectId)
+      .eq('invited_email', to)
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .limit(1)
+      .maybeSingle()
+
+    if (!invitation) {
+      throw new ApiError('not_found', 'No pending invitation for this email')
+    }
+
     // Send email with invitation link
     const emailData = {
       from: 'Core Home Render Portal <noreply@renderportal.swftstudios.com>',
@@ -111,6 +133,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ success: true, data: result })
   } catch (error) {
+    if (error instanceof ApiError) return apiErrorResponse(error)
     console.error('❌ Error sending email:', error)
     return NextResponse.json({ error: 'Failed to send email' }, { status: 500 })
   }
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { collectOrphanedAssets } from '@/lib/asset-gc'
+import { assetGcQuerySchema } from '@/types/schemas'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+// Lists both buckets and reads every project, board and log
+export const maxDuration = 300
+
+/**
+ * Cron endpoint for storage garbage collection. Reports orphaned objects
+ * in project-files and board-assets; pass `dry_run=false` to delete them.
+ * Schedule it daily.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (
+      !secret ||
+      request.headers.get('authorization') !== `Bearer ${secret}`
+    ) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { dry_run, grace_hours } = assetGcQuerySchema.parse({
+      dry_run: searchParams.get('dry_run') ?? undefined,
+      grace_hours: searchParams.get('grace_hours') ?? undefined,
+    })
+
+    const report = await collectOrphanedAssets({
+      dryRun: dry_run,
+      graceHours: grace_hours,
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Storage garbage collection error:', error)
+    return apiErrorResponse(error)
+  }
+}
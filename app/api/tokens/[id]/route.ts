@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { ApiError, apiErrorResponse } from '@/lib/api-errors'
+import { revokePersonalAccessToken } from '@/lib/personal-access-tokens'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAuth(request)
+
+    const revoked = await revokePersonalAccessToken(auth.user.id, params.id)
+    if (!revoked) {
+      throw new ApiError('not_found', 'Token not found')
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import {
+  createPersonalAccessToken,
+  listPersonalAccessTokens,
+} from '@/lib/personal-access-tokens'
+import { createTokenSchema } from '@/types/schemas'
+
+// Token management needs a signed-in session; a token can't mint tokens
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request)
+    const tokens = await listPersonalAccessTokens(auth.user.id)
+
+    return NextResponse.json(tokens)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request)
+    const { name, scopes, expires_in_days } = createTokenSchema.parse(
+      await request.json()
+    )
+
+    const { token, record } = await createPersonalAccessToken(
+      auth.user.id,
+      name,
+      scopes,
+      expires_in_days
+    )
+
+    // The plaintext token is only ever returned here
+    return NextResponse.json({ ...record, token }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
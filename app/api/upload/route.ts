@@ -1,8 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supaAdmin'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { storeFile } from '@/lib/asset-storage'
+import { getDerivativePaths } from '@/lib/image-derivatives'
+import { isContentPath } from '@/lib/asset-references'
+import {
+  IMAGE_CONTENT_TYPES,
+  RENDER_CONTENT_TYPES,
+  getUploadContentType,
+} from '@/lib/upload-files'
+import { UploadBucket } from '@/types'
+
+// Leaves time for the image derivatives after the upload itself
+export const maxDuration = 60
 
 export async function POST(request: NextRequest) {
   try {
+    await requireAuth(request)
+
     // Check environment variables first
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
     const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -19,14 +35,12 @@ export async function POST(request: NextRequest) {
 
     const formData = await request.formData()
     const file = formData.get('file') as File
-    const folder = formData.get('folder') as string || 'uploads'
     const bucket = formData.get('bucket') as string || 'project-files'
 
     console.log('Upload request:', {
       fileName: file?.name,
       fileSize: file?.size,
       fileType: file?.type,
-      folder,
       bucket
     })
 
@@ -34,19 +48,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
 
-    // Validate file type
-    const allowedTypes = [
-      'image/jpeg',
-      'image/jpg',
-      'image/png',
-      'image/gif',
-      'image/webp',
-      'image/svg+xml'
-    ]
-
-    if (!allowedTypes.includes(file.type)) {
+    // Validate file type; render formats get browser-viewable derivatives
+    const allowedTypes = [...IMAGE_CONTENT_TYPES, ...RENDER_CONTENT_TYPES]
+    const contentType = getUploadContentType(file)
+
+    if (!allowedTypes.includes(contentType)) {
       return NextResponse.json({ 
-        error: `File type ${file.type} is not supported` 
+        error: `File type ${contentType} is not supported` 
       }, { status: 400 })
     }
 
@@ -58,70 +66,56 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Create a unique filename with timestamp
-    const fileExt = file.name.split('.').pop()
-    const timestamp = Date.now()
-    const randomId = Math.random().toString(36).substring(2)
-    const fileName = `${timestamp}-${randomId}.${fileExt}`
-    const filePath = `${folder}/${fileName}`
-
     // Convert file to buffer
     const arrayBuffer = await file.arrayBuffer()
     const buffer = Buffer.from(arrayBuffer)
 
-    // Upload to Supabase Storage using admin client (bypasses RLS)
-    console.log(`Attempting to upload to bucket: ${bucket}, path: ${filePath}`)
-    
-    const { data, error } = await supabaseAdmin.storage
-      .from(bucket)
-      .upload(filePath, buffer, {
-        contentType: file.type,
-        cacheControl: '3600',
-        upsert: false
+    // Stored under its SHA-256, so re-uploading the same image reuses it.
+    // Upload with admin client (bypasses RLS)
+    let stored
+    try {
+      stored = await storeFile(bucket as UploadBucket, {
+        name: file.name,
+        contentType,
+        data: buffer
       })
-
-    if (error) {
+    } catch (error) {
       console.error('Upload error details:', {
         error: error,
         bucket: bucket,
-        filePath: filePath,
-        fileType: file.type,
+        fileType: contentType,
         fileSize: file.size
       })
       return NextResponse.json({ 
-        error: error.message,
+        error: error instanceof Error ? error.message : 'Upload failed',
         details: error,
-        bucket: bucket,
-        path: filePath
+        bucket: bucket
       }, { status: 500 })
     }
 
-    // Get public URL
-    const {
-      data: { publicUrl },
-    } = supabaseAdmin.storage.from(bucket).getPublicUrl(filePath)
-
+    // Derivatives are thumbnail, preview and full-size copies; the original stays as uploaded
     return NextResponse.json({ 
-      url: publicUrl,
-      path: filePath,
+      url: stored.url,
+      path: stored.path,
       bucket: bucket,
       size: file.size,
-      type: file.type,
-      name: file.name
+      type: contentType,
+      name: file.name,
+      checksum: stored.checksum,
+      derivatives: stored.derivatives,
+      deduplicated: stored.deduplicated
     })
 
   } catch (error) {
-    console.error('Upload API error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' }, 
-      { status: 500 }
-    )
+    return apiErrorResponse(error)
   }
 }
 
 // Handle DELETE requests for file removal
 export async function DELETE(request: NextRequest) {
   try {
+    await requireAuth(request)
+
     const { searchParams } = new URL(request.url)
     const path = searchParams.get('path')
     const bucket = searchParams.get('bucket') || 'project-files'
@@ -130,10 +124,16 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'No file path provided' }, { status: 400 })
     }
 
-    // Delete from Supabase Storage
+    // Content-addressed files may back other uploads; garbage collection
+    // removes them once nothing references them
+    if (isContentPath(path)) {
+      return NextResponse.json({ success: true, deferred: true })
+    }
+
+    // Delete from Supabase Storage, with its derivatives
     const { error } = await supabaseAdmin.storage
       .from(bucket)
-      .remove([path])
+      .remove([path, ...getDerivativePaths(path)])
 
     if (error) {
       console.error('Delete error:', error)
@@ -143,10 +143,6 @@ export async function DELETE(request: NextRequest) {
     return NextResponse.json({ success: true })
 
   } catch (error) {
-    console.error('Delete API error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' }, 
-      { status: 500 }
-    )
+    return apiErrorResponse(error)
   }
 }
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { completeUploadSession, getUploadSession } from '@/lib/upload-sessions'
+import { completeUploadSessionSchema } from '@/types/schemas'
+
+// Called once every chunk is uploaded; reads the file back to verify it
+// and generates its derivatives
+export const maxDuration = 300
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAuth(request)
+    const { checksum } = completeUploadSessionSchema.parse(await request.json())
+
+    const session = await getUploadSession(auth.user.id, params.id)
+    const upload = await completeUploadSession(session, checksum)
+
+    return NextResponse.json(upload)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { abortUploadSession, getUploadSession } from '@/lib/upload-sessions'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAuth(request)
+    const session = await getUploadSession(auth.user.id, params.id)
+
+    return NextResponse.json(session)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAuth(request)
+    const session = await getUploadSession(auth.user.id, params.id)
+
+    await abortUploadSession(session)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import {
+  createUploadSession,
+  getResumableEndpoint,
+} from '@/lib/upload-sessions'
+import { createUploadSessionSchema } from '@/types/schemas'
+
+// Reserve a storage path for a resumable upload. The bytes go to
+// `upload_endpoint` (Supabase's tus endpoint), not through this route.
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request)
+    const file = createUploadSessionSchema.parse(await request.json())
+
+    const session = await createUploadSession(auth.user.id, file)
+
+    return NextResponse.json(
+      { ...session, upload_endpoint: getResumableEndpoint() },
+      { status: 201 }
+    )
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { cloneProject } from '@/lib/project-clone'
+import { cloneProjectSchema } from '@/types/schemas'
+
+type RouteParams = { params: { id: string } }
+
+// Anyone who can view a project may start a new project of their own from it
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const values = cloneProjectSchema.parse(await request.json())
+    const { project, permission } = await requireProjectAccess(auth, params.id)
+
+    const { project: clone, failedAssets } = await cloneProject(
+      auth,
+      project,
+      permission,
+      values
+    )
+
+    return NextResponse.json(
+      { ...clone, failed_assets: failedAssets },
+      { status: 201 }
+    )
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
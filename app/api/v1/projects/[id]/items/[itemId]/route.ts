@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { normalizeItemDetails } from '@/lib/item-details'
+import { setItemImages } from '@/lib/item-images'
+import { saveProjectItems } from '@/lib/project-store'
+import { getItemIndex } from '@/lib/project-tree'
+import { updateItemSchema } from '@/types/schemas'
+import { Item } from '@/types'
+
+type RouteParams = { params: { id: string; itemId: string } }
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'projects:read')
+    const { project } = await requireProjectAccess(auth, params.id)
+    const itemIndex = getItemIndex(project.items, params.itemId)
+
+    return NextResponse.json(project.items[itemIndex])
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const { hero_image, images, ...changes } = updateItemSchema.parse(
+      await request.json()
+    )
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+    const itemIndex = getItemIndex(project.items, params.itemId)
+
+    let item: Item = normalizeItemDetails({
+      ...project.items[itemIndex],
+      ...changes,
+    })
+    if (hero_image !== undefined) {
+      item.hero_image = hero_image ?? undefined
+    }
+    // Moves part markers along and points hero_image at the first image
+    if (images !== undefined) {
+      item = setItemImages(item, images)
+    }
+
+    const items = [...project.items]
+    items[itemIndex] = item
+    await saveProjectItems(auth, project, items)
+
+    return NextResponse.json(item)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+    const itemIndex = getItemIndex(project.items, params.itemId)
+
+    await saveProjectItems(
+      auth,
+      project,
+      project.items.filter((_, index) => index !== itemIndex)
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
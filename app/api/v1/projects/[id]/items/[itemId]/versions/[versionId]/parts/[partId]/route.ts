@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { saveProjectItems } from '@/lib/project-store'
+import { getItemIndex, getPartIndex, getVersionIndex } from '@/lib/project-tree'
+import { updatePartSchema } from '@/types/schemas'
+import { Item, Part, Project } from '@/types'
+
+type RouteParams = {
+  params: { id: string; itemId: string; versionId: string; partId: string }
+}
+
+function locatePart(project: Project, params: RouteParams['params']) {
+  const itemIndex = getItemIndex(project.items, params.itemId)
+  const item = project.items[itemIndex]
+  const versionIndex = getVersionIndex(item, params.versionId)
+  const version = item.versions![versionIndex]
+  const partIndex = getPartIndex(version, params.partId)
+  return { itemIndex, item, versionIndex, version, partIndex }
+}
+
+function replaceParts(
+  project: Project,
+  location: ReturnType<typeof locatePart>,
+  parts: Part[]
+): Item[] {
+  const versions = [...location.item.versions!]
+  versions[location.versionIndex] = { ...location.version, parts }
+  const items = [...project.items]
+  items[location.itemIndex] = { ...location.item, versions }
+  return items
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'projects:read')
+    const { project } = await requireProjectAccess(auth, params.id)
+    const { version, partIndex } = locatePart(project, params)
+
+    return NextResponse.json(version.parts[partIndex])
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const changes = updatePartSchema.parse(await request.json())
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+    const location = locatePart(project, params)
+
+    const part: Part = {
+      ...location.version.parts[location.partIndex],
+      ...changes,
+    }
+    const parts = [...location.version.parts]
+    parts[location.partIndex] = part
+
+    await saveProjectItems(
+      auth,
+      project,
+      replaceParts(project, location, parts)
+    )
+
+    return NextResponse.json(part)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+    const location = locatePart(project, params)
+
+    const parts = location.version.parts.filter(
+      (_, index) => index !== location.partIndex
+    )
+    await saveProjectItems(
+      auth,
+      project,
+      replaceParts(project, location, parts)
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { changeWorkflowStatus } from '@/lib/project-workflow'
+import { statusChangeSchema } from '@/types/schemas'
+
+type RouteParams = {
+  params: { id: string; itemId: string; versionId: string; partId: string }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const { status, comment } = statusChangeSchema.parse(await request.json())
+
+    const part = await changeWorkflowStatus(
+      auth,
+      params.id,
+      {
+        itemId: params.itemId,
+        versionId: params.versionId,
+        partId: params.partId,
+      },
+      status,
+      comment
+    )
+
+    return NextResponse.json(part)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { saveProjectItems } from '@/lib/project-store'
+import { getItemIndex, getVersionIndex, newId } from '@/lib/project-tree'
+import { partDataSchema } from '@/types/schemas'
+import { Part } from '@/types'
+
+type RouteParams = { params: { id: string; itemId: string; versionId: string } }
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'projects:read')
+    const { project } = await requireProjectAccess(auth, params.id)
+    const item = project.items[getItemIndex(project.items, params.itemId)]
+    const version = item.versions![getVersionIndex(item, params.versionId)]
+
+    return NextResponse.json(version.parts || [])
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const data = partDataSchema.parse(await request.json())
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+    const itemIndex = getItemIndex(project.items, params.itemId)
+    const item = project.items[itemIndex]
+    const versionIndex = getVersionIndex(item, params.versionId)
+    const version = item.versions![versionIndex]
+
+    const part: Part = { ...data, id: data.id || newId('part') }
+
+    const versions = [...item.versions!]
+    versions[versionIndex] = {
+      ...version,
+      parts: [...(version.parts || []), part],
+    }
+    const items = [...project.items]
+    items[itemIndex] = { ...item, versions }
+    await saveProjectItems(auth, project, items)
+
+    return NextResponse.json(part, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
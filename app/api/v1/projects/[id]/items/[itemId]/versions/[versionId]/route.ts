@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { saveProjectItems } from '@/lib/project-store'
+import { getItemIndex, getVersionIndex } from '@/lib/project-tree'
+import { getItemImages, setVersionImages } from '@/lib/item-images'
+import { updateVersionSchema } from '@/types/schemas'
+import { Version } from '@/types'
+
+type RouteParams = { params: { id: string; itemId: string; versionId: string } }
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'projects:read')
+    const { project } = await requireProjectAccess(auth, params.id)
+    const item = project.items[getItemIndex(project.items, params.itemId)]
+    const versionIndex = getVersionIndex(item, params.versionId)
+
+    return NextResponse.json(item.versions![versionIndex])
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const { versionName, images } = updateVersionSchema.parse(
+      await request.json()
+    )
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+    const itemIndex = getItemIndex(project.items, params.itemId)
+    const item = project.items[itemIndex]
+    const versionIndex = getVersionIndex(item, params.versionId)
+
+    let version: Version = { ...item.versions![versionIndex] }
+    if (versionName !== undefined) {
+      version.versionName = versionName ?? undefined
+    }
+    // Markers on removed images go with them
+    if (images !== undefined) {
+      version = setVersionImages(version, images, getItemImages(item))
+    }
+
+    const versions = [...item.versions!]
+    versions[versionIndex] = version
+    const items = [...project.items]
+    items[itemIndex] = { ...item, versions }
+    await saveProjectItems(auth, project, items)
+
+    return NextResponse.json(version)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+    const itemIndex = getItemIndex(project.items, params.itemId)
+    const item = project.items[itemIndex]
+    const versionIndex = getVersionIndex(item, params.versionId)
+
+    const items = [...project.items]
+    items[itemIndex] = {
+      ...item,
+      versions: item.versions!.filter((_, index) => index !== versionIndex),
+    }
+    await saveProjectItems(auth, project, items)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { changeWorkflowStatus } from '@/lib/project-workflow'
+import { statusChangeSchema } from '@/types/schemas'
+
+type RouteParams = {
+  params: { id: string; itemId: string; versionId: string }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const { status, comment } = statusChangeSchema.parse(await request.json())
+
+    const version = await changeWorkflowStatus(
+      auth,
+      params.id,
+      { itemId: params.itemId, versionId: params.versionId },
+      status,
+      comment
+    )
+
+    return NextResponse.json(version)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
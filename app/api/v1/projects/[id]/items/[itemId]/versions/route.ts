@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { saveProjectItems } from '@/lib/project-store'
+import {
+  ensureVersions,
+  getItemIndex,
+  newId,
+  nextVersionNumber,
+  withPartId,
+} from '@/lib/project-tree'
+import { createVersionSchema } from '@/types/schemas'
+import { Version } from '@/types'
+
+type RouteParams = { params: { id: string; itemId: string } }
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'projects:read')
+    const { project } = await requireProjectAccess(auth, params.id)
+    const itemIndex = getItemIndex(project.items, params.itemId)
+
+    return NextResponse.json(project.items[itemIndex].versions || [])
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const data = createVersionSchema.parse(await request.json())
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+    const itemIndex = getItemIndex(project.items, params.itemId)
+
+    const item = ensureVersions(project.items[itemIndex])
+    const version: Version = {
+      id: newId('version'),
+      versionNumber: nextVersionNumber(item),
+      versionName: data.versionName,
+      parts: data.parts.map(withPartId),
+      ...(data.images && { images: data.images }),
+      created_at: new Date().toISOString(),
+    }
+
+    const items = [...project.items]
+    items[itemIndex] = {
+      ...item,
+      versions: [...(item.versions || []), version],
+    }
+    await saveProjectItems(auth, project, items)
+
+    return NextResponse.json(version, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { ApiError, apiErrorResponse } from '@/lib/api-errors'
+import { applyItemDetails } from '@/lib/item-details'
+import { saveProjectItems } from '@/lib/project-store'
+import { newId, withPartId } from '@/lib/project-tree'
+import { bulkUpdateItemsSchema, createItemSchema } from '@/types/schemas'
+import { Item } from '@/types'
+
+type RouteParams = { params: { id: string } }
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'projects:read')
+    const { project } = await requireProjectAccess(auth, params.id)
+
+    return NextResponse.json(project.items)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const data = createItemSchema.parse(await request.json())
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+
+    const item: Item = {
+      ...data,
+      id: newId('item'),
+      ...(data.images?.length && { hero_image: data.images[0].url }),
+      parts: data.parts?.map(withPartId),
+      versions: data.versions?.map((version) => ({
+        ...version,
+        parts: version.parts.map(withPartId),
+      })),
+    }
+
+    await saveProjectItems(auth, project, [...project.items, item])
+
+    return NextResponse.json(item, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+/**
+ * Set packaging, logo and notes on several items in one save
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const { item_ids, changes } = bulkUpdateItemsSchema.parse(
+      await request.json()
+    )
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+
+    const missing = item_ids.filter(
+      (itemId) => !project.items.some((item) => item.id === itemId)
+    )
+    if (missing.length > 0) {
+      throw new ApiError('not_found', 'Some items were not found', {
+        item_ids: missing,
+      })
+    }
+
+    const items = applyItemDetails(
+      project.items,
+      (item) => item_ids.includes(item.id),
+      changes
+    )
+    await saveProjectItems(auth, project, items)
+
+    return NextResponse.json(items.filter((item) => item_ids.includes(item.id)))
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
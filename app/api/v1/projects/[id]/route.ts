@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { deleteProject, saveProject } from '@/lib/project-store'
+import { updateProjectSchema } from '@/types/schemas'
+
+type RouteParams = { params: { id: string } }
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'projects:read')
+    const { project, permission } = await requireProjectAccess(auth, params.id)
+
+    return NextResponse.json({ ...project, permission })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const changes = updateProjectSchema.parse(await request.json())
+    const { project } = await requireProjectAccess(auth, params.id, 'edit')
+
+    const updated = await saveProject(auth, project, changes)
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    await requireProjectAccess(auth, params.id, 'owner')
+
+    await deleteProject(params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
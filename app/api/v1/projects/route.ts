@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supaAdmin'
+import { requireAuth } from '@/lib/api-auth'
+import { ApiError, apiErrorResponse } from '@/lib/api-errors'
+import { migrateItems } from '@/lib/project-migrations'
+import { listProjects } from '@/lib/project-store'
+import { newId, withPartId } from '@/lib/project-tree'
+import { createProjectSchema } from '@/types/schemas'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, 'projects:read')
+    const projects = await listProjects(auth)
+
+    return NextResponse.json(projects)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, 'parts:write')
+    const body = await request.json()
+    const validatedData = createProjectSchema.parse(body)
+
+    // Give every item, version and part a stable id so they can be
+    // addressed through the nested routes right away
+    const items = migrateItems(
+      validatedData.items.map((item) => ({
+        ...item,
+        id: newId('item'),
+        parts: item.parts?.map(withPartId),
+        versions: item.versions?.map((version) => ({
+          ...version,
+          parts: version.parts.map(withPartId),
+        })),
+      }))
+    )
+
+    const { data: project, error } = await supabaseAdmin
+      .from('projects')
+      .insert([{ ...validatedData, items, user_id: auth.user.id }])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Supabase error:', error)
+      throw new ApiError('internal_error', 'Failed to create project')
+    }
+
+    return NextResponse.json(project, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
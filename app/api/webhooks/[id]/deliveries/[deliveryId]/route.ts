@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supaAdmin'
+import { requireAuth } from '@/lib/api-auth'
+import { ApiError, apiErrorResponse } from '@/lib/api-errors'
+import {
+  DELIVERY_COLUMNS,
+  redeliver,
+  requireWebhookAccess,
+} from '@/lib/webhooks'
+import { WebhookDelivery } from '@/types'
+
+export const runtime = 'nodejs'
+
+/**
+ * Send a delivery again from the delivery log
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; deliveryId: string } }
+) {
+  try {
+    const auth = await requireAuth(request)
+    await requireWebhookAccess(auth, params.id)
+
+    const { data, error } = await supabaseAdmin
+      .from('webhook_deliveries')
+      .select(DELIVERY_COLUMNS)
+      .eq('id', params.deliveryId)
+      .eq('webhook_id', params.id)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      throw new ApiError('not_found', 'Delivery not found')
+    }
+
+    const delivery = await redeliver(data as WebhookDelivery)
+
+    return NextResponse.json(delivery)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
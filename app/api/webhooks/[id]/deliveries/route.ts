@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supaAdmin'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { DELIVERY_COLUMNS, requireWebhookAccess } from '@/lib/webhooks'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAuth(request)
+    await requireWebhookAccess(auth, params.id)
+
+    const { data, error } = await supabaseAdmin
+      .from('webhook_deliveries')
+      .select(DELIVERY_COLUMNS)
+      .eq('webhook_id', params.id)
+      .order('created_at', { ascending: false })
+      .limit(50)
+
+    if (error) throw error
+
+    return NextResponse.json(data || [])
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
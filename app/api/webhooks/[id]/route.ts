@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supaAdmin'
+import { requireAuth } from '@/lib/api-auth'
+import { apiErrorResponse } from '@/lib/api-errors'
+import { requireWebhookAccess, WEBHOOK_COLUMNS } from '@/lib/webhooks'
+import { updateWebhookSchema } from '@/types/schemas'
+
+type RouteParams = { params: { id: string } }
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    const changes = updateWebhookSchema.parse(await request.json())
+    await requireWebhookAccess(auth, params.id)
+
+    const { data, error } = await supabaseAdmin
+      .from('webhooks')
+      .update(changes)
+      .eq('id', params.id)
+      .select(WEBHOOK_COLUMNS)
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json(data)
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth(request)
+    await requireWebhookAccess(auth, params.id)
+
+    const { error } = await supabaseAdmin
+      .from('webhooks')
+      .delete()
+      .eq('id', params.id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
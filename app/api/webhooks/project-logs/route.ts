@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { dispatchProjectLog } from '@/lib/webhooks'
+
+export const runtime = 'nodejs'
+
+/**
+ * Receives the Supabase database webhook for project_logs inserts and
+ * fans the entry out to the matching outgoing webhooks
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.WEBHOOK_TRIGGER_SECRET
+    if (
+      !secret ||
+      request.headers.get('authorization') !== `Bearer ${secret}`
+    ) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { type, table, record } = await request.json()
+    if (type !== 'INSERT' || table !== 'project_logs' || !record) {
+      return NextResponse.json({ queued: 0 })
+    }
+
+    const queued = await dispatchProjectLog(record)
+
+    return NextResponse.json({ queued })
+  } catch (error) {
+    console.error('Webhook dispatch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to dispatch webhooks' },
+      { status: 500 }
+    )
+  }
+}
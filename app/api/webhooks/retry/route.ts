@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { retryDueDeliveries } from '@/lib/webhooks'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * Cron endpoint that retries failed deliveries once their backoff has
+ * elapsed. Schedule it every minute or so.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (
+      !secret ||
+      request.headers.get('authorization') !== `Bearer ${secret}`
+    ) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const retried = await retryDueDeliveries()
+
+    return NextResponse.json({ retried })
+  } catch (error) {
+    console.error('Webhook retry error:', error)
+    return NextResponse.json(
+      { error: 'Failed to retry deliveries' },
+      { status: 500 }
+    )
+  }
+}
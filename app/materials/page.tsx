@@ -0,0 +1,450 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Archive, Edit, Layers, Plus, RotateCcw, Search, X } from 'lucide-react'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { Button } from '@/components/ui/button'
+import { FileUpload } from '@/components/ui/file-upload'
+import { MaterialSwatch } from '@/components/ui/material-picker'
+import { useMaterials } from '@/hooks/useMaterials'
+import { useAuth } from '@/lib/auth-context'
+import { useTheme } from '@/lib/theme-context'
+import {
+  SHEEN_OPTIONS,
+  createMaterial,
+  findMaterialByName,
+  sheenLabel,
+  updateMaterial,
+} from '@/lib/materials'
+import { Material } from '@/types'
+import { MaterialFormData, materialSchema } from '@/types/schemas'
+
+const EMPTY_FORM: MaterialFormData = {
+  name: '',
+  swatch_color: '#9ca3af',
+  texture_image_url: null,
+  vendor_code: null,
+  sheen: null,
+  notes: null,
+}
+
+export default function MaterialsPage() {
+  const { user, loading: authLoading, signOut } = useAuth()
+  const { colors } = useTheme()
+  const router = useRouter()
+  const { team, library, loading, error, refresh } = useMaterials([], {
+    includeArchived: true,
+  })
+  const [query, setQuery] = useState('')
+  const [showArchived, setShowArchived] = useState(false)
+  const [editing, setEditing] = useState<Material | 'new' | null>(null)
+  const [form, setForm] = useState<MaterialFormData>(EMPTY_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth/login')
+    }
+  }, [user, authLoading, router])
+
+  const handleSignOut = async () => {
+    await signOut()
+    router.push('/')
+  }
+
+  const openEditor = (material: Material | 'new') => {
+    setEditing(material)
+    setFormError(null)
+    setForm(
+      material === 'new'
+        ? EMPTY_FORM
+        : {
+            name: material.name,
+            swatch_color: material.swatch_color,
+            texture_image_url: material.texture_image_url,
+            vendor_code: material.vendor_code,
+            sheen: material.sheen,
+            notes: material.notes,
+          }
+    )
+  }
+
+  const handleSave = async () => {
+    if (!user || !team || !editing) return
+
+    const parsed = materialSchema.safeParse({
+      ...form,
+      vendor_code: form.vendor_code?.trim() || null,
+      notes: form.notes?.trim() || null,
+      texture_image_url: form.texture_image_url || null,
+    })
+    if (!parsed.success) {
+      setFormError(parsed.error.errors[0]?.message || 'Invalid material')
+      return
+    }
+
+    const duplicate = findMaterialByName(library, parsed.data.name)
+    if (duplicate && (editing === 'new' || duplicate.id !== editing.id)) {
+      setFormError(`"${duplicate.name}" is already in the library`)
+      return
+    }
+
+    setSaving(true)
+    setFormError(null)
+    try {
+      if (editing === 'new') {
+        await createMaterial(team, user.id, parsed.data)
+      } else {
+        await updateMaterial(editing.id, user.id, parsed.data)
+      }
+      setEditing(null)
+      await refresh()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleArchived = async (material: Material) => {
+    if (!user) return
+    try {
+      await updateMaterial(material.id, user.id, {
+        archived: !material.archived,
+      })
+      await refresh()
+    } catch (err) {
+      console.error('Error archiving material:', err)
+    }
+  }
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-[#070e0e]">
+        <div className="text-white">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  const visible = library.filter(
+    (material) =>
+      (showArchived || !material.archived) &&
+      [material.name, material.vendor_code || '', sheenLabel(material.sheen)]
+        .join(' ')
+        .toLowerCase()
+        .includes(query.trim().toLowerCase())
+  )
+
+  return (
+    <DashboardLayout user={user} onSignOut={handleSignOut}>
+      <div className="p-8 lg:p-12 text-white">
+        {/* Header */}
+        <div className="flex items-start justify-between mb-12">
+          <div>
+            <h1 className="text-4xl font-medium mb-3">Materials Library</h1>
+            <p className="text-[#595d60] text-base">
+              Named finishes shared by the {colors.teamName} team, so every part
+              uses the same spelling and swatch
+            </p>
+          </div>
+          {team && (
+            <Button
+              onClick={() => openEditor('new')}
+              className="text-white"
+              style={{ backgroundColor: colors.primary }}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Material
+            </Button>
+          )}
+        </div>
+
+        {!team && !loading ? (
+          <div className="text-center py-12 bg-[#1a1e1f] rounded-2xl">
+            <Layers className="w-16 h-16 text-[#595d60] mx-auto mb-4" />
+            <h3 className="text-xl font-medium text-white mb-2">No Team</h3>
+            <p className="text-[#595d60] mb-6">
+              Choose your team in Settings to manage its materials library
+            </p>
+            <Link
+              href="/settings"
+              className="inline-flex items-center gap-2 bg-[#38bdbb] hover:bg-[#2ea9a7] text-white px-6 py-3 rounded-lg transition-colors font-medium"
+            >
+              Go to Settings
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-4 mb-6">
+              <div className="relative flex-1 min-w-[240px]">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#595d60]" />
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search name, vendor code or sheen"
+                  className="w-full pl-10 pr-4 py-2 bg-[#1a1e1f] border border-gray-700 rounded-lg text-white placeholder-[#595d60] focus:outline-none focus:border-[#38bdbb]"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-[#595d60]">
+                <input
+                  type="checkbox"
+                  checked={showArchived}
+                  onChange={(e) => setShowArchived(e.target.checked)}
+                />
+                Show archived
+              </label>
+            </div>
+
+            {error && (
+              <div className="bg-red-900/20 border border-red-500/50 text-red-400 px-6 py-4 rounded-xl mb-6">
+                Error: {error}
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="w-12 h-12 border-4 border-[#38bdbb] border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : visible.length === 0 ? (
+              <div className="text-center py-12 bg-[#1a1e1f] rounded-2xl">
+                <Layers className="w-16 h-16 text-[#595d60] mx-auto mb-4" />
+                <p className="text-[#595d60]">
+                  {library.length === 0
+                    ? 'No materials yet. Add the finishes your team uses most.'
+                    : 'No materials match your search.'}
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {visible.map((material) => (
+                  <div
+                    key={material.id}
+                    className={`bg-[#1a1e1f] rounded-2xl p-6 ${
+                      material.archived ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-start gap-4 mb-4">
+                      <MaterialSwatch
+                        material={material}
+                        className="w-14 h-14 rounded-lg"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <h3 className="text-lg font-medium truncate">
+                          {material.name}
+                        </h3>
+                        <p className="text-xs text-[#595d60] font-mono">
+                          {material.swatch_color}
+                        </p>
+                        {material.archived && (
+                          <span className="text-xs text-[#f9903c]">
+                            Archived
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-1 text-sm mb-4">
+                      <div className="flex justify-between">
+                        <span className="text-[#595d60]">Vendor code</span>
+                        <span>{material.vendor_code || '—'}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-[#595d60]">Sheen</span>
+                        <span>{sheenLabel(material.sheen) || '—'}</span>
+                      </div>
+                    </div>
+                    {material.notes && (
+                      <p className="text-xs text-[#595d60] mb-4 line-clamp-3">
+                        {material.notes}
+                      </p>
+                    )}
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openEditor(material)}
+                        className="border-gray-700 text-white hover:bg-[#222a31]"
+                      >
+                        <Edit className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleArchived(material)}
+                        className="text-[#595d60] hover:text-white hover:bg-[#222a31]"
+                      >
+                        {material.archived ? (
+                          <>
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Restore
+                          </>
+                        ) : (
+                          <>
+                            <Archive className="w-4 h-4 mr-2" />
+                            Archive
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Add / edit modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50">
+          <div className="bg-[#1a1e1f] rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 text-white">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-medium">
+                {editing === 'new' ? 'Add Material' : `Edit ${editing.name}`}
+              </h2>
+              <button
+                onClick={() => setEditing(null)}
+                className="text-[#595d60] hover:text-white"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm text-[#595d60] mb-1">
+                  Name
+                </label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Brushed Nickel"
+                  className="w-full px-3 py-2 bg-[#0d1117] border border-gray-700 rounded-lg text-white focus:outline-none focus:border-[#38bdbb]"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm text-[#595d60] mb-1">
+                  Swatch color
+                </label>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="color"
+                    value={form.swatch_color}
+                    onChange={(e) =>
+                      setForm({ ...form, swatch_color: e.target.value })
+                    }
+                    className="w-10 h-10 bg-transparent border border-gray-700 rounded"
+                  />
+                  <input
+                    value={form.swatch_color}
+                    onChange={(e) =>
+                      setForm({ ...form, swatch_color: e.target.value })
+                    }
+                    className="flex-1 px-3 py-2 bg-[#0d1117] border border-gray-700 rounded-lg text-white font-mono focus:outline-none focus:border-[#38bdbb]"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-[#595d60] mb-1">
+                    Vendor code
+                  </label>
+                  <input
+                    value={form.vendor_code || ''}
+                    onChange={(e) =>
+                      setForm({ ...form, vendor_code: e.target.value })
+                    }
+                    placeholder="e.g., BN-204"
+                    className="w-full px-3 py-2 bg-[#0d1117] border border-gray-700 rounded-lg text-white focus:outline-none focus:border-[#38bdbb]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-[#595d60] mb-1">
+                    Sheen
+                  </label>
+                  <select
+                    value={form.sheen || ''}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        sheen:
+                          (e.target.value as MaterialFormData['sheen']) || null,
+                      })
+                    }
+                    className="w-full px-3 py-2 bg-[#0d1117] border border-gray-700 rounded-lg text-white focus:outline-none focus:border-[#38bdbb]"
+                  >
+                    <option value="">Not set</option>
+                    {SHEEN_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <FileUpload
+                  value={form.texture_image_url || ''}
+                  onChange={(url) =>
+                    setForm({ ...form, texture_image_url: url || null })
+                  }
+                  onError={setFormError}
+                  accept="image/*"
+                  maxSize={20}
+                  label="Texture image"
+                  placeholder="Click to upload a texture sample"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm text-[#595d60] mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={form.notes || ''}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={3}
+                  placeholder="Application notes, supplier details..."
+                  className="w-full px-3 py-2 bg-[#0d1117] border border-gray-700 rounded-lg text-white focus:outline-none focus:border-[#38bdbb] resize-none"
+                />
+              </div>
+
+              {formError && (
+                <div className="p-3 bg-red-900/20 border border-red-700 rounded-lg text-sm text-red-400">
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex justify-end gap-3 pt-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setEditing(null)}
+                  className="border-gray-700 text-white hover:bg-[#222a31]"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="bg-[#38bdbb] text-white hover:bg-[#2ea9a7]"
+                >
+                  {saving ? 'Saving...' : 'Save Material'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
@@ -18,6 +18,11 @@ import { useTheme } from '@/lib/theme-context'
 import { Project } from '@/types'
 import { DashboardLayout } from '@/components/layout/DashboardLayout'
 import { formatDateForDisplay } from '@/lib/date-utils'
+import {
+  getProjectCompletion,
+  isProjectComplete,
+  statusLabel,
+} from '@/lib/status-workflow'
 
 export default function ProgressPage() {
   const { getProjects, loading, error } = useProject()
@@ -58,11 +63,22 @@ export default function ProgressPage() {
     return null
   }
 
-  // Filter for in-progress projects (those with items but not marked complete)
-  // You can extend this logic based on your status tracking
+  // In progress: has items and not everything in it has been rendered yet
   const inProgressProjects = projects.filter(
-    (p: any) => p.items && p.items.length > 0 && p.status !== 'completed'
+    (p) => p.items && p.items.length > 0 && !isProjectComplete(p)
+  )
+  const completionById = new Map(
+    inProgressProjects.map((p) => [p.id, getProjectCompletion(p)])
   )
+  const averageCompletion =
+    inProgressProjects.length > 0
+      ? Math.round(
+          Array.from(completionById.values()).reduce(
+            (sum, completion) => sum + completion.percent,
+            0
+          ) / inProgressProjects.length
+        )
+      : 0
 
   const totalItems = inProgressProjects.reduce(
     (sum: number, p: any) => sum + (p.items?.length || 0),
@@ -122,12 +138,12 @@ export default function ProgressPage() {
                 <Clock className="w-6 h-6 text-[#f9903c]" />
               </div>
               <div>
-                <p className="text-sm text-[#595d60]">Industrial Design</p>
-                <h3 className="text-3xl font-medium">{inProgressProjects.length}</h3>
+                <p className="text-sm text-[#595d60]">Average Completion</p>
+                <h3 className="text-3xl font-medium">{averageCompletion}%</h3>
               </div>
             </div>
             <p className="text-xs text-[#595d60]">
-              Projects with Industrial Design team
+              Weighted by version and part review status
             </p>
           </div>
         </div>
@@ -165,56 +181,71 @@ export default function ProgressPage() {
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {inProgressProjects.map((project: any) => (
-                <Link
-                  key={project.project_id}
-                  href={`/project/${project.project_id}`}
-                  className="bg-[#1a1e1f] rounded-2xl p-6 hover:bg-[#222a31] transition-colors group relative overflow-hidden"
-                >
-                  {/* Progress Indicator */}
-                  <div className="absolute top-0 left-0 right-0 h-1 bg-[#222a31]">
-                    <div className="h-full bg-[#f9903c] w-2/3 animate-pulse"></div>
-                  </div>
-
-                  <div className="flex items-start justify-between mb-4 mt-2">
-                    <span className="inline-flex px-3 py-1 rounded-full bg-[#f9903c]/10 text-[#f9903c] text-xs font-medium">
-                      In Progress
-                    </span>
-                    {project.is_owner ? (
-                      <span className="inline-flex px-2 py-1 rounded-full bg-[#38bdbb]/10 text-[#38bdbb] text-xs">
-                        Owner
-                      </span>
-                    ) : (
-                      <span className="inline-flex px-2 py-1 rounded-full bg-gray-500/10 text-gray-400 text-xs">
-                        Collaborator
+              {inProgressProjects.map((project: any) => {
+                const completion = completionById.get(project.id)!
+                return (
+                  <Link
+                    key={project.project_id}
+                    href={`/project/${project.project_id}`}
+                    className="bg-[#1a1e1f] rounded-2xl p-6 hover:bg-[#222a31] transition-colors group relative overflow-hidden"
+                  >
+                    {/* Progress Indicator */}
+                    <div className="absolute top-0 left-0 right-0 h-1 bg-[#222a31]">
+                      <div
+                        className="h-full bg-[#f9903c] transition-all"
+                        style={{ width: `${completion.percent}%` }}
+                      ></div>
+                    </div>
+
+                    <div className="flex items-start justify-between mb-4 mt-2">
+                      <span className="inline-flex px-3 py-1 rounded-full bg-[#f9903c]/10 text-[#f9903c] text-xs font-medium">
+                        {completion.percent}% Complete
                       </span>
-                    )}
-                  </div>
-
-                  <h3 className="text-lg font-medium text-white mb-2 line-clamp-1">
-                    {project.project_title}
-                  </h3>
-
-                  <div className="space-y-2 mb-4">
-                    <p className="text-sm text-[#595d60]">
-                      Retailer: {project.project_retailer}
-                    </p>
-                    <p className="text-sm text-[#595d60]">
-                      {project.items?.length || 0} items configured
-                    </p>
-                  </div>
-
-                  <div className="flex items-center gap-2 text-[#595d60] text-sm mb-4">
-                    <Calendar className="w-4 h-4 text-[#f9903c]" />
-                    <span>{formatDateForDisplay(project.created_at)}</span>
-                  </div>
-
-                  <div className="flex items-center gap-2 text-[#f9903c] group-hover:text-[#e88030] transition-colors text-sm font-medium">
-                    <Eye className="w-4 h-4" />
-                    <span>View Details</span>
-                  </div>
-                </Link>
-              ))}
+                      {project.is_owner ? (
+                        <span className="inline-flex px-2 py-1 rounded-full bg-[#38bdbb]/10 text-[#38bdbb] text-xs">
+                          Owner
+                        </span>
+                      ) : (
+                        <span className="inline-flex px-2 py-1 rounded-full bg-gray-500/10 text-gray-400 text-xs">
+                          Collaborator
+                        </span>
+                      )}
+                    </div>
+
+                    <h3 className="text-lg font-medium text-white mb-2 line-clamp-1">
+                      {project.project_title}
+                    </h3>
+
+                    <div className="space-y-2 mb-4">
+                      <p className="text-sm text-[#595d60]">
+                        Retailer: {project.project_retailer}
+                      </p>
+                      <p className="text-sm text-[#595d60]">
+                        {project.items?.length || 0} items configured
+                      </p>
+                      <p className="text-sm text-[#595d60]">
+                        {(['approved', 'rendered', 'in_review', 'changes_requested'] as const)
+                          .filter((status) => completion.counts[status] > 0)
+                          .map(
+                            (status) =>
+                              `${completion.counts[status]} ${statusLabel(status).toLowerCase()}`
+                          )
+                          .join(' · ') || 'Nothing submitted for review yet'}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-2 text-[#595d60] text-sm mb-4">
+                      <Calendar className="w-4 h-4 text-[#f9903c]" />
+                      <span>{formatDateForDisplay(project.created_at)}</span>
+                    </div>
+
+                    <div className="flex items-center gap-2 text-[#f9903c] group-hover:text-[#e88030] transition-colors text-sm font-medium">
+                      <Eye className="w-4 h-4" />
+                      <span>View Details</span>
+                    </div>
+                  </Link>
+                )
+              })}
             </div>
           </div>
         )}
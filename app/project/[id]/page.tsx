@@ -14,11 +14,13 @@ import {
   Calendar,
   Clock,
   PenTool,
+  LayoutTemplate,
 } from 'lucide-react'
 import { DashboardLayout } from '@/components/layout/DashboardLayout'
 import { useProject } from '@/hooks/useProject'
 import { EditProjectForm } from '@/components/project/edit-project-form'
 import { ProjectLogs } from '@/components/project/project-logs'
+import { ProjectWebhooks } from '@/components/project/project-webhooks'
 import { CollaboratorsList } from '@/components/project/collaborators-list'
 import { InviteUserModal } from '@/components/project/invite-user-modal'
 import { ExportProjectModal } from '@/components/project/export-project-modal'
@@ -30,6 +32,9 @@ import { formatDateForDisplay } from '@/lib/date-utils'
 import { EditableDueDate } from '@/components/project/editable-due-date'
 import { UserRoleDisplay } from '@/components/project/user-role-display'
 import { PermissionRequestModal } from '@/components/project/permission-request-modal'
+import { ItemComments } from '@/components/project/item-comments'
+import { useCommentThreads } from '@/hooks/useCommentThreads'
+import { SaveTemplateModal } from '@/components/project/save-template-modal'
 
 export default function ProjectPage() {
   const params = useParams()
@@ -41,8 +46,10 @@ export default function ProjectPage() {
   const [showInviteModal, setShowInviteModal] = useState(false)
   const [showExportModal, setShowExportModal] = useState(false)
   const [showPermissionModal, setShowPermissionModal] = useState(false)
+  const [showTemplateModal, setShowTemplateModal] = useState(false)
   const [canEdit, setCanEdit] = useState(false)
   const [logsRefreshTrigger, setLogsRefreshTrigger] = useState(0)
+  const commentThreads = useCommentThreads(params.id as string)
   const {
     exportToPowerPoint,
     isExporting,
@@ -64,6 +71,16 @@ export default function ProjectPage() {
     fetchProject()
   }, [params.id, getProject])
 
+  // Whiteboard links to an item land on #item-<id>; the items only exist
+  // once the project has loaded
+  const hasItems = !!project?.items?.length
+  useEffect(() => {
+    if (!hasItems || !window.location.hash.startsWith('#item-')) return
+    document
+      .getElementById(decodeURIComponent(window.location.hash.slice(1)))
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }, [hasItems])
+
   useEffect(() => {
     const getCurrentUser = async () => {
       const {
@@ -264,12 +281,19 @@ export default function ProjectPage() {
                 <PenTool className="w-4 h-4" />
                 <span>Whiteboard</span>
               </button>
+              <button
+                onClick={() => setShowTemplateModal(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-[#222a31] text-white rounded-lg hover:bg-[#2a3239] transition-colors"
+              >
+                <LayoutTemplate className="w-4 h-4" />
+                <span>Save as Template</span>
+              </button>
               <button
                 onClick={() => setShowExportModal(true)}
                 className="flex items-center gap-2 px-4 py-2 bg-[#222a31] text-white rounded-lg hover:bg-[#2a3239] transition-colors"
               >
                 <FileText className="w-4 h-4" />
-                <span>Export HTML</span>
+                <span>Export</span>
               </button>
               <button
                 onClick={() => {
@@ -314,7 +338,8 @@ export default function ProjectPage() {
                     {project.items.map((item, index) => (
                       <div
                         key={index}
-                        className="bg-[#0d1117] border border-gray-700 rounded-xl p-6"
+                        id={`item-${item.id}`}
+                        className="bg-[#0d1117] border border-gray-700 rounded-xl p-6 scroll-mt-6"
                       >
                         {/* Item Header */}
                         <h3 className="text-xl font-medium text-white mb-4">
@@ -324,15 +349,14 @@ export default function ProjectPage() {
                         {/* Hero Image */}
                         {item.hero_image && (
                           <div className="mb-6">
-                            <p className="text-sm font-medium text-[#595d60] mb-3">Hero Image</p>
+                            <p className="text-sm font-medium text-[#595d60] mb-3">Hero Image &amp; Comments</p>
                             <div className="space-y-3">
-                              <div className="w-full max-w-md h-48 bg-[#0d1117] rounded-lg border border-gray-700 flex items-center justify-center overflow-hidden">
-                              <img
-                                src={item.hero_image}
-                                alt={`Hero image for ${item.name}`}
-                                  className="max-w-full max-h-full object-contain"
+                              <ItemComments
+                                item={item}
+                                comments={commentThreads}
+                                currentUserId={currentUser?.id || null}
+                                canModerate={canEdit}
                               />
-                              </div>
                               <p className="text-xs text-[#595d60] font-mono break-all bg-[#070e0e] p-2 rounded">
                                 {item.hero_image}
                               </p>
@@ -498,6 +522,9 @@ export default function ProjectPage() {
                 onProjectRestored={handleProjectRestored}
                 refreshTrigger={logsRefreshTrigger}
               />
+
+              {/* Outgoing webhooks (owners and admins only) */}
+              <ProjectWebhooks projectId={project.id} />
             </div>
 
             {/* Sidebar - Collaborators */}
@@ -547,8 +574,6 @@ export default function ProjectPage() {
             onClose={() => setShowPermissionModal(false)}
             projectId={project.id}
             projectTitle={project.title}
-            projectOwnerId={project.user_id || ''}
-            currentUserEmail={currentUser?.email}
             action="edit this project"
           />
         )}
@@ -569,6 +594,13 @@ export default function ProjectPage() {
           />
         )}
 
+        {showTemplateModal && project && (
+          <SaveTemplateModal
+            project={project}
+            onClose={() => setShowTemplateModal(false)}
+          />
+        )}
+
         <ExportProgress
           isVisible={isExporting}
           currentStep={currentStep}
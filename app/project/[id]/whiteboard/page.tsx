@@ -2,18 +2,27 @@
 
 import React, { useCallback, useRef, useState, useEffect } from 'react'
 import Link from 'next/link'
-import { useParams, useRouter } from 'next/navigation'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import { Button } from '@/components/ui/button'
-import { ArrowLeft, Save, Cloud, CloudOff, Users, Loader2, RefreshCw, Maximize2 } from 'lucide-react'
+import { ArrowLeft, Save, Cloud, CloudOff, Users, Loader2, RefreshCw, Maximize2, History } from 'lucide-react'
 import { DashboardLayout } from '@/components/layout/DashboardLayout'
 import { ExcalidrawBoard, ExcalidrawBoardRef, ExcalidrawSnapshot } from '@/components/whiteboard'
 import { ExportMenu } from '@/components/whiteboard/ExportMenu'
+import { BoardEditsBanner } from '@/components/whiteboard/BoardEditsBanner'
+import { BoardHistoryPanel } from '@/components/whiteboard/BoardHistoryPanel'
+import { BoardSwitcher } from '@/components/whiteboard/BoardSwitcher'
+import { BoardLinkMenu } from '@/components/whiteboard/BoardLinkMenu'
 import { useProject } from '@/hooks/useProject'
 import { useExcalidrawBoard } from '@/hooks/useExcalidrawBoard'
 import { useExcalidrawCollab } from '@/hooks/useExcalidrawCollab'
+import { useBoardProjectSync } from '@/hooks/useBoardProjectSync'
+import { useProjectBoards } from '@/hooks/useProjectBoards'
 import { initializeProjectBoard, initializeProjectBoardWithImages, shouldInitializeBoard } from '@/components/whiteboard/initializeProjectBoard'
 import { Project } from '@/types'
 import { supabase } from '@/lib/supaClient'
+import { mergeElements } from '@/lib/board-sync'
+import { RemoteBoardChanges } from '@/lib/board-sync-client'
+import { getBoardLink, getItemLink, parseBoardLink } from '@/lib/board-links'
 
 type ExcalidrawElement = any
 type AppState = any
@@ -24,6 +33,9 @@ export default function WhiteboardPage() {
   const params = useParams()
   const router = useRouter()
   const projectId = params.id as string
+  // ?board= picks one of the project's boards; the main board has the project's id
+  const searchParams = useSearchParams()
+  const boardId = searchParams.get('board') || projectId
   
   const { getProject, loading: projectLoading, error: projectError } = useProject()
   const [project, setProject] = useState<Project | null>(null)
@@ -34,14 +46,21 @@ export default function WhiteboardPage() {
   const [excalidrawApi, setExcalidrawApi] = useState<ExcalidrawImperativeAPI | null>(null)
   const [isSaving, setIsSaving] = useState(false)
   const [isLoadingImages, setIsLoadingImages] = useState(false)
+  const [isUpdatingBoard, setIsUpdatingBoard] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
   const [initialSnapshot, setInitialSnapshot] = useState<ExcalidrawSnapshot | undefined>(undefined)
+  // The board initialSnapshot belongs to; Excalidraw is only shown for the open board
+  const [loadedBoardId, setLoadedBoardId] = useState<string | null>(null)
   const [isInitialized, setIsInitialized] = useState(false)
   const [theme, setTheme] = useState<'light' | 'dark'>('light')
-  
-  // Track if we're currently editing to avoid overwriting local changes
-  const isLocalEditingRef = useRef(false)
-  const localEditTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // Each board is set up once; later project updates reach it through useBoardProjectSync
+  const initialDataLoadedRef = useRef<string | null>(null)
 
+  const { boards, permission, error: boardsError, createBoard, renameBoard, setBoardPermissions, moveBoard, deleteBoard } = useProjectBoards(projectId)
+  const currentBoard = boards.find((entry) => entry.id === boardId)
+  // Until the list is loaded the API decides; it rejects edits the board doesn't allow
+  const canEditBoard = currentBoard ? currentBoard.can_edit : true
+  
   useEffect(() => {
     const fetchProject = async () => {
       if (projectId) {
@@ -60,91 +79,81 @@ export default function WhiteboardPage() {
     getCurrentUser()
   }, [])
 
-  const { board, loading: boardLoading, error: boardError, hasUnsavedChanges, lastSavedAt, updateLocalBoard, forceSave, fetchBoard, getInitialData } = useExcalidrawBoard(projectId, { autoSaveInterval: 3000, enableAutoSave: true, debounceMs: 1000 })
+  // Merge edits from collaborators element by element (lib/board-sync.ts).
+  // Text being typed here keeps its local copy; its next version wins anyway.
+  const applyRemoteChanges = useCallback((elements: ExcalidrawElement[], files?: BinaryFiles, appState?: Partial<AppState>) => {
+    const api = excalidrawApiRef.current
+    if (!api) return
+    const editingId = api.getAppState().editingTextElement?.id
+    if (files && Object.keys(files).length > 0) api.addFiles(Object.values(files))
+    api.updateScene({
+      elements: mergeElements(api.getSceneElementsIncludingDeleted(), elements, (id) => id === editingId),
+      ...(appState && Object.keys(appState).length > 0 && { appState }),
+    })
+  }, [])
+
+  const handleRemoteChanges = useCallback(({ elements, files, appState }: RemoteBoardChanges) => applyRemoteChanges(elements, files, appState), [applyRemoteChanges])
 
-  // Handle remote element changes from collaborators - update the scene instantly
-  const handleRemoteChange = useCallback((elements: ExcalidrawElement[]) => {
+  const { board, loading: boardLoading, error: boardError, hasUnsavedChanges, lastSavedAt, syncStatus, updateLocalBoard, receiveRemoteElements, catchUp, forceSave, fetchBoard, getInitialData } = useExcalidrawBoard(projectId, boardId, { autoSaveInterval: 3000, enableAutoSave: true, debounceMs: 1000, onRemoteChanges: handleRemoteChanges })
+
+  // Broadcast edits from collaborators
+  const handleRemoteChange = useCallback((elements: ExcalidrawElement[], files?: BinaryFiles) => {
     if (!excalidrawApiRef.current) return
-    
-    // Don't apply remote changes if user is actively editing (prevents conflicts)
-    if (isLocalEditingRef.current) {
-      // Merge remote changes with local - remote elements that aren't being edited locally
-      const currentElements = excalidrawApiRef.current.getSceneElements()
-      
-      // Add new elements from remote, update existing non-selected elements
-      const mergedElements = [...currentElements]
-      const selectedIds = new Set(
-        excalidrawApiRef.current.getAppState().selectedElementIds 
-          ? Object.keys(excalidrawApiRef.current.getAppState().selectedElementIds)
-          : []
-      )
-      
-      for (const remoteEl of elements) {
-        const localIndex = mergedElements.findIndex((el: any) => el.id === remoteEl.id)
-        if (localIndex === -1) {
-          // New element from remote - add it
-          mergedElements.push(remoteEl)
-        } else if (!selectedIds.has(remoteEl.id)) {
-          // Existing element not selected locally - update with remote version
-          mergedElements[localIndex] = remoteEl
-        }
-        // If element is selected locally, keep local version (user is editing it)
-      }
-      
-      excalidrawApiRef.current.updateScene({ elements: mergedElements })
-    } else {
-      // Not actively editing - apply remote changes directly
-      excalidrawApiRef.current.updateScene({ elements })
-    }
-  }, [])
+    receiveRemoteElements(elements, files)
+    applyRemoteChanges(elements, files)
+  }, [receiveRemoteElements, applyRemoteChanges])
 
-  const { isConnected: isCollabConnected, collaborators, broadcastElements, broadcastCursor, connect: connectCollab, disconnect: disconnectCollab } = useExcalidrawCollab(projectId, { 
+  const { isConnected: isCollabConnected, collaborators, broadcastElements, broadcastCursor, connect: connectCollab, disconnect: disconnectCollab } = useExcalidrawCollab(boardId, { 
     userName: currentUser?.email || 'User', 
     userId: currentUser?.id || 'user-id', 
     enableCursors: true,
     onRemoteChange: handleRemoteChange,
+    // Broadcasts sent while disconnected are gone; the saved operations aren't
+    onReconnect: catchUp,
     throttleMs: 16, // ~60fps for smooth updates
   })
 
-  // Load initial data with images asynchronously
+  // Load initial data with images asynchronously, once per board
   useEffect(() => {
     const loadInitialData = async () => {
-      if (!project || boardLoading) return
+      if (!project || boardLoading || boardError || board?.board_id !== boardId || initialDataLoadedRef.current === boardId) return
+      initialDataLoadedRef.current = boardId
+      // A switch to another board while images load makes this one stale
+      const show = (snapshot: ExcalidrawSnapshot | undefined) => { if (initialDataLoadedRef.current !== boardId) return; setInitialSnapshot(snapshot); setLoadedBoardId(boardId) }
       const existingData = getInitialData()
       if (existingData && existingData.elements && existingData.elements.length > 0) {
-        setInitialSnapshot(existingData as ExcalidrawSnapshot)
+        show(existingData as ExcalidrawSnapshot)
         return
       }
-      if (shouldInitializeBoard(project, existingData as ExcalidrawSnapshot | undefined)) {
+      // Only the main board starts out with the project's layout; other boards start empty
+      if (boardId === projectId && shouldInitializeBoard(project, existingData as ExcalidrawSnapshot | undefined)) {
         setIsLoadingImages(true)
         try {
           const initialData = await initializeProjectBoardWithImages(project, undefined, { theme })
-          setInitialSnapshot(initialData)
+          show(initialData)
         } catch (error) {
           console.error('Error loading board with images:', error)
           const initialData = initializeProjectBoard(project, undefined, { theme })
-          setInitialSnapshot(initialData)
+          show(initialData)
         } finally {
           setIsLoadingImages(false)
         }
         return
       }
-      setInitialSnapshot(existingData as ExcalidrawSnapshot | undefined)
+      show(existingData as ExcalidrawSnapshot | undefined)
     }
     loadInitialData()
-  }, [project, boardLoading, getInitialData, theme])
+  }, [project, projectId, board, boardId, boardLoading, boardError, getInitialData, theme])
+
+  // Cards bound to the project follow it; names and colors changed on the board can be written back
+  const { edits: boardEdits, staleCount, isApplying: isApplyingEdits, error: boardEditsError, checkBoard, applyEdits, revertEdits } = useBoardProjectSync(project, { api: excalidrawApi, onProjectUpdate: setProject })
 
   const handleBoardChange = useCallback((elements: readonly ExcalidrawElement[], appState: AppState, files: BinaryFiles) => {
-    // Mark as locally editing to prevent remote overwrites during active editing
-    isLocalEditingRef.current = true
-    if (localEditTimeoutRef.current) clearTimeout(localEditTimeoutRef.current)
-    localEditTimeoutRef.current = setTimeout(() => {
-      isLocalEditingRef.current = false
-    }, 500) // Consider editing done after 500ms of inactivity
-    
-    updateLocalBoard(elements, appState, files)
-    if (isCollabConnected) broadcastElements(elements)
-  }, [updateLocalBoard, isCollabConnected, broadcastElements])
+    // Only what changed is saved and broadcast
+    const change = updateLocalBoard(elements, appState, files)
+    if (change && isCollabConnected) broadcastElements(change.elements, change.files)
+    checkBoard(elements)
+  }, [updateLocalBoard, isCollabConnected, broadcastElements, checkBoard])
 
   const handlePointerUpdate = useCallback((payload: { pointer: { x: number; y: number }; button: string }) => {
     if (isCollabConnected) broadcastCursor(payload.pointer.x, payload.pointer.y)
@@ -163,12 +172,21 @@ export default function WhiteboardPage() {
     }
   }, [isInitialized, currentUser?.id, isCollabConnected, connectCollab])
 
-  // Cleanup local editing timeout on unmount
-  useEffect(() => {
-    return () => {
-      if (localEditTimeoutRef.current) clearTimeout(localEditTimeoutRef.current)
-    }
-  }, [])
+  // Switch boards in place; edits not sent yet go first
+  const handleSelectBoard = useCallback(async (id: string) => { await forceSave(); router.push(getBoardLink(projectId, id)) }, [forceSave, router, projectId])
+
+  // The next board gets its own Excalidraw instance, also when going back in the browser
+  useEffect(() => { excalidrawApiRef.current = null; setExcalidrawApi(null); setIsInitialized(false) }, [boardId])
+
+  // Links to this project's boards open here; items open on the project page
+  const handleLinkOpen = useCallback((element: ExcalidrawElement, event: CustomEvent) => {
+    const target = parseBoardLink(element.link, window.location.origin)
+    if (!target || target.projectId !== projectId) return
+    event.preventDefault()
+    if (target.type === 'item') { forceSave().then(() => router.push(getItemLink(projectId, target.itemId))); return }
+    if (boards.length > 0 && !boards.some((entry) => entry.id === target.boardId)) { window.alert("The linked board was deleted or you don't have access to it."); return }
+    if (target.boardId !== boardId) handleSelectBoard(target.boardId)
+  }, [projectId, boards, boardId, forceSave, router, handleSelectBoard])
 
   const handleSave = useCallback(async () => { setIsSaving(true); try { await forceSave() } finally { setIsSaving(false) } }, [forceSave])
 
@@ -179,20 +197,23 @@ export default function WhiteboardPage() {
 
   const handleResetView = useCallback(() => { if (boardRef.current) boardRef.current.resetView() }, [])
 
-  const handleRegenerateBoard = useCallback(async () => {
+  // Add cards for what was added to the project since; nothing on the board is replaced
+  const handleUpdateFromProject = useCallback(async () => {
     if (!excalidrawApi || !project) return
-    const confirmed = window.confirm('This will replace the current board with project data (including images). Continue?')
-    if (!confirmed) return
-    setIsLoadingImages(true)
+    const getScene = (): ExcalidrawSnapshot => ({ elements: excalidrawApi.getSceneElementsIncludingDeleted(), appState: excalidrawApi.getAppState(), files: excalidrawApi.getFiles() })
+    setIsUpdatingBoard(true)
     try {
-      const newData = await initializeProjectBoardWithImages(project, undefined, { force: true, theme })
-      excalidrawApi.updateScene({ elements: newData.elements, appState: newData.appState })
-      if (newData.files && Object.keys(newData.files).length > 0) excalidrawApi.addFiles(Object.values(newData.files))
+      const newData = await initializeProjectBoardWithImages(project, getScene(), { theme })
+      const scene = getScene()
+      const newFiles = Object.keys(newData.files).filter((id) => !scene.files[id]).map((id) => newData.files[id])
+      if (newFiles.length > 0) excalidrawApi.addFiles(newFiles)
+      excalidrawApi.updateScene({ elements: mergeElements(scene.elements, newData.elements) })
     } catch (error) {
-      console.error('Error regenerating board with images:', error)
-      const newData = initializeProjectBoard(project, undefined, { force: true, theme })
-      excalidrawApi.updateScene({ elements: newData.elements, appState: newData.appState })
-    } finally { setIsLoadingImages(false) }
+      console.error('Error updating board with images:', error)
+      const scene = getScene()
+      const newData = initializeProjectBoard(project, scene, { theme })
+      excalidrawApi.updateScene({ elements: mergeElements(scene.elements, newData.elements) })
+    } finally { setIsUpdatingBoard(false) }
   }, [excalidrawApi, project, theme])
 
   const handleSignOut = async () => { await supabase.auth.signOut(); router.push('/') }
@@ -213,22 +234,27 @@ export default function WhiteboardPage() {
             <button onClick={handleBack} className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors shrink-0"><ArrowLeft className="h-5 w-5" /><span className="hidden sm:inline">Back to Project</span></button>
             <div className="h-6 w-px bg-gray-300 hidden sm:block" />
             <h1 className="text-lg sm:text-xl font-semibold text-gray-900 truncate">{project.title}</h1>
+            <BoardSwitcher boards={boards} permission={permission} currentBoardId={boardId} currentUserId={currentUser?.id} onSelect={handleSelectBoard} onCreate={createBoard} onRename={renameBoard} onMove={moveBoard} onDelete={deleteBoard} onPermissionsChange={setBoardPermissions} error={boardsError} className="shrink-0" />
             <div className="flex items-center gap-2 text-sm shrink-0">
               {isCollabConnected ? (<span className="flex items-center gap-1 text-green-600"><Users className="h-4 w-4" /><span className="hidden sm:inline">{collaborators.length + 1} online</span></span>) : (<button onClick={connectCollab} className="flex items-center gap-1 text-gray-500 hover:text-blue-600 transition-colors" title="Connect for collaboration"><CloudOff className="h-4 w-4" /><span className="hidden sm:inline">Connect</span></button>)}
             </div>
             <div className="flex items-center gap-2 text-sm shrink-0">
-              {hasUnsavedChanges ? (<span className="text-amber-600 flex items-center gap-1" title="Unsaved changes"><span className="w-2 h-2 bg-amber-500 rounded-full animate-pulse" /><span className="hidden sm:inline">Unsaved</span></span>) : lastSavedAt ? (<span className="text-green-600 flex items-center gap-1" title={`Saved ${lastSavedAt.toLocaleTimeString()}`}><Cloud className="h-4 w-4" /><span className="hidden md:inline">Saved {lastSavedAt.toLocaleTimeString()}</span></span>) : null}
+              {hasUnsavedChanges && syncStatus === 'offline' ? (<span className="text-amber-600 flex items-center gap-1" title="Offline: changes are kept on this device and sent when the connection is back"><CloudOff className="h-4 w-4" /><span className="hidden sm:inline">Offline</span></span>) : hasUnsavedChanges ? (<span className="text-amber-600 flex items-center gap-1" title="Unsaved changes"><span className="w-2 h-2 bg-amber-500 rounded-full animate-pulse" /><span className="hidden sm:inline">Unsaved</span></span>) : lastSavedAt ? (<span className="text-green-600 flex items-center gap-1" title={`Saved ${lastSavedAt.toLocaleTimeString()}`}><Cloud className="h-4 w-4" /><span className="hidden md:inline">Saved {lastSavedAt.toLocaleTimeString()}</span></span>) : null}
             </div>
           </div>
           <div className="flex items-center gap-1 sm:gap-2 md:gap-3">
             <Button variant="ghost" size="sm" onClick={handleResetView} title="Reset view" className="h-8 w-8 sm:h-9 sm:w-9 p-0"><Maximize2 className="h-4 w-4" /></Button>
-            <Button variant="ghost" size="sm" onClick={handleRegenerateBoard} title="Regenerate from project data (with images)" className="h-8 w-8 sm:h-9 sm:w-9 p-0" disabled={isLoadingImages}><RefreshCw className={`h-4 w-4 ${isLoadingImages ? 'animate-spin' : ''}`} /></Button>
+            <Button variant={isHistoryOpen ? 'secondary' : 'ghost'} size="sm" onClick={() => setIsHistoryOpen((open) => !open)} title="Version history" className="h-8 w-8 sm:h-9 sm:w-9 p-0" disabled={!isInitialized}><History className="h-4 w-4" /></Button>
+            {canEditBoard && <BoardLinkMenu api={excalidrawApi} projectId={projectId} boards={boards} currentBoardId={boardId} items={project.items} disabled={!isInitialized} />}
+            <Button variant="ghost" size="sm" onClick={handleUpdateFromProject} title="Update from project data (with images)" className="h-8 w-8 sm:h-9 sm:w-9 p-0" disabled={!canEditBoard || isLoadingImages || isUpdatingBoard}><RefreshCw className={`h-4 w-4 ${isUpdatingBoard ? 'animate-spin' : ''}`} /></Button>
             <Button variant="outline" size="sm" onClick={handleSave} disabled={isSaving || !hasUnsavedChanges} className="border-green-300 text-green-600 hover:bg-green-50 h-8 sm:h-9 px-2 sm:px-3" title="Save whiteboard">{isSaving ? (<Loader2 className="h-4 w-4 animate-spin" />) : (<Save className="h-4 w-4" />)}<span className="hidden sm:inline ml-2">Save</span></Button>
-            <ExportMenu boardRef={boardRef} projectName={project.title} disabled={boardLoading || !isInitialized} />
+            <ExportMenu boardRef={boardRef} projectName={currentBoard && boardId !== projectId ? `${project.title} ${currentBoard.name}` : project.title} disabled={boardLoading || !isInitialized} />
           </div>
         </div>
         <div className="flex-1 relative min-h-0 bg-white">
-          {boardLoading || isLoadingImages ? (<div className="absolute inset-0 flex items-center justify-center bg-gray-50"><div className="text-center"><Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" /><p className="text-gray-600">{isLoadingImages ? 'Loading images from project items...' : 'Loading whiteboard...'}</p></div></div>) : boardError ? (<div className="absolute inset-0 flex items-center justify-center bg-gray-50"><div className="text-center max-w-md"><p className="text-red-600 mb-4">{boardError}</p><Button onClick={fetchBoard} disabled={boardLoading}>Retry</Button></div></div>) : (<div className="absolute inset-0"><ExcalidrawBoard ref={boardRef} projectId={projectId} initialData={initialSnapshot} theme={theme} onChange={handleBoardChange} onPointerUpdate={handlePointerUpdate} onReady={handleReady} debounceMs={100} isCollaborating={isCollabConnected} onCollaborationTrigger={isCollabConnected ? disconnectCollab : connectCollab} className="w-full h-full" /></div>)}
+          {boardLoading || isLoadingImages ? (<div className="absolute inset-0 flex items-center justify-center bg-gray-50"><div className="text-center"><Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" /><p className="text-gray-600">{isLoadingImages ? 'Loading images from project items...' : 'Loading whiteboard...'}</p></div></div>) : boardError ? (<div className="absolute inset-0 flex items-center justify-center bg-gray-50"><div className="text-center max-w-md"><p className="text-red-600 mb-4">{boardError}</p><Button onClick={fetchBoard} disabled={boardLoading}>Retry</Button></div></div>) : loadedBoardId !== boardId ? (<div className="absolute inset-0 flex items-center justify-center bg-gray-50"><Loader2 className="h-12 w-12 animate-spin text-blue-600" /></div>) : (<div className="absolute inset-0"><ExcalidrawBoard key={boardId} ref={boardRef} projectId={projectId} initialData={initialSnapshot} readOnly={!canEditBoard} theme={theme} onChange={handleBoardChange} onPointerUpdate={handlePointerUpdate} onReady={handleReady} onLinkOpen={handleLinkOpen} debounceMs={100} isCollaborating={isCollabConnected} onCollaborationTrigger={isCollabConnected ? disconnectCollab : connectCollab} className="w-full h-full" /></div>)}
+          <BoardEditsBanner edits={boardEdits} staleCount={staleCount} isApplying={isApplyingEdits} error={boardEditsError} onApply={applyEdits} onRevert={revertEdits} className="absolute top-4 right-4 z-10" />
+          <BoardHistoryPanel projectId={projectId} boardId={boardId} api={excalidrawApi} forceSave={forceSave} isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} canEdit={canEditBoard} />
         </div>
         {isCollabConnected && collaborators.length > 0 && (<div className="absolute bottom-4 left-4 flex items-center gap-2 bg-white/90 backdrop-blur-sm rounded-full px-3 py-2 shadow-lg z-10"><span className="text-xs text-gray-500 mr-1 hidden sm:inline">Collaborators:</span>{collaborators.slice(0, 5).map((collab) => (<div key={collab.userId} className="w-6 h-6 sm:w-8 sm:h-8 rounded-full flex items-center justify-center text-white text-[10px] sm:text-xs font-medium" style={{ backgroundColor: collab.color }} title={collab.userName}>{collab.userName.charAt(0).toUpperCase()}</div>))}{collaborators.length > 5 && (<div className="w-6 h-6 sm:w-8 sm:h-8 rounded-full flex items-center justify-center bg-gray-400 text-white text-[10px] sm:text-xs font-medium">+{collaborators.length - 5}</div>)}</div>)}
       </div>
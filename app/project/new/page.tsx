@@ -1,8 +1,19 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { Upload, Plus, X, Check, ArrowLeft, ArrowRight } from 'lucide-react'
+import {
+  Upload,
+  Plus,
+  X,
+  Check,
+  ArrowLeft,
+  ArrowRight,
+  FilePlus,
+  LayoutTemplate,
+  Copy,
+  Trash2,
+} from 'lucide-react'
 import { AnimatedProgressBar } from '@/components/ui/animated-progress-bar'
 import { FileUpload } from '@/components/ui/file-upload'
 import { BulkFileUpload } from '@/components/ui/bulk-file-upload'
@@ -15,6 +26,18 @@ import { ThemedButton } from '@/components/ui/themed-button'
 import { useAuth } from '@/lib/auth-context'
 import { getUserDefaultDueDate } from '@/lib/user-settings'
 import { calculateDefaultDueDate, dateInputToISO } from '@/lib/date-utils'
+import { applyItemDetails, pickItemDetails } from '@/lib/item-details'
+import { useProjectTemplates } from '@/hooks/useProjectTemplates'
+import {
+  applyProjectTemplate,
+  createProjectFromExisting,
+} from '@/lib/project-templates'
+import { ItemDetails, Project, ProjectTemplate } from '@/types'
+
+type StartFrom =
+  | { type: 'blank' }
+  | { type: 'template'; template: ProjectTemplate }
+  | { type: 'project'; project: Project }
 
 const steps = [
   { id: 1, title: 'Project Details', description: 'Basic project information' },
@@ -25,7 +48,7 @@ const steps = [
 
 export default function NewProjectPage() {
   const router = useRouter()
-  const { createProject, loading, error } = useProject()
+  const { createProject, getProjects, loading, error } = useProject()
   const { colors } = useTheme()
   const { user } = useAuth()
   const [currentStep, setCurrentStep] = useState(1)
@@ -37,20 +60,61 @@ export default function NewProjectPage() {
     items: [] as any[],
   })
   const [editingItemIndex, setEditingItemIndex] = useState<number | null>(null)
+  const [startFrom, setStartFrom] = useState<StartFrom>({ type: 'blank' })
+  const [projects, setProjects] = useState<Project[]>([])
+  const [cloning, setCloning] = useState(false)
+  const projectTemplates = useProjectTemplates()
   const { showSuccess, showError, NotificationContainer } = useNotification()
 
+  useEffect(() => {
+    getProjects().then(setProjects)
+  }, [getProjects])
+
+  // A copied project keeps its items as they are, so the item steps are skipped
+  const cloneSource = startFrom.type === 'project' ? startFrom.project : null
+
   const handleNext = () => {
+    if (cloneSource && currentStep === 1) {
+      setCurrentStep(steps.length)
+      return
+    }
     if (currentStep < steps.length) {
       setCurrentStep(currentStep + 1)
     }
   }
 
   const handlePrevious = () => {
+    if (cloneSource && currentStep === steps.length) {
+      setCurrentStep(1)
+      return
+    }
     if (currentStep > 1) {
       setCurrentStep(currentStep - 1)
     }
   }
 
+  const handleStartFrom = (next: StartFrom) => {
+    setStartFrom(next)
+    if (next.type === 'template') {
+      const fields = applyProjectTemplate(next.template)
+      setFormData({
+        ...formData,
+        retailer: fields.retailer || formData.retailer,
+        due_date: fields.due_date || formData.due_date,
+        items: fields.items,
+      })
+    } else if (next.type === 'project') {
+      setFormData({
+        ...formData,
+        title: formData.title || `${next.project.title} (Copy)`,
+        retailer: formData.retailer || next.project.retailer,
+        items: [],
+      })
+    } else {
+      setFormData({ ...formData, items: [] })
+    }
+  }
+
   const handleSubmit = async () => {
     try {
       // Convert date input (YYYY-MM-DD) to ISO string using UTC to avoid timezone shifts
@@ -68,20 +132,47 @@ export default function NewProjectPage() {
         )
       }
 
+      if (cloneSource) {
+        setCloning(true)
+        const project = await createProjectFromExisting(cloneSource.id, {
+          title: formData.title,
+          retailer: formData.retailer,
+          due_date: dueDate,
+        })
+        if (project.failed_assets.length > 0) {
+          showError(
+            'Some Files Not Copied',
+            `${project.failed_assets.length} file(s) still point at "${cloneSource.title}".`
+          )
+        }
+        showSuccess('Project Created', `Copied from "${cloneSource.title}".`)
+        router.push(`/project/success?id=${project.id}&title=${encodeURIComponent(project.title)}`)
+        return
+      }
+
+      // Items from a template carry their versions and groups along
       const cleanData = {
         title: formData.title,
         retailer: formData.retailer,
         due_date: dueDate,
         items: formData.items.map((item: any) => ({
+          id: item.id,
           name: item.name,
           hero_image: item.hero_image || '',
+          ...pickItemDetails(item),
           parts: (item.parts || []).map((part: any) => ({
+            id: part.id,
             name: part.name,
             finish: part.finish,
             color: part.color || '',
             texture: part.texture,
             files: part.files || [],
+            notes: part.notes,
+            groupId: part.groupId,
+            material_id: part.material_id,
           })),
+          ...(item.versions && { versions: item.versions }),
+          ...(item.groups && { groups: item.groups }),
         })),
       }
 
@@ -92,9 +183,11 @@ export default function NewProjectPage() {
       }
     } catch (err) {
       console.error('Failed to create project:', err)
-      const errorMessage = 'Failed to create project'
+      const errorMessage = err instanceof Error && cloneSource ? err.message : 'Failed to create project'
       setLocalError(errorMessage)
       showError('Creation Failed', errorMessage)
+    } finally {
+      setCloning(false)
     }
   }
 
@@ -107,7 +200,7 @@ export default function NewProjectPage() {
       case 3:
         return formData.items.length > 0 && formData.items.every((item: any) => item.name)
       case 4:
-        return formData.title && formData.retailer && formData.items.length > 0
+        return formData.title && formData.retailer && (cloneSource || formData.items.length > 0)
       default:
         return false
     }
@@ -136,6 +229,17 @@ export default function NewProjectPage() {
     }
   }
 
+  const handleBulkUpdate = (indexes: number[], changes: ItemDetails) => {
+    setFormData({
+      ...formData,
+      items: applyItemDetails(
+        formData.items,
+        (_, index) => indexes.includes(index),
+        changes
+      ),
+    })
+  }
+
   const handleAddItemFromOverview = () => {
     setCurrentStep(2)
   }
@@ -154,7 +258,20 @@ export default function NewProjectPage() {
 
     switch (currentStep) {
       case 1:
-        return <ProjectDetailsStep formData={formData} setFormData={setFormData} colors={colors} />
+        return (
+          <div className="space-y-10">
+            <StartFromSection
+              startFrom={startFrom}
+              onChange={handleStartFrom}
+              templates={projectTemplates.templates}
+              projects={projects}
+              canDeleteTemplate={projectTemplates.canDelete}
+              onDeleteTemplate={projectTemplates.remove}
+              colors={colors}
+            />
+            <ProjectDetailsStep formData={formData} setFormData={setFormData} colors={colors} />
+          </div>
+        )
       case 2:
         return <ItemsStep formData={formData} setFormData={setFormData} colors={colors} />
       case 3:
@@ -164,10 +281,11 @@ export default function NewProjectPage() {
             onEditItem={handleEditItem}
             onDeleteItem={handleDeleteItem}
             onAddItem={handleAddItemFromOverview}
+            onBulkUpdate={handleBulkUpdate}
           />
         )
       case 4:
-        return <ReviewStep formData={formData} colors={colors} />
+        return <ReviewStep formData={formData} cloneSource={cloneSource} colors={colors} />
       default:
         return null
     }
@@ -242,10 +360,10 @@ export default function NewProjectPage() {
             ) : (
               <ThemedButton
                 onClick={handleSubmit}
-                disabled={loading || !isStepComplete(currentStep)}
+                disabled={loading || cloning || !isStepComplete(currentStep)}
                 variant="primary"
               >
-                {loading ? (
+                {loading || cloning ? (
                   <>
                     <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
                     Creating...
@@ -271,6 +389,139 @@ function cn(...classes: (string | boolean | undefined)[]) {
   return classes.filter(Boolean).join(' ')
 }
 
+function StartFromSection({
+  startFrom,
+  onChange,
+  templates,
+  projects,
+  canDeleteTemplate,
+  onDeleteTemplate,
+  colors,
+}: {
+  startFrom: StartFrom
+  onChange: (next: StartFrom) => void
+  templates: ProjectTemplate[]
+  projects: Project[]
+  canDeleteTemplate: (template: ProjectTemplate) => boolean
+  onDeleteTemplate: (id: string) => Promise<void>
+  colors: any
+}) {
+  const options = [
+    { type: 'blank' as const, icon: FilePlus, title: 'Blank Project', description: 'Start with no items' },
+    { type: 'template' as const, icon: LayoutTemplate, title: 'From Template', description: 'Items, versions and parts from a saved template' },
+    { type: 'project' as const, icon: Copy, title: 'Copy a Project', description: 'Everything, including images and the whiteboard' },
+  ]
+  const [mode, setMode] = useState<StartFrom['type']>(startFrom.type)
+
+  const selectClassName =
+    'w-full px-4 py-3 bg-[#0d1117] border border-gray-700 rounded-lg text-white focus:border-[#38bdbb] focus:ring-1 focus:ring-[#38bdbb] transition-colors'
+
+  const handleDeleteTemplate = async (template: ProjectTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return
+    try {
+      await onDeleteTemplate(template.id)
+      if (startFrom.type === 'template' && startFrom.template.id === template.id) {
+        onChange({ type: 'blank' })
+      }
+    } catch (err) {
+      console.error('Error deleting project template:', err)
+    }
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-white mb-3">Start From</label>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {options.map((option) => {
+          const Icon = option.icon
+          const active = mode === option.type
+          return (
+            <button
+              key={option.type}
+              onClick={() => {
+                setMode(option.type)
+                if (option.type === 'blank') onChange({ type: 'blank' })
+              }}
+              className="text-left p-4 bg-[#0d1117] border rounded-xl transition-colors"
+              style={{ borderColor: active ? colors.primary : '#374151' }}
+            >
+              <Icon className="w-5 h-5 mb-2" style={{ color: active ? colors.primary : '#595d60' }} />
+              <div className="font-medium text-white">{option.title}</div>
+              <div className="text-xs text-[#595d60] mt-1">{option.description}</div>
+            </button>
+          )
+        })}
+      </div>
+
+      {mode === 'template' && (
+        <div className="mt-4 space-y-2">
+          {templates.length === 0 && (
+            <p className="text-sm text-[#595d60]">
+              No templates yet. Use "Save as Template" on any project page to create one.
+            </p>
+          )}
+          {templates.map((template) => {
+            const selected = startFrom.type === 'template' && startFrom.template.id === template.id
+            return (
+              <div
+                key={template.id}
+                onClick={() => onChange({ type: 'template', template })}
+                className="flex items-center justify-between gap-4 p-4 bg-[#0d1117] border rounded-lg cursor-pointer transition-colors"
+                style={{ borderColor: selected ? colors.primary : '#374151' }}
+              >
+                <div>
+                  <div className="font-medium text-white">{template.name}</div>
+                  <div className="text-xs text-[#595d60] mt-1">
+                    {[
+                      template.retailer,
+                      `${template.items.length} item${template.items.length !== 1 ? 's' : ''}`,
+                      template.due_in_days !== null && `due in ${template.due_in_days} days`,
+                      template.description,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                </div>
+                {canDeleteTemplate(template) && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDeleteTemplate(template)
+                    }}
+                    className="p-2 text-red-400 hover:bg-red-900/20 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {mode === 'project' && (
+        <div className="mt-4">
+          <select
+            value={startFrom.type === 'project' ? startFrom.project.id : ''}
+            onChange={(e) => {
+              const project = projects.find((p) => p.id === e.target.value)
+              onChange(project ? { type: 'project', project } : { type: 'blank' })
+            }}
+            className={selectClassName}
+          >
+            <option value="" className="bg-[#1a1e1f]">Select a project to copy</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id} className="bg-[#1a1e1f]">
+                {project.title} ({project.retailer}, {project.items.length} items)
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  )
+}
+
 function ProjectDetailsStep({ formData, setFormData, colors }: any) {
   const [showCustomRetailer, setShowCustomRetailer] = useState(false)
   const [customRetailer, setCustomRetailer] = useState('')
@@ -638,7 +889,9 @@ function ItemsStep({ formData, setFormData, colors }: any) {
   )
 }
 
-function ReviewStep({ formData, colors }: any) {
+function ReviewStep({ formData, cloneSource, colors }: any) {
+  const items = cloneSource ? cloneSource.items : formData.items
+
   return (
     <div className="space-y-8">
       {/* Project Details */}
@@ -667,10 +920,10 @@ function ReviewStep({ formData, colors }: any) {
       {/* Items */}
       <div>
         <h3 className="text-xl font-medium text-white mb-6">
-          Items ({formData.items.length})
+          Items ({items.length})
         </h3>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {formData.items.map((item: any, index: number) => (
+          {items.map((item: any, index: number) => (
             <div key={index} className="bg-[#0d1117] rounded-xl overflow-hidden border border-gray-700">
               {item.hero_image ? (
                 <img
@@ -701,8 +954,10 @@ function ReviewStep({ formData, colors }: any) {
           <div>
             <h4 className="text-lg font-medium text-white mb-2">Ready to Create</h4>
             <p className="text-[#595d60]">
-              Your project is configured with {formData.items.length} item
-              {formData.items.length !== 1 ? 's' : ''}. Click "Create Project" to finalize.
+              {cloneSource
+                ? `The ${items.length} item${items.length !== 1 ? 's' : ''} of "${cloneSource.title}" will be copied along with their images, files and whiteboard.`
+                : `Your project is configured with ${items.length} item${items.length !== 1 ? 's' : ''}.`}{' '}
+              Click "Create Project" to finalize.
             </p>
           </div>
         </div>
@@ -14,6 +14,7 @@ import {
   Camera,
 } from 'lucide-react'
 import { FileUpload } from '@/components/ui/file-upload'
+import { PersonalAccessTokens } from '@/components/settings/personal-access-tokens'
 import { useAuth } from '@/lib/auth-context'
 import { useTheme } from '@/lib/theme-context'
 import { DashboardLayout } from '@/components/layout/DashboardLayout'
@@ -549,7 +550,7 @@ export default function SettingsPage() {
                   <div>
                     <h2 className="text-2xl font-medium mb-6">Security Settings</h2>
                     <p className="text-[#595d60] mb-6">
-                      Manage your password and authentication settings
+                      Manage your password, sessions and API tokens
                     </p>
                   </div>
 
@@ -579,6 +580,8 @@ export default function SettingsPage() {
                     </div>
                   </div>
 
+                  <PersonalAccessTokens />
+
                   <div className="bg-[#0d1117] border border-gray-700 rounded-xl p-6">
                     <div className="flex items-start gap-4">
                       <div className="w-12 h-12 bg-red-500/10 rounded-lg flex items-center justify-center flex-shrink-0">
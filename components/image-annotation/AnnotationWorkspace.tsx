@@ -4,7 +4,7 @@ import React, { useCallback } from 'react'
 import { ImageCanvas } from './ImageCanvas'
 import { FileUpload } from './FileUpload'
 import { ImageTabs } from './ImageTabs'
-import { useImageManager } from './useImageManager'
+import { getCanvasImage, useImageManager } from './useImageManager'
 import { useFileUpload } from './useFileUpload'
 import { Button } from '@/components/ui/button'
 import {
@@ -28,6 +28,7 @@ export function AnnotationWorkspace({
     addImages,
     removeImage,
     setActiveImage,
+    setImageAngle,
     getActiveImage,
     togglePlacementMode,
     addAnnotationPoint,
@@ -128,18 +129,7 @@ export function AnnotationWorkspace({
             <CardContent>
               <div className="relative" onClick={handleCanvasClick}>
                 <ImageCanvas
-                  image={
-                    activeImage
-                      ? {
-                          id: activeImage.id,
-                          src: activeImage.src,
-                          width: activeImage.width,
-                          height: activeImage.height,
-                          name: activeImage.name,
-                          uploadedAt: activeImage.uploadedAt,
-                        }
-                      : undefined
-                  }
+                  image={activeImage ? getCanvasImage(activeImage) : undefined}
                   className="w-full h-[600px]"
                 />
 
@@ -191,6 +181,7 @@ export function AnnotationWorkspace({
                 activeImageId={imageState.activeImageId}
                 onImageSelect={setActiveImage}
                 onImageRemove={removeImage}
+                onAngleChange={setImageAngle}
               />
             </CardContent>
           </Card>
@@ -4,12 +4,15 @@ import React from 'react'
 import { ManagedImage } from './useImageManager'
 import { Button } from '@/components/ui/button'
 import { X, Image as ImageIcon } from 'lucide-react'
+import { IMAGE_ANGLES, getAngleLabel } from '@/lib/item-images'
+import { ImageAngle } from '@/types'
 
 interface ImageTabsProps {
   images: ManagedImage[]
   activeImageId: string | null
   onImageSelect: (imageId: string) => void
   onImageRemove: (imageId: string) => void
+  onAngleChange?: (imageId: string, angle: ImageAngle) => void
   className?: string
 }
 
@@ -18,8 +21,11 @@ export function ImageTabs({
   activeImageId,
   onImageSelect,
   onImageRemove,
+  onAngleChange,
   className = '',
 }: ImageTabsProps) {
+  const activeImage = images.find((img) => img.id === activeImageId)
+
   if (images.length === 0) {
     return (
       <div className={`text-center text-gray-500 py-4 ${className}`}>
@@ -60,7 +66,7 @@ export function ImageTabs({
               {/* Thumbnail */}
               <div className="w-6 h-6 rounded overflow-hidden flex-shrink-0">
                 <img
-                  src={image.src}
+                  src={image.derivatives?.sizes.thumb.webp || image.src}
                   alt={image.name}
                   className="w-full h-full object-cover"
                 />
@@ -71,6 +77,13 @@ export function ImageTabs({
                 {image.name}
               </span>
 
+              {/* Camera Angle */}
+              {image.angle && image.name !== getAngleLabel(image.angle) && (
+                <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                  {getAngleLabel(image.angle)}
+                </span>
+              )}
+
               {/* Annotation Count */}
               {image.annotations.length > 0 && (
                 <span
@@ -109,19 +122,36 @@ export function ImageTabs({
       </div>
 
       {/* Image Info */}
-      {activeImageId && (
+      {activeImage && (
         <div className="mt-3 p-3 bg-gray-50 rounded-lg">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <span className="text-sm font-medium text-gray-700">
-                Active: {images.find((img) => img.id === activeImageId)?.name}
+                Active: {activeImage.name}
               </span>
               <span className="text-xs text-gray-500">
-                {images.find((img) => img.id === activeImageId)?.annotations
-                  .length || 0}{' '}
-                annotations
+                {activeImage.annotations.length} annotations
               </span>
             </div>
+            {onAngleChange && (
+              <select
+                value={activeImage.angle || ''}
+                onChange={(e) =>
+                  onAngleChange(activeImage.id, e.target.value as ImageAngle)
+                }
+                className="text-xs border border-gray-200 rounded px-2 py-1 bg-white"
+                title="Camera angle"
+              >
+                <option value="" disabled>
+                  Camera angle
+                </option>
+                {IMAGE_ANGLES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
         </div>
       )}
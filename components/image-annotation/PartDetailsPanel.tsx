@@ -12,6 +12,10 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { ColorPicker } from '@/components/ui/color-picker'
+import { MaterialPicker } from '@/components/ui/material-picker'
+import { useMaterials } from '@/hooks/useMaterials'
+import { findMaterial, materialPartFields } from '@/lib/materials'
+import { Material } from '@/types'
 import {
   X,
   Save,
@@ -21,6 +25,7 @@ import {
   FileText,
   Tag,
   CheckCircle,
+  Layers,
 } from 'lucide-react'
 
 interface PartDetails {
@@ -31,6 +36,7 @@ interface PartDetails {
   texture: string
   groupId?: string
   notes?: string
+  material_id?: string | null
 }
 
 interface PartDetailsPanelProps {
@@ -66,6 +72,7 @@ export function PartDetailsPanel({
   const [newGroupName, setNewGroupName] = useState('')
   const [newGroupColor, setNewGroupColor] = useState('#3b82f6')
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const { library, materials } = useMaterials([part?.material_id])
 
   // Sync local state with prop changes
   useEffect(() => {
@@ -115,6 +122,25 @@ export function PartDetailsPanel({
     debouncedSave(field, value)
   }
 
+  // Picking a library material fills in finish and color and saves at once
+  const handleMaterialSelect = (material: Material | null) => {
+    if (!localPart) return
+    const fields = materialPartFields(material)
+    setLocalPart({ ...localPart, ...fields })
+    onUpdate(localPart.id, fields)
+  }
+
+  // A hand-typed finish unlinks the library material
+  const handleFinishChange = (value: string) => {
+    if (localPart?.material_id) {
+      setLocalPart({ ...localPart, finish: value, material_id: null })
+      onUpdate(localPart.id, { material_id: null })
+      debouncedSave('finish', value)
+    } else {
+      handleFieldChange('finish', value)
+    }
+  }
+
   // Handle save
   const handleSave = () => {
     if (!localPart) return
@@ -235,6 +261,19 @@ export function PartDetailsPanel({
             />
           </div>
 
+          {/* Material */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700 flex items-center gap-2">
+              <Layers className="w-4 h-4" />
+              Material
+            </Label>
+            <MaterialPicker
+              library={library}
+              selected={findMaterial(materials, localPart?.material_id)}
+              onSelect={handleMaterialSelect}
+            />
+          </div>
+
           {/* Finish */}
           <div className="space-y-2">
             <Label
@@ -247,7 +286,7 @@ export function PartDetailsPanel({
             <Input
               id="part-finish"
               value={localPart?.finish || ''}
-              onChange={(e) => handleFieldChange('finish', e.target.value)}
+              onChange={(e) => handleFinishChange(e.target.value)}
               placeholder="e.g., Matte, Glossy, Textured"
               className="w-full"
             />
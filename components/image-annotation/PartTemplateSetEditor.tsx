@@ -0,0 +1,566 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { History, Plus, Save, Trash2, X } from 'lucide-react'
+import {
+  TEMPLATE_ICONS,
+  createTemplateId,
+  fetchTemplateSetVersions,
+} from '@/lib/part-templates'
+import {
+  PartTemplate,
+  PartTemplateIcon,
+  PartTemplatePart,
+  PartTemplateScope,
+  PartTemplateSet,
+  PartTemplateSetVersion,
+} from '@/types'
+import {
+  PartTemplateSetFormData,
+  partTemplateIconSchema,
+  partTemplateSetSchema,
+} from '@/types/schemas'
+
+interface PartTemplateSetEditorProps {
+  /** The set to edit, or null to create one */
+  set: PartTemplateSet | null
+  /** False when the user has no team to share with */
+  canShareWithTeam: boolean
+  /** Only admins can share sets with everyone */
+  canShareGlobally: boolean
+  onSave: (values: PartTemplateSetFormData) => Promise<unknown>
+  onDelete?: () => Promise<void>
+  onRestoreVersion?: (version: PartTemplateSetVersion) => Promise<unknown>
+  onClose: () => void
+}
+
+const SCOPE_OPTIONS: { value: PartTemplateScope; label: string }[] = [
+  { value: 'user', label: 'Only me' },
+  { value: 'team', label: 'My team' },
+  { value: 'global', label: 'Everyone' },
+]
+
+const selectClassName =
+  'h-10 w-full rounded-md border border-input bg-background px-3 text-sm'
+
+const newPart = (index: number): PartTemplatePart => ({
+  name: `Part ${index + 1}`,
+  finish: 'Matte',
+  color: '#3B82F6',
+  texture: 'Smooth',
+  notes: '',
+  offset_x: 0,
+  offset_y: 0,
+})
+
+const newTemplate = (): PartTemplate => ({
+  id: createTemplateId(),
+  name: 'New Template',
+  category: 'Other',
+  description: '',
+  icon: 'package',
+  tags: [],
+  parts: [newPart(0)],
+})
+
+/**
+ * Modal for editing a template set: its name, who it's shared with, and the
+ * templates in it. A template with more than one part is dropped as a kit,
+ * each part placed at its offset from where the kit lands.
+ */
+export function PartTemplateSetEditor({
+  set,
+  canShareWithTeam,
+  canShareGlobally,
+  onSave,
+  onDelete,
+  onRestoreVersion,
+  onClose,
+}: PartTemplateSetEditorProps) {
+  const [name, setName] = useState(set?.name || '')
+  const [description, setDescription] = useState(set?.description || '')
+  const [scope, setScope] = useState<PartTemplateScope>(set?.scope || 'user')
+  const [templates, setTemplates] = useState<PartTemplate[]>(
+    set?.templates.length ? set.templates : [newTemplate()]
+  )
+  const [expandedId, setExpandedId] = useState<string | null>(
+    set ? null : templates[0]?.id || null
+  )
+  const [versions, setVersions] = useState<PartTemplateSetVersion[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!set || !showHistory) return
+    fetchTemplateSetVersions(set.id)
+      .then(setVersions)
+      .catch((err) => {
+        console.error('Error fetching template set versions:', err)
+        setError('Failed to load version history')
+      })
+  }, [set, showHistory])
+
+  const updateTemplate = (id: string, updates: Partial<PartTemplate>) =>
+    setTemplates((current) =>
+      current.map((template) =>
+        template.id === id ? { ...template, ...updates } : template
+      )
+    )
+
+  const updatePart = (
+    template: PartTemplate,
+    index: number,
+    updates: Partial<PartTemplatePart>
+  ) =>
+    updateTemplate(template.id, {
+      parts: template.parts.map((part, i) =>
+        i === index ? { ...part, ...updates } : part
+      ),
+    })
+
+  const addTemplate = () => {
+    const template = newTemplate()
+    setTemplates((current) => [...current, template])
+    setExpandedId(template.id)
+  }
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true)
+      setError(null)
+      await action()
+      onClose()
+    } catch (err) {
+      console.error('Error saving template set:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = () => {
+    const result = partTemplateSetSchema.safeParse({
+      name,
+      description: description.trim() || null,
+      scope,
+      templates,
+    })
+    if (!result.success) {
+      setError(result.error.issues[0].message)
+      return
+    }
+    run(() => onSave(result.data))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <CardHeader className="border-b">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>
+                {set ? 'Edit Template Set' : 'New Template Set'}
+              </CardTitle>
+              <CardDescription>
+                {set
+                  ? `Version ${set.version} · last saved ${new Date(set.updated_at).toLocaleString()}`
+                  : 'Group templates for a product line, like furniture or lighting'}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {set && onRestoreVersion && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowHistory(!showHistory)}
+                >
+                  <History className="w-4 h-4 mr-1" />
+                  History
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="flex-1 overflow-y-auto space-y-6 pt-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {showHistory && set && onRestoreVersion && (
+            <div className="border rounded-lg divide-y">
+              {versions.map((version) => (
+                <div
+                  key={version.id}
+                  className="flex items-center justify-between px-3 py-2 text-sm"
+                >
+                  <div>
+                    <span className="font-medium">
+                      Version {version.version}
+                    </span>
+                    <span className="text-gray-500">
+                      {' '}
+                      · {version.name} · {version.templates.length} templates ·{' '}
+                      {new Date(version.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  {version.version === set.version ? (
+                    <span className="text-xs text-gray-500">Current</span>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => run(() => onRestoreVersion(version))}
+                    >
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {versions.length === 0 && (
+                <p className="px-3 py-4 text-center text-sm text-gray-500">
+                  No earlier versions
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-set-name">Name</Label>
+              <Input
+                id="template-set-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Lighting"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-set-scope">Shared with</Label>
+              <select
+                id="template-set-scope"
+                value={scope}
+                onChange={(e) => setScope(e.target.value as PartTemplateScope)}
+                className={selectClassName}
+              >
+                {SCOPE_OPTIONS.map((option) => (
+                  <option
+                    key={option.value}
+                    value={option.value}
+                    disabled={
+                      (option.value === 'team' && !canShareWithTeam) ||
+                      (option.value === 'global' && !canShareGlobally)
+                    }
+                  >
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="template-set-description">Description</Label>
+              <Textarea
+                id="template-set-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">
+                Templates ({templates.length})
+              </h3>
+              <Button variant="outline" size="sm" onClick={addTemplate}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Template
+              </Button>
+            </div>
+
+            {templates.map((template) => {
+              const Icon = TEMPLATE_ICONS[template.icon]
+              const expanded = expandedId === template.id
+              return (
+                <div key={template.id} className="border rounded-lg">
+                  <div className="flex items-center gap-3 p-3">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setExpandedId(expanded ? null : template.id)
+                      }
+                      className="flex flex-1 items-center gap-3 text-left"
+                    >
+                      <div className="p-2 bg-gray-100 rounded-lg">
+                        <Icon className="w-4 h-4" />
+                      </div>
+                      <div className="flex-1">
+                        <div className="font-medium text-gray-900">
+                          {template.name}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {template.category} · {template.parts.length}{' '}
+                          {template.parts.length === 1 ? 'part' : 'parts'}
+                        </div>
+                      </div>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setTemplates((current) =>
+                          current.filter((t) => t.id !== template.id)
+                        )
+                      }
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+
+                  {expanded && (
+                    <div className="border-t p-3 space-y-4">
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <Label className="text-xs">Name</Label>
+                          <Input
+                            value={template.name}
+                            onChange={(e) =>
+                              updateTemplate(template.id, {
+                                name: e.target.value,
+                              })
+                            }
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Category</Label>
+                          <Input
+                            value={template.category}
+                            onChange={(e) =>
+                              updateTemplate(template.id, {
+                                category: e.target.value,
+                              })
+                            }
+                            placeholder="e.g., Structural"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Icon</Label>
+                          <select
+                            value={template.icon}
+                            onChange={(e) =>
+                              updateTemplate(template.id, {
+                                icon: e.target.value as PartTemplateIcon,
+                              })
+                            }
+                            className={selectClassName}
+                          >
+                            {partTemplateIconSchema.options.map((icon) => (
+                              <option key={icon} value={icon}>
+                                {icon}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Tags</Label>
+                          <Input
+                            value={template.tags.join(', ')}
+                            onChange={(e) =>
+                              updateTemplate(template.id, {
+                                tags: e.target.value
+                                  .split(',')
+                                  .map((tag) => tag.trim())
+                                  .filter(Boolean),
+                              })
+                            }
+                            placeholder="Comma separated"
+                          />
+                        </div>
+                        <div className="col-span-2 space-y-1">
+                          <Label className="text-xs">Description</Label>
+                          <Input
+                            value={template.description}
+                            onChange={(e) =>
+                              updateTemplate(template.id, {
+                                description: e.target.value,
+                              })
+                            }
+                          />
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-xs">
+                            Parts{' '}
+                            <span className="font-normal text-gray-500">
+                              (offsets are % of the image from the drop point)
+                            </span>
+                          </Label>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              updateTemplate(template.id, {
+                                parts: [
+                                  ...template.parts,
+                                  newPart(template.parts.length),
+                                ],
+                              })
+                            }
+                          >
+                            <Plus className="w-4 h-4 mr-1" />
+                            Add Part
+                          </Button>
+                        </div>
+                        {template.parts.map((part, index) => (
+                          <div
+                            key={index}
+                            className="grid grid-cols-12 gap-2 items-center"
+                          >
+                            <Input
+                              className="col-span-3"
+                              value={part.name}
+                              onChange={(e) =>
+                                updatePart(template, index, {
+                                  name: e.target.value,
+                                })
+                              }
+                              placeholder="Name"
+                            />
+                            <Input
+                              className="col-span-2"
+                              value={part.finish}
+                              onChange={(e) =>
+                                updatePart(template, index, {
+                                  finish: e.target.value,
+                                  material_id: null,
+                                })
+                              }
+                              placeholder="Finish"
+                            />
+                            <input
+                              type="color"
+                              className="col-span-1 h-10 w-full rounded border"
+                              value={part.color}
+                              onChange={(e) =>
+                                updatePart(template, index, {
+                                  color: e.target.value,
+                                })
+                              }
+                              title="Color"
+                            />
+                            <Input
+                              className="col-span-2"
+                              value={part.texture}
+                              onChange={(e) =>
+                                updatePart(template, index, {
+                                  texture: e.target.value,
+                                })
+                              }
+                              placeholder="Texture"
+                            />
+                            <Input
+                              className="col-span-1 px-2"
+                              type="number"
+                              min={-100}
+                              max={100}
+                              value={part.offset_x || 0}
+                              onChange={(e) =>
+                                updatePart(template, index, {
+                                  offset_x: Number(e.target.value),
+                                })
+                              }
+                              title="X offset"
+                            />
+                            <Input
+                              className="col-span-1 px-2"
+                              type="number"
+                              min={-100}
+                              max={100}
+                              value={part.offset_y || 0}
+                              onChange={(e) =>
+                                updatePart(template, index, {
+                                  offset_y: Number(e.target.value),
+                                })
+                              }
+                              title="Y offset"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="col-span-2"
+                              disabled={template.parts.length === 1}
+                              onClick={() =>
+                                updateTemplate(template.id, {
+                                  parts: template.parts.filter(
+                                    (_, i) => i !== index
+                                  ),
+                                })
+                              }
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </CardContent>
+
+        <div className="flex items-center justify-between gap-3 border-t p-4">
+          {set && onDelete ? (
+            <Button
+              variant="outline"
+              className="text-red-600 hover:text-red-700"
+              disabled={saving}
+              onClick={() => {
+                if (confirm(`Delete "${set.name}" and its history?`)) {
+                  run(onDelete)
+                }
+              }}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Set
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Set'}
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import React from 'react'
+import React, { useRef, useState } from 'react'
 import {
   Card,
   CardContent,
@@ -10,129 +10,73 @@ import {
 } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { Package, Plus, Pencil, Copy, Upload, Download } from 'lucide-react'
+import { usePartTemplates } from '@/hooks/usePartTemplates'
 import {
-  Package,
-  Palette,
-  Layers,
-  Zap,
-  Settings,
-  Star,
-  Plus,
-  Eye,
-} from 'lucide-react'
-
-export interface PartTemplate {
-  id: string
-  name: string
-  category: string
-  description: string
-  icon: React.ReactNode
-  defaults: {
-    finish: string
-    color: string
-    texture: string
-    notes?: string
-  }
-  tags: string[]
-}
-
-const PART_TEMPLATES: PartTemplate[] = [
-  {
-    id: 'front-panel',
-    name: 'Front Panel',
-    category: 'Structural',
-    description: 'Main front-facing surface of the product',
-    icon: <Package className="w-5 h-5" />,
-    defaults: {
-      finish: 'Matte',
-      color: '#3B82F6',
-      texture: 'Smooth',
-      notes: 'Primary user interface surface',
-    },
-    tags: ['visible', 'primary', 'structural'],
-  },
-  {
-    id: 'side-panel',
-    name: 'Side Panel',
-    category: 'Structural',
-    description: 'Side surface panels and supports',
-    icon: <Layers className="w-5 h-5" />,
-    defaults: {
-      finish: 'Satin',
-      color: '#6B7280',
-      texture: 'Smooth',
-      notes: 'Supporting structural element',
-    },
-    tags: ['support', 'structural', 'secondary'],
-  },
-  {
-    id: 'handle',
-    name: 'Handle',
-    category: 'Functional',
-    description: 'Grip and control elements',
-    icon: <Zap className="w-5 h-5" />,
-    defaults: {
-      finish: 'Textured',
-      color: '#10B981',
-      texture: 'Grip Pattern',
-      notes: 'Ergonomic grip surface',
-    },
-    tags: ['ergonomic', 'functional', 'grip'],
-  },
-  {
-    id: 'accent',
-    name: 'Accent',
-    category: 'Decorative',
-    description: 'Decorative and branding elements',
-    icon: <Star className="w-5 h-5" />,
-    defaults: {
-      finish: 'Glossy',
-      color: '#F59E0B',
-      texture: 'Smooth',
-      notes: 'Brand accent element',
-    },
-    tags: ['decorative', 'branding', 'accent'],
-  },
-  {
-    id: 'technical',
-    name: 'Technical',
-    category: 'Functional',
-    description: 'Technical and mechanical components',
-    icon: <Settings className="w-5 h-5" />,
-    defaults: {
-      finish: 'Industrial',
-      color: '#374151',
-      texture: 'Matte',
-      notes: 'Technical component',
-    },
-    tags: ['technical', 'mechanical', 'industrial'],
-  },
-  {
-    id: 'custom',
-    name: 'Custom',
-    category: 'Other',
-    description: 'Custom part with user-defined specifications',
-    icon: <Plus className="w-5 h-5" />,
-    defaults: {
-      finish: 'Custom',
-      color: '#8B5CF6',
-      texture: 'Custom',
-      notes: 'Custom part specification',
-    },
-    tags: ['custom', 'user-defined'],
-  },
-]
+  BUILT_IN_SET_ID,
+  TEMPLATE_ICONS,
+  downloadTemplateSet,
+  isKit,
+} from '@/lib/part-templates'
+import { PartTemplate, PartTemplateSet } from '@/types'
+import { PartTemplateSetEditor } from './PartTemplateSetEditor'
 
 interface PartTemplatesProps {
   onSelectTemplate: (template: PartTemplate) => void
   className?: string
 }
 
+const SCOPE_LABELS: Record<PartTemplateSet['scope'], string> = {
+  user: 'Personal',
+  team: 'Team',
+  global: 'Global',
+}
+
 export function PartTemplates({
   onSelectTemplate,
   className = '',
 }: PartTemplatesProps) {
-  const categories = Array.from(new Set(PART_TEMPLATES.map((t) => t.category)))
+  const {
+    sets,
+    team,
+    canShareGlobally,
+    error: loadError,
+    canEdit,
+    save,
+    remove,
+    duplicate,
+    importFile,
+    restoreVersion,
+  } = usePartTemplates()
+  const [selectedSetId, setSelectedSetId] = useState(BUILT_IN_SET_ID)
+  // undefined = closed, null = creating a new set
+  const [editingSet, setEditingSet] = useState<
+    PartTemplateSet | null | undefined
+  >(undefined)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const selectedSet = sets.find((set) => set.id === selectedSetId) || sets[0]
+  const categories = Array.from(
+    new Set(selectedSet.templates.map((t) => t.category))
+  )
+
+  const act = async (action: () => Promise<PartTemplateSet>) => {
+    try {
+      setError(null)
+      const saved = await action()
+      setSelectedSetId(saved.id)
+    } catch (err) {
+      console.error('Error updating template sets:', err)
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    }
+  }
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) act(() => importFile(file))
+  }
 
   return (
     <Card className={className}>
@@ -144,6 +88,72 @@ export function PartTemplates({
         <CardDescription>
           Quick-start with pre-defined part types and smart defaults
         </CardDescription>
+        <div className="flex items-center gap-2 pt-2">
+          <select
+            value={selectedSet.id}
+            onChange={(e) => setSelectedSetId(e.target.value)}
+            className="h-9 flex-1 rounded-md border border-input bg-background px-3 text-sm"
+          >
+            {sets.map((set) => (
+              <option key={set.id} value={set.id}>
+                {set.name}
+                {set.id !== BUILT_IN_SET_ID && ` (${SCOPE_LABELS[set.scope]})`}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setEditingSet(null)}
+            title="New set"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+          {canEdit(selectedSet) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setEditingSet(selectedSet)}
+              title="Edit set"
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => act(() => duplicate(selectedSet))}
+            title="Duplicate set"
+          >
+            <Copy className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            title="Import set from JSON"
+          >
+            <Upload className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => downloadTemplateSet(selectedSet)}
+            title="Export set as JSON"
+          >
+            <Download className="w-4 h-4" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+        {(error || loadError) && (
+          <p className="text-sm text-red-600">{error || loadError}</p>
+        )}
       </CardHeader>
       <CardContent className="space-y-4">
         {categories.map((category) => (
@@ -152,70 +162,130 @@ export function PartTemplates({
               {category}
             </h3>
             <div className="grid grid-cols-1 gap-3">
-              {PART_TEMPLATES.filter(
-                (template) => template.category === category
-              ).map((template) => (
-                <div
-                  key={template.id}
-                  className="p-3 border border-gray-200 rounded-lg hover:border-blue-300 hover:bg-blue-50 transition-all duration-200 cursor-pointer group"
-                  onClick={() => onSelectTemplate(template)}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="p-2 bg-gray-100 rounded-lg group-hover:bg-blue-100 transition-colors">
-                        {template.icon}
-                      </div>
-                      <div className="flex-1">
-                        <h4 className="font-medium text-gray-900 group-hover:text-blue-900">
-                          {template.name}
-                        </h4>
-                        <p className="text-sm text-gray-600 mt-1">
-                          {template.description}
-                        </p>
-                        <div className="flex items-center gap-2 mt-2">
-                          <div className="flex items-center gap-1">
-                            <span className="text-xs text-gray-500">
-                              Finish:
-                            </span>
-                            <Badge variant="secondary" className="text-xs">
-                              {template.defaults.finish}
-                            </Badge>
+              {selectedSet.templates
+                .filter((template) => template.category === category)
+                .map((template) => {
+                  const Icon = TEMPLATE_ICONS[template.icon] || Package
+                  const [firstPart] = template.parts
+                  return (
+                    <div
+                      key={template.id}
+                      className="p-3 border border-gray-200 rounded-lg hover:border-blue-300 hover:bg-blue-50 transition-all duration-200 cursor-pointer group"
+                      onClick={() => onSelectTemplate(template)}
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="flex items-center gap-3">
+                          <div className="p-2 bg-gray-100 rounded-lg group-hover:bg-blue-100 transition-colors">
+                            <Icon className="w-5 h-5" />
                           </div>
-                          <div className="flex items-center gap-1">
-                            <span className="text-xs text-gray-500">
-                              Color:
-                            </span>
-                            <div
-                              className="w-3 h-3 rounded border"
-                              style={{
-                                backgroundColor: template.defaults.color,
-                              }}
-                            />
+                          <div className="flex-1">
+                            <h4 className="font-medium text-gray-900 group-hover:text-blue-900 flex items-center gap-2">
+                              {template.name}
+                              {isKit(template) && (
+                                <Badge className="text-xs">
+                                  Kit · {template.parts.length} parts
+                                </Badge>
+                              )}
+                            </h4>
+                            <p className="text-sm text-gray-600 mt-1">
+                              {template.description}
+                            </p>
+                            {isKit(template) ? (
+                              <div className="flex items-center gap-1 mt-2">
+                                {template.parts.map((part, index) => (
+                                  <div
+                                    key={index}
+                                    className="w-3 h-3 rounded border"
+                                    style={{ backgroundColor: part.color }}
+                                    title={part.name}
+                                  />
+                                ))}
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-2 mt-2">
+                                <div className="flex items-center gap-1">
+                                  <span className="text-xs text-gray-500">
+                                    Finish:
+                                  </span>
+                                  <Badge
+                                    variant="secondary"
+                                    className="text-xs"
+                                  >
+                                    {firstPart.finish}
+                                  </Badge>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  <span className="text-xs text-gray-500">
+                                    Color:
+                                  </span>
+                                  <div
+                                    className="w-3 h-3 rounded border"
+                                    style={{
+                                      backgroundColor: firstPart.color,
+                                    }}
+                                  />
+                                </div>
+                              </div>
+                            )}
                           </div>
                         </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="opacity-0 group-hover:opacity-100 transition-opacity text-blue-600 hover:text-blue-700"
+                        >
+                          <Plus className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <div className="flex flex-wrap gap-1 mt-3">
+                        {template.tags.map((tag) => (
+                          <Badge
+                            key={tag}
+                            variant="outline"
+                            className="text-xs"
+                          >
+                            {tag}
+                          </Badge>
+                        ))}
                       </div>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="opacity-0 group-hover:opacity-100 transition-opacity text-blue-600 hover:text-blue-700"
-                    >
-                      <Plus className="w-4 h-4" />
-                    </Button>
-                  </div>
-                  <div className="flex flex-wrap gap-1 mt-3">
-                    {template.tags.map((tag) => (
-                      <Badge key={tag} variant="outline" className="text-xs">
-                        {tag}
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
-              ))}
+                  )
+                })}
             </div>
           </div>
         ))}
+        {selectedSet.templates.length === 0 && (
+          <p className="text-center text-sm text-gray-500 py-4">
+            This set has no templates yet.
+          </p>
+        )}
       </CardContent>
+
+      {editingSet !== undefined && (
+        <PartTemplateSetEditor
+          set={editingSet}
+          canShareWithTeam={!!team}
+          canShareGlobally={canShareGlobally}
+          onSave={async (values) => {
+            const saved = await save(values, editingSet?.id)
+            setSelectedSetId(saved.id)
+          }}
+          onDelete={
+            editingSet
+              ? async () => {
+                  await remove(editingSet.id)
+                  setSelectedSetId(BUILT_IN_SET_ID)
+                }
+              : undefined
+          }
+          onRestoreVersion={
+            editingSet
+              ? (version) => restoreVersion(editingSet, version)
+              : undefined
+          }
+          onClose={() => setEditingSet(undefined)}
+        />
+      )}
     </Card>
   )
 }
@@ -24,6 +24,8 @@ import { FileUpload as FileUploadType } from './upload-types'
 import { PartDetailsPanel } from './PartDetailsPanel'
 import { PartTemplates } from './PartTemplates'
 import { BulkPartEditor } from './BulkPartEditor'
+import { isKit, templatePartsAt } from '@/lib/part-templates'
+import { PartTemplate } from '@/types'
 
 interface PartNode {
   id: string
@@ -35,6 +37,7 @@ interface PartNode {
   texture: string
   groupId?: string
   notes?: string
+  material_id?: string | null
 }
 
 interface UnifiedImageViewportProps {
@@ -180,25 +183,45 @@ export function UnifiedImageViewport({
     [onImageUpdate]
   )
 
-  // Add new part from template
+  // Add new part from template. Kits drop all their parts around the
+  // center and are grouped under the template's name.
   const handleAddPartFromTemplate = useCallback(
-    (template: any) => {
+    (template: PartTemplate) => {
       if (!projectImage) return
 
-      const newPart: PartNode = {
-        id: `part-${Date.now()}`,
-        x: 50, // Default position (50% = center)
-        y: 50,
-        name: template.name,
-        finish: template.defaults.finish,
-        color: template.defaults.color,
-        texture: template.defaults.texture,
-        notes: template.defaults.notes || '',
+      let groupId: string | undefined
+      if (isKit(template)) {
+        const newGroup = {
+          id: `group-${Date.now()}`,
+          name: template.name,
+          color: template.parts[0].color,
+        }
+        const updatedGroups = [...groups, newGroup]
+        setGroups(updatedGroups)
+        groupId = newGroup.id
+        if (onGroupsUpdate) {
+          onGroupsUpdate(updatedGroups)
+        }
       }
 
-      const updatedParts = [...parts, newPart]
+      const newParts: PartNode[] = templatePartsAt(template, 50, 50).map(
+        (part, index) => ({
+          id: `part-${Date.now()}-${index}`,
+          x: part.x,
+          y: part.y,
+          name: part.name,
+          finish: part.finish,
+          color: part.color,
+          texture: part.texture,
+          notes: part.notes || '',
+          material_id: part.material_id ?? null,
+          groupId,
+        })
+      )
+
+      const updatedParts = [...parts, ...newParts]
       setParts(updatedParts)
-      setSelectedPartId(newPart.id)
+      setSelectedPartId(newParts[0].id)
       setCurrentState('annotation')
       setShowTemplates(false)
 
@@ -206,7 +229,7 @@ export function UnifiedImageViewport({
         onPartsUpdate(updatedParts)
       }
     },
-    [projectImage, parts, onPartsUpdate]
+    [projectImage, parts, groups, onPartsUpdate, onGroupsUpdate]
   )
 
   // Add new part
@@ -1,11 +1,29 @@
 import { useState, useCallback, useRef } from 'react'
 import { ImageData } from './types'
 import { FileUpload as FileUploadType } from './upload-types'
+import { ImageAngle, ImageDerivatives, ItemImage } from '@/types'
+import { IMAGE_ANGLES, getImageLabel } from '@/lib/item-images'
 
 export interface ManagedImage extends ImageData {
   uploadId: string
   isActive: boolean
   annotations: AnnotationPoint[]
+  angle?: ImageAngle
+  derivatives?: ImageDerivatives
+}
+
+// The web preview of a saved image: the canvas draws at natural size, so
+// width and height must match the file it loads
+export function getCanvasImage(image: ManagedImage): ImageData {
+  const preview = image.derivatives?.sizes.preview
+  return {
+    id: image.id,
+    src: preview?.webp || image.src,
+    width: preview?.width || image.width,
+    height: preview?.height || image.height,
+    name: image.name,
+    uploadedAt: image.uploadedAt,
+  }
 }
 
 export interface AnnotationPoint {
@@ -65,6 +83,48 @@ export function useImageManager() {
     return newImages
   }, [])
 
+  // Load an item's saved images, replacing the current set
+  const loadImages = useCallback((images: ItemImage[]) => {
+    setState((prev) => ({
+      ...prev,
+      images: images.map((image, index) => ({
+        id: image.id,
+        uploadId: image.id,
+        src: image.url,
+        width: 800,
+        height: 600,
+        name: getImageLabel(image),
+        uploadedAt: new Date(),
+        isActive: index === 0,
+        annotations: [],
+        angle: image.angle,
+        derivatives: image.derivatives,
+      })),
+      activeImageId: images[0]?.id || null,
+      selectedPointId: null,
+    }))
+  }, [])
+
+  // Set the camera angle of an image
+  const setImageAngle = useCallback((imageId: string, angle: ImageAngle) => {
+    setState((prev) => ({
+      ...prev,
+      images: prev.images.map((img) =>
+        img.id === imageId ? { ...img, angle } : img
+      ),
+    }))
+  }, [])
+
+  // The images in order, in the shape items persist them
+  const getItemImages = useCallback((): ItemImage[] => {
+    return state.images.map((img) => ({
+      id: img.id,
+      url: img.src,
+      angle: img.angle || IMAGE_ANGLES[0].value,
+      ...(img.derivatives && { derivatives: img.derivatives }),
+    }))
+  }, [state.images])
+
   // Remove image
   const removeImage = useCallback((imageId: string) => {
     setState((prev) => {
@@ -234,6 +294,9 @@ export function useImageManager() {
   return {
     state,
     addImages,
+    loadImages,
+    setImageAngle,
+    getItemImages,
     removeImage,
     setActiveImage,
     getActiveImage,
@@ -9,6 +9,7 @@ import {
   Home,
   CheckSquare,
   BarChart3,
+  Layers,
   Settings,
   Plus,
   Menu,
@@ -37,6 +38,11 @@ const navItems: NavItem[] = [
     href: '/progress',
     icon: <BarChart3 className="w-5 h-5" />,
   },
+  {
+    label: 'Materials',
+    href: '/materials',
+    icon: <Layers className="w-5 h-5" />,
+  },
   {
     label: 'Settings',
     href: '/settings',
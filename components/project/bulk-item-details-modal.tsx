@@ -0,0 +1,194 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Layers } from 'lucide-react'
+import { PACKAGING_TYPES } from '@/lib/item-details'
+import { ItemDetails, PackagingType } from '@/types'
+import { itemDetailsSchema } from '@/types/schemas'
+
+interface BulkItemDetailsModalProps {
+  itemCount: number
+  onApply: (changes: ItemDetails) => void
+  onClose: () => void
+}
+
+// Each requirement can be left alone, switched on or switched off
+type Toggle = 'keep' | 'on' | 'off'
+
+const inputClassName =
+  'w-full px-4 py-3 bg-[#0d1117] border border-gray-700 rounded-lg text-white placeholder-[#595d60] focus:border-[#38bdbb] focus:ring-1 focus:ring-[#38bdbb] transition-colors'
+
+/**
+ * Set packaging, logo and notes on several items at once. Anything left
+ * on "Keep" stays as it is on each item.
+ */
+export function BulkItemDetailsModal({
+  itemCount,
+  onApply,
+  onClose,
+}: BulkItemDetailsModalProps) {
+  const [packaging, setPackaging] = useState<Toggle>('keep')
+  const [packagingType, setPackagingType] = useState<PackagingType>('box')
+  const [logo, setLogo] = useState<Toggle>('keep')
+  const [replaceNotes, setReplaceNotes] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleApply = () => {
+    const changes: ItemDetails = {}
+    if (packaging !== 'keep') {
+      changes.needs_packaging = packaging === 'on'
+      if (packaging === 'on') changes.packaging_type = packagingType
+    }
+    if (logo !== 'keep') {
+      changes.needs_logo = logo === 'on'
+    }
+    if (replaceNotes) {
+      changes.notes = notes.trim()
+    }
+
+    if (Object.keys(changes).length === 0) {
+      setError('Choose at least one change')
+      return
+    }
+
+    const result = itemDetailsSchema.safeParse(changes)
+    if (!result.success) {
+      setError(result.error.issues[0].message)
+      return
+    }
+
+    onApply(result.data)
+    onClose()
+  }
+
+  const toggleSelect = (
+    value: Toggle,
+    onChange: (value: Toggle) => void,
+    labels: { on: string; off: string }
+  ) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as Toggle)}
+      className={inputClassName}
+    >
+      <option value="keep" className="bg-[#1a1e1f]">
+        Keep as is
+      </option>
+      <option value="on" className="bg-[#1a1e1f]">
+        {labels.on}
+      </option>
+      <option value="off" className="bg-[#1a1e1f]">
+        {labels.off}
+      </option>
+    </select>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50">
+      <div className="bg-[#1a1e1f] rounded-2xl border border-gray-700 max-w-lg w-full p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-[#595d60] hover:text-white transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-2">
+          <Layers className="w-6 h-6 text-[#38bdbb]" />
+          <h2 className="text-2xl font-semibold text-white">
+            Edit {itemCount} Item{itemCount !== 1 ? 's' : ''}
+          </h2>
+        </div>
+        <p className="text-[#595d60] mb-6">
+          Changes apply to every selected item.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Packaging
+            </label>
+            {toggleSelect(packaging, setPackaging, {
+              on: 'Needs packaging',
+              off: 'No packaging',
+            })}
+          </div>
+          {packaging === 'on' && (
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Packaging Type
+              </label>
+              <select
+                value={packagingType}
+                onChange={(e) =>
+                  setPackagingType(e.target.value as PackagingType)
+                }
+                className={inputClassName}
+              >
+                {PACKAGING_TYPES.map((option) => (
+                  <option
+                    key={option.value}
+                    value={option.value}
+                    className="bg-[#1a1e1f]"
+                  >
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Logo
+            </label>
+            {toggleSelect(logo, setLogo, {
+              on: 'Needs logo',
+              off: 'No logo',
+            })}
+          </div>
+          <div>
+            <label className="flex items-center gap-3 text-sm font-medium text-white mb-2">
+              <input
+                type="checkbox"
+                checked={replaceNotes}
+                onChange={(e) => setReplaceNotes(e.target.checked)}
+              />
+              Replace notes
+            </label>
+            {replaceNotes && (
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                placeholder="Leave empty to clear notes"
+                className={inputClassName}
+              />
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-900/20 border border-red-700 rounded-lg text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-[#222a31] text-white rounded-lg hover:bg-[#2a3239] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 bg-[#38bdbb] text-white rounded-lg hover:bg-[#2ea9a7] transition-colors"
+          >
+            Apply Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
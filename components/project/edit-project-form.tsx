@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { FileText, ArrowLeft, Trash2, Save, AlertCircle, CheckCircle2 } from 'lucide-react'
 import { ProjectOverview } from '@/components/ui/project-overview'
@@ -11,10 +11,15 @@ import { ExportProgress } from './export-progress'
 import { usePowerPointExport } from '@/hooks/usePowerPointExport'
 import { useTheme } from '@/lib/theme-context'
 import { ThemedButton } from '@/components/ui/themed-button'
-import { Project, Item, hasVersions, getAllItemParts } from '@/types'
+import { Project, Item, ItemDetails, WorkflowStamp, WorkflowStatus, hasVersions, getAllItemParts } from '@/types'
+import { authorizedFetch } from '@/lib/api-client'
+import { WorkflowRole } from '@/lib/status-workflow'
+import { applyItemDetails } from '@/lib/item-details'
 import { supabase } from '@/lib/supaClient'
 import { getUserDefaultDueDate } from '@/lib/user-settings'
+import { buildProjectUpdateDetails, hasContentChanges } from '@/lib/project-logs'
 import { calculateDefaultDueDate, formatDateForInput, dateInputToISO } from '@/lib/date-utils'
+import { CURRENT_SCHEMA_VERSION } from '@/lib/project-migrations'
 import { PermissionRequestModal } from './permission-request-modal'
 
 interface EditProjectFormProps {
@@ -34,6 +39,12 @@ export function EditProjectForm({
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [canEdit, setCanEdit] = useState(false)
+  const [role, setRole] = useState<WorkflowRole | null>(null)
+  // Statuses saved from the item editor, applied to formData when it closes
+  // so an unsaved form can't overwrite them
+  const savedStatuses = useRef<
+    { versionIndex: number; partIndex?: number; entry: WorkflowStamp }[]
+  >([])
   const [currentUser, setCurrentUser] = useState<any>(null)
   const [showPermissionModal, setShowPermissionModal] = useState(false)
 
@@ -54,6 +65,7 @@ export function EditProjectForm({
         // Check if user is owner
         if (session.user.id === project.user_id) {
           setCanEdit(true)
+          setRole('owner')
           return
         }
 
@@ -74,8 +86,10 @@ export function EditProjectForm({
           if (!error && data) {
             const hasEditPermission = data.permission_level === 'edit' || data.permission_level === 'admin'
             setCanEdit(hasEditPermission)
+            setRole(data.permission_level)
           } else {
             setCanEdit(false)
+            setRole(null)
           }
         } catch (err) {
           console.error('Error checking permissions:', err)
@@ -134,6 +148,7 @@ export function EditProjectForm({
           p_retailer: formData.retailer,
           p_due_date: dueDate,
           p_items: formData.items,
+          p_schema_version: CURRENT_SCHEMA_VERSION,
         }
 
         const { data: updatedProjectData, error: projectError } =
@@ -177,6 +192,7 @@ export function EditProjectForm({
             retailer: formData.retailer,
             due_date: dueDate,
             items: formData.items,
+            schema_version: CURRENT_SCHEMA_VERSION,
             updated_at: new Date().toISOString(),
           })
           .eq('id', project.id)
@@ -245,6 +261,27 @@ export function EditProjectForm({
         }
       }
 
+      // Log content changes so they can be restored from Project History
+      if (hasContentChanges(project, updatedProject as Project)) {
+        const { error: updateLogError } = await supabase
+          .from('project_logs')
+          .insert({
+            project_id: project.id,
+            user_id: session.user.id,
+            action: 'project_updated',
+            details: {
+              ...buildProjectUpdateDetails(project, updatedProject as Project),
+              changed_by: session.user.email || session.user.id,
+            },
+            timestamp: new Date().toISOString(),
+          })
+
+        if (updateLogError) {
+          // Don't throw - the update succeeded, logging is secondary
+          console.error('❌ Error logging project update:', updateLogError)
+        }
+      }
+
       // Log the due date change if it changed
       const previousDueDate = project.due_date || null
       console.log('🔍 Checking if date changed in edit form:', {
@@ -305,12 +342,99 @@ export function EditProjectForm({
 
   const handleSaveItem = (updatedItem: any) => {
     const newItems = [...formData.items]
-    newItems[editingItemIndex!] = updatedItem
+    newItems[editingItemIndex!] = applySavedStatuses(updatedItem)
     setFormData({ ...formData, items: newItems })
     setEditingItemIndex(null)
   }
 
+  const handleBulkUpdate = (indexes: number[], changes: ItemDetails) => {
+    setFormData({
+      ...formData,
+      items: applyItemDetails(
+        formData.items,
+        (_, index) => indexes.includes(index),
+        changes
+      ),
+    })
+  }
+
+  // Status changes go through the API so the workflow rules are enforced
+  // server-side and the transition is logged
+  const handleStatusChange = async (
+    target: { versionIndex: number; partIndex?: number },
+    status: WorkflowStatus,
+    comment?: string
+  ): Promise<boolean> => {
+    if (editingItemIndex === null) return false
+    const item = formData.items[editingItemIndex]
+    const version = item.versions?.[target.versionIndex]
+    if (!version) return false
+
+    const base = `/api/v1/projects/${project.id}/items/${item.id || editingItemIndex}/versions/${version.id}`
+    const url =
+      target.partIndex === undefined
+        ? `${base}/status`
+        : `${base}/parts/${version.parts[target.partIndex]?.id || target.partIndex}/status`
+
+    try {
+      const response = await authorizedFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, comment }),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(
+          response.status === 404
+            ? 'Save this item before changing its status'
+            : body.error || 'Failed to change status'
+        )
+      }
+
+      savedStatuses.current.push({ ...target, entry: body })
+      return true
+    } catch (err) {
+      showError(
+        'Status Not Changed',
+        err instanceof Error ? err.message : 'Failed to change status'
+      )
+      return false
+    }
+  }
+
+  const applySavedStatuses = (item: Item): Item => {
+    const saved = savedStatuses.current
+    savedStatuses.current = []
+    if (saved.length === 0 || !item.versions) return item
+
+    const versions = [...item.versions]
+    for (const { versionIndex, partIndex, entry } of saved) {
+      const version = versions[versionIndex]
+      if (!version) continue
+      const stamp = {
+        status: entry.status,
+        status_updated_at: entry.status_updated_at,
+        status_updated_by: entry.status_updated_by,
+      }
+      versions[versionIndex] =
+        partIndex === undefined
+          ? { ...version, ...stamp }
+          : {
+              ...version,
+              parts: version.parts.map((part, index) =>
+                index === partIndex ? { ...part, ...stamp } : part
+              ),
+            }
+    }
+    return { ...item, versions }
+  }
+
   const handleCancelEdit = () => {
+    if (editingItemIndex !== null && savedStatuses.current.length > 0) {
+      const newItems = [...formData.items]
+      newItems[editingItemIndex] = applySavedStatuses(newItems[editingItemIndex])
+      setFormData({ ...formData, items: newItems })
+    }
     setEditingItemIndex(null)
   }
 
@@ -522,6 +646,8 @@ export function EditProjectForm({
             onSave={handleSaveItem}
             onCancel={handleCancelEdit}
             onDelete={() => handleDeleteItem(editingItemIndex)}
+            role={role}
+            onStatusChange={handleStatusChange}
           />
         ) : (
           <ProjectOverview
@@ -529,6 +655,7 @@ export function EditProjectForm({
             onEditItem={handleEditItem}
             onDeleteItem={handleDeleteItem}
             onAddItem={handleAddItemFromOverview}
+            onBulkUpdate={handleBulkUpdate}
           />
         )}
       </div>
@@ -566,8 +693,6 @@ export function EditProjectForm({
           onClose={() => setShowPermissionModal(false)}
           projectId={project.id}
           projectTitle={project.title}
-          projectOwnerId={project.user_id || ''}
-          currentUserEmail={currentUser?.email}
           action="edit this project"
         />
       )}
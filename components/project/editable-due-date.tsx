@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Project } from '@/types'
+import { CURRENT_SCHEMA_VERSION } from '@/lib/project-migrations'
 import { PermissionRequestModal } from './permission-request-modal'
 
 interface EditableDueDateProps {
@@ -142,6 +143,7 @@ export function EditableDueDate({
           p_retailer: project.retailer,
           p_due_date: newDueDate,
           p_items: project.items || [],
+          p_schema_version: CURRENT_SCHEMA_VERSION,
         }
 
         const { data: rpcData, error: rpcError } = await supabase.rpc('update_user_project', rpcParams)
@@ -291,8 +293,6 @@ export function EditableDueDate({
         onClose={() => setShowPermissionModal(false)}
         projectId={project.id}
         projectTitle={project.title}
-        projectOwnerId={project.user_id || ''}
-        currentUserEmail={currentUser?.email}
         action="change the due date"
       />
 
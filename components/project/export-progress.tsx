@@ -7,6 +7,7 @@ interface ExportProgressProps {
   currentStep: string
   progress: number
   error?: string
+  title?: string
   onClose?: () => void
 }
 
@@ -15,6 +16,7 @@ export function ExportProgress({
   currentStep,
   progress,
   error,
+  title = 'Generating Presentation',
   onClose,
 }: ExportProgressProps) {
   if (!isVisible) return null
@@ -26,9 +28,7 @@ export function ExportProgress({
           {/* Header */}
           <div className="flex items-center gap-3 mb-4">
             <FileText className="h-6 w-6 text-blue-600" />
-            <h3 className="text-lg font-semibold">
-              Generating HTML Presentation
-            </h3>
+            <h3 className="text-lg font-semibold">{title}</h3>
           </div>
 
           {/* Progress Bar */}
@@ -62,7 +62,7 @@ export function ExportProgress({
             <div className="flex items-center gap-2 text-green-600 mb-4">
               <CheckCircle className="h-4 w-4" />
               <span className="text-sm">
-                HTML presentation generated successfully!
+                Presentation generated successfully!
               </span>
             </div>
           ) : null}
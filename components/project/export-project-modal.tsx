@@ -19,7 +19,9 @@ import {
   Settings,
   Palette,
   Edit3,
+  Presentation,
 } from 'lucide-react'
+import { ImageQuality } from '../../types'
 
 interface ExportProjectModalProps {
   isOpen: boolean
@@ -29,13 +31,16 @@ interface ExportProjectModalProps {
   projectTitle: string
 }
 
+export type ExportFormat = 'pptx' | 'pdf' | 'html'
+
 export interface ExportOptions {
+  format: ExportFormat
   includeProjectOverview: boolean
   includeAnnotatedImages: boolean
   includePartDetails: boolean
   includePartGroups: boolean
   includeTeamInfo: boolean
-  imageQuality: 'high' | 'medium' | 'low'
+  imageQuality: ImageQuality
   slideLayout: 'professional' | 'basic' | 'minimal'
   customTitle?: string
   includeNotes: boolean
@@ -63,6 +68,7 @@ export function ExportProjectModal({
   projectTitle,
 }: ExportProjectModalProps) {
   const [options, setOptions] = useState<ExportOptions>({
+    format: 'pptx',
     includeProjectOverview: true,
     includeAnnotatedImages: true,
     includePartDetails: true,
@@ -75,7 +81,6 @@ export function ExportProjectModal({
   })
 
   const [customTitle, setCustomTitle] = useState(projectTitle)
-  const [exportMode] = useState<'visual-editor'>('visual-editor')
   const [visualEditorOptions, setVisualEditorOptions] = useState<VisualEditorExportOptions>({
     title: projectTitle,
     imageFit: 'contain',
@@ -97,11 +102,12 @@ export function ExportProjectModal({
   }
 
   const handleExport = () => {
-    // Always export with visual editor options
     onExport({
       ...options,
       customTitle: customTitle || projectTitle,
-      visualEditorOptions,
+      // Visual editor settings only apply to the interactive HTML export
+      visualEditorOptions:
+        options.format === 'html' ? visualEditorOptions : undefined,
     })
   }
 
@@ -115,7 +121,13 @@ export function ExportProjectModal({
           <div className="flex items-center justify-between mb-6">
             <div className="flex items-center gap-3">
               <FileText className="h-6 w-6 text-blue-600" />
-              <h2 className="text-xl font-semibold">Export to HTML</h2>
+              <h2 className="text-xl font-semibold">
+                {options.format === 'pptx'
+                  ? 'Export to PowerPoint'
+                  : options.format === 'pdf'
+                    ? 'Export PDF Spec Sheet'
+                    : 'Export to HTML'}
+              </h2>
             </div>
             <Button variant="ghost" size="sm" onClick={onClose}>
               <X className="h-4 w-4" />
@@ -136,19 +148,63 @@ export function ExportProjectModal({
             />
           </div>
 
-          {/* Export Mode - Visual Editor Only */}
+          {/* Export Mode */}
           <div className="mb-6">
             <Label className="text-sm font-medium mb-3 block">Export Mode</Label>
-            <div className="p-4 border-2 border-blue-500 bg-blue-50 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <svg className="h-5 w-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                </svg>
-                <span className="font-medium">Visual Editor</span>
-              </div>
-              <p className="text-sm text-gray-600">
-                Interactive slideshow that mimics the visual editor interface
-              </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <button
+                type="button"
+                onClick={() => handleOptionChange('format', 'pptx')}
+                className={`p-4 border-2 rounded-lg text-left transition-colors ${
+                  options.format === 'pptx'
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <Presentation className="h-5 w-5 text-blue-600" />
+                  <span className="font-medium">PowerPoint (.pptx)</span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Native slides with editable text, tables and images
+                </p>
+              </button>
+              <button
+                type="button"
+                onClick={() => handleOptionChange('format', 'pdf')}
+                className={`p-4 border-2 rounded-lg text-left transition-colors ${
+                  options.format === 'pdf'
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <FileText className="h-5 w-5 text-blue-600" />
+                  <span className="font-medium">PDF Spec Sheet</span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Print-ready sheet with every version and part, for vendors
+                </p>
+              </button>
+              <button
+                type="button"
+                onClick={() => handleOptionChange('format', 'html')}
+                className={`p-4 border-2 rounded-lg text-left transition-colors ${
+                  options.format === 'html'
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <svg className="h-5 w-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
+                  <span className="font-medium">Visual Editor</span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Interactive slideshow that mimics the visual editor interface
+                </p>
+              </button>
             </div>
           </div>
 
@@ -258,7 +314,7 @@ export function ExportProjectModal({
                 </Label>
                 <Select
                   value={options.imageQuality}
-                  onValueChange={(value: 'high' | 'medium' | 'low') =>
+                  onValueChange={(value: ImageQuality) =>
                     handleOptionChange('imageQuality', value)
                   }
                 >
@@ -266,9 +322,9 @@ export function ExportProjectModal({
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="high">High Quality</SelectItem>
-                    <SelectItem value="medium">Medium Quality</SelectItem>
-                    <SelectItem value="low">Low Quality</SelectItem>
+                    <SelectItem value="high">High Quality (full size)</SelectItem>
+                    <SelectItem value="medium">Medium Quality (1600px)</SelectItem>
+                    <SelectItem value="low">Low Quality (480px)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -327,6 +383,7 @@ export function ExportProjectModal({
           </div>
 
           {/* Visual Editor Options */}
+          {options.format === 'html' && (
           <div className="space-y-4 mb-6">
               <h3 className="text-lg font-medium text-gray-900">
                 Visual Editor Settings
@@ -480,6 +537,7 @@ export function ExportProjectModal({
                 </div>
               </div>
           </div>
+          )}
 
           {/* Actions */}
           <div className="flex items-center justify-end gap-3 pt-4 border-t">
@@ -499,7 +557,11 @@ export function ExportProjectModal({
               className="bg-blue-600 hover:bg-blue-700"
             >
               <FileText className="h-4 w-4 mr-2" />
-              Generate HTML
+              {options.format === 'pptx'
+                ? 'Generate PowerPoint'
+                : options.format === 'pdf'
+                  ? 'Generate PDF'
+                  : 'Generate HTML'}
             </Button>
           </div>
         </div>
@@ -0,0 +1,519 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { AtSign, CheckCircle, MessageSquare, RotateCcw, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { CommentThreadsController } from '@/hooks/useCommentThreads'
+import {
+  AnnotationMarker,
+  Mentionable,
+  getAnnotationMarkers,
+  getMentionQuery,
+  getThreadPosition,
+  insertMention,
+  sortThreads,
+  splitMentions,
+} from '@/lib/comments'
+import { CommentAnchor, CommentThread, Item, ThreadComment } from '@/types'
+import { ResponsiveImage } from '@/components/ui/responsive-image'
+import { getItemImages } from '@/lib/item-images'
+
+type ThreadFilter = 'open' | 'resolved' | 'all'
+
+interface ItemCommentsProps {
+  item: Item
+  comments: CommentThreadsController
+  currentUserId: string | null
+  /** Edit permission or better; anyone may resolve threads they started */
+  canModerate: boolean
+}
+
+/**
+ * Hero image with comment pins, and the threads pinned to it. Threads are
+ * anchored to an annotation point or to a clicked spot on the image.
+ */
+export function ItemComments({
+  item,
+  comments: controller,
+  currentUserId,
+  canModerate,
+}: ItemCommentsProps) {
+  const [placing, setPlacing] = useState(false)
+  const [pendingAnchor, setPendingAnchor] = useState<CommentAnchor | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [filter, setFilter] = useState<ThreadFilter>('open')
+
+  const markers = useMemo(() => getAnnotationMarkers(item), [item])
+  const itemThreads = useMemo(
+    () =>
+      sortThreads(
+        controller.threads.filter((thread) => thread.item_id === item.id)
+      ),
+    [controller.threads, item.id]
+  )
+  const visibleThreads = itemThreads.filter(
+    (thread) => filter === 'all' || thread.status === filter
+  )
+  const openCount = itemThreads.filter((t) => t.status === 'open').length
+  const threadNumbers = new Map(
+    itemThreads.map((thread, index) => [thread.id, index + 1])
+  )
+
+  const commentsByThread = useMemo(() => {
+    const grouped = new Map<string, ThreadComment[]>()
+    controller.comments.forEach((comment) => {
+      grouped.set(comment.thread_id, [
+        ...(grouped.get(comment.thread_id) || []),
+        comment,
+      ])
+    })
+    return grouped
+  }, [controller.comments])
+
+  const mentioned =
+    !!currentUserId &&
+    itemThreads.some(
+      (thread) =>
+        thread.status === 'open' &&
+        (commentsByThread.get(thread.id) || []).some(
+          (comment) =>
+            comment.user_id !== currentUserId &&
+            comment.mentions.includes(currentUserId)
+        )
+    )
+
+  const startThreadAt = (anchor: Omit<CommentAnchor, 'item_id'>) => {
+    setPendingAnchor({
+      item_id: item.id,
+      image_url: item.hero_image || null,
+      ...anchor,
+    })
+    setPlacing(false)
+    setSelectedId(null)
+  }
+
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!placing) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    startThreadAt({
+      x: Math.round(((e.clientX - rect.left) / rect.width) * 1000) / 10,
+      y: Math.round(((e.clientY - rect.top) / rect.height) * 1000) / 10,
+    })
+  }
+
+  const handleMarkerClick = (e: React.MouseEvent, marker: AnnotationMarker) => {
+    if (!placing) return
+    e.stopPropagation()
+    startThreadAt({
+      annotation_id: marker.annotationId,
+      version_id: marker.versionId || null,
+      part_id: marker.partId || null,
+      x: marker.x,
+      y: marker.y,
+    })
+  }
+
+  const handleCreate = async (body: string) => {
+    if (!pendingAnchor) return false
+    const thread = await controller.createThread(pendingAnchor, body)
+    if (!thread) return false
+    setPendingAnchor(null)
+    setFilter('open')
+    setSelectedId(thread.id)
+    return true
+  }
+
+  const describeAnchor = (thread: CommentAnchor) => {
+    const marker = thread.annotation_id
+      ? markers.find((entry) => entry.annotationId === thread.annotation_id)
+      : null
+    if (marker) return marker.label
+    if (thread.annotation_id) return 'Removed annotation point'
+    return `Image ${Math.round(Number(thread.x))}%, ${Math.round(Number(thread.y))}%`
+  }
+
+  return (
+    <div className="space-y-3">
+      <div
+        className={`relative inline-block max-w-full rounded-lg border border-gray-700 overflow-hidden ${
+          placing ? 'cursor-crosshair ring-2 ring-[#38bdbb]' : ''
+        }`}
+        onClick={handleImageClick}
+      >
+        <ResponsiveImage
+          image={getItemImages(item)[0]}
+          alt={`Hero image for ${item.name}`}
+          className="block max-w-full max-h-48 object-contain"
+        />
+
+        {markers.map((marker) => (
+          <button
+            key={marker.annotationId}
+            type="button"
+            title={marker.label}
+            onClick={(e) => handleMarkerClick(e, marker)}
+            className={`absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border border-white/70 bg-gray-500/80 ${
+              placing ? 'hover:bg-[#38bdbb] scale-125' : 'pointer-events-none'
+            }`}
+            style={{ left: `${marker.x}%`, top: `${marker.y}%` }}
+          />
+        ))}
+
+        {itemThreads.map((thread) => {
+          const position = getThreadPosition(thread, markers)
+          if (!position) return null
+          return (
+            <button
+              key={thread.id}
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                if (placing) return
+                setSelectedId(thread.id === selectedId ? null : thread.id)
+                if (filter !== 'all' && thread.status !== filter) {
+                  setFilter('all')
+                }
+              }}
+              className={`absolute -ml-3 -mt-6 w-6 h-6 rounded-full rounded-bl-none text-[10px] font-bold flex items-center justify-center shadow ${
+                thread.status === 'open'
+                  ? 'bg-[#38bdbb] text-black'
+                  : 'bg-gray-600 text-gray-300'
+              } ${thread.id === selectedId ? 'ring-2 ring-white' : ''}`}
+              style={{ left: `${position.x}%`, top: `${position.y}%` }}
+              title={describeAnchor(thread)}
+            >
+              {threadNumbers.get(thread.id)}
+            </button>
+          )
+        })}
+
+        {pendingAnchor &&
+          pendingAnchor.x != null &&
+          pendingAnchor.y != null && (
+            <div
+              className="absolute -ml-3 -mt-6 w-6 h-6 rounded-full rounded-bl-none bg-[#f9903c] text-black text-xs font-bold flex items-center justify-center animate-pulse"
+              style={{
+                left: `${pendingAnchor.x}%`,
+                top: `${pendingAnchor.y}%`,
+              }}
+            >
+              +
+            </div>
+          )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setPlacing(!placing)
+            setPendingAnchor(null)
+          }}
+          className="border-gray-700 text-white hover:bg-[#222a31]"
+        >
+          <MessageSquare className="w-4 h-4 mr-2" />
+          {placing ? 'Cancel' : 'Add Comment'}
+        </Button>
+        {(['open', 'resolved', 'all'] as ThreadFilter[]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setFilter(value)}
+            className={`px-2 py-1 rounded text-xs ${
+              filter === value
+                ? 'bg-[#222a31] text-white'
+                : 'text-[#595d60] hover:text-white'
+            }`}
+          >
+            {value === 'open'
+              ? `Open (${openCount})`
+              : value === 'resolved'
+                ? `Resolved (${itemThreads.length - openCount})`
+                : 'All'}
+          </button>
+        ))}
+        {mentioned && (
+          <span className="flex items-center gap-1 text-xs text-[#f9903c]">
+            <AtSign className="w-3 h-3" />
+            You were mentioned
+          </span>
+        )}
+      </div>
+
+      {placing && (
+        <p className="text-xs text-[#595d60]">
+          Click the image, or an annotation point, to pin a comment.
+        </p>
+      )}
+
+      {controller.error && (
+        <div className="p-3 bg-red-900/20 border border-red-700 rounded-lg text-sm text-red-400">
+          {controller.error}
+        </div>
+      )}
+
+      {pendingAnchor && (
+        <div className="bg-[#070e0e] border border-[#f9903c]/40 rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-white">
+              New thread on {describeAnchor(pendingAnchor)}
+            </p>
+            <button
+              type="button"
+              onClick={() => setPendingAnchor(null)}
+              className="text-[#595d60] hover:text-white"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <CommentComposer
+            members={controller.members}
+            placeholder="Write a comment... Use @ to mention someone"
+            submitLabel="Post"
+            onSubmit={handleCreate}
+          />
+        </div>
+      )}
+
+      {visibleThreads.length > 0 && (
+        <div className="space-y-2">
+          {visibleThreads.map((thread) => (
+            <CommentThreadCard
+              key={thread.id}
+              thread={thread}
+              number={threadNumbers.get(thread.id) || 0}
+              anchorLabel={describeAnchor(thread)}
+              comments={commentsByThread.get(thread.id) || []}
+              expanded={thread.id === selectedId}
+              onToggle={() =>
+                setSelectedId(thread.id === selectedId ? null : thread.id)
+              }
+              canResolve={
+                canModerate ||
+                (!!currentUserId && thread.created_by === currentUserId)
+              }
+              controller={controller}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface CommentThreadCardProps {
+  thread: CommentThread
+  number: number
+  anchorLabel: string
+  comments: ThreadComment[]
+  expanded: boolean
+  onToggle: () => void
+  canResolve: boolean
+  controller: CommentThreadsController
+}
+
+function CommentThreadCard({
+  thread,
+  number,
+  anchorLabel,
+  comments,
+  expanded,
+  onToggle,
+  canResolve,
+  controller,
+}: CommentThreadCardProps) {
+  const [updating, setUpdating] = useState(false)
+  const resolved = thread.status === 'resolved'
+  const [first, ...replies] = comments
+
+  const toggleStatus = async () => {
+    setUpdating(true)
+    await controller.setThreadStatus(thread.id, resolved ? 'open' : 'resolved')
+    setUpdating(false)
+  }
+
+  return (
+    <div
+      className={`bg-[#070e0e] border rounded-lg p-3 ${
+        expanded ? 'border-[#38bdbb]/50' : 'border-gray-800'
+      }`}
+    >
+      <div className="flex items-start justify-between gap-3">
+        <button type="button" onClick={onToggle} className="flex-1 text-left">
+          <div className="flex items-center gap-2 text-xs text-[#595d60]">
+            <span
+              className={`w-5 h-5 rounded-full flex items-center justify-center font-bold ${
+                resolved
+                  ? 'bg-gray-600 text-gray-300'
+                  : 'bg-[#38bdbb] text-black'
+              }`}
+            >
+              {number}
+            </span>
+            <span>{anchorLabel}</span>
+            {resolved && <span className="text-green-400">Resolved</span>}
+            {replies.length > 0 && (
+              <span>
+                · {replies.length} repl{replies.length === 1 ? 'y' : 'ies'}
+              </span>
+            )}
+          </div>
+          {first && !expanded && (
+            <p className="text-sm text-white mt-2 line-clamp-2">
+              <CommentBody body={first.body} />
+            </p>
+          )}
+        </button>
+        {canResolve && (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={updating}
+            onClick={toggleStatus}
+            className="h-7 px-2 text-xs text-[#595d60] hover:text-white hover:bg-[#222a31]"
+          >
+            {resolved ? (
+              <>
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Reopen
+              </>
+            ) : (
+              <>
+                <CheckCircle className="w-3 h-3 mr-1" />
+                Resolve
+              </>
+            )}
+          </Button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {comments.map((comment) => (
+            <div key={comment.id} className="border-l-2 border-gray-700 pl-3">
+              <div className="flex items-center gap-2 text-xs text-[#595d60]">
+                <span className="text-white font-medium">
+                  {controller.getUserName(comment.user_id)}
+                </span>
+                <span>{new Date(comment.created_at).toLocaleString()}</span>
+              </div>
+              <p className="text-sm text-white whitespace-pre-wrap mt-1">
+                <CommentBody body={comment.body} />
+              </p>
+            </div>
+          ))}
+          {resolved && thread.resolved_at && (
+            <p className="text-xs text-[#595d60]">
+              Resolved by {controller.getUserName(thread.resolved_by)} on{' '}
+              {new Date(thread.resolved_at).toLocaleString()}
+            </p>
+          )}
+          <CommentComposer
+            members={controller.members}
+            placeholder="Reply... Use @ to mention someone"
+            submitLabel="Reply"
+            onSubmit={async (body) =>
+              (await controller.reply(thread.id, body)) !== null
+            }
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+function CommentBody({ body }: { body: string }) {
+  return (
+    <>
+      {splitMentions(body).map((segment, index) =>
+        segment.type === 'mention' ? (
+          <span key={index} className="text-[#38bdbb] font-medium">
+            @{segment.name}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  )
+}
+
+interface CommentComposerProps {
+  members: Mentionable[]
+  placeholder: string
+  submitLabel: string
+  /** Resolves to true once saved, which clears the box */
+  onSubmit: (body: string) => Promise<boolean>
+}
+
+function CommentComposer({
+  members,
+  placeholder,
+  submitLabel,
+  onSubmit,
+}: CommentComposerProps) {
+  const [body, setBody] = useState('')
+  const [sending, setSending] = useState(false)
+
+  const query = getMentionQuery(body)
+  const suggestions =
+    query === null
+      ? []
+      : members
+          .filter((member) =>
+            member.name.toLowerCase().includes(query.toLowerCase())
+          )
+          .slice(0, 5)
+
+  const submit = async () => {
+    const trimmed = body.trim()
+    if (!trimmed || sending) return
+    setSending(true)
+    const saved = await onSubmit(trimmed)
+    setSending(false)
+    if (saved) setBody('')
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault()
+            submit()
+          }
+        }}
+        placeholder={placeholder}
+        rows={2}
+        className="w-full px-3 py-2 bg-[#0d1117] border border-gray-700 rounded-lg text-sm text-white placeholder-[#595d60] focus:outline-none focus:border-[#38bdbb]"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 bg-[#1a1e1f] border border-gray-700 rounded-lg shadow-lg z-10 overflow-hidden">
+          {suggestions.map((member) => (
+            <button
+              key={member.user_id}
+              type="button"
+              onClick={() => setBody(insertMention(body, member))}
+              className="w-full px-3 py-2 text-left text-sm text-white hover:bg-[#222a31]"
+            >
+              @{member.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end mt-2">
+        <Button
+          size="sm"
+          disabled={!body.trim() || sending}
+          onClick={submit}
+          className="bg-[#38bdbb] text-black hover:bg-[#2ea9a7]"
+        >
+          {sending ? 'Posting...' : submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -4,14 +4,13 @@ import { useState } from 'react'
 import { X, Shield, Mail } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { useTheme } from '@/lib/theme-context'
+import { authorizedFetch } from '@/lib/api-client'
 
 interface PermissionRequestModalProps {
   isOpen: boolean
   onClose: () => void
   projectId: string
   projectTitle: string
-  projectOwnerId: string
-  currentUserEmail?: string
   action?: string // e.g., "edit this project", "change the due date", "modify items"
 }
 
@@ -20,8 +19,6 @@ export function PermissionRequestModal({
   onClose,
   projectId,
   projectTitle,
-  projectOwnerId,
-  currentUserEmail,
   action = 'make changes',
 }: PermissionRequestModalProps) {
   const { colors } = useTheme()
@@ -36,16 +33,10 @@ export function PermissionRequestModal({
     setError(null)
 
     try {
-      const response = await fetch('/api/request-access', {
+      const response = await authorizedFetch('/api/request-access', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
         body: JSON.stringify({
           projectId,
-          projectTitle,
-          projectOwnerId,
-          requesterEmail: currentUserEmail,
           action,
         }),
       })
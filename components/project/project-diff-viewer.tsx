@@ -0,0 +1,340 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ArrowRightLeft, X } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  DiffKind,
+  FieldChange,
+  ItemDiff,
+  PartDiff,
+  diffProjects,
+  hasDifferences,
+  summarizeDiff,
+} from '@/lib/project-diff'
+import { Part, Project } from '@/types'
+
+const KIND_STYLES: Record<DiffKind, string> = {
+  added: 'bg-green-900/30 text-green-400',
+  removed: 'bg-red-900/30 text-red-400',
+  modified: 'bg-yellow-900/30 text-yellow-400',
+  unchanged: 'bg-gray-800 text-[#595d60]',
+}
+
+function KindBadge({ kind }: { kind: DiffKind }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs ${KIND_STYLES[kind]}`}>
+      {kind}
+    </span>
+  )
+}
+
+function ChangeValue({
+  field,
+  value,
+}: {
+  field: string
+  value: string | null
+}) {
+  if (!value) return <span className="italic text-[#595d60]">none</span>
+  if (field === 'color' && /^#[0-9a-f]{3,8}$/i.test(value)) {
+    return (
+      <span className="inline-flex items-center gap-1">
+        <span
+          className="inline-block w-3 h-3 rounded-sm border border-gray-600"
+          style={{ backgroundColor: value }}
+        />
+        {value}
+      </span>
+    )
+  }
+  return <span>{value}</span>
+}
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  if (changes.length === 0) return null
+  return (
+    <ul className="space-y-1 text-sm">
+      {changes.map((change) => (
+        <li key={change.field} className="flex items-start">
+          <span className="font-medium min-w-[100px] text-white">
+            {change.label}:
+          </span>
+          <span className="flex-1">
+            <span className="line-through text-red-400">
+              <ChangeValue field={change.field} value={change.from} />
+            </span>
+            <span className="mx-2 text-[#595d60]">→</span>
+            <span className="text-green-400">
+              <ChangeValue field={change.field} value={change.to} />
+            </span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+const PART_FIELDS: { field: string; label: string }[] = [
+  { field: 'finish', label: 'Finish' },
+  { field: 'color', label: 'Color' },
+  { field: 'texture', label: 'Texture' },
+  { field: 'group', label: 'Group' },
+  { field: 'annotation', label: 'Marker' },
+  { field: 'status', label: 'Status' },
+  { field: 'notes', label: 'Notes' },
+]
+
+/**
+ * One side of a part row. Values that differ from the other side are
+ * highlighted in that side's colour.
+ */
+function PartCell({
+  part,
+  diff,
+  side,
+}: {
+  part: Part | null
+  diff: PartDiff
+  side: 'before' | 'after'
+}) {
+  if (!part) {
+    return (
+      <div className="h-full rounded-md border border-dashed border-gray-700" />
+    )
+  }
+
+  const changed = new Map(diff.changes.map((change) => [change.field, change]))
+  const highlight = side === 'before' ? 'text-red-400' : 'text-green-400'
+  const border =
+    diff.kind === 'added'
+      ? 'border-green-500/50'
+      : diff.kind === 'removed'
+        ? 'border-red-500/50'
+        : diff.kind === 'modified'
+          ? 'border-yellow-500/40'
+          : 'border-gray-700'
+
+  const nameChange = changed.get('name')
+
+  return (
+    <div className={`h-full rounded-md border ${border} p-3 text-sm`}>
+      <p className={`font-medium ${nameChange ? highlight : 'text-white'}`}>
+        {part.name || 'Unnamed part'}
+        {diff.moved && (
+          <span className="ml-2 text-xs text-yellow-400">reordered</span>
+        )}
+      </p>
+      <dl className="mt-1 space-y-0.5">
+        {PART_FIELDS.map(({ field, label }) => {
+          const change = changed.get(field)
+          const value = change
+            ? side === 'before'
+              ? change.from
+              : change.to
+            : field === 'group' || field === 'annotation' || field === 'status'
+              ? null
+              : ((part as any)[field] as string | undefined) || null
+          if (!value && !change) return null
+          return (
+            <div key={field} className="flex gap-2">
+              <dt className="text-[#595d60] min-w-[60px]">{label}</dt>
+              <dd className={change ? highlight : 'text-white'}>
+                <ChangeValue field={field} value={value} />
+              </dd>
+            </div>
+          )
+        })}
+      </dl>
+    </div>
+  )
+}
+
+function ItemSection({
+  item,
+  showUnchanged,
+}: {
+  item: ItemDiff
+  showUnchanged: boolean
+}) {
+  const groups = item.groups.filter((group) => group.kind !== 'unchanged')
+
+  return (
+    <div className="border border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+        <p className="font-medium text-white">{item.name}</p>
+        <KindBadge kind={item.kind} />
+      </div>
+
+      <div className="p-4 space-y-4">
+        <ChangeList changes={item.changes} />
+
+        {groups.length > 0 && (
+          <div className="text-sm space-y-1">
+            <p className="font-medium text-white">Groups</p>
+            {groups.map((group) => (
+              <div key={group.key} className="flex items-center gap-2">
+                <KindBadge kind={group.kind} />
+                <span className="text-white">
+                  {(group.after || group.before)?.name}
+                </span>
+                {group.changes.length > 0 && (
+                  <span className="text-[#595d60]">
+                    {group.changes.map((change) => change.label).join(', ')}{' '}
+                    changed
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {item.versions
+          .filter((version) => showUnchanged || version.kind !== 'unchanged')
+          .map((version) => {
+            const parts = version.parts.filter(
+              (part) => showUnchanged || part.kind !== 'unchanged'
+            )
+            return (
+              <div key={version.key} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-[#38bdbb]">
+                    {version.label}
+                  </p>
+                  {version.kind !== 'modified' && (
+                    <KindBadge kind={version.kind} />
+                  )}
+                </div>
+                <ChangeList changes={version.changes} />
+                {parts.map((part) => (
+                  <div key={part.key} className="grid grid-cols-2 gap-3">
+                    <PartCell part={part.before} diff={part} side="before" />
+                    <PartCell part={part.after} diff={part} side="after" />
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+      </div>
+    </div>
+  )
+}
+
+interface ProjectDiffViewerProps {
+  before: Project
+  after: Project
+  beforeLabel: string
+  afterLabel: string
+  onClose: () => void
+  // When set, the viewer doubles as a confirmation step (e.g. restore preview)
+  title?: string
+  confirmText?: string
+  onConfirm?: () => void
+  confirming?: boolean
+  error?: string | null
+}
+
+/**
+ * Side-by-side comparison of two project snapshots, item → version → part
+ */
+export function ProjectDiffViewer({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+  onClose,
+  title = 'Compare Snapshots',
+  confirmText = 'Confirm',
+  onConfirm,
+  confirming = false,
+  error,
+}: ProjectDiffViewerProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const diff = useMemo(() => diffProjects(before, after), [before, after])
+  const items = diff.items.filter(
+    (item) => showUnchanged || item.kind !== 'unchanged'
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-[#1a1e1f] border-gray-700">
+        <CardHeader className="border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <ArrowRightLeft className="w-5 h-5 text-[#38bdbb]" />
+              <CardTitle className="text-white">{title}</CardTitle>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-[#595d60] hover:text-white transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <p className="text-sm text-[#595d60]">{summarizeDiff(diff)}</p>
+        </CardHeader>
+
+        <CardContent className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <p className="text-red-400 font-medium">{beforeLabel}</p>
+            <p className="text-green-400 font-medium">{afterLabel}</p>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-900/20 border border-red-700 rounded-lg text-sm text-red-400">
+              {error}
+            </div>
+          )}
+
+          <ChangeList changes={diff.changes} />
+
+          {!hasDifferences(diff) && (
+            <p className="text-[#595d60]">These snapshots are identical.</p>
+          )}
+
+          {items.map((item) => (
+            <ItemSection
+              key={item.key}
+              item={item}
+              showUnchanged={showUnchanged}
+            />
+          ))}
+        </CardContent>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-700">
+          <label className="flex items-center gap-2 text-sm text-white cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(e) => setShowUnchanged(e.target.checked)}
+              className="accent-[#38bdbb]"
+            />
+            Show unchanged
+          </label>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onClose}
+              disabled={confirming}
+              className="border-gray-700 text-white hover:bg-[#222a31]"
+            >
+              {onConfirm ? 'Cancel' : 'Close'}
+            </Button>
+            {onConfirm && (
+              <Button
+                size="sm"
+                onClick={onConfirm}
+                disabled={confirming || !hasDifferences(diff)}
+                className="bg-[#38bdbb] text-white hover:bg-[#2ea9a7]"
+              >
+                {confirming ? 'Working...' : confirmText}
+              </Button>
+            )}
+          </div>
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -1,12 +1,34 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { ProjectDiffViewer } from '@/components/project/project-diff-viewer'
+import { RestoreScopePicker } from '@/components/project/restore-scope-picker'
+import { useProject } from '@/hooks/useProject'
 import { supabase } from '@/lib/supaClient'
-import { ProjectLog } from '@/types'
+import { Project, ProjectLog } from '@/types'
+import { diffProjects, summarizeDiff } from '@/lib/project-diff'
+import { migrateItems } from '@/lib/project-migrations'
+import {
+  RestoreScope,
+  applyPartialRestore,
+  describeRestoreScope,
+} from '@/lib/project-restore'
 import { formatDateForDisplay } from '@/lib/date-utils'
+import { describeStatusChange } from '@/lib/status-workflow'
+
+const ACTION_LABELS: Record<string, string> = {
+  project_created: 'Project Created',
+  project_updated: 'Project Updated',
+  project_restored: 'Project Restored',
+  due_date_updated: 'Due Date Updated',
+  collaborator_joined: 'Collaborator Joined',
+  export_completed: 'Export Completed',
+  status_changed: 'Status Changed',
+  approval_recorded: 'Approved',
+}
 
 interface ProjectLogsProps {
   projectId: string
@@ -35,6 +57,41 @@ export function ProjectLogs({
     timestamp: '',
   })
 
+  const { getProject, restoreProjectScope, error: restoreError } = useProject()
+  const [scopePicker, setScopePicker] = useState<ProjectLog | null>(null)
+  const [scopePickerError, setScopePickerError] = useState<string | null>(null)
+  const [restorePreview, setRestorePreview] = useState<{
+    log: ProjectLog
+    scope: RestoreScope
+    current: Project
+    merged: Project
+  } | null>(null)
+  const [restoringScope, setRestoringScope] = useState(false)
+
+  const [compareSelection, setCompareSelection] = useState<string[]>([])
+  const [comparison, setComparison] = useState<{
+    before: Project
+    after: Project
+    beforeLabel: string
+    afterLabel: string
+  } | null>(null)
+
+  // Structured summaries for entries that carry both snapshots
+  const diffSummaries = useMemo(() => {
+    const summaries = new Map<string, string>()
+    logs.forEach((log) => {
+      if (log.details?.previous_data && log.details?.new_data) {
+        summaries.set(
+          log.id,
+          summarizeDiff(
+            diffProjects(log.details.previous_data, log.details.new_data)
+          )
+        )
+      }
+    })
+    return summaries
+  }, [logs])
+
   useEffect(() => {
     const fetchLogs = async () => {
       try {
@@ -61,7 +118,9 @@ export function ProjectLogs({
         console.log('📋 Fetched logs:', logsData?.length || 0, 'entries')
 
         // Fetch user profiles separately for each unique user_id
-        const userIds = Array.from(new Set((logsData || []).map(log => log.user_id).filter(Boolean)))
+        const userIds = Array.from(
+          new Set((logsData || []).map((log) => log.user_id).filter(Boolean))
+        )
         const userProfilesMap = new Map()
 
         if (userIds.length > 0) {
@@ -71,16 +130,16 @@ export function ProjectLogs({
             .in('user_id', userIds)
 
           if (!profilesError && profilesData) {
-            profilesData.forEach(profile => {
+            profilesData.forEach((profile) => {
               userProfilesMap.set(profile.user_id, profile)
             })
           }
         }
 
         // Combine logs with user profile data
-        const data = (logsData || []).map(log => ({
+        const data = (logsData || []).map((log) => ({
           ...log,
-          user_profiles: userProfilesMap.get(log.user_id) || null
+          user_profiles: userProfilesMap.get(log.user_id) || null,
         }))
 
         console.log('Logs response:', { data })
@@ -129,7 +188,7 @@ export function ProjectLogs({
         .update({
           title: previousData.title,
           retailer: previousData.retailer,
-          items: previousData.items,
+          items: migrateItems(previousData.items),
           updated_at: new Date().toISOString(),
         })
         .eq('id', projectId)
@@ -194,6 +253,62 @@ export function ProjectLogs({
     }
   }
 
+  const openScopePicker = (log: ProjectLog) => {
+    setScopePickerError(null)
+    setScopePicker(log)
+  }
+
+  // Merge the chosen entry into the current project and show the result
+  const previewScopeRestore = async (scope: RestoreScope) => {
+    if (!scopePicker?.details?.previous_data) return
+    setScopePickerError(null)
+
+    const current = await getProject(projectId)
+    if (!current) return
+
+    try {
+      const merged = applyPartialRestore(
+        current,
+        scopePicker.details.previous_data,
+        scope
+      )
+      setRestorePreview({ log: scopePicker, scope, current, merged })
+      setScopePicker(null)
+    } catch (err) {
+      setScopePickerError(
+        err instanceof Error ? err.message : 'Failed to preview restore'
+      )
+    }
+  }
+
+  const handleScopeRestore = async () => {
+    if (!restorePreview) return
+    setRestoringScope(true)
+
+    const restored = await restoreProjectScope(
+      projectId,
+      restorePreview.log.id,
+      restorePreview.scope
+    )
+
+    setRestoringScope(false)
+    if (!restored) return
+
+    setRestorePreview(null)
+
+    const { data: updatedLogs, error: refreshError } = await supabase
+      .from('project_logs')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('timestamp', { ascending: false })
+
+    if (!refreshError) {
+      setLogs(updatedLogs || [])
+    }
+
+    onProjectRestored?.()
+  }
+
   const openRestoreDialog = (
     logId: string,
     action: string,
@@ -306,6 +421,46 @@ export function ProjectLogs({
     return changeList.length > 2 ? `${preview}...` : preview
   }
 
+  const logLabel = (log: ProjectLog) =>
+    `${ACTION_LABELS[log.action] || log.action} · ${new Date(log.timestamp).toLocaleString()}`
+
+  const openLogDiff = (log: ProjectLog) => {
+    if (!log.details?.previous_data || !log.details?.new_data) return
+    setComparison({
+      before: log.details.previous_data,
+      after: log.details.new_data,
+      beforeLabel: 'Before this change',
+      afterLabel: logLabel(log),
+    })
+  }
+
+  const toggleCompareSelection = (logId: string) => {
+    setCompareSelection((current) =>
+      current.includes(logId)
+        ? current.filter((id) => id !== logId)
+        : [...current.slice(-1), logId]
+    )
+  }
+
+  // Compare the snapshots taken after each of two selected entries,
+  // older on the left
+  const openSelectedComparison = () => {
+    const selected = logs
+      .filter((log) => compareSelection.includes(log.id))
+      .sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      )
+    if (selected.length !== 2) return
+    const [older, newer] = selected
+    setComparison({
+      before: older.details.new_data!,
+      after: newer.details.new_data!,
+      beforeLabel: logLabel(older),
+      afterLabel: logLabel(newer),
+    })
+  }
+
   const canRestore = (log: ProjectLog) => {
     // Can only restore from project_updated actions that have previous_data
     return log.action === 'project_updated' && log.details?.previous_data
@@ -315,7 +470,33 @@ export function ProjectLogs({
     <>
       <Card className="bg-[#1a1e1f] border-gray-700">
         <CardHeader>
-          <CardTitle className="text-white">Project History</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-white">Project History</CardTitle>
+            {compareSelection.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-[#595d60]">
+                  {compareSelection.length} of 2 selected
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={compareSelection.length !== 2}
+                  onClick={openSelectedComparison}
+                  className="border-gray-700 text-white hover:bg-[#222a31]"
+                >
+                  Compare Selected
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCompareSelection([])}
+                  className="text-white hover:bg-[#222a31]"
+                >
+                  Clear
+                </Button>
+              </div>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
@@ -327,12 +508,20 @@ export function ProjectLogs({
                   (key) => (log.details.changes as any)[key] !== null
                 )
               const isDueDateUpdate = log.action === 'due_date_updated'
-              const hasDueDateDetails = isDueDateUpdate && (log.details?.previous_due_date !== undefined || log.details?.new_due_date !== undefined)
+              const hasDueDateDetails =
+                isDueDateUpdate &&
+                (log.details?.previous_due_date !== undefined ||
+                  log.details?.new_due_date !== undefined)
               const canRestoreThis = canRestore(log)
-              
+              const diffSummary = diffSummaries.get(log.id)
+              const hasSnapshot = !!log.details?.new_data
+
               // Get user display name
               const userProfile = (log as any).user_profiles
-              const changedBy = log.details?.changed_by || userProfile?.display_name || 'Unknown user'
+              const changedBy =
+                log.details?.changed_by ||
+                userProfile?.display_name ||
+                'Unknown user'
 
               return (
                 <div
@@ -340,43 +529,103 @@ export function ProjectLogs({
                   className="border-l-2 border-[#38bdbb] pl-4 py-3"
                 >
                   <div className="flex justify-between items-start">
+                    {hasSnapshot && (
+                      <input
+                        type="checkbox"
+                        checked={compareSelection.includes(log.id)}
+                        onChange={() => toggleCompareSelection(log.id)}
+                        title="Select to compare with another snapshot"
+                        className="mt-1.5 mr-3 accent-[#38bdbb]"
+                      />
+                    )}
                     <div className="flex-1">
                       <p className="font-medium text-white">
-                        {log.action === 'project_updated'
-                          ? 'Project Updated'
-                          : log.action === 'project_restored'
-                            ? 'Project Restored'
-                            : log.action === 'due_date_updated'
-                              ? 'Due Date Updated'
-                              : log.action}
+                        {ACTION_LABELS[log.action] || log.action}
                       </p>
                       <p className="text-sm text-[#595d60]">
                         {new Date(log.timestamp).toLocaleString()}
                       </p>
+                      {log.details?.restore_scope && (
+                        <p className="text-sm text-[#595d60] mt-1">
+                          Restored{' '}
+                          {describeRestoreScope(log.details.restore_scope)}
+                        </p>
+                      )}
                       {isDueDateUpdate && hasDueDateDetails && (
                         <div className="text-sm text-[#595d60] mt-1 space-y-1">
                           <p>
-                            <span className="font-medium text-white">Changed by:</span> <span className="text-white">{changedBy}</span>
+                            <span className="font-medium text-white">
+                              Changed by:
+                            </span>{' '}
+                            <span className="text-white">{changedBy}</span>
                           </p>
                           <p>
-                            <span className="font-medium text-white">From:</span>{' '}
+                            <span className="font-medium text-white">
+                              From:
+                            </span>{' '}
                             <span className="line-through text-red-400">
-                              {formatDateForDisplay(log.details?.previous_due_date)}
-                            </span>
-                            {' '}→{' '}
+                              {formatDateForDisplay(
+                                log.details?.previous_due_date
+                              )}
+                            </span>{' '}
+                            →{' '}
                             <span className="text-green-400 font-medium">
                               {formatDateForDisplay(log.details?.new_due_date)}
                             </span>
                           </p>
                         </div>
                       )}
-                      {hasChanges && !isDueDateUpdate && (
+                      {log.action === 'export_completed' &&
+                        log.details?.export && (
+                          <p className="text-sm text-[#595d60] mt-1">
+                            {log.details.export.format.toUpperCase()} export
+                            {log.details.export.filename
+                              ? ` · ${log.details.export.filename}`
+                              : ''}
+                          </p>
+                        )}
+                      {log.details?.status_change && (
+                        <p className="text-sm text-[#595d60] mt-1">
+                          {describeStatusChange(log.details.status_change)}
+                        </p>
+                      )}
+                      {log.details?.status_change?.comment && (
+                        <p className="text-sm text-white mt-1 italic">
+                          &ldquo;{log.details.status_change.comment}&rdquo;
+                        </p>
+                      )}
+                      {log.action === 'collaborator_joined' &&
+                        log.details?.collaborator && (
+                          <p className="text-sm text-[#595d60] mt-1">
+                            Joined with{' '}
+                            {log.details.collaborator.permission_level}{' '}
+                            permission
+                          </p>
+                        )}
+                      {diffSummary ? (
                         <p className="text-sm text-[#595d60] mt-1">
-                          {getChangePreview(log.details.changes)}
+                          {diffSummary}
                         </p>
+                      ) : (
+                        hasChanges &&
+                        !isDueDateUpdate && (
+                          <p className="text-sm text-[#595d60] mt-1">
+                            {getChangePreview(log.details.changes)}
+                          </p>
+                        )
                       )}
                     </div>
                     <div className="flex gap-2">
+                      {diffSummary && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openLogDiff(log)}
+                          className="text-white hover:bg-[#222a31]"
+                        >
+                          View Diff
+                        </Button>
+                      )}
                       {(hasChanges || hasDueDateDetails) && (
                         <Button
                           variant="ghost"
@@ -399,6 +648,16 @@ export function ProjectLogs({
                           Restore
                         </Button>
                       )}
+                      {canRestoreThis && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openScopePicker(log)}
+                          className="border-gray-700 text-white hover:bg-[#222a31]"
+                        >
+                          Restore Part...
+                        </Button>
+                      )}
                     </div>
                   </div>
 
@@ -411,19 +670,31 @@ export function ProjectLogs({
                           </p>
                           <div className="space-y-2">
                             <div className="flex items-start">
-                              <span className="font-medium min-w-[100px] text-white">Changed by:</span>
-                              <span className="flex-1 text-white">{changedBy}</span>
+                              <span className="font-medium min-w-[100px] text-white">
+                                Changed by:
+                              </span>
+                              <span className="flex-1 text-white">
+                                {changedBy}
+                              </span>
                             </div>
                             <div className="flex items-start">
-                              <span className="font-medium min-w-[100px] text-white">Previous date:</span>
+                              <span className="font-medium min-w-[100px] text-white">
+                                Previous date:
+                              </span>
                               <span className="flex-1 line-through text-red-400">
-                                {formatDateForDisplay(log.details?.previous_due_date)}
+                                {formatDateForDisplay(
+                                  log.details?.previous_due_date
+                                )}
                               </span>
                             </div>
                             <div className="flex items-start">
-                              <span className="font-medium min-w-[100px] text-white">New date:</span>
+                              <span className="font-medium min-w-[100px] text-white">
+                                New date:
+                              </span>
                               <span className="flex-1 text-green-400 font-medium">
-                                {formatDateForDisplay(log.details?.new_due_date)}
+                                {formatDateForDisplay(
+                                  log.details?.new_due_date
+                                )}
                               </span>
                             </div>
                           </div>
@@ -434,116 +705,123 @@ export function ProjectLogs({
                             Detailed Changes:
                           </p>
                           <ul className="space-y-2 text-sm">
-                        {log.details.changes.title && (
-                          <li className="flex items-start">
-                            <span className="font-medium min-w-[60px] text-white">
-                              Title:
-                            </span>
-                            <span className="flex-1">
-                              <span className="line-through text-red-400">
-                                "{log.details.changes.title.from}"
-                              </span>
-                              <span className="mx-2 text-[#595d60]">→</span>
-                              <span className="text-green-400">
-                                "{log.details.changes.title.to}"
-                              </span>
-                            </span>
-                          </li>
-                        )}
-                        {log.details.changes.retailer && (
-                          <li className="flex items-start">
-                            <span className="font-medium min-w-[60px] text-white">
-                              Retailer:
-                            </span>
-                            <span className="flex-1">
-                              <span className="line-through text-red-400">
-                                "{log.details.changes.retailer.from}"
-                              </span>
-                              <span className="mx-2 text-[#595d60]">→</span>
-                              <span className="text-green-400">
-                                "{log.details.changes.retailer.to}"
-                              </span>
-                            </span>
-                          </li>
-                        )}
-                        {log.details.changes.items_count && (
-                          <li className="flex items-start">
-                            <span className="font-medium min-w-[60px] text-white">
-                              Items:
-                            </span>
-                            <span className="flex-1">
-                              <span className="line-through text-red-400">
-                                {log.details.changes.items_count.from}
-                              </span>
-                              <span className="mx-2 text-[#595d60]">→</span>
-                              <span className="text-green-400">
-                                {log.details.changes.items_count.to}
-                              </span>
-                            </span>
-                          </li>
-                        )}
-
-                        {/* Display detailed item and part changes */}
-                        {log.details.changes &&
-                          Object.keys(log.details.changes).map((key) => {
-                            if (
-                              key.startsWith('item_') &&
-                              (log.details.changes as any)[key]
-                            ) {
-                              const change = (log.details.changes as any)[key]
-                              let label = ''
-                              let fromValue = change.from
-                              let toValue = change.to
-
-                              if (key.includes('_name')) {
-                                label = 'Item Name'
-                              } else if (key.includes('_hero_image')) {
-                                label = 'Item Image'
-                              } else if (key.includes('_parts_count')) {
-                                label = 'Item Parts'
-                              } else if (
-                                key.includes('_part_') &&
-                                key.includes('_name')
-                              ) {
-                                label = 'Part Name'
-                              } else if (
-                                key.includes('_part_') &&
-                                key.includes('_finish')
-                              ) {
-                                label = 'Part Finish'
-                              } else if (
-                                key.includes('_part_') &&
-                                key.includes('_color')
-                              ) {
-                                label = 'Part Color'
-                              } else if (
-                                key.includes('_part_') &&
-                                key.includes('_texture')
-                              ) {
-                                label = 'Part Texture'
-                              }
-
-                              if (label) {
-                                return (
-                                  <li key={key} className="flex items-start">
-                                    <span className="font-medium min-w-[80px] text-white">
-                                      {label}:
-                                    </span>
-                                    <span className="flex-1">
-                                      <span className="line-through text-red-400">
-                                        "{fromValue}"
-                                      </span>
-                                      <span className="mx-2 text-[#595d60]">→</span>
-                                      <span className="text-green-400">
-                                        "{toValue}"
-                                      </span>
-                                    </span>
-                                  </li>
-                                )
-                              }
-                            }
-                            return null
-                          })}
+                            {log.details.changes.title && (
+                              <li className="flex items-start">
+                                <span className="font-medium min-w-[60px] text-white">
+                                  Title:
+                                </span>
+                                <span className="flex-1">
+                                  <span className="line-through text-red-400">
+                                    "{log.details.changes.title.from}"
+                                  </span>
+                                  <span className="mx-2 text-[#595d60]">→</span>
+                                  <span className="text-green-400">
+                                    "{log.details.changes.title.to}"
+                                  </span>
+                                </span>
+                              </li>
+                            )}
+                            {log.details.changes.retailer && (
+                              <li className="flex items-start">
+                                <span className="font-medium min-w-[60px] text-white">
+                                  Retailer:
+                                </span>
+                                <span className="flex-1">
+                                  <span className="line-through text-red-400">
+                                    "{log.details.changes.retailer.from}"
+                                  </span>
+                                  <span className="mx-2 text-[#595d60]">→</span>
+                                  <span className="text-green-400">
+                                    "{log.details.changes.retailer.to}"
+                                  </span>
+                                </span>
+                              </li>
+                            )}
+                            {log.details.changes.items_count && (
+                              <li className="flex items-start">
+                                <span className="font-medium min-w-[60px] text-white">
+                                  Items:
+                                </span>
+                                <span className="flex-1">
+                                  <span className="line-through text-red-400">
+                                    {log.details.changes.items_count.from}
+                                  </span>
+                                  <span className="mx-2 text-[#595d60]">→</span>
+                                  <span className="text-green-400">
+                                    {log.details.changes.items_count.to}
+                                  </span>
+                                </span>
+                              </li>
+                            )}
+
+                            {/* Display detailed item and part changes */}
+                            {log.details.changes &&
+                              Object.keys(log.details.changes).map((key) => {
+                                if (
+                                  key.startsWith('item_') &&
+                                  (log.details.changes as any)[key]
+                                ) {
+                                  const change = (log.details.changes as any)[
+                                    key
+                                  ]
+                                  let label = ''
+                                  let fromValue = change.from
+                                  let toValue = change.to
+
+                                  if (key.includes('_name')) {
+                                    label = 'Item Name'
+                                  } else if (key.includes('_hero_image')) {
+                                    label = 'Item Image'
+                                  } else if (key.includes('_parts_count')) {
+                                    label = 'Item Parts'
+                                  } else if (
+                                    key.includes('_part_') &&
+                                    key.includes('_name')
+                                  ) {
+                                    label = 'Part Name'
+                                  } else if (
+                                    key.includes('_part_') &&
+                                    key.includes('_finish')
+                                  ) {
+                                    label = 'Part Finish'
+                                  } else if (
+                                    key.includes('_part_') &&
+                                    key.includes('_color')
+                                  ) {
+                                    label = 'Part Color'
+                                  } else if (
+                                    key.includes('_part_') &&
+                                    key.includes('_texture')
+                                  ) {
+                                    label = 'Part Texture'
+                                  }
+
+                                  if (label) {
+                                    return (
+                                      <li
+                                        key={key}
+                                        className="flex items-start"
+                                      >
+                                        <span className="font-medium min-w-[80px] text-white">
+                                          {label}:
+                                        </span>
+                                        <span className="flex-1">
+                                          <span className="line-through text-red-400">
+                                            "{fromValue}"
+                                          </span>
+                                          <span className="mx-2 text-[#595d60]">
+                                            →
+                                          </span>
+                                          <span className="text-green-400">
+                                            "{toValue}"
+                                          </span>
+                                        </span>
+                                      </li>
+                                    )
+                                  }
+                                }
+                                return null
+                              })}
                           </ul>
                         </>
                       ) : null}
@@ -556,6 +834,41 @@ export function ProjectLogs({
         </CardContent>
       </Card>
 
+      {comparison && (
+        <ProjectDiffViewer
+          before={comparison.before}
+          after={comparison.after}
+          beforeLabel={comparison.beforeLabel}
+          afterLabel={comparison.afterLabel}
+          onClose={() => setComparison(null)}
+        />
+      )}
+
+      {scopePicker?.details?.previous_data && (
+        <RestoreScopePicker
+          snapshot={scopePicker.details.previous_data}
+          timestamp={scopePicker.timestamp}
+          error={scopePickerError || restoreError}
+          onClose={() => setScopePicker(null)}
+          onPreview={previewScopeRestore}
+        />
+      )}
+
+      {restorePreview && (
+        <ProjectDiffViewer
+          title="Preview Restore"
+          before={restorePreview.current}
+          after={restorePreview.merged}
+          beforeLabel="Current project"
+          afterLabel={`After restoring from ${new Date(restorePreview.log.timestamp).toLocaleString()}`}
+          confirmText="Restore"
+          confirming={restoringScope}
+          error={restoreError}
+          onConfirm={handleScopeRestore}
+          onClose={() => setRestorePreview(null)}
+        />
+      )}
+
       <ConfirmDialog
         isOpen={restoreDialog.isOpen}
         onClose={closeRestoreDialog}
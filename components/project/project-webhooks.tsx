@@ -0,0 +1,496 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Check,
+  Copy,
+  RefreshCw,
+  Trash2,
+  Webhook as WebhookIcon,
+} from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { authorizedFetch } from '@/lib/api-client'
+import { Webhook, WebhookDelivery, WebhookEvent } from '@/types'
+
+const EVENT_OPTIONS: { event: WebhookEvent; label: string }[] = [
+  { event: 'project_created', label: 'Project created' },
+  { event: 'project_updated', label: 'Items, versions or parts changed' },
+  { event: 'project_restored', label: 'Project restored' },
+  { event: 'due_date_updated', label: 'Due date moved' },
+  { event: 'collaborator_joined', label: 'Collaborator joined' },
+  { event: 'export_completed', label: 'Export finished' },
+  { event: 'status_changed', label: 'Version or part status changed' },
+  { event: 'approval_recorded', label: 'Version or part approved' },
+]
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  succeeded: 'bg-green-900/30 text-green-400',
+  pending: 'bg-yellow-900/30 text-yellow-400',
+  failed: 'bg-red-900/30 text-red-400',
+}
+
+interface ProjectWebhooksProps {
+  projectId: string
+}
+
+/**
+ * Manage outgoing webhooks for a project and inspect their delivery log.
+ * Only rendered for project owners and admins; the API decides.
+ */
+export function ProjectWebhooks({ projectId }: ProjectWebhooksProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [team, setTeam] = useState<string | null>(null)
+  const [available, setAvailable] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [url, setUrl] = useState('')
+  const [events, setEvents] = useState<WebhookEvent[]>([
+    'project_updated',
+    'due_date_updated',
+  ])
+  const [scope, setScope] = useState<'project' | 'team'>('project')
+  const [saving, setSaving] = useState(false)
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false)
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<Webhook | null>(null)
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const response = await authorizedFetch(
+        `/api/project/${projectId}/webhooks`
+      )
+      // Non-admins can't manage webhooks; hide the panel for them
+      if (response.status === 403 || response.status === 404) {
+        setAvailable(false)
+        return
+      }
+      if (!response.ok) throw new Error('Failed to load webhooks')
+
+      const result = await response.json()
+      setWebhooks(result.webhooks)
+      setTeam(result.team)
+      setAvailable(true)
+    } catch (err) {
+      console.error('Error loading webhooks:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load webhooks')
+      setAvailable(true)
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchWebhooks()
+  }, [fetchWebhooks])
+
+  const fetchDeliveries = async (webhookId: string) => {
+    setDeliveriesLoading(true)
+    try {
+      const response = await authorizedFetch(
+        `/api/webhooks/${webhookId}/deliveries`
+      )
+      if (!response.ok) throw new Error('Failed to load deliveries')
+      setDeliveries(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deliveries')
+    } finally {
+      setDeliveriesLoading(false)
+    }
+  }
+
+  const toggleDeliveries = (webhookId: string) => {
+    if (expandedId === webhookId) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(webhookId)
+    setDeliveries([])
+    fetchDeliveries(webhookId)
+  }
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((current) =>
+      current.includes(event)
+        ? current.filter((e) => e !== event)
+        : [...current, event]
+    )
+  }
+
+  const handleCreate = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await authorizedFetch(
+        `/api/project/${projectId}/webhooks`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ url: url.trim(), events, scope }),
+        }
+      )
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to add webhook')
+      }
+
+      const { secret, ...webhook } = result
+      setWebhooks((current) => [...current, webhook])
+      setNewSecret(secret)
+      setShowForm(false)
+      setUrl('')
+      setScope('project')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add webhook')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    setError(null)
+    try {
+      const response = await authorizedFetch(`/api/webhooks/${webhook.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ active: !webhook.active }),
+      })
+      if (!response.ok) throw new Error('Failed to update webhook')
+      const updated = await response.json()
+      setWebhooks((current) =>
+        current.map((w) => (w.id === updated.id ? updated : w))
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update webhook')
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return
+    setError(null)
+    try {
+      const response = await authorizedFetch(
+        `/api/webhooks/${deleteTarget.id}`,
+        { method: 'DELETE' }
+      )
+      if (!response.ok) throw new Error('Failed to delete webhook')
+      setWebhooks((current) => current.filter((w) => w.id !== deleteTarget.id))
+      if (expandedId === deleteTarget.id) setExpandedId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete webhook')
+    } finally {
+      setDeleteTarget(null)
+    }
+  }
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id)
+    try {
+      const response = await authorizedFetch(
+        `/api/webhooks/${delivery.webhook_id}/deliveries/${delivery.id}`,
+        { method: 'POST' }
+      )
+      if (!response.ok) throw new Error('Failed to redeliver')
+      const updated = await response.json()
+      setDeliveries((current) =>
+        current.map((d) => (d.id === updated.id ? updated : d))
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to redeliver')
+    } finally {
+      setRedeliveringId(null)
+    }
+  }
+
+  const handleCopySecret = async () => {
+    if (!newSecret) return
+    await navigator.clipboard.writeText(newSecret)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  if (loading || !available) return null
+
+  return (
+    <>
+      <Card className="bg-[#1a1e1f] border-gray-700">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-white flex items-center gap-2">
+              <WebhookIcon className="w-5 h-5 text-[#38bdbb]" />
+              Webhooks
+            </CardTitle>
+            {!showForm && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowForm(true)}
+                className="border-gray-700 text-white hover:bg-[#222a31]"
+              >
+                Add Webhook
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            {newSecret && (
+              <div className="p-3 bg-green-900/20 border border-green-500/50 rounded-md">
+                <p className="text-sm text-green-400 mb-2">
+                  Signing secret — copy it now, it won&apos;t be shown again.
+                  Verify the X-Webhook-Signature header with it.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 min-w-0 truncate text-sm text-white bg-black/30 px-3 py-2 rounded">
+                    {newSecret}
+                  </code>
+                  <button
+                    onClick={handleCopySecret}
+                    className="p-2 text-gray-300 hover:text-white transition-colors"
+                    title="Copy secret"
+                  >
+                    {copied ? (
+                      <Check className="w-4 h-4" />
+                    ) : (
+                      <Copy className="w-4 h-4" />
+                    )}
+                  </button>
+                </div>
+                <button
+                  onClick={() => setNewSecret(null)}
+                  className="mt-2 text-xs text-[#595d60] hover:text-white transition-colors"
+                >
+                  Done
+                </button>
+              </div>
+            )}
+
+            {showForm && (
+              <div className="p-4 bg-[#0d1117] rounded-md border border-gray-700 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">
+                    Payload URL
+                  </label>
+                  <input
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="https://example.com/hooks/core-render"
+                    className="w-full px-3 py-2 bg-[#1a1e1f] border border-gray-700 rounded-md text-white placeholder-[#595d60] focus:border-[#38bdbb] focus:ring-1 focus:ring-[#38bdbb]"
+                  />
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium text-white mb-2">Events</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {EVENT_OPTIONS.map((option) => (
+                      <label
+                        key={option.event}
+                        className="flex items-center gap-2 text-sm text-white cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={events.includes(option.event)}
+                          onChange={() => toggleEvent(option.event)}
+                          className="accent-[#38bdbb]"
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {team && (
+                  <div>
+                    <p className="text-sm font-medium text-white mb-2">
+                      Applies to
+                    </p>
+                    <div className="flex gap-4 text-sm text-white">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="radio"
+                          checked={scope === 'project'}
+                          onChange={() => setScope('project')}
+                          className="accent-[#38bdbb]"
+                        />
+                        This project
+                      </label>
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="radio"
+                          checked={scope === 'team'}
+                          onChange={() => setScope('team')}
+                          className="accent-[#38bdbb]"
+                        />
+                        All {team.replace(/_/g, ' ')} projects
+                      </label>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={handleCreate}
+                    disabled={saving || !url.trim() || events.length === 0}
+                  >
+                    {saving ? 'Adding...' : 'Add Webhook'}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowForm(false)}
+                    className="text-white hover:bg-[#222a31]"
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {webhooks.length === 0 && !showForm && (
+              <p className="text-[#595d60]">
+                No webhooks yet. Add one to get signed POSTs when this project
+                changes.
+              </p>
+            )}
+
+            {webhooks.map((webhook) => (
+              <div
+                key={webhook.id}
+                className="border-l-2 border-[#38bdbb] pl-4 py-3"
+              >
+                <div className="flex justify-between items-start gap-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-white truncate">
+                      {webhook.url}
+                    </p>
+                    <p className="text-sm text-[#595d60]">
+                      {webhook.team
+                        ? `Team: ${webhook.team.replace(/_/g, ' ')}`
+                        : 'This project'}{' '}
+                      · {webhook.events.length} event
+                      {webhook.events.length === 1 ? '' : 's'}
+                      {!webhook.active && ' · Disabled'}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleDeliveries(webhook.id)}
+                      className="text-white hover:bg-[#222a31]"
+                    >
+                      {expandedId === webhook.id
+                        ? 'Hide Deliveries'
+                        : 'Deliveries'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleActive(webhook)}
+                      className="border-gray-700 text-white hover:bg-[#222a31]"
+                    >
+                      {webhook.active ? 'Disable' : 'Enable'}
+                    </Button>
+                    <button
+                      onClick={() => setDeleteTarget(webhook)}
+                      className="p-2 text-red-400 hover:text-red-300 transition-colors"
+                      title="Delete webhook"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {expandedId === webhook.id && (
+                  <div className="mt-3 p-3 bg-[#0d1117] rounded-md border border-gray-700">
+                    {deliveriesLoading ? (
+                      <p className="text-sm text-[#595d60]">
+                        Loading deliveries...
+                      </p>
+                    ) : deliveries.length === 0 ? (
+                      <p className="text-sm text-[#595d60]">
+                        No deliveries yet.
+                      </p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {deliveries.map((delivery) => (
+                          <li
+                            key={delivery.id}
+                            className="flex items-start justify-between gap-4 text-sm"
+                          >
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span
+                                  className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[delivery.status]}`}
+                                >
+                                  {delivery.status}
+                                </span>
+                                <span className="text-white">
+                                  {delivery.event}
+                                </span>
+                                {delivery.response_status && (
+                                  <span className="text-[#595d60]">
+                                    HTTP {delivery.response_status}
+                                  </span>
+                                )}
+                              </div>
+                              <p className="text-xs text-[#595d60] mt-1">
+                                {new Date(delivery.created_at).toLocaleString()}{' '}
+                                · {delivery.attempts} attempt
+                                {delivery.attempts === 1 ? '' : 's'}
+                                {delivery.status === 'pending' &&
+                                  delivery.next_attempt_at &&
+                                  ` · next retry ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`}
+                              </p>
+                              {delivery.error && (
+                                <p className="text-xs text-red-400 mt-1 truncate">
+                                  {delivery.error}
+                                </p>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => handleRedeliver(delivery)}
+                              disabled={redeliveringId === delivery.id}
+                              className="p-1 text-gray-300 hover:text-white transition-colors disabled:opacity-50 flex-shrink-0"
+                              title="Redeliver"
+                            >
+                              <RefreshCw
+                                className={`w-4 h-4 ${redeliveringId === delivery.id ? 'animate-spin' : ''}`}
+                              />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title="Delete Webhook"
+        description={
+          deleteTarget?.team
+            ? `This webhook applies to every ${deleteTarget.team.replace(/_/g, ' ')} project. Deleting it stops deliveries for all of them.`
+            : 'Deliveries to this URL will stop and its delivery log will be removed.'
+        }
+        confirmText="Delete"
+        variant="destructive"
+      />
+    </>
+  )
+}
@@ -0,0 +1,192 @@
+'use client'
+
+import { useState } from 'react'
+import { History, X } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { itemVersions } from '@/lib/project-diff'
+import { RestoreScope } from '@/lib/project-restore'
+import { Project } from '@/types'
+
+interface RestoreScopePickerProps {
+  snapshot: Project
+  timestamp: string
+  error?: string | null
+  onClose: () => void
+  onPreview: (scope: RestoreScope) => void
+}
+
+function scopeKey(scope: RestoreScope): string {
+  switch (scope.type) {
+    case 'item':
+      return `${scope.itemIndex}`
+    case 'version':
+      return `${scope.itemIndex}:${scope.versionIndex}`
+    case 'part':
+      return `${scope.itemIndex}:${scope.versionIndex}:${scope.partIndex}`
+  }
+}
+
+function ScopeOption({
+  scope,
+  selected,
+  onSelect,
+  children,
+}: {
+  scope: RestoreScope
+  selected: RestoreScope | null
+  onSelect: (scope: RestoreScope) => void
+  children: React.ReactNode
+}) {
+  const isSelected = !!selected && scopeKey(selected) === scopeKey(scope)
+  return (
+    <label
+      className={`flex items-center gap-2 px-2 py-1 rounded cursor-pointer text-sm ${
+        isSelected ? 'bg-[#38bdbb]/10 text-white' : 'text-[#d1d5db]'
+      } hover:bg-[#222a31]`}
+    >
+      <input
+        type="radio"
+        name="restore-scope"
+        checked={isSelected}
+        onChange={() => onSelect(scope)}
+        className="accent-[#38bdbb]"
+      />
+      {children}
+    </label>
+  )
+}
+
+/**
+ * Pick a single item, version or part from a history snapshot to copy
+ * back into the current project
+ */
+export function RestoreScopePicker({
+  snapshot,
+  timestamp,
+  error,
+  onClose,
+  onPreview,
+}: RestoreScopePickerProps) {
+  const [selected, setSelected] = useState<RestoreScope | null>(null)
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-[#1a1e1f] border-gray-700">
+        <CardHeader className="border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <History className="w-5 h-5 text-[#38bdbb]" />
+              <CardTitle className="text-white">
+                Restore Part of Project
+              </CardTitle>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-[#595d60] hover:text-white transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <p className="text-sm text-[#595d60]">
+            Choose what to bring back from{' '}
+            {new Date(timestamp).toLocaleString()}. Everything else keeps its
+            current state.
+          </p>
+        </CardHeader>
+
+        <CardContent className="flex-1 overflow-y-auto p-6 space-y-3">
+          {error && (
+            <div className="p-3 bg-red-900/20 border border-red-700 rounded-lg text-sm text-red-400">
+              {error}
+            </div>
+          )}
+
+          {(snapshot.items || []).length === 0 && (
+            <p className="text-[#595d60]">This snapshot has no items.</p>
+          )}
+
+          {(snapshot.items || []).map((item, itemIndex) => (
+            <div
+              key={item.id || itemIndex}
+              className="border border-gray-700 rounded-lg p-2"
+            >
+              <ScopeOption
+                scope={{ type: 'item', itemIndex }}
+                selected={selected}
+                onSelect={setSelected}
+              >
+                <span className="font-medium text-white">
+                  {item.name || 'Untitled item'}
+                </span>
+                <span className="text-[#595d60]">whole item</span>
+              </ScopeOption>
+
+              {itemVersions(item).map((version, versionIndex) => (
+                <div key={version.id || versionIndex} className="ml-6">
+                  <ScopeOption
+                    scope={{ type: 'version', itemIndex, versionIndex }}
+                    selected={selected}
+                    onSelect={setSelected}
+                  >
+                    <span className="text-[#38bdbb]">
+                      Version {version.versionNumber}
+                      {version.versionName ? ` — ${version.versionName}` : ''}
+                    </span>
+                    <span className="text-[#595d60]">
+                      {version.parts?.length || 0} part(s)
+                    </span>
+                  </ScopeOption>
+
+                  <div className="ml-6">
+                    {(version.parts || []).map((part, partIndex) => (
+                      <ScopeOption
+                        key={part.id || partIndex}
+                        scope={{
+                          type: 'part',
+                          itemIndex,
+                          versionIndex,
+                          partIndex,
+                        }}
+                        selected={selected}
+                        onSelect={setSelected}
+                      >
+                        <span>{part.name || 'Unnamed part'}</span>
+                        {(part.finish || part.color) && (
+                          <span className="text-[#595d60]">
+                            {[part.finish, part.color]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </span>
+                        )}
+                      </ScopeOption>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </CardContent>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-700">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onClose}
+            className="border-gray-700 text-white hover:bg-[#222a31]"
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={!selected}
+            onClick={() => selected && onPreview(selected)}
+            className="bg-[#38bdbb] text-white hover:bg-[#2ea9a7]"
+          >
+            Preview Merge
+          </Button>
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+'use client'
+
+import { useState } from 'react'
+import { X, LayoutTemplate } from 'lucide-react'
+import { useProjectTemplates } from '@/hooks/useProjectTemplates'
+import { getDueInDays } from '@/lib/project-templates'
+import { Project, PartTemplateScope, hasVersions } from '@/types'
+import { projectTemplateSchema } from '@/types/schemas'
+
+interface SaveTemplateModalProps {
+  project: Project
+  onClose: () => void
+}
+
+const SCOPE_OPTIONS: { value: PartTemplateScope; label: string }[] = [
+  { value: 'user', label: 'Only me' },
+  { value: 'team', label: 'My team' },
+  { value: 'global', label: 'Everyone' },
+]
+
+const inputClassName =
+  'w-full px-4 py-3 bg-[#0d1117] border border-gray-700 rounded-lg text-white placeholder-[#595d60] focus:border-[#38bdbb] focus:ring-1 focus:ring-[#38bdbb] transition-colors'
+
+/**
+ * Save a project's structure as a template for new projects. Images, files
+ * and annotation positions stay with the project.
+ */
+export function SaveTemplateModal({
+  project,
+  onClose,
+}: SaveTemplateModalProps) {
+  const { team, create } = useProjectTemplates()
+  const [name, setName] = useState(project.title)
+  const [description, setDescription] = useState('')
+  const [scope, setScope] = useState<PartTemplateScope>('user')
+  const [keepRetailer, setKeepRetailer] = useState(true)
+  const [keepDueDate, setKeepDueDate] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const dueInDays = getDueInDays(project)
+  const versionCount = project.items.reduce(
+    (total, item) => total + (hasVersions(item) ? item.versions!.length : 0),
+    0
+  )
+
+  const handleSave = async () => {
+    const result = projectTemplateSchema.safeParse({
+      name,
+      description: description.trim() || null,
+      scope,
+      retailer: keepRetailer ? project.retailer : '',
+      due_in_days: keepDueDate ? dueInDays : null,
+    })
+    if (!result.success) {
+      setError(result.error.issues[0].message)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      await create(project, result.data)
+      onClose()
+    } catch (err) {
+      console.error('Error saving project template:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50">
+      <div className="bg-[#1a1e1f] rounded-2xl border border-gray-700 max-w-lg w-full p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-[#595d60] hover:text-white transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-2">
+          <LayoutTemplate className="w-6 h-6 text-[#38bdbb]" />
+          <h2 className="text-2xl font-semibold text-white">
+            Save as Template
+          </h2>
+        </div>
+        <p className="text-[#595d60] mb-6">
+          Keeps {project.items.length} item
+          {project.items.length !== 1 ? 's' : ''}
+          {versionCount > 0 &&
+            ` with ${versionCount} version${versionCount !== 1 ? 's' : ''}`}
+          , their part lists and groups. Images and files aren't included.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Template Name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Description <span className="text-[#595d60]">(Optional)</span>
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Shared With
+            </label>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as PartTemplateScope)}
+              className={inputClassName}
+            >
+              {SCOPE_OPTIONS.map((option) => (
+                <option
+                  key={option.value}
+                  value={option.value}
+                  disabled={option.value === 'team' && !team}
+                  className="bg-[#1a1e1f]"
+                >
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-3 text-sm text-white">
+            <input
+              type="checkbox"
+              checked={keepRetailer}
+              onChange={(e) => setKeepRetailer(e.target.checked)}
+            />
+            Keep retailer ({project.retailer})
+          </label>
+          <label
+            className={`flex items-center gap-3 text-sm ${
+              dueInDays === null ? 'text-[#595d60]' : 'text-white'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={keepDueDate && dueInDays !== null}
+              disabled={dueInDays === null}
+              onChange={(e) => setKeepDueDate(e.target.checked)}
+            />
+            {dueInDays === null
+              ? 'This project has no due date'
+              : `Due ${dueInDays} day${dueInDays !== 1 ? 's' : ''} after creation`}
+          </label>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-900/20 border border-red-700 rounded-lg text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-[#222a31] text-white rounded-lg hover:bg-[#2a3239] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-[#38bdbb] text-white rounded-lg hover:bg-[#2ea9a7] transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Template'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,13 +2,18 @@
 
 import React, { useCallback, useRef, useState, useEffect } from 'react'
 import { Button } from '../ui/button'
-import { X, Save, Cloud, CloudOff, Users, Loader2, RefreshCw, Maximize2 } from 'lucide-react'
+import { X, Save, Cloud, CloudOff, Users, Loader2, RefreshCw, Maximize2, History } from 'lucide-react'
 import { Project } from '../../types'
 import { ExcalidrawBoard, ExcalidrawBoardRef, ExcalidrawSnapshot } from '../whiteboard'
 import { ExportMenu } from '../whiteboard/ExportMenu'
+import { BoardEditsBanner } from '../whiteboard/BoardEditsBanner'
+import { BoardHistoryPanel } from '../whiteboard/BoardHistoryPanel'
 import { useExcalidrawBoard } from '@/hooks/useExcalidrawBoard'
 import { useExcalidrawCollab } from '@/hooks/useExcalidrawCollab'
+import { useBoardProjectSync } from '@/hooks/useBoardProjectSync'
 import { initializeProjectBoard, shouldInitializeBoard } from '../whiteboard/initializeProjectBoard'
+import { mergeElements } from '@/lib/board-sync'
+import { RemoteBoardChanges } from '@/lib/board-sync-client'
 
 // Types from Excalidraw - use any for flexibility since types may vary by version
 type ExcalidrawElement = any
@@ -33,9 +38,30 @@ export function VisualEditorModal({
   const [excalidrawApi, setExcalidrawApi] = useState<ExcalidrawImperativeAPI | null>(null)
   const [isSaving, setIsSaving] = useState(false)
   const [isInitialized, setIsInitialized] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
   const [theme, setTheme] = useState<'light' | 'dark'>('light')
+  // The project as the board last saw it, including edits written back from the board
+  const [boardProject, setBoardProject] = useState(project)
 
-  // Use the Excalidraw board hook for persistence
+  useEffect(() => {
+    setBoardProject(project)
+  }, [project])
+
+  // Merge edits others saved, found when the board catches up
+  const handleRemoteChanges = useCallback(
+    ({ elements, files, appState }: RemoteBoardChanges) => {
+      if (!excalidrawApi) return
+      if (Object.keys(files).length > 0) excalidrawApi.addFiles(Object.values(files))
+      excalidrawApi.updateScene({
+        elements: mergeElements(excalidrawApi.getSceneElementsIncludingDeleted(), elements),
+        ...(Object.keys(appState).length > 0 && { appState }),
+      })
+    },
+    [excalidrawApi]
+  )
+
+  // Use the Excalidraw board hook for persistence; the modal edits the
+  // project's main board, whose id is the project's
   const {
     board,
     loading,
@@ -47,10 +73,11 @@ export function VisualEditorModal({
     forceSave,
     fetchBoard,
     getInitialData,
-  } = useExcalidrawBoard(project.id, {
+  } = useExcalidrawBoard(project.id, project.id, {
     autoSaveInterval: 3000,
     enableAutoSave: true,
     debounceMs: 1000,
+    onRemoteChanges: handleRemoteChanges,
   })
 
   // Use the collaboration hook
@@ -67,6 +94,20 @@ export function VisualEditorModal({
     enableCursors: true,
   })
 
+  // Keep cards bound to the project in step with it
+  const {
+    edits: boardEdits,
+    staleCount,
+    isApplying: isApplyingEdits,
+    error: boardEditsError,
+    checkBoard,
+    applyEdits,
+    revertEdits,
+  } = useBoardProjectSync(boardProject, {
+    api: excalidrawApi,
+    onProjectUpdate: setBoardProject,
+  })
+
   // Get initial data for Excalidraw
   const getInitialSnapshot = useCallback((): ExcalidrawSnapshot | undefined => {
     const existingData = getInitialData()
@@ -87,14 +128,15 @@ export function VisualEditorModal({
   // Handle board changes
   const handleBoardChange = useCallback(
     (elements: readonly ExcalidrawElement[], appState: AppState, files: BinaryFiles) => {
-      updateLocalBoard(elements, appState, files)
-      
-      // Broadcast to collaborators if connected
-      if (isCollabConnected) {
-        broadcastElements(elements)
+      const change = updateLocalBoard(elements, appState, files)
+      checkBoard(elements)
+
+      // Broadcast what changed to collaborators if connected
+      if (change && isCollabConnected) {
+        broadcastElements(change.elements, change.files)
       }
     },
-    [updateLocalBoard, isCollabConnected, broadcastElements]
+    [updateLocalBoard, checkBoard, isCollabConnected, broadcastElements]
   )
 
   // Handle pointer updates for collaboration
@@ -147,21 +189,18 @@ export function VisualEditorModal({
     }
   }, [])
 
-  // Regenerate board from project data
-  const handleRegenerateBoard = useCallback(() => {
+  // Add cards for what was added to the project since; nothing on the board is replaced
+  const handleUpdateFromProject = useCallback(() => {
     if (!excalidrawApi) return
-    
-    const confirmed = window.confirm(
-      'This will replace the current board with project data. Continue?'
-    )
-    if (!confirmed) return
 
-    const newData = initializeProjectBoard(project, undefined, { force: true, theme })
-    excalidrawApi.updateScene({
-      elements: newData.elements,
-      appState: newData.appState,
-    })
-  }, [excalidrawApi, project, theme])
+    const elements = excalidrawApi.getSceneElementsIncludingDeleted()
+    const newData = initializeProjectBoard(
+      boardProject,
+      { elements, appState: excalidrawApi.getAppState(), files: excalidrawApi.getFiles() },
+      { theme }
+    )
+    excalidrawApi.updateScene({ elements: mergeElements(elements, newData.elements) })
+  }, [excalidrawApi, boardProject, theme])
 
   // Connect to collaboration on mount
   useEffect(() => {
@@ -185,7 +224,7 @@ export function VisualEditorModal({
             {/* Title and Status Row */}
             <div className="flex items-center justify-between sm:justify-start gap-2 sm:gap-4 min-w-0">
               <h2 className="text-base sm:text-xl font-semibold text-gray-900 truncate">
-                {project.title}
+                {boardProject.title}
               </h2>
               
               {/* Collaboration Status - Compact on mobile */}
@@ -238,11 +277,22 @@ export function VisualEditorModal({
                 <Maximize2 className="h-4 w-4" />
               </Button>
 
+              <Button
+                variant={isHistoryOpen ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setIsHistoryOpen((open) => !open)}
+                title="Version history"
+                className="h-8 w-8 sm:h-9 sm:w-9 p-0"
+                disabled={!isInitialized}
+              >
+                <History className="h-4 w-4" />
+              </Button>
+
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={handleRegenerateBoard}
-                title="Regenerate from project data"
+                onClick={handleUpdateFromProject}
+                title="Update from project data"
                 className="h-8 w-8 sm:h-9 sm:w-9 p-0"
               >
                 <RefreshCw className="h-4 w-4" />
@@ -268,7 +318,7 @@ export function VisualEditorModal({
               {/* Export Menu */}
               <ExportMenu
                 boardRef={boardRef}
-                projectName={project.title}
+                projectName={boardProject.title}
                 disabled={loading || !isInitialized}
               />
 
@@ -317,6 +367,27 @@ export function VisualEditorModal({
               className="w-full h-full"
             />
           )}
+
+          {/* Board edits to write back, and cards the project no longer has */}
+          <BoardEditsBanner
+            edits={boardEdits}
+            staleCount={staleCount}
+            isApplying={isApplyingEdits}
+            error={boardEditsError}
+            onApply={applyEdits}
+            onRevert={revertEdits}
+            className="absolute top-4 right-4 z-10"
+          />
+
+          {/* Autosaves and checkpoints */}
+          <BoardHistoryPanel
+            projectId={project.id}
+            boardId={project.id}
+            api={excalidrawApi}
+            forceSave={forceSave}
+            isOpen={isHistoryOpen}
+            onClose={() => setIsHistoryOpen(false)}
+          />
         </div>
 
         {/* Collaborator Avatars (if connected) */}
@@ -0,0 +1,331 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Check, Copy, KeyRound, Plus, Trash2 } from 'lucide-react'
+import { useTheme } from '@/lib/theme-context'
+import { authorizedFetch } from '@/lib/api-client'
+import { PersonalAccessToken, TokenScope } from '@/types'
+
+const SCOPE_OPTIONS: {
+  scope: TokenScope
+  label: string
+  description: string
+}[] = [
+  {
+    scope: 'projects:read',
+    label: 'Read projects',
+    description: 'List projects and read items, versions and parts',
+  },
+  {
+    scope: 'parts:write',
+    label: 'Write parts',
+    description: 'Create and update projects, items, versions and parts',
+  },
+  {
+    scope: 'export',
+    label: 'Export',
+    description: 'Download PDF spec sheets',
+  },
+]
+
+const EXPIRY_OPTIONS = [7, 30, 90, 365] as const
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : 'Never'
+}
+
+export function PersonalAccessTokens() {
+  const { colors } = useTheme()
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([])
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [error, setError] = useState('')
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<TokenScope[]>(['projects:read'])
+  const [expiresInDays, setExpiresInDays] = useState<number>(30)
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const response = await authorizedFetch('/api/tokens')
+      if (!response.ok) throw new Error('Failed to load tokens')
+      setTokens(await response.json())
+    } catch (err) {
+      console.error('Error loading tokens:', err)
+      setError('Failed to load tokens')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTokens()
+  }, [fetchTokens])
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((s) => s !== scope)
+        : [...current, scope]
+    )
+  }
+
+  const handleCreate = async () => {
+    setCreating(true)
+    setError('')
+    try {
+      const response = await authorizedFetch('/api/tokens', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: name.trim(),
+          scopes,
+          expires_in_days: expiresInDays,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create token')
+      }
+
+      const { token, ...record } = result
+      setNewToken(token)
+      setTokens((current) => [record, ...current])
+      setShowForm(false)
+      setName('')
+      setScopes(['projects:read'])
+      setExpiresInDays(30)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (token: PersonalAccessToken) => {
+    if (
+      !confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)
+    ) {
+      return
+    }
+    setError('')
+    try {
+      const response = await authorizedFetch(`/api/tokens/${token.id}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) throw new Error('Failed to revoke token')
+      setTokens((current) => current.filter((t) => t.id !== token.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke token')
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!newToken) return
+    await navigator.clipboard.writeText(newToken)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="bg-[#0d1117] border border-gray-700 rounded-xl p-6">
+      <div className="flex items-start gap-4">
+        <div className="w-12 h-12 bg-[#38bdbb]/10 rounded-lg flex items-center justify-center flex-shrink-0">
+          <KeyRound className="w-6 h-6 text-[#38bdbb]" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-4 mb-2">
+            <h3 className="text-lg font-medium text-white">
+              Personal Access Tokens
+            </h3>
+            {!showForm && (
+              <button
+                onClick={() => setShowForm(true)}
+                className="flex items-center gap-1 text-[#38bdbb] hover:text-[#2ea9a7] transition-colors text-sm font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                New Token
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-[#595d60] mb-4">
+            Use tokens to call the API from scripts. Send them as{' '}
+            <code className="text-gray-300">
+              Authorization: Bearer &lt;token&gt;
+            </code>
+          </p>
+
+          {error && (
+            <div className="mb-4 bg-red-900/20 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {newToken && (
+            <div className="mb-4 bg-green-900/20 border border-green-500/50 px-4 py-3 rounded-lg">
+              <p className="text-sm text-green-400 mb-2">
+                Copy your new token now. You won&apos;t be able to see it again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate text-sm text-white bg-black/30 px-3 py-2 rounded">
+                  {newToken}
+                </code>
+                <button
+                  onClick={handleCopy}
+                  className="p-2 text-gray-300 hover:text-white transition-colors"
+                  title="Copy token"
+                >
+                  {copied ? (
+                    <Check className="w-4 h-4" />
+                  ) : (
+                    <Copy className="w-4 h-4" />
+                  )}
+                </button>
+              </div>
+              <button
+                onClick={() => setNewToken(null)}
+                className="mt-2 text-xs text-[#595d60] hover:text-white transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          )}
+
+          {showForm && (
+            <div className="mb-4 space-y-4 border border-gray-700 rounded-lg p-4">
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Render farm sync"
+                  className="w-full px-4 py-3 bg-[#1a1e1f] border border-gray-700 rounded-lg text-white placeholder-[#595d60] focus:border-[#38bdbb] focus:ring-1 focus:ring-[#38bdbb] transition-colors"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">
+                  Scopes
+                </label>
+                <div className="space-y-2">
+                  {SCOPE_OPTIONS.map((option) => (
+                    <label
+                      key={option.scope}
+                      className="flex items-start gap-3 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={scopes.includes(option.scope)}
+                        onChange={() => toggleScope(option.scope)}
+                        className="mt-1 accent-[#38bdbb]"
+                      />
+                      <span>
+                        <span className="block text-sm text-white">
+                          {option.label}
+                        </span>
+                        <span className="block text-xs text-[#595d60]">
+                          {option.description}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">
+                  Expires after
+                </label>
+                <select
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                  className="px-4 py-3 bg-[#1a1e1f] border border-gray-700 rounded-lg text-white focus:border-[#38bdbb] focus:ring-1 focus:ring-[#38bdbb] transition-colors"
+                >
+                  {EXPIRY_OPTIONS.map((days) => (
+                    <option key={days} value={days}>
+                      {days} days
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleCreate}
+                  disabled={creating || !name.trim() || scopes.length === 0}
+                  className="px-4 py-2 text-white rounded-lg disabled:opacity-50 transition-all text-sm font-medium"
+                  style={{ backgroundColor: colors.primary }}
+                >
+                  {creating ? 'Creating...' : 'Create Token'}
+                </button>
+                <button
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 text-[#595d60] hover:text-white transition-colors text-sm"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-[#595d60]">Loading tokens...</p>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-[#595d60]">No active tokens</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {tokens.map((token) => {
+                const expired = new Date(token.expires_at) <= new Date()
+                return (
+                  <li
+                    key={token.id}
+                    className="py-3 flex items-start justify-between gap-4"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-white truncate">
+                          {token.name}
+                        </span>
+                        <code className="text-xs text-[#595d60]">
+                          {token.token_prefix}…
+                        </code>
+                        {expired && (
+                          <span className="text-xs text-red-400">Expired</span>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {token.scopes.map((scope) => (
+                          <span
+                            key={scope}
+                            className="text-xs px-2 py-0.5 rounded bg-[#38bdbb]/10 text-[#38bdbb]"
+                          >
+                            {scope}
+                          </span>
+                        ))}
+                      </div>
+                      <p className="text-xs text-[#595d60] mt-1">
+                        Expires {formatDate(token.expires_at)} · Last used{' '}
+                        {formatDate(token.last_used_at)}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(token)}
+                      className="p-2 text-red-400 hover:text-red-300 transition-colors flex-shrink-0"
+                      title="Revoke token"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -15,6 +15,7 @@ interface AnnotationPoint {
   color: string
   texture: string
   notes?: string
+  material_id?: string | null
 }
 
 interface AnnotationPopupEditorProps {
@@ -23,6 +24,7 @@ interface AnnotationPopupEditorProps {
     hero_image?: string
     image_url?: string
     parts?: Array<{
+      id?: string
       name: string
       finish: string
       color: string
@@ -33,6 +35,7 @@ interface AnnotationPopupEditorProps {
         y: number
         id: string
       }
+      material_id?: string | null
     }>
   }
   isOpen: boolean
@@ -60,14 +63,15 @@ export function AnnotationPopupEditor({
   React.useEffect(() => {
     if (item.parts && item.parts.length > 0) {
       const initialAnnotations: AnnotationPoint[] = item.parts.map((part, index) => ({
-        id: part.annotation_data?.id || `annotation-${index}`,
+        id: part.annotation_data?.id || part.id || `annotation-${index}`,
         x: part.annotation_data?.x || (20 + (index * 15)), // Use saved position or spread them out
         y: part.annotation_data?.y || (30 + (index * 10)), // Use saved position or spread them out
         name: part.name || `Part ${index + 1}`,
         finish: part.finish || '',
         color: part.color || '#3b82f6',
         texture: part.texture || '',
-        notes: part.notes || ''
+        notes: part.notes || '',
+        material_id: part.material_id
       }))
       setAnnotations(initialAnnotations)
       setOriginalAnnotations(JSON.parse(JSON.stringify(initialAnnotations))) // Deep copy
@@ -98,9 +102,13 @@ export function AnnotationPopupEditor({
   }, [selectedAnnotationId])
 
   const updateAnnotation = useCallback((id: string, field: string, value: string) => {
-    setAnnotations(prev => prev.map(ann => 
-      ann.id === id ? { ...ann, [field]: value } : ann
-    ))
+    setAnnotations(prev => prev.map(ann => {
+      if (ann.id !== id) return ann
+      // A hand-typed finish unlinks the materials library entry
+      return field === 'finish'
+        ? { ...ann, finish: value, material_id: null }
+        : { ...ann, [field]: value }
+    }))
   }, [])
 
   const handleImageClick = useCallback((e: React.MouseEvent<HTMLImageElement>) => {
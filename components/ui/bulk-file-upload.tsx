@@ -2,8 +2,9 @@
 
 import { useState, useRef } from 'react'
 import { Button } from '@/components/ui/button'
-import { supabase } from '@/lib/supaClient'
 import { useAuth } from '@/lib/auth-context'
+import { ResumableUpload } from '@/lib/resumable-upload'
+import { UPLOAD_ACCEPT, getUploadContentType, isUploadableType } from '@/lib/upload-files'
 
 interface BulkFileUploadProps {
   onImagesUploaded: (urls: string[]) => void
@@ -14,12 +15,15 @@ interface BulkFileUploadProps {
 export function BulkFileUpload({
   onImagesUploaded,
   maxFiles = 10,
-  maxSize = 20,
+  maxSize = 2048,
 }: BulkFileUploadProps) {
   const [uploading, setUploading] = useState(false)
+  const [paused, setPaused] = useState(false)
   const [uploadProgress, setUploadProgress] = useState<number[]>([])
+  const [totalBytes, setTotalBytes] = useState(0)
   const [errors, setErrors] = useState<string[]>([])
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const uploadsRef = useRef<ResumableUpload[]>([])
   const { user } = useAuth()
 
   const handleFilesSelected = async (files: FileList) => {
@@ -36,7 +40,7 @@ export function BulkFileUpload({
     const newErrors: string[] = []
 
     fileArray.forEach((file, index) => {
-      if (!file.type.startsWith('image/')) {
+      if (!isUploadableType(getUploadContentType(file))) {
         newErrors.push(`File ${index + 1}: Please select an image file`)
         return
       }
@@ -56,36 +60,28 @@ export function BulkFileUpload({
 
     setErrors([])
     setUploading(true)
+    setPaused(false)
     setUploadProgress(new Array(validFiles.length).fill(0))
+    setTotalBytes(validFiles.reduce((sum, file) => sum + file.size, 0))
+
+    // Chunked uploads straight to storage, so large renders don't hit the API body limit
+    uploadsRef.current = validFiles.map((file, index) => new ResumableUpload(file, {
+      folder: 'bulk-uploads',
+      onProgress: (bytesUploaded) => {
+        setUploadProgress(prev => {
+          const newProgress = [...prev]
+          newProgress[index] = bytesUploaded
+          return newProgress
+        })
+      }
+    }))
 
     try {
-      const uploadPromises = validFiles.map(async (file, index) => {
+      const uploadPromises = uploadsRef.current.map(async (upload, index) => {
+        const file = validFiles[index]
         try {
-          // Upload via API endpoint (bypasses RLS)
-          const formData = new FormData()
-          formData.append('file', file)
-          formData.append('folder', 'bulk-uploads')
-
-          const response = await fetch('/api/upload', {
-            method: 'POST',
-            body: formData,
-          })
-
-          if (!response.ok) {
-            const errorData = await response.json()
-            throw new Error(errorData.error || 'Upload failed')
-          }
-
-          const data = await response.json()
-
-          // Update progress
-          setUploadProgress(prev => {
-            const newProgress = [...prev]
-            newProgress[index] = 100
-            return newProgress
-          })
-
-          return data.url
+          const result = await upload.start()
+          return result.url
         } catch (error) {
           console.error(`Upload error for file ${index + 1}:`, error)
           throw new Error(`Failed to upload ${file.name}`)
@@ -98,11 +94,25 @@ export function BulkFileUpload({
       console.error('Bulk upload error:', error)
       setErrors(['Upload failed. Please try again.'])
     } finally {
+      uploadsRef.current = []
       setUploading(false)
+      setPaused(false)
       setUploadProgress([])
+      setTotalBytes(0)
     }
   }
 
+  const togglePaused = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    uploadsRef.current.forEach(upload => paused ? upload.resume() : upload.pause())
+    setPaused(!paused)
+  }
+
+  const formatBytes = (bytes: number) => {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     const files = e.dataTransfer.files
@@ -127,9 +137,8 @@ export function BulkFileUpload({
   }
 
   const isUploading = uploading && uploadProgress.length > 0
-  const totalProgress = uploadProgress.length > 0 
-    ? uploadProgress.reduce((sum, progress) => sum + progress, 0) / uploadProgress.length 
-    : 0
+  const uploadedBytes = uploadProgress.reduce((sum, bytes) => sum + bytes, 0)
+  const totalProgress = totalBytes > 0 ? (uploadedBytes / totalBytes) * 100 : 0
 
   return (
     <div className="space-y-4">
@@ -150,7 +159,7 @@ export function BulkFileUpload({
           ref={fileInputRef}
           type="file"
           multiple
-          accept="image/*"
+          accept={UPLOAD_ACCEPT}
           onChange={handleFileInputChange}
           className="hidden"
         />
@@ -158,7 +167,7 @@ export function BulkFileUpload({
         {isUploading ? (
           <div className="space-y-4">
             <div className="text-blue-700 font-medium">
-              Uploading {uploadProgress.length} images...
+              {paused ? 'Paused' : 'Uploading'} {uploadProgress.length} images...
             </div>
             <div className="w-full bg-gray-200 rounded-full h-2">
               <div
@@ -167,8 +176,11 @@ export function BulkFileUpload({
               />
             </div>
             <div className="text-sm text-gray-600">
-              {Math.round(totalProgress)}% complete
+              {formatBytes(uploadedBytes)} of {formatBytes(totalBytes)} ({Math.round(totalProgress)}% complete)
             </div>
+            <Button variant="outline" size="sm" onClick={togglePaused}>
+              {paused ? 'Resume' : 'Pause'}
+            </Button>
           </div>
         ) : (
           <div className="space-y-2">
@@ -177,7 +189,7 @@ export function BulkFileUpload({
               Drop images here or click to browse
             </div>
             <div className="text-sm text-gray-500">
-              Up to {maxFiles} images, {maxSize}MB each
+              Up to {maxFiles} images, {maxSize >= 1024 ? `${maxSize / 1024}GB` : `${maxSize}MB`} each (TIFF, PSD and EXR renders supported)
             </div>
           </div>
         )}
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
+import { RENDER_FILE_EXTENSIONS, getContentTypeLabel } from '@/lib/upload-files'
 import {
   Upload,
   X,
@@ -16,7 +17,9 @@ import {
   Download,
   Eye,
   Trash2,
-  RefreshCw
+  RefreshCw,
+  Pause,
+  Play
 } from 'lucide-react'
 
 interface EnhancedFileUploadProps {
@@ -46,6 +49,9 @@ export function EnhancedFileUpload({
     uploads,
     isUploading,
     uploadFiles,
+    pauseUpload,
+    resumeUpload,
+    retryUpload,
     deleteFile,
     removeUpload,
     clearUploads,
@@ -124,6 +130,16 @@ export function EnhancedFileUpload({
     }
   }, [deleteFile, removeUpload, onFileRemoved])
 
+  const handleRetry = useCallback(async (upload: FileUploadResult) => {
+    try {
+      const result = await retryUpload(upload)
+      onFileAdded?.(result)
+      onFilesUploaded?.([result])
+    } catch (error) {
+      console.error('Retry failed:', error)
+    }
+  }, [retryUpload, onFileAdded, onFilesUploaded])
+
   // Format file size
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes'
@@ -139,7 +155,10 @@ export function EnhancedFileUpload({
       case 'pending':
         return <ImageIcon className="w-4 h-4 text-gray-400" />
       case 'uploading':
+      case 'verifying':
         return <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+      case 'paused':
+        return <Pause className="w-4 h-4 text-amber-500" />
       case 'success':
         return <CheckCircle className="w-4 h-4 text-green-500" />
       case 'error':
@@ -156,6 +175,10 @@ export function EnhancedFileUpload({
         return <Badge variant="secondary">Pending</Badge>
       case 'uploading':
         return <Badge variant="default">Uploading</Badge>
+      case 'paused':
+        return <Badge variant="secondary">Paused</Badge>
+      case 'verifying':
+        return <Badge variant="default">Verifying</Badge>
       case 'success':
         return <Badge variant="default" className="bg-green-500">Success</Badge>
       case 'error':
@@ -178,7 +201,8 @@ export function EnhancedFileUpload({
             Upload Images
           </CardTitle>
           <CardDescription>
-            Drag & drop images here or click to browse. Max file size: {mergedConfig.maxFileSize / (1024 * 1024)}MB
+            Drag & drop images here or click to browse. Max file size: {formatFileSize(mergedConfig.maxFileSize)}.
+            Large files upload in chunks and can be paused and resumed.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -187,7 +211,7 @@ export function EnhancedFileUpload({
             ref={fileInputRef}
             type="file"
             multiple
-            accept={mergedConfig.allowedTypes.join(',')}
+            accept={[...mergedConfig.allowedTypes, ...RENDER_FILE_EXTENSIONS].join(',')}
             onChange={handleFileInputChange}
             className="hidden"
           />
@@ -222,11 +246,11 @@ export function EnhancedFileUpload({
               </span>
             </p>
             <p className="text-xs text-gray-400">
-              Supported: {mergedConfig.allowedTypes.map(t => t.split('/')[1].toUpperCase()).join(', ')}
+              Supported: {Array.from(new Set(mergedConfig.allowedTypes.map(getContentTypeLabel))).join(', ')}
             </p>
             {isUploading && (
               <div className="mt-4 text-sm text-blue-600">
-                Uploading {uploads.filter(u => u.status === 'uploading').length} file(s)...
+                Uploading {uploads.filter(u => u.status === 'uploading' || u.status === 'paused').length} file(s)...
               </div>
             )}
           </div>
@@ -295,13 +319,23 @@ export function EnhancedFileUpload({
                     </div>
                     <div className="flex items-center gap-4 text-xs text-gray-500">
                       <span>{formatFileSize(upload.size)}</span>
-                      <span>{upload.type.split('/')[1].toUpperCase()}</span>
+                      <span>{getContentTypeLabel(upload.type)}</span>
                     </div>
                     
                     {/* Progress Bar */}
-                    {upload.status === 'uploading' && (
-                      <div className="mt-2">
+                    {(upload.status === 'uploading' || upload.status === 'paused' || upload.status === 'verifying') && (
+                      <div className="mt-2 space-y-1">
                         <Progress value={upload.progress} className="h-2" />
+                        <div className="flex items-center justify-between text-xs text-gray-500">
+                          <span>
+                            {upload.status === 'verifying'
+                              ? 'Verifying checksum...'
+                              : `${formatFileSize(upload.bytesUploaded)} of ${formatFileSize(upload.size)} (${upload.progress}%)`}
+                          </span>
+                          {upload.retries > 0 && (
+                            <span>{upload.retries} chunk{upload.retries !== 1 ? 's' : ''} retried</span>
+                          )}
+                        </div>
                       </div>
                     )}
                     
@@ -323,6 +357,39 @@ export function EnhancedFileUpload({
                   {/* Actions */}
                   {showActions && (
                     <div className="flex items-center gap-1">
+                      {upload.status === 'uploading' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => pauseUpload(upload.id)}
+                          className="h-8 w-8 p-0"
+                          title="Pause upload"
+                        >
+                          <Pause className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {upload.status === 'paused' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => resumeUpload(upload.id)}
+                          className="h-8 w-8 p-0"
+                          title="Resume upload"
+                        >
+                          <Play className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {upload.status === 'error' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRetry(upload)}
+                          className="h-8 w-8 p-0"
+                          title="Retry from the last uploaded chunk"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </Button>
+                      )}
                       {upload.status === 'success' && upload.url && (
                         <>
                           <Button
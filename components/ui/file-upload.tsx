@@ -4,11 +4,16 @@ import { useState, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
 import { supabase } from '@/lib/supaClient'
+import { authorizedFetch } from '@/lib/api-client'
 import { Upload, X, Image as ImageIcon, Copy, Check } from 'lucide-react'
+import { getImageUrl } from '@/lib/image-derivatives'
+import { getUploadContentType, isUploadableType } from '@/lib/upload-files'
+import { ImageDerivatives } from '@/types'
 
 interface FileUploadProps {
   value?: string
-  onChange: (url: string) => void
+  /** `derivatives` is null when the upload couldn't be processed */
+  onChange: (url: string, derivatives?: ImageDerivatives | null) => void
   onError?: (error: string) => void
   accept?: string
   maxSize?: number // in MB
@@ -32,7 +37,7 @@ export function FileUpload({
 
   const handleFileSelect = async (file: File) => {
     // Validate file type
-    if (!file.type.startsWith('image/')) {
+    if (!isUploadableType(getUploadContentType(file))) {
       onError?.('Please select an image file')
       return
     }
@@ -48,9 +53,8 @@ export function FileUpload({
       // Upload via API endpoint (bypasses RLS)
       const formData = new FormData()
       formData.append('file', file)
-      formData.append('folder', 'uploads')
 
-      const response = await fetch('/api/upload', {
+      const response = await authorizedFetch('/api/upload', {
         method: 'POST',
         body: formData,
       })
@@ -62,14 +66,18 @@ export function FileUpload({
 
       const data = await response.json()
 
-      // Create preview
-      const reader = new FileReader()
-      reader.onload = (e) => {
-        setPreview(e.target?.result as string)
+      // Create preview; render formats are only viewable as derivatives
+      if (data.derivatives) {
+        setPreview(getImageUrl(data, 'preview'))
+      } else {
+        const reader = new FileReader()
+        reader.onload = (e) => {
+          setPreview(e.target?.result as string)
+        }
+        reader.readAsDataURL(file)
       }
-      reader.readAsDataURL(file)
 
-      onChange(data.url)
+      onChange(data.url, data.derivatives)
     } catch (error) {
       console.error('Upload error:', error)
       onError?.(error instanceof Error ? error.message : 'Upload failed')
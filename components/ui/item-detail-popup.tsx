@@ -1,58 +1,32 @@
 'use client'
 
-import React from 'react'
+import React, { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { X, Package, Tag, Palette, FileText, MapPin } from 'lucide-react'
-import { hasVersions } from '@/types'
+import { Item, hasVersions } from '@/types'
+import { getPackagingLabel } from '@/lib/item-details'
+import { getImageLabel, getVersionImages } from '@/lib/item-images'
+import { getCurrentVersion } from '@/lib/status-workflow'
+import { AnnotatedImage } from '@/components/ui/item-images'
 
 interface ItemDetailPopupProps {
-  item: {
-    name: string
-    hero_image?: string
-    needs_packaging?: boolean
-    needs_logo?: boolean
-    packaging_type?: string
-    custom_logo?: string
-    notes?: string
-    parts?: Array<{
-      name: string
-      finish: string
-      color: string
-      texture: string
-      notes?: string
-      annotation_data?: {
-        x: number
-        y: number
-        id: string
-      }
-    }>
-    versions?: Array<{
-      id: string
-      versionNumber: number
-      versionName?: string
-      parts: Array<{
-        id?: string
-        name: string
-        finish: string
-        color: string
-        texture: string
-        notes?: string
-        annotation_data?: {
-          x: number
-          y: number
-          id: string
-        }
-      }>
-    }>
-  }
+  item: Omit<Item, 'id'> & { id?: string }
   isOpen: boolean
   onClose: () => void
 }
 
 export function ItemDetailPopup({ item, isOpen, onClose }: ItemDetailPopupProps) {
+  const [activeImageId, setActiveImageId] = useState<string | null>(null)
+
   if (!isOpen) return null
 
+  // The images and markers of the version being worked on
+  const currentVersion = getCurrentVersion(item as Item)
+  const images = getVersionImages(item, currentVersion || undefined)
+  const parts = currentVersion ? currentVersion.parts : (item.parts || [])
+  const activeImage = images.find(({ id }) => id === activeImageId) || images[0]
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <Card className="w-full max-w-4xl h-[90vh] overflow-hidden">
@@ -68,36 +42,32 @@ export function ItemDetailPopup({ item, isOpen, onClose }: ItemDetailPopupProps)
         <CardContent className="flex flex-col h-full overflow-hidden">
           {/* Image Section */}
           <div className="flex-1 mb-6">
-            {item.hero_image ? (
-              <div className="relative w-full h-full min-h-[400px] bg-gray-50 rounded-lg overflow-hidden">
-                <img
-                  src={item.hero_image}
-                  alt={item.name}
-                  className="w-full h-full object-contain"
-                />
-                {/* Show annotation dots on image */}
-                {item.parts && item.parts.map((part, partIdx) => {
-                  if (part.annotation_data) {
-                    return (
-                      <div
-                        key={partIdx}
-                        className="absolute w-6 h-6 rounded-full border-2 border-white shadow-lg cursor-pointer hover:scale-110 transition-transform"
-                        style={{
-                          left: `${part.annotation_data.x}%`,
-                          top: `${part.annotation_data.y}%`,
-                          backgroundColor: part.color || '#3b82f6',
-                          transform: 'translate(-50%, -50%)'
-                        }}
-                        title={`${part.name || `Part ${partIdx + 1}`} - ${part.color || '#3b82f6'}`}
+            {images.length > 0 && activeImage ? (
+              <div className="flex flex-col h-full gap-3">
+                {images.length > 1 && (
+                  <div className="flex flex-wrap gap-2">
+                    {images.map((image) => (
+                      <Button
+                        key={image.id}
+                        size="sm"
+                        variant={image.id === activeImage.id ? 'default' : 'outline'}
+                        onClick={() => setActiveImageId(image.id)}
                       >
-                        <div className="w-full h-full flex items-center justify-center text-white text-xs font-bold">
-                          {partIdx + 1}
-                        </div>
-                      </div>
-                    )
-                  }
-                  return null
-                })}
+                        {getImageLabel(image)}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                <div className="flex-1 flex items-center justify-center w-full min-h-[400px] bg-gray-50 rounded-lg overflow-hidden">
+                  <AnnotatedImage
+                    image={activeImage}
+                    images={images}
+                    parts={parts}
+                    className="max-h-[50vh]"
+                    markerSize="w-6 h-6"
+                    size="full"
+                  />
+                </div>
               </div>
             ) : (
               <div className="w-full h-full min-h-[400px] border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center bg-gray-50">
@@ -117,7 +87,7 @@ export function ItemDetailPopup({ item, isOpen, onClose }: ItemDetailPopupProps)
                     <div>
                       <p className="text-sm font-medium text-blue-900">Needs Packaging</p>
                       {item.packaging_type && (
-                        <p className="text-xs text-blue-700">Type: {item.packaging_type}</p>
+                        <p className="text-xs text-blue-700">Type: {getPackagingLabel(item.packaging_type)}</p>
                       )}
                     </div>
                   </div>
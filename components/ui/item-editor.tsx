@@ -20,47 +20,42 @@ import {
   MapPin,
   ChevronDown,
   ChevronUp,
-  Copy
+  Copy,
+  GitCompare,
+  Image as ImageIcon
 } from 'lucide-react'
 import { FileUpload } from '@/components/ui/file-upload'
 import { ScreenColorPicker } from '@/components/ui/screen-color-picker'
 import { AnnotationPopupEditor } from '@/components/ui/annotation-popup-editor'
 import { ItemDetailPopup } from '@/components/ui/item-detail-popup'
-import { Version, Item, getItemParts, getAllItemParts, hasVersions } from '@/types'
+import { WorkflowStatusBadge, WorkflowStatusControl } from '@/components/ui/workflow-status'
+import { MaterialPicker } from '@/components/ui/material-picker'
+import { ItemImagesEditor, VersionImagesEditor } from '@/components/ui/item-images'
+import { ResponsiveImage } from '@/components/ui/responsive-image'
+import { VersionComparison } from '@/components/ui/version-comparison'
+import { useMaterials } from '@/hooks/useMaterials'
+import { findMaterial, materialPartFields } from '@/lib/materials'
+import { PACKAGING_TYPES, normalizeItemDetails } from '@/lib/item-details'
+import { getImageLabel, getItemImages, getPartAnnotation, getPrimaryImage, getVersionImages, setItemImages, setPartAnnotation, setVersionImages } from '@/lib/item-images'
+import { Material, Part, Version, ItemImage, Item, WorkflowStatus, getItemParts, getAllItemParts, hasVersions } from '@/types'
+import { WorkflowRole, getCurrentVersion, getItemCompletion, getStatus } from '@/lib/status-workflow'
 
 interface ItemEditorProps {
-  item: {
-    id?: string
-    name: string
-    hero_image?: string
-    needs_packaging?: boolean
-    needs_logo?: boolean
-    packaging_type?: string
-    logo_source?: 'upload' | 'url'
-    custom_logo?: string
-    notes?: string
-    parts?: Array<{
-      id?: string
-      name: string
-      finish: string
-      color: string
-      texture: string
-      notes?: string
-      annotation_data?: {
-        x: number
-        y: number
-        id: string
-      }
-    }>
-    versions?: Version[]
-  }
+  item: Omit<Item, 'id'> & { id?: string }
   projectLogo?: string
   onSave: (updatedItem: any) => void
   onCancel: () => void
   onDelete?: () => void
+  // Status workflow; without onStatusChange statuses are shown read-only
+  role?: WorkflowRole | null
+  onStatusChange?: (
+    target: { versionIndex: number; partIndex?: number },
+    status: WorkflowStatus,
+    comment?: string
+  ) => Promise<boolean>
 }
 
-export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: ItemEditorProps) {
+export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete, role, onStatusChange }: ItemEditorProps) {
   // Initialize item with versions if it has parts but no versions (backward compatibility)
   const initializeItem = (item: ItemEditorProps['item']) => {
     if (item.versions && item.versions.length > 0) {
@@ -72,6 +67,9 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
 
   const [editedItem, setEditedItem] = useState(initializeItem(item))
   const [showAnnotationEditor, setShowAnnotationEditor] = useState(false)
+  // Versions are annotated one image at a time
+  const [annotationTarget, setAnnotationTarget] = useState<{ versionIndex: number; imageId: string } | null>(null)
+  const [showComparison, setShowComparison] = useState(false)
   const [showItemDetail, setShowItemDetail] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [collapsedVersions, setCollapsedVersions] = useState<Set<number>>(new Set())
@@ -82,6 +80,11 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
     setEditedItem(initializeItem(item))
   }, [item])
 
+  const { library: materialLibrary, materials } = useMaterials([
+    ...(editedItem.parts || []).map(part => part.material_id),
+    ...(editedItem.versions || []).flatMap(version => version.parts.map(part => part.material_id)),
+  ])
+
   const updateItem = (field: string, value: any) => {
     setEditedItem(prev => ({
       ...prev,
@@ -132,6 +135,7 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
         versionNumber: nextVersionNumber,
         versionName: versionToDuplicate.versionName ? `${versionToDuplicate.versionName} (Copy)` : undefined,
         parts: duplicatedParts,
+        images: versionToDuplicate.images,
         created_at: new Date().toISOString()
       }
 
@@ -168,6 +172,16 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
     })
   }
 
+  // Markers placed on removed images are dropped with them
+  const updateVersionImages = (versionIndex: number, images: ItemImage[]) => {
+    setEditedItem(prev => ({
+      ...prev,
+      versions: (prev.versions || []).map((version, index) =>
+        index === versionIndex ? setVersionImages(version, images, getItemImages(prev)) : version
+      )
+    }))
+  }
+
   const toggleVersionCollapse = (versionIndex: number) => {
     setCollapsedVersions(prev => {
       const newSet = new Set(prev)
@@ -190,6 +204,17 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
     }))
   }
 
+  // Picking a library material fills in finish and color; typing a finish
+  // by hand unlinks the part from the library
+  const setPartMaterial = (partIndex: number, material: Material | null) => {
+    setEditedItem(prev => ({
+      ...prev,
+      parts: prev.parts?.map((part, index) =>
+        index === partIndex ? { ...part, ...materialPartFields(material) } : part
+      ) || []
+    }))
+  }
+
   const addPart = () => {
     const newPart = {
       name: '',
@@ -232,6 +257,22 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
     })
   }
 
+  const setVersionPartMaterial = (versionIndex: number, partIndex: number, material: Material | null) => {
+    setEditedItem(prev => ({
+      ...prev,
+      versions: (prev.versions || []).map((version, vIndex) =>
+        vIndex === versionIndex
+          ? {
+              ...version,
+              parts: version.parts.map((part, pIndex) =>
+                pIndex === partIndex ? { ...part, ...materialPartFields(material) } : part
+              )
+            }
+          : version
+      )
+    }))
+  }
+
   const addPartToVersion = (versionIndex: number) => {
     const newPart = {
       id: `part-${Date.now()}-${Math.random()}`,
@@ -284,6 +325,7 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
       color: annotation.color,
       texture: annotation.texture,
       notes: annotation.notes,
+      material_id: annotation.material_id,
       annotation_data: {
         x: annotation.x,
         y: annotation.y,
@@ -325,10 +367,89 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
     setShowAnnotationEditor(false)
   }
 
+  // Parts keep everything the annotation editor doesn't know about (status,
+  // group, files, markers on the version's other images)
+  const handleVersionAnnotationSave = (annotations: any[]) => {
+    if (!annotationTarget) return
+    const { versionIndex, imageId } = annotationTarget
+
+    setEditedItem(prev => ({
+      ...prev,
+      versions: (prev.versions || []).map((version, index) => {
+        if (index !== versionIndex) return version
+        const images = getVersionImages(prev, version)
+
+        return {
+          ...version,
+          parts: annotations.map(annotation => {
+            const existing = version.parts.find(part => part.id === annotation.id)
+            const part: Part = {
+              ...existing,
+              id: existing?.id || annotation.id,
+              name: annotation.name,
+              finish: annotation.finish,
+              color: annotation.color,
+              texture: annotation.texture,
+              notes: annotation.notes,
+              material_id: annotation.material_id
+            }
+            const pointId = (existing && getPartAnnotation(existing, images, imageId)?.id) || annotation.id
+            return setPartAnnotation(part, images, imageId, { x: annotation.x, y: annotation.y, id: pointId })
+          })
+        }
+      })
+    }))
+    setAnnotationTarget(null)
+  }
+
+  const openAnnotations = () => {
+    const versions = editedItem.versions || []
+    if (versions.length === 0) {
+      setShowAnnotationEditor(true)
+      return
+    }
+    const current = getCurrentVersion(editedItem as Item)
+    const versionIndex = Math.max(versions.findIndex(version => version === current), 0)
+    const image = getPrimaryImage(editedItem, versions[versionIndex])
+    if (image) setAnnotationTarget({ versionIndex, imageId: image.id })
+  }
+
+  // Statuses are saved straight away (and logged) rather than with the item
+  const changeStatus = async (
+    versionIndex: number,
+    partIndex: number | undefined,
+    status: WorkflowStatus,
+    comment?: string
+  ) => {
+    if (!onStatusChange) return
+    const saved = await onStatusChange({ versionIndex, partIndex }, status, comment)
+    if (!saved) return
+    if (partIndex === undefined) {
+      updateVersion(versionIndex, 'status', status)
+    } else {
+      updatePartInVersion(versionIndex, partIndex, 'status', status)
+    }
+  }
+
+  const renderStatus = (
+    status: WorkflowStatus,
+    versionIndex: number,
+    partIndex?: number
+  ) =>
+    onStatusChange ? (
+      <WorkflowStatusControl
+        status={status}
+        role={role}
+        onChange={(next, comment) => changeStatus(versionIndex, partIndex, next, comment)}
+      />
+    ) : (
+      <WorkflowStatusBadge status={status} />
+    )
+
   const handleSave = async () => {
     setIsSaving(true)
     try {
-      await onSave(editedItem)
+      await onSave(normalizeItemDetails(editedItem))
     } finally {
       setIsSaving(false)
     }
@@ -356,6 +477,8 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
   }
 
   const status = getItemStatus()
+  const completion = getItemCompletion(editedItem as Item)
+  const currentVersion = getCurrentVersion(editedItem as Item)
 
   return (
     <div className="space-y-6">
@@ -385,6 +508,14 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
                   In Progress
                 </Badge>
               )}
+              {currentVersion && (
+                <WorkflowStatusBadge status={getStatus(currentVersion)} />
+              )}
+              {completion.total > 0 && (
+                <span className="text-sm text-muted-foreground">
+                  {completion.percent}% complete ·
+                </span>
+              )}
               <span className="text-sm text-muted-foreground">
                 {status.partsCount} part{status.partsCount !== 1 ? 's' : ''}
                 {status.versionsCount > 0 && ` in ${status.versionsCount} version${status.versionsCount !== 1 ? 's' : ''}`}
@@ -427,30 +558,22 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <FileUpload
-                value={editedItem.hero_image || ''}
-                onChange={(url) => updateItem('hero_image', url)}
-                accept="image/*"
-                maxSize={20}
-                label="Upload Item Image"
-                placeholder="Click to upload or drag and drop"
-              />
-              
               {editedItem.hero_image && (
-                <div className="mt-4">
+                <div>
                   <div className="relative aspect-video bg-gray-50 rounded-lg overflow-hidden">
-                    <img
-                      src={editedItem.hero_image}
+                    <ResponsiveImage
+                      image={getItemImages(editedItem)[0]}
                       alt={editedItem.name || 'Item'}
                       className="w-full h-full object-contain cursor-pointer hover:opacity-90 transition-opacity"
                       onClick={() => setShowItemDetail(true)}
                       title="Click to view full image"
                     />
-                    {/* Show annotation dots - use first version or legacy parts */}
+                    {/* Show annotation dots - use first version (while it's annotated on this image) or legacy parts */}
                     {(() => {
                       const itemWithVersions = editedItem as Item
+                      const firstVersion = itemWithVersions.versions?.[0]
                       const partsToShow = hasVersions(itemWithVersions)
-                        ? (itemWithVersions.versions?.[0]?.parts || [])
+                        ? (getPrimaryImage(editedItem, firstVersion)?.url === editedItem.hero_image ? firstVersion?.parts || [] : [])
                         : (editedItem.parts || [])
                       
                       return partsToShow.map((part, partIdx) => {
@@ -479,6 +602,14 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
                   </div>
                 </div>
               )}
+
+              {/* Ordered images with camera angles; the first is the cover */}
+              <div className={editedItem.hero_image ? 'mt-4' : ''}>
+                <ItemImagesEditor
+                  item={editedItem}
+                  onChange={(images) => setEditedItem(prev => setItemImages(prev, images))}
+                />
+              </div>
             </CardContent>
           </Card>
 
@@ -547,11 +678,11 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
                       <SelectValue placeholder="Select packaging type" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="box">Box</SelectItem>
-                      <SelectItem value="bag">Bag</SelectItem>
-                      <SelectItem value="envelope">Envelope</SelectItem>
-                      <SelectItem value="tube">Tube</SelectItem>
-                      <SelectItem value="custom">Custom</SelectItem>
+                      {PACKAGING_TYPES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -641,7 +772,7 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
                         type="text"
                         value={editedItem.custom_logo || ''}
                         onChange={(e) => updateItem('custom_logo', e.target.value)}
-                        placeholder="https://example.com/logo.png"
+                        placeholder="URL of an image uploaded to the portal"
                         className="w-full px-4 py-2 bg-white border border-gray-300 rounded-lg text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-colors"
                       />
                       {editedItem.custom_logo && (
@@ -675,14 +806,24 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
                 </CardTitle>
                 <div className="flex gap-2">
                   <Button
-                    onClick={() => setShowAnnotationEditor(true)}
+                    onClick={openAnnotations}
                     size="sm"
                     variant="outline"
-                    disabled={!editedItem.hero_image}
+                    disabled={!editedItem.hero_image && !getPrimaryImage(editedItem, getCurrentVersion(editedItem as Item) || undefined)}
                   >
                     <MapPin className="h-4 w-4 mr-1" />
                     Annotations
                   </Button>
+                  {editedItem.versions && editedItem.versions.length > 1 && (
+                    <Button
+                      onClick={() => setShowComparison(true)}
+                      size="sm"
+                      variant="outline"
+                    >
+                      <GitCompare className="h-4 w-4 mr-1" />
+                      Compare
+                    </Button>
+                  )}
                   {editedItem.versions && editedItem.versions.length > 0 && (
                     <Button
                       onClick={() => {
@@ -763,6 +904,9 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
                                   <div className="text-xs text-muted-foreground mt-0.5">
                                     {partsCount} part{partsCount !== 1 ? 's' : ''}
                                   </div>
+                                  <div className="mt-2">
+                                    {renderStatus(getStatus(version), versionIndex)}
+                                  </div>
                                 </div>
                               </div>
                               <div className="flex items-center gap-2">
@@ -779,9 +923,22 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
                               </div>
                             </div>
                             
-                            {/* Version Content (Parts) */}
+                            {/* Version Content (Images and Parts) */}
                             {!isCollapsed && (
                               <div className="p-4 space-y-4">
+                                <div>
+                                  <h5 className="text-sm font-medium flex items-center gap-2 mb-2">
+                                    <ImageIcon className="h-4 w-4" />
+                                    Images
+                                  </h5>
+                                  <VersionImagesEditor
+                                    item={editedItem}
+                                    version={version}
+                                    onChange={(images) => updateVersionImages(versionIndex, images)}
+                                    onAnnotate={(imageId) => setAnnotationTarget({ versionIndex, imageId })}
+                                  />
+                                </div>
+
                                 <div className="flex items-center justify-between mb-2">
                                   <h5 className="text-sm font-medium">Parts</h5>
                                   <Button
@@ -806,6 +963,9 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
                                             />
                                             Part {partIndex + 1}
                                           </h4>
+                                          <div className="flex-1 px-3">
+                                            {renderStatus(getStatus(part), versionIndex, partIndex)}
+                                          </div>
                                           <Button
                                             variant="ghost"
                                             size="sm"
@@ -830,11 +990,22 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
                                             <label className="block text-xs font-medium mb-1">Finish</label>
                                             <Input
                                               value={part.finish}
-                                              onChange={(e) => updatePartInVersion(versionIndex, partIndex, 'finish', e.target.value)}
+                                              onChange={(e) => {
+                                                updatePartInVersion(versionIndex, partIndex, 'finish', e.target.value)
+                                                if (part.material_id) updatePartInVersion(versionIndex, partIndex, 'material_id', null)
+                                              }}
                                               placeholder="Finish type"
                                               className="text-sm"
                                             />
                                           </div>
+                                          <div className="col-span-2">
+                                            <label className="block text-xs font-medium mb-1">Material</label>
+                                            <MaterialPicker
+                                              library={materialLibrary}
+                                              selected={findMaterial(materials, part.material_id)}
+                                              onSelect={(material) => setVersionPartMaterial(versionIndex, partIndex, material)}
+                                            />
+                                          </div>
                                           <div>
                                             <label className="block text-xs font-medium mb-1">Texture</label>
                                             <Input
@@ -939,11 +1110,22 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
                           <label className="block text-xs font-medium mb-1">Finish</label>
                           <Input
                             value={part.finish}
-                            onChange={(e) => updatePart(partIndex, 'finish', e.target.value)}
+                            onChange={(e) => {
+                              updatePart(partIndex, 'finish', e.target.value)
+                              if (part.material_id) updatePart(partIndex, 'material_id', null)
+                            }}
                             placeholder="Finish type"
                             className="text-sm"
                           />
                         </div>
+                        <div className="col-span-2">
+                          <label className="block text-xs font-medium mb-1">Material</label>
+                          <MaterialPicker
+                            library={materialLibrary}
+                            selected={findMaterial(materials, part.material_id)}
+                            onSelect={(material) => setPartMaterial(partIndex, material)}
+                          />
+                        </div>
                         <div>
                           <label className="block text-xs font-medium mb-1">Texture</label>
                           <Input
@@ -1021,6 +1203,40 @@ export function ItemEditor({ item, projectLogo, onSave, onCancel, onDelete }: It
         onSave={handleAnnotationSave}
       />
 
+      {/* Annotation editor for one image of a version */}
+      {(() => {
+        const version = annotationTarget && editedItem.versions?.[annotationTarget.versionIndex]
+        if (!annotationTarget || !version) return null
+        const images = getVersionImages(editedItem, version)
+        const image = images.find(({ id }) => id === annotationTarget.imageId)
+        if (!image) return null
+
+        return (
+          <AnnotationPopupEditor
+            key={`item-editor-annotation-${version.id}-${image.id}`}
+            item={{
+              name: `${editedItem.name || 'Item'} — ${version.versionName || `Version ${version.versionNumber}`} (${getImageLabel(image)})`,
+              hero_image: image.url,
+              parts: version.parts.map(part => {
+                const point = getPartAnnotation(part, images, image.id)
+                return { ...part, annotation_data: point && { ...point, id: part.id! } }
+              })
+            }}
+            isOpen
+            onClose={() => setAnnotationTarget(null)}
+            onSave={handleVersionAnnotationSave}
+          />
+        )
+      })()}
+
+      {showComparison && (
+        <VersionComparison
+          item={editedItem}
+          isOpen={showComparison}
+          onClose={() => setShowComparison(false)}
+        />
+      )}
+
       {/* Item Detail Popup */}
       <ItemDetailPopup
         key={`item-editor-detail-${(() => {
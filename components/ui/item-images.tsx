@@ -0,0 +1,371 @@
+'use client'
+
+import React from 'react'
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  MapPin,
+  Trash2,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { FileUpload } from '@/components/ui/file-upload'
+import { ResponsiveImage } from '@/components/ui/responsive-image'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  IMAGE_ANGLES,
+  getImageLabel,
+  getItemImages,
+  getPartAnnotation,
+  getVersionImages,
+} from '@/lib/item-images'
+import { UPLOAD_ACCEPT, getFileExtension } from '@/lib/upload-files'
+import {
+  ImageAngle,
+  ImageDerivatives,
+  ImageSize,
+  Item,
+  Part,
+  Version,
+  ItemImage,
+} from '@/types'
+
+/**
+ * An image with each part's marker for that image. Markers are positioned
+ * in percentages of the rendered image, so the wrapper shrinks to fit it.
+ */
+export function AnnotatedImage({
+  image,
+  images,
+  parts,
+  highlighted,
+  fill = false,
+  className = 'max-h-40',
+  markerSize = 'w-4 h-4',
+  size = 'preview',
+}: {
+  image: ItemImage
+  /** All of the version's images, to tell which one is primary */
+  images: ItemImage[]
+  parts: Part[]
+  /** Part ids to draw attention to; the others are dimmed */
+  highlighted?: Set<string>
+  /** Stretch over the positioned parent, e.g. to overlay another render */
+  fill?: boolean
+  className?: string
+  markerSize?: string
+  /** Largest derivative to load */
+  size?: ImageSize
+}) {
+  return (
+    <div className={fill ? 'absolute inset-0' : 'relative inline-block'}>
+      <ResponsiveImage
+        image={image}
+        size={size}
+        alt={getImageLabel(image)}
+        className={
+          fill
+            ? 'block w-full h-full object-fill'
+            : `block w-auto max-w-full object-contain ${className}`
+        }
+        draggable={false}
+      />
+      {parts.map((part, index) => {
+        const point = getPartAnnotation(part, images, image.id)
+        if (!point) return null
+        const isHighlighted = !highlighted || highlighted.has(part.id || '')
+        return (
+          <div
+            key={part.id || index}
+            className={`absolute ${markerSize} rounded-full border-2 shadow-lg flex items-center justify-center text-white text-[10px] font-bold ${
+              highlighted && isHighlighted
+                ? 'border-amber-400 ring-2 ring-amber-300 animate-pulse'
+                : 'border-white'
+            } ${isHighlighted ? '' : 'opacity-40'}`}
+            style={{
+              left: `${point.x}%`,
+              top: `${point.y}%`,
+              backgroundColor: part.color || '#3b82f6',
+              transform: 'translate(-50%, -50%)',
+            }}
+            title={part.name || `Part ${index + 1}`}
+          >
+            {index + 1}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function ImageCard({
+  image,
+  images,
+  parts,
+  caption,
+  onAngleChange,
+  onMove,
+  onAnnotate,
+  onRemove,
+}: {
+  image: ItemImage
+  images: ItemImage[]
+  parts: Part[]
+  caption: string
+  onAngleChange?: (angle: ImageAngle) => void
+  onMove?: (offset: -1 | 1) => void
+  onAnnotate?: () => void
+  onRemove?: () => void
+}) {
+  const index = images.indexOf(image)
+
+  return (
+    <div className="border rounded-lg p-2 bg-white space-y-2">
+      <div className="flex justify-center bg-gray-50 rounded">
+        <AnnotatedImage
+          image={image}
+          images={images}
+          parts={parts}
+          size="thumb"
+        />
+      </div>
+      <div className="flex items-center gap-1">
+        <Select
+          value={image.angle}
+          onValueChange={(value) => onAngleChange?.(value as ImageAngle)}
+          disabled={!onAngleChange}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IMAGE_ANGLES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {onMove && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onMove(-1)}
+              disabled={index === 0}
+              title="Move earlier"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onMove(1)}
+              disabled={index === images.length - 1}
+              title="Move later"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        {onAnnotate && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onAnnotate}
+            title="Place markers on this image"
+          >
+            <MapPin className="h-4 w-4" />
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" asChild>
+          {/* The upload as delivered: layered PSD, EXR pass, PDF drawing */}
+          <a
+            href={image.url}
+            target="_blank"
+            rel="noreferrer"
+            download
+            title={`Download original ${getFileExtension(image.url).toUpperCase()}`}
+          >
+            <Download className="h-4 w-4" />
+          </a>
+        </Button>
+        {onRemove && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            className="text-red-600 hover:text-red-700"
+            title="Remove image and its markers"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div className="text-xs text-muted-foreground">{caption}</div>
+    </div>
+  )
+}
+
+// The first angle not used yet, so a new upload is usually labelled right
+function nextAngle(images: ItemImage[]): ImageAngle {
+  const used = new Set(images.map((image) => image.angle))
+  return (
+    IMAGE_ANGLES.find((option) => !used.has(option.value))?.value || 'detail'
+  )
+}
+
+function newImage(
+  url: string,
+  images: ItemImage[],
+  derivatives?: ImageDerivatives | null
+): ItemImage {
+  return {
+    id: `image-${Date.now()}`,
+    url,
+    angle: nextAngle(images),
+    ...(derivatives && { derivatives }),
+  }
+}
+
+interface ItemImagesEditorProps {
+  item: Pick<Item, 'hero_image' | 'images'>
+  onChange: (images: ItemImage[]) => void
+}
+
+/**
+ * The item's ordered image set. The first image is the cover shown on
+ * cards and the primary image parts are placed on.
+ */
+export function ItemImagesEditor({ item, onChange }: ItemImagesEditorProps) {
+  // A lone hero image becomes a real entry on the first change
+  const images = getItemImages(item)
+
+  const move = (index: number, offset: -1 | 1) => {
+    const reordered = [...images]
+    const [image] = reordered.splice(index, 1)
+    reordered.splice(index + offset, 0, image)
+    onChange(reordered)
+  }
+
+  return (
+    <div className="space-y-3">
+      {images.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          {images.map((image, index) => (
+            <ImageCard
+              key={image.id}
+              image={image}
+              images={images}
+              parts={[]}
+              caption={index === 0 ? 'Cover image' : getImageLabel(image)}
+              onAngleChange={(angle) =>
+                onChange(
+                  images.map((entry) =>
+                    entry.id === image.id ? { ...entry, angle } : entry
+                  )
+                )
+              }
+              onMove={(offset) => move(index, offset)}
+              onRemove={() =>
+                onChange(images.filter(({ id }) => id !== image.id))
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      <FileUpload
+        key={`item-images-${images.length}`}
+        value=""
+        onChange={(url, derivatives) =>
+          url && onChange([...images, newImage(url, images, derivatives)])
+        }
+        accept={UPLOAD_ACCEPT}
+        maxSize={20}
+        label={images.length > 0 ? 'Add Image' : 'Upload Item Image'}
+        placeholder="Click to upload or drag and drop"
+      />
+    </div>
+  )
+}
+
+interface VersionImagesEditorProps {
+  item: Pick<Item, 'hero_image' | 'images'>
+  version: Version
+  onChange: (images: ItemImage[]) => void
+  onAnnotate: (imageId: string) => void
+}
+
+/**
+ * The images of one version. Until a version has renders of its own it
+ * shows the item images; adding one copies them into the version first, so
+ * markers already placed stay where they are.
+ */
+export function VersionImagesEditor({
+  item,
+  version,
+  onChange,
+  onAnnotate,
+}: VersionImagesEditorProps) {
+  const images = getVersionImages(item, version)
+  const inherited = !version.images || version.images.length === 0
+
+  return (
+    <div className="space-y-3">
+      {images.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          {images.map((image, index) => (
+            <ImageCard
+              key={image.id}
+              image={image}
+              images={images}
+              parts={version.parts}
+              caption={
+                inherited
+                  ? `Item image · ${getImageLabel(image)}`
+                  : index === 0
+                    ? 'Primary image'
+                    : getImageLabel(image)
+              }
+              onAngleChange={
+                inherited
+                  ? undefined
+                  : (angle) =>
+                      onChange(
+                        images.map((entry) =>
+                          entry.id === image.id ? { ...entry, angle } : entry
+                        )
+                      )
+              }
+              onAnnotate={() => onAnnotate(image.id)}
+              onRemove={
+                inherited
+                  ? undefined
+                  : () => onChange(images.filter(({ id }) => id !== image.id))
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      <FileUpload
+        key={`${version.id}-${version.images?.length || 0}`}
+        value=""
+        onChange={(url, derivatives) =>
+          url && onChange([...images, newImage(url, images, derivatives)])
+        }
+        accept={UPLOAD_ACCEPT}
+        maxSize={20}
+        label="Add Render"
+        placeholder="Upload a render of this version"
+      />
+    </div>
+  )
+}
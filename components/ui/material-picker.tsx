@@ -0,0 +1,156 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { ChevronDown, Search, X } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { sheenLabel } from '@/lib/materials'
+import { Material } from '@/types'
+
+interface MaterialPickerProps {
+  /** Entries to choose from; archived ones are left out */
+  library: Material[]
+  /** The part's current entry, if it references one */
+  selected: Material | null
+  onSelect: (material: Material | null) => void
+  className?: string
+}
+
+export function MaterialSwatch({
+  material,
+  className = 'w-5 h-5',
+}: {
+  material: Pick<Material, 'swatch_color' | 'texture_image_url' | 'name'>
+  className?: string
+}) {
+  return (
+    <span
+      className={`inline-block shrink-0 rounded border border-gray-400 bg-cover bg-center ${className}`}
+      style={{
+        backgroundColor: material.swatch_color,
+        backgroundImage: material.texture_image_url
+          ? `url(${material.texture_image_url})`
+          : undefined,
+      }}
+      title={material.name}
+    />
+  )
+}
+
+/**
+ * Pick a finish from the team materials library. Clearing the selection
+ * keeps the part's free-text finish.
+ */
+export function MaterialPicker({
+  library,
+  selected,
+  onSelect,
+  className = '',
+}: MaterialPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+
+  const options = library.filter(
+    (material) =>
+      !material.archived &&
+      [material.name, material.vendor_code || '', sheenLabel(material.sheen)]
+        .join(' ')
+        .toLowerCase()
+        .includes(query.trim().toLowerCase())
+  )
+
+  const choose = (material: Material | null) => {
+    onSelect(material)
+    setOpen(false)
+    setQuery('')
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex h-10 w-full items-center gap-2 rounded-md border border-input bg-background px-3 text-left text-sm"
+      >
+        {selected ? (
+          <>
+            <MaterialSwatch material={selected} />
+            <span className="flex-1 truncate">
+              {selected.name}
+              {selected.vendor_code && (
+                <span className="text-muted-foreground">
+                  {' '}
+                  · {selected.vendor_code}
+                </span>
+              )}
+            </span>
+          </>
+        ) : (
+          <span className="flex-1 text-muted-foreground">
+            Choose from materials library
+          </span>
+        )}
+        <ChevronDown className="h-4 w-4 text-muted-foreground" />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 right-0 z-20 mt-1 rounded-md border bg-white shadow-lg">
+          <div className="relative border-b p-2">
+            <Search className="absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search name, vendor code or sheen"
+              className="h-8 pl-8 text-sm"
+              autoFocus
+            />
+          </div>
+          <div className="max-h-64 overflow-y-auto py-1">
+            {options.map((material) => (
+              <button
+                key={material.id}
+                type="button"
+                onClick={() => choose(material)}
+                className={`flex w-full items-center gap-3 px-3 py-2 text-left text-sm hover:bg-gray-100 ${
+                  material.id === selected?.id ? 'bg-gray-50 font-medium' : ''
+                }`}
+              >
+                <MaterialSwatch material={material} className="w-6 h-6" />
+                <span className="flex-1 truncate">{material.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {[material.vendor_code, sheenLabel(material.sheen)]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </span>
+              </button>
+            ))}
+            {options.length === 0 && (
+              <p className="px-3 py-4 text-center text-sm text-muted-foreground">
+                {library.length === 0
+                  ? 'Your team has no materials yet.'
+                  : 'No materials match.'}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center justify-between border-t px-3 py-2 text-xs">
+            {selected ? (
+              <button
+                type="button"
+                onClick={() => choose(null)}
+                className="flex items-center gap-1 text-muted-foreground hover:text-gray-900"
+              >
+                <X className="h-3 w-3" />
+                Unlink (keep text)
+              </button>
+            ) : (
+              <span />
+            )}
+            <Link href="/materials" className="text-blue-600 hover:underline">
+              Manage library
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -9,49 +9,53 @@ import {
   Plus,
   Eye,
   CheckCircle2,
-  Clock
+  Clock,
+  Layers
 } from 'lucide-react'
 import { ItemDetailPopup } from '@/components/ui/item-detail-popup'
+import { BulkItemDetailsModal } from '@/components/project/bulk-item-details-modal'
 import { useTheme } from '@/lib/theme-context'
 import { ThemedButton } from '@/components/ui/themed-button'
-import { hasVersions } from '@/types'
+import { WorkflowStatusBadge } from '@/components/ui/workflow-status'
+import { Item, ItemDetails, getItemParts, hasVersions } from '@/types'
+import { ResponsiveImage } from '@/components/ui/responsive-image'
+import { getItemImages } from '@/lib/item-images'
+import { getPackagingLabel } from '@/lib/item-details'
+import {
+  getCurrentVersion,
+  getItemCompletion,
+  getStatus,
+} from '@/lib/status-workflow'
 
 interface ProjectOverviewProps {
-  items: Array<{
-    name: string
-    hero_image?: string
-    needs_packaging?: boolean
-    needs_logo?: boolean
-    packaging_type?: string
-    custom_logo?: string
-    notes?: string
-    parts?: Array<{
-      name: string
-      finish: string
-      color: string
-      texture: string
-      notes?: string
-      annotation_data?: {
-        x: number
-        y: number
-        id: string
-      }
-    }>
-  }>
+  items: Array<Omit<Item, 'id'> & { id?: string }>
   onEditItem: (index: number) => void
   onDeleteItem: (index: number) => void
   onAddItem: () => void
+  // Shows item selection for setting packaging, logo and notes at once
+  onBulkUpdate?: (indexes: number[], changes: ItemDetails) => void
 }
 
 export function ProjectOverview({ 
   items, 
   onEditItem, 
   onDeleteItem, 
-  onAddItem 
+  onAddItem,
+  onBulkUpdate
 }: ProjectOverviewProps) {
   const { colors } = useTheme()
   const [selectedItemIndex, setSelectedItemIndex] = useState<number | null>(null)
   const [showItemDetail, setShowItemDetail] = useState(false)
+  const [bulkSelection, setBulkSelection] = useState<number[] | null>(null)
+  const [showBulkEditor, setShowBulkEditor] = useState(false)
+
+  const toggleBulkSelection = (index: number) => {
+    setBulkSelection(current =>
+      current?.includes(index)
+        ? current.filter(i => i !== index)
+        : [...(current || []), index]
+    )
+  }
 
   const handleItemClick = (index: number) => {
     setSelectedItemIndex(index)
@@ -64,8 +68,8 @@ export function ProjectOverview({
     onEditItem(index)
   }
 
-  const getItemStatus = (item: any) => {
-    const partsCount = item.parts?.length || 0
+  const getItemStatus = (item: ProjectOverviewProps['items'][number]) => {
+    const partsCount = getItemParts(item as Item).length
     const hasImage = !!item.hero_image
     const hasPackaging = item.needs_packaging
     const hasLogo = item.needs_logo
@@ -89,10 +93,39 @@ export function ProjectOverview({
             {items.length} item{items.length !== 1 ? 's' : ''} in this project
           </p>
         </div>
-        <ThemedButton onClick={onAddItem} variant="primary">
-          <Plus className="h-4 w-4 mr-2" />
-          Add Item
-        </ThemedButton>
+        <div className="flex items-center gap-3">
+          {onBulkUpdate && items.length > 1 && (
+            bulkSelection ? (
+              <>
+                <button
+                  onClick={() => setBulkSelection(null)}
+                  className="px-4 py-2 bg-[#222a31] text-white rounded-lg hover:bg-[#2a3239] transition-colors text-sm"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => setShowBulkEditor(true)}
+                  disabled={bulkSelection.length === 0}
+                  className="px-4 py-2 bg-[#38bdbb] text-white rounded-lg hover:bg-[#2ea9a7] transition-colors text-sm disabled:opacity-50"
+                >
+                  Edit {bulkSelection.length} Selected
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setBulkSelection([])}
+                className="px-4 py-2 bg-[#222a31] text-white rounded-lg hover:bg-[#2a3239] transition-colors text-sm flex items-center gap-2"
+              >
+                <Layers className="h-4 w-4" />
+                Bulk Edit
+              </button>
+            )
+          )}
+          <ThemedButton onClick={onAddItem} variant="primary">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </ThemedButton>
+        </div>
       </div>
 
       {/* Items Grid */}
@@ -100,6 +133,8 @@ export function ProjectOverview({
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
         {items.map((item, index) => {
           const status = getItemStatus(item)
+          const completion = getItemCompletion(item as Item)
+          const currentVersion = getCurrentVersion(item as Item)
           
           return (
             <div 
@@ -109,6 +144,15 @@ export function ProjectOverview({
               {/* Card Header */}
               <div className="p-4 border-b border-gray-800">
                 <div className="flex items-start justify-between mb-2">
+                  {bulkSelection && (
+                    <input
+                      type="checkbox"
+                      checked={bulkSelection.includes(index)}
+                      onChange={() => toggleBulkSelection(index)}
+                      className="mt-1.5 mr-3"
+                      aria-label={`Select ${item.name || `Item ${index + 1}`}`}
+                    />
+                  )}
                   <h3 className="text-lg font-medium text-white flex-1 pr-2">
                     {item.name || `Item ${index + 1}`}
                   </h3>
@@ -142,6 +186,26 @@ export function ProjectOverview({
                     In Progress
                   </div>
                 )}
+                {currentVersion && (
+                  <WorkflowStatusBadge
+                    status={getStatus(currentVersion)}
+                    className="ml-2"
+                  />
+                )}
+                {completion.total > 0 && (
+                  <div className="mt-3">
+                    <div className="flex items-center justify-between text-xs text-[#595d60] mb-1">
+                      <span>Review progress</span>
+                      <span>{completion.percent}%</span>
+                    </div>
+                    <div className="h-1.5 bg-[#222a31] rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-[#38bdbb] rounded-full"
+                        style={{ width: `${completion.percent}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Card Content */}
@@ -152,8 +216,9 @@ export function ProjectOverview({
                     className="relative aspect-square bg-[#0d1117] rounded-lg overflow-hidden cursor-pointer hover:opacity-90 transition-opacity"
                     onClick={() => handleItemClick(index)}
                   >
-                    <img
-                      src={item.hero_image}
+                    <ResponsiveImage
+                      image={getItemImages(item)[0]}
+                      size="thumb"
                       alt={item.name || `Item ${index + 1}`}
                       className="w-full h-full object-contain"
                     />
@@ -212,7 +277,7 @@ export function ProjectOverview({
                       )}
                       {item.packaging_type && (
                         <span className="text-xs text-[#595d60]">
-                          {item.packaging_type}
+                          {getPackagingLabel(item.packaging_type)}
                         </span>
                       )}
                     </div>
@@ -271,6 +336,17 @@ export function ProjectOverview({
       </div>
     )}
 
+    {showBulkEditor && bulkSelection && onBulkUpdate && (
+      <BulkItemDetailsModal
+        itemCount={bulkSelection.length}
+        onApply={(changes) => {
+          onBulkUpdate(bulkSelection, changes)
+          setBulkSelection(null)
+        }}
+        onClose={() => setShowBulkEditor(false)}
+      />
+    )}
+
     {/* Item Detail Popup */}
     {selectedItemIndex !== null && (
       <ItemDetailPopup
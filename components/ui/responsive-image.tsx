@@ -0,0 +1,106 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { decode } from 'blurhash'
+import { getImageSrcSet, getImageUrl } from '@/lib/image-derivatives'
+import { ImageDerivatives, ImageSize } from '@/types'
+
+// Decoded blurhashes by hash, shared by every image on the page
+const placeholders = new Map<string, string>()
+
+function getPlaceholder(derivatives: ImageDerivatives): string {
+  const cached = placeholders.get(derivatives.blurhash)
+  if (cached) return cached
+
+  const width = 32
+  const height = Math.max(
+    1,
+    Math.round((width * derivatives.height) / derivatives.width)
+  )
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) return ''
+
+  const pixels = context.createImageData(width, height)
+  pixels.data.set(decode(derivatives.blurhash, width, height))
+  context.putImageData(pixels, 0, 0)
+
+  const dataUrl = canvas.toDataURL()
+  placeholders.set(derivatives.blurhash, dataUrl)
+  return dataUrl
+}
+
+interface ResponsiveImageProps
+  extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> {
+  image: { url: string; derivatives?: ImageDerivatives | null }
+  alt: string
+  /** Largest derivative the browser may pick */
+  size?: ImageSize
+}
+
+/**
+ * An uploaded image at the size it's shown: AVIF or WebP from the image's
+ * derivatives, with its blurhash as a placeholder until it loads. Images
+ * without derivatives render the original.
+ */
+export function ResponsiveImage({
+  image,
+  alt,
+  size = 'preview',
+  sizes = '100vw',
+  style,
+  onLoad,
+  ...props
+}: ResponsiveImageProps) {
+  const { derivatives } = image
+  const [placeholder, setPlaceholder] = useState('')
+  const [loaded, setLoaded] = useState(false)
+
+  // Decoded after mount, the server has no canvas
+  useEffect(() => {
+    setLoaded(false)
+    setPlaceholder(derivatives ? getPlaceholder(derivatives) : '')
+  }, [derivatives])
+
+  if (!derivatives) {
+    return (
+      <img src={image.url} alt={alt} style={style} onLoad={onLoad} {...props} />
+    )
+  }
+
+  return (
+    // `contents` keeps the <img> laid out as if <picture> weren't there
+    <picture className="contents">
+      <source
+        type="image/avif"
+        srcSet={getImageSrcSet(derivatives, 'avif', size)}
+        sizes={sizes}
+      />
+      <source
+        type="image/webp"
+        srcSet={getImageSrcSet(derivatives, 'webp', size)}
+        sizes={sizes}
+      />
+      <img
+        src={getImageUrl(image, size, 'jpeg')}
+        alt={alt}
+        style={
+          placeholder && !loaded
+            ? {
+                backgroundImage: `url(${placeholder})`,
+                backgroundSize: '100% 100%',
+                ...style,
+              }
+            : style
+        }
+        onLoad={(event) => {
+          setLoaded(true)
+          onLoad?.(event)
+        }}
+        {...props}
+      />
+    </picture>
+  )
+}
@@ -0,0 +1,349 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import {
+  ArrowRight,
+  Columns,
+  Layers,
+  SplitSquareHorizontal,
+  X,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AnnotatedImage } from '@/components/ui/item-images'
+import { ResponsiveImage } from '@/components/ui/responsive-image'
+import { FieldChange, compareVersions } from '@/lib/project-diff'
+import {
+  IMAGE_ANGLES,
+  getImageLabel,
+  getVersionImages,
+} from '@/lib/item-images'
+import { ImageAngle, Item, Version, ItemImage } from '@/types'
+
+type ComparisonMode = 'side-by-side' | 'onion-skin' | 'slider'
+
+// What reviewers look for between renders
+const APPEARANCE_FIELDS = ['finish', 'color', 'texture']
+
+interface VersionComparisonProps {
+  item: Omit<Item, 'id'> & { id?: string }
+  isOpen: boolean
+  onClose: () => void
+}
+
+function versionLabel(version: Version) {
+  return version.versionName || `Version ${version.versionNumber}`
+}
+
+// The image for the chosen angle, or the version's primary image
+function imageForAngle(images: ItemImage[], angle: ImageAngle | null) {
+  return images.find((image) => image.angle === angle) || images[0]
+}
+
+/**
+ * Two versions of an item next to each other, or overlaid as an onion skin
+ * or a before/after slider. Parts whose finish, color or texture changed
+ * are highlighted on both images and listed underneath.
+ */
+export function VersionComparison({
+  item,
+  isOpen,
+  onClose,
+}: VersionComparisonProps) {
+  const versions = item.versions || []
+  const [beforeIndex, setBeforeIndex] = useState(
+    Math.max(versions.length - 2, 0)
+  )
+  const [afterIndex, setAfterIndex] = useState(versions.length - 1)
+  const [angle, setAngle] = useState<ImageAngle | null>(null)
+  const [mode, setMode] = useState<ComparisonMode>('side-by-side')
+  const [blend, setBlend] = useState(50)
+
+  const before = versions[beforeIndex]
+  const after = versions[afterIndex]
+
+  const changedParts = useMemo(() => {
+    if (!before || !after) return []
+    return compareVersions(before, after, item.groups)
+      .map((diff) => ({
+        diff,
+        changes: diff.changes.filter((change) =>
+          APPEARANCE_FIELDS.includes(change.field)
+        ),
+      }))
+      .filter(
+        ({ diff, changes }) => diff.kind === 'added' || changes.length > 0
+      )
+  }, [before, after, item.groups])
+
+  if (!isOpen || !before || !after) return null
+
+  const beforeImages = getVersionImages(item, before)
+  const afterImages = getVersionImages(item, after)
+  const beforeImage = imageForAngle(beforeImages, angle)
+  const afterImage = imageForAngle(afterImages, angle)
+  const angles = IMAGE_ANGLES.filter((option) =>
+    [...beforeImages, ...afterImages].some(
+      (image) => image.angle === option.value
+    )
+  )
+
+  const highlightedBefore = new Set(
+    changedParts.map(({ diff }) => diff.before?.id || '').filter(Boolean)
+  )
+  const highlightedAfter = new Set(
+    changedParts.map(({ diff }) => diff.after?.id || '').filter(Boolean)
+  )
+
+  const versionSelect = (value: number, onChange: (index: number) => void) => (
+    <Select
+      value={String(value)}
+      onValueChange={(next) => onChange(Number(next))}
+    >
+      <SelectTrigger className="w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version, index) => (
+          <SelectItem key={version.id || index} value={String(index)}>
+            {versionLabel(version)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  const renderChange = (change: FieldChange) => (
+    <span key={change.field} className="inline-flex items-center gap-1 mr-3">
+      <span className="text-muted-foreground">{change.label}:</span>
+      {change.field === 'color' && change.from && (
+        <span
+          className="inline-block w-3 h-3 rounded-full border"
+          style={{ backgroundColor: change.from }}
+        />
+      )}
+      <span className="line-through text-red-600">{change.from || '—'}</span>
+      <ArrowRight className="h-3 w-3" />
+      {change.field === 'color' && change.to && (
+        <span
+          className="inline-block w-3 h-3 rounded-full border"
+          style={{ backgroundColor: change.to }}
+        />
+      )}
+      <span className="text-green-700">{change.to || '—'}</span>
+    </span>
+  )
+
+  const noImage = (
+    <div className="w-full h-64 flex items-center justify-center text-muted-foreground bg-gray-50 rounded-lg">
+      No image for this version
+    </div>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+          <CardTitle className="text-lg font-semibold">
+            Compare Versions of {item.name || 'Item'}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+
+        <CardContent className="flex-1 flex flex-col gap-4 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-3">
+            {versionSelect(beforeIndex, setBeforeIndex)}
+            <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            {versionSelect(afterIndex, setAfterIndex)}
+
+            {angles.length > 1 && (
+              <Select
+                value={angle || ''}
+                onValueChange={(value) => setAngle(value as ImageAngle)}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue placeholder="Primary image" />
+                </SelectTrigger>
+                <SelectContent>
+                  {angles.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <div className="flex gap-1 ml-auto">
+              <Button
+                size="sm"
+                variant={mode === 'side-by-side' ? 'default' : 'outline'}
+                onClick={() => setMode('side-by-side')}
+              >
+                <Columns className="h-4 w-4 mr-1" />
+                Side by Side
+              </Button>
+              <Button
+                size="sm"
+                variant={mode === 'onion-skin' ? 'default' : 'outline'}
+                onClick={() => setMode('onion-skin')}
+              >
+                <Layers className="h-4 w-4 mr-1" />
+                Onion Skin
+              </Button>
+              <Button
+                size="sm"
+                variant={mode === 'slider' ? 'default' : 'outline'}
+                onClick={() => setMode('slider')}
+              >
+                <SplitSquareHorizontal className="h-4 w-4 mr-1" />
+                Slider
+              </Button>
+            </div>
+          </div>
+
+          {mode === 'side-by-side' ? (
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                {
+                  version: before,
+                  image: beforeImage,
+                  images: beforeImages,
+                  highlighted: highlightedBefore,
+                },
+                {
+                  version: after,
+                  image: afterImage,
+                  images: afterImages,
+                  highlighted: highlightedAfter,
+                },
+              ].map(({ version, image, images, highlighted }, index) => (
+                <div key={index} className="space-y-2">
+                  <div className="text-sm font-medium">
+                    {versionLabel(version)}
+                    {image && (
+                      <span className="text-muted-foreground font-normal">
+                        {' '}
+                        · {getImageLabel(image)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex justify-center bg-gray-50 rounded-lg p-2">
+                    {image ? (
+                      <AnnotatedImage
+                        image={image}
+                        images={images}
+                        parts={version.parts}
+                        highlighted={highlighted}
+                        className="max-h-[50vh]"
+                        markerSize="w-6 h-6"
+                      />
+                    ) : (
+                      noImage
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : beforeImage && afterImage ? (
+            <div className="space-y-2">
+              <div className="flex justify-center bg-gray-50 rounded-lg p-2">
+                <div className="relative inline-block">
+                  <ResponsiveImage
+                    image={beforeImage}
+                    alt={versionLabel(before)}
+                    className="block w-auto max-w-full max-h-[50vh] object-contain"
+                    draggable={false}
+                  />
+                  {/* Renders of the same framing line up when stretched over each other */}
+                  <div
+                    className="absolute inset-0"
+                    style={
+                      mode === 'onion-skin'
+                        ? { opacity: blend / 100 }
+                        : { clipPath: `inset(0 0 0 ${blend}%)` }
+                    }
+                  >
+                    <AnnotatedImage
+                      image={afterImage}
+                      images={afterImages}
+                      parts={after.parts}
+                      highlighted={highlightedAfter}
+                      fill
+                      markerSize="w-6 h-6"
+                    />
+                  </div>
+                  {mode === 'slider' && (
+                    <div
+                      className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none"
+                      style={{ left: `${blend}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-3 text-sm">
+                <span className="text-muted-foreground">
+                  {versionLabel(before)}
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={blend}
+                  onChange={(e) => setBlend(Number(e.target.value))}
+                  className="flex-1"
+                />
+                <span className="text-muted-foreground">
+                  {versionLabel(after)}
+                </span>
+              </div>
+            </div>
+          ) : (
+            noImage
+          )}
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">
+              Finish, color and texture changes ({changedParts.length})
+            </h4>
+            {changedParts.length > 0 ? (
+              <div className="space-y-2">
+                {changedParts.map(({ diff, changes }) => (
+                  <div
+                    key={diff.key}
+                    className="p-2 rounded border border-amber-200 bg-amber-50 text-sm"
+                  >
+                    <div className="font-medium">
+                      {diff.after?.name || diff.before?.name || 'Unnamed part'}
+                      {diff.kind === 'added' && (
+                        <span className="ml-2 text-xs text-green-700">
+                          New part
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap mt-1 text-xs">
+                      {changes.map(renderChange)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No finish, color or texture changes between these versions.
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  WorkflowRole,
+  allowedTransitions,
+  statusLabel,
+} from '@/lib/status-workflow'
+import { WorkflowStatus } from '@/types'
+
+const STATUS_STYLES: Record<WorkflowStatus, string> = {
+  draft: 'bg-gray-700/50 text-[#9ca3af]',
+  in_review: 'bg-blue-500/10 text-blue-400',
+  changes_requested: 'bg-orange-500/10 text-orange-400',
+  approved: 'bg-green-500/10 text-green-400',
+  rendered: 'bg-[#38bdbb]/10 text-[#38bdbb]',
+}
+
+export function WorkflowStatusBadge({
+  status,
+  className = '',
+}: {
+  status: WorkflowStatus
+  className?: string
+}) {
+  return (
+    <Badge
+      variant="outline"
+      className={`border-transparent ${STATUS_STYLES[status]} ${className}`}
+    >
+      {statusLabel(status)}
+    </Badge>
+  )
+}
+
+interface WorkflowStatusControlProps {
+  status: WorkflowStatus
+  role: WorkflowRole | null | undefined
+  onChange: (status: WorkflowStatus, comment?: string) => Promise<void>
+}
+
+/**
+ * Current status plus the moves the user's role allows from it. Requesting
+ * changes asks for a short comment for the log.
+ */
+export function WorkflowStatusControl({
+  status,
+  role,
+  onChange,
+}: WorkflowStatusControlProps) {
+  const [pending, setPending] = useState<WorkflowStatus | null>(null)
+  const [commentFor, setCommentFor] = useState<WorkflowStatus | null>(null)
+  const [comment, setComment] = useState('')
+  const transitions = allowedTransitions(status, role)
+
+  const submit = async (to: WorkflowStatus, note?: string) => {
+    setPending(to)
+    try {
+      await onChange(to, note)
+      setCommentFor(null)
+      setComment('')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <WorkflowStatusBadge status={status} />
+      {transitions.map((transition) => (
+        <Button
+          key={transition.to}
+          variant="outline"
+          size="sm"
+          disabled={pending !== null}
+          onClick={() =>
+            transition.to === 'changes_requested'
+              ? setCommentFor(transition.to)
+              : submit(transition.to)
+          }
+          className="h-7 px-2 text-xs"
+        >
+          {pending === transition.to ? 'Saving...' : transition.label}
+        </Button>
+      ))}
+      {commentFor && (
+        <div className="flex w-full items-center gap-2">
+          <input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="What needs to change?"
+            className="flex-1 rounded-md border px-2 py-1 text-xs"
+            autoFocus
+          />
+          <Button
+            size="sm"
+            disabled={pending !== null}
+            onClick={() => submit(commentFor, comment.trim() || undefined)}
+            className="h-7 px-2 text-xs"
+          >
+            Send
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setCommentFor(null)}
+            className="h-7 px-2 text-xs"
+          >
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import React from 'react'
+import { AlertTriangle, Loader2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import type { BoardEdit } from '../../types'
+
+export interface BoardEditsBannerProps {
+  /** Board edits the project doesn't have yet */
+  edits: BoardEdit[]
+  /** Cards whose item, version or part is gone from the project */
+  staleCount: number
+  isApplying?: boolean
+  error?: string | null
+  onApply: () => void
+  onRevert: () => void
+  /** Custom class name */
+  className?: string
+}
+
+const KIND_LABELS: Record<BoardEdit['binding']['kind'], string> = {
+  project: 'Project',
+  item: 'Item',
+  version: 'Version',
+  part: 'Part',
+}
+
+function describeEdit({ binding, projectValue, boardValue }: BoardEdit) {
+  if (binding.field === 'color') {
+    return `${KIND_LABELS[binding.kind]} color: ${projectValue || 'none'} → ${boardValue || 'none'}`
+  }
+  return `${KIND_LABELS[binding.kind]}: "${projectValue}" → "${boardValue}"`
+}
+
+/**
+ * BoardEditsBanner - Offers to write names and colors changed on the board
+ * back to the project, and points out cards the project no longer has
+ */
+export function BoardEditsBanner({
+  edits,
+  staleCount,
+  isApplying = false,
+  error,
+  onApply,
+  onRevert,
+  className = '',
+}: BoardEditsBannerProps) {
+  if (edits.length === 0 && staleCount === 0) return null
+
+  return (
+    <div
+      className={`bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 px-4 py-3 text-sm max-w-md ${className}`}
+    >
+      {edits.length > 0 && (
+        <div>
+          <p className="font-medium text-gray-900">
+            {edits.length === 1
+              ? '1 change on the board'
+              : `${edits.length} changes on the board`}{' '}
+            not in the project
+          </p>
+          <ul className="mt-1 text-gray-600 space-y-0.5">
+            {edits.slice(0, 3).map((edit) => (
+              <li key={edit.elementIds[0]} className="truncate">
+                {describeEdit(edit)}
+              </li>
+            ))}
+            {edits.length > 3 && <li>and {edits.length - 3} more</li>}
+          </ul>
+          {error && <p className="mt-1 text-red-600">{error}</p>}
+          <div className="mt-2 flex gap-2">
+            <Button
+              size="sm"
+              onClick={onApply}
+              disabled={isApplying}
+              className="bg-[#38bdbb] text-white hover:bg-[#2ea9a7]"
+            >
+              {isApplying && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Update project
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onRevert}
+              disabled={isApplying}
+            >
+              Revert
+            </Button>
+          </div>
+        </div>
+      )}
+      {staleCount > 0 && (
+        <p
+          className={`flex items-center gap-2 text-amber-700 ${edits.length > 0 ? 'mt-2' : ''}`}
+        >
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {staleCount === 1
+            ? '1 card shows something removed from the project'
+            : `${staleCount} cards show things removed from the project`}
+        </p>
+      )}
+    </div>
+  )
+}
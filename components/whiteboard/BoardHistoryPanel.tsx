@@ -0,0 +1,361 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Bookmark,
+  Copy,
+  Eye,
+  History,
+  Loader2,
+  Pencil,
+  RotateCcw,
+  Trash2,
+  X,
+} from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { ExcalidrawBoard } from './ExcalidrawBoard'
+import {
+  getBoardVersionLabel,
+  useBoardHistory,
+} from '../../hooks/useBoardHistory'
+import type { BoardVersion, BoardVersionWithSnapshot } from '../../types'
+
+type ExcalidrawImperativeAPI = any
+
+export interface BoardHistoryPanelProps {
+  /** The project ID this board belongs to */
+  projectId: string
+  /** The board whose history is shown */
+  boardId: string
+  /** The Excalidraw API of the open board */
+  api: ExcalidrawImperativeAPI | null
+  /** Send pending edits before a checkpoint or restore */
+  forceSave: () => Promise<boolean>
+  isOpen: boolean
+  onClose: () => void
+  /** Whether the user may add checkpoints, restore and fork (default: true) */
+  canEdit?: boolean
+}
+
+function describeAuthors(version: BoardVersion, users: Record<string, string>) {
+  const ids = version.created_by
+    ? [
+        version.created_by,
+        ...version.contributors.filter((id) => id !== version.created_by),
+      ]
+    : version.contributors
+  const names = ids.map((id) => users[id] || 'Unknown user')
+  if (names.length === 0) return null
+  if (names.length <= 2) return names.join(' and ')
+  return `${names[0]}, ${names[1]} and ${names.length - 2} more`
+}
+
+/**
+ * BoardHistoryPanel - The board's timeline of autosaves and checkpoints.
+ * A version can be previewed, restored, forked onto the board or named.
+ * Should be rendered inside a relatively positioned container around the
+ * board.
+ */
+export function BoardHistoryPanel({
+  projectId,
+  boardId,
+  api,
+  forceSave,
+  isOpen,
+  onClose,
+  canEdit = true,
+}: BoardHistoryPanelProps) {
+  const {
+    versions,
+    users,
+    loading,
+    working,
+    error,
+    createCheckpoint,
+    renameVersion,
+    deleteCheckpoint,
+    loadVersion,
+    restoreVersion,
+    forkVersion,
+  } = useBoardHistory(projectId, boardId, {
+    api,
+    forceSave,
+    enabled: isOpen,
+  })
+
+  const [checkpointName, setCheckpointName] = useState('')
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(
+    null
+  )
+  const [preview, setPreview] = useState<BoardVersionWithSnapshot | null>(null)
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+
+  if (!isOpen) return null
+
+  const handleCheckpoint = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!checkpointName.trim()) return
+    if (await createCheckpoint(checkpointName.trim())) setCheckpointName('')
+  }
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!editing || !editing.name.trim()) return
+    if (await renameVersion(editing.id, editing.name.trim())) setEditing(null)
+  }
+
+  const handlePreview = async (versionId: string) => {
+    setLoadingId(versionId)
+    const version = await loadVersion(versionId)
+    setLoadingId(null)
+    if (version) setPreview(version)
+  }
+
+  const handleRestore = async (version: BoardVersionWithSnapshot) => {
+    if (
+      !window.confirm(
+        `Restore the board to "${getBoardVersionLabel(version)}"? A checkpoint of the board as it is now is made first.`
+      )
+    ) {
+      return
+    }
+    if (await restoreVersion(version)) setPreview(null)
+  }
+
+  const handleFork = async (version: BoardVersionWithSnapshot) => {
+    if (await forkVersion(version)) setPreview(null)
+  }
+
+  const handleDelete = async (version: BoardVersion) => {
+    if (!window.confirm(`Delete the checkpoint "${version.name}"?`)) return
+    await deleteCheckpoint(version.id)
+  }
+
+  return (
+    <>
+      {preview && (
+        <div className="absolute inset-0 z-20 flex flex-col bg-white">
+          <div className="flex items-center justify-between gap-2 border-b border-gray-200 bg-amber-50 px-4 py-2 pr-[21rem] text-sm">
+            <p className="truncate text-amber-900">
+              Previewing <strong>{getBoardVersionLabel(preview)}</strong>
+              {preview.name && (
+                <span className="text-amber-700">
+                  {' '}
+                  · {new Date(preview.created_at).toLocaleString()}
+                </span>
+              )}
+            </p>
+            <div className="flex shrink-0 gap-2">
+              {canEdit && (
+                <>
+                  <Button
+                    size="sm"
+                    onClick={() => handleRestore(preview)}
+                    disabled={working}
+                    className="bg-[#38bdbb] text-white hover:bg-[#2ea9a7]"
+                  >
+                    {working ? (
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                    )}
+                    Restore
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleFork(preview)}
+                    disabled={working}
+                    title="Copy this version onto the board, next to what is there now"
+                  >
+                    <Copy className="h-4 w-4 mr-2" />
+                    Fork
+                  </Button>
+                </>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setPreview(null)}
+              >
+                Close preview
+              </Button>
+            </div>
+          </div>
+          <div className="relative flex-1">
+            <ExcalidrawBoard
+              key={preview.id}
+              projectId={projectId}
+              initialData={preview.snapshot}
+              readOnly
+              className="w-full h-full"
+            />
+          </div>
+        </div>
+      )}
+
+      <aside className="absolute top-0 right-0 bottom-0 z-30 flex w-80 flex-col border-l border-gray-200 bg-white shadow-lg">
+        <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+          <h2 className="flex items-center gap-2 font-medium text-gray-900">
+            <History className="h-4 w-4" />
+            History
+          </h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            title="Close history"
+            className="h-8 w-8 p-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {canEdit && (
+          <form
+            onSubmit={handleCheckpoint}
+            className="flex gap-2 border-b border-gray-200 px-4 py-3"
+          >
+            <Input
+              value={checkpointName}
+              onChange={(event) => setCheckpointName(event.target.value)}
+              placeholder="Name this version"
+              maxLength={100}
+              disabled={working}
+            />
+            <Button
+              type="submit"
+              size="sm"
+              disabled={working || !checkpointName.trim()}
+              title="Add checkpoint"
+              className="bg-[#38bdbb] text-white hover:bg-[#2ea9a7]"
+            >
+              <Bookmark className="h-4 w-4" />
+            </Button>
+          </form>
+        )}
+
+        {error && <p className="px-4 py-2 text-sm text-red-600">{error}</p>}
+
+        <ol className="flex-1 overflow-y-auto">
+          {loading && versions.length === 0 ? (
+            <li className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </li>
+          ) : versions.length === 0 ? (
+            <li className="px-4 py-8 text-center text-sm text-gray-500">
+              No versions yet. The board is saved to its history every few
+              minutes while it is edited.
+            </li>
+          ) : (
+            versions.map((version) => {
+              const authors = describeAuthors(version, users)
+              const isPreviewed = preview?.id === version.id
+              return (
+                <li
+                  key={version.id}
+                  className={`group border-b border-gray-100 px-4 py-3 text-sm ${isPreviewed ? 'bg-[#38bdbb]/10' : 'hover:bg-gray-50'}`}
+                >
+                  {editing?.id === version.id ? (
+                    <form onSubmit={handleRename} className="flex gap-2">
+                      <Input
+                        autoFocus
+                        value={editing.name}
+                        onChange={(event) =>
+                          setEditing({
+                            id: version.id,
+                            name: event.target.value,
+                          })
+                        }
+                        onKeyDown={(event) => {
+                          if (event.key === 'Escape') setEditing(null)
+                        }}
+                        maxLength={100}
+                        disabled={working}
+                      />
+                      <Button
+                        type="submit"
+                        size="sm"
+                        disabled={working || !editing.name.trim()}
+                      >
+                        Save
+                      </Button>
+                    </form>
+                  ) : (
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p
+                          className={`truncate ${version.name ? 'font-medium text-gray-900' : 'text-gray-700'}`}
+                        >
+                          {version.name && (
+                            <Bookmark className="mr-1 inline h-3.5 w-3.5 text-[#38bdbb]" />
+                          )}
+                          {version.name || 'Autosave'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(version.created_at).toLocaleString()}
+                        </p>
+                        {authors && (
+                          <p className="truncate text-xs text-gray-500">
+                            {authors}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handlePreview(version.id)}
+                          disabled={loadingId !== null}
+                          title="Preview"
+                          className="h-7 w-7 p-0"
+                        >
+                          {loadingId === version.id ? (
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                          ) : (
+                            <Eye className="h-3.5 w-3.5" />
+                          )}
+                        </Button>
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setEditing({
+                                id: version.id,
+                                name: version.name || '',
+                              })
+                            }
+                            title={
+                              version.name ? 'Rename' : 'Name this version'
+                            }
+                            className="h-7 w-7 p-0"
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                        {canEdit && version.name && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(version)}
+                            disabled={working}
+                            title="Delete checkpoint"
+                            className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </li>
+              )
+            })
+          )}
+        </ol>
+      </aside>
+    </>
+  )
+}
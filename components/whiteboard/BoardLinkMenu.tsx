@@ -0,0 +1,164 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  ChevronDown,
+  Link2,
+  LayoutDashboard,
+  Package,
+  Unlink,
+} from 'lucide-react'
+import { Button } from '../ui/button'
+import {
+  getBoardLink,
+  getItemLink,
+  setElementLinks,
+} from '../../lib/board-links'
+import { mergeElements } from '../../lib/board-sync'
+import type { BoardSummary, Item } from '../../types'
+
+type ExcalidrawImperativeAPI = any
+
+export interface BoardLinkMenuProps {
+  /** The Excalidraw API of the open board */
+  api: ExcalidrawImperativeAPI | null
+  projectId: string
+  /** The project's boards; the open one is left out */
+  boards: BoardSummary[]
+  currentBoardId: string
+  /** The project's items */
+  items?: Item[]
+  disabled?: boolean
+  className?: string
+}
+
+function getSelectedIds(api: ExcalidrawImperativeAPI | null): string[] {
+  if (!api) return []
+  const selected: Record<string, boolean> =
+    api.getAppState().selectedElementIds || {}
+  return Object.keys(selected).filter((id) => selected[id])
+}
+
+/**
+ * BoardLinkMenu - Links the selected elements to another board or to one
+ * of the project's items (see lib/board-links.ts), or removes their links.
+ * The change is an ordinary edit, so it is saved and synced like one.
+ */
+export function BoardLinkMenu({
+  api,
+  projectId,
+  boards,
+  currentBoardId,
+  items = [],
+  disabled = false,
+  className = '',
+}: BoardLinkMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const otherBoards = boards.filter((board) => board.id !== currentBoardId)
+
+  const handleOpen = () => {
+    setSelectedIds(getSelectedIds(api))
+    setIsOpen(!isOpen)
+  }
+
+  const applyLink = (link: string | null) => {
+    setIsOpen(false)
+    if (!api) return
+    const elements = api.getSceneElementsIncludingDeleted()
+    const linked = setElementLinks(elements, selectedIds, link)
+    if (linked.length > 0)
+      api.updateScene({ elements: mergeElements(elements, linked) })
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleOpen}
+        disabled={disabled || !api}
+        className="gap-1 h-8 sm:h-9 px-2"
+        title="Link selection to a board or item"
+      >
+        <Link2 className="h-4 w-4" />
+        <ChevronDown className="h-3 w-3" />
+      </Button>
+
+      {isOpen && (
+        <>
+          {/* Backdrop to close menu */}
+          <div
+            className="fixed inset-0 z-40"
+            onClick={() => setIsOpen(false)}
+          />
+
+          {/* Menu */}
+          <div className="absolute right-0 mt-2 w-64 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50 max-h-96 overflow-y-auto">
+            {selectedIds.length === 0 ? (
+              <p className="px-4 py-2 text-sm text-gray-500">
+                Select elements on the board to link them
+              </p>
+            ) : (
+              <>
+                <div className="px-4 py-1 text-xs font-medium text-gray-400 uppercase">
+                  Link to board
+                </div>
+                {otherBoards.length === 0 && (
+                  <p className="px-4 py-1 text-sm text-gray-400">
+                    No other boards
+                  </p>
+                )}
+                {otherBoards.map((board) => (
+                  <button
+                    key={board.id}
+                    onClick={() => applyLink(getBoardLink(projectId, board.id))}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-3"
+                  >
+                    <LayoutDashboard className="h-4 w-4 text-blue-600 shrink-0" />
+                    <span className="truncate">{board.name}</span>
+                  </button>
+                ))}
+
+                {items.length > 0 && (
+                  <>
+                    <div className="border-t border-gray-100 my-1" />
+                    <div className="px-4 py-1 text-xs font-medium text-gray-400 uppercase">
+                      Link to item
+                    </div>
+                    {items.map((item, index) => (
+                      <button
+                        key={item.id}
+                        onClick={() =>
+                          applyLink(getItemLink(projectId, item.id))
+                        }
+                        className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-3"
+                      >
+                        <Package className="h-4 w-4 text-green-600 shrink-0" />
+                        <span className="truncate">
+                          {item.name || `Item ${index + 1}`}
+                        </span>
+                      </button>
+                    ))}
+                  </>
+                )}
+
+                <div className="border-t border-gray-100 my-1" />
+                <button
+                  onClick={() => applyLink(null)}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-3"
+                >
+                  <Unlink className="h-4 w-4 text-gray-500 shrink-0" />
+                  Remove link
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default BoardLinkMenu
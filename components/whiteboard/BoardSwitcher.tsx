@@ -0,0 +1,368 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  ArrowDown,
+  ArrowUp,
+  Check,
+  ChevronDown,
+  LayoutDashboard,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+} from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import type {
+  BoardEditPermission,
+  BoardList,
+  BoardSummary,
+  BoardViewPermission,
+} from '../../types'
+
+export interface BoardSwitcherProps {
+  /** The project's boards the user can open, in order */
+  boards: BoardSummary[]
+  /** The user's permission on the project */
+  permission: BoardList['permission'] | null
+  /** The board that is open */
+  currentBoardId: string
+  /** The signed-in user, who can delete boards they created */
+  currentUserId?: string
+  onSelect: (boardId: string) => void
+  /** Add a board; returns it, or null when it couldn't be added */
+  onCreate: (name: string) => Promise<BoardSummary | null>
+  onRename: (boardId: string, name: string) => Promise<boolean>
+  onMove: (boardId: string, offset: -1 | 1) => Promise<boolean>
+  onDelete: (boardId: string) => Promise<boolean>
+  onPermissionsChange: (
+    boardId: string,
+    permissions: {
+      view_permission?: BoardViewPermission
+      edit_permission?: BoardEditPermission
+    }
+  ) => Promise<boolean>
+  /** Error from the last board change */
+  error?: string | null
+  disabled?: boolean
+  className?: string
+}
+
+const VIEW_PERMISSIONS: { value: BoardViewPermission; label: string }[] = [
+  { value: 'view', label: 'Everyone' },
+  { value: 'edit', label: 'Editors' },
+  { value: 'admin', label: 'Admins' },
+]
+
+const EDIT_PERMISSIONS: { value: BoardEditPermission; label: string }[] = [
+  { value: 'edit', label: 'Editors' },
+  { value: 'admin', label: 'Admins' },
+  { value: 'owner', label: 'Owner' },
+]
+
+/**
+ * BoardSwitcher - Dropdown listing the project's boards. Editors can add,
+ * rename and reorder boards; admins set who can open and edit each one.
+ * The main board, whose id is the project's, can't be deleted.
+ */
+export function BoardSwitcher({
+  boards,
+  permission,
+  currentBoardId,
+  currentUserId,
+  onSelect,
+  onCreate,
+  onRename,
+  onMove,
+  onDelete,
+  onPermissionsChange,
+  error,
+  disabled = false,
+  className = '',
+}: BoardSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(
+    null
+  )
+  const [working, setWorking] = useState(false)
+
+  const current = boards.find((board) => board.id === currentBoardId)
+  const canEditProject = permission !== null && permission !== 'view'
+  const isAdmin = permission === 'owner' || permission === 'admin'
+
+  const work = async (action: () => Promise<unknown>) => {
+    setWorking(true)
+    try {
+      await action()
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleSelect = (boardId: string) => {
+    setIsOpen(false)
+    setEditing(null)
+    if (boardId !== currentBoardId) onSelect(boardId)
+  }
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!newName.trim()) return
+    work(async () => {
+      const board = await onCreate(newName.trim())
+      if (board) {
+        setNewName('')
+        handleSelect(board.id)
+      }
+    })
+  }
+
+  const handleRename = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!editing || !editing.name.trim()) return
+    work(async () => {
+      if (await onRename(editing.id, editing.name.trim())) setEditing(null)
+    })
+  }
+
+  const handleDelete = (board: BoardSummary) => {
+    if (
+      !window.confirm(
+        `Delete "${board.name}" with its history? This can't be undone.`
+      )
+    ) {
+      return
+    }
+    work(async () => {
+      if ((await onDelete(board.id)) && board.id === currentBoardId) {
+        const next = boards.find((entry) => entry.id !== board.id)
+        if (next) handleSelect(next.id)
+      }
+    })
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="gap-2 max-w-[12rem] h-8 sm:h-9"
+        title="Switch board"
+      >
+        <LayoutDashboard className="h-4 w-4 shrink-0" />
+        <span className="truncate">{current?.name || 'Board'}</span>
+        <ChevronDown className="h-3 w-3 shrink-0" />
+      </Button>
+
+      {isOpen && (
+        <>
+          {/* Backdrop to close menu */}
+          <div
+            className="fixed inset-0 z-40"
+            onClick={() => {
+              setIsOpen(false)
+              setEditing(null)
+            }}
+          />
+
+          {/* Menu */}
+          <div className="absolute left-0 mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50">
+            <div className="max-h-72 overflow-y-auto">
+              {boards.map((board, index) =>
+                editing?.id === board.id ? (
+                  <form
+                    key={board.id}
+                    onSubmit={handleRename}
+                    className="flex items-center gap-1 px-3 py-1.5"
+                  >
+                    <Input
+                      autoFocus
+                      value={editing.name}
+                      onChange={(event) =>
+                        setEditing({ ...editing, name: event.target.value })
+                      }
+                      maxLength={100}
+                      className="h-8 text-sm"
+                    />
+                    <Button
+                      type="submit"
+                      size="sm"
+                      variant="ghost"
+                      disabled={working}
+                      className="h-8 w-8 p-0"
+                      title="Save name"
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <div
+                    key={board.id}
+                    className={`group flex items-center gap-1 px-3 py-1.5 text-sm hover:bg-gray-100 ${
+                      board.id === currentBoardId ? 'bg-gray-50' : ''
+                    }`}
+                  >
+                    <button
+                      onClick={() => handleSelect(board.id)}
+                      className="flex-1 min-w-0 text-left text-gray-700 truncate"
+                    >
+                      <span
+                        className={
+                          board.id === currentBoardId ? 'font-medium' : ''
+                        }
+                      >
+                        {board.name}
+                      </span>
+                      {!board.can_edit && (
+                        <span className="ml-2 text-xs text-gray-400">
+                          View only
+                        </span>
+                      )}
+                    </button>
+                    {canEditProject && (
+                      <div className="flex items-center opacity-0 group-hover:opacity-100">
+                        <button
+                          onClick={() => work(() => onMove(board.id, -1))}
+                          disabled={working || index === 0}
+                          className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                          title="Move up"
+                        >
+                          <ArrowUp className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => work(() => onMove(board.id, 1))}
+                          disabled={working || index === boards.length - 1}
+                          className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                          title="Move down"
+                        >
+                          <ArrowDown className="h-3.5 w-3.5" />
+                        </button>
+                        {board.can_edit && (
+                          <button
+                            onClick={() =>
+                              setEditing({ id: board.id, name: board.name })
+                            }
+                            className="p-1 text-gray-400 hover:text-gray-700"
+                            title="Rename"
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                        {board.id !== board.project_id &&
+                          board.can_edit &&
+                          (isAdmin || board.created_by === currentUserId) && (
+                            <button
+                              onClick={() => handleDelete(board)}
+                              disabled={working}
+                              className="p-1 text-gray-400 hover:text-red-600"
+                              title="Delete board"
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </button>
+                          )}
+                      </div>
+                    )}
+                  </div>
+                )
+              )}
+            </div>
+
+            {isAdmin && current && (
+              <>
+                <div className="border-t border-gray-100 my-1" />
+                <div className="px-3 py-1.5 space-y-1.5 text-xs text-gray-600">
+                  <label className="flex items-center justify-between gap-2">
+                    Who can open this board
+                    <select
+                      value={current.view_permission}
+                      onChange={(event) =>
+                        work(() =>
+                          onPermissionsChange(current.id, {
+                            view_permission: event.target
+                              .value as BoardViewPermission,
+                          })
+                        )
+                      }
+                      disabled={working}
+                      className="border border-gray-200 rounded px-1 py-0.5 text-gray-700"
+                    >
+                      {VIEW_PERMISSIONS.map(({ value, label }) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center justify-between gap-2">
+                    Who can edit it
+                    <select
+                      value={current.edit_permission}
+                      onChange={(event) =>
+                        work(() =>
+                          onPermissionsChange(current.id, {
+                            edit_permission: event.target
+                              .value as BoardEditPermission,
+                          })
+                        )
+                      }
+                      disabled={working}
+                      className="border border-gray-200 rounded px-1 py-0.5 text-gray-700"
+                    >
+                      {EDIT_PERMISSIONS.map(({ value, label }) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </>
+            )}
+
+            {canEditProject && (
+              <>
+                <div className="border-t border-gray-100 my-1" />
+                <form
+                  onSubmit={handleCreate}
+                  className="flex items-center gap-1 px-3 py-1.5"
+                >
+                  <Input
+                    value={newName}
+                    onChange={(event) => setNewName(event.target.value)}
+                    placeholder="New board name"
+                    maxLength={100}
+                    className="h-8 text-sm"
+                  />
+                  <Button
+                    type="submit"
+                    size="sm"
+                    variant="ghost"
+                    disabled={working || !newName.trim()}
+                    className="h-8 w-8 p-0"
+                    title="Add board"
+                  >
+                    {working ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Plus className="h-4 w-4" />
+                    )}
+                  </Button>
+                </form>
+              </>
+            )}
+
+            {error && (
+              <p className="px-3 py-1.5 text-xs text-red-600">{error}</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default BoardSwitcher
@@ -12,6 +12,7 @@ import {
 } from 'tldraw'
 import { useSync } from '@tldraw/sync'
 import 'tldraw/tldraw.css'
+import { supabase } from '@/lib/supaClient'
 
 // Use the correct snapshot type from tldraw
 export type TLStoreSnapshot = StoreSnapshot<TLRecord>
@@ -148,9 +149,21 @@ function BoardRenderer({
 function SyncedBoard(props: CoreRenderBoardProps) {
   const { syncServerUrl, projectId, assetStore } = props
   
+  // The sync server checks the user's access to the project. Browsers can't
+  // set headers on a WebSocket, so the access token goes in the URL; it is
+  // read again on every reconnect, after Supabase has refreshed it.
+  const getSyncUri = useCallback(async () => {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    const url = new URL(`${syncServerUrl}/connect/${projectId}`)
+    if (session) url.searchParams.set('token', session.access_token)
+    return url.toString()
+  }, [syncServerUrl, projectId])
+
   // Always call useSync hook (React rules require hooks to be called unconditionally)
   const syncStore = useSync({
-    uri: `${syncServerUrl}/connect/${projectId}`,
+    uri: getSyncUri,
     assets: assetStore!,
   })
 
@@ -69,6 +69,8 @@ export interface ExcalidrawBoardProps {
   isCollaborating?: boolean
   /** Callback when the collaboration trigger is clicked */
   onCollaborationTrigger?: () => void
+  /** Callback when an element's link is opened; call event.preventDefault() to handle it here */
+  onLinkOpen?: (element: ExcalidrawElement, event: CustomEvent<{ nativeEvent: MouseEvent | React.PointerEvent<HTMLCanvasElement> }>) => void
 }
 
 export interface ExcalidrawBoardRef {
@@ -105,6 +107,7 @@ export const ExcalidrawBoard = forwardRef<ExcalidrawBoardRef, ExcalidrawBoardPro
       debounceMs = 1000,
       isCollaborating = false,
       onCollaborationTrigger,
+      onLinkOpen,
     },
     ref
   ) {
@@ -329,6 +332,7 @@ export const ExcalidrawBoard = forwardRef<ExcalidrawBoardRef, ExcalidrawBoardPro
             }}
             onChange={handleChange}
             onPointerUpdate={onPointerUpdate}
+            onLinkOpen={onLinkOpen}
             viewModeEnabled={readOnly}
             zenModeEnabled={false}
             gridModeEnabled={false}
@@ -10,6 +10,20 @@ export type {
 export { ExportMenu } from './ExportMenu'
 export type { ExportMenuProps } from './ExportMenu'
 
+// Project binding banner
+export { BoardEditsBanner } from './BoardEditsBanner'
+export type { BoardEditsBannerProps } from './BoardEditsBanner'
+
+// Version history
+export { BoardHistoryPanel } from './BoardHistoryPanel'
+export type { BoardHistoryPanelProps } from './BoardHistoryPanel'
+
+// Boards and links between them
+export { BoardSwitcher } from './BoardSwitcher'
+export type { BoardSwitcherProps } from './BoardSwitcher'
+export { BoardLinkMenu } from './BoardLinkMenu'
+export type { BoardLinkMenuProps } from './BoardLinkMenu'
+
 // Board Initialization
 export { 
   initializeProjectBoard,
@@ -3,7 +3,8 @@
  * 
  * Functions to initialize an Excalidraw board with project data.
  * Creates a visual layout of items, versions, and parts.
- * Supports loading hero images from items.
+ * Supports loading hero images from items. A board that already has
+ * content is brought up to date instead of replaced.
  */
 
 // Flexible types for Excalidraw
@@ -17,10 +18,13 @@ import {
   generateProjectBoardLayoutWithImages,
   isBoardEmpty,
   getElementsBounds,
+  mergeProjectLayout,
 } from '../../lib/excalidraw-utils'
+import { mergeElements } from '../../lib/board-sync'
+import { syncBoardWithProject } from '../../lib/board-bindings'
 
 export interface InitializeBoardOptions {
-  /** Force regeneration even if board has content */
+  /** Replace the board's content instead of adding what it is missing */
   force?: boolean
   /** Theme for the board */
   theme?: 'light' | 'dark'
@@ -31,7 +35,8 @@ export interface InitializeBoardOptions {
 }
 
 /**
- * Initialize board with project data if it's empty (sync version, no images)
+ * Initialize board with project data (sync version, no images). A board
+ * with content gets the cards it is missing.
  */
 export function initializeProjectBoard(
   project: Project,
@@ -41,7 +46,7 @@ export function initializeProjectBoard(
   const { force = false, theme = 'light' } = options
 
   if (!force && existingSnapshot && !isBoardEmpty(existingSnapshot.elements)) {
-    return existingSnapshot
+    return mergeProjectDataWithBoard(project, existingSnapshot)
   }
 
   if (!project.items || project.items.length === 0) {
@@ -85,7 +90,8 @@ export async function initializeProjectBoardWithImages(
   const { force = false, theme = 'light' } = options
 
   if (!force && existingSnapshot && !isBoardEmpty(existingSnapshot.elements)) {
-    return existingSnapshot
+    const generated = await generateProjectBoardLayoutWithImages(project)
+    return mergeLayout(project, existingSnapshot, generated.elements, generated.files)
   }
 
   if (!project.items || project.items.length === 0) {
@@ -118,11 +124,41 @@ export async function initializeProjectBoardWithImages(
   }
 }
 
+function mergeLayout(
+  project: Project,
+  existingSnapshot: ExcalidrawSnapshot,
+  generated: ExcalidrawElement[],
+  generatedFiles: BinaryFiles
+): ExcalidrawSnapshot {
+  const changed = syncBoardWithProject(existingSnapshot.elements, project)
+  const synced = mergeElements(existingSnapshot.elements, changed)
+  const added = mergeProjectLayout(synced, generated)
+  if (added.length === 0 && changed.length === 0) return existingSnapshot
+
+  // Only the images of cards that were added
+  const files: BinaryFiles = { ...existingSnapshot.files }
+  added.forEach(el => {
+    if (el.fileId && generatedFiles[el.fileId]) files[el.fileId] = generatedFiles[el.fileId]
+  })
+
+  return {
+    ...existingSnapshot,
+    elements: [...synced, ...added],
+    files,
+  }
+}
+
+/**
+ * `existingSnapshot` brought up to date with the project: bound cards show
+ * the project's current values, and cards for items, versions and parts
+ * added since are placed next to the ones already on the board. Nothing
+ * already on the board is removed or moved.
+ */
 export function mergeProjectDataWithBoard(
   project: Project,
   existingSnapshot: ExcalidrawSnapshot
 ): ExcalidrawSnapshot {
-  return existingSnapshot
+  return mergeLayout(project, existingSnapshot, generateProjectBoardLayout(project), {})
 }
 
 export function shouldInitializeBoard(
@@ -0,0 +1,59 @@
+-- ============================================================================
+-- BOARD HISTORY - Whiteboard versions and named checkpoints
+-- ============================================================================
+-- project_boards keeps only the latest board. This adds a history of past
+-- states: the API records a version of the board every ten minutes while
+-- people are editing and whenever it folds the operations log into the
+-- snapshot, and keeps the latest 100 of those. Checkpoints are versions
+-- someone named ("Client review 1"); they are kept until deleted.
+--
+-- A version holds the board's elements and settings at an operation seq.
+-- Image files aren't copied: files are only ever added to a board, so the
+-- board's own files cover every version. `contributors` are the users whose
+-- saves went into the version since the one before it.
+--
+-- Run after docs/add-board-operations.sql.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Create the project_board_versions table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS project_board_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  seq BIGINT NOT NULL, -- Latest operation the version includes
+  name TEXT, -- Set for checkpoints
+  elements JSONB NOT NULL DEFAULT '[]',
+  app_state JSONB NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  contributors UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 2: Indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_project_board_versions_project
+  ON project_board_versions(project_id, created_at DESC);
+
+-- One automatic version per seq, so two saves racing record it once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_board_versions_auto_seq
+  ON project_board_versions(project_id, seq)
+  WHERE name IS NULL;
+
+-- Step 3: Enable Row Level Security (RLS)
+-- ============================================================================
+-- Versions are written and read by the API routes with the service role.
+ALTER TABLE project_board_versions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+-- SELECT project_id, seq, name, created_by, contributors, created_at
+-- FROM project_board_versions
+-- ORDER BY created_at DESC;
+-- ============================================================================
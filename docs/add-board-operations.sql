@@ -0,0 +1,123 @@
+-- ============================================================================
+-- BOARD OPERATIONS - Incremental whiteboard sync
+-- ============================================================================
+-- Whiteboard edits are no longer saved as whole snapshots. Each client
+-- sends the elements it changed as an operation to /api/project/{id}/board
+-- (see lib/board-operations.ts); operations are numbered per project and
+-- merged element by element (higher version wins, see lib/board-sync.ts),
+-- so concurrent edits by different people no longer overwrite each other.
+-- The API folds operations into project_boards.board_snapshot every few
+-- hundred operations and deletes the folded ones.
+--
+-- Run after docs/create-project-boards-table.sql.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Track operations on project_boards
+-- ============================================================================
+-- last_seq: number of the latest operation
+-- snapshot_seq: latest operation folded into board_snapshot
+ALTER TABLE project_boards
+  ADD COLUMN IF NOT EXISTS last_seq BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS snapshot_seq BIGINT NOT NULL DEFAULT 0;
+
+-- Step 2: Create the project_board_operations table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS project_board_operations (
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  seq BIGINT NOT NULL,
+  id UUID NOT NULL UNIQUE, -- Chosen by the client, so a retried send is ignored
+  client_id TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  elements JSONB NOT NULL DEFAULT '[]',
+  files JSONB,
+  app_state JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (project_id, seq)
+);
+
+-- Step 3: Enable Row Level Security (RLS)
+-- ============================================================================
+-- Operations are written and read by the API routes with the service role.
+ALTER TABLE project_board_operations ENABLE ROW LEVEL SECURITY;
+
+-- Step 4: Append operations in order
+-- ============================================================================
+-- The board row is locked while operations are numbered, so operations
+-- become visible in seq order: a client that has seen seq N has seen every
+-- operation before it. Operations whose id is already stored are skipped.
+CREATE OR REPLACE FUNCTION append_board_operations(
+  p_project_id UUID,
+  p_user_id UUID,
+  p_client_id TEXT,
+  p_operations JSONB
+)
+RETURNS TABLE (
+  last_seq BIGINT,
+  snapshot_seq BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_seq BIGINT;
+  v_snapshot_seq BIGINT;
+  v_operation JSONB;
+BEGIN
+  INSERT INTO project_boards (project_id, board_snapshot)
+  VALUES (p_project_id, '{}')
+  ON CONFLICT ON CONSTRAINT project_boards_pkey DO NOTHING;
+
+  SELECT pb.last_seq, pb.snapshot_seq
+  INTO v_last_seq, v_snapshot_seq
+  FROM project_boards pb
+  WHERE pb.project_id = p_project_id
+  FOR UPDATE;
+
+  FOR v_operation IN SELECT * FROM jsonb_array_elements(p_operations)
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM project_board_operations o
+      WHERE o.id = (v_operation->>'id')::UUID
+    ) THEN
+      v_last_seq := v_last_seq + 1;
+      INSERT INTO project_board_operations (
+        project_id, seq, id, client_id, user_id, elements, files, app_state
+      )
+      VALUES (
+        p_project_id,
+        v_last_seq,
+        (v_operation->>'id')::UUID,
+        p_client_id,
+        p_user_id,
+        COALESCE(v_operation->'elements', '[]'),
+        v_operation->'files',
+        v_operation->'app_state'
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE project_boards pb
+  SET last_seq = v_last_seq, updated_at = NOW()
+  WHERE pb.project_id = p_project_id;
+
+  RETURN QUERY SELECT v_last_seq, v_snapshot_seq;
+END;
+$$;
+
+-- Only the API calls this, after checking edit access
+REVOKE EXECUTE ON FUNCTION append_board_operations(UUID, UUID, TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION append_board_operations(UUID, UUID, TEXT, JSONB) TO service_role;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+-- SELECT project_id, last_seq, snapshot_seq FROM project_boards;
+-- SELECT project_id, count(*) FROM project_board_operations GROUP BY project_id;
+-- ============================================================================
@@ -0,0 +1,31 @@
+-- ============================================================================
+-- WHITEBOARD PROJECT SYNC - Realtime project updates
+-- ============================================================================
+-- Cards on a whiteboard stay bound to the items, versions and parts they
+-- show. When someone renames a part or changes its color in the item
+-- editor, open boards follow along as soon as the project row changes.
+-- That needs `projects` in the supabase_realtime publication. Realtime
+-- applies the same row level security as reads, so only the owner and
+-- collaborators receive a project's updates.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Enable realtime for projects
+-- ============================================================================
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE projects;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+-- SELECT tablename FROM pg_publication_tables
+-- WHERE pubname = 'supabase_realtime' AND tablename = 'projects';
+-- ============================================================================
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- IMAGE DERIVATIVES - Thumbnail, preview and full-size copies of uploads
+-- ============================================================================
+-- Uploads get resized WebP, AVIF and JPEG copies under derivatives/ in the
+-- same bucket (see lib/image-processing.ts). The buckets already accept
+-- WebP and JPEG; this script adds AVIF. Their metadata (dimensions,
+-- blurhash, URLs) is stored with the image in projects.items or in the
+-- board asset, so no table is needed.
+--
+-- Run after docs/create-upload-sessions.sql.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+UPDATE storage.buckets
+SET allowed_mime_types = array_append(allowed_mime_types, 'image/avif')
+WHERE id IN ('project-files', 'board-assets')
+  AND allowed_mime_types IS NOT NULL
+  AND NOT ('image/avif' = ANY(allowed_mime_types));
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+-- SELECT id, allowed_mime_types FROM storage.buckets
+-- WHERE id IN ('project-files', 'board-assets');
+-- ============================================================================
@@ -0,0 +1,383 @@
+-- ============================================================================
+-- MULTIPLE BOARDS - Several whiteboards per project
+-- ============================================================================
+-- A project can have several boards (moodboard, layout, a detail board per
+-- item...), each with a name, a place in the board switcher and its own
+-- permissions. project_boards rows get their own id; the operations log
+-- and the history are kept per board.
+--
+-- The board a project had so far becomes its main board and keeps the
+-- project's id as its board id. /api/project/{id}/board, the tldraw sync
+-- server and edits left unsent in browsers from before this script all
+-- refer to the board by the project's id, so they keep working. The main
+-- board can be renamed and moved, not deleted.
+--
+-- Permissions are the minimum project permission (view, edit, admin,
+-- owner) needed to open a board and to edit it. By default everyone with
+-- access to the project can open a board, and editors can edit it. The
+-- API checks them with the service role; the RLS policies and the
+-- project-level board functions below check them for everyone else, and
+-- only project admins can change them.
+--
+-- Run after docs/add-board-operations.sql, docs/add-board-history.sql and
+-- docs/add-tldraw-sync-server.sql.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Give boards an id, a name, a position and permissions
+-- ============================================================================
+ALTER TABLE project_boards
+  ADD COLUMN IF NOT EXISTS id UUID,
+  ADD COLUMN IF NOT EXISTS name TEXT NOT NULL DEFAULT 'Board',
+  ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS view_permission TEXT NOT NULL DEFAULT 'view'
+    CHECK (view_permission IN ('view', 'edit', 'admin')),
+  ADD COLUMN IF NOT EXISTS edit_permission TEXT NOT NULL DEFAULT 'edit'
+    CHECK (edit_permission IN ('edit', 'admin', 'owner')),
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Existing boards become their project's main board
+UPDATE project_boards SET id = project_id, name = 'Main board' WHERE id IS NULL;
+
+ALTER TABLE project_boards
+  ALTER COLUMN id SET DEFAULT gen_random_uuid(),
+  ALTER COLUMN id SET NOT NULL;
+
+-- One project can now have several rows
+ALTER TABLE project_boards DROP CONSTRAINT IF EXISTS project_boards_pkey;
+ALTER TABLE project_boards ADD CONSTRAINT project_boards_pkey PRIMARY KEY (id);
+
+CREATE INDEX IF NOT EXISTS idx_project_boards_project_position
+  ON project_boards(project_id, position);
+
+-- Step 2: Keep operations per board
+-- ============================================================================
+ALTER TABLE project_board_operations
+  ADD COLUMN IF NOT EXISTS board_id UUID REFERENCES project_boards(id) ON DELETE CASCADE;
+
+UPDATE project_board_operations SET board_id = project_id WHERE board_id IS NULL;
+
+ALTER TABLE project_board_operations ALTER COLUMN board_id SET NOT NULL;
+ALTER TABLE project_board_operations DROP CONSTRAINT IF EXISTS project_board_operations_pkey;
+ALTER TABLE project_board_operations
+  ADD CONSTRAINT project_board_operations_pkey PRIMARY KEY (board_id, seq);
+
+-- Step 3: Keep history per board
+-- ============================================================================
+ALTER TABLE project_board_versions
+  ADD COLUMN IF NOT EXISTS board_id UUID REFERENCES project_boards(id) ON DELETE CASCADE;
+
+UPDATE project_board_versions SET board_id = project_id WHERE board_id IS NULL;
+
+ALTER TABLE project_board_versions ALTER COLUMN board_id SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_project_board_versions_project;
+DROP INDEX IF EXISTS idx_project_board_versions_auto_seq;
+CREATE INDEX IF NOT EXISTS idx_project_board_versions_board_created
+  ON project_board_versions(board_id, created_at DESC);
+-- One automatic version per board seq
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_board_versions_board_auto_seq
+  ON project_board_versions(board_id, seq) WHERE name IS NULL;
+
+-- Step 4: Append operations to a board
+-- ============================================================================
+-- As before, but for one board. Boards are created by the API, so an
+-- unknown board is an error rather than created here.
+DROP FUNCTION IF EXISTS append_board_operations(UUID, UUID, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION append_board_operations(
+  p_board_id UUID,
+  p_user_id UUID,
+  p_client_id TEXT,
+  p_operations JSONB
+)
+RETURNS TABLE (
+  last_seq BIGINT,
+  snapshot_seq BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_id UUID;
+  v_last_seq BIGINT;
+  v_snapshot_seq BIGINT;
+  v_operation JSONB;
+BEGIN
+  SELECT pb.project_id, pb.last_seq, pb.snapshot_seq
+  INTO v_project_id, v_last_seq, v_snapshot_seq
+  FROM project_boards pb
+  WHERE pb.id = p_board_id
+  FOR UPDATE;
+
+  IF v_project_id IS NULL THEN
+    RAISE EXCEPTION 'Board % not found', p_board_id;
+  END IF;
+
+  FOR v_operation IN SELECT * FROM jsonb_array_elements(p_operations)
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM project_board_operations o
+      WHERE o.id = (v_operation->>'id')::UUID
+    ) THEN
+      v_last_seq := v_last_seq + 1;
+      INSERT INTO project_board_operations (
+        project_id, board_id, seq, id, client_id, user_id, elements, files, app_state
+      )
+      VALUES (
+        v_project_id,
+        p_board_id,
+        v_last_seq,
+        (v_operation->>'id')::UUID,
+        p_client_id,
+        p_user_id,
+        COALESCE(v_operation->'elements', '[]'),
+        v_operation->'files',
+        v_operation->'app_state'
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE project_boards pb
+  SET last_seq = v_last_seq, updated_at = NOW()
+  WHERE pb.id = p_board_id;
+
+  RETURN QUERY SELECT v_last_seq, v_snapshot_seq;
+END;
+$$;
+
+-- Only the API calls this, after checking edit access
+REVOKE EXECUTE ON FUNCTION append_board_operations(UUID, UUID, TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION append_board_operations(UUID, UUID, TEXT, JSONB) TO service_role;
+
+-- Step 5: Board access helpers
+-- ============================================================================
+-- SECURITY DEFINER so the policies below don't recurse into the RLS of
+-- projects / project_collaborators.
+CREATE OR REPLACE FUNCTION permission_rank(p_permission TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_permission
+    WHEN 'owner' THEN 4
+    WHEN 'admin' THEN 3
+    WHEN 'edit' THEN 2
+    WHEN 'view' THEN 1
+    ELSE 0
+  END;
+$$;
+
+-- The signed-in user's permission on a project, 0 without access
+CREATE OR REPLACE FUNCTION user_permission_rank(p_project_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM projects
+      WHERE id = p_project_id AND user_id = auth.uid()
+    ) THEN 4
+    ELSE COALESCE((
+      SELECT permission_rank(permission_level) FROM project_collaborators
+      WHERE project_id = p_project_id AND user_id = auth.uid()
+      LIMIT 1
+    ), 0)
+  END;
+$$;
+
+-- Whether the signed-in user can open ('view') or edit ('edit') a board.
+-- Editing needs both permissions, as in lib/project-boards.ts. A main
+-- board that hasn't been created yet has the default permissions.
+CREATE OR REPLACE FUNCTION can_access_board(p_board_id UUID, p_required TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_board RECORD;
+  v_rank INTEGER;
+BEGIN
+  SELECT pb.project_id, pb.view_permission, pb.edit_permission
+  INTO v_board
+  FROM project_boards pb
+  WHERE pb.id = p_board_id;
+
+  IF NOT FOUND THEN
+    SELECT p_board_id AS project_id, 'view' AS view_permission, 'edit' AS edit_permission
+    INTO v_board;
+  END IF;
+
+  v_rank := user_permission_rank(v_board.project_id);
+
+  RETURN v_rank >= permission_rank(v_board.view_permission)
+    AND (p_required = 'view' OR v_rank >= permission_rank(v_board.edit_permission));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION user_permission_rank(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_access_board(UUID, TEXT) TO authenticated;
+
+-- Step 6: Point the project-level board functions at the main board
+-- ============================================================================
+-- Until now they found the board by project_id, which is no longer unique,
+-- and checked project access only, not the main board's permissions.
+CREATE OR REPLACE FUNCTION save_tldraw_board(
+  p_project_id UUID,
+  p_store JSONB,
+  p_schema JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO project_boards (id, project_id, name, board_snapshot)
+  VALUES (
+    p_project_id,
+    p_project_id,
+    'Main board',
+    jsonb_build_object('store', p_store, 'schema', p_schema)
+  )
+  ON CONFLICT ON CONSTRAINT project_boards_pkey DO UPDATE
+  SET board_snapshot = COALESCE(project_boards.board_snapshot, '{}')
+      || jsonb_build_object('store', p_store, 'schema', p_schema),
+    updated_at = NOW();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_or_create_project_board(p_project_id UUID)
+RETURNS TABLE (
+  project_id UUID,
+  board_snapshot JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT can_access_board(p_project_id, 'view') THEN
+    RAISE EXCEPTION 'Access denied to board';
+  END IF;
+
+  INSERT INTO project_boards (id, project_id, name, board_snapshot)
+  VALUES (p_project_id, p_project_id, 'Main board', '{}')
+  ON CONFLICT ON CONSTRAINT project_boards_pkey DO NOTHING;
+
+  RETURN QUERY
+  SELECT pb.project_id, pb.board_snapshot, pb.created_at, pb.updated_at
+  FROM project_boards pb
+  WHERE pb.id = p_project_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_project_board(p_project_id UUID, p_snapshot JSONB)
+RETURNS TABLE (
+  project_id UUID,
+  board_snapshot JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT can_access_board(p_project_id, 'edit') THEN
+    RAISE EXCEPTION 'No edit access to board';
+  END IF;
+
+  INSERT INTO project_boards (id, project_id, name, board_snapshot)
+  VALUES (p_project_id, p_project_id, 'Main board', p_snapshot)
+  ON CONFLICT ON CONSTRAINT project_boards_pkey
+  DO UPDATE SET board_snapshot = p_snapshot, updated_at = NOW();
+
+  RETURN QUERY
+  SELECT pb.project_id, pb.board_snapshot, pb.created_at, pb.updated_at
+  FROM project_boards pb
+  WHERE pb.id = p_project_id;
+END;
+$$;
+
+-- Step 7: Check board permissions in the RLS policies
+-- ============================================================================
+-- Replaces the project-wide policies from docs/create-project-boards-table.sql.
+-- Boards are created through the API and the functions above, so clients
+-- get no INSERT policy.
+DROP POLICY IF EXISTS "Project owners can manage their boards" ON project_boards;
+DROP POLICY IF EXISTS "Collaborators can view boards" ON project_boards;
+DROP POLICY IF EXISTS "Collaborators with edit can update boards" ON project_boards;
+DROP POLICY IF EXISTS "Users can view boards they can open" ON project_boards;
+DROP POLICY IF EXISTS "Users can update boards they can edit" ON project_boards;
+DROP POLICY IF EXISTS "Project owners can delete boards" ON project_boards;
+
+CREATE POLICY "Users can view boards they can open" ON project_boards
+FOR SELECT USING (can_access_board(id, 'view'));
+
+CREATE POLICY "Users can update boards they can edit" ON project_boards
+FOR UPDATE
+USING (can_access_board(id, 'edit'))
+WITH CHECK (can_access_board(id, 'edit'));
+
+CREATE POLICY "Project owners can delete boards" ON project_boards
+FOR DELETE USING (id <> project_id AND user_permission_rank(project_id) = 4);
+
+-- Step 8: Keep board permissions to project admins
+-- ============================================================================
+-- The UPDATE policy lets editors save a board; this stops them changing who
+-- can open or edit it, or moving it to another project. The API runs with
+-- the service role (no auth.uid()) and does its own checks.
+CREATE OR REPLACE FUNCTION protect_project_board_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.project_id IS DISTINCT FROM OLD.project_id
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+    RAISE EXCEPTION 'A board''s id, project and creator can''t be changed';
+  END IF;
+
+  IF (NEW.view_permission IS DISTINCT FROM OLD.view_permission
+    OR NEW.edit_permission IS DISTINCT FROM OLD.edit_permission)
+    AND user_permission_rank(OLD.project_id) < permission_rank('admin') THEN
+    RAISE EXCEPTION 'Only project admins can change board permissions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_boards_protect_columns ON project_boards;
+CREATE TRIGGER project_boards_protect_columns
+  BEFORE UPDATE ON project_boards
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_project_board_columns();
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+-- SELECT id, project_id, name, position, view_permission, edit_permission
+-- FROM project_boards ORDER BY project_id, position;
+-- SELECT board_id, count(*) FROM project_board_operations GROUP BY board_id;
+-- SELECT board_id, count(*) FROM project_board_versions GROUP BY board_id;
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'project_boards';
+-- ============================================================================
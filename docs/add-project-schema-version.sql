@@ -0,0 +1,245 @@
+-- ============================================================================
+-- PROJECT SCHEMA VERSION - Track the shape of stored project items
+-- ============================================================================
+-- This script adds projects.schema_version. The app upgrades older item
+-- documents on read (lib/project-migrations.ts); the column records which
+-- rows have been rewritten in the current shape.
+--
+-- Existing rows start at 1 (before versioning). New projects are written in
+-- the current shape, so the column default follows CURRENT_SCHEMA_VERSION.
+-- Bump the default here whenever a migration is added.
+--
+-- get_user_project, get_user_projects and update_user_project return the
+-- column too, so rows that are already current aren't migrated again on
+-- every read. update_user_project also takes the schema version of the
+-- items it's given, so saving a project the app upgraded on read stamps
+-- it as current. Changing their signatures means dropping them first.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- 5. Run `npm run backfill-schema` once to rewrite existing projects,
+--    including ones saved before update_user_project stamped the version
+-- ============================================================================
+
+-- Step 1: Add the column, marking existing rows as unversioned
+-- ============================================================================
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1;
+
+-- Step 2: New rows are written in the current shape
+-- ============================================================================
+ALTER TABLE projects ALTER COLUMN schema_version SET DEFAULT 6;
+
+-- Step 3: Index for the backfill
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_projects_schema_version
+  ON projects(schema_version);
+
+-- Step 4: Return schema_version from the project functions
+-- ============================================================================
+DROP FUNCTION IF EXISTS get_user_project(UUID);
+
+CREATE OR REPLACE FUNCTION get_user_project(p_project_id UUID)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  retailer TEXT,
+  items JSONB,
+  due_date TIMESTAMP WITH TIME ZONE,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  schema_version INTEGER
+)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.title,
+    p.retailer,
+    p.items,
+    p.due_date,
+    p.user_id,
+    p.created_at,
+    p.updated_at,
+    p.schema_version
+  FROM projects p
+  WHERE p.id = p_project_id
+    AND (
+      p.user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM project_collaborators pc
+        WHERE pc.project_id = p.id
+        AND pc.user_id = auth.uid()
+      )
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_user_project(UUID) TO authenticated;
+
+DROP FUNCTION IF EXISTS get_user_projects();
+
+CREATE OR REPLACE FUNCTION get_user_projects()
+RETURNS TABLE (
+  project_id UUID,
+  project_title TEXT,
+  project_retailer TEXT,
+  project_items JSONB,
+  due_date TIMESTAMP WITH TIME ZONE,
+  project_created_at TIMESTAMP WITH TIME ZONE,
+  project_updated_at TIMESTAMP WITH TIME ZONE,
+  permission_level TEXT,
+  is_owner BOOLEAN,
+  schema_version INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  -- Projects owned by user
+  SELECT
+    p.id AS project_id,
+    p.title AS project_title,
+    p.retailer AS project_retailer,
+    p.items AS project_items,
+    p.due_date,
+    p.created_at AS project_created_at,
+    p.updated_at AS project_updated_at,
+    'admin'::TEXT AS permission_level,
+    true AS is_owner,
+    p.schema_version
+  FROM projects p
+  WHERE p.user_id = auth.uid()
+
+  UNION ALL
+
+  -- Projects where user is collaborator
+  SELECT
+    p.id AS project_id,
+    p.title AS project_title,
+    p.retailer AS project_retailer,
+    p.items AS project_items,
+    p.due_date,
+    p.created_at AS project_created_at,
+    p.updated_at AS project_updated_at,
+    pc.permission_level,
+    false AS is_owner,
+    p.schema_version
+  FROM project_collaborators pc
+  JOIN projects p ON p.id = pc.project_id
+  WHERE pc.user_id = auth.uid();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_user_projects() TO authenticated;
+
+-- The app upgrades items on read and passes p_schema_version when it saves
+-- them. Callers that don't leave the stored version as it is.
+DROP FUNCTION IF EXISTS update_user_project(UUID, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, JSONB);
+DROP FUNCTION IF EXISTS update_user_project(UUID, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION update_user_project(
+  p_project_id UUID,
+  p_title TEXT,
+  p_retailer TEXT,
+  p_due_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_items JSONB DEFAULT '[]'::JSONB,
+  p_schema_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  retailer TEXT,
+  due_date TIMESTAMP WITH TIME ZONE,
+  items JSONB,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  schema_version INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_has_permission BOOLEAN;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- User must be owner OR have edit/admin permissions
+  SELECT EXISTS (
+    SELECT 1 FROM projects p
+    WHERE p.id = p_project_id
+    AND (
+      p.user_id = v_user_id
+      OR EXISTS (
+        SELECT 1 FROM project_collaborators pc
+        WHERE pc.project_id = p_project_id
+        AND pc.user_id = v_user_id
+        AND pc.permission_level IN ('edit', 'admin')
+      )
+    )
+  ) INTO v_has_permission;
+
+  IF NOT v_has_permission THEN
+    RAISE EXCEPTION 'You do not have permission to update this project';
+  END IF;
+
+  RETURN QUERY
+  UPDATE projects
+  SET
+    title = p_title,
+    retailer = p_retailer,
+    due_date = p_due_date,
+    items = p_items,
+    schema_version = COALESCE(p_schema_version, projects.schema_version),
+    updated_at = NOW()
+  WHERE projects.id = p_project_id
+  RETURNING
+    projects.id,
+    projects.title,
+    projects.retailer,
+    projects.due_date,
+    projects.items,
+    projects.user_id,
+    projects.created_at,
+    projects.updated_at,
+    projects.schema_version;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_user_project(UUID, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, JSONB, INTEGER) TO authenticated;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+-- SELECT schema_version, count(*) FROM projects GROUP BY schema_version;
+-- SELECT id, schema_version FROM get_user_project('<project id>');
+-- ============================================================================
+
+-- ============================================================================
+-- SETUP COMPLETE!
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Project schema version added!';
+  RAISE NOTICE '📋 Column added: projects.schema_version';
+  RAISE NOTICE '⚙️  Functions updated: get_user_project, get_user_projects, update_user_project';
+  RAISE NOTICE '🔁 Run npm run backfill-schema to upgrade existing projects';
+END $$;
@@ -0,0 +1,31 @@
+-- ============================================================================
+-- RENDER FORMATS - HEIC photos and PDF drawings in the upload buckets
+-- ============================================================================
+-- TIFF, PSD and EXR were allowed with docs/create-upload-sessions.sql. This
+-- adds HEIC/HEIF photos and vendor PDF drawings; all of them are shown
+-- through their image derivatives (see lib/render-decoders.ts).
+--
+-- Run after docs/add-image-derivatives.sql.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+UPDATE storage.buckets
+SET allowed_mime_types = allowed_mime_types || ARRAY(
+  SELECT type
+  FROM unnest(ARRAY['image/heic', 'image/heif', 'application/pdf']) AS type
+  WHERE NOT (type = ANY(allowed_mime_types))
+)
+WHERE id IN ('project-files', 'board-assets')
+  AND allowed_mime_types IS NOT NULL;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+-- SELECT id, allowed_mime_types FROM storage.buckets
+-- WHERE id IN ('project-files', 'board-assets');
+-- ============================================================================
@@ -0,0 +1,57 @@
+-- ============================================================================
+-- TLDRAW SYNC SERVER - Saving rooms to project_boards
+-- ============================================================================
+-- The sync server in tldraw-sync-server/ keeps each project's tldraw room
+-- in memory while people are connected and saves it here. It writes only
+-- the tldraw document (the `store` and `schema` keys of board_snapshot),
+-- so the Excalidraw board's `elements`, `appState` and `files` stay as
+-- they are.
+--
+-- Run after docs/create-project-boards-table.sql.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Save a room's document
+-- ============================================================================
+-- Merged into board_snapshot in one statement, so an Excalidraw save at
+-- the same moment isn't lost.
+CREATE OR REPLACE FUNCTION save_tldraw_board(
+  p_project_id UUID,
+  p_store JSONB,
+  p_schema JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO project_boards (project_id, board_snapshot)
+  VALUES (
+    p_project_id,
+    jsonb_build_object('store', p_store, 'schema', p_schema)
+  )
+  ON CONFLICT ON CONSTRAINT project_boards_pkey DO UPDATE
+  SET board_snapshot = COALESCE(project_boards.board_snapshot, '{}')
+      || jsonb_build_object('store', p_store, 'schema', p_schema),
+    updated_at = NOW();
+END;
+$$;
+
+-- Step 2: Permissions
+-- ============================================================================
+-- Only the sync server calls this, after checking the client's access
+REVOKE EXECUTE ON FUNCTION save_tldraw_board(UUID, JSONB, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_tldraw_board(UUID, JSONB, JSONB) TO service_role;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+-- SELECT project_id, jsonb_object_keys(board_snapshot), updated_at
+-- FROM project_boards;
+-- ============================================================================
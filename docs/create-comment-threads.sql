@@ -0,0 +1,223 @@
+-- ============================================================================
+-- COMMENT THREADS - Feedback pinned to annotation points and hero images
+-- ============================================================================
+-- This script creates the comment_threads and comments tables. A thread is
+-- anchored to an item and either to an annotation point (a part's
+-- annotation_data.id) or to a spot on the item's hero image (x/y in
+-- percent, like annotation points). Both tables are added to the
+-- supabase_realtime publication so useRealtimeProject receives new
+-- comments and resolve/reopen changes live.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Create the comment_threads table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS comment_threads (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL,
+  version_id TEXT,
+  part_id TEXT,
+  annotation_id TEXT,
+  image_url TEXT,
+  x NUMERIC,
+  y NUMERIC,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'resolved')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT comment_threads_anchor_check
+    CHECK (annotation_id IS NOT NULL OR (x IS NOT NULL AND y IS NOT NULL))
+);
+
+-- Step 2: Create the comments table
+-- ============================================================================
+-- project_id is copied from the thread so realtime can filter on it.
+-- Mentions are written into the body as @[Name](user_id) and their user ids
+-- kept in `mentions`.
+CREATE TABLE IF NOT EXISTS comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES comment_threads(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (length(body) > 0),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 3: Create indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_comment_threads_project_id
+  ON comment_threads(project_id, item_id);
+CREATE INDEX IF NOT EXISTS idx_comments_thread_id
+  ON comments(thread_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_project_id ON comments(project_id);
+CREATE INDEX IF NOT EXISTS idx_comments_mentions ON comments USING GIN(mentions);
+
+-- Step 4: Access helpers
+-- ============================================================================
+-- SECURITY DEFINER so the policies below don't recurse into the RLS of
+-- projects / project_collaborators.
+CREATE OR REPLACE FUNCTION get_project_permission(p_project_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM projects
+      WHERE id = p_project_id AND user_id = auth.uid()
+    ) THEN 'owner'
+    ELSE (
+      SELECT permission_level FROM project_collaborators
+      WHERE project_id = p_project_id AND user_id = auth.uid()
+      LIMIT 1
+    )
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_project_permission(UUID) TO authenticated;
+
+-- Step 5: Enable Row Level Security (RLS)
+-- ============================================================================
+ALTER TABLE comment_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Project members can view threads" ON comment_threads;
+DROP POLICY IF EXISTS "Project members can start threads" ON comment_threads;
+DROP POLICY IF EXISTS "Editors and authors can resolve threads" ON comment_threads;
+DROP POLICY IF EXISTS "Editors and authors can delete threads" ON comment_threads;
+DROP POLICY IF EXISTS "Project members can view comments" ON comments;
+DROP POLICY IF EXISTS "Project members can comment" ON comments;
+DROP POLICY IF EXISTS "Authors can edit their comments" ON comments;
+DROP POLICY IF EXISTS "Authors can delete their comments" ON comments;
+
+-- Step 6: Create RLS policies
+-- ============================================================================
+-- Everyone on the project, including view-only reviewers, can comment.
+-- Resolving, reopening and deleting a thread takes edit permission or
+-- being the one who started it. Updates are checked again on the new row,
+-- so a thread or comment can't be moved to another project or handed to
+-- someone else, and a thread's comments stay in the thread's project.
+CREATE POLICY "Project members can view threads" ON comment_threads
+FOR SELECT USING (get_project_permission(project_id) IS NOT NULL);
+
+CREATE POLICY "Project members can start threads" ON comment_threads
+FOR INSERT WITH CHECK (
+  get_project_permission(project_id) IS NOT NULL
+  AND created_by = auth.uid()
+);
+
+CREATE POLICY "Editors and authors can resolve threads" ON comment_threads
+FOR UPDATE USING (
+  get_project_permission(project_id) IS NOT NULL
+  AND (
+    created_by = auth.uid()
+    OR get_project_permission(project_id) IN ('owner', 'admin', 'edit')
+  )
+) WITH CHECK (
+  get_project_permission(project_id) IS NOT NULL
+  AND (
+    created_by = auth.uid()
+    OR get_project_permission(project_id) IN ('owner', 'admin', 'edit')
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM comments
+    WHERE comments.thread_id = comment_threads.id
+    AND comments.project_id <> comment_threads.project_id
+  )
+);
+
+CREATE POLICY "Editors and authors can delete threads" ON comment_threads
+FOR DELETE USING (
+  created_by = auth.uid()
+  OR get_project_permission(project_id) IN ('owner', 'admin')
+);
+
+CREATE POLICY "Project members can view comments" ON comments
+FOR SELECT USING (get_project_permission(project_id) IS NOT NULL);
+
+CREATE POLICY "Project members can comment" ON comments
+FOR INSERT WITH CHECK (
+  get_project_permission(project_id) IS NOT NULL
+  AND user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM comment_threads
+    WHERE comment_threads.id = comments.thread_id
+    AND comment_threads.project_id = comments.project_id
+  )
+);
+
+CREATE POLICY "Authors can edit their comments" ON comments
+FOR UPDATE USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND get_project_permission(project_id) IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM comment_threads
+    WHERE comment_threads.id = comments.thread_id
+    AND comment_threads.project_id = comments.project_id
+  )
+);
+
+CREATE POLICY "Authors can delete their comments" ON comments
+FOR DELETE USING (user_id = auth.uid());
+
+-- Step 7: Keep updated_at current
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_comments_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS comment_threads_updated_at ON comment_threads;
+CREATE TRIGGER comment_threads_updated_at
+  BEFORE UPDATE ON comment_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_comments_updated_at();
+
+DROP TRIGGER IF EXISTS comments_updated_at ON comments;
+CREATE TRIGGER comments_updated_at
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_comments_updated_at();
+
+-- Step 8: Enable realtime
+-- ============================================================================
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE comment_threads;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE comments;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- ============================================================================
+-- SETUP COMPLETE!
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Comment threads setup complete!';
+  RAISE NOTICE '📋 Tables created: comment_threads, comments';
+  RAISE NOTICE '🔒 RLS enabled for project owners and collaborators';
+  RAISE NOTICE '📡 Both tables added to the supabase_realtime publication';
+END $$;
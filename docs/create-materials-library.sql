@@ -0,0 +1,127 @@
+-- ============================================================================
+-- MATERIALS LIBRARY - Named finishes shared per team
+-- ============================================================================
+-- This script creates the materials table: each team's library of named
+-- finishes with a swatch color, texture image, vendor code, sheen and notes.
+-- Parts reference entries by id (`material_id` inside projects.items) and
+-- keep their free-text finish/color as a fallback.
+--
+-- Every signed-in user can read the library so collaborators from other
+-- teams can see the materials used in a project; only members of the
+-- owning team (user_profiles.team) can add, edit or archive entries.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Create the materials table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS materials (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  team TEXT NOT NULL
+    CHECK (team IN ('product_development', 'industrial_design')),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  swatch_color TEXT NOT NULL DEFAULT '#9ca3af',
+  texture_image_url TEXT,
+  vendor_code TEXT,
+  sheen TEXT
+    CHECK (sheen IN ('flat', 'matte', 'eggshell', 'satin', 'semi_gloss', 'gloss', 'high_gloss')),
+  notes TEXT,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 2: Create indexes
+-- ============================================================================
+-- One spelling per name per team ("Brushed Nickel" vs "brushed nickel")
+CREATE UNIQUE INDEX IF NOT EXISTS idx_materials_team_name
+  ON materials(team, lower(trim(name)));
+CREATE INDEX IF NOT EXISTS idx_materials_team ON materials(team, archived);
+
+-- Step 3: Enable Row Level Security (RLS)
+-- ============================================================================
+ALTER TABLE materials ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can view materials" ON materials;
+DROP POLICY IF EXISTS "Team members can add materials" ON materials;
+DROP POLICY IF EXISTS "Team members can update materials" ON materials;
+DROP POLICY IF EXISTS "Team members can delete materials" ON materials;
+
+-- Step 4: Create RLS policies
+-- ============================================================================
+CREATE POLICY "Signed-in users can view materials" ON materials
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Team members can add materials" ON materials
+FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.user_id = auth.uid()
+    AND user_profiles.team = materials.team
+  )
+);
+
+-- WITH CHECK repeats USING so an entry can't be moved to another team
+CREATE POLICY "Team members can update materials" ON materials
+FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.user_id = auth.uid()
+    AND user_profiles.team = materials.team
+  )
+) WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.user_id = auth.uid()
+    AND user_profiles.team = materials.team
+  )
+);
+
+CREATE POLICY "Team members can delete materials" ON materials
+FOR DELETE USING (
+  EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.user_id = auth.uid()
+    AND user_profiles.team = materials.team
+  )
+);
+
+-- Step 5: Keep updated_at current
+-- ============================================================================
+-- Who created an entry, and when, can't be rewritten by a user's edits.
+-- Updates without auth.uid() (e.g. created_by cleared when its user is
+-- deleted) are left alone.
+CREATE OR REPLACE FUNCTION update_materials_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.created_by = OLD.created_by;
+    NEW.created_at = OLD.created_at;
+  END IF;
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS materials_updated_at ON materials;
+CREATE TRIGGER materials_updated_at
+  BEFORE UPDATE ON materials
+  FOR EACH ROW
+  EXECUTE FUNCTION update_materials_updated_at();
+
+-- ============================================================================
+-- SETUP COMPLETE!
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Materials library setup complete!';
+  RAISE NOTICE '📋 Table created: materials';
+  RAISE NOTICE '🔒 RLS enabled: everyone reads, team members manage their library';
+END $$;
@@ -0,0 +1,219 @@
+-- ============================================================================
+-- PART TEMPLATES - User, team and global part template sets
+-- ============================================================================
+-- This script creates the part_template_sets table (named sets such as
+-- "Furniture" or "Lighting", each holding its templates as JSONB) and
+-- part_template_set_versions, which keeps a snapshot of every saved version
+-- of a set so earlier versions can be restored.
+--
+-- Scopes:
+--   user   - visible to and editable by the owner only
+--   team   - visible to and editable by members of the owner's team
+--   global - visible to everyone; created and edited by admins (users in
+--            team_admins, see docs/create-webhooks.sql), editable by the
+--            owner while they remain one
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Create the part_template_sets table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS part_template_sets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  scope TEXT NOT NULL DEFAULT 'user'
+    CHECK (scope IN ('user', 'team', 'global')),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  team TEXT,
+  templates JSONB NOT NULL DEFAULT '[]'::jsonb,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT part_template_sets_team_check
+    CHECK (scope <> 'team' OR team IS NOT NULL)
+);
+
+-- Step 2: Create the part_template_set_versions table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS part_template_set_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  set_id UUID NOT NULL REFERENCES part_template_sets(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  templates JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (set_id, version)
+);
+
+-- Step 3: Create indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_part_template_sets_owner
+  ON part_template_sets(owner_id);
+CREATE INDEX IF NOT EXISTS idx_part_template_sets_scope
+  ON part_template_sets(scope, team);
+CREATE INDEX IF NOT EXISTS idx_part_template_set_versions_set
+  ON part_template_set_versions(set_id, version DESC);
+
+-- Step 4: Access helpers
+-- ============================================================================
+-- SECURITY DEFINER so policies can read the caller's team without going
+-- through user_profiles RLS.
+CREATE OR REPLACE FUNCTION get_current_user_team()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT team FROM user_profiles WHERE user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_current_user_team() TO authenticated;
+
+-- Admins are assigned by an operator in team_admins, also created by
+-- docs/create-webhooks.sql; RLS with no policies keeps it out of reach of
+-- users until that script adds its own.
+CREATE TABLE IF NOT EXISTS team_admins (
+  team TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (team, user_id)
+);
+
+ALTER TABLE team_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_current_user_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM team_admins WHERE user_id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION is_current_user_admin() TO authenticated;
+
+-- Step 5: Enable Row Level Security (RLS)
+-- ============================================================================
+ALTER TABLE part_template_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE part_template_set_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view visible template sets" ON part_template_sets;
+DROP POLICY IF EXISTS "Users can create template sets" ON part_template_sets;
+DROP POLICY IF EXISTS "Owners and team members can update template sets" ON part_template_sets;
+DROP POLICY IF EXISTS "Owners and team members can delete template sets" ON part_template_sets;
+DROP POLICY IF EXISTS "Users can view versions of visible sets" ON part_template_set_versions;
+
+-- Step 6: Create RLS policies
+-- ============================================================================
+CREATE POLICY "Users can view visible template sets" ON part_template_sets
+FOR SELECT USING (
+  scope = 'global'
+  OR owner_id = auth.uid()
+  OR (scope = 'team' AND team = get_current_user_team())
+);
+
+CREATE POLICY "Users can create template sets" ON part_template_sets
+FOR INSERT WITH CHECK (
+  owner_id = auth.uid()
+  AND (scope <> 'team' OR team = get_current_user_team())
+  AND (scope <> 'global' OR is_current_user_admin())
+);
+
+-- Team members can edit a team set but not take it over: it has to stay
+-- theirs or their team's, and only admins can make it global. The owner
+-- itself is kept by the trigger in step 7.
+CREATE POLICY "Owners and team members can update template sets" ON part_template_sets
+FOR UPDATE USING (
+  owner_id = auth.uid()
+  OR (scope = 'team' AND team = get_current_user_team())
+)
+WITH CHECK (
+  (owner_id = auth.uid() OR (scope = 'team' AND team = get_current_user_team()))
+  AND (scope <> 'team' OR team = get_current_user_team())
+  AND (scope <> 'global' OR is_current_user_admin())
+);
+
+CREATE POLICY "Owners and team members can delete template sets" ON part_template_sets
+FOR DELETE USING (
+  owner_id = auth.uid()
+  OR (scope = 'team' AND team = get_current_user_team())
+);
+
+-- Versions are written by the trigger below only
+CREATE POLICY "Users can view versions of visible sets" ON part_template_set_versions
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM part_template_sets
+    WHERE part_template_sets.id = part_template_set_versions.set_id
+  )
+);
+
+-- Step 7: Version on every save
+-- ============================================================================
+-- Each change to a set's name or templates bumps its version and stores a
+-- snapshot in part_template_set_versions. Users' edits also keep the owner;
+-- updates without auth.uid() (e.g. owner_id cleared when its user is
+-- deleted) are left alone.
+CREATE OR REPLACE FUNCTION bump_part_template_set_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.owner_id = OLD.owner_id;
+  END IF;
+  NEW.updated_at = NOW();
+  IF NEW.templates IS DISTINCT FROM OLD.templates
+     OR NEW.name IS DISTINCT FROM OLD.name THEN
+    NEW.version = OLD.version + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION snapshot_part_template_set()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO part_template_set_versions (set_id, version, name, templates, created_by)
+  VALUES (NEW.id, NEW.version, NEW.name, NEW.templates, auth.uid())
+  ON CONFLICT (set_id, version) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS part_template_sets_version ON part_template_sets;
+CREATE TRIGGER part_template_sets_version
+  BEFORE UPDATE ON part_template_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_part_template_set_version();
+
+DROP TRIGGER IF EXISTS part_template_sets_snapshot ON part_template_sets;
+CREATE TRIGGER part_template_sets_snapshot
+  AFTER INSERT OR UPDATE ON part_template_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_part_template_set();
+
+-- ============================================================================
+-- SETUP COMPLETE!
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Part templates setup complete!';
+  RAISE NOTICE '📋 Tables created: part_template_sets, part_template_set_versions';
+  RAISE NOTICE '🔒 RLS enabled for user, team and global scopes';
+  RAISE NOTICE '🛡️  Global sets are limited to users in team_admins';
+  RAISE NOTICE '🕘 Every save is kept as a restorable version';
+END $$;
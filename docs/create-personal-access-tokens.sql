@@ -0,0 +1,54 @@
+-- ============================================================================
+-- PERSONAL ACCESS TOKENS - API access for scripts and automation
+-- ============================================================================
+-- This script creates the personal_access_tokens table used by the API
+-- routes to authenticate requests that don't carry a Supabase session.
+-- Only a SHA-256 hash of each token is stored; the plaintext token is shown
+-- once when it is created from Settings → Security.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Create the personal_access_tokens table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS personal_access_tokens (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMPTZ NOT NULL,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT personal_access_tokens_scopes_check
+    CHECK (scopes <@ ARRAY['projects:read', 'parts:write', 'export']::TEXT[])
+);
+
+-- Step 2: Create indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user_id
+  ON personal_access_tokens(user_id);
+
+-- Step 3: Enable Row Level Security (RLS)
+-- ============================================================================
+-- Tokens are created, verified and revoked by the API routes with the
+-- service role. Users may only read their own token metadata.
+ALTER TABLE personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own tokens" ON personal_access_tokens;
+
+CREATE POLICY "Users can view their own tokens" ON personal_access_tokens
+FOR SELECT USING (user_id = auth.uid());
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+-- SELECT column_name, data_type FROM information_schema.columns
+-- WHERE table_name = 'personal_access_tokens';
+-- ============================================================================
@@ -36,6 +36,8 @@ DROP POLICY IF EXISTS "Collaborators with edit can update boards" ON project_boa
 
 -- Step 5: Create RLS policies
 -- ============================================================================
+-- docs/add-multiple-boards.sql replaces these with policies that check each
+-- board's own view and edit permissions.
 
 -- Policy: Project owners have full access to their boards
 CREATE POLICY "Project owners can manage their boards" ON project_boards
@@ -0,0 +1,125 @@
+-- ============================================================================
+-- PROJECT TEMPLATES - Start new projects from a saved project structure
+-- ============================================================================
+-- This script creates the project_templates table. A template keeps a
+-- project's retailer, due-date offset and item skeletons (names, versions,
+-- part lists and groups, without images or files). The new project wizard
+-- copies a template's items with fresh ids.
+--
+-- Scopes work like part template sets:
+--   user   - visible to and editable by the owner only
+--   team   - visible to and editable by members of the owner's team
+--   global - visible to everyone, editable by the owner
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Create the project_templates table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS project_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  scope TEXT NOT NULL DEFAULT 'user'
+    CHECK (scope IN ('user', 'team', 'global')),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  team TEXT,
+  retailer TEXT NOT NULL DEFAULT '',
+  due_in_days INTEGER CHECK (due_in_days IS NULL OR due_in_days >= 0),
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source_project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT project_templates_team_check
+    CHECK (scope <> 'team' OR team IS NOT NULL)
+);
+
+-- Step 2: Create indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_project_templates_owner
+  ON project_templates(owner_id);
+CREATE INDEX IF NOT EXISTS idx_project_templates_scope
+  ON project_templates(scope, team);
+
+-- Step 3: Access helpers
+-- ============================================================================
+-- Also created by create-part-templates.sql; safe to run again.
+CREATE OR REPLACE FUNCTION get_current_user_team()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT team FROM user_profiles WHERE user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_current_user_team() TO authenticated;
+
+-- Step 4: Enable Row Level Security (RLS)
+-- ============================================================================
+ALTER TABLE project_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view visible project templates" ON project_templates;
+DROP POLICY IF EXISTS "Users can create project templates" ON project_templates;
+DROP POLICY IF EXISTS "Owners and team members can update project templates" ON project_templates;
+DROP POLICY IF EXISTS "Owners and team members can delete project templates" ON project_templates;
+
+-- Step 5: Create RLS policies
+-- ============================================================================
+CREATE POLICY "Users can view visible project templates" ON project_templates
+FOR SELECT USING (
+  scope = 'global'
+  OR owner_id = auth.uid()
+  OR (scope = 'team' AND team = get_current_user_team())
+);
+
+CREATE POLICY "Users can create project templates" ON project_templates
+FOR INSERT WITH CHECK (
+  owner_id = auth.uid()
+  AND (scope <> 'team' OR team = get_current_user_team())
+);
+
+CREATE POLICY "Owners and team members can update project templates" ON project_templates
+FOR UPDATE USING (
+  owner_id = auth.uid()
+  OR (scope = 'team' AND team = get_current_user_team())
+)
+WITH CHECK (scope <> 'team' OR team = get_current_user_team());
+
+CREATE POLICY "Owners and team members can delete project templates" ON project_templates
+FOR DELETE USING (
+  owner_id = auth.uid()
+  OR (scope = 'team' AND team = get_current_user_team())
+);
+
+-- Step 6: Keep updated_at current
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_project_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS project_templates_updated_at ON project_templates;
+CREATE TRIGGER project_templates_updated_at
+  BEFORE UPDATE ON project_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_project_templates_updated_at();
+
+-- ============================================================================
+-- SETUP COMPLETE!
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Project templates setup complete!';
+  RAISE NOTICE '📋 Table created: project_templates';
+  RAISE NOTICE '🔒 RLS enabled for user, team and global scopes';
+END $$;
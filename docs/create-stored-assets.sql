@@ -0,0 +1,54 @@
+-- ============================================================================
+-- STORED ASSETS - Content-addressed uploads and storage garbage collection
+-- ============================================================================
+-- Uploads to project-files and board-assets are stored under their SHA-256
+-- (objects/{2 hex}/{sha256}.{ext}, see lib/asset-storage.ts), so the same
+-- file is only stored once. This table remembers the derivatives of each
+-- stored object, so a duplicate upload returns them without processing the
+-- file again, and when the object was last uploaded, so garbage collection
+-- never deletes a file a duplicate upload just handed out.
+--
+-- Orphaned objects are found and deleted by the cron route
+-- GET /api/storage/gc (see lib/asset-gc.ts), a dry run unless called with
+-- ?dry_run=false.
+--
+-- Run after docs/add-image-derivatives.sql.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Create the stored_assets table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS stored_assets (
+  bucket TEXT NOT NULL,
+  path TEXT NOT NULL,
+  checksum TEXT NOT NULL,
+  derivatives JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_stored_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (bucket, path),
+  CONSTRAINT stored_assets_bucket_check
+    CHECK (bucket IN ('project-files', 'board-assets')),
+  CONSTRAINT stored_assets_checksum_check
+    CHECK (checksum ~ '^[0-9a-f]{64}$')
+);
+
+-- Step 2: Create indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_stored_assets_checksum
+  ON stored_assets(checksum);
+
+-- Step 3: Enable Row Level Security (RLS)
+-- ============================================================================
+-- Only the API routes read and write this table, with the service role.
+ALTER TABLE stored_assets ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+-- SELECT bucket, count(*) FROM stored_assets GROUP BY bucket;
+-- ============================================================================
@@ -0,0 +1,83 @@
+-- ============================================================================
+-- UPLOAD SESSIONS - Resumable, chunked uploads for large render files
+-- ============================================================================
+-- This script creates the upload_sessions table used by /api/upload/sessions
+-- and raises the storage limits so 200MB+ TIFF/PSD/EXR renders fit. The
+-- browser sends the file to Supabase Storage's resumable (tus) endpoint in
+-- 6MB chunks; a session records where the file goes and, once the API has
+-- read it back, its verified SHA-256 checksum.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- 5. Check Storage → Settings: the global upload size limit must be at least
+--    as large as the bucket limits below (2GB)
+-- ============================================================================
+
+-- Step 1: Create the upload_sessions table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bucket TEXT NOT NULL,
+  path TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size BIGINT NOT NULL,
+  checksum TEXT,
+  status TEXT NOT NULL DEFAULT 'uploading',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  CONSTRAINT upload_sessions_bucket_check
+    CHECK (bucket IN ('project-files', 'board-assets')),
+  CONSTRAINT upload_sessions_status_check
+    CHECK (status IN ('uploading', 'completed', 'failed'))
+);
+
+-- Step 2: Create indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_user_id
+  ON upload_sessions(user_id);
+
+-- Step 3: Enable Row Level Security (RLS)
+-- ============================================================================
+-- Sessions are created, verified and removed by the API routes with the
+-- service role. Users may only read their own sessions.
+ALTER TABLE upload_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own upload sessions" ON upload_sessions;
+
+CREATE POLICY "Users can view their own upload sessions" ON upload_sessions
+FOR SELECT USING (user_id = auth.uid());
+
+-- Step 4: Allow large render files in the buckets
+-- ============================================================================
+UPDATE storage.buckets
+SET
+  file_size_limit = 2147483648, -- 2GB
+  allowed_mime_types = ARRAY[
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml',
+    'image/tiff', 'image/vnd.adobe.photoshop', 'image/x-exr'
+  ]
+WHERE id = 'project-files';
+
+UPDATE storage.buckets
+SET
+  file_size_limit = 2147483648, -- 2GB
+  allowed_mime_types = ARRAY[
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml',
+    'image/tiff', 'image/vnd.adobe.photoshop', 'image/x-exr',
+    'video/mp4', 'video/webm'
+  ]
+WHERE id = 'board-assets';
+
+-- ============================================================================
+-- CLEANUP
+-- ============================================================================
+-- Sessions that never completed can be removed after a week; their partial
+-- uploads expire on the storage side on their own:
+-- DELETE FROM upload_sessions
+-- WHERE status <> 'completed' AND created_at < NOW() - INTERVAL '7 days';
+-- ============================================================================
@@ -0,0 +1,190 @@
+-- ============================================================================
+-- WEBHOOKS - Outgoing notifications for project lifecycle events
+-- ============================================================================
+-- This script creates the webhooks and webhook_deliveries tables, plus
+-- triggers that write project_logs entries for project creation and new
+-- collaborators. Every project_logs insert is forwarded to the app, which
+-- fans it out to the matching webhooks as signed HTTP POSTs.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- 5. Under Database → Webhooks, create a webhook:
+--      Table:   project_logs
+--      Events:  Insert
+--      Type:    HTTP Request, POST
+--      URL:     https://<your-app>/api/webhooks/project-logs
+--      Header:  Authorization: Bearer <WEBHOOK_TRIGGER_SECRET>
+-- 6. Set WEBHOOK_TRIGGER_SECRET (and CRON_SECRET for retries) in the app env
+-- ============================================================================
+
+-- Step 1: Create the webhooks table
+-- ============================================================================
+-- A webhook belongs either to one project or to every project owned by a
+-- member of a team.
+CREATE TABLE IF NOT EXISTS webhooks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  team TEXT,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT webhooks_scope_check
+    CHECK ((project_id IS NULL) <> (team IS NULL))
+);
+
+-- Step 2: Create the webhook_deliveries table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  log_id UUID,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  error TEXT,
+  next_attempt_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Response bodies used to be stored; endpoints are user-supplied, so only
+-- the status code and a short error are kept now.
+ALTER TABLE webhook_deliveries DROP COLUMN IF EXISTS response_body;
+
+-- Step 3: Create indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_webhooks_project_id ON webhooks(project_id);
+CREATE INDEX IF NOT EXISTS idx_webhooks_team ON webhooks(team);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id
+  ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending
+  ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+-- Step 4: Enable Row Level Security (RLS)
+-- ============================================================================
+-- Webhooks are managed and delivered through the API routes with the
+-- service role, so no client policies are needed. Secrets never reach
+-- the browser through PostgREST.
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Step 5: Log project creation
+-- ============================================================================
+CREATE OR REPLACE FUNCTION log_project_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO project_logs (project_id, user_id, action, details, timestamp)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    'project_created',
+    jsonb_build_object('new_data', to_jsonb(NEW)),
+    NOW()
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_log_created ON projects;
+CREATE TRIGGER projects_log_created
+  AFTER INSERT ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION log_project_created();
+
+-- Step 6: Log collaborators joining
+-- ============================================================================
+CREATE OR REPLACE FUNCTION log_collaborator_joined()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO project_logs (project_id, user_id, action, details, timestamp)
+  VALUES (
+    NEW.project_id,
+    NEW.user_id,
+    'collaborator_joined',
+    jsonb_build_object(
+      'collaborator', jsonb_build_object(
+        'user_id', NEW.user_id,
+        'permission_level', NEW.permission_level,
+        'invited_by', NEW.invited_by
+      )
+    ),
+    NOW()
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_collaborators_log_joined ON project_collaborators;
+CREATE TRIGGER project_collaborators_log_joined
+  AFTER INSERT ON project_collaborators
+  FOR EACH ROW
+  EXECUTE FUNCTION log_collaborator_joined();
+
+-- Step 7: Keep updated_at current
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_webhooks_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS webhooks_updated_at ON webhooks;
+CREATE TRIGGER webhooks_updated_at
+  BEFORE UPDATE ON webhooks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_webhooks_updated_at();
+
+-- Step 8: Create the team_admins table
+-- ============================================================================
+-- Team webhooks send events for every project owned by a team member, so
+-- only a team's admins can manage them (and only for projects they can
+-- access themselves). Users pick their own team, so admins are assigned
+-- here by an operator, e.g.:
+--   INSERT INTO team_admins (team, user_id) VALUES ('Acme', '<user id>');
+CREATE TABLE IF NOT EXISTS team_admins (
+  team TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (team, user_id)
+);
+
+ALTER TABLE team_admins ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own team admin roles" ON team_admins;
+CREATE POLICY "Users can view their own team admin roles"
+  ON team_admins FOR SELECT
+  USING (user_id = auth.uid());
+
+-- ============================================================================
+-- SETUP COMPLETE!
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Webhooks setup complete!';
+  RAISE NOTICE '📋 Tables created: webhooks, webhook_deliveries, team_admins';
+  RAISE NOTICE '⚙️  Triggers created: projects_log_created, project_collaborators_log_joined';
+  RAISE NOTICE '🔗 Remember to add the project_logs database webhook (step 5 above)';
+END $$;
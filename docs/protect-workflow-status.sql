@@ -0,0 +1,154 @@
+-- ============================================================================
+-- PROTECT WORKFLOW STATUS - Keep review statuses out of ordinary saves
+-- ============================================================================
+-- Version and part statuses (status, status_updated_at, status_updated_by)
+-- live in projects.items, which update_user_project and the edit form write
+-- as a whole. Without this script, anyone who can edit a project could set
+-- a version to "approved" by sending the items with it.
+--
+-- This script adds a trigger that, on every update made as a signed-in
+-- user (update_user_project included), keeps the stored workflow fields of
+-- each version and part, matched by id; versions and parts that weren't
+-- stored yet start as drafts. Statuses are changed through the v1 API's
+-- /status routes, which check the transition (lib/status-workflow.ts) and
+-- write with the service role, which the trigger leaves alone.
+--
+-- INSTRUCTIONS:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this ENTIRE file
+-- 4. Click "Run" or press Cmd+Enter / Ctrl+Enter
+-- ============================================================================
+
+-- Step 1: Copy the workflow fields of one version or part
+-- ============================================================================
+-- `p_stored` is the stored entry with the same id, or NULL for a new one.
+CREATE OR REPLACE FUNCTION keep_workflow_fields(p_stored JSONB, p_entry JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_entry - 'status' - 'status_updated_at' - 'status_updated_by')
+    || CASE
+      WHEN p_stored ? 'status' THEN jsonb_strip_nulls(jsonb_build_object(
+        'status', p_stored->'status',
+        'status_updated_at', p_stored->'status_updated_at',
+        'status_updated_by', p_stored->'status_updated_by'
+      ))
+      ELSE '{}'::JSONB
+    END;
+$$;
+
+-- Step 2: Copy them for every version and part of a project's items
+-- ============================================================================
+-- Mirrors keepWorkflowStatus in lib/status-workflow.ts.
+CREATE OR REPLACE FUNCTION keep_workflow_status(p_stored JSONB, p_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_stored JSONB;
+  v_items JSONB := '[]';
+  v_versions JSONB;
+  v_parts JSONB;
+  v_item JSONB;
+  v_version JSONB;
+  v_part JSONB;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' THEN
+    RETURN p_items;
+  END IF;
+
+  -- Stored versions by id, and parts by "version id/part id"
+  SELECT COALESCE(jsonb_object_agg(entry.key, entry.value), '{}')
+  INTO v_stored
+  FROM (
+    SELECT version->>'id' AS key, version AS value
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(p_stored) = 'array' THEN p_stored ELSE '[]' END
+    ) item,
+    jsonb_array_elements(
+      CASE WHEN jsonb_typeof(item->'versions') = 'array'
+        THEN item->'versions' ELSE '[]' END
+    ) version
+    UNION ALL
+    SELECT (version->>'id') || '/' || (part->>'id'), part
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(p_stored) = 'array' THEN p_stored ELSE '[]' END
+    ) item,
+    jsonb_array_elements(
+      CASE WHEN jsonb_typeof(item->'versions') = 'array'
+        THEN item->'versions' ELSE '[]' END
+    ) version,
+    jsonb_array_elements(
+      CASE WHEN jsonb_typeof(version->'parts') = 'array'
+        THEN version->'parts' ELSE '[]' END
+    ) part
+  ) entry
+  WHERE entry.key IS NOT NULL;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    IF jsonb_typeof(v_item->'versions') = 'array' THEN
+      v_versions := '[]';
+      FOR v_version IN SELECT * FROM jsonb_array_elements(v_item->'versions')
+      LOOP
+        IF jsonb_typeof(v_version->'parts') = 'array' THEN
+          v_parts := '[]';
+          FOR v_part IN SELECT * FROM jsonb_array_elements(v_version->'parts')
+          LOOP
+            v_parts := v_parts || jsonb_build_array(keep_workflow_fields(
+              v_stored->((v_version->>'id') || '/' || (v_part->>'id')),
+              v_part
+            ));
+          END LOOP;
+          v_version := jsonb_set(v_version, '{parts}', v_parts);
+        END IF;
+        v_versions := v_versions || jsonb_build_array(keep_workflow_fields(
+          v_stored->(v_version->>'id'),
+          v_version
+        ));
+      END LOOP;
+      v_item := jsonb_set(v_item, '{versions}', v_versions);
+    END IF;
+    v_items := v_items || jsonb_build_array(v_item);
+  END LOOP;
+
+  RETURN v_items;
+END;
+$$;
+
+-- Step 3: Apply it to updates made as a user
+-- ============================================================================
+-- The API's service role has no auth.uid(); it only writes statuses from
+-- the workflow endpoint and keeps them itself for other saves
+-- (lib/project-store.ts).
+CREATE OR REPLACE FUNCTION protect_project_workflow_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NEW.items IS DISTINCT FROM OLD.items THEN
+    NEW.items := keep_workflow_status(OLD.items, NEW.items);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_protect_workflow_status ON projects;
+CREATE TRIGGER projects_protect_workflow_status
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_project_workflow_status();
+
+-- ============================================================================
+-- SETUP COMPLETE!
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Workflow status protection added!';
+  RAISE NOTICE '⚙️  Trigger created: projects_protect_workflow_status';
+  RAISE NOTICE '🔐 Statuses now only change through the workflow endpoint';
+END $$;
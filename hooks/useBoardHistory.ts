@@ -0,0 +1,239 @@
+/**
+ * useBoardHistory Hook
+ *
+ * The whiteboard's history (see lib/board-history.ts): automatic versions
+ * and named checkpoints. Restoring and forking edit the open board, so
+ * they are saved and reach collaborators like any other edit.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { authorizedFetch } from '@/lib/api-client'
+import { getRestoreElements, mergeElements } from '@/lib/board-sync'
+import { createForkElements } from '@/lib/excalidraw-utils'
+import { BoardVersion, BoardVersionWithSnapshot } from '@/types'
+
+type ExcalidrawImperativeAPI = any
+
+export interface UseBoardHistoryOptions {
+  /** The Excalidraw API once the board is ready */
+  api: ExcalidrawImperativeAPI | null
+  /** Send pending edits, so checkpoints include them */
+  forceSave: () => Promise<boolean>
+  /** Load the history (default: true); e.g. only while the timeline is open */
+  enabled?: boolean
+}
+
+export interface UseBoardHistoryReturn {
+  /** Versions and checkpoints, latest first */
+  versions: BoardVersion[]
+  /** Display names by user id */
+  users: Record<string, string>
+  loading: boolean
+  /** Whether a checkpoint, restore or fork is in progress */
+  working: boolean
+  error: string | null
+  refresh: () => Promise<void>
+  /** Name the board as it is now */
+  createCheckpoint: (name: string) => Promise<boolean>
+  /** Name a version, or rename a checkpoint */
+  renameVersion: (versionId: string, name: string) => Promise<boolean>
+  deleteCheckpoint: (versionId: string) => Promise<boolean>
+  /** A version with its elements, for previewing */
+  loadVersion: (versionId: string) => Promise<BoardVersionWithSnapshot | null>
+  /** Put the board back to a version; a checkpoint of the board as it was is made first */
+  restoreVersion: (version: BoardVersionWithSnapshot) => Promise<boolean>
+  /** Copy a version onto the board, in a frame next to the current content */
+  forkVersion: (version: BoardVersionWithSnapshot) => Promise<boolean>
+}
+
+/**
+ * A version's name, or when it was saved
+ */
+export function getBoardVersionLabel(
+  version: Pick<BoardVersion, 'name' | 'created_at'>
+): string {
+  return version.name || new Date(version.created_at).toLocaleString()
+}
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await authorizedFetch(input, init)
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(
+      body.error || `Board history request failed (${response.status})`
+    )
+  }
+  return body as T
+}
+
+export function useBoardHistory(
+  projectId: string,
+  boardId: string,
+  { api, forceSave, enabled = true }: UseBoardHistoryOptions
+): UseBoardHistoryReturn {
+  const [versions, setVersions] = useState<BoardVersion[]>([])
+  const [users, setUsers] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const endpoint = `/api/project/${projectId}/boards/${boardId}/versions`
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      const history = await request<{
+        versions: BoardVersion[]
+        users: Record<string, string>
+      }>(endpoint)
+      setVersions(history.versions)
+      setUsers(history.users)
+      setError(null)
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load board history'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [endpoint])
+
+  // Run an action that changes the history, then reload it
+  const run = useCallback(
+    async (action: () => Promise<void>): Promise<boolean> => {
+      setWorking(true)
+      setError(null)
+      try {
+        await action()
+        return true
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Board history action failed'
+        )
+        return false
+      } finally {
+        setWorking(false)
+        refresh()
+      }
+    },
+    [refresh]
+  )
+
+  const saveCheckpoint = useCallback(
+    async (name: string) => {
+      // The checkpoint is taken from what the server has
+      if (!(await forceSave())) {
+        throw new Error(
+          'Unsaved changes could not be sent; try again when online'
+        )
+      }
+      await request<BoardVersion>(endpoint, {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      })
+    },
+    [endpoint, forceSave]
+  )
+
+  const createCheckpoint = useCallback(
+    (name: string) => run(() => saveCheckpoint(name)),
+    [run, saveCheckpoint]
+  )
+
+  const renameVersion = useCallback(
+    (versionId: string, name: string) =>
+      run(async () => {
+        await request<BoardVersion>(`${endpoint}/${versionId}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ name }),
+        })
+      }),
+    [run, endpoint]
+  )
+
+  const deleteCheckpoint = useCallback(
+    (versionId: string) =>
+      run(async () => {
+        await request(`${endpoint}/${versionId}`, { method: 'DELETE' })
+      }),
+    [run, endpoint]
+  )
+
+  const loadVersion = useCallback(
+    async (versionId: string) => {
+      try {
+        return await request<BoardVersionWithSnapshot>(
+          `${endpoint}/${versionId}`
+        )
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load version')
+        return null
+      }
+    },
+    [endpoint]
+  )
+
+  const addFiles = useCallback(
+    (version: BoardVersionWithSnapshot) => {
+      const files = Object.values(version.snapshot.files)
+      if (files.length > 0) api.addFiles(files)
+    },
+    [api]
+  )
+
+  const restoreVersion = useCallback(
+    (version: BoardVersionWithSnapshot) =>
+      run(async () => {
+        if (!api) return
+        await saveCheckpoint(
+          `Before restoring ${getBoardVersionLabel(version)}`
+        )
+        const elements = api.getSceneElementsIncludingDeleted()
+        addFiles(version)
+        api.updateScene({
+          elements: mergeElements(
+            elements,
+            getRestoreElements(elements, version.snapshot.elements)
+          ),
+        })
+      }),
+    [run, api, saveCheckpoint, addFiles]
+  )
+
+  const forkVersion = useCallback(
+    (version: BoardVersionWithSnapshot) =>
+      run(async () => {
+        if (!api) return
+        const elements = api.getSceneElementsIncludingDeleted()
+        const fork = createForkElements(
+          elements,
+          version.snapshot.elements,
+          `Fork of ${getBoardVersionLabel(version)}`
+        )
+        if (fork.length === 0) return
+        addFiles(version)
+        api.updateScene({ elements: [...elements, ...fork] })
+        api.scrollToContent(fork, { fitToContent: true, animate: true })
+      }),
+    [run, api, addFiles]
+  )
+
+  useEffect(() => {
+    if (enabled && projectId) refresh()
+  }, [enabled, projectId, refresh])
+
+  return {
+    versions,
+    users,
+    loading,
+    working,
+    error,
+    refresh,
+    createCheckpoint,
+    renameVersion,
+    deleteCheckpoint,
+    loadVersion,
+    restoreVersion,
+    forkVersion,
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * useBoardProjectSync Hook
+ *
+ * Keeps a whiteboard's generated cards in step with the project (see
+ * lib/board-bindings.ts). Project changes, including ones made by others
+ * while the board is open, update the cards they show. Names and colors
+ * changed on the board are offered to write back to the project, or to
+ * revert.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { supabase } from '@/lib/supaClient'
+import { authorizedFetch } from '@/lib/api-client'
+import { migrateProject } from '@/lib/project-migrations'
+import { mergeElements } from '@/lib/board-sync'
+import {
+  applyBoardEdits,
+  countStaleCards,
+  getBindingKey,
+  getBoardEdits,
+  getWriteBackRequest,
+  revertBoardEdits,
+  syncBoardWithProject,
+} from '@/lib/board-bindings'
+import { BoardEdit, Project } from '@/types'
+
+type ExcalidrawElement = any
+type ExcalidrawImperativeAPI = any
+
+export interface UseBoardProjectSyncOptions {
+  /** The Excalidraw API once the board is ready */
+  api: ExcalidrawImperativeAPI | null
+  /** Called with the project as updated elsewhere or by writing back edits */
+  onProjectUpdate: (project: Project) => void
+  /** Whether the user may write edits back (default: true) */
+  canEdit?: boolean
+}
+
+export interface UseBoardProjectSyncReturn {
+  /** Board edits the project doesn't have yet */
+  edits: BoardEdit[]
+  /** Cards whose item, version or part is gone from the project */
+  staleCount: number
+  /** Whether edits are being written back */
+  isApplying: boolean
+  error: string | null
+  /** Look for board edits; call with the scene on every change */
+  checkBoard: (elements: readonly ExcalidrawElement[]) => void
+  /** Write the pending edits to the project */
+  applyEdits: () => Promise<void>
+  /** Put the edited cards back to what the project holds */
+  revertEdits: () => void
+}
+
+// Same edits, to skip re-rendering on every change of the scene
+function getEditsSignature(edits: readonly BoardEdit[]): string {
+  return edits
+    .map((edit) => `${getBindingKey(edit.binding)}=${edit.boardValue}`)
+    .join('\n')
+}
+
+export function useBoardProjectSync(
+  project: Project | null,
+  { api, onProjectUpdate, canEdit = true }: UseBoardProjectSyncOptions
+): UseBoardProjectSyncReturn {
+  const [edits, setEdits] = useState<BoardEdit[]>([])
+  const [staleCount, setStaleCount] = useState(0)
+  const [isApplying, setIsApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const projectRef = useRef(project)
+  const onProjectUpdateRef = useRef(onProjectUpdate)
+  const editsSignatureRef = useRef('')
+  projectRef.current = project
+  onProjectUpdateRef.current = onProjectUpdate
+
+  const projectId = project?.id
+
+  // Project changes made elsewhere, e.g. a part renamed in the item editor
+  useEffect(() => {
+    if (!projectId) return
+
+    const channel = supabase
+      .channel(`project-board-sync:${projectId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'projects',
+          filter: `id=eq.${projectId}`,
+        },
+        (payload) => {
+          const current = projectRef.current
+          if (!current) return
+          const row = payload.new as Project
+          // Large unchanged columns can be left out of the update
+          if (!Array.isArray(row.items)) {
+            onProjectUpdateRef.current({
+              ...current,
+              ...row,
+              items: current.items,
+              schema_version: current.schema_version,
+            })
+            return
+          }
+          onProjectUpdateRef.current(migrateProject({ ...current, ...row }))
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [projectId])
+
+  const checkBoard = useCallback(
+    (elements: readonly ExcalidrawElement[]) => {
+      const current = projectRef.current
+      if (!current) return
+      const editingId = api?.getAppState().editingTextElement?.id
+      const next = canEdit
+        ? getBoardEdits(elements, current, editingId).filter((edit) =>
+            getWriteBackRequest(current.id, edit)
+          )
+        : []
+
+      const signature = getEditsSignature(next)
+      if (signature !== editsSignatureRef.current) {
+        editsSignatureRef.current = signature
+        setEdits(next)
+      }
+      setStaleCount(countStaleCards(elements))
+    },
+    [api, canEdit]
+  )
+
+  // Cards follow the project. Every open board makes the same change;
+  // merging keeps one copy of each.
+  useEffect(() => {
+    if (!api || !project) return
+    const elements = api.getSceneElementsIncludingDeleted()
+    const changed = syncBoardWithProject(elements, project)
+    if (changed.length > 0) {
+      const editingId = api.getAppState().editingTextElement?.id
+      api.updateScene({
+        elements: mergeElements(elements, changed, (id) => id === editingId),
+      })
+    }
+    checkBoard(api.getSceneElementsIncludingDeleted())
+  }, [api, project, checkBoard])
+
+  const applyEdits = useCallback(async () => {
+    const current = projectRef.current
+    if (!current || edits.length === 0) return
+    setIsApplying(true)
+    setError(null)
+
+    const applied: BoardEdit[] = []
+    try {
+      for (const edit of edits) {
+        const writeBack = getWriteBackRequest(current.id, edit)
+        if (!writeBack) continue
+        const response = await authorizedFetch(writeBack.path, {
+          method: 'PATCH',
+          body: JSON.stringify(writeBack.body),
+        })
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}))
+          throw new Error(body.error || 'Failed to update project')
+        }
+        applied.push(edit)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update project')
+    } finally {
+      // What was written is in the project either way
+      if (applied.length > 0) {
+        onProjectUpdateRef.current(applyBoardEdits(current, applied))
+      }
+      setIsApplying(false)
+    }
+  }, [edits])
+
+  const revertEdits = useCallback(() => {
+    if (!api || edits.length === 0) return
+    const elements = api.getSceneElementsIncludingDeleted()
+    api.updateScene({
+      elements: mergeElements(elements, revertBoardEdits(elements, edits)),
+    })
+    setError(null)
+  }, [api, edits])
+
+  return {
+    edits,
+    staleCount,
+    isApplying,
+    error,
+    checkBoard,
+    applyEdits,
+    revertEdits,
+  }
+}
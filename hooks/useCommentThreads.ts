@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supaClient'
+import { Mentionable, extractMentions } from '@/lib/comments'
+import {
+  CommentAnchor,
+  CommentThread,
+  CommentThreadStatus,
+  ThreadComment,
+} from '@/types'
+import { useRealtimeProject } from './useRealtimeProject'
+
+/**
+ * Comment threads for a project, kept live through useRealtimeProject's
+ * channel, plus the actions to start, answer, resolve and reopen them.
+ */
+export function useCommentThreads(projectId: string) {
+  const {
+    project,
+    collaborators,
+    threads,
+    comments,
+    isOnline,
+    upsertThread,
+    upsertComment,
+  } = useRealtimeProject(projectId)
+  const [profiles, setProfiles] = useState<Map<string, string>>(new Map())
+  const [error, setError] = useState<string | null>(null)
+
+  // Display names for the owner, collaborators and comment authors
+  const userIds = useMemo(() => {
+    const ids = new Set<string>()
+    if (project?.user_id) ids.add(project.user_id)
+    collaborators.forEach((collaborator) => ids.add(collaborator.user_id))
+    comments.forEach((comment) => comment.user_id && ids.add(comment.user_id))
+    return Array.from(ids).sort()
+  }, [project?.user_id, collaborators, comments])
+  const userIdsKey = userIds.join(',')
+
+  useEffect(() => {
+    if (userIds.length === 0) return
+
+    const fetchProfiles = async () => {
+      const { data, error: profilesError } = await supabase
+        .from('user_profiles')
+        .select('user_id, display_name')
+        .in('user_id', userIds)
+
+      if (!profilesError && data) {
+        setProfiles(
+          new Map(
+            data
+              .filter((profile) => profile.display_name)
+              .map((profile) => [profile.user_id, profile.display_name])
+          )
+        )
+      }
+    }
+
+    fetchProfiles()
+    // userIdsKey stands in for userIds so new array identities don't refetch
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userIdsKey])
+
+  const getUserName = useCallback(
+    (userId: string | null) => {
+      if (!userId) return 'Unknown user'
+      const collaborator = collaborators.find(
+        (entry) => entry.user_id === userId
+      )
+      return (
+        profiles.get(userId) ||
+        collaborator?.user_full_name ||
+        collaborator?.user_email ||
+        (userId === project?.user_id ? 'Project owner' : 'Unknown user')
+      )
+    },
+    [collaborators, profiles, project?.user_id]
+  )
+
+  const members: Mentionable[] = useMemo(
+    () =>
+      userIds
+        .filter(
+          (userId) =>
+            userId === project?.user_id ||
+            collaborators.some((entry) => entry.user_id === userId)
+        )
+        .map((userId) => ({ user_id: userId, name: getUserName(userId) })),
+    [userIds, project?.user_id, collaborators, getUserName]
+  )
+
+  const getCurrentUserId = async (): Promise<string> => {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session?.user) throw new Error('You must be signed in to comment')
+    return session.user.id
+  }
+
+  const insertComment = async (
+    threadId: string,
+    userId: string,
+    body: string
+  ): Promise<ThreadComment> => {
+    const { data, error: insertError } = await supabase
+      .from('comments')
+      .insert({
+        thread_id: threadId,
+        project_id: projectId,
+        user_id: userId,
+        body,
+        mentions: extractMentions(body),
+      })
+      .select()
+      .single()
+
+    if (insertError) throw insertError
+    upsertComment(data)
+    return data
+  }
+
+  const run = async <T>(action: () => Promise<T>): Promise<T | null> => {
+    setError(null)
+    try {
+      return await action()
+    } catch (err) {
+      console.error('Comment thread error:', err)
+      setError(
+        err instanceof Error
+          ? err.message
+          : (err as { message?: string })?.message || 'Failed to save comment'
+      )
+      return null
+    }
+  }
+
+  const createThread = (anchor: CommentAnchor, body: string) =>
+    run(async () => {
+      const userId = await getCurrentUserId()
+      const { data, error: insertError } = await supabase
+        .from('comment_threads')
+        .insert({ ...anchor, project_id: projectId, created_by: userId })
+        .select()
+        .single()
+
+      if (insertError) throw insertError
+      upsertThread(data)
+      await insertComment(data.id, userId, body)
+      return data as CommentThread
+    })
+
+  const reply = (threadId: string, body: string) =>
+    run(async () => insertComment(threadId, await getCurrentUserId(), body))
+
+  const setThreadStatus = (threadId: string, status: CommentThreadStatus) =>
+    run(async () => {
+      const userId = await getCurrentUserId()
+      const { data, error: updateError } = await supabase
+        .from('comment_threads')
+        .update({
+          status,
+          resolved_by: status === 'resolved' ? userId : null,
+          resolved_at: status === 'resolved' ? new Date().toISOString() : null,
+        })
+        .eq('id', threadId)
+        .select()
+        .single()
+
+      if (updateError) throw updateError
+      upsertThread(data)
+      return data as CommentThread
+    })
+
+  return {
+    threads,
+    comments,
+    members,
+    isOnline,
+    error,
+    getUserName,
+    createThread,
+    reply,
+    setThreadStatus,
+  }
+}
+
+export type CommentThreadsController = ReturnType<typeof useCommentThreads>
@@ -2,7 +2,10 @@
  * useExcalidrawBoard Hook
  * 
  * Hook to manage Excalidraw board persistence with Supabase.
- * Handles loading, saving, and auto-saving of board state.
+ * Edits are sent as operations holding only the changed elements and
+ * merged with everyone else's per element (see lib/board-sync-client.ts),
+ * so concurrent edits no longer overwrite each other on save. Unsent
+ * edits are kept in localStorage and sent once the connection is back.
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react'
@@ -10,7 +13,12 @@ import { useState, useCallback, useEffect, useRef } from 'react'
 type ExcalidrawElement = any
 type AppState = any
 type BinaryFiles = Record<string, any>
-import { supabase } from '@/lib/supaClient'
+import {
+  BoardSyncClient,
+  BoardSyncStatus,
+  RemoteBoardChanges,
+} from '@/lib/board-sync-client'
+import { BoardChange } from '@/types'
 
 /**
  * Excalidraw board snapshot structure
@@ -22,22 +30,26 @@ export interface ExcalidrawBoardSnapshot {
 }
 
 /**
- * Database board record structure
+ * Board as loaded, with the operations up to `seq` applied
  */
 export interface ExcalidrawBoardRecord {
   project_id: string
-  board_snapshot: ExcalidrawBoardSnapshot | Record<string, never>
-  created_at: string
-  updated_at: string
+  board_id: string
+  board_snapshot: ExcalidrawBoardSnapshot
+  seq: number
 }
 
 export interface UseExcalidrawBoardOptions {
-  /** Auto-save interval in milliseconds (default: 3000) */
+  /** Longest time edits wait to be sent while drawing continues, in ms (default: 3000) */
   autoSaveInterval?: number
   /** Enable auto-save (default: true) */
   enableAutoSave?: boolean
-  /** Debounce time for onChange in ms (default: 1000) */
+  /** Quiet time after an edit before it is sent, in ms (default: 1000) */
   debounceMs?: number
+  /** How often to fetch edits the collaboration channel may have missed, in ms (default: 30000) */
+  catchUpInterval?: number
+  /** Callback with edits other clients saved, found when catching up */
+  onRemoteChanges?: (changes: RemoteBoardChanges) => void
 }
 
 export interface UseExcalidrawBoardReturn {
@@ -47,20 +59,26 @@ export interface UseExcalidrawBoardReturn {
   loading: boolean
   /** Error message if any */
   error: string | null
-  /** Whether there are unsaved changes */
+  /** Whether there are edits the server doesn't have yet */
   hasUnsavedChanges: boolean
   /** Last saved timestamp */
   lastSavedAt: Date | null
-  /** Fetch the board from Supabase */
+  /** Whether edits are being sent, or waiting for the connection */
+  syncStatus: BoardSyncStatus
+  /** Fetch the board */
   fetchBoard: () => Promise<ExcalidrawBoardRecord | null>
-  /** Save the board snapshot to Supabase */
+  /** Save the changes in a snapshot */
   saveBoard: (snapshot: ExcalidrawBoardSnapshot) => Promise<boolean>
-  /** Update local board state (triggers auto-save if enabled) */
+  /** Queue the changed elements (triggers auto-save if enabled); returns the change to broadcast */
   updateLocalBoard: (
     elements: readonly ExcalidrawElement[],
     appState: AppState,
     files: BinaryFiles
-  ) => void
+  ) => BoardChange | null
+  /** Record elements received from a collaborator so they aren't sent back */
+  receiveRemoteElements: (elements: readonly ExcalidrawElement[], files?: BinaryFiles) => void
+  /** Fetch edits saved by others since the last fetch, e.g. after reconnecting */
+  catchUp: () => Promise<void>
   /** Force save immediately */
   forceSave: () => Promise<boolean>
   /** Get initial data for Excalidraw */
@@ -72,44 +90,54 @@ export interface UseExcalidrawBoardReturn {
  */
 export function useExcalidrawBoard(
   projectId: string,
+  boardId: string,
   options: UseExcalidrawBoardOptions = {}
 ): UseExcalidrawBoardReturn {
   const { 
     autoSaveInterval = 3000, 
     enableAutoSave = true,
     debounceMs = 1000,
+    catchUpInterval = 30000,
+    onRemoteChanges,
   } = options
 
   const [board, setBoard] = useState<ExcalidrawBoardRecord | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
+  const [pending, setPending] = useState(0)
+  const [syncStatus, setSyncStatus] = useState<BoardSyncStatus>('idle')
   const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
 
-  // Refs for auto-save
-  const pendingSnapshotRef = useRef<ExcalidrawBoardSnapshot | null>(null)
-  const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const clientRef = useRef<BoardSyncClient | null>(null)
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null)
-  const isSavingRef = useRef(false)
-  const lastSnapshotHashRef = useRef<string>('')
+  const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const onRemoteChangesRef = useRef(onRemoteChanges)
+  onRemoteChangesRef.current = onRemoteChanges
 
   /**
-   * Create a simple hash of elements to detect changes
+   * One sync client per board; it picks up edits an earlier visit left unsent
    */
-  const hashSnapshot = useCallback((elements: readonly ExcalidrawElement[]): string => {
-    return JSON.stringify(elements.map(e => ({ 
-      id: e.id, 
-      version: e.version,
-      isDeleted: e.isDeleted,
-    })))
-  }, [])
+  const getClient = useCallback((): BoardSyncClient => {
+    if (!clientRef.current || clientRef.current.boardId !== boardId) {
+      clientRef.current?.dispose()
+      clientRef.current = new BoardSyncClient(projectId, boardId, {
+        onPendingChange: setPending,
+        onStatusChange: (status) => {
+          setSyncStatus(status)
+          if (status === 'synced') setLastSavedAt(new Date())
+        },
+      })
+      setPending(clientRef.current.pending)
+    }
+    return clientRef.current
+  }, [projectId, boardId])
 
   /**
-   * Fetch board from Supabase using the RPC function
+   * Fetch the board, with its operations applied
    */
   const fetchBoard = useCallback(async (): Promise<ExcalidrawBoardRecord | null> => {
-    if (!projectId) {
-      setError('No project ID provided')
+    if (!projectId || !boardId) {
+      setError('No project or board ID provided')
       return null
     }
 
@@ -117,327 +145,184 @@ export function useExcalidrawBoard(
     setError(null)
 
     try {
-      const { data, error: rpcError } = await supabase.rpc(
-        'get_or_create_project_board',
-        { p_project_id: projectId }
-      )
-
-      if (rpcError) {
-        console.error('RPC Error:', rpcError)
-        throw rpcError
-      }
-
-      if (!data) {
-        throw new Error('No data returned from get_or_create_project_board')
-      }
-
-      // Handle both array and single object responses
-      const boardResult = Array.isArray(data) ? data[0] : data
-
-      if (!boardResult) {
-        throw new Error('No board data returned')
-      }
-
-      // Parse the board snapshot
-      let boardSnapshot: ExcalidrawBoardSnapshot | Record<string, never> = {}
-      
-      if (boardResult.board_snapshot) {
-        const snapshot = boardResult.board_snapshot
-        
-        // Check if it's already in Excalidraw format
-        if (Array.isArray(snapshot.elements)) {
-          boardSnapshot = {
-            elements: snapshot.elements || [],
-            appState: snapshot.appState || {},
-            files: snapshot.files || {},
-          }
-        } else if (snapshot.store) {
-          // Legacy tldraw format - start fresh
-          console.log('Legacy tldraw format detected, starting with empty board')
-          boardSnapshot = {}
-        } else {
-          boardSnapshot = snapshot
-        }
-      }
+      const client = getClient()
+      const snapshot = await client.load()
 
       const boardData: ExcalidrawBoardRecord = {
-        project_id: boardResult.project_id,
-        board_snapshot: boardSnapshot,
-        created_at: boardResult.created_at,
-        updated_at: boardResult.updated_at,
+        project_id: projectId,
+        board_id: boardId,
+        board_snapshot: snapshot,
+        seq: client.seq,
       }
 
       setBoard(boardData)
-      setHasUnsavedChanges(false)
-      
-      if (boardResult.updated_at) {
-        setLastSavedAt(new Date(boardResult.updated_at))
-      }
-      
       return boardData
     } catch (err) {
-      let errorMessage = 'Failed to fetch board'
-      
-      if (err instanceof Error) {
-        errorMessage = err.message
-      } else if (typeof err === 'object' && err !== null) {
-        const errorObj = err as { message?: string; details?: string; hint?: string; code?: string }
-        errorMessage = errorObj.message || errorObj.details || errorObj.hint || errorMessage
-        
-        // Provide helpful error messages
-        if (errorObj.code === '42883' || errorMessage.includes('function')) {
-          errorMessage = 'Database function not found. Please ensure the project_boards table and functions are set up.'
-        } else if (errorObj.code === '42501' || errorMessage.includes('permission')) {
-          errorMessage = 'Access denied. You may not have permission to access this board.'
-        }
-      }
-      
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch board'
       setError(errorMessage)
       console.error('Error fetching board:', err)
       return null
     } finally {
       setLoading(false)
     }
-  }, [projectId])
+  }, [projectId, boardId, getClient])
+
+  const clearTimers = useCallback(() => {
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current)
+      debounceTimerRef.current = null
+    }
+    if (autoSaveTimerRef.current) {
+      clearTimeout(autoSaveTimerRef.current)
+      autoSaveTimerRef.current = null
+    }
+  }, [])
 
   /**
-   * Save board snapshot to Supabase
+   * Send queued edits now
    */
-  const saveBoard = useCallback(
-    async (snapshot: ExcalidrawBoardSnapshot): Promise<boolean> => {
-      if (!projectId) {
-        setError('No project ID provided')
-        return false
-      }
-
-      if (isSavingRef.current) {
-        // Queue the snapshot for later
-        pendingSnapshotRef.current = snapshot
-        return false
-      }
-
-      isSavingRef.current = true
-
-      try {
-        const { data, error: rpcError } = await supabase.rpc(
-          'save_project_board',
-          {
-            p_project_id: projectId,
-            p_snapshot: snapshot as unknown as Record<string, unknown>,
-          }
-        )
-
-        if (rpcError) {
-          throw rpcError
-        }
-
-        if (data && data.length > 0) {
-          setBoard({
-            project_id: data[0].project_id,
-            board_snapshot: data[0].board_snapshot || {},
-            created_at: data[0].created_at,
-            updated_at: data[0].updated_at,
-          })
-          setLastSavedAt(new Date())
-        }
-
-        setHasUnsavedChanges(false)
-        setError(null)
-        return true
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to save board'
-        setError(errorMessage)
-        console.error('Error saving board:', err)
-        return false
-      } finally {
-        isSavingRef.current = false
-
-        // Check if there's a pending snapshot to save
-        if (pendingSnapshotRef.current) {
-          const pending = pendingSnapshotRef.current
-          pendingSnapshotRef.current = null
-          // Save the pending snapshot after a short delay
-          setTimeout(() => saveBoard(pending), 100)
-        }
-      }
-    },
-    [projectId]
-  )
+  const forceSave = useCallback(async (): Promise<boolean> => {
+    clearTimers()
+    const client = clientRef.current
+    if (!client || client.pending === 0) return true // Nothing to save
+    return client.send()
+  }, [clearTimers])
 
   /**
-   * Update local board state (triggers auto-save if enabled)
+   * Queue the changed elements (triggers auto-save if enabled)
    */
   const updateLocalBoard = useCallback(
     (
       elements: readonly ExcalidrawElement[],
       appState: AppState,
       files: BinaryFiles
-    ) => {
-      // Check if elements actually changed
-      const currentHash = hashSnapshot(elements)
-      if (currentHash === lastSnapshotHashRef.current) {
-        return
-      }
-      lastSnapshotHashRef.current = currentHash
-
-      const snapshot: ExcalidrawBoardSnapshot = {
-        elements: [...elements] as ExcalidrawElement[],
-        appState: {
-          viewBackgroundColor: appState.viewBackgroundColor,
-          zoom: appState.zoom,
-          scrollX: appState.scrollX,
-          scrollY: appState.scrollY,
-          gridSize: appState.gridSize,
-        },
-        files,
+    ): BoardChange | null => {
+      const change = getClient().commit(elements, appState, files)
+      if (!change || !enableAutoSave) return change
+
+      // Send once editing pauses, and at least every autoSaveInterval
+      if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current)
+      debounceTimerRef.current = setTimeout(forceSave, debounceMs)
+      if (!autoSaveTimerRef.current) {
+        autoSaveTimerRef.current = setTimeout(forceSave, autoSaveInterval)
       }
 
-      // Update local state
-      setBoard((prev) =>
-        prev
-          ? { ...prev, board_snapshot: snapshot, updated_at: new Date().toISOString() }
-          : null
-      )
-      setHasUnsavedChanges(true)
-      pendingSnapshotRef.current = snapshot
-
-      // Debounce the auto-save
-      if (debounceTimerRef.current) {
-        clearTimeout(debounceTimerRef.current)
-      }
-
-      if (enableAutoSave) {
-        debounceTimerRef.current = setTimeout(() => {
-          // Clear existing auto-save timer
-          if (autoSaveTimerRef.current) {
-            clearTimeout(autoSaveTimerRef.current)
-          }
-
-          // Set up new auto-save timer
-          autoSaveTimerRef.current = setTimeout(() => {
-            if (pendingSnapshotRef.current) {
-              saveBoard(pendingSnapshotRef.current).catch((error) => {
-                console.error('Auto-save failed:', error)
-              })
-            }
-          }, autoSaveInterval)
-        }, debounceMs)
-      }
+      return change
     },
-    [enableAutoSave, autoSaveInterval, debounceMs, saveBoard, hashSnapshot]
+    [getClient, enableAutoSave, debounceMs, autoSaveInterval, forceSave]
   )
 
   /**
-   * Force save immediately
+   * Save the changes in a snapshot
    */
-  const forceSave = useCallback(async (): Promise<boolean> => {
-    // Clear timers
-    if (autoSaveTimerRef.current) {
-      clearTimeout(autoSaveTimerRef.current)
-      autoSaveTimerRef.current = null
-    }
-    if (debounceTimerRef.current) {
-      clearTimeout(debounceTimerRef.current)
-      debounceTimerRef.current = null
-    }
+  const saveBoard = useCallback(
+    async (snapshot: ExcalidrawBoardSnapshot): Promise<boolean> => {
+      getClient().commit(snapshot.elements, snapshot.appState, snapshot.files)
+      return forceSave()
+    },
+    [getClient, forceSave]
+  )
 
-    if (pendingSnapshotRef.current) {
-      return saveBoard(pendingSnapshotRef.current)
-    }
+  const receiveRemoteElements = useCallback(
+    (elements: readonly ExcalidrawElement[], files?: BinaryFiles) => {
+      getClient().receive(elements, files)
+    },
+    [getClient]
+  )
 
-    const snapshot = board?.board_snapshot
-    if (snapshot && 'elements' in snapshot && Array.isArray(snapshot.elements)) {
-      return saveBoard(snapshot as ExcalidrawBoardSnapshot)
-    }
+  /**
+   * Fetch edits saved by others since the last fetch
+   */
+  const catchUp = useCallback(async () => {
+    const client = clientRef.current
+    if (!client || loading) return
 
-    return true // Nothing to save
-  }, [board, saveBoard])
+    try {
+      const changes = await client.catchUp()
+      if (changes) onRemoteChangesRef.current?.(changes)
+    } catch (err) {
+      // The next catch-up gets the same operations
+      console.error('Error catching up on board changes:', err)
+    }
+  }, [loading])
 
   /**
    * Get initial data for Excalidraw component
    */
   const getInitialData = useCallback(() => {
     const snapshot = board?.board_snapshot
-    
-    if (!snapshot || Object.keys(snapshot).length === 0) {
-      return undefined
-    }
+    if (!snapshot) return undefined
 
-    if ('elements' in snapshot && Array.isArray(snapshot.elements)) {
-      return {
-        elements: snapshot.elements,
-        appState: snapshot.appState || {},
-        files: snapshot.files || {},
-      }
+    return {
+      elements: snapshot.elements,
+      appState: snapshot.appState || {},
+      files: snapshot.files || {},
     }
-
-    return undefined
   }, [board])
 
-  // Fetch board on mount
+  // Fetch board on mount, and again when switching boards
   useEffect(() => {
-    if (projectId) {
+    setBoard(null)
+    if (projectId && boardId) {
       fetchBoard()
     }
-  }, [projectId, fetchBoard])
+  }, [projectId, boardId, fetchBoard])
 
-  // Cleanup on unmount
+  // Pick up what the collaboration channel missed, and send and fetch
+  // edits as soon as the connection is back
   useEffect(() => {
+    const interval = setInterval(catchUp, catchUpInterval)
+    const handleOnline = () => {
+      forceSave()
+      catchUp()
+    }
+
+    window.addEventListener('online', handleOnline)
     return () => {
-      if (autoSaveTimerRef.current) {
-        clearTimeout(autoSaveTimerRef.current)
-      }
-      if (debounceTimerRef.current) {
-        clearTimeout(debounceTimerRef.current)
-      }
-      
-      // Save any pending changes before unmount
-      if (pendingSnapshotRef.current && !isSavingRef.current) {
-        supabase
-          .rpc('save_project_board', {
-            p_project_id: projectId,
-            p_snapshot: pendingSnapshotRef.current as unknown as Record<string, unknown>,
-          })
-          .then(({ error }) => {
-            if (error) console.error('Error saving on unmount:', error)
-          })
+      clearInterval(interval)
+      window.removeEventListener('online', handleOnline)
+    }
+  }, [catchUp, catchUpInterval, forceSave])
+
+  // Send what's left on unmount or when switching boards; anything unsent
+  // stays in localStorage
+  useEffect(() => {
+    return () => {
+      clearTimers()
+      const client = clientRef.current
+      if (client) {
+        if (client.pending > 0) client.send()
+        client.dispose()
+        clientRef.current = null
       }
     }
-  }, [projectId])
+  }, [boardId, clearTimers])
 
-  // Save before page unload
+  // Warn before leaving with unsent edits
   useEffect(() => {
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
-      if (hasUnsavedChanges) {
+      if (pending > 0) {
         event.preventDefault()
-        event.returnValue = 'You have unsaved changes. Are you sure you want to leave?'
-        
-        // Try to save using sendBeacon
-        if (pendingSnapshotRef.current) {
-          navigator.sendBeacon(
-            '/api/boards/save-beacon',
-            JSON.stringify({
-              projectId,
-              snapshot: pendingSnapshotRef.current,
-            })
-          )
-        }
+        event.returnValue = 'Some changes have not been saved yet. They will be sent the next time you open this board.'
       }
     }
 
     window.addEventListener('beforeunload', handleBeforeUnload)
     return () => window.removeEventListener('beforeunload', handleBeforeUnload)
-  }, [hasUnsavedChanges, projectId])
+  }, [pending])
 
   return {
     board,
     loading,
     error,
-    hasUnsavedChanges,
+    hasUnsavedChanges: pending > 0,
     lastSavedAt,
+    syncStatus,
     fetchBoard,
     saveBoard,
     updateLocalBoard,
+    receiveRemoteElements,
+    catchUp,
     forceSave,
     getInitialData,
   }
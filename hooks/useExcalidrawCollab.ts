@@ -3,12 +3,15 @@
  * 
  * Hook to enable real-time collaboration on Excalidraw boards using Supabase Realtime.
  * Broadcasts element changes and cursor positions to other users.
+ * Broadcasts are the fast path only: they can be missed, so boards also
+ * catch up on the saved operations (see useExcalidrawBoard) after reconnecting.
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react'
 // Types for Excalidraw elements
 type ExcalidrawElement = any
 type AppState = any
+type BinaryFiles = Record<string, any>
 import { supabase } from '@/lib/supaClient'
 import type { RealtimeChannel } from '@supabase/supabase-js'
 
@@ -35,7 +38,9 @@ export interface UseExcalidrawCollabOptions {
   /** User's unique ID */
   userId?: string
   /** Callback when elements change from remote */
-  onRemoteChange?: (elements: ExcalidrawElement[]) => void
+  onRemoteChange?: (elements: ExcalidrawElement[], files?: BinaryFiles) => void
+  /** Callback when the channel is (re)connected and broadcasts may have been missed */
+  onReconnect?: () => void
   /** Callback when collaborator cursors update */
   onCursorsChange?: (cursors: CollaboratorCursor[]) => void
   /** Enable cursor sharing (default: true) */
@@ -49,8 +54,8 @@ export interface UseExcalidrawCollabReturn {
   isConnected: boolean
   /** List of active collaborators */
   collaborators: CollaboratorPresence[]
-  /** Broadcast element changes to collaborators */
-  broadcastElements: (elements: readonly ExcalidrawElement[]) => void
+  /** Broadcast changed elements, and files they use, to collaborators */
+  broadcastElements: (elements: readonly ExcalidrawElement[], files?: BinaryFiles) => void
   /** Broadcast cursor position to collaborators */
   broadcastCursor: (x: number, y: number) => void
   /** Connect to the collaboration channel */
@@ -80,16 +85,18 @@ function getUserColor(userId: string): string {
 }
 
 /**
- * Hook to enable real-time collaboration on Excalidraw boards
+ * Hook to enable real-time collaboration on Excalidraw boards. Each board
+ * has its own channel; the main board's id is the project's, as before.
  */
 export function useExcalidrawCollab(
-  projectId: string,
+  boardId: string,
   options: UseExcalidrawCollabOptions = {}
 ): UseExcalidrawCollabReturn {
   const {
     userName = 'Anonymous',
     userId = Math.random().toString(36).substring(7),
     onRemoteChange,
+    onReconnect,
     onCursorsChange,
     enableCursors = true,
     throttleMs = 50,
@@ -103,34 +110,25 @@ export function useExcalidrawCollab(
   const userColor = useRef(getUserColor(userId))
 
   /**
-   * Broadcast element changes to collaborators
+   * Broadcast changed elements to collaborators. Not throttled: each call
+   * carries different elements, so a dropped call would be a lost edit.
    */
   const broadcastElements = useCallback(
-    (elements: readonly ExcalidrawElement[]) => {
-      if (!channelRef.current || !isConnected) return
-
-      // Throttle broadcasts
-      const now = Date.now()
-      if (now - lastBroadcastRef.current < throttleMs) return
-      lastBroadcastRef.current = now
-
-      // Only send changed elements to reduce payload size
-      const changedElements = elements.filter(el => {
-        // In a real implementation, track element versions
-        return true
-      })
+    (elements: readonly ExcalidrawElement[], files?: BinaryFiles) => {
+      if (!channelRef.current || !isConnected || elements.length === 0) return
 
       channelRef.current.send({
         type: 'broadcast',
         event: 'elements',
         payload: {
           userId,
-          elements: changedElements,
-          timestamp: now,
+          elements,
+          files,
+          timestamp: Date.now(),
         },
       })
     },
-    [isConnected, userId, throttleMs]
+    [isConnected, userId]
   )
 
   /**
@@ -167,7 +165,7 @@ export function useExcalidrawCollab(
   const connect = useCallback(async () => {
     if (channelRef.current) return
 
-    const channelName = `whiteboard:${projectId}`
+    const channelName = `whiteboard:${boardId}`
     
     const channel = supabase.channel(channelName, {
       config: {
@@ -182,7 +180,7 @@ export function useExcalidrawCollab(
       if (payload.payload.userId === userId) return // Ignore own changes
       
       if (onRemoteChange && payload.payload.elements) {
-        onRemoteChange(payload.payload.elements)
+        onRemoteChange(payload.payload.elements, payload.payload.files)
       }
     })
 
@@ -243,17 +241,21 @@ export function useExcalidrawCollab(
     const subscription = await channel.subscribe(async (status) => {
       if (status === 'SUBSCRIBED') {
         setIsConnected(true)
+        onReconnect?.()
         
         // Track presence
         await channel.track({
           userName: userName,
           joinedAt: new Date().toISOString(),
         })
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        // Supabase rejoins by itself and reports SUBSCRIBED again
+        setIsConnected(false)
       }
     })
 
     channelRef.current = channel
-  }, [projectId, userId, userName, onRemoteChange, onCursorsChange, enableCursors])
+  }, [boardId, userId, userName, onRemoteChange, onReconnect, onCursorsChange, enableCursors])
 
   /**
    * Disconnect from the collaboration channel
@@ -267,12 +269,12 @@ export function useExcalidrawCollab(
     }
   }, [])
 
-  // Cleanup on unmount
+  // Cleanup on unmount, and leave the channel when switching boards
   useEffect(() => {
     return () => {
       disconnect()
     }
-  }, [disconnect])
+  }, [boardId, disconnect])
 
   // Clean up stale collaborators periodically
   useEffect(() => {
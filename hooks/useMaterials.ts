@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useTheme } from '@/lib/theme-context'
+import { fetchMaterialsByIds, fetchTeamMaterials } from '@/lib/materials'
+import { Material } from '@/types'
+
+/**
+ * The current user's team materials library, plus any entries from other
+ * teams that `referencedIds` point at (so shared projects still resolve).
+ */
+export function useMaterials(
+  referencedIds: (string | null | undefined)[] = [],
+  { includeArchived = false }: { includeArchived?: boolean } = {}
+) {
+  const { team, loading: teamLoading } = useTheme()
+  const [library, setLibrary] = useState<Material[]>([])
+  const [referenced, setReferenced] = useState<Material[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (teamLoading) return
+    if (!team) {
+      setLibrary([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      setLibrary(await fetchTeamMaterials(team, { includeArchived }))
+    } catch (err) {
+      console.error('Error fetching materials:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load materials')
+    } finally {
+      setLoading(false)
+    }
+  }, [team, teamLoading, includeArchived])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Referenced entries that aren't in the team library (other teams',
+  // or archived ones)
+  const missingKey = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          referencedIds.filter(
+            (id): id is string =>
+              !!id && !library.some((material) => material.id === id)
+          )
+        )
+      )
+        .sort()
+        .join(','),
+    [referencedIds, library]
+  )
+
+  useEffect(() => {
+    if (!missingKey) return
+    fetchMaterialsByIds(missingKey.split(','))
+      .then(setReferenced)
+      .catch((err) =>
+        console.error('Error fetching referenced materials:', err)
+      )
+  }, [missingKey])
+
+  const materials = useMemo(
+    () => [
+      ...library,
+      ...referenced.filter(
+        (material) => !library.some((entry) => entry.id === material.id)
+      ),
+    ],
+    [library, referenced]
+  )
+
+  return {
+    team,
+    /** Entries of the user's team, for pickers and the admin page */
+    library,
+    /** Library plus referenced entries, for resolving material_id */
+    materials,
+    loading: loading || teamLoading,
+    error,
+    refresh,
+  }
+}
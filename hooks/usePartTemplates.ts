@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useAuth } from '@/lib/auth-context'
+import { useTheme } from '@/lib/theme-context'
+import {
+  BUILT_IN_SET_ID,
+  BUILT_IN_TEMPLATE_SET,
+  createTemplateSet,
+  deleteTemplateSet,
+  fetchCanShareGlobally,
+  fetchTemplateSets,
+  parseTemplateSetFile,
+  updateTemplateSet,
+} from '@/lib/part-templates'
+import { PartTemplateSet, PartTemplateSetVersion } from '@/types'
+import { PartTemplateSetFormData } from '@/types/schemas'
+
+/**
+ * Part template sets visible to the current user, with the built-in set
+ * first. Sets fail to load quietly (the built-in set is still there) so the
+ * annotation tools work before the tables are set up.
+ */
+export function usePartTemplates() {
+  const { user } = useAuth()
+  const { team } = useTheme()
+  const [stored, setStored] = useState<PartTemplateSet[]>([])
+  const [canShareGlobally, setCanShareGlobally] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setStored([])
+      setCanShareGlobally(false)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      fetchCanShareGlobally().then(setCanShareGlobally)
+      setStored(await fetchTemplateSets())
+    } catch (err) {
+      console.error('Error fetching part template sets:', err)
+      setError(
+        err instanceof Error ? err.message : 'Failed to load template sets'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const sets = useMemo(() => [BUILT_IN_TEMPLATE_SET, ...stored], [stored])
+
+  // Global sets are only edited by admins, even their owners
+  const canEdit = useCallback(
+    (set: PartTemplateSet) =>
+      set.id !== BUILT_IN_SET_ID &&
+      !!user &&
+      (set.scope !== 'global' || canShareGlobally) &&
+      (set.owner_id === user.id ||
+        (set.scope === 'team' && !!team && set.team === team)),
+    [user, team, canShareGlobally]
+  )
+
+  const replace = useCallback(
+    (saved: PartTemplateSet) =>
+      setStored((current) =>
+        [...current.filter((set) => set.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      ),
+    []
+  )
+
+  const save = useCallback(
+    async (values: PartTemplateSetFormData, id?: string) => {
+      if (!user) throw new Error('You must be signed in to save templates')
+      const saved = id
+        ? await updateTemplateSet(id, values, team)
+        : await createTemplateSet(user.id, team, values)
+      replace(saved)
+      return saved
+    },
+    [user, team, replace]
+  )
+
+  const remove = useCallback(async (id: string) => {
+    await deleteTemplateSet(id)
+    setStored((current) => current.filter((set) => set.id !== id))
+  }, [])
+
+  // Copies land in the user's own scope, whichever set they came from
+  const duplicate = useCallback(
+    (set: PartTemplateSet) =>
+      save({
+        name: `${set.name} (copy)`,
+        description: set.description,
+        scope: 'user',
+        templates: set.templates,
+      }),
+    [save]
+  )
+
+  const importFile = useCallback(
+    async (file: File) => {
+      const parsed = parseTemplateSetFile(await file.text())
+      return save({
+        name: parsed.name,
+        description: parsed.description ?? null,
+        scope: 'user',
+        templates: parsed.templates,
+      })
+    },
+    [save]
+  )
+
+  // Restoring saves the old contents as a new version, so nothing is lost
+  const restoreVersion = useCallback(
+    async (set: PartTemplateSet, version: PartTemplateSetVersion) => {
+      const saved = await updateTemplateSet(set.id, {
+        name: version.name,
+        templates: version.templates,
+      })
+      replace(saved)
+      return saved
+    },
+    [replace]
+  )
+
+  return {
+    sets,
+    team,
+    canShareGlobally,
+    loading,
+    error,
+    refresh,
+    canEdit,
+    save,
+    remove,
+    duplicate,
+    importFile,
+    restoreVersion,
+  }
+}
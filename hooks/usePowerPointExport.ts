@@ -1,8 +1,10 @@
 import { useState, useCallback } from 'react'
 import { generateHTMLPresentation } from '../lib/html-presentation-generator'
 import { generateVisualEditorHTML } from '../lib/visual-editor-html-generator'
-import { ExportOptions, VisualEditorExportOptions } from '../components/project/export-project-modal'
+import { generatePptxPresentation } from '../lib/pptx-presentation-generator'
+import { ExportOptions } from '../components/project/export-project-modal'
 import { Project } from '../types'
+import { supabase } from '../lib/supaClient'
 
 interface ExportState {
   isExporting: boolean
@@ -11,93 +13,149 @@ interface ExportState {
   error: string | null
 }
 
+const INITIAL_STATE: ExportState = {
+  isExporting: false,
+  progress: 0,
+  currentStep: 'Preparing export...',
+  error: null,
+}
 
-export function usePowerPointExport() {
-  const [exportState, setExportState] = useState<ExportState>({
-    isExporting: false,
-    progress: 0,
-    currentStep: 'Preparing export...',
-    error: null,
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Record a finished client-side export so it shows in the project history
+ * and reaches `export_completed` webhooks. PDF exports are logged by the
+ * export route itself.
+ */
+async function logExportCompleted(
+  project: Project,
+  format: 'pptx' | 'html',
+  filename: string
+) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+  if (!session) return
+
+  const { error } = await supabase.from('project_logs').insert({
+    project_id: project.id,
+    user_id: session.user.id,
+    action: 'export_completed',
+    details: {
+      export: { format, filename },
+      changed_by: session.user.email || session.user.id,
+    },
+    timestamp: new Date().toISOString(),
   })
 
+  if (error) {
+    // Don't fail the export - logging is secondary
+    console.error('Failed to log export:', error)
+  }
+}
+
+export function usePowerPointExport() {
+  const [exportState, setExportState] = useState<ExportState>(INITIAL_STATE)
+
   const exportToPowerPoint = useCallback(
     async (project: Project, options: ExportOptions) => {
+      const baseName = project.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()
+
       try {
         setExportState({
           isExporting: true,
           progress: 0,
-          currentStep: 'Initializing PowerPoint...',
+          currentStep:
+            options.format === 'html'
+              ? 'Generating visual editor presentation...'
+              : options.format === 'pdf'
+                ? 'Requesting PDF spec sheet...'
+                : 'Initializing PowerPoint...',
           error: null,
         })
 
-        // Simulate progress updates
-        const progressInterval = setInterval(() => {
+        if (options.format === 'html') {
+          const htmlContent = options.visualEditorOptions
+            ? generateVisualEditorHTML(project, options.visualEditorOptions)
+            : generateHTMLPresentation(project, options)
+          const filename = options.visualEditorOptions
+            ? `${baseName}_visual_editor.html`
+            : `${baseName}_presentation.html`
+          downloadBlob(new Blob([htmlContent], { type: 'text/html' }), filename)
+          await logExportCompleted(project, 'html', filename)
           setExportState((prev) => ({
             ...prev,
-            progress: Math.min(prev.progress + 10, 90),
+            progress: 100,
+            currentStep: 'HTML presentation ready!',
+            isExporting: false,
           }))
-        }, 200)
+        } else if (options.format === 'pdf') {
+          const {
+            data: { session },
+          } = await supabase.auth.getSession()
+          if (!session) {
+            throw new Error('No session found')
+          }
+
+          // The PDF is rendered server-side so it paginates the same everywhere
+          const response = await fetch(
+            `/api/project/${project.id}/export/pdf?theme=${encodeURIComponent(options.theme)}&quality=${options.imageQuality}`,
+            {
+              headers: { Authorization: `Bearer ${session.access_token}` },
+            }
+          )
+          if (!response.ok) {
+            const body = await response.json().catch(() => null)
+            throw new Error(body?.error || 'Failed to generate PDF')
+          }
 
-        // Update steps
-        setTimeout(() => {
           setExportState((prev) => ({
             ...prev,
-            currentStep: 'Collecting project data...',
+            progress: 50,
+            currentStep: 'Downloading PDF...',
           }))
-        }, 500)
-
-        setTimeout(() => {
+          downloadBlob(await response.blob(), `${baseName}_spec_sheet.pdf`)
           setExportState((prev) => ({
             ...prev,
-            currentStep: 'Processing images...',
+            progress: 100,
+            currentStep: 'PDF spec sheet ready!',
+            isExporting: false,
           }))
-        }, 1000)
-
-        setTimeout(() => {
+        } else {
+          // Progress is driven by the generator, one step per slide
+          const blob = await generatePptxPresentation(
+            project,
+            options,
+            ({ completed, total, step }) => {
+              setExportState((prev) => ({
+                ...prev,
+                progress: Math.round((completed / total) * 100),
+                currentStep: step,
+              }))
+            }
+          )
+          const filename = `${baseName}_presentation.pptx`
+          downloadBlob(blob, filename)
+          await logExportCompleted(project, 'pptx', filename)
           setExportState((prev) => ({
             ...prev,
-            currentStep: options.visualEditorOptions ? 'Generating visual editor presentation...' : 'Generating HTML presentation...',
+            progress: 100,
+            isExporting: false,
           }))
-        }, 1500)
-
-        // Generate HTML Presentation
-        const htmlContent = options.visualEditorOptions 
-          ? generateVisualEditorHTML(project, options.visualEditorOptions)
-          : generateHTMLPresentation(project, options)
-        const blob = new Blob([htmlContent], { type: 'text/html' })
-
-        // Clear progress interval
-        clearInterval(progressInterval)
-
-        // Final progress update
-        setExportState((prev) => ({
-          ...prev,
-          progress: 100,
-          currentStep: 'HTML presentation ready!',
-          isExporting: false,
-        }))
-
-        // Trigger download
-        const url = URL.createObjectURL(blob)
-        const a = document.createElement('a')
-        a.href = url
-        const filename = options.visualEditorOptions 
-          ? `${project.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_visual_editor.html`
-          : `${project.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_presentation.html`
-        a.download = filename
-        document.body.appendChild(a)
-        a.click()
-        document.body.removeChild(a)
-        URL.revokeObjectURL(url)
+        }
 
         // Reset state after a delay
         setTimeout(() => {
-          setExportState({
-            isExporting: false,
-            progress: 0,
-            currentStep: 'Preparing export...',
-            error: null,
-          })
+          setExportState(INITIAL_STATE)
         }, 3000)
       } catch (error) {
         console.error('Export error:', error)
@@ -108,7 +166,7 @@ export function usePowerPointExport() {
           error:
             error instanceof Error
               ? error.message
-              : 'Failed to generate HTML presentation',
+              : 'Failed to generate presentation',
         })
       }
     },
@@ -116,12 +174,7 @@ export function usePowerPointExport() {
   )
 
   const resetExport = useCallback(() => {
-    setExportState({
-      isExporting: false,
-      progress: 0,
-      currentStep: 'Preparing export...',
-      error: null,
-    })
+    setExportState(INITIAL_STATE)
   }, [])
 
   return {
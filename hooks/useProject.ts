@@ -1,6 +1,16 @@
 import { useState, useCallback } from 'react'
 import { supabase } from '@/lib/supaClient'
 import { Project, CreateProjectData } from '@/types'
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateItems,
+  migrateProject,
+} from '@/lib/project-migrations'
+import {
+  RestoreScope,
+  applyPartialRestore,
+  getRestoreScopeDetails,
+} from '@/lib/project-restore'
 
 export function useProject() {
   const [loading, setLoading] = useState(false)
@@ -24,6 +34,7 @@ export function useProject() {
       // Add user_id to the project data
       const projectData = {
         ...data,
+        items: migrateItems(data.items),
         user_id: session.user.id,
       }
 
@@ -62,7 +73,7 @@ export function useProject() {
         title: p.project_title || p.title,
         retailer: p.project_retailer || p.retailer,
         due_date: p.due_date || undefined,
-        items: p.project_items || p.items || [],
+        items: migrateItems(p.project_items || p.items, p.schema_version),
         user_id: p.project_user_id || p.user_id,
         created_at: p.project_created_at || p.created_at,
         updated_at: p.project_updated_at || p.updated_at,
@@ -113,7 +124,7 @@ export function useProject() {
           title: project.title,
           retailer: project.retailer,
           due_date: project.due_date || undefined,
-          items: project.items || [],
+          items: migrateItems(project.items, project.schema_version),
           user_id: project.user_id,
           created_at: project.created_at,
           updated_at: project.updated_at,
@@ -167,7 +178,8 @@ export function useProject() {
             p_project_id: projectId,
             p_title: previousData.title,
             p_retailer: previousData.retailer,
-            p_items: previousData.items,
+            p_items: migrateItems(previousData.items),
+            p_schema_version: CURRENT_SCHEMA_VERSION,
           })
 
         if (updateError) throw updateError
@@ -242,11 +254,120 @@ export function useProject() {
     []
   )
 
+  /**
+   * Copy one item, version or part from a log entry's previous_data into
+   * the current project, keeping every other change made since
+   */
+  const restoreProjectScope = useCallback(
+    async (
+      projectId: string,
+      logId: string,
+      scope: RestoreScope
+    ): Promise<Project | null> => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        const {
+          data: { session },
+        } = await supabase.auth.getSession()
+        if (!session) {
+          throw new Error('No session found')
+        }
+
+        const { data: logEntry, error: logError } = await supabase
+          .from('project_logs')
+          .select('*')
+          .eq('id', logId)
+          .eq('project_id', projectId)
+          .single()
+
+        if (logError) throw logError
+        if (!logEntry) throw new Error('Log entry not found')
+
+        const snapshot: Project | undefined = logEntry.details?.previous_data
+        if (!snapshot) {
+          throw new Error('No previous data available for this version')
+        }
+
+        // Merge into the latest saved state, not the one shown in the preview
+        const { data: projectData, error: projectError } = await supabase.rpc(
+          'get_user_project',
+          { p_project_id: projectId }
+        )
+
+        if (projectError) throw projectError
+        if (!projectData || projectData.length === 0) {
+          throw new Error('Project not found or access denied')
+        }
+
+        const current: Project = {
+          ...projectData[0],
+          items: migrateItems(
+            projectData[0].items,
+            projectData[0].schema_version
+          ),
+        }
+        const merged = applyPartialRestore(
+          current,
+          migrateProject(snapshot),
+          scope
+        )
+
+        const { error: updateError } = await supabase.rpc(
+          'update_user_project',
+          {
+            p_project_id: projectId,
+            p_title: current.title,
+            p_retailer: current.retailer,
+            p_due_date: current.due_date || null,
+            p_items: merged.items,
+            p_schema_version: CURRENT_SCHEMA_VERSION,
+          }
+        )
+
+        if (updateError) throw updateError
+
+        const { error: restoreLogError } = await supabase
+          .from('project_logs')
+          .insert([
+            {
+              project_id: projectId,
+              user_id: session.user.id,
+              action: 'project_restored',
+              details: {
+                previous_data: current,
+                new_data: merged,
+                restored_from_log_id: logId,
+                restore_scope: getRestoreScopeDetails(snapshot, scope),
+              },
+              timestamp: new Date().toISOString(),
+            },
+          ])
+
+        if (restoreLogError) {
+          console.error('Failed to log restore action:', restoreLogError)
+        }
+
+        return merged
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to restore project'
+        )
+        return null
+      } finally {
+        setLoading(false)
+      }
+    },
+    []
+  )
+
   return {
     createProject,
     getProjects,
     getProject,
     restoreProject,
+    restoreProjectScope,
     loading,
     error,
   }
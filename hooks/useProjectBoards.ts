@@ -0,0 +1,193 @@
+/**
+ * useProjectBoards Hook
+ *
+ * A project's whiteboards (see lib/project-boards.ts): the ones the user
+ * can open, in order, with adding, renaming, reordering, permissions and
+ * deleting.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { authorizedFetch } from '@/lib/api-client'
+import {
+  BoardEditPermission,
+  BoardList,
+  BoardSummary,
+  BoardViewPermission,
+} from '@/types'
+
+export interface UseProjectBoardsReturn {
+  /** Boards the user can open, in switcher order */
+  boards: BoardSummary[]
+  /** The user's permission on the project */
+  permission: BoardList['permission'] | null
+  loading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+  /** Add a board after the others; returns it */
+  createBoard: (name: string) => Promise<BoardSummary | null>
+  renameBoard: (boardId: string, name: string) => Promise<boolean>
+  /** Who can open and edit a board; takes admin permission */
+  setBoardPermissions: (
+    boardId: string,
+    permissions: {
+      view_permission?: BoardViewPermission
+      edit_permission?: BoardEditPermission
+    }
+  ) => Promise<boolean>
+  /** Move a board one place up (-1) or down (1) */
+  moveBoard: (boardId: string, offset: -1 | 1) => Promise<boolean>
+  deleteBoard: (boardId: string) => Promise<boolean>
+}
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await authorizedFetch(input, init)
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Board request failed (${response.status})`)
+  }
+  return body as T
+}
+
+export function useProjectBoards(projectId: string): UseProjectBoardsReturn {
+  const [boards, setBoards] = useState<BoardSummary[]>([])
+  const [permission, setPermission] = useState<BoardList['permission'] | null>(
+    null
+  )
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const endpoint = `/api/project/${projectId}/boards`
+
+  const setList = useCallback((list: BoardList) => {
+    setBoards(list.boards)
+    setPermission(list.permission)
+  }, [])
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      setList(await request<BoardList>(endpoint))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load boards')
+    } finally {
+      setLoading(false)
+    }
+  }, [endpoint, setList])
+
+  useEffect(() => {
+    if (projectId) refresh()
+  }, [projectId, refresh])
+
+  // Run a change and report whether it worked
+  const run = useCallback(
+    async (action: () => Promise<void>): Promise<boolean> => {
+      setError(null)
+      try {
+        await action()
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Board change failed')
+        return false
+      }
+    },
+    []
+  )
+
+  const replaceBoard = useCallback((board: BoardSummary) => {
+    setBoards((current) =>
+      current.map((entry) => (entry.id === board.id ? board : entry))
+    )
+  }, [])
+
+  const createBoard = useCallback(
+    async (name: string): Promise<BoardSummary | null> => {
+      let board: BoardSummary | null = null
+      await run(async () => {
+        const created = await request<BoardSummary>(endpoint, {
+          method: 'POST',
+          body: JSON.stringify({ name }),
+        })
+        setBoards((current) => [...current, created])
+        board = created
+      })
+      return board
+    },
+    [endpoint, run]
+  )
+
+  const renameBoard = useCallback(
+    (boardId: string, name: string) =>
+      run(async () => {
+        replaceBoard(
+          await request<BoardSummary>(`${endpoint}/${boardId}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ name }),
+          })
+        )
+      }),
+    [endpoint, run, replaceBoard]
+  )
+
+  const setBoardPermissions = useCallback(
+    (
+      boardId: string,
+      permissions: {
+        view_permission?: BoardViewPermission
+        edit_permission?: BoardEditPermission
+      }
+    ) =>
+      run(async () => {
+        replaceBoard(
+          await request<BoardSummary>(`${endpoint}/${boardId}`, {
+            method: 'PATCH',
+            body: JSON.stringify(permissions),
+          })
+        )
+      }),
+    [endpoint, run, replaceBoard]
+  )
+
+  const moveBoard = useCallback(
+    (boardId: string, offset: -1 | 1) =>
+      run(async () => {
+        const ids = boards.map((board) => board.id)
+        const from = ids.indexOf(boardId)
+        const to = from + offset
+        if (from < 0 || to < 0 || to >= ids.length) return
+        ids.splice(to, 0, ids.splice(from, 1)[0])
+
+        setList(
+          await request<BoardList>(`${endpoint}/order`, {
+            method: 'PUT',
+            body: JSON.stringify({ board_ids: ids }),
+          })
+        )
+      }),
+    [boards, endpoint, run, setList]
+  )
+
+  const deleteBoard = useCallback(
+    (boardId: string) =>
+      run(async () => {
+        await request(`${endpoint}/${boardId}`, { method: 'DELETE' })
+        setBoards((current) => current.filter((board) => board.id !== boardId))
+      }),
+    [endpoint, run]
+  )
+
+  return {
+    boards,
+    permission,
+    loading,
+    error,
+    refresh,
+    createBoard,
+    renameBoard,
+    setBoardPermissions,
+    moveBoard,
+    deleteBoard,
+  }
+}
+
+export default useProjectBoards
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react'
 import { supabase } from '@/lib/supaClient'
+import { authorizedFetch } from '@/lib/api-client'
 import { ProjectCollaborator, ProjectInvitation, InviteUserData } from '@/types'
 
 export function useProjectCollaboration() {
@@ -55,24 +56,13 @@ export function useProjectCollaboration() {
           console.log('📧 Sending email to:', data.email)
           console.log('🔗 Invitation URL:', invitationUrl)
 
-          // Get project title for email
-          const { data: projectData } = await supabase
-            .from('projects')
-            .select('title')
-            .eq('id', projectId)
-            .single()
-
-          const emailResponse = await fetch('/api/send-invitation', {
+          const emailResponse = await authorizedFetch('/api/send-invitation', {
             method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
             body: JSON.stringify({
               to: data.email,
               invitationUrl,
               permissionLevel: data.permission_level,
               projectId,
-              projectTitle: projectData?.title || 'a project',
             }),
           })
 
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '@/lib/auth-context'
+import { useTheme } from '@/lib/theme-context'
+import {
+  createProjectTemplate,
+  deleteProjectTemplate,
+  fetchProjectTemplates,
+} from '@/lib/project-templates'
+import { Project, ProjectTemplate } from '@/types'
+import { ProjectTemplateFormData } from '@/types/schemas'
+
+/**
+ * Project templates visible to the current user
+ */
+export function useProjectTemplates() {
+  const { user } = useAuth()
+  const { team } = useTheme()
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setTemplates([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      setTemplates(await fetchProjectTemplates())
+    } catch (err) {
+      console.error('Error fetching project templates:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load templates')
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const create = useCallback(
+    async (project: Project, values: ProjectTemplateFormData) => {
+      if (!user) throw new Error('You must be signed in to save templates')
+      const template = await createProjectTemplate(
+        user.id,
+        team,
+        project,
+        values
+      )
+      setTemplates((current) =>
+        [...current, template].sort((a, b) => a.name.localeCompare(b.name))
+      )
+      return template
+    },
+    [user, team]
+  )
+
+  const remove = useCallback(async (id: string) => {
+    await deleteProjectTemplate(id)
+    setTemplates((current) => current.filter((t) => t.id !== id))
+  }, [])
+
+  const canDelete = useCallback(
+    (template: ProjectTemplate) =>
+      !!user &&
+      (template.owner_id === user.id ||
+        (template.scope === 'team' && !!team && template.team === team)),
+    [user, team]
+  )
+
+  return {
+    templates,
+    team,
+    loading,
+    error,
+    refresh,
+    create,
+    remove,
+    canDelete,
+  }
+}
@@ -1,4 +1,6 @@
 import { useEffect, useRef } from 'react'
+import { supabase } from '@/lib/supaClient'
+import { splitMentions } from '@/lib/comments'
 import { useNotifications } from './useNotifications'
 import { useRealtimeProject } from './useRealtimeProject'
 
@@ -8,6 +10,7 @@ export function useRealtimeNotifications(projectId: string) {
     project,
     logs,
     collaborators,
+    comments,
     isOnline,
     lastUpdate,
     loading,
@@ -15,6 +18,7 @@ export function useRealtimeNotifications(projectId: string) {
     refresh,
   } = useRealtimeProject(projectId)
   const lastLogId = useRef<string | null>(null)
+  const seenCommentIds = useRef<Set<string> | null>(null)
   const lastProjectUpdate = useRef<Date | null>(null)
 
   // Track project changes (simplified for now)
@@ -113,6 +117,49 @@ export function useRealtimeNotifications(projectId: string) {
     }
   }, [logs, project, addNotification])
 
+  // Notify about new comments that @mention the current user
+  useEffect(() => {
+    const checkMentions = async () => {
+      if (seenCommentIds.current === null) {
+        // Comments present on first load aren't new
+        seenCommentIds.current = new Set(comments.map((comment) => comment.id))
+        return
+      }
+
+      const fresh = comments.filter(
+        (comment) => !seenCommentIds.current!.has(comment.id)
+      )
+      fresh.forEach((comment) => seenCommentIds.current!.add(comment.id))
+      if (fresh.length === 0) return
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      const userId = session?.user?.id
+      if (!userId) return
+
+      fresh
+        .filter(
+          (comment) =>
+            comment.user_id !== userId && comment.mentions.includes(userId)
+        )
+        .forEach((comment) => {
+          addNotification({
+            type: 'info',
+            title: 'You Were Mentioned',
+            message: splitMentions(comment.body)
+              .map((segment) =>
+                segment.type === 'mention' ? `@${segment.name}` : segment.text
+              )
+              .join(''),
+            projectId: project?.id,
+          })
+        })
+    }
+
+    if (!loading) checkMentions()
+  }, [comments, loading, project?.id, addNotification])
+
   // Track connection status changes (simplified)
   useEffect(() => {
     if (!isOnline) {
@@ -137,6 +184,7 @@ export function useRealtimeNotifications(projectId: string) {
     project,
     logs,
     collaborators,
+    comments,
     isOnline,
     lastUpdate,
     loading,
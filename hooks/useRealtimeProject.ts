@@ -1,20 +1,33 @@
 import { useEffect, useState, useCallback } from 'react'
 import { supabase } from '@/lib/supaClient'
-import { Project, ProjectLog } from '@/types'
+import { migrateProject } from '@/lib/project-migrations'
+import { CommentThread, Project, ProjectLog, ThreadComment } from '@/types'
 
 interface RealtimeProjectData {
   project: Project | null
   logs: ProjectLog[]
   collaborators: any[]
+  threads: CommentThread[]
+  comments: ThreadComment[]
   isOnline: boolean
   lastUpdate: Date | null
 }
 
+function upsertById<T extends { id: string }>(list: T[], entry: T): T[] {
+  const index = list.findIndex((existing) => existing.id === entry.id)
+  if (index === -1) return [...list, entry]
+  const next = [...list]
+  next[index] = entry
+  return next
+}
+
 export function useRealtimeProject(projectId: string) {
   const [data, setData] = useState<RealtimeProjectData>({
     project: null,
     logs: [],
     collaborators: [],
+    threads: [],
+    comments: [],
     isOnline: false,
     lastUpdate: null,
   })
@@ -72,13 +85,39 @@ export function useRealtimeProject(projectId: string) {
         }
       }
 
-      setData({
-        project: projectData?.[0] || null,
+      // Fetch comment threads. These are optional: without the tables from
+      // docs/create-comment-threads.sql the project still loads.
+      const [threadsResult, commentsResult] = await Promise.all([
+        supabase
+          .from('comment_threads')
+          .select('*')
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('comments')
+          .select('*')
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: true }),
+      ])
+
+      if (threadsResult.error || commentsResult.error) {
+        console.warn(
+          'Comment threads unavailable:',
+          threadsResult.error || commentsResult.error
+        )
+      }
+
+      setData((prev) => ({
+        ...prev,
+        project: projectData?.[0] ? migrateProject(projectData[0]) : null,
         logs: logsData || [],
         collaborators: collaboratorsData || [],
-        isOnline: true,
+        threads: threadsResult.error ? prev.threads : threadsResult.data || [],
+        comments: commentsResult.error
+          ? prev.comments
+          : commentsResult.data || [],
         lastUpdate: new Date(),
-      })
+      }))
     } catch (err) {
       setError(
         err instanceof Error ? err.message : 'Failed to fetch project data'
@@ -88,23 +127,90 @@ export function useRealtimeProject(projectId: string) {
     }
   }, [projectId])
 
-  // Set up real-time subscriptions (simplified for now)
+  // Apply a thread or comment locally, e.g. right after writing it, so the
+  // UI doesn't wait for the realtime echo
+  const upsertThread = useCallback((thread: CommentThread) => {
+    setData((prev) => ({ ...prev, threads: upsertById(prev.threads, thread) }))
+  }, [])
+
+  const upsertComment = useCallback((comment: ThreadComment) => {
+    setData((prev) => ({
+      ...prev,
+      comments: upsertById(prev.comments, comment),
+    }))
+  }, [])
+
+  // Subscribe to comment and log changes; polling stays as a fallback for
+  // project data and for when the channel is down
   useEffect(() => {
     if (!projectId) return
 
     // Fetch initial data
     fetchInitialData()
 
-    // For now, just set up a simple polling mechanism
-    // We'll add real-time subscriptions back later
+    const filter = `project_id=eq.${projectId}`
+    const channel = supabase
+      .channel(`project:${projectId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'comment_threads', filter },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const removedId = (payload.old as Partial<CommentThread>).id
+            setData((prev) => ({
+              ...prev,
+              threads: prev.threads.filter((thread) => thread.id !== removedId),
+              comments: prev.comments.filter(
+                (comment) => comment.thread_id !== removedId
+              ),
+            }))
+          } else {
+            upsertThread(payload.new as CommentThread)
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'comments', filter },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const removedId = (payload.old as Partial<ThreadComment>).id
+            setData((prev) => ({
+              ...prev,
+              comments: prev.comments.filter(
+                (comment) => comment.id !== removedId
+              ),
+            }))
+          } else {
+            upsertComment(payload.new as ThreadComment)
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'project_logs', filter },
+        (payload) => {
+          const log = payload.new as ProjectLog
+          setData((prev) => ({
+            ...prev,
+            logs: [log, ...prev.logs.filter((entry) => entry.id !== log.id)],
+            lastUpdate: new Date(),
+          }))
+        }
+      )
+      .subscribe((status) => {
+        setData((prev) => ({ ...prev, isOnline: status === 'SUBSCRIBED' }))
+      })
+
     const interval = setInterval(() => {
       fetchInitialData()
     }, 30000) // Poll every 30 seconds
 
     return () => {
       clearInterval(interval)
+      supabase.removeChannel(channel)
     }
-  }, [projectId, fetchInitialData])
+  }, [projectId, fetchInitialData, upsertThread, upsertComment])
 
   // Manual refresh function
   const refresh = useCallback(() => {
@@ -116,5 +222,7 @@ export function useRealtimeProject(projectId: string) {
     loading,
     error,
     refresh,
+    upsertThread,
+    upsertComment,
   }
 }
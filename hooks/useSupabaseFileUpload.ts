@@ -1,5 +1,8 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { supabase } from '@/lib/supaClient'
+import { ResumableUpload } from '@/lib/resumable-upload'
+import { IMAGE_CONTENT_TYPES, RENDER_CONTENT_TYPES, getUploadContentType } from '@/lib/upload-files'
+import { ImageDerivatives, UploadBucket } from '@/types'
 
 export interface FileUploadResult {
   id: string
@@ -9,8 +12,12 @@ export interface FileUploadResult {
   url: string
   path: string
   bucket: string
-  status: 'pending' | 'uploading' | 'success' | 'error'
+  status: 'pending' | 'uploading' | 'paused' | 'verifying' | 'success' | 'error'
   progress: number
+  bytesUploaded: number
+  checksum?: string // SHA-256, verified by the server
+  retries: number // Chunks that had to be sent again
+  derivatives?: ImageDerivatives | null // Thumbnail, preview and full-size copies
   error?: string
   preview?: string
 }
@@ -19,21 +26,14 @@ export interface UploadConfig {
   maxFileSize: number // in bytes
   allowedTypes: string[]
   maxFiles: number
-  bucket: string
+  bucket: UploadBucket
   folder?: string
   autoUpload?: boolean
 }
 
 export const DEFAULT_UPLOAD_CONFIG: UploadConfig = {
-  maxFileSize: 50 * 1024 * 1024, // 50MB
-  allowedTypes: [
-    'image/jpeg',
-    'image/jpg', 
-    'image/png',
-    'image/gif',
-    'image/webp',
-    'image/svg+xml'
-  ],
+  maxFileSize: 2 * 1024 * 1024 * 1024, // 2GB, uploaded in chunks
+  allowedTypes: [...IMAGE_CONTENT_TYPES, ...RENDER_CONTENT_TYPES],
   maxFiles: 10,
   bucket: 'project-files',
   folder: 'uploads',
@@ -43,6 +43,14 @@ export const DEFAULT_UPLOAD_CONFIG: UploadConfig = {
 export function useSupabaseFileUpload(config: UploadConfig = DEFAULT_UPLOAD_CONFIG) {
   const [uploads, setUploads] = useState<FileUploadResult[]>([])
   const [isUploading, setIsUploading] = useState(false)
+  // In-flight uploads by result id, kept so they can be paused and retried
+  const activeUploads = useRef(new Map<string, ResumableUpload>())
+
+  const updateUpload = useCallback((id: string, changes: Partial<FileUploadResult>) => {
+    setUploads(prev =>
+      prev.map(upload => (upload.id === id ? { ...upload, ...changes } : upload))
+    )
+  }, [])
 
   // Validate file
   const validateFile = useCallback((file: File): { isValid: boolean; errors: string[] } => {
@@ -54,9 +62,10 @@ export function useSupabaseFileUpload(config: UploadConfig = DEFAULT_UPLOAD_CONF
       errors.push(`File size must be less than ${maxSizeMB}MB`)
     }
 
-    // Check file type
-    if (!config.allowedTypes.includes(file.type)) {
-      errors.push(`File type ${file.type} is not supported`)
+    // Check file type; render formats often come without one
+    const type = getUploadContentType(file)
+    if (!config.allowedTypes.includes(type)) {
+      errors.push(`File type ${type} is not supported`)
     }
 
     // Check if we've reached max files
@@ -73,8 +82,8 @@ export function useSupabaseFileUpload(config: UploadConfig = DEFAULT_UPLOAD_CONF
   // Generate preview for image files
   const generatePreview = useCallback((file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
-      if (!file.type.startsWith('image/')) {
-        reject(new Error('File is not an image'))
+      if (!IMAGE_CONTENT_TYPES.includes(file.type)) {
+        reject(new Error('File is not a browser image'))
         return
       }
 
@@ -85,85 +94,94 @@ export function useSupabaseFileUpload(config: UploadConfig = DEFAULT_UPLOAD_CONF
     })
   }, [])
 
-  // Upload file to Supabase Storage
-  const uploadFile = useCallback(async (file: File, customPath?: string): Promise<FileUploadResult> => {
-    const fileExt = file.name.split('.').pop()
-    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`
-    const filePath = customPath || `${config.folder || 'uploads'}/${fileName}`
+  // Run (or continue) a resumable upload and mirror its state into the list
+  const runUpload = useCallback(async (entry: FileUploadResult, upload: ResumableUpload): Promise<FileUploadResult> => {
+    try {
+      const completed = await upload.start()
+      const changes: Partial<FileUploadResult> = {
+        status: 'success',
+        progress: 100,
+        bytesUploaded: completed.size,
+        url: completed.url,
+        path: completed.path,
+        checksum: completed.checksum,
+        derivatives: completed.derivatives,
+        // Render formats only become viewable once their derivatives exist
+        ...(completed.derivatives && { preview: completed.derivatives.sizes.thumb.webp }),
+        error: undefined
+      }
+      activeUploads.current.delete(entry.id)
+      updateUpload(entry.id, changes)
+      return { ...entry, ...changes }
+    } catch (error) {
+      updateUpload(entry.id, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Upload failed'
+      })
+      throw error
+    }
+  }, [updateUpload])
 
-    // Create initial upload record
+  // Upload a file in resumable chunks
+  const uploadFile = useCallback(async (file: File): Promise<FileUploadResult> => {
     const uploadResult: FileUploadResult = {
       id: crypto.randomUUID(),
       name: file.name,
       size: file.size,
-      type: file.type,
+      type: getUploadContentType(file),
       url: '',
-      path: filePath,
+      path: '',
       bucket: config.bucket,
       status: 'uploading',
-      progress: 0
+      progress: 0,
+      bytesUploaded: 0,
+      retries: 0
     }
 
-    // Generate preview
-    try {
-      uploadResult.preview = await generatePreview(file)
-    } catch (error) {
-      console.warn(`Failed to generate preview for ${file.name}:`, error)
+    // Browsers can't preview render formats, and reading 200MB into a data URL is wasteful
+    if (file.size <= 20 * 1024 * 1024) {
+      try {
+        uploadResult.preview = await generatePreview(file)
+      } catch (error) {
+        console.warn(`Failed to generate preview for ${file.name}:`, error)
+      }
     }
 
     // Add to uploads list
     setUploads(prev => [...prev, uploadResult])
 
-    try {
-      // Upload to Supabase Storage
-      const { data, error } = await supabase.storage
-        .from(config.bucket)
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: false
-        })
-
-      if (error) {
-        throw new Error(error.message)
-      }
-
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from(config.bucket)
-        .getPublicUrl(filePath)
-
-      // Update upload result
-      const successResult: FileUploadResult = {
-        ...uploadResult,
-        status: 'success',
-        progress: 100,
-        url: urlData.publicUrl
-      }
-
-      setUploads(prev => 
-        prev.map(upload => 
-          upload.id === uploadResult.id ? successResult : upload
+    const upload = new ResumableUpload(file, {
+      bucket: config.bucket,
+      folder: config.folder,
+      onProgress: (bytesUploaded, bytesTotal) =>
+        updateUpload(uploadResult.id, {
+          bytesUploaded,
+          progress: bytesTotal > 0 ? Math.round((bytesUploaded / bytesTotal) * 100) : 100
+        }),
+      onStatusChange: (status) => {
+        if (status === 'uploading' || status === 'paused' || status === 'verifying') {
+          updateUpload(uploadResult.id, { status, error: undefined })
+        }
+      },
+      onChunkRetry: () =>
+        setUploads(prev =>
+          prev.map(entry =>
+            entry.id === uploadResult.id ? { ...entry, retries: entry.retries + 1 } : entry
+          )
         )
-      )
-
-      return successResult
+    })
+    activeUploads.current.set(uploadResult.id, upload)
 
-    } catch (error) {
-      const errorResult: FileUploadResult = {
-        ...uploadResult,
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Upload failed'
-      }
+    return runUpload(uploadResult, upload)
+  }, [config, generatePreview, runUpload, updateUpload])
 
-      setUploads(prev => 
-        prev.map(upload => 
-          upload.id === uploadResult.id ? errorResult : upload
-        )
-      )
+  const pauseUpload = useCallback((id: string) => {
+    activeUploads.current.get(id)?.pause()
+  }, [])
 
-      throw error
-    }
-  }, [config, generatePreview])
+  const resumeUpload = useCallback((id: string) => {
+    activeUploads.current.get(id)?.resume()
+  }, [])
 
   // Upload multiple files
   const uploadFiles = useCallback(async (files: File[]): Promise<FileUploadResult[]> => {
@@ -191,6 +209,15 @@ export function useSupabaseFileUpload(config: UploadConfig = DEFAULT_UPLOAD_CONF
 
   // Delete file from storage
   const deleteFile = useCallback(async (upload: FileUploadResult): Promise<void> => {
+    // Not stored yet: cancelling discards the chunks uploaded so far
+    const active = activeUploads.current.get(upload.id)
+    if (active) {
+      activeUploads.current.delete(upload.id)
+      await active.abort()
+      setUploads(prev => prev.filter(u => u.id !== upload.id))
+      return
+    }
+
     try {
       const { error } = await supabase.storage
         .from(config.bucket)
@@ -210,11 +237,18 @@ export function useSupabaseFileUpload(config: UploadConfig = DEFAULT_UPLOAD_CONF
 
   // Remove upload from list (without deleting from storage)
   const removeUpload = useCallback((id: string) => {
+    const active = activeUploads.current.get(id)
+    if (active) {
+      activeUploads.current.delete(id)
+      active.abort()
+    }
     setUploads(prev => prev.filter(upload => upload.id !== id))
   }, [])
 
   // Clear all uploads
   const clearUploads = useCallback(() => {
+    activeUploads.current.forEach(upload => upload.abort())
+    activeUploads.current.clear()
     setUploads([])
   }, [])
 
@@ -233,19 +267,23 @@ export function useSupabaseFileUpload(config: UploadConfig = DEFAULT_UPLOAD_CONF
     return uploads.filter(upload => upload.status === 'error')
   }, [uploads])
 
-  // Retry failed upload
+  // Retry a failed upload; it continues from the last chunk the server has
   const retryUpload = useCallback(async (upload: FileUploadResult): Promise<FileUploadResult> => {
-    // This would require storing the original file, which we don't do currently
-    // For now, just return the upload as-is
-    console.warn('Retry functionality requires storing original files')
-    return upload
-  }, [])
+    const resumable = activeUploads.current.get(upload.id)
+    if (!resumable) {
+      throw new Error('The original file is no longer available; please add it again')
+    }
+    updateUpload(upload.id, { status: 'uploading', error: undefined })
+    return runUpload(upload, resumable)
+  }, [runUpload, updateUpload])
 
   return {
     uploads,
     isUploading,
     uploadFile,
     uploadFiles,
+    pauseUpload,
+    resumeUpload,
     deleteFile,
     removeUpload,
     clearUploads,
@@ -0,0 +1,292 @@
+import { NextRequest } from 'next/server'
+import { createClient, User } from '@supabase/supabase-js'
+import { supabaseAdmin } from './supaAdmin'
+import { ApiError } from './api-errors'
+import { migrateItems } from './project-migrations'
+import {
+  isPersonalAccessToken,
+  verifyPersonalAccessToken,
+} from './personal-access-tokens'
+import { Project, TokenScope } from '../types'
+
+export type ProjectPermission = 'owner' | 'admin' | 'edit' | 'view'
+
+export interface AuthenticatedUser {
+  user: User
+  token: string
+  method: 'session' | 'personal_token'
+  /** Scopes granted to a personal access token; null for sessions */
+  scopes: TokenScope[] | null
+}
+
+export interface AccessibleProject {
+  project: Project
+  permission: ProjectPermission
+}
+
+/**
+ * Verify the bearer token sent in the `authorization` header. Accepts
+ * either a Supabase session JWT or a personal access token (`crp_...`).
+ */
+export async function authenticateRequest(
+  request: NextRequest
+): Promise<{ data: AuthenticatedUser | null; error: string | null }> {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader) {
+    return { data: null, error: 'No authorization header' }
+  }
+
+  const token = authHeader.replace('Bearer ', '')
+
+  if (isPersonalAccessToken(token)) {
+    const record = await verifyPersonalAccessToken(token)
+    if (!record) {
+      return { data: null, error: 'Invalid or expired token' }
+    }
+
+    const {
+      data: { user },
+      error,
+    } = await supabaseAdmin.auth.admin.getUserById(record.user_id)
+
+    if (error || !user) {
+      return { data: null, error: 'Invalid token' }
+    }
+
+    return {
+      data: { user, token, method: 'personal_token', scopes: record.scopes },
+      error: null,
+    }
+  }
+
+  const {
+    data: { user },
+    error,
+  } = await supabaseAdmin.auth.getUser(token)
+
+  if (error || !user) {
+    return { data: null, error: 'Invalid token' }
+  }
+
+  return {
+    data: { user, token, method: 'session', scopes: null },
+    error: null,
+  }
+}
+
+/**
+ * Sessions can do anything the user can; personal access tokens only
+ * what their scopes allow
+ */
+export function hasScope(auth: AuthenticatedUser, scope: TokenScope): boolean {
+  return auth.scopes === null || auth.scopes.includes(scope)
+}
+
+/**
+ * Same as authenticateRequest, but throws an ApiError for route handlers
+ * that funnel failures through apiErrorResponse. Without a scope, only a
+ * signed-in session is accepted.
+ */
+export async function requireAuth(
+  request: NextRequest,
+  scope?: TokenScope
+): Promise<AuthenticatedUser> {
+  const { data, error } = await authenticateRequest(request)
+  if (!data) {
+    throw new ApiError('unauthorized', error || 'Unauthorized')
+  }
+  if (data.method === 'personal_token') {
+    if (!scope) {
+      throw new ApiError(
+        'forbidden',
+        'This action requires a signed-in session'
+      )
+    }
+    if (!hasScope(data, scope)) {
+      throw new ApiError(
+        'forbidden',
+        `This token is missing the ${scope} scope`
+      )
+    }
+  }
+  return data
+}
+
+const PERMISSION_RANK: Record<ProjectPermission, number> = {
+  view: 0,
+  edit: 1,
+  admin: 2,
+  owner: 3,
+}
+
+export function hasPermission(
+  permission: ProjectPermission,
+  required: ProjectPermission
+): boolean {
+  return PERMISSION_RANK[permission] >= PERMISSION_RANK[required]
+}
+
+/**
+ * Supabase client that acts as the caller, so RLS and `auth.uid()`
+ * inside RPC functions apply exactly as they do in the browser
+ */
+export function createUserClient(token: string) {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+      global: {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    }
+  )
+}
+
+/**
+ * The caller's permission on a project: owner from `projects.user_id`,
+ * otherwise their `project_collaborators.permission_level`, or null
+ */
+async function getProjectPermission(
+  userId: string,
+  project: { id: string; user_id: string }
+): Promise<ProjectPermission | null> {
+  if (project.user_id === userId) {
+    return 'owner'
+  }
+
+  const { data: collaborator, error } = await supabaseAdmin
+    .from('project_collaborators')
+    .select('permission_level')
+    .eq('project_id', project.id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading project permission:', error)
+    return null
+  }
+
+  return collaborator ? collaborator.permission_level : null
+}
+
+/**
+ * Personal access tokens aren't Supabase JWTs, so RLS can't identify the
+ * caller. Apply the same owner/collaborator rules as `get_user_project`
+ * with the admin client instead.
+ */
+async function getAccessibleProjectForToken(
+  userId: string,
+  projectId: string
+): Promise<AccessibleProject | null> {
+  const { data: project, error } = await supabaseAdmin
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading project for token:', error)
+    return null
+  }
+
+  if (!project) {
+    return null
+  }
+
+  const permission = await getProjectPermission(userId, project)
+  if (!permission) {
+    return null
+  }
+
+  return {
+    project: {
+      id: project.id,
+      title: project.title,
+      retailer: project.retailer,
+      due_date: project.due_date || undefined,
+      items: migrateItems(project.items, project.schema_version),
+      user_id: project.user_id,
+      created_at: project.created_at,
+      updated_at: project.updated_at,
+    },
+    permission,
+  }
+}
+
+/**
+ * Load a project as the caller. Sessions go through the
+ * `get_user_project` RPC; personal access tokens through the admin client.
+ * Returns null when the project doesn't exist or the user has no access.
+ */
+export async function getAccessibleProject(
+  auth: AuthenticatedUser,
+  projectId: string
+): Promise<AccessibleProject | null> {
+  if (auth.method === 'personal_token') {
+    return getAccessibleProjectForToken(auth.user.id, projectId)
+  }
+
+  const userClient = createUserClient(auth.token)
+
+  const { data, error } = await userClient.rpc('get_user_project', {
+    p_project_id: projectId,
+  })
+
+  if (error) {
+    console.error('get_user_project error:', error)
+    return null
+  }
+
+  if (!data || data.length === 0) {
+    return null
+  }
+
+  const row = data[0]
+
+  // get_user_project only returns the project, not the caller's role
+  const permission = await getProjectPermission(auth.user.id, row)
+  if (!permission) {
+    return null
+  }
+
+  return {
+    project: {
+      id: row.id,
+      title: row.title,
+      retailer: row.retailer,
+      due_date: row.due_date || undefined,
+      items: migrateItems(row.items, row.schema_version),
+      user_id: row.user_id,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    },
+    permission,
+  }
+}
+
+/**
+ * Load a project the caller can access with at least the given permission
+ */
+export async function requireProjectAccess(
+  auth: AuthenticatedUser,
+  projectId: string,
+  required: ProjectPermission = 'view'
+): Promise<AccessibleProject> {
+  const accessible = await getAccessibleProject(auth, projectId)
+  if (!accessible) {
+    throw new ApiError('not_found', 'Project not found or access denied')
+  }
+  if (!hasPermission(accessible.permission, required)) {
+    throw new ApiError(
+      'forbidden',
+      `This action requires ${required} permission on the project`
+    )
+  }
+  return accessible
+}
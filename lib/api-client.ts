@@ -0,0 +1,26 @@
+import { supabase } from './supaClient'
+
+/**
+ * fetch() for the app's own API routes, authenticated with the current
+ * Supabase session. Form data keeps the multipart content type fetch
+ * gives it; anything else is sent as JSON.
+ */
+export async function authorizedFetch(
+  input: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  return fetch(input, {
+    ...init,
+    headers: {
+      ...init.headers,
+      ...(init.body instanceof FormData
+        ? {}
+        : { 'Content-Type': 'application/json' }),
+      Authorization: `Bearer ${session?.access_token ?? ''}`,
+    },
+  })
+}
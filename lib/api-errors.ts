@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+
+export type ApiErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'validation_failed'
+  | 'conflict'
+  | 'internal_error'
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  validation_failed: 400,
+  conflict: 409,
+  internal_error: 500,
+}
+
+export interface ApiErrorBody {
+  error: string
+  code: ApiErrorCode
+  details?: unknown
+}
+
+export class ApiError extends Error {
+  code: ApiErrorCode
+  details?: unknown
+
+  constructor(code: ApiErrorCode, message: string, details?: unknown) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = code
+    this.details = details
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code]
+  }
+}
+
+/**
+ * Turn anything thrown inside a route handler into a typed JSON error response
+ */
+export function apiErrorResponse(error: unknown): NextResponse<ApiErrorBody> {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        code: error.code,
+        ...(error.details !== undefined ? { details: error.details } : {}),
+      },
+      { status: error.status }
+    )
+  }
+
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request data',
+        code: 'validation_failed' as const,
+        details: error.flatten(),
+      },
+      { status: 400 }
+    )
+  }
+
+  console.error('API error:', error)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'internal_error' as const },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,300 @@
+import { supabaseAdmin } from './supaAdmin'
+import {
+  STORAGE_BUCKETS,
+  collectJsonReferences,
+  collectProjectReferences,
+  findOrphanedObjects,
+} from './asset-references'
+import { forgetStoredAssets, getRestoredPaths } from './asset-storage'
+import {
+  AssetGcBucketSummary,
+  AssetGcReport,
+  AssetOwnerType,
+  AssetReference,
+  Item,
+  StorageObject,
+  UploadBucket,
+} from '../types'
+
+/**
+ * Garbage collection for the project-files and board-assets buckets. Marks
+ * every object referenced from the tables below, then deletes the rest.
+ * A table that can't be read aborts the run: deleting based on missing
+ * references would remove files still in use.
+ */
+
+// Storage lists at most 1000 entries per call
+const LIST_PAGE_SIZE = 1000
+// Rows hold whole item trees and board snapshots
+const ROW_PAGE_SIZE = 200
+const DELETE_BATCH_SIZE = 100
+
+// Uploads are linked when their project is saved, usually within minutes
+export const DEFAULT_GRACE_HOURS = 24
+
+type Row = Record<string, unknown>
+
+interface ReferenceSource {
+  table: string
+  columns: string
+  /** Column to page by */
+  key: string
+  filter?: { column: string; value: string }
+  collect: (row: Row) => AssetReference[]
+}
+
+// Any JSON column, attributed to its row
+const json =
+  (column: string, owner: AssetOwnerType, key = 'id') =>
+  (row: Row) =>
+    collectJsonReferences(
+      row[column],
+      owner,
+      String(row[key]),
+      row.project_id ? String(row.project_id) : undefined
+    )
+
+const REFERENCE_SOURCES: ReferenceSource[] = [
+  {
+    table: 'projects',
+    columns: 'id, items',
+    key: 'id',
+    collect: (row) =>
+      collectProjectReferences({
+        id: String(row.id),
+        items: row.items as Item[] | null,
+      }),
+  },
+  {
+    table: 'project_boards',
+    columns: 'id, project_id, board_snapshot',
+    key: 'id',
+    collect: json('board_snapshot', 'board', 'project_id'),
+  },
+  // Whiteboard edits not yet folded into board_snapshot
+  {
+    table: 'project_board_operations',
+    columns: 'id, project_id, elements, files',
+    key: 'id',
+    collect: (row) => [
+      ...json('elements', 'board', 'project_id')(row),
+      ...json('files', 'board', 'project_id')(row),
+    ],
+  },
+  // Board versions; their images are kept in the board's files
+  {
+    table: 'project_board_versions',
+    columns: 'id, project_id, elements',
+    key: 'id',
+    collect: json('elements', 'board', 'project_id'),
+  },
+  // History entries keep the item snapshots that restores bring back
+  {
+    table: 'project_logs',
+    columns: 'id, project_id, details',
+    key: 'id',
+    collect: json('details', 'log'),
+  },
+  {
+    table: 'project_templates',
+    columns: 'id, items',
+    key: 'id',
+    collect: json('items', 'template'),
+  },
+  {
+    table: 'part_template_sets',
+    columns: 'id, templates',
+    key: 'id',
+    collect: json('templates', 'part_template'),
+  },
+  {
+    table: 'part_template_set_versions',
+    columns: 'id, templates',
+    key: 'id',
+    collect: json('templates', 'part_template'),
+  },
+  {
+    table: 'materials',
+    columns: 'id, texture_image_url',
+    key: 'id',
+    collect: json('texture_image_url', 'material'),
+  },
+  {
+    table: 'comment_threads',
+    columns: 'id, project_id, image_url',
+    key: 'id',
+    collect: json('image_url', 'comment'),
+  },
+  {
+    table: 'user_profiles',
+    columns: 'user_id, profile_image',
+    key: 'user_id',
+    collect: json('profile_image', 'profile', 'user_id'),
+  },
+  // Resumable uploads in progress write to their staging path
+  {
+    table: 'upload_sessions',
+    columns: 'id, bucket, path',
+    key: 'id',
+    filter: { column: 'status', value: 'uploading' },
+    collect: (row) => [
+      {
+        bucket: row.bucket as UploadBucket,
+        path: String(row.path),
+        owner: 'upload',
+        owner_id: String(row.id),
+      },
+    ],
+  },
+]
+
+async function listObjects(bucket: UploadBucket): Promise<StorageObject[]> {
+  const storage = supabaseAdmin.storage.from(bucket)
+  const objects: StorageObject[] = []
+  const folders = ['']
+
+  while (folders.length > 0) {
+    const folder = folders.pop()!
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await storage.list(folder, {
+        limit: LIST_PAGE_SIZE,
+        offset,
+      })
+      if (error) throw error
+
+      data.forEach((entry) => {
+        const path = folder ? `${folder}/${entry.name}` : entry.name
+        // Folders are listed without an id
+        if (!entry.id) {
+          folders.push(path)
+        } else if (entry.name !== '.emptyFolderPlaceholder') {
+          objects.push({
+            bucket,
+            path,
+            size: entry.metadata?.size || 0,
+            created_at: entry.created_at,
+          })
+        }
+      })
+
+      if (data.length < LIST_PAGE_SIZE) break
+    }
+  }
+
+  return objects
+}
+
+async function collectReferences(): Promise<AssetReference[]> {
+  const references: AssetReference[] = []
+
+  for (const source of REFERENCE_SOURCES) {
+    for (let offset = 0; ; offset += ROW_PAGE_SIZE) {
+      let query = supabaseAdmin
+        .from(source.table)
+        .select(source.columns)
+        .order(source.key)
+        .range(offset, offset + ROW_PAGE_SIZE - 1)
+      if (source.filter) {
+        query = query.eq(source.filter.column, source.filter.value)
+      }
+
+      const { data, error } = await query
+      if (error) {
+        throw new Error(`Failed to read ${source.table}: ${error.message}`)
+      }
+
+      const rows = (data || []) as unknown as Row[]
+      rows.forEach((row) => references.push(...source.collect(row)))
+      if (rows.length < ROW_PAGE_SIZE) break
+    }
+  }
+
+  return references
+}
+
+/**
+ * Delete orphans in batches. An orphan stored again since the run started
+ * was just handed to a duplicate upload and is kept.
+ */
+async function deleteOrphans(
+  bucket: UploadBucket,
+  orphans: StorageObject[],
+  startedAt: Date
+): Promise<number> {
+  const storage = supabaseAdmin.storage.from(bucket)
+  let deleted = 0
+
+  for (let start = 0; start < orphans.length; start += DELETE_BATCH_SIZE) {
+    const batch = orphans
+      .slice(start, start + DELETE_BATCH_SIZE)
+      .map((object) => object.path)
+    const restored = await getRestoredPaths(bucket, batch, startedAt)
+    const paths = batch.filter((path) => !restored.has(path))
+    if (paths.length === 0) continue
+
+    const { error } = await storage.remove(paths)
+    if (error) throw error
+    await forgetStoredAssets(bucket, paths)
+    deleted += paths.length
+  }
+
+  return deleted
+}
+
+/**
+ * Find, and unless `dryRun`, delete objects no project, part, board or
+ * other record references. Objects younger than `graceHours` are kept.
+ */
+export async function collectOrphanedAssets({
+  dryRun = true,
+  graceHours = DEFAULT_GRACE_HOURS,
+}: {
+  dryRun?: boolean
+  graceHours?: number
+} = {}): Promise<AssetGcReport> {
+  const startedAt = new Date()
+  const cutoff = new Date(startedAt.getTime() - graceHours * 60 * 60 * 1000)
+
+  // References are read after listing, so anything linked meanwhile counts
+  const objects: StorageObject[] = []
+  for (const bucket of STORAGE_BUCKETS) {
+    objects.push(...(await listObjects(bucket)))
+  }
+  const references = await collectReferences()
+  const orphans = findOrphanedObjects(objects, references, cutoff)
+
+  const referenced = new Set(
+    references.map((entry) => `${entry.bucket}/${entry.path}`)
+  )
+  const buckets = {} as Record<UploadBucket, AssetGcBucketSummary>
+  let deleted = 0
+
+  for (const bucket of STORAGE_BUCKETS) {
+    const inBucket = objects.filter((object) => object.bucket === bucket)
+    const bucketOrphans = orphans.filter((object) => object.bucket === bucket)
+
+    buckets[bucket] = {
+      scanned: inBucket.length,
+      referenced: inBucket.filter((object) =>
+        referenced.has(`${bucket}/${object.path}`)
+      ).length,
+      orphaned: bucketOrphans.length,
+      orphaned_bytes: bucketOrphans.reduce(
+        (total, object) => total + object.size,
+        0
+      ),
+    }
+
+    if (!dryRun) {
+      deleted += await deleteOrphans(bucket, bucketOrphans, startedAt)
+    }
+  }
+
+  return {
+    dry_run: dryRun,
+    cutoff: cutoff.toISOString(),
+    buckets,
+    orphans,
+    deleted,
+  }
+}
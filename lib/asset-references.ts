@@ -0,0 +1,208 @@
+import { getDerivativeUrls, isDerivativePath } from './image-derivatives'
+import {
+  AssetOwnerType,
+  AssetReference,
+  Item,
+  ItemImage,
+  Part,
+  StorageObject,
+  UploadBucket,
+} from '../types'
+
+/**
+ * Which stored files are still in use. Uploads are content-addressed (see
+ * lib/asset-storage.ts), so one object can back images in several
+ * projects and boards; nothing is deleted along with a part or an image.
+ * Instead the garbage collector (lib/asset-gc.ts) collects every storage
+ * URL held by projects, parts, boards and the other tables below, and
+ * removes the objects nothing points at.
+ */
+
+export const STORAGE_BUCKETS: UploadBucket[] = ['project-files', 'board-assets']
+
+const PUBLIC_URL_PATTERN = /\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/
+
+const CONTENT_PATH_PATTERN = /^(derivatives\/)?objects\//
+
+/**
+ * Bucket and path of a public URL in one of our buckets, or null
+ */
+export function parseStorageUrl(
+  url: string
+): { bucket: UploadBucket; path: string } | null {
+  let pathname: string
+  try {
+    pathname = new URL(url).pathname
+  } catch {
+    return null
+  }
+  const match = pathname.match(PUBLIC_URL_PATTERN)
+  if (!match) return null
+  const [, bucket, path] = match
+  if (STORAGE_BUCKETS.indexOf(bucket as UploadBucket) === -1) return null
+  return { bucket: bucket as UploadBucket, path: decodeURIComponent(path) }
+}
+
+/**
+ * Storage path of an upload named by its SHA-256, e.g.
+ * `objects/9f/9f86d0…08.png`. The prefix keeps folder listings short.
+ */
+export function getContentPath(checksum: string, extension: string): string {
+  const suffix = extension ? `.${extension.toLowerCase()}` : ''
+  return `objects/${checksum.slice(0, 2)}/${checksum}${suffix}`
+}
+
+/**
+ * Content-addressed objects and their derivatives; safe to share between
+ * projects because they never change
+ */
+export function isContentPath(path: string): boolean {
+  return CONTENT_PATH_PATTERN.test(path)
+}
+
+/**
+ * Storage refuses to overwrite an object; for a content path that means
+ * the same bytes are already stored
+ */
+export function isExistingObjectError(error: {
+  message: string
+  statusCode?: string
+}): boolean {
+  return error.statusCode === '409' || /already exists/i.test(error.message)
+}
+
+export function getContentChecksum(path: string): string | null {
+  const match = path.match(/^objects\/[0-9a-f]{2}\/([0-9a-f]{64})(\.|$)/)
+  return match ? match[1] : null
+}
+
+// Derivatives drop the original's extension: `derivatives/{base}/{size}.{format}`
+function getOriginalBase(path: string): string {
+  return isDerivativePath(path)
+    ? path.split('/').slice(1, -1).join('/')
+    : path.replace(/\.[^/.]+$/, '')
+}
+
+function reference(
+  url: string,
+  owner: AssetOwnerType,
+  ownerId: string,
+  projectId?: string
+): AssetReference | null {
+  const location = parseStorageUrl(url)
+  if (!location) return null
+  return {
+    ...location,
+    owner,
+    owner_id: ownerId,
+    ...(projectId && { project_id: projectId }),
+  }
+}
+
+/**
+ * Every storage URL in a project's items, attributed to the item, version
+ * or part that holds it. Derivative URLs count as references too.
+ */
+export function collectProjectReferences(project: {
+  id: string
+  items: Item[] | null
+}): AssetReference[] {
+  const references: AssetReference[] = []
+  const add = (url: string | undefined, owner: AssetOwnerType, id: string) => {
+    const entry = url ? reference(url, owner, id, project.id) : null
+    if (entry) references.push(entry)
+  }
+
+  const addImages = (
+    images: ItemImage[] | undefined,
+    owner: AssetOwnerType,
+    id: string
+  ) =>
+    (images || []).forEach((image) => {
+      add(image.url, owner, id)
+      if (image.derivatives) {
+        getDerivativeUrls(image.derivatives).forEach((url) =>
+          add(url, owner, id)
+        )
+      }
+    })
+
+  // Parts from before ids were required are attributed to their item
+  const addParts = (parts: Part[] | undefined, itemId: string) =>
+    (parts || []).forEach((part) =>
+      (part.files || []).forEach((url) => add(url, 'part', part.id || itemId))
+    )
+
+  ;(project.items || []).forEach((item) => {
+    add(item.hero_image, 'item', item.id)
+    add(item.custom_logo, 'item', item.id)
+    addImages(item.images, 'item', item.id)
+    addParts(item.parts, item.id)
+    ;(item.versions || []).forEach((version) => {
+      addImages(version.images, 'version', version.id)
+      addParts(version.parts, item.id)
+    })
+  })
+
+  return references
+}
+
+/**
+ * Storage URLs anywhere in a JSON value, such as a board snapshot or a
+ * history entry, attributed to its row
+ */
+export function collectJsonReferences(
+  value: unknown,
+  owner: AssetOwnerType,
+  ownerId: string,
+  projectId?: string
+): AssetReference[] {
+  const references: AssetReference[] = []
+  const walk = (node: unknown) => {
+    if (typeof node === 'string') {
+      const entry = reference(node, owner, ownerId, projectId)
+      if (entry) references.push(entry)
+    } else if (Array.isArray(node)) {
+      node.forEach(walk)
+    } else if (node && typeof node === 'object') {
+      Object.keys(node).forEach((key) =>
+        walk((node as Record<string, unknown>)[key])
+      )
+    }
+  }
+  walk(value)
+  return references
+}
+
+/**
+ * Objects nothing references. Objects created after `cutoff` are kept:
+ * they may be uploads whose project hasn't been saved yet. Derivatives
+ * live and die with their original.
+ */
+export function findOrphanedObjects(
+  objects: StorageObject[],
+  references: AssetReference[],
+  cutoff: Date
+): StorageObject[] {
+  const key = (bucket: UploadBucket, path: string) => `${bucket}/${path}`
+  const referenced = new Set(
+    references.map((entry) => key(entry.bucket, entry.path))
+  )
+  const isKept = (object: StorageObject) =>
+    referenced.has(key(object.bucket, object.path)) ||
+    new Date(object.created_at) > cutoff
+
+  const keptOriginals = new Set(
+    objects
+      .filter((object) => !isDerivativePath(object.path) && isKept(object))
+      .map((object) => key(object.bucket, getOriginalBase(object.path)))
+  )
+
+  return objects.filter((object) => {
+    if (isKept(object)) return false
+    return !(
+      isDerivativePath(object.path) &&
+      keptOriginals.has(key(object.bucket, getOriginalBase(object.path)))
+    )
+  })
+}
@@ -0,0 +1,223 @@
+import { createHash } from 'crypto'
+import { supabaseAdmin } from './supaAdmin'
+import {
+  createImageDerivatives,
+  tryCreateImageDerivatives,
+} from './image-processing'
+import {
+  getContentChecksum,
+  getContentPath,
+  isExistingObjectError,
+} from './asset-references'
+import { getFileExtension } from './upload-files'
+import { ImageDerivatives, StoredAsset, UploadBucket } from '../types'
+
+/**
+ * Content-addressed uploads. Files are stored under their SHA-256 (see
+ * getContentPath), so uploading the same render twice stores it once and
+ * returns the first upload's URL and derivatives. Objects are never
+ * overwritten or deleted on behalf of one project; lib/asset-gc.ts removes
+ * them once nothing references them.
+ *
+ * The stored_assets table remembers each object's derivatives so a
+ * duplicate doesn't have to be processed again.
+ */
+
+const STORED_ASSET_COLUMNS =
+  'bucket, path, checksum, derivatives, created_at, last_stored_at'
+
+export interface StoredFile {
+  path: string
+  url: string
+  checksum: string
+  derivatives: ImageDerivatives | null
+  /** The same bytes were already stored */
+  deduplicated: boolean
+}
+
+async function findStoredAsset(
+  bucket: UploadBucket,
+  path: string
+): Promise<StoredAsset | null> {
+  const { data, error } = await supabaseAdmin
+    .from('stored_assets')
+    .select(STORED_ASSET_COLUMNS)
+    .eq('bucket', bucket)
+    .eq('path', path)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as StoredAsset | null
+}
+
+async function recordStoredAsset(
+  bucket: UploadBucket,
+  path: string,
+  checksum: string,
+  derivatives: ImageDerivatives | null
+): Promise<void> {
+  // last_stored_at also tells garbage collection the object is in use again
+  const { error } = await supabaseAdmin.from('stored_assets').upsert({
+    bucket,
+    path,
+    checksum,
+    derivatives,
+    last_stored_at: new Date().toISOString(),
+  })
+
+  // The object is stored either way; only the derivative cache is missing
+  if (error) console.error('Failed to record stored asset:', path, error)
+}
+
+function toStoredFile(
+  bucket: UploadBucket,
+  path: string,
+  checksum: string,
+  derivatives: ImageDerivatives | null,
+  deduplicated: boolean
+): StoredFile {
+  return {
+    path,
+    url: supabaseAdmin.storage.from(bucket).getPublicUrl(path).data.publicUrl,
+    checksum,
+    derivatives,
+    deduplicated,
+  }
+}
+
+/**
+ * Derivatives of an object now at its content path. A duplicate reuses
+ * the ones recorded for the first upload.
+ */
+async function finishStoredFile(
+  bucket: UploadBucket,
+  path: string,
+  checksum: string,
+  deduplicated: boolean,
+  source?: Buffer
+): Promise<StoredFile> {
+  const known = await findStoredAsset(bucket, path)
+  const derivatives =
+    known?.derivatives ||
+    (await tryCreateImageDerivatives(bucket, path, source))
+
+  await recordStoredAsset(bucket, path, checksum, derivatives)
+  return toStoredFile(bucket, path, checksum, derivatives, deduplicated)
+}
+
+/**
+ * A file already moved to its content path, e.g. by a resumable upload
+ * completed a second time
+ */
+export function getStoredFile(
+  bucket: UploadBucket,
+  file: { name: string; checksum: string }
+): Promise<StoredFile> {
+  const path = getContentPath(file.checksum, getFileExtension(file.name))
+  return finishStoredFile(bucket, path, file.checksum, false)
+}
+
+/**
+ * Store a file held in memory, as /api/upload receives it
+ */
+export async function storeFile(
+  bucket: UploadBucket,
+  file: { name: string; contentType: string; data: Buffer }
+): Promise<StoredFile> {
+  const checksum = createHash('sha256').update(file.data).digest('hex')
+  const path = getContentPath(checksum, getFileExtension(file.name))
+
+  const { error } = await supabaseAdmin.storage
+    .from(bucket)
+    .upload(path, file.data, {
+      contentType: file.contentType,
+      // Same path, same bytes
+      cacheControl: '31536000',
+      upsert: false,
+    })
+
+  if (error && !isExistingObjectError(error)) throw error
+
+  return finishStoredFile(bucket, path, checksum, !!error, file.data)
+}
+
+/**
+ * Move a verified resumable upload from its session path to its content
+ * path. When the content is already stored the new copy is dropped.
+ */
+export async function promoteUpload(
+  bucket: UploadBucket,
+  stagingPath: string,
+  file: { name: string; checksum: string }
+): Promise<StoredFile> {
+  const path = getContentPath(file.checksum, getFileExtension(file.name))
+  const storage = supabaseAdmin.storage.from(bucket)
+
+  const { error } = await storage.move(stagingPath, path)
+  if (error) {
+    if (!isExistingObjectError(error)) throw error
+    await storage.remove([stagingPath])
+  }
+
+  return finishStoredFile(bucket, path, file.checksum, !!error)
+}
+
+/**
+ * Derivatives for an object uploaded straight to storage, e.g. a board
+ * asset. Content-addressed objects are processed once.
+ */
+export async function getObjectDerivatives(
+  bucket: UploadBucket,
+  path: string
+): Promise<ImageDerivatives> {
+  const checksum = getContentChecksum(path)
+  if (!checksum) return createImageDerivatives(bucket, path)
+
+  const known = await findStoredAsset(bucket, path)
+  const derivatives =
+    known?.derivatives || (await createImageDerivatives(bucket, path))
+
+  // Boards upload duplicates too, so this marks the object as in use
+  await recordStoredAsset(bucket, path, checksum, derivatives)
+  return derivatives
+}
+
+/**
+ * Which of `paths` were stored again since `since`: a duplicate upload
+ * may have just handed one of them out
+ */
+export async function getRestoredPaths(
+  bucket: UploadBucket,
+  paths: string[],
+  since: Date
+): Promise<Set<string>> {
+  if (paths.length === 0) return new Set()
+
+  const { data, error } = await supabaseAdmin
+    .from('stored_assets')
+    .select('path')
+    .eq('bucket', bucket)
+    .in('path', paths)
+    .gt('last_stored_at', since.toISOString())
+
+  if (error) throw error
+  return new Set((data || []).map((row) => row.path as string))
+}
+
+/**
+ * Forget objects the garbage collector deleted
+ */
+export async function forgetStoredAssets(
+  bucket: UploadBucket,
+  paths: string[]
+): Promise<void> {
+  if (paths.length === 0) return
+
+  const { error } = await supabaseAdmin
+    .from('stored_assets')
+    .delete()
+    .eq('bucket', bucket)
+    .in('path', paths)
+
+  if (error) throw error
+}
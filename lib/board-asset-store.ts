@@ -1,20 +1,47 @@
-import { TLAssetStore, TLAsset } from 'tldraw'
+import { TLAssetStore, TLAsset, TLAssetContext, JsonObject } from 'tldraw'
 import { supabase } from './supaClient'
+import { authorizedFetch } from './api-client'
+import { pickImageSize } from './image-derivatives'
+import { getContentPath, isContentPath, isExistingObjectError } from './asset-references'
+import { Sha256 } from './checksum'
+import { getFileExtension } from './upload-files'
+import { ImageDerivatives } from '../types'
 
 const BUCKET_NAME = 'board-assets'
 
+// Hashing reads the file in slices so a large video isn't held in memory twice
+const HASH_CHUNK_SIZE = 4 * 1024 * 1024
+
 /**
- * Generate a unique filename for an asset
+ * Content-addressed storage path for an asset (see lib/asset-references.ts):
+ * the same image dropped on any board is stored once
  */
-function generateAssetFilename(file: File): string {
-  const timestamp = Date.now()
-  const randomString = Math.random().toString(36).substring(2, 8)
-  const extension = file.name.split('.').pop() || 'bin'
-  const sanitizedName = file.name
-    .replace(/\.[^/.]+$/, '') // Remove extension
-    .replace(/[^a-zA-Z0-9-_]/g, '-') // Sanitize
-    .substring(0, 50) // Limit length
-  return `${sanitizedName}-${timestamp}-${randomString}.${extension}`
+async function getAssetPath(file: File): Promise<string> {
+  const hash = new Sha256()
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    const chunk = await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer()
+    hash.update(new Uint8Array(chunk))
+  }
+  return getContentPath(hash.digest(), getFileExtension(file.name))
+}
+
+/**
+ * Ask the API for resized copies of an uploaded image. Boards still work
+ * with the original when this fails.
+ */
+async function requestDerivatives(path: string): Promise<ImageDerivatives | null> {
+  try {
+    const response = await authorizedFetch('/api/images/derivatives', {
+      method: 'POST',
+      body: JSON.stringify({ bucket: BUCKET_NAME, path }),
+    })
+    if (!response.ok) return null
+    const { derivatives } = await response.json()
+    return derivatives
+  } catch (err) {
+    console.warn('Failed to create image derivatives:', err)
+    return null
+  }
 }
 
 /**
@@ -26,7 +53,7 @@ function getPublicAssetUrl(path: string): string {
 }
 
 export interface BoardAssetStoreOptions {
-  /** The project ID to organize assets under */
+  /** The project the board belongs to */
   projectId: string
   /** Optional callback when upload starts */
   onUploadStart?: (file: File) => void
@@ -39,49 +66,57 @@ export interface BoardAssetStoreOptions {
 /**
  * Create a TLAssetStore implementation for Supabase Storage
  * 
- * This stores assets in the board-assets bucket organized by project:
- * board-assets/{projectId}/{filename}
+ * This stores assets in the board-assets bucket under their SHA-256:
+ * board-assets/objects/{2 hex}/{sha256}.{ext}. Assets are shared between
+ * boards and removed by garbage collection (lib/asset-gc.ts) once no board
+ * uses them. Older assets live under board-assets/{projectId}/.
  * 
  * @param options - Configuration options
  * @returns TLAssetStore implementation
  */
 export function createBoardAssetStore(options: BoardAssetStoreOptions): TLAssetStore {
-  const { projectId, onUploadStart, onUploadComplete, onUploadError } = options
+  const { onUploadStart, onUploadComplete, onUploadError } = options
 
   return {
     /**
      * Upload an asset to Supabase Storage
      */
-    async upload(asset: TLAsset, file: File): Promise<{ src: string }> {
+    async upload(asset: TLAsset, file: File): Promise<{ src: string; meta?: JsonObject }> {
       if (onUploadStart) {
         onUploadStart(file)
       }
 
       try {
-        // Generate the storage path
-        const filename = generateAssetFilename(file)
-        const storagePath = `${projectId}/${filename}`
+        const storagePath = await getAssetPath(file)
 
-        // Upload to Supabase Storage
-        const { data, error } = await supabase.storage
+        // Upload to Supabase Storage; an existing object is the same file
+        const { error } = await supabase.storage
           .from(BUCKET_NAME)
           .upload(storagePath, file, {
-            cacheControl: '3600',
+            cacheControl: '31536000',
             upsert: false,
           })
 
-        if (error) {
+        if (error && !isExistingObjectError(error)) {
           throw new Error(`Upload failed: ${error.message}`)
         }
 
         // Get the public URL
-        const publicUrl = getPublicAssetUrl(data.path)
+        const publicUrl = getPublicAssetUrl(storagePath)
+
+        // Resized copies for resolve(); videos and SVGs keep the original
+        const derivatives =
+          asset.type === 'image' && file.type !== 'image/svg+xml' && file.type !== 'image/gif'
+            ? await requestDerivatives(storagePath)
+            : null
 
         if (onUploadComplete) {
           onUploadComplete(asset, publicUrl)
         }
 
-        return { src: publicUrl }
+        return derivatives
+          ? { src: publicUrl, meta: { derivatives: derivatives as unknown as JsonObject } }
+          : { src: publicUrl }
       } catch (err) {
         const error = err instanceof Error ? err : new Error('Unknown upload error')
         if (onUploadError) {
@@ -93,15 +128,21 @@ export function createBoardAssetStore(options: BoardAssetStoreOptions): TLAssetS
 
     /**
      * Resolve an asset URL
-     * For Supabase, assets are stored with their full public URL,
-     * so we can return the src directly
+     * Images with derivatives resolve to the smallest one that's sharp at
+     * the current zoom; everything else uses its full public URL
      */
-    resolve(asset: TLAsset): string | null {
-      // If the asset has a src, return it directly
-      if ('src' in asset.props && typeof asset.props.src === 'string') {
+    resolve(asset: TLAsset, ctx: TLAssetContext): string | null {
+      if (!('src' in asset.props) || typeof asset.props.src !== 'string') {
+        return null
+      }
+
+      const derivatives = asset.meta.derivatives as unknown as ImageDerivatives | undefined
+      if (asset.type !== 'image' || !derivatives || ctx.shouldResolveToOriginal) {
         return asset.props.src
       }
-      return null
+
+      const width = asset.props.w * ctx.steppedScreenScale * ctx.dpr
+      return derivatives.sizes[pickImageSize(derivatives, width)].webp
     },
   }
 }
@@ -126,6 +167,11 @@ export async function deleteAsset(projectId: string, assetUrl: string): Promise<
 
     const storagePath = pathParts.slice(bucketIndex + 1).join('/')
 
+    // Other boards may use the same file; garbage collection removes it
+    if (isContentPath(storagePath)) {
+      return true
+    }
+
     const { error } = await supabase.storage.from(BUCKET_NAME).remove([storagePath])
 
     if (error) {
@@ -0,0 +1,421 @@
+import {
+  BoardBinding,
+  BoardBindingField,
+  BoardEdit,
+  BoardElement,
+  Item,
+  Part,
+  Project,
+  Version,
+} from '../types'
+
+/**
+ * Keeping generated whiteboard cards tied to the project. Every element
+ * generateProjectBoardLayout creates carries a binding in its
+ * `customData`: which item, version or part it shows, which field, and the
+ * project value it last showed. With that the board can follow the
+ * project (a part renamed in the item editor is renamed on its card), and
+ * names and colors changed on the board can be written back.
+ *
+ * When a value changed in the project since the board last showed it, the
+ * project wins. Elements whose item, version or part is gone are flagged
+ * as stale rather than removed; they may hold notes someone wants to keep.
+ */
+
+const STALE_OPACITY = 40
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i
+
+// Fields that can be edited on the board and written back
+const WRITABLE_FIELDS: Partial<Record<BoardBindingField, boolean>> = {
+  name: true,
+  color: true,
+}
+
+export function getBinding(element: BoardElement): BoardBinding | null {
+  const customData = element.customData as
+    | { binding?: BoardBinding }
+    | undefined
+  const binding = customData?.binding
+  return binding && binding.kind && binding.field ? binding : null
+}
+
+/**
+ * `element` tagged with `binding`, for newly generated elements
+ */
+export function bindElement<T extends Record<string, unknown>>(
+  element: T,
+  binding: BoardBinding
+): T {
+  const customData = element.customData as Record<string, unknown> | undefined
+  return { ...element, customData: { ...customData, binding } }
+}
+
+/**
+ * Same key for every element showing the same field of the same thing,
+ * e.g. a card and its copy
+ */
+export function getBindingKey(binding: BoardBinding): string {
+  return [
+    binding.kind,
+    binding.itemId || '',
+    binding.versionId || '',
+    binding.partId || '',
+    binding.field,
+  ].join(':')
+}
+
+export function getProjectSummary(
+  project: Pick<Project, 'retailer' | 'due_date'>
+): string {
+  const dueDate = project.due_date
+    ? new Date(project.due_date).toLocaleDateString()
+    : 'Not set'
+  return `Retailer: ${project.retailer || 'N/A'} • Due: ${dueDate}`
+}
+
+export function getItemSummary(item: Item): string {
+  const partCount = item.versions?.length
+    ? item.versions.reduce((sum, v) => sum + (v.parts?.length || 0), 0)
+    : item.parts?.length || 0
+  const versionCount = item.versions?.length || 0
+  return `${partCount} part${partCount !== 1 ? 's' : ''} • ${versionCount} version${versionCount !== 1 ? 's' : ''}`
+}
+
+export function getVersionLabel(version: Version): string {
+  return version.versionName || `Version ${version.versionNumber}`
+}
+
+export function getPartDetails(part: Part): string {
+  return [part.finish, part.color, part.texture].filter(Boolean).join(' • ')
+}
+
+/**
+ * Fill for a part's color swatch. Colors typed as names, e.g. from the
+ * materials library, leave it empty.
+ */
+export function getSwatchColor(color: string | undefined): string {
+  return color && HEX_COLOR.test(color) ? color : 'transparent'
+}
+
+function findBound(
+  project: Project,
+  binding: BoardBinding
+): { item?: Item; version?: Version; part?: Part } | null {
+  if (binding.kind === 'project') return {}
+
+  const item = (project.items || []).find(
+    (entry) => entry.id === binding.itemId
+  )
+  if (!item) return null
+  if (binding.kind === 'item') return { item }
+
+  const version = binding.versionId
+    ? (item.versions || []).find((entry) => entry.id === binding.versionId)
+    : undefined
+  if (binding.versionId && !version) return null
+  if (binding.kind === 'version') return version ? { item, version } : null
+
+  // Items from before versions keep their parts on the item
+  const parts = version ? version.parts : item.parts
+  const part = (parts || []).find((entry) => entry.id === binding.partId)
+  return part ? { item, version, part } : null
+}
+
+/**
+ * What the project holds for a bound element: a string for names, details
+ * and colors, undefined for fields without a value (cards, images,
+ * arrows), null when its item, version or part is gone
+ */
+export function getBoundValue(
+  project: Project,
+  binding: BoardBinding
+): string | null | undefined {
+  const found = findBound(project, binding)
+  if (!found) return null
+  const { item, version, part } = found
+
+  switch (binding.kind) {
+    case 'project':
+      if (binding.field === 'name') return project.title
+      if (binding.field === 'details') return getProjectSummary(project)
+      return undefined
+    case 'item':
+      if (binding.field === 'name') return item!.name
+      if (binding.field === 'details') return getItemSummary(item!)
+      return undefined
+    case 'version':
+      return binding.field === 'name' ? getVersionLabel(version!) : undefined
+    case 'part':
+      if (binding.field === 'name') return part!.name
+      if (binding.field === 'details') return getPartDetails(part!)
+      if (binding.field === 'color') return part!.color || ''
+      return undefined
+  }
+}
+
+// What an element shows for a field, as Excalidraw stores it
+function getElementValue(
+  element: BoardElement,
+  field: BoardBindingField
+): string {
+  if (field === 'color') {
+    return (element.backgroundColor as string) || 'transparent'
+  }
+  return ((element.originalText ?? element.text) as string) || ''
+}
+
+function toElementValue(field: BoardBindingField, value: string): string {
+  return field === 'color' ? getSwatchColor(value) : value
+}
+
+function fromElementValue(field: BoardBindingField, value: string): string {
+  if (field === 'color') return value === 'transparent' ? '' : value
+  return value.trim()
+}
+
+// A project value as it reads back from the board
+function normalizeValue(field: BoardBindingField, value: string): string {
+  return fromElementValue(field, toElementValue(field, value))
+}
+
+function setElementValue(
+  field: BoardBindingField,
+  value: string
+): Record<string, unknown> {
+  const shown = toElementValue(field, value)
+  return field === 'color'
+    ? { backgroundColor: shown }
+    : { text: shown, originalText: shown }
+}
+
+// A new version of `element`, so the edit syncs like one made by hand
+function updateElement(
+  element: BoardElement,
+  changes: Record<string, unknown>,
+  binding: BoardBinding
+): BoardElement {
+  return bindElement(
+    {
+      ...element,
+      ...changes,
+      version: element.version + 1,
+      versionNonce: Math.floor(Math.random() * 2 ** 31),
+      updated: Date.now(),
+    },
+    binding
+  )
+}
+
+function setStale(element: BoardElement, stale: boolean) {
+  const changes: Record<string, unknown> = {
+    opacity: stale ? STALE_OPACITY : 100,
+  }
+  if (element.type === 'rectangle') {
+    changes.strokeStyle = stale ? 'dashed' : 'solid'
+  }
+  return changes
+}
+
+/**
+ * Bound elements that need updating to match `project`: new names,
+ * details and colors, and stale flags set or cleared. Returns only the
+ * changed elements, to merge into the scene.
+ */
+export function syncBoardWithProject(
+  elements: readonly BoardElement[],
+  project: Project
+): BoardElement[] {
+  const changed: BoardElement[] = []
+
+  elements.forEach((element) => {
+    const binding = element.isDeleted ? null : getBinding(element)
+    if (!binding) return
+    const value = getBoundValue(project, binding)
+
+    if (value === null) {
+      if (!binding.stale) {
+        changed.push(
+          updateElement(element, setStale(element, true), {
+            ...binding,
+            stale: true,
+          })
+        )
+      }
+      return
+    }
+
+    let changes: Record<string, unknown> = {}
+    const next: BoardBinding = { ...binding }
+    if (binding.stale) {
+      changes = setStale(element, false)
+      delete next.stale
+    }
+    if (value !== undefined && value !== binding.value) {
+      changes = { ...changes, ...setElementValue(binding.field, value) }
+      next.value = value
+    }
+    if (Object.keys(changes).length > 0) {
+      changed.push(updateElement(element, changes, next))
+    }
+  })
+
+  return changed
+}
+
+/**
+ * Names and colors changed on the board that the project doesn't have.
+ * Text being typed right now (`editingId`) isn't an edit yet.
+ */
+export function getBoardEdits(
+  elements: readonly BoardElement[],
+  project: Project,
+  editingId?: string
+): BoardEdit[] {
+  const edits = new Map<string, BoardEdit>()
+
+  elements.forEach((element) => {
+    const binding = element.isDeleted ? null : getBinding(element)
+    if (!binding || binding.stale || !WRITABLE_FIELDS[binding.field]) return
+    if (element.id === editingId) return
+
+    const projectValue = getBoundValue(project, binding)
+    // Changed in the project too: syncing takes the project's value
+    if (typeof projectValue !== 'string' || projectValue !== binding.value) {
+      return
+    }
+
+    const boardValue = fromElementValue(
+      binding.field,
+      getElementValue(element, binding.field)
+    )
+    if (boardValue === normalizeValue(binding.field, projectValue)) return
+    // Names can't be empty
+    if (binding.field === 'name' && !boardValue) return
+
+    const key = getBindingKey(binding)
+    const existing = edits.get(key)
+    if (existing) {
+      existing.elementIds.push(element.id)
+    } else {
+      edits.set(key, {
+        binding,
+        elementIds: [element.id],
+        projectValue,
+        boardValue,
+      })
+    }
+  })
+
+  return Array.from(edits.values())
+}
+
+/**
+ * Bound elements set back to what the project holds, for edits the user
+ * chose not to write back
+ */
+export function revertBoardEdits(
+  elements: readonly BoardElement[],
+  edits: readonly BoardEdit[]
+): BoardElement[] {
+  const byId = new Map<string, BoardEdit>()
+  edits.forEach((edit) => edit.elementIds.forEach((id) => byId.set(id, edit)))
+
+  return elements
+    .filter((element) => byId.has(element.id))
+    .map((element) => {
+      const { binding, projectValue } = byId.get(element.id)!
+      return updateElement(
+        element,
+        setElementValue(binding.field, projectValue),
+        binding
+      )
+    })
+}
+
+/**
+ * The API request that writes a board edit to the project, or null when
+ * the edit can't be addressed (parts of items from before versions)
+ */
+export function getWriteBackRequest(
+  projectId: string,
+  edit: BoardEdit
+): { path: string; body: Record<string, string> } | null {
+  const { kind, field, itemId, versionId, partId } = edit.binding
+  const projectPath = `/api/v1/projects/${projectId}`
+
+  switch (kind) {
+    case 'project':
+      return { path: projectPath, body: { title: edit.boardValue } }
+    case 'item':
+      return {
+        path: `${projectPath}/items/${itemId}`,
+        body: { name: edit.boardValue },
+      }
+    case 'version':
+      return {
+        path: `${projectPath}/items/${itemId}/versions/${versionId}`,
+        body: { versionName: edit.boardValue },
+      }
+    case 'part':
+      if (!versionId) return null
+      return {
+        path: `${projectPath}/items/${itemId}/versions/${versionId}/parts/${partId}`,
+        body:
+          field === 'color'
+            ? { color: edit.boardValue }
+            : { name: edit.boardValue },
+      }
+  }
+}
+
+/**
+ * `project` with board edits applied, as the API will store them
+ */
+export function applyBoardEdits(
+  project: Project,
+  edits: readonly BoardEdit[]
+): Project {
+  let next: Project = { ...project, items: [...(project.items || [])] }
+
+  edits.forEach(({ binding, boardValue }) => {
+    if (binding.kind === 'project') {
+      next = { ...next, title: boardValue }
+      return
+    }
+    next.items = next.items.map((item) => {
+      if (item.id !== binding.itemId) return item
+      if (binding.kind === 'item') return { ...item, name: boardValue }
+
+      const versions = (item.versions || []).map((version) => {
+        if (version.id !== binding.versionId) return version
+        if (binding.kind === 'version') {
+          return { ...version, versionName: boardValue }
+        }
+        return {
+          ...version,
+          parts: version.parts.map((part) =>
+            part.id === binding.partId
+              ? {
+                  ...part,
+                  [binding.field === 'color' ? 'color' : 'name']: boardValue,
+                }
+              : part
+          ),
+        }
+      })
+      return { ...item, versions }
+    })
+  })
+
+  return next
+}
+
+/**
+ * Cards whose item, version or part is gone from the project
+ */
+export function countStaleCards(elements: readonly BoardElement[]): number {
+  return elements.filter((element) => {
+    const binding = element.isDeleted ? null : getBinding(element)
+    return binding?.field === 'card' && binding.stale
+  }).length
+}
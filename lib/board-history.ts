@@ -0,0 +1,267 @@
+import { supabaseAdmin } from './supaAdmin'
+import { ApiError } from './api-errors'
+import {
+  BoardFiles,
+  BoardOperation,
+  BoardSnapshot,
+  BoardVersion,
+  BoardVersionWithSnapshot,
+} from '../types'
+
+/**
+ * Whiteboard history (see docs/add-board-history.sql). The operations
+ * log records a version of the board every AUTO_VERSION_INTERVAL while
+ * people are editing and each time it is folded into the snapshot, and the
+ * latest MAX_AUTO_VERSIONS of those are kept. Named checkpoints are kept
+ * until deleted. Restoring and forking happen in the browser, as ordinary
+ * edits, so everyone's board follows.
+ */
+
+export const AUTO_VERSION_INTERVAL = 10 * 60 * 1000
+const MAX_AUTO_VERSIONS = 100
+const MAX_LISTED_VERSIONS = 200
+
+const VERSION_COLUMNS =
+  'id, project_id, board_id, seq, name, created_by, contributors, created_at'
+
+// The board at `seq`, with the operations after the snapshot it was built
+// from: their users are the version's contributors
+export interface BoardState {
+  snapshot: BoardSnapshot
+  seq: number
+  operations: BoardOperation[]
+}
+
+export async function getLatestBoardVersion(
+  boardId: string
+): Promise<BoardVersion | null> {
+  const { data, error } = await supabaseAdmin
+    .from('project_board_versions')
+    .select(VERSION_COLUMNS)
+    .eq('board_id', boardId)
+    .order('seq', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as BoardVersion | null
+}
+
+/**
+ * Whether the board has moved on enough since `latest` for an automatic
+ * version
+ */
+export function isVersionDue(
+  latest: Pick<BoardVersion, 'seq' | 'created_at'> | null,
+  seq: number,
+  now = Date.now()
+): boolean {
+  if (!latest) return seq > 0
+  return (
+    seq > latest.seq &&
+    now - new Date(latest.created_at).getTime() >= AUTO_VERSION_INTERVAL
+  )
+}
+
+/**
+ * Users whose operations came after `afterSeq`, and `userId`
+ */
+export function getContributors(
+  operations: readonly Pick<BoardOperation, 'seq' | 'user_id'>[],
+  afterSeq: number,
+  userId?: string | null
+): string[] {
+  const contributors = new Set<string>()
+  operations.forEach((operation) => {
+    if (operation.seq > afterSeq && operation.user_id) {
+      contributors.add(operation.user_id)
+    }
+  })
+  if (userId) contributors.add(userId)
+  return Array.from(contributors)
+}
+
+async function pruneAutoVersions(boardId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('project_board_versions')
+    .select('id')
+    .eq('board_id', boardId)
+    .is('name', null)
+    .order('seq', { ascending: false })
+    .range(MAX_AUTO_VERSIONS, MAX_AUTO_VERSIONS + 99)
+
+  if (error) throw error
+  if (!data || data.length === 0) return
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('project_board_versions')
+    .delete()
+    .in(
+      'id',
+      data.map((row) => row.id)
+    )
+
+  if (deleteError) throw deleteError
+}
+
+/**
+ * Store `board` as a version of board `boardId`: a checkpoint with `name`,
+ * otherwise an automatic one. Returns null when an automatic version of
+ * the same seq was recorded meanwhile.
+ */
+export async function recordBoardVersion(
+  projectId: string,
+  boardId: string,
+  board: BoardState,
+  options: { name?: string; userId?: string | null } = {}
+): Promise<BoardVersion | null> {
+  const latest = await getLatestBoardVersion(boardId)
+  const { data, error } = await supabaseAdmin
+    .from('project_board_versions')
+    .insert({
+      project_id: projectId,
+      board_id: boardId,
+      seq: board.seq,
+      name: options.name || null,
+      elements: board.snapshot.elements,
+      app_state: board.snapshot.appState,
+      created_by: options.userId || null,
+      contributors: getContributors(
+        board.operations,
+        latest ? latest.seq : 0,
+        options.userId
+      ),
+    })
+    .select(VERSION_COLUMNS)
+    .single()
+
+  // unique_violation: another save recorded this seq first
+  if (error?.code === '23505') return null
+  if (error) throw error
+
+  if (!options.name) {
+    // Old versions left over are pruned next time
+    await pruneAutoVersions(boardId).catch((pruneError) =>
+      console.error('Failed to prune board versions:', pruneError)
+    )
+  }
+  return data as BoardVersion
+}
+
+/**
+ * The board's history, latest first, with the display names of the users
+ * in it
+ */
+export async function listBoardVersions(boardId: string): Promise<{
+  versions: BoardVersion[]
+  users: Record<string, string>
+}> {
+  const { data, error } = await supabaseAdmin
+    .from('project_board_versions')
+    .select(VERSION_COLUMNS)
+    .eq('board_id', boardId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_LISTED_VERSIONS)
+
+  if (error) throw error
+  const versions = (data || []) as BoardVersion[]
+
+  const userIds = new Set<string>()
+  versions.forEach((version) => {
+    if (version.created_by) userIds.add(version.created_by)
+    version.contributors.forEach((userId) => userIds.add(userId))
+  })
+
+  const users: Record<string, string> = {}
+  if (userIds.size > 0) {
+    const { data: profiles, error: profilesError } = await supabaseAdmin
+      .from('user_profiles')
+      .select('user_id, display_name')
+      .in('user_id', Array.from(userIds))
+
+    // Names are nice to have; the timeline works without them
+    if (profilesError) {
+      console.error('Failed to load board history users:', profilesError)
+    }
+    ;(profiles || []).forEach((profile) => {
+      if (profile.display_name) users[profile.user_id] = profile.display_name
+    })
+  }
+
+  return { versions, users }
+}
+
+/**
+ * One version with its elements, for previewing, restoring or forking.
+ * `files` are the board's; only those the version's images use are kept.
+ */
+export async function getBoardVersion(
+  boardId: string,
+  versionId: string,
+  files: BoardFiles
+): Promise<BoardVersionWithSnapshot> {
+  const { data, error } = await supabaseAdmin
+    .from('project_board_versions')
+    .select(`${VERSION_COLUMNS}, elements, app_state`)
+    .eq('id', versionId)
+    .eq('board_id', boardId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new ApiError('not_found', 'Board version not found')
+
+  const { elements, app_state, ...version } = data
+  const versionFiles: BoardFiles = {}
+  ;(elements as BoardSnapshot['elements']).forEach((element) => {
+    const fileId = element.fileId as string | undefined
+    if (fileId && files[fileId]) versionFiles[fileId] = files[fileId]
+  })
+
+  return {
+    ...(version as BoardVersion),
+    snapshot: { elements, appState: app_state, files: versionFiles },
+  }
+}
+
+/**
+ * Name a version, making it a checkpoint, or rename a checkpoint
+ */
+export async function renameBoardVersion(
+  boardId: string,
+  versionId: string,
+  name: string
+): Promise<BoardVersion> {
+  const { data, error } = await supabaseAdmin
+    .from('project_board_versions')
+    .update({ name })
+    .eq('id', versionId)
+    .eq('board_id', boardId)
+    .select(VERSION_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new ApiError('not_found', 'Board version not found')
+  return data as BoardVersion
+}
+
+/**
+ * Delete a checkpoint. Automatic versions go on their own.
+ */
+export async function deleteBoardCheckpoint(
+  boardId: string,
+  versionId: string
+): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('project_board_versions')
+    .delete()
+    .eq('id', versionId)
+    .eq('board_id', boardId)
+    .not('name', 'is', null)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new ApiError('not_found', 'Checkpoint not found')
+  }
+}
@@ -0,0 +1,107 @@
+import { BoardElement } from '../types'
+
+/**
+ * Links from whiteboard elements to another board or to an item of the
+ * project. They are stored in the element's `link` like any Excalidraw
+ * link, as paths in the portal, so they also work from an exported board
+ * or a copied URL. The whiteboard page opens board links in place.
+ */
+
+export type BoardLinkTarget =
+  | { type: 'board'; projectId: string; boardId: string }
+  | { type: 'item'; projectId: string; itemId: string }
+
+const WHITEBOARD_PATH = /^\/project\/([^/]+)\/whiteboard\/?$/
+const PROJECT_PATH = /^\/project\/([^/]+)\/?$/
+const ITEM_HASH = /^#item-(.+)$/
+
+// Parses relative links; other sites' links are never ours
+const LOCAL_ORIGIN = 'http://localhost'
+
+export function getBoardLink(projectId: string, boardId: string): string {
+  return `/project/${projectId}/whiteboard?board=${encodeURIComponent(boardId)}`
+}
+
+export function getItemLink(projectId: string, itemId: string): string {
+  return `/project/${projectId}#item-${encodeURIComponent(itemId)}`
+}
+
+/**
+ * What `link` points to, when it is a link to a board or item. Absolute
+ * links count when they are on `origin`, the portal's own.
+ */
+export function parseBoardLink(
+  link: string | null | undefined,
+  origin = LOCAL_ORIGIN
+): BoardLinkTarget | null {
+  if (!link) return null
+
+  let url: URL
+  try {
+    url = new URL(link, origin)
+  } catch {
+    return null
+  }
+  if (url.origin !== new URL(origin).origin) return null
+
+  const board = url.pathname.match(WHITEBOARD_PATH)
+  const boardId = url.searchParams.get('board')
+  if (board && boardId) {
+    return {
+      type: 'board',
+      projectId: decodeURIComponent(board[1]),
+      boardId,
+    }
+  }
+
+  const project = url.pathname.match(PROJECT_PATH)
+  const item = url.hash.match(ITEM_HASH)
+  if (project && item) {
+    return {
+      type: 'item',
+      projectId: decodeURIComponent(project[1]),
+      itemId: decodeURIComponent(item[1]),
+    }
+  }
+
+  return null
+}
+
+/**
+ * `link` with its project, board and item ids replaced from `ids`, e.g.
+ * when a project is copied. Other links are returned as they are.
+ */
+export function remapBoardLink(link: string, ids: Map<string, string>): string {
+  const target = parseBoardLink(link)
+  if (!target) return link
+  const projectId = ids.get(target.projectId) || target.projectId
+  return target.type === 'board'
+    ? getBoardLink(projectId, ids.get(target.boardId) || target.boardId)
+    : getItemLink(projectId, ids.get(target.itemId) || target.itemId)
+}
+
+/**
+ * The elements of `elementIds` linked to `link`, or unlinked with null, as
+ * new versions so the change syncs like one made by hand
+ */
+export function setElementLinks<T extends BoardElement>(
+  elements: readonly T[],
+  elementIds: readonly string[],
+  link: string | null
+): T[] {
+  const ids = new Set(elementIds)
+  return elements
+    .filter(
+      (element) =>
+        ids.has(element.id) &&
+        !element.isDeleted &&
+        (element.link || null) !== link
+    )
+    .map((element) => ({
+      ...element,
+      link,
+      version: element.version + 1,
+      versionNonce: Math.floor(Math.random() * 2 ** 31),
+      updated: Date.now(),
+    }))
+}
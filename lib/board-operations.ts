@@ -0,0 +1,265 @@
+import { supabaseAdmin } from './supaAdmin'
+import { ApiError } from './api-errors'
+import { applyBoardChanges, toBoardSnapshot } from './board-sync'
+import {
+  BoardState,
+  getLatestBoardVersion,
+  isVersionDue,
+  recordBoardVersion,
+} from './board-history'
+import {
+  BoardChange,
+  BoardOperation,
+  BoardSnapshot,
+  BoardSyncState,
+  BoardVersion,
+} from '../types'
+
+/**
+ * Server side of whiteboard sync. Clients send the elements they changed
+ * as operations, numbered per board by the append_board_operations RPC
+ * (see docs/add-board-operations.sql and docs/add-multiple-boards.sql); everyone else catches up by asking
+ * for the operations after the last seq they have seen. Every
+ * COMPACT_AFTER operations the log is folded into
+ * project_boards.board_snapshot and the folded operations are deleted.
+ * Versions for the board's history are recorded along the way (see
+ * lib/board-history.ts).
+ */
+
+// Operations kept in the log before they are folded into the snapshot
+const COMPACT_AFTER = 200
+// More than a client sends between two compactions
+const OPERATION_PAGE_SIZE = 1000
+const MAX_READ_ATTEMPTS = 3
+
+const OPERATION_COLUMNS =
+  'project_id, board_id, seq, id, client_id, user_id, elements, files, app_state, created_at'
+
+interface BoardRow {
+  project_id: string
+  board_snapshot: unknown
+  last_seq: number
+  snapshot_seq: number
+}
+
+async function getBoardRow(boardId: string): Promise<BoardRow> {
+  const { data, error } = await supabaseAdmin
+    .from('project_boards')
+    .select('project_id, board_snapshot, last_seq, snapshot_seq')
+    .eq('id', boardId)
+    .maybeSingle()
+
+  if (error) throw error
+  // Deleted meanwhile; access is checked before anything gets here
+  if (!data) throw new ApiError('not_found', 'Board not found')
+  return data
+}
+
+async function getOperations(
+  boardId: string,
+  after: number,
+  upTo: number
+): Promise<BoardOperation[]> {
+  const operations: BoardOperation[] = []
+
+  for (let from = after; from < upTo; ) {
+    const { data, error } = await supabaseAdmin
+      .from('project_board_operations')
+      .select(OPERATION_COLUMNS)
+      .eq('board_id', boardId)
+      .gt('seq', from)
+      .lte('seq', upTo)
+      .order('seq')
+      .limit(OPERATION_PAGE_SIZE)
+
+    if (error) throw error
+    const page = (data || []) as BoardOperation[]
+    operations.push(...page)
+    if (page.length < OPERATION_PAGE_SIZE) break
+    from = page[page.length - 1].seq
+  }
+
+  return operations
+}
+
+// The board as of its latest operation
+async function readBoard(
+  boardId: string
+): Promise<BoardState & { row: BoardRow }> {
+  const row = await getBoardRow(boardId)
+  const operations = await getOperations(
+    boardId,
+    row.snapshot_seq,
+    row.last_seq
+  )
+  return {
+    row,
+    seq: row.last_seq,
+    operations,
+    snapshot: applyBoardChanges(
+      toBoardSnapshot(row.board_snapshot),
+      operations
+    ),
+  }
+}
+
+// History must never hold up saving
+async function recordHistory(
+  projectId: string,
+  boardId: string,
+  board: BoardState,
+  userId?: string
+) {
+  try {
+    const latest = await getLatestBoardVersion(boardId)
+    if (latest && latest.seq >= board.seq) return
+    await recordBoardVersion(projectId, boardId, board, { userId })
+  } catch (error) {
+    console.error('Failed to record board version:', error)
+  }
+}
+
+/**
+ * Fold the operations log into board_snapshot. When two compactions race,
+ * the second one to finish changes nothing.
+ */
+export async function compactBoard(boardId: string): Promise<void> {
+  const { row: board, snapshot, operations } = await readBoard(boardId)
+  if (board.last_seq <= board.snapshot_seq) return
+
+  const { data, error } = await supabaseAdmin
+    .from('project_boards')
+    .update({ board_snapshot: snapshot, snapshot_seq: board.last_seq })
+    .eq('id', boardId)
+    .eq('snapshot_seq', board.snapshot_seq)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) return
+
+  // While the operations still say who made them
+  await recordHistory(board.project_id, boardId, {
+    snapshot,
+    seq: board.last_seq,
+    operations,
+  })
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('project_board_operations')
+    .delete()
+    .eq('board_id', boardId)
+    .lte('seq', board.last_seq)
+
+  // Folded operations left behind are only replayed, which changes nothing
+  if (deleteError) {
+    console.error('Failed to delete folded board operations:', deleteError)
+  }
+}
+
+/**
+ * The board as of its latest operation, leaving the stored snapshot and
+ * operations log as they are
+ */
+export async function getBoardSnapshot(
+  boardId: string
+): Promise<BoardSnapshot> {
+  return (await readBoard(boardId)).snapshot
+}
+
+/**
+ * Store a client's operations and return the seq of the latest one. An
+ * operation sent again, e.g. after a timeout, is ignored.
+ */
+export async function appendBoardOperations(
+  boardId: string,
+  userId: string,
+  clientId: string,
+  changes: BoardChange[]
+): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('append_board_operations', {
+    p_board_id: boardId,
+    p_user_id: userId,
+    p_client_id: clientId,
+    p_operations: changes,
+  })
+
+  if (error) throw error
+  const { last_seq, snapshot_seq } = (Array.isArray(data) ? data[0] : data) as {
+    last_seq: number
+    snapshot_seq: number
+  }
+
+  if (last_seq - snapshot_seq >= COMPACT_AFTER) {
+    // The operations are stored; folding can wait for the next append
+    await compactBoard(boardId).catch((compactError) =>
+      console.error('Failed to compact board:', compactError)
+    )
+  } else {
+    const due = await getLatestBoardVersion(boardId).then(
+      (latest) => isVersionDue(latest, last_seq),
+      // Without docs/add-board-history.sql there is no history to record
+      () => false
+    )
+    if (due) {
+      await readBoard(boardId)
+        .then((board) =>
+          recordHistory(board.row.project_id, boardId, board, userId)
+        )
+        .catch((historyError) =>
+          console.error('Failed to record board version:', historyError)
+        )
+    }
+  }
+
+  return last_seq
+}
+
+/**
+ * Name the board as it is now, e.g. "Client review 1"
+ */
+export async function createBoardCheckpoint(
+  boardId: string,
+  userId: string,
+  name: string
+): Promise<BoardVersion> {
+  const board = await readBoard(boardId)
+  return (await recordBoardVersion(board.row.project_id, boardId, board, {
+    name,
+    userId,
+  }))!
+}
+
+/**
+ * What a client that has seen operations up to `since` is missing: the
+ * snapshot as well when those operations were folded into it meanwhile.
+ * Without `since`, the whole board.
+ */
+export async function getBoardSyncState(
+  boardId: string,
+  since?: number
+): Promise<BoardSyncState> {
+  // Loading a board is a good moment to fold what has piled up
+  if (since === undefined) await compactBoard(boardId)
+
+  for (let attempt = 1; ; attempt++) {
+    const board = await getBoardRow(boardId)
+    const behind = since === undefined || since < board.snapshot_seq
+    const operations = await getOperations(
+      boardId,
+      behind ? board.snapshot_seq : (since as number),
+      board.last_seq
+    )
+
+    // A compaction in between may have deleted some of the operations
+    const { snapshot_seq } = await getBoardRow(boardId)
+    if (snapshot_seq !== board.snapshot_seq && attempt < MAX_READ_ATTEMPTS) {
+      continue
+    }
+
+    return {
+      seq: board.last_seq,
+      snapshot: behind ? toBoardSnapshot(board.board_snapshot) : null,
+      operations,
+    }
+  }
+}
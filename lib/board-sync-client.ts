@@ -0,0 +1,341 @@
+import { authorizedFetch } from './api-client'
+import {
+  applyBoardChanges,
+  compareElementVersions,
+  getChangedElements,
+  getElementVersions,
+  getSharedAppState,
+} from './board-sync'
+import {
+  BoardChange,
+  BoardElement,
+  BoardFiles,
+  BoardSnapshot,
+  BoardSyncState,
+} from '../types'
+
+/**
+ * Browser side of whiteboard sync (see lib/board-operations.ts). Local
+ * edits become operations holding only the changed elements; they wait in
+ * an outbox kept in localStorage until the API has stored them, so edits
+ * made offline or just before closing the tab are sent next time. Remote
+ * edits arrive over the collaboration channel or by catching up on the
+ * operations log, and are merged element by element (lib/board-sync.ts).
+ */
+
+const OUTBOX_KEY_PREFIX = 'board-outbox:'
+// The API accepts up to 50 operations per request
+const SEND_BATCH_SIZE = 50
+const RETRY_DELAYS = [1000, 3000, 10000, 30000]
+
+export type BoardSyncStatus = 'idle' | 'sending' | 'synced' | 'offline'
+
+export interface BoardSyncClientOptions {
+  onStatusChange?: (status: BoardSyncStatus) => void
+  onPendingChange?: (pending: number) => void
+}
+
+export interface RemoteBoardChanges {
+  elements: BoardElement[]
+  files: BoardFiles
+  appState: Record<string, unknown>
+}
+
+class BoardSyncError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'BoardSyncError'
+    this.status = status
+  }
+
+  // Offline, an expiring session and server errors are worth retrying; a
+  // rejected operation never will be accepted
+  get retryable(): boolean {
+    return this.status === 0 || this.status === 401 || this.status >= 500
+  }
+}
+
+const createId = () => crypto.randomUUID()
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  let response: Response
+  try {
+    response = await authorizedFetch(input, init)
+  } catch {
+    throw new BoardSyncError(0, 'Network error')
+  }
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new BoardSyncError(
+      response.status,
+      body.error || `Board request failed (${response.status})`
+    )
+  }
+  return body as T
+}
+
+export class BoardSyncClient {
+  readonly projectId: string
+  readonly boardId: string
+  /** One per tab, so a user's two tabs are two clients */
+  readonly clientId = createId()
+  status: BoardSyncStatus = 'idle'
+  /** Latest operation seen */
+  seq = 0
+
+  private options: BoardSyncClientOptions
+  // Versions the server has or will have: sent or received
+  private versions = new Map<string, string>()
+  private fileIds = new Set<string>()
+  private appState: Record<string, unknown> = {}
+  private outbox: BoardChange[] = []
+  private sending: Promise<boolean> | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private retryAttempt = 0
+
+  constructor(
+    projectId: string,
+    boardId: string,
+    options: BoardSyncClientOptions = {}
+  ) {
+    this.projectId = projectId
+    this.boardId = boardId
+    this.options = options
+    this.outbox = this.loadOutbox()
+    if (this.outbox.length > 0) this.storeOutbox()
+  }
+
+  get pending(): number {
+    return this.outbox.length
+  }
+
+  private get endpoint(): string {
+    return `/api/project/${this.projectId}/boards/${this.boardId}/operations`
+  }
+
+  /**
+   * The board as stored, with edits still in the outbox from an earlier
+   * visit applied on top
+   */
+  async load(): Promise<BoardSnapshot> {
+    const state = await request<BoardSyncState>(this.endpoint)
+    const stored = applyBoardChanges(
+      state.snapshot || { elements: [], appState: {}, files: {} },
+      state.operations
+    )
+    this.seq = state.seq
+    this.track(stored.elements, stored.files, stored.appState)
+
+    if (this.outbox.length === 0) return stored
+    const restored = applyBoardChanges(stored, this.outbox)
+    this.track(restored.elements, restored.files, restored.appState)
+    this.send()
+    return restored
+  }
+
+  /**
+   * Queue what changed in the scene since the last commit. Returns the
+   * change, to broadcast to the other clients, or null for no change.
+   */
+  commit(
+    elements: readonly BoardElement[],
+    appState: Record<string, unknown>,
+    files: BoardFiles
+  ): BoardChange | null {
+    const changedElements = getChangedElements(elements, this.versions)
+    const newFiles: BoardFiles = {}
+    Object.keys(files).forEach((id) => {
+      if (!this.fileIds.has(id)) newFiles[id] = files[id]
+    })
+    const shared = getSharedAppState(appState)
+    const changedAppState = Object.keys(shared).some(
+      (key) => shared[key] !== this.appState[key]
+    )
+
+    if (
+      changedElements.length === 0 &&
+      Object.keys(newFiles).length === 0 &&
+      !changedAppState
+    ) {
+      return null
+    }
+
+    const change: BoardChange = {
+      id: createId(),
+      elements: changedElements,
+      ...(Object.keys(newFiles).length > 0 && { files: newFiles }),
+      ...(changedAppState && { app_state: shared }),
+    }
+    this.track(changedElements, newFiles, shared)
+    this.outbox.push(change)
+    this.storeOutbox()
+    return change
+  }
+
+  /**
+   * Record edits another client made, so they aren't sent back. Only
+   * elements that win over what this client knows count.
+   */
+  receive(elements: readonly BoardElement[], files?: BoardFiles) {
+    const winning = elements.filter((element) => {
+      const known = this.versions.get(element.id)
+      if (!known) return true
+      const [version, versionNonce] = known.split(':').map(Number)
+      return compareElementVersions(element, { version, versionNonce }) > 0
+    })
+    this.track(winning, files || {}, {})
+  }
+
+  /**
+   * Operations stored since the last catch-up, from other clients. After
+   * a long disconnect this includes the whole snapshot; merging it is safe.
+   */
+  async catchUp(): Promise<RemoteBoardChanges | null> {
+    const state = await request<BoardSyncState>(
+      `${this.endpoint}?since=${this.seq}`
+    )
+    const remote = applyBoardChanges(
+      state.snapshot || { elements: [], appState: {}, files: {} },
+      state.operations.filter(
+        (operation) => operation.client_id !== this.clientId
+      )
+    )
+    this.seq = Math.max(this.seq, state.seq)
+    const appState = getSharedAppState(remote.appState)
+
+    if (
+      remote.elements.length === 0 &&
+      Object.keys(remote.files).length === 0 &&
+      Object.keys(appState).length === 0
+    ) {
+      return null
+    }
+    this.receive(remote.elements, remote.files)
+    return { elements: remote.elements, files: remote.files, appState }
+  }
+
+  /**
+   * Send the outbox. Resolves false when something is left to retry.
+   */
+  send(): Promise<boolean> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+    if (!this.sending) {
+      this.sending = this.sendOutbox().finally(() => {
+        this.sending = null
+      })
+    }
+    return this.sending
+  }
+
+  dispose() {
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.retryTimer = null
+  }
+
+  private async sendOutbox(): Promise<boolean> {
+    while (this.outbox.length > 0) {
+      const batch = this.outbox.slice(0, SEND_BATCH_SIZE)
+      this.setStatus('sending')
+
+      try {
+        await request<{ seq: number }>(this.endpoint, {
+          method: 'POST',
+          body: JSON.stringify({
+            client_id: this.clientId,
+            operations: batch,
+          }),
+        })
+      } catch (error) {
+        if (error instanceof BoardSyncError && !error.retryable) {
+          // Sending it again won't help; drop it rather than block the rest
+          console.error('Board operations rejected:', error.message)
+        } else {
+          this.setStatus('offline')
+          this.scheduleRetry()
+          return false
+        }
+      }
+
+      const sent = new Set(batch.map((change) => change.id))
+      this.outbox = this.outbox.filter((change) => !sent.has(change.id))
+      this.storeOutbox()
+      this.retryAttempt = 0
+    }
+
+    this.setStatus('synced')
+    return true
+  }
+
+  private scheduleRetry() {
+    const delay =
+      RETRY_DELAYS[Math.min(this.retryAttempt, RETRY_DELAYS.length - 1)]
+    this.retryAttempt++
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.send()
+    }, delay)
+  }
+
+  private track(
+    elements: readonly BoardElement[],
+    files: BoardFiles,
+    appState: Record<string, unknown>
+  ) {
+    getElementVersions(elements).forEach((version, id) =>
+      this.versions.set(id, version)
+    )
+    Object.keys(files).forEach((id) => this.fileIds.add(id))
+    Object.assign(this.appState, getSharedAppState(appState))
+  }
+
+  private setStatus(status: BoardSyncStatus) {
+    this.status = status
+    this.options.onStatusChange?.(status)
+  }
+
+  private get storageKey(): string {
+    return `${OUTBOX_KEY_PREFIX}${this.boardId}:${this.clientId}`
+  }
+
+  // Take over what earlier tabs left unsent. A tab still open sends its
+  // own copy too; the server ignores operations it already has. Outboxes
+  // are per board; the main board's id is the project's, as before.
+  private loadOutbox(): BoardChange[] {
+    const outbox: BoardChange[] = []
+    try {
+      const prefix = `${OUTBOX_KEY_PREFIX}${this.boardId}:`
+      const keys: string[] = []
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i)
+        if (key && key.indexOf(prefix) === 0) keys.push(key)
+      }
+      keys.forEach((key) => {
+        outbox.push(
+          ...(JSON.parse(localStorage.getItem(key)!) as BoardChange[])
+        )
+        localStorage.removeItem(key)
+      })
+    } catch {
+      // Nothing readable stored
+    }
+    return outbox
+  }
+
+  private storeOutbox() {
+    this.options.onPendingChange?.(this.outbox.length)
+    try {
+      if (this.outbox.length > 0) {
+        localStorage.setItem(this.storageKey, JSON.stringify(this.outbox))
+      } else {
+        localStorage.removeItem(this.storageKey)
+      }
+    } catch {
+      // Private browsing or a full quota: edits are only kept until sent
+    }
+  }
+}
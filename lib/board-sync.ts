@@ -0,0 +1,276 @@
+import { BoardChange, BoardElement, BoardFiles, BoardSnapshot } from '../types'
+
+/**
+ * Merging whiteboard edits. Every Excalidraw element carries a `version`
+ * that goes up with each edit and a random `versionNonce`, and deleted
+ * elements stay on the board as tombstones (`isDeleted`). Per element the
+ * higher version wins and a tie goes to the lower nonce, the same rule
+ * Excalidraw's own collaboration uses. That makes merging commutative and
+ * idempotent: clients and the server end up with the same board whatever
+ * order changes arrive in, and applying a change twice does nothing.
+ */
+
+// Board-wide settings; zoom and scroll stay with each user
+export const SHARED_APP_STATE_KEYS = ['viewBackgroundColor', 'gridSize']
+
+const EMPTY_SNAPSHOT: BoardSnapshot = { elements: [], appState: {}, files: {} }
+
+const createNonce = () => Math.floor(Math.random() * 2 ** 31)
+
+/**
+ * Positive when `a` wins over `b`, negative when `b` does, 0 for the same
+ * edit
+ */
+export function compareElementVersions(
+  a: Pick<BoardElement, 'version' | 'versionNonce'>,
+  b: Pick<BoardElement, 'version' | 'versionNonce'>
+): number {
+  if (a.version !== b.version) return a.version - b.version
+  return b.versionNonce - a.versionNonce
+}
+
+// Excalidraw's fractional indices sort by character code, not locale
+function compareIndices(a: BoardElement, b: BoardElement): number {
+  if (a.index === b.index) return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+  return (a.index as string) < (b.index as string) ? -1 : 1
+}
+
+/**
+ * `current` with every element of `incoming` that wins over its current
+ * copy. New elements are added; the result is in z-order when every
+ * element has a fractional index. `keepLocal` protects elements being
+ * edited right now: their next version wins anyway.
+ */
+export function mergeElements<T extends BoardElement>(
+  current: readonly T[],
+  incoming: readonly T[],
+  keepLocal?: (id: string) => boolean
+): T[] {
+  const merged = current.slice()
+  const positions = new Map<string, number>()
+  merged.forEach((element, position) => positions.set(element.id, position))
+
+  incoming.forEach((element) => {
+    const position = positions.get(element.id)
+    if (position === undefined) {
+      positions.set(element.id, merged.length)
+      merged.push(element)
+    } else if (
+      !keepLocal?.(element.id) &&
+      compareElementVersions(element, merged[position]) > 0
+    ) {
+      merged[position] = element
+    }
+  })
+
+  return merged.every((element) => typeof element.index === 'string')
+    ? merged.sort(compareIndices)
+    : merged
+}
+
+/**
+ * Version of each element, as `{version}:{nonce}`
+ */
+export function getElementVersions(
+  elements: readonly BoardElement[]
+): Map<string, string> {
+  const versions = new Map<string, string>()
+  elements.forEach((element) =>
+    versions.set(element.id, `${element.version}:${element.versionNonce}`)
+  )
+  return versions
+}
+
+/**
+ * Elements whose version isn't in `known`: edited, added or deleted since
+ */
+export function getChangedElements<T extends BoardElement>(
+  elements: readonly T[],
+  known: Map<string, string>
+): T[] {
+  return elements.filter(
+    (element) =>
+      known.get(element.id) !== `${element.version}:${element.versionNonce}`
+  )
+}
+
+/**
+ * The board-wide settings of an Excalidraw app state
+ */
+export function getSharedAppState(
+  appState: Record<string, unknown>
+): Record<string, unknown> {
+  const shared: Record<string, unknown> = {}
+  SHARED_APP_STATE_KEYS.forEach((key) => {
+    if (appState[key] !== undefined) shared[key] = appState[key]
+  })
+  return shared
+}
+
+/**
+ * `elements`, all deleted, e.g. before regenerating a board. Removing them
+ * from the scene instead would leave them on everyone else's board.
+ */
+export function deleteElements<T extends BoardElement>(
+  elements: readonly T[]
+): T[] {
+  return elements.map((element) =>
+    element.isDeleted
+      ? element
+      : {
+          ...element,
+          isDeleted: true,
+          version: element.version + 1,
+          versionNonce: createNonce(),
+          updated: Date.now(),
+        }
+  )
+}
+
+/**
+ * The edits that take `current` back to `target`, e.g. a version from the
+ * board's history: elements added since are deleted, and changed or
+ * deleted ones come back as they were. Each gets a version above both
+ * copies, so merging it wins on every board.
+ */
+export function getRestoreElements<T extends BoardElement>(
+  current: readonly T[],
+  target: readonly T[]
+): T[] {
+  const targetById = new Map<string, T>()
+  target.forEach((element) => targetById.set(element.id, element))
+  const restored: T[] = []
+  const seen = new Set<string>()
+
+  current.forEach((element) => {
+    seen.add(element.id)
+    const wanted = targetById.get(element.id)
+    if (!wanted) {
+      if (!element.isDeleted) restored.push(...deleteElements([element]))
+      return
+    }
+    if (compareElementVersions(wanted, element) === 0) return
+    restored.push({
+      ...wanted,
+      version: Math.max(element.version, wanted.version) + 1,
+      versionNonce: createNonce(),
+      updated: Date.now(),
+    })
+  })
+
+  target.forEach((element) => {
+    if (!seen.has(element.id) && !element.isDeleted) restored.push(element)
+  })
+
+  return restored
+}
+
+// Element ids an element refers to, other than its own
+function remapReferences(
+  element: BoardElement,
+  ids: Map<string, string>
+): Partial<BoardElement> {
+  const remap = (id: unknown) =>
+    typeof id === 'string' ? ids.get(id) || null : null
+  const binding = (value: unknown) =>
+    value && typeof value === 'object'
+      ? {
+          ...(value as Record<string, unknown>),
+          elementId: remap((value as { elementId?: string }).elementId),
+        }
+      : value
+
+  return {
+    ...(element.containerId !== undefined && {
+      containerId: remap(element.containerId),
+    }),
+    ...(element.frameId !== undefined && { frameId: remap(element.frameId) }),
+    ...(Array.isArray(element.boundElements) && {
+      boundElements: (element.boundElements as { id: string }[])
+        .filter((bound) => ids.has(bound.id))
+        .map((bound) => ({ ...bound, id: ids.get(bound.id)! })),
+    }),
+    ...(element.startBinding !== undefined && {
+      startBinding: binding(element.startBinding),
+    }),
+    ...(element.endBinding !== undefined && {
+      endBinding: binding(element.endBinding),
+    }),
+  }
+}
+
+/**
+ * New copies of `elements`, moved by `offset`: new ids, with groups,
+ * bound text, arrows and frames pointing at the copies. Deleted elements
+ * are left out.
+ */
+export function copyElements<T extends BoardElement>(
+  elements: readonly T[],
+  offset: { x: number; y: number },
+  createId: () => string = () => crypto.randomUUID()
+): T[] {
+  const live = elements.filter((element) => !element.isDeleted)
+  const ids = new Map<string, string>()
+  const groupIds = new Map<string, string>()
+  live.forEach((element) => ids.set(element.id, createId()))
+
+  return live.map((element) => {
+    const copy: BoardElement = {
+      ...element,
+      ...remapReferences(element, ids),
+      id: ids.get(element.id)!,
+      x: (element.x as number) + offset.x,
+      y: (element.y as number) + offset.y,
+      version: 1,
+      versionNonce: createNonce(),
+      updated: Date.now(),
+    }
+    if (Array.isArray(element.groupIds)) {
+      copy.groupIds = (element.groupIds as string[]).map((groupId) => {
+        if (!groupIds.has(groupId)) groupIds.set(groupId, createId())
+        return groupIds.get(groupId)!
+      })
+    }
+    // Placed on top by the board
+    delete copy.index
+    return copy as T
+  })
+}
+
+/**
+ * A stored board_snapshot as a board. Boards from before Excalidraw (a
+ * tldraw `store`) have no elements; their other keys are kept.
+ */
+export function toBoardSnapshot(value: unknown): BoardSnapshot {
+  if (!value || typeof value !== 'object') return { ...EMPTY_SNAPSHOT }
+  const snapshot = value as Partial<BoardSnapshot>
+  return {
+    ...(value as Record<string, unknown>),
+    elements: Array.isArray(snapshot.elements) ? snapshot.elements : [],
+    appState: snapshot.appState || {},
+    files: snapshot.files || {},
+  }
+}
+
+/**
+ * `snapshot` with `changes` applied. Files never change once added, so
+ * they are only ever added; settings go to the latest change.
+ */
+export function applyBoardChanges(
+  snapshot: BoardSnapshot,
+  changes: readonly Omit<BoardChange, 'id'>[]
+): BoardSnapshot {
+  let elements = snapshot.elements
+  const files: BoardFiles = { ...snapshot.files }
+  const appState = { ...snapshot.appState }
+
+  changes.forEach((change) => {
+    elements = mergeElements(elements, change.elements)
+    Object.keys(change.files || {}).forEach((id) => {
+      if (!files[id]) files[id] = change.files![id]
+    })
+    Object.assign(appState, change.app_state)
+  })
+
+  return { ...snapshot, elements, appState, files }
+}
@@ -0,0 +1,136 @@
+import { itemVersions } from './project-diff'
+import { CommentThread, Item } from '../types'
+
+/**
+ * Helpers for comment threads pinned to an item's hero image. Mentions are
+ * stored inline in the comment body as `@[Name](user_id)` so they survive
+ * renames of the display name and can be rendered without a lookup; the
+ * user ids are also kept in `comments.mentions` for querying.
+ */
+
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-fA-F-]{36})\)/g
+
+export interface Mentionable {
+  user_id: string
+  name: string
+}
+
+export type CommentSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; name: string; userId: string }
+
+export function formatMention(member: Mentionable): string {
+  return `@[${member.name.replace(/[[\]]/g, '')}](${member.user_id})`
+}
+
+export function extractMentions(body: string): string[] {
+  const ids = new Set<string>()
+  for (const match of Array.from(body.matchAll(MENTION_PATTERN))) {
+    ids.add(match[2])
+  }
+  return Array.from(ids)
+}
+
+/**
+ * Split a comment body into plain text and mention segments for rendering
+ */
+export function splitMentions(body: string): CommentSegment[] {
+  const segments: CommentSegment[] = []
+  let lastIndex = 0
+
+  for (const match of Array.from(body.matchAll(MENTION_PATTERN))) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: body.slice(lastIndex, index) })
+    }
+    segments.push({ type: 'mention', name: match[1], userId: match[2] })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < body.length) {
+    segments.push({ type: 'text', text: body.slice(lastIndex) })
+  }
+  return segments
+}
+
+/**
+ * The `@query` being typed at the end of `text`, if any
+ */
+export function getMentionQuery(text: string): string | null {
+  const match = /(?:^|\s)@([^\s@[\]]*)$/.exec(text)
+  return match ? match[1] : null
+}
+
+/**
+ * Replace the trailing `@query` in `text` with a mention of `member`
+ */
+export function insertMention(text: string, member: Mentionable): string {
+  return text.replace(/@([^\s@[\]]*)$/, `${formatMention(member)} `)
+}
+
+export interface AnnotationMarker {
+  annotationId: string
+  x: number
+  y: number
+  versionId: string
+  partId?: string
+  label: string
+}
+
+/**
+ * Annotation points on an item's hero image. When several versions place
+ * the same annotation, the latest version's position wins.
+ */
+export function getAnnotationMarkers(item: Item): AnnotationMarker[] {
+  const markers = new Map<string, AnnotationMarker>()
+  const versions = [...itemVersions(item)].sort(
+    (a, b) => a.versionNumber - b.versionNumber
+  )
+
+  for (const version of versions) {
+    version.parts.forEach((part, index) => {
+      if (!part.annotation_data) return
+      markers.set(part.annotation_data.id, {
+        annotationId: part.annotation_data.id,
+        x: part.annotation_data.x,
+        y: part.annotation_data.y,
+        versionId: version.id,
+        partId: part.id,
+        label: part.name || `Part ${index + 1}`,
+      })
+    })
+  }
+
+  return Array.from(markers.values())
+}
+
+/**
+ * Where to draw a thread's pin, in percent of the hero image. Threads on an
+ * annotation follow the point if it moves; null if the point is gone and
+ * the thread has no fallback position.
+ */
+export function getThreadPosition(
+  thread: CommentThread,
+  markers: AnnotationMarker[]
+): { x: number; y: number } | null {
+  if (thread.annotation_id) {
+    const marker = markers.find(
+      (entry) => entry.annotationId === thread.annotation_id
+    )
+    if (marker) return { x: marker.x, y: marker.y }
+  }
+  if (thread.x != null && thread.y != null) {
+    return { x: Number(thread.x), y: Number(thread.y) }
+  }
+  return null
+}
+
+/**
+ * Open threads first, then by creation time
+ */
+export function sortThreads(threads: CommentThread[]): CommentThread[] {
+  return [...threads].sort((a, b) => {
+    if (a.status !== b.status) return a.status === 'open' ? -1 : 1
+    return a.created_at.localeCompare(b.created_at)
+  })
+}
@@ -2,11 +2,25 @@
  * Excalidraw Utilities
  * 
  * Utility functions for creating Excalidraw elements from project data.
- * Includes support for loading hero images from items.
+ * Includes support for loading hero images from items. Generated elements
+ * stay bound to the project data they show, see lib/board-bindings.ts.
  */
 
 type ExcalidrawElement = any
-import type { Project, Item, Part, Version } from '../types'
+import type { Project, Item, Part, Version, BoardBinding } from '../types'
+import { getItemImages } from './item-images'
+import { getImageUrl } from './image-derivatives'
+import {
+  bindElement,
+  getBinding,
+  getBindingKey,
+  getItemSummary,
+  getPartDetails,
+  getProjectSummary,
+  getSwatchColor,
+  getVersionLabel,
+} from './board-bindings'
+import { copyElements } from './board-sync'
 
 type ExcalidrawElementType = 
   | 'rectangle' | 'ellipse' | 'diamond' | 'text' | 'arrow' | 'line' | 'freedraw' | 'image' | 'frame'
@@ -23,7 +37,7 @@ const LAYOUT = {
   itemWidth: 400, itemHeight: 80, itemWithImageHeight: 280,
   imageWidth: 200, imageHeight: 150,
   partWidth: 350, partHeight: 60,
-  versionWidth: 300, versionHeight: 50,
+  versionWidth: 300, versionHeight: 50, swatchSize: 24,
   horizontalGap: 50, verticalGap: 30, groupPadding: 20,
 }
 
@@ -64,6 +78,10 @@ export function createImageElement(fileId: string, x: number, y: number, width:
   return { ...createBaseElement('image', x, y, width, height), type: 'image', fileId, status: 'saved', scale: [1, 1] } as unknown as ExcalidrawElement
 }
 
+export function createFrame(x: number, y: number, width: number, height: number, name: string): ExcalidrawElement {
+  return { ...createBaseElement('frame', x, y, width, height), type: 'frame', name, roundness: null } as unknown as ExcalidrawElement
+}
+
 export async function fetchImageAsDataURL(imageUrl: string): Promise<{ dataURL: string; mimeType: string } | null> {
   try {
     const response = await fetch(imageUrl)
@@ -98,44 +116,50 @@ export function createProjectItemCard(item: Item, x: number, y: number, imageFil
   const groupId = generateElementId()
   const hasImage = !!imageFileId
   const cardHeight = hasImage ? LAYOUT.itemWithImageHeight : LAYOUT.itemHeight
+  const ref = { kind: 'item' as const, itemId: item.id }
 
   const cardRect = createRectangle(x, y, LAYOUT.itemWidth, cardHeight, { fillColor: COLORS.item.fill, strokeColor: COLORS.item.stroke })
-  cardRect.groupIds = [groupId]; elements.push(cardRect)
+  cardRect.groupIds = [groupId]; elements.push(bindElement(cardRect, { ...ref, field: 'card' }))
 
   const nameText = createText(item.name, x + 15, y + 15, { fontSize: 24, fontFamily: 1, color: COLORS.text.primary, width: LAYOUT.itemWidth - 30 })
-  nameText.groupIds = [groupId]; elements.push(nameText)
+  nameText.groupIds = [groupId]; elements.push(bindElement(nameText, { ...ref, field: 'name', value: item.name }))
 
-  const partCount = item.versions?.length ? item.versions.reduce((sum, v) => sum + (v.parts?.length || 0), 0) : item.parts?.length || 0
-  const versionCount = item.versions?.length || 0
-  const detailText = createText(`${partCount} part${partCount !== 1 ? 's' : ''} • ${versionCount} version${versionCount !== 1 ? 's' : ''}`, x + 15, y + 50, { fontSize: 14, fontFamily: 2, color: COLORS.text.secondary, width: LAYOUT.itemWidth - 30 })
-  detailText.groupIds = [groupId]; elements.push(detailText)
+  const summary = getItemSummary(item)
+  const detailText = createText(summary, x + 15, y + 50, { fontSize: 14, fontFamily: 2, color: COLORS.text.secondary, width: LAYOUT.itemWidth - 30 })
+  detailText.groupIds = [groupId]; elements.push(bindElement(detailText, { ...ref, field: 'details', value: summary }))
 
   if (hasImage && imageFileId) {
     const imageX = x + (LAYOUT.itemWidth - LAYOUT.imageWidth) / 2, imageY = y + 80
     const imageElement = createImageElement(imageFileId, imageX, imageY, LAYOUT.imageWidth, LAYOUT.imageHeight)
-    imageElement.groupIds = [groupId]; elements.push(imageElement)
+    imageElement.groupIds = [groupId]; elements.push(bindElement(imageElement, { ...ref, field: 'image' }))
   }
   return { elements, height: cardHeight }
 }
 
-export function createPartElement(part: Part, x: number, y: number): ExcalidrawElement[] {
+export function createPartElement(part: Part, x: number, y: number, parent: { itemId: string; versionId?: string } = { itemId: '' }): ExcalidrawElement[] {
   const elements: ExcalidrawElement[] = [], groupId = generateElementId()
+  const ref = { kind: 'part' as const, ...parent, partId: part.id }
+  const textWidth = LAYOUT.partWidth - LAYOUT.swatchSize - 30
   const partRect = createRectangle(x, y, LAYOUT.partWidth, LAYOUT.partHeight, { fillColor: COLORS.part.fill, strokeColor: COLORS.part.stroke })
-  partRect.groupIds = [groupId]; elements.push(partRect)
-  const nameText = createText(part.name, x + 10, y + 10, { fontSize: 18, fontFamily: 1, color: COLORS.text.primary, width: LAYOUT.partWidth - 20 })
-  nameText.groupIds = [groupId]; elements.push(nameText)
-  const details: string[] = []
-  if (part.finish) details.push(part.finish); if (part.color) details.push(part.color); if (part.texture) details.push(part.texture)
-  if (details.length > 0) { const dt = createText(details.join(' • '), x + 10, y + 35, { fontSize: 12, fontFamily: 2, color: COLORS.text.secondary, width: LAYOUT.partWidth - 20 }); dt.groupIds = [groupId]; elements.push(dt) }
+  partRect.groupIds = [groupId]; elements.push(bindElement(partRect, { ...ref, field: 'card' }))
+  const nameText = createText(part.name, x + 10, y + 10, { fontSize: 18, fontFamily: 1, color: COLORS.text.primary, width: textWidth })
+  nameText.groupIds = [groupId]; elements.push(bindElement(nameText, { ...ref, field: 'name', value: part.name }))
+  const details = getPartDetails(part)
+  if (details) { const dt = createText(details, x + 10, y + 35, { fontSize: 12, fontFamily: 2, color: COLORS.text.secondary, width: textWidth }); dt.groupIds = [groupId]; elements.push(bindElement(dt, { ...ref, field: 'details', value: details })) }
+  // Recoloring the swatch on the board offers to change the part's color
+  const swatch = createRectangle(x + LAYOUT.partWidth - LAYOUT.swatchSize - 10, y + (LAYOUT.partHeight - LAYOUT.swatchSize) / 2, LAYOUT.swatchSize, LAYOUT.swatchSize, { fillColor: getSwatchColor(part.color), strokeColor: COLORS.part.stroke })
+  swatch.groupIds = [groupId]; swatch.strokeWidth = 1; elements.push(bindElement(swatch, { ...ref, field: 'color', value: part.color || '' }))
   return elements
 }
 
-export function createVersionBadge(version: Version, x: number, y: number): ExcalidrawElement[] {
+export function createVersionBadge(version: Version, x: number, y: number, itemId = ''): ExcalidrawElement[] {
   const elements: ExcalidrawElement[] = [], groupId = generateElementId()
+  const ref = { kind: 'version' as const, itemId, versionId: version.id }
   const vRect = createRectangle(x, y, LAYOUT.versionWidth, LAYOUT.versionHeight, { fillColor: COLORS.version.fill, strokeColor: COLORS.version.stroke })
-  vRect.groupIds = [groupId]; elements.push(vRect)
-  const vText = createText(version.versionName || `Version ${version.versionNumber}`, x + 10, y + 12, { fontSize: 16, fontFamily: 2, color: COLORS.text.primary, width: LAYOUT.versionWidth - 20 })
-  vText.groupIds = [groupId]; elements.push(vText)
+  vRect.groupIds = [groupId]; elements.push(bindElement(vRect, { ...ref, field: 'card' }))
+  const label = getVersionLabel(version)
+  const vText = createText(label, x + 10, y + 12, { fontSize: 16, fontFamily: 2, color: COLORS.text.primary, width: LAYOUT.versionWidth - 20 })
+  vText.groupIds = [groupId]; elements.push(bindElement(vText, { ...ref, field: 'name', value: label }))
   return elements
 }
 
@@ -145,61 +169,115 @@ export function createConnectionArrow(fromElement: ExcalidrawElement, toElement:
   return createArrow(fromCenterX, fromBottomY, toCenterX, toTopY, { strokeColor: COLORS.arrow.stroke, startBinding: { elementId: fromElement.id, focus: 0, gap: 5 }, endBinding: { elementId: toElement.id, focus: 0, gap: 5 } })
 }
 
-export function generateProjectBoardLayout(project: Project): ExcalidrawElement[] {
+// The arrow from a parent card to a child card, bound like the child
+function createLinkArrow(fromElement: ExcalidrawElement, toElement: ExcalidrawElement): ExcalidrawElement {
+  return bindElement(createConnectionArrow(fromElement, toElement), { ...getBinding(toElement)!, field: 'link', value: undefined })
+}
+
+// Item cards by item id get their image when one was loaded
+function layoutProject(project: Project, imageFileIds: Record<string, string> = {}): ExcalidrawElement[] {
   const elements: ExcalidrawElement[] = []
   let currentY = 100; const startX = 100
-  elements.push(createText(project.title, startX, currentY - 60, { fontSize: 32, fontFamily: 1, color: COLORS.text.primary }))
-  elements.push(createText(`Retailer: ${project.retailer || 'N/A'} • Due: ${project.due_date || 'Not set'}`, startX, currentY - 20, { fontSize: 14, fontFamily: 2, color: COLORS.text.secondary }))
-  project.items?.forEach((item) => {
-    const { elements: itemElements, height: itemHeight } = createProjectItemCard(item, startX, currentY)
+  elements.push(bindElement(createText(project.title, startX, currentY - 60, { fontSize: 32, fontFamily: 1, color: COLORS.text.primary }), { kind: 'project', field: 'name', value: project.title }))
+  const summary = getProjectSummary(project)
+  elements.push(bindElement(createText(summary, startX, currentY - 20, { fontSize: 14, fontFamily: 2, color: COLORS.text.secondary }), { kind: 'project', field: 'details', value: summary }))
+  for (const item of project.items || []) {
+    const { elements: itemElements, height: itemHeight } = createProjectItemCard(item, startX, currentY, imageFileIds[item.id])
     elements.push(...itemElements); const itemRect = itemElements[0]
     let partX = startX + LAYOUT.itemWidth + LAYOUT.horizontalGap, partY = currentY
     if (item.versions && item.versions.length > 0) {
-      item.versions.forEach((version) => {
-        const vElements = createVersionBadge(version, partX, partY); elements.push(...vElements); const vRect = vElements[0]
-        elements.push(createConnectionArrow(itemRect, vRect))
+      for (const version of item.versions) {
+        const vElements = createVersionBadge(version, partX, partY, item.id); elements.push(...vElements); const vRect = vElements[0]
+        elements.push(createLinkArrow(itemRect, vRect))
         let vPartY = partY + LAYOUT.versionHeight + LAYOUT.verticalGap
-        version.parts?.forEach((part) => { const pEl = createPartElement(part, partX + 20, vPartY); elements.push(...pEl); elements.push(createConnectionArrow(vRect, pEl[0])); vPartY += LAYOUT.partHeight + LAYOUT.verticalGap })
+        for (const part of version.parts || []) { const pEl = createPartElement(part, partX + 20, vPartY, { itemId: item.id, versionId: version.id }); elements.push(...pEl); elements.push(createLinkArrow(vRect, pEl[0])); vPartY += LAYOUT.partHeight + LAYOUT.verticalGap }
         partX += LAYOUT.partWidth + LAYOUT.horizontalGap + 40
-      })
+      }
       const maxParts = Math.max(...item.versions.map(v => v.parts?.length || 0), 1)
       currentY += Math.max(itemHeight, LAYOUT.versionHeight + (maxParts * (LAYOUT.partHeight + LAYOUT.verticalGap))) + LAYOUT.verticalGap * 2
     } else if (item.parts && item.parts.length > 0) {
-      item.parts.forEach((part) => { const pEl = createPartElement(part, partX, partY); elements.push(...pEl); elements.push(createConnectionArrow(itemRect, pEl[0])); partY += LAYOUT.partHeight + LAYOUT.verticalGap })
+      for (const part of item.parts) { const pEl = createPartElement(part, partX, partY, { itemId: item.id }); elements.push(...pEl); elements.push(createLinkArrow(itemRect, pEl[0])); partY += LAYOUT.partHeight + LAYOUT.verticalGap }
       currentY = Math.max(currentY + itemHeight, partY) + LAYOUT.verticalGap * 2
     } else { currentY += itemHeight + LAYOUT.verticalGap * 2 }
-  })
+  }
   return elements
 }
 
+/**
+ * Cards for the whole project. Every element is bound to the project data
+ * it shows (see lib/board-bindings.ts).
+ */
+export function generateProjectBoardLayout(project: Project): ExcalidrawElement[] {
+  return layoutProject(project)
+}
+
 export async function generateProjectBoardLayoutWithImages(project: Project): Promise<{ elements: ExcalidrawElement[]; files: Record<string, ExcalidrawImageFile> }> {
-  const elements: ExcalidrawElement[] = []; clearImageFilesStore()
-  let currentY = 100; const startX = 100
-  elements.push(createText(project.title, startX, currentY - 60, { fontSize: 32, fontFamily: 1, color: COLORS.text.primary }))
-  const dueDate = project.due_date ? new Date(project.due_date).toLocaleDateString() : 'Not set'
-  elements.push(createText(`Retailer: ${project.retailer || 'N/A'} • Due: ${dueDate}`, startX, currentY - 20, { fontSize: 14, fontFamily: 2, color: COLORS.text.secondary }))
+  clearImageFilesStore()
+  const imageFileIds: Record<string, string> = {}
   for (const item of project.items || []) {
-    let imageFileId: string | undefined
-    if (item.hero_image) { try { const imgData = await fetchImageAsDataURL(item.hero_image); if (imgData) imageFileId = addImageToStore(imgData.dataURL, imgData.mimeType) } catch { } }
-    const { elements: itemElements, height: itemHeight } = createProjectItemCard(item, startX, currentY, imageFileId)
-    elements.push(...itemElements); const itemRect = itemElements[0]
-    let partX = startX + LAYOUT.itemWidth + LAYOUT.horizontalGap, partY = currentY
-    if (item.versions && item.versions.length > 0) {
-      for (const version of item.versions) {
-        const vElements = createVersionBadge(version, partX, partY); elements.push(...vElements); const vRect = vElements[0]
-        elements.push(createConnectionArrow(itemRect, vRect))
-        let vPartY = partY + LAYOUT.versionHeight + LAYOUT.verticalGap
-        for (const part of version.parts || []) { const pEl = createPartElement(part, partX + 20, vPartY); elements.push(...pEl); elements.push(createConnectionArrow(vRect, pEl[0])); vPartY += LAYOUT.partHeight + LAYOUT.verticalGap }
-        partX += LAYOUT.partWidth + LAYOUT.horizontalGap + 40
-      }
-      const maxParts = Math.max(...item.versions.map(v => v.parts?.length || 0), 1)
-      currentY += Math.max(itemHeight, LAYOUT.versionHeight + (maxParts * (LAYOUT.partHeight + LAYOUT.verticalGap))) + LAYOUT.verticalGap * 2
-    } else if (item.parts && item.parts.length > 0) {
-      for (const part of item.parts) { const pEl = createPartElement(part, partX, partY); elements.push(...pEl); elements.push(createConnectionArrow(itemRect, pEl[0])); partY += LAYOUT.partHeight + LAYOUT.verticalGap }
-      currentY = Math.max(currentY + itemHeight, partY) + LAYOUT.verticalGap * 2
-    } else { currentY += itemHeight + LAYOUT.verticalGap * 2 }
+    if (item.hero_image) { try { const imgData = await fetchImageAsDataURL(getImageUrl(getItemImages(item)[0], 'preview')); if (imgData) imageFileIds[item.id] = addImageToStore(imgData.dataURL, imgData.mimeType) } catch { } }
+  }
+  return { elements: layoutProject(project, imageFileIds), files: getImageFiles() }
+}
+
+// The cards an element hangs off, nearest first: its own card, then its
+// version's and item's
+function getAnchorKeys(binding: BoardBinding): string[] {
+  const keys = [getBindingKey({ ...binding, field: 'card' })]
+  if (binding.kind === 'part' && binding.versionId) keys.push(getBindingKey({ kind: 'version', itemId: binding.itemId, versionId: binding.versionId, field: 'card' }))
+  if (binding.kind === 'part' || binding.kind === 'version') keys.push(getBindingKey({ kind: 'item', itemId: binding.itemId, field: 'card' }))
+  return keys
+}
+
+/**
+ * The elements of a freshly generated layout that the board is missing,
+ * e.g. cards for parts added since it was generated. New cards go next to
+ * their item or version card where it is now on the board, and new items
+ * below everything else. Cards someone deleted from the board stay deleted.
+ */
+export function mergeProjectLayout(existing: readonly ExcalidrawElement[], generated: readonly ExcalidrawElement[]): ExcalidrawElement[] {
+  const onBoard = new Map<string, ExcalidrawElement>()
+  existing.forEach(el => { const binding = getBinding(el); if (!binding) return; const key = getBindingKey(binding); const known = onBoard.get(key); if (!known || known.isDeleted) onBoard.set(key, el) })
+  const generatedByKey = new Map<string, ExcalidrawElement>()
+  generated.forEach(el => generatedByKey.set(getBindingKey(getBinding(el)!), el))
+
+  const bounds = getElementsBounds(existing)
+  let newItemsOffset: { dx: number; dy: number } | null = null
+  // Generated element id and group id to the ones on the board
+  const placed = new Map<string, ExcalidrawElement>(), groupIds = new Map<string, string>()
+  const added: ExcalidrawElement[] = []
+
+  const getOffset = (binding: BoardBinding, element: ExcalidrawElement): { dx: number; dy: number } | null => {
+    for (const key of getAnchorKeys(binding)) {
+      const anchor = onBoard.get(key)
+      if (anchor?.isDeleted) return null
+      const source = generatedByKey.get(key)
+      if (anchor && source) return { dx: anchor.x - source.x, dy: anchor.y - source.y }
+    }
+    // Without a card to go next to, below everything on the board, starting with the first one placed
+    if (!newItemsOffset) newItemsOffset = existing.some(el => !el.isDeleted) ? { dx: 0, dy: bounds.maxY + LAYOUT.verticalGap * 3 - element.y } : { dx: 0, dy: 0 }
+    return newItemsOffset
   }
-  return { elements, files: getImageFiles() }
+
+  generated.forEach(el => {
+    const binding = getBinding(el)!
+    const match = onBoard.get(getBindingKey(binding))
+    if (match) { placed.set(el.id, match); el.groupIds.forEach((groupId: string, index: number) => { if (match.groupIds?.[index]) groupIds.set(groupId, match.groupIds[index]) }); return }
+    if (binding.field === 'link') return
+    const offset = getOffset(binding, el)
+    if (!offset) return
+    const element = { ...el, x: el.x + offset.dx, y: el.y + offset.dy, groupIds: el.groupIds.map((groupId: string) => groupIds.get(groupId) || groupId) }
+    placed.set(el.id, element); added.push(element)
+  })
+
+  // Arrows last, between the cards where they ended up
+  generated.forEach(el => {
+    const binding = getBinding(el)!
+    if (binding.field !== 'link' || onBoard.has(getBindingKey(binding))) return
+    const from = placed.get(el.startBinding?.elementId), to = placed.get(el.endBinding?.elementId)
+    if (from && to && !from.isDeleted && !to.isDeleted) added.push(createLinkArrow(from, to))
+  })
+  return added
 }
 
 export function isBoardEmpty(elements: readonly ExcalidrawElement[] | undefined): boolean {
@@ -212,3 +290,20 @@ export function getElementsBounds(elements: readonly ExcalidrawElement[]): { min
   elements.forEach(el => { if (el.isDeleted) return; minX = Math.min(minX, el.x); minY = Math.min(minY, el.y); maxX = Math.max(maxX, el.x + (el.width || 0)); maxY = Math.max(maxY, el.y + (el.height || 0)) })
   return { minX, minY, maxX, maxY, width: maxX - minX, height: maxY - minY }
 }
+
+/**
+ * A copy of `elements`, e.g. a checkpoint from the board's history, in a
+ * frame named `name` to the right of the board, to rework without losing
+ * the original. Frame children come before their frame, as Excalidraw
+ * keeps them.
+ */
+export function createForkElements(board: readonly ExcalidrawElement[], elements: readonly ExcalidrawElement[], name: string): ExcalidrawElement[] {
+  const live = elements.filter(el => !el.isDeleted)
+  if (live.length === 0) return []
+  const padding = LAYOUT.groupPadding * 2, source = getElementsBounds(live)
+  const onBoard = board.some(el => !el.isDeleted), target = getElementsBounds(board)
+  const x = onBoard ? target.maxX + LAYOUT.horizontalGap * 4 : source.minX, y = onBoard ? target.minY : source.minY
+  const frame = createFrame(x, y, source.width + padding * 2, source.height + padding * 2, name)
+  const copies = copyElements(live, { x: x + padding - source.minX, y: y + padding - source.minY }, generateElementId)
+  return [...copies.map(el => (el.type === 'frame' || el.frameId ? el : { ...el, frameId: frame.id })), frame]
+}
@@ -1,5 +1,8 @@
 import { ExportOptions } from '../components/project/export-project-modal'
-import { Project, Item, Part, PartGroup } from '../types'
+import { Project, Item, Part, PartGroup, getItemParts } from '../types'
+import { getItemDetailRows } from './item-details'
+import { getImageLabel, getVersionImages } from './item-images'
+import { EXPORT_IMAGE_SIZES, getImageUrl } from './image-derivatives'
 import { PRESENTATION_THEMES, getThemeCSS } from './presentation-themes'
 
 export class HTMLPresentationGenerator {
@@ -146,6 +149,7 @@ export class HTMLPresentationGenerator {
 
     // Part Details
     if (this.options.includePartDetails) {
+      slides += this.generateItemRequirementsSlide()
       slides += this.generatePartDetailsSlides()
     }
 
@@ -178,7 +182,9 @@ export class HTMLPresentationGenerator {
 
   private generateOverviewSlide(): string {
     const itemCount = this.project.items?.length || 0
-    const partCount = this.project.items?.[0]?.parts?.length || 0
+    const partCount = this.project.items?.[0]
+      ? getItemParts(this.project.items[0]).length
+      : 0
     const groupCount = this.project.items?.[0]?.groups?.length || 0
 
     return `
@@ -199,14 +205,18 @@ export class HTMLPresentationGenerator {
   private generateImageSlides(): string {
     if (!this.project.items || this.project.items.length === 0) return ''
 
+    const imageSize = EXPORT_IMAGE_SIZES[this.options.imageQuality]
     let slides = ''
     for (const item of this.project.items) {
-      if (item.hero_image) {
+      const images = getVersionImages(item, item.versions?.[0])
+      for (const image of images) {
+        // Name the angle once there's more than one to tell apart
+        const angle = images.length > 1 ? ` (${getImageLabel(image)})` : ''
         slides += `
         <div class="slide content-slide">
-            <h2 class="slide-title">Item: ${item.name || 'Unnamed Item'}</h2>
+            <h2 class="slide-title">Item: ${item.name || 'Unnamed Item'}${angle}</h2>
             <div class="image-container">
-                <img src="${item.hero_image}" alt="${item.name || 'Item'}" class="project-image">
+                <img src="${getImageUrl(image, imageSize)}" alt="${item.name || 'Item'}${angle}" class="project-image">
             </div>
             ${this.generatePartsList(item)}
         </div>`
@@ -216,9 +226,10 @@ export class HTMLPresentationGenerator {
   }
 
   private generatePartsList(item: Item): string {
-    if (!item.parts || item.parts.length === 0) return ''
+    const parts = getItemParts(item)
+    if (parts.length === 0) return ''
 
-    const partsList = item.parts
+    const partsList = parts
       .map(
         (part) =>
           `<li><strong>${part.name || 'Unnamed'}</strong> (${part.finish || 'No finish'})</li>`
@@ -227,7 +238,7 @@ export class HTMLPresentationGenerator {
 
     return `
     <div class="slide-content">
-        <h3>Parts (${item.parts.length})</h3>
+        <h3>Parts (${parts.length})</h3>
         <ul style="text-align: left; max-width: 400px; margin: 0 auto;">
             ${partsList}
         </ul>
@@ -238,17 +249,18 @@ export class HTMLPresentationGenerator {
     if (!this.project.items || this.project.items.length === 0) return ''
 
     const item = this.project.items[0]
-    if (!item.parts || item.parts.length === 0) return ''
+    const parts = getItemParts(item)
+    if (parts.length === 0) return ''
 
     // Group parts into slides (6 per slide)
     const partsPerSlide = 6
-    const partSlides = Math.ceil(item.parts.length / partsPerSlide)
+    const partSlides = Math.ceil(parts.length / partsPerSlide)
     let slides = ''
 
     for (let i = 0; i < partSlides; i++) {
       const startIndex = i * partsPerSlide
-      const endIndex = Math.min(startIndex + partsPerSlide, item.parts.length)
-      const slideParts = item.parts.slice(startIndex, endIndex)
+      const endIndex = Math.min(startIndex + partsPerSlide, parts.length)
+      const slideParts = parts.slice(startIndex, endIndex)
 
       slides += `
       <div class="slide content-slide">
@@ -262,6 +274,36 @@ export class HTMLPresentationGenerator {
     return slides
   }
 
+  private generateItemRequirementsSlide(): string {
+    const cards = (this.project.items || [])
+      .map((item) => ({
+        item,
+        rows: getItemDetailRows(item, {
+          includeNotes: this.options.includeNotes,
+        }),
+      }))
+      .filter(({ rows }) => rows.length > 0)
+      .map(
+        ({ item, rows }) => `
+        <div class="part-card">
+            <div class="part-name">${item.name || 'Unnamed Item'}</div>
+            <div class="part-details">
+                ${rows.map((row) => `<p><strong>${row.label}:</strong> ${row.value}</p>`).join('')}
+            </div>
+        </div>`
+      )
+
+    if (cards.length === 0) return ''
+
+    return `
+    <div class="slide content-slide">
+        <h2 class="slide-title">Item Requirements</h2>
+        <div class="parts-grid">
+            ${cards.join('')}
+        </div>
+    </div>`
+  }
+
   private generatePartCard(part: Part, groups?: PartGroup[]): string {
     const groupName = groups?.find((g) => g.id === part.groupId)?.name || 'None'
 
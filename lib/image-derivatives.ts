@@ -0,0 +1,137 @@
+import {
+  ImageDerivatives,
+  ImageFormat,
+  ImageQuality,
+  ImageSize,
+} from '../types'
+
+/**
+ * Resized copies of uploaded images. Every raster upload gets a thumbnail,
+ * a web preview and a full-size copy in WebP, AVIF and JPEG, stored next to
+ * the original under `derivatives/`. Derivatives carry no EXIF; the original
+ * is kept byte for byte so downloads match the verified upload.
+ *
+ * Images uploaded before derivatives existed have none, so every lookup
+ * falls back to the original URL.
+ */
+
+// Longest edge in pixels; smaller originals are never enlarged
+export const IMAGE_SIZES: Record<ImageSize, number> = {
+  thumb: 480,
+  preview: 1600,
+  full: 4096,
+}
+
+const SIZE_ORDER: ImageSize[] = ['thumb', 'preview', 'full']
+
+export const IMAGE_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpeg']
+
+const FORMAT_EXTENSIONS: Record<ImageFormat, string> = {
+  webp: 'webp',
+  avif: 'avif',
+  jpeg: 'jpg',
+}
+
+// The export dialog's image quality option
+export const EXPORT_IMAGE_SIZES: Record<ImageQuality, ImageSize> = {
+  high: 'full',
+  medium: 'preview',
+  low: 'thumb',
+}
+
+interface ImageSource {
+  url: string
+  derivatives?: ImageDerivatives | null
+}
+
+/**
+ * Storage path of one derivative, e.g.
+ * `uploads/1700-abc.png` → `derivatives/uploads/1700-abc/thumb.webp`
+ */
+export function getDerivativePath(
+  path: string,
+  size: ImageSize,
+  format: ImageFormat
+): string {
+  const base = path.replace(/\.[^/.]+$/, '')
+  return `derivatives/${base}/${size}.${FORMAT_EXTENSIONS[format]}`
+}
+
+/**
+ * Every derivative path of an original, whether or not they were created
+ */
+export function getDerivativePaths(path: string): string[] {
+  return SIZE_ORDER.reduce<string[]>(
+    (paths, size) =>
+      paths.concat(
+        IMAGE_FORMATS.map((format) => getDerivativePath(path, size, format))
+      ),
+    []
+  )
+}
+
+export function isDerivativePath(path: string): boolean {
+  return path.startsWith('derivatives/')
+}
+
+export function getDerivativeUrls(derivatives: ImageDerivatives): string[] {
+  return SIZE_ORDER.reduce<string[]>(
+    (urls, size) =>
+      urls.concat(
+        IMAGE_FORMATS.map((format) => derivatives.sizes[size][format])
+      ),
+    []
+  )
+}
+
+/**
+ * URL of the given size, or the original when there are no derivatives
+ */
+export function getImageUrl(
+  image: ImageSource | null | undefined,
+  size: ImageSize,
+  format: ImageFormat = 'webp'
+): string {
+  if (!image) return ''
+  return image.derivatives?.sizes[size]?.[format] || image.url
+}
+
+/**
+ * The smallest size at least `width` pixels wide
+ */
+export function pickImageSize(
+  derivatives: ImageDerivatives,
+  width: number
+): ImageSize {
+  return (
+    SIZE_ORDER.find((size) => derivatives.sizes[size].width >= width) || 'full'
+  )
+}
+
+/**
+ * `srcset` value listing every size up to `maxSize` in one format
+ */
+export function getImageSrcSet(
+  derivatives: ImageDerivatives,
+  format: ImageFormat,
+  maxSize: ImageSize = 'full'
+): string {
+  const sizes = SIZE_ORDER.slice(0, SIZE_ORDER.indexOf(maxSize) + 1)
+  return sizes
+    .map((size) => {
+      const rendition = derivatives.sizes[size]
+      return `${rendition[format]} ${rendition.width}w`
+    })
+    .join(', ')
+}
+
+/**
+ * Image URL for exports at the chosen quality. JPEG, because PDF and
+ * PowerPoint can't embed WebP or AVIF.
+ */
+export function getExportImageUrl(
+  image: ImageSource,
+  quality: ImageQuality = 'high'
+): string {
+  return getImageUrl(image, EXPORT_IMAGE_SIZES[quality], 'jpeg')
+}
@@ -0,0 +1,182 @@
+import sharp, { Sharp } from 'sharp'
+import { encode } from 'blurhash'
+import { supabaseAdmin } from './supaAdmin'
+import { ApiError } from './api-errors'
+import {
+  IMAGE_FORMATS,
+  IMAGE_SIZES,
+  getDerivativePath,
+} from './image-derivatives'
+import { detectRenderFormat } from './render-formats'
+import { decodeRender } from './render-decoders'
+import {
+  ImageDerivatives,
+  ImageFormat,
+  ImageRendition,
+  ImageSize,
+  UploadBucket,
+} from '../types'
+
+/**
+ * Server side of the derivative pipeline (see lib/image-derivatives.ts).
+ * Runs after an upload is stored: decodes the original once, turns it
+ * upright, and writes every size and format back to the same bucket.
+ * PSD, EXR, HEIC and PDF originals get derivatives like any photo, which
+ * is how they can be viewed and annotated in the browser.
+ */
+
+// Derivatives never change once written
+const DERIVATIVE_CACHE_CONTROL = '31536000'
+
+const BLURHASH_COMPONENTS = { x: 4, y: 3 }
+
+function encodeFormat(image: Sharp, format: ImageFormat): Sharp {
+  switch (format) {
+    case 'avif':
+      return image.avif({ quality: 50, effort: 4 })
+    case 'webp':
+      return image.webp({ quality: 80 })
+    case 'jpeg':
+      // JPEG has no alpha; transparent areas become white as on a slide
+      return image
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: 82, mozjpeg: true })
+  }
+}
+
+async function downloadOriginal(
+  bucket: UploadBucket,
+  path: string
+): Promise<Buffer> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(bucket)
+    .download(path)
+
+  if (error || !data) {
+    throw new ApiError('not_found', `${path} was not found in ${bucket}`)
+  }
+
+  return Buffer.from(await data.arrayBuffer())
+}
+
+/**
+ * The original as an upright sharp image. Render formats sharp can't read
+ * are decoded to pixels first.
+ */
+async function openOriginal(input: Buffer, path: string): Promise<Sharp> {
+  const format = detectRenderFormat(input)
+  if (!format) {
+    // rotate() without an angle applies the EXIF orientation
+    return sharp(input, { failOn: 'none' }).rotate()
+  }
+
+  try {
+    return await decodeRender(format, input)
+  } catch (error) {
+    console.error(`Failed to decode ${format}:`, path, error)
+    throw new ApiError(
+      'validation_failed',
+      `${path} could not be read as ${format.toUpperCase()}`
+    )
+  }
+}
+
+async function createBlurhash(image: Sharp): Promise<string> {
+  const { data, info } = await image
+    .clone()
+    .resize(32, 32, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  return encode(
+    new Uint8ClampedArray(data),
+    info.width,
+    info.height,
+    BLURHASH_COMPONENTS.x,
+    BLURHASH_COMPONENTS.y
+  )
+}
+
+/**
+ * Generate and store the derivatives of an uploaded image. Pass `source`
+ * when the bytes are already in memory to skip downloading them again.
+ * Sharp writes no metadata unless asked to, so EXIF, GPS and ICC comments
+ * are dropped from every derivative.
+ */
+export async function createImageDerivatives(
+  bucket: UploadBucket,
+  path: string,
+  source?: Buffer
+): Promise<ImageDerivatives> {
+  const input = source || (await downloadOriginal(bucket, path))
+  const image = await openOriginal(input, path)
+
+  const metadata = await image.metadata().catch(() => null)
+  if (!metadata?.width || !metadata.height) {
+    throw new ApiError('validation_failed', `${path} is not a supported image`)
+  }
+  // Orientations 5-8 are rotated by 90 degrees
+  const sideways = (metadata.orientation || 1) >= 5
+  const width = sideways ? metadata.height : metadata.width
+  const height = sideways ? metadata.width : metadata.height
+
+  const storage = supabaseAdmin.storage.from(bucket)
+  const sizes = {} as Record<ImageSize, ImageRendition>
+
+  // One size and format at a time keeps memory flat for large renders
+  for (const size of Object.keys(IMAGE_SIZES) as ImageSize[]) {
+    const resized = image.clone().resize({
+      width: IMAGE_SIZES[size],
+      height: IMAGE_SIZES[size],
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    const rendition = { width: 0, height: 0 } as ImageRendition
+
+    for (const format of IMAGE_FORMATS) {
+      const { data, info } = await encodeFormat(
+        resized.clone(),
+        format
+      ).toBuffer({ resolveWithObject: true })
+      const derivativePath = getDerivativePath(path, size, format)
+
+      const { error } = await storage.upload(derivativePath, data, {
+        contentType: `image/${format}`,
+        cacheControl: DERIVATIVE_CACHE_CONTROL,
+        upsert: true,
+      })
+      if (error) throw error
+
+      rendition.width = info.width
+      rendition.height = info.height
+      rendition[format] = storage.getPublicUrl(derivativePath).data.publicUrl
+    }
+
+    sizes[size] = rendition
+  }
+
+  return {
+    width,
+    height,
+    blurhash: await createBlurhash(image),
+    sizes,
+  }
+}
+
+/**
+ * createImageDerivatives for upload routes: a file sharp can't decode
+ * still uploads, it just has no derivatives
+ */
+export async function tryCreateImageDerivatives(
+  bucket: UploadBucket,
+  path: string,
+  source?: Buffer
+): Promise<ImageDerivatives | null> {
+  try {
+    return await createImageDerivatives(bucket, path, source)
+  } catch (error) {
+    console.error('Failed to create image derivatives:', path, error)
+    return null
+  }
+}
@@ -0,0 +1,110 @@
+import { Item, ItemDetails, PackagingType } from '../types'
+
+/**
+ * Item-level requirements (packaging, logo, notes) shown next to the part
+ * list in the editor and in every export format
+ */
+
+export const PACKAGING_TYPES: { value: PackagingType; label: string }[] = [
+  { value: 'box', label: 'Box' },
+  { value: 'bag', label: 'Bag' },
+  { value: 'envelope', label: 'Envelope' },
+  { value: 'tube', label: 'Tube' },
+  { value: 'custom', label: 'Custom' },
+]
+
+export function getPackagingLabel(type?: PackagingType): string {
+  return PACKAGING_TYPES.find((option) => option.value === type)?.label || ''
+}
+
+export function getLogoLabel(item: ItemDetails): string {
+  return item.custom_logo ? 'Custom logo' : 'Project logo'
+}
+
+export interface ItemDetailRow {
+  label: string
+  value: string
+}
+
+/**
+ * Label/value rows for an item's requirements, leaving out what isn't set.
+ * Pass `includeNotes: false` where the export has notes turned off.
+ */
+export function getItemDetailRows(
+  item: Item,
+  { includeNotes = true }: { includeNotes?: boolean } = {}
+): ItemDetailRow[] {
+  const rows: ItemDetailRow[] = []
+
+  if (item.needs_packaging) {
+    rows.push({
+      label: 'Packaging',
+      value: getPackagingLabel(item.packaging_type) || 'Required',
+    })
+  }
+  if (item.needs_logo) {
+    rows.push({
+      label: 'Logo',
+      value: getLogoLabel(item),
+    })
+  }
+  if (includeNotes && item.notes?.trim()) {
+    rows.push({ label: 'Notes', value: item.notes.trim() })
+  }
+
+  return rows
+}
+
+const ITEM_DETAIL_FIELDS = [
+  'needs_packaging',
+  'packaging_type',
+  'needs_logo',
+  'logo_source',
+  'custom_logo',
+  'notes',
+] as const
+
+/**
+ * Just the details that are set, for code that rebuilds items field by field
+ */
+export function pickItemDetails(item: ItemDetails): ItemDetails {
+  const details: ItemDetails = {}
+  for (const field of ITEM_DETAIL_FIELDS) {
+    if (item[field] !== undefined) {
+      Object.assign(details, { [field]: item[field] })
+    }
+  }
+  return details
+}
+
+/**
+ * Normalize a set of item details: unchecking packaging or logo clears the
+ * fields that only apply while it's checked
+ */
+export function normalizeItemDetails<T extends ItemDetails>(details: T): T {
+  const result = { ...details }
+  if (result.needs_packaging === false) {
+    delete result.packaging_type
+  }
+  if (result.needs_logo === false) {
+    delete result.logo_source
+    delete result.custom_logo
+  }
+  return result
+}
+
+/**
+ * Apply the same details to several items at once. Fields left out of
+ * `changes` keep each item's current value.
+ */
+export function applyItemDetails<T extends ItemDetails>(
+  items: T[],
+  isSelected: (item: T, index: number) => boolean,
+  changes: ItemDetails
+): T[] {
+  return items.map((item, index) =>
+    isSelected(item, index)
+      ? normalizeItemDetails({ ...item, ...changes })
+      : item
+  )
+}
@@ -0,0 +1,180 @@
+import {
+  ImageAngle,
+  Item,
+  Part,
+  PartAnnotation,
+  Version,
+  ItemImage,
+} from '../types'
+
+/**
+ * Item and version images. An item has an ordered set of images shot from
+ * named camera angles (front, 3/4, back...), and a version can replace them
+ * with its own renders so a V2 isn't annotated on the V1 picture. The first
+ * image is the primary one: parts keep their position on it in
+ * `annotation_data`, which older exports and boards read, and their
+ * positions on the other images in `image_annotations`.
+ */
+
+export const IMAGE_ANGLES: { value: ImageAngle; label: string }[] = [
+  { value: 'front', label: 'Front' },
+  { value: 'three_quarter', label: '3/4' },
+  { value: 'side', label: 'Side' },
+  { value: 'back', label: 'Back' },
+  { value: 'top', label: 'Top' },
+  { value: 'detail', label: 'Detail' },
+  { value: 'lifestyle', label: 'Lifestyle' },
+]
+
+// Id of the stand-in image for items that only have a hero image
+export const HERO_IMAGE_ID = 'hero'
+
+export function getAngleLabel(angle: ImageAngle): string {
+  return IMAGE_ANGLES.find((option) => option.value === angle)?.label || angle
+}
+
+export function getImageLabel(image: ItemImage): string {
+  return image.label?.trim() || getAngleLabel(image.angle)
+}
+
+type ItemWithImages = Pick<Item, 'hero_image' | 'images'>
+
+/**
+ * An item's images, or its hero image when it was saved without any
+ */
+export function getItemImages(item: ItemWithImages): ItemImage[] {
+  if (item.images && item.images.length > 0) return item.images
+  if (!item.hero_image) return []
+  return [{ id: HERO_IMAGE_ID, url: item.hero_image, angle: 'front' }]
+}
+
+/**
+ * A version's own images, or the item's for versions that don't have any
+ */
+export function getVersionImages(
+  item: ItemWithImages,
+  version: Version | undefined
+): ItemImage[] {
+  if (version?.images && version.images.length > 0) return version.images
+  return getItemImages(item)
+}
+
+export function getPrimaryImage(
+  item: ItemWithImages,
+  version: Version | undefined
+): ItemImage | undefined {
+  return getVersionImages(item, version)[0]
+}
+
+function isPrimary(images: ItemImage[], imageId: string): boolean {
+  return images.length === 0 || images[0].id === imageId
+}
+
+export function getPartAnnotation(
+  part: Part,
+  images: ItemImage[],
+  imageId: string
+): PartAnnotation | undefined {
+  return isPrimary(images, imageId)
+    ? part.annotation_data
+    : part.image_annotations?.[imageId]
+}
+
+/**
+ * Place (or with `point` undefined, remove) a part's marker on one image
+ */
+export function setPartAnnotation(
+  part: Part,
+  images: ItemImage[],
+  imageId: string,
+  point: PartAnnotation | undefined
+): Part {
+  if (isPrimary(images, imageId)) {
+    const { annotation_data: _previous, ...rest } = part
+    return point ? { ...rest, annotation_data: point } : rest
+  }
+
+  const { [imageId]: _previous, ...others } = part.image_annotations || {}
+  const imageAnnotations = point ? { ...others, [imageId]: point } : others
+  const { image_annotations: _all, ...rest } = part
+  return Object.keys(imageAnnotations).length > 0
+    ? { ...rest, image_annotations: imageAnnotations }
+    : rest
+}
+
+/**
+ * Keep each part's markers with the image they were placed on when a set
+ * of images changes. Markers on removed images are dropped, and when
+ * another image becomes the primary one its markers move into
+ * `annotation_data`. Parts that had no images hand their markers to the
+ * new primary image.
+ */
+function moveAnnotations(
+  parts: Part[],
+  previous: ItemImage[],
+  images: ItemImage[]
+): Part[] {
+  const previousPrimaryId = previous[0]?.id ?? images[0]?.id
+
+  return parts.map((part) => {
+    const {
+      annotation_data: primaryPoint,
+      image_annotations: otherPoints,
+      ...rest
+    } = part
+    const points: Record<string, PartAnnotation | undefined> = {
+      ...otherPoints,
+      ...(previousPrimaryId && { [previousPrimaryId]: primaryPoint }),
+    }
+
+    return images.reduce(
+      (result, image) =>
+        setPartAnnotation(result, images, image.id, points[image.id]),
+      rest as Part
+    )
+  })
+}
+
+/**
+ * Replace a version's own images. `inherited` are the item images the
+ * version was showing until now, if it had none of its own.
+ */
+export function setVersionImages(
+  version: Version,
+  images: ItemImage[],
+  inherited: ItemImage[] = []
+): Version {
+  const previous =
+    version.images && version.images.length > 0 ? version.images : inherited
+  return {
+    ...version,
+    images,
+    parts: moveAnnotations(version.parts, previous, images),
+  }
+}
+
+/**
+ * Replace an item's images. The hero image follows the first one, and the
+ * markers of versions that use the item images move with them.
+ */
+export function setItemImages<
+  T extends ItemWithImages & Pick<Item, 'versions'>,
+>(item: T, images: ItemImage[]): T {
+  const previous = getItemImages(item)
+  const { hero_image: _hero, ...rest } = item
+  return {
+    ...rest,
+    images,
+    ...(images.length > 0 && { hero_image: images[0].url }),
+    ...(item.versions && {
+      versions: item.versions.map((version) =>
+        version.images && version.images.length > 0
+          ? version
+          : {
+              ...version,
+              parts: moveAnnotations(version.parts, previous, images),
+            }
+      ),
+    }),
+  } as T
+}
@@ -0,0 +1,142 @@
+import { supabase } from './supaClient'
+import { Material, MaterialSheen, Part } from '../types'
+import { MaterialFormData } from '../types/schemas'
+
+/**
+ * Team materials library. Parts reference an entry with `material_id`; the
+ * part's own finish and color are filled in from the entry when it's picked
+ * and stay as the fallback for exporters, older data and entries that are
+ * later deleted.
+ */
+
+export type Team = Material['team']
+
+export const SHEEN_OPTIONS: { value: MaterialSheen; label: string }[] = [
+  { value: 'flat', label: 'Flat' },
+  { value: 'matte', label: 'Matte' },
+  { value: 'eggshell', label: 'Eggshell' },
+  { value: 'satin', label: 'Satin' },
+  { value: 'semi_gloss', label: 'Semi-Gloss' },
+  { value: 'gloss', label: 'Gloss' },
+  { value: 'high_gloss', label: 'High Gloss' },
+]
+
+export function sheenLabel(sheen: MaterialSheen | null | undefined): string {
+  return SHEEN_OPTIONS.find((option) => option.value === sheen)?.label || ''
+}
+
+/**
+ * Part fields to merge in when a material is picked, or cleared with null
+ */
+export function materialPartFields(
+  material: Material | null
+): Pick<Part, 'material_id'> & Partial<Pick<Part, 'finish' | 'color'>> {
+  if (!material) return { material_id: null }
+  return {
+    material_id: material.id,
+    finish: material.name,
+    color: material.swatch_color,
+  }
+}
+
+export function findMaterial(
+  materials: Material[],
+  id: string | null | undefined
+): Material | null {
+  if (!id) return null
+  return materials.find((material) => material.id === id) || null
+}
+
+/**
+ * The finish name to show for a part: the library entry's current name if
+ * it still exists, otherwise the part's free text
+ */
+export function getPartFinish(part: Part, materials: Material[]): string {
+  return findMaterial(materials, part.material_id)?.name || part.finish
+}
+
+/**
+ * Library entries are matched case-insensitively so "brushed nickel" and
+ * "Brushed Nickel" can't both exist in one team
+ */
+export function findMaterialByName(
+  materials: Material[],
+  name: string
+): Material | null {
+  const key = name.trim().toLowerCase()
+  return (
+    materials.find((material) => material.name.trim().toLowerCase() === key) ||
+    null
+  )
+}
+
+export async function fetchTeamMaterials(
+  team: Team,
+  { includeArchived = false }: { includeArchived?: boolean } = {}
+): Promise<Material[]> {
+  let query = supabase
+    .from('materials')
+    .select('*')
+    .eq('team', team)
+    .order('name', { ascending: true })
+  if (!includeArchived) query = query.eq('archived', false)
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Entries referenced by parts, whichever team they belong to
+ */
+export async function fetchMaterialsByIds(ids: string[]): Promise<Material[]> {
+  if (ids.length === 0) return []
+  const { data, error } = await supabase
+    .from('materials')
+    .select('*')
+    .in('id', ids)
+
+  if (error) throw error
+  return data || []
+}
+
+export async function createMaterial(
+  team: Team,
+  userId: string,
+  values: MaterialFormData
+): Promise<Material> {
+  const { data, error } = await supabase
+    .from('materials')
+    .insert({ ...values, team, created_by: userId, updated_by: userId })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`"${values.name}" is already in the library`)
+    }
+    throw error
+  }
+  return data
+}
+
+export async function updateMaterial(
+  id: string,
+  userId: string,
+  values: Partial<MaterialFormData> & { archived?: boolean }
+): Promise<Material> {
+  const { data, error } = await supabase
+    .from('materials')
+    .update({ ...values, updated_by: userId })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`"${values.name}" is already in the library`)
+    }
+    throw error
+  }
+  return data
+}
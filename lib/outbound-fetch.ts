@@ -0,0 +1,147 @@
+import { lookup } from 'dns/promises'
+import { IncomingMessage, request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { LookupFunction } from 'net'
+import { Readable } from 'stream'
+import { isPrivateAddress, isPrivateHostname } from './private-addresses'
+
+/**
+ * Requests the server makes to URLs users supplied: webhook endpoints and
+ * images embedded in exports. The host is resolved first and every
+ * address it resolves to must be public, so a URL can't be used to reach
+ * loopback, the internal network or the cloud metadata service. The
+ * request then connects to those checked addresses rather than resolving
+ * the host again, so a DNS answer that changes in between can't point it
+ * somewhere else. Redirects aren't followed, since they could lead
+ * anywhere.
+ */
+
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BlockedUrlError'
+  }
+}
+
+interface ResolvedUrl {
+  url: URL
+  addresses: { address: string; family: number }[]
+}
+
+async function resolvePublicUrl(url: string): Promise<ResolvedUrl> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new BlockedUrlError('Invalid URL')
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BlockedUrlError('URL must use http or https')
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '')
+  if (isPrivateHostname(hostname)) {
+    throw new BlockedUrlError('URL points to a private or local address')
+  }
+
+  let addresses: { address: string; family: number }[]
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true })
+  } catch {
+    throw new BlockedUrlError(`Could not resolve ${hostname}`)
+  }
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => isPrivateAddress(address))
+  ) {
+    throw new BlockedUrlError('URL points to a private or local address')
+  }
+
+  return { url: parsed, addresses }
+}
+
+/**
+ * Throws BlockedUrlError unless `url` is http(s) and its host resolves
+ * only to public addresses
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  return (await resolvePublicUrl(url)).url
+}
+
+// Hands the connection the addresses that were checked instead of asking DNS
+function pinnedLookup(addresses: ResolvedUrl['addresses']): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      const [{ address, family }] = addresses
+      callback(null, address, family)
+    }
+  }
+}
+
+function toHeaders(message: IncomingMessage): Headers {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(message.headers)) {
+    if (value === undefined) continue
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      headers.append(name, entry)
+    }
+  }
+  return headers
+}
+
+// Statuses whose responses can't have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+/**
+ * fetch() for a user-supplied URL: checked with assertPublicUrl and sent
+ * to the checked addresses, with the URL's host in the Host header and
+ * for TLS. A redirect is returned as the 3xx response instead of followed.
+ * Bodies are sent as given, so pass a string or bytes.
+ */
+export async function fetchPublicUrl(
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const { url: parsed, addresses } = await resolvePublicUrl(url)
+  const { signal } = init
+  signal?.throwIfAborted()
+
+  const request = parsed.protocol === 'https:' ? httpsRequest : httpRequest
+  return new Promise<Response>((resolve, reject) => {
+    const outgoing = request(
+      parsed,
+      {
+        method: init.method || 'GET',
+        headers: Object.fromEntries(new Headers(init.headers).entries()),
+        lookup: pinnedLookup(addresses),
+        signal: signal ?? undefined,
+      },
+      (message) => {
+        const status = message.statusCode || 502
+        const hasBody = !NULL_BODY_STATUSES.includes(status)
+        if (!hasBody) message.resume()
+        resolve(
+          new Response(
+            hasBody
+              ? (Readable.toWeb(message) as ReadableStream<Uint8Array>)
+              : null,
+            {
+              status,
+              statusText: message.statusMessage,
+              headers: toHeaders(message),
+            }
+          )
+        )
+      }
+    )
+
+    // Like fetch, reject with the signal's reason (e.g. a TimeoutError)
+    outgoing.on('error', (error) =>
+      reject(signal?.aborted ? signal.reason : error)
+    )
+    outgoing.end(init.body ?? undefined)
+  })
+}
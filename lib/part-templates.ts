@@ -0,0 +1,344 @@
+import {
+  Armchair,
+  Box,
+  Lamp,
+  Layers,
+  LucideIcon,
+  Package,
+  Plus,
+  Settings,
+  Shirt,
+  Star,
+  Zap,
+} from 'lucide-react'
+import { supabase } from './supaClient'
+import {
+  PartTemplate,
+  PartTemplateIcon,
+  PartTemplatePart,
+  PartTemplateSet,
+  PartTemplateSetVersion,
+} from '../types'
+import {
+  PartTemplateSetFile,
+  PartTemplateSetFormData,
+  partTemplateSetFileSchema,
+} from '../types/schemas'
+
+/**
+ * Part template sets. Each set holds its templates as JSON; a template with
+ * several parts is a "kit" that drops all of them at once. Sets are scoped
+ * to their owner, their team or everyone, and every save is versioned by the
+ * database (see docs/create-part-templates.sql).
+ */
+
+export const BUILT_IN_SET_ID = 'built-in'
+
+// Templates store an icon name so they can be saved and exported as JSON
+export const TEMPLATE_ICONS: Record<PartTemplateIcon, LucideIcon> = {
+  package: Package,
+  layers: Layers,
+  zap: Zap,
+  star: Star,
+  settings: Settings,
+  plus: Plus,
+  lamp: Lamp,
+  armchair: Armchair,
+  shirt: Shirt,
+  box: Box,
+}
+
+const STANDARD_TEMPLATES: PartTemplate[] = [
+  {
+    id: 'front-panel',
+    name: 'Front Panel',
+    category: 'Structural',
+    description: 'Main front-facing surface of the product',
+    icon: 'package',
+    tags: ['visible', 'primary', 'structural'],
+    parts: [
+      {
+        name: 'Front Panel',
+        finish: 'Matte',
+        color: '#3B82F6',
+        texture: 'Smooth',
+        notes: 'Primary user interface surface',
+      },
+    ],
+  },
+  {
+    id: 'side-panel',
+    name: 'Side Panel',
+    category: 'Structural',
+    description: 'Side surface panels and supports',
+    icon: 'layers',
+    tags: ['support', 'structural', 'secondary'],
+    parts: [
+      {
+        name: 'Side Panel',
+        finish: 'Satin',
+        color: '#6B7280',
+        texture: 'Smooth',
+        notes: 'Supporting structural element',
+      },
+    ],
+  },
+  {
+    id: 'handle',
+    name: 'Handle',
+    category: 'Functional',
+    description: 'Grip and control elements',
+    icon: 'zap',
+    tags: ['ergonomic', 'functional', 'grip'],
+    parts: [
+      {
+        name: 'Handle',
+        finish: 'Textured',
+        color: '#10B981',
+        texture: 'Grip Pattern',
+        notes: 'Ergonomic grip surface',
+      },
+    ],
+  },
+  {
+    id: 'accent',
+    name: 'Accent',
+    category: 'Decorative',
+    description: 'Decorative and branding elements',
+    icon: 'star',
+    tags: ['decorative', 'branding', 'accent'],
+    parts: [
+      {
+        name: 'Accent',
+        finish: 'Glossy',
+        color: '#F59E0B',
+        texture: 'Smooth',
+        notes: 'Brand accent element',
+      },
+    ],
+  },
+  {
+    id: 'technical',
+    name: 'Technical',
+    category: 'Functional',
+    description: 'Technical and mechanical components',
+    icon: 'settings',
+    tags: ['technical', 'mechanical', 'industrial'],
+    parts: [
+      {
+        name: 'Technical',
+        finish: 'Industrial',
+        color: '#374151',
+        texture: 'Matte',
+        notes: 'Technical component',
+      },
+    ],
+  },
+  {
+    id: 'custom',
+    name: 'Custom',
+    category: 'Other',
+    description: 'Custom part with user-defined specifications',
+    icon: 'plus',
+    tags: ['custom', 'user-defined'],
+    parts: [
+      {
+        name: 'Custom',
+        finish: 'Custom',
+        color: '#8B5CF6',
+        texture: 'Custom',
+        notes: 'Custom part specification',
+      },
+    ],
+  },
+]
+
+/**
+ * Read-only set available to everyone, even before the tables exist
+ */
+export const BUILT_IN_TEMPLATE_SET: PartTemplateSet = {
+  id: BUILT_IN_SET_ID,
+  name: 'Standard Parts',
+  description: 'Built-in templates for common product parts',
+  scope: 'global',
+  owner_id: null,
+  team: null,
+  templates: STANDARD_TEMPLATES,
+  version: 1,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+}
+
+export function isKit(template: PartTemplate): boolean {
+  return template.parts.length > 1
+}
+
+export function createTemplateId(): string {
+  return `template-${crypto.randomUUID()}`
+}
+
+/**
+ * The template's parts positioned around (x, y), in % of the image
+ */
+export function templatePartsAt(
+  template: PartTemplate,
+  x: number,
+  y: number
+): (PartTemplatePart & { x: number; y: number })[] {
+  const clamp = (value: number) => Math.min(100, Math.max(0, value))
+  return template.parts.map((part) => ({
+    ...part,
+    x: clamp(x + (part.offset_x || 0)),
+    y: clamp(y + (part.offset_y || 0)),
+  }))
+}
+
+export async function fetchTemplateSets(): Promise<PartTemplateSet[]> {
+  // RLS returns global sets, the user's own and their team's
+  const { data, error } = await supabase
+    .from('part_template_sets')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Whether the user can share sets with everyone (docs/create-part-templates.sql
+ * limits global sets to admins); false if that can't be checked
+ */
+export async function fetchCanShareGlobally(): Promise<boolean> {
+  const { data, error } = await supabase.rpc('is_current_user_admin')
+  if (error) return false
+  return data === true
+}
+
+export async function fetchTemplateSetVersions(
+  setId: string
+): Promise<PartTemplateSetVersion[]> {
+  const { data, error } = await supabase
+    .from('part_template_set_versions')
+    .select('*')
+    .eq('set_id', setId)
+    .order('version', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+function assertTeamScope(
+  values: Partial<PartTemplateSetFormData>,
+  team: string | null
+) {
+  if (values.scope === 'team' && !team) {
+    throw new Error('Set up your team in Settings to share templates with it')
+  }
+}
+
+export async function createTemplateSet(
+  userId: string,
+  team: string | null,
+  values: PartTemplateSetFormData
+): Promise<PartTemplateSet> {
+  assertTeamScope(values, team)
+
+  const { data, error } = await supabase
+    .from('part_template_sets')
+    .insert({ ...values, owner_id: userId, team })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Pass the editor's `team` when the scope may change, so a set moved to team
+ * scope is shared with the editor's team
+ */
+export async function updateTemplateSet(
+  id: string,
+  values: Partial<PartTemplateSetFormData>,
+  team?: string | null
+): Promise<PartTemplateSet> {
+  assertTeamScope(values, team ?? null)
+
+  const { data, error } = await supabase
+    .from('part_template_sets')
+    .update(values.scope === 'team' ? { ...values, team } : values)
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function deleteTemplateSet(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('part_template_sets')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+/**
+ * JSON file contents for "Export". Material links are cleared since they
+ * only resolve for teams that can see the same library; the finish and color
+ * text stay.
+ */
+export function exportTemplateSet(set: PartTemplateSet): PartTemplateSetFile {
+  return {
+    type: 'part-template-set',
+    format_version: 1,
+    name: set.name,
+    description: set.description,
+    templates: set.templates.map((template) => ({
+      ...template,
+      parts: template.parts.map((part) => ({ ...part, material_id: null })),
+    })),
+  }
+}
+
+export function downloadTemplateSet(set: PartTemplateSet): void {
+  const json = JSON.stringify(exportTemplateSet(set), null, 2)
+  const blob = new Blob([json], { type: 'application/json;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${set.name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase()}.templates.json`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Parse an exported file. Template ids are regenerated so importing the same
+ * file twice doesn't produce clashing ids.
+ */
+export function parseTemplateSetFile(json: string): PartTemplateSetFile {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const result = partTemplateSetFileSchema.safeParse(raw)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue.path.length > 0 ? ` (${issue.path.join('.')})` : ''
+    throw new Error(`Not a part template set file: ${issue.message}${path}`)
+  }
+
+  return {
+    ...result.data,
+    templates: result.data.templates.map((template) => ({
+      ...template,
+      id: createTemplateId(),
+    })),
+  }
+}
@@ -0,0 +1,765 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  StandardFonts,
+  rgb,
+  RGB,
+} from 'pdf-lib'
+import {
+  Project,
+  Item,
+  ItemImage,
+  ImageQuality,
+  Part,
+  PartGroup,
+} from '../types'
+import { PresentationTheme, PRESENTATION_THEMES } from './presentation-themes'
+import { getItemDetailRows } from './item-details'
+import {
+  getImageLabel,
+  getItemImages,
+  getPartAnnotation,
+  getVersionImages,
+} from './item-images'
+import { getExportImageUrl } from './image-derivatives'
+import { fetchPublicUrl } from './outbound-fetch'
+
+// US Letter portrait, in PDF points
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 40
+const HEADER_HEIGHT = 56
+const FOOTER_HEIGHT = 30
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const MAX_IMAGE_HEIGHT = 300
+const MARKER_RADIUS = 8
+const CELL_PADDING = 4
+const TABLE_FONT_SIZE = 8.5
+const TABLE_LINE_HEIGHT = 11
+
+const TABLE_COLUMNS = [
+  { key: 'index', label: '#', width: 22 },
+  { key: 'name', label: 'Part', width: 96 },
+  { key: 'finish', label: 'Finish', width: 82 },
+  { key: 'color', label: 'Color', width: 90 },
+  { key: 'texture', label: 'Texture', width: 82 },
+  { key: 'group', label: 'Group', width: 64 },
+  { key: 'notes', label: 'Notes', width: CONTENT_WIDTH - 436 },
+] as const
+
+type ColumnKey = (typeof TABLE_COLUMNS)[number]['key']
+
+interface PartSection {
+  label: string
+  parts: Part[]
+  images: ItemImage[] // The version's images, or the item's
+}
+
+interface Fonts {
+  regular: PDFFont
+  bold: PDFFont
+}
+
+function parseHex(hex: string | undefined): RGB | null {
+  if (!hex) return null
+  const match = hex.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i)
+  if (!match) return null
+  let value = match[1]
+  if (value.length === 3) {
+    value = value
+      .split('')
+      .map((c) => c + c)
+      .join('')
+  }
+  const num = parseInt(value, 16)
+  return rgb(
+    ((num >> 16) & 255) / 255,
+    ((num >> 8) & 255) / 255,
+    (num & 255) / 255
+  )
+}
+
+function hexToRgb(hex: string | undefined, fallback: RGB = rgb(0, 0, 0)): RGB {
+  return parseHex(hex) || fallback
+}
+
+/**
+ * Standard PDF fonts only cover WinAnsi, so replace anything they can't encode
+ */
+function sanitize(text: string | undefined | null): string {
+  if (!text) return ''
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[\r\t]/g, ' ')
+    .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number
+): string[] {
+  const lines: string[] = []
+
+  for (const paragraph of sanitize(text).split('\n')) {
+    let current = ''
+    for (const word of paragraph.split(' ')) {
+      const candidate = current ? `${current} ${word}` : word
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        current = candidate
+        continue
+      }
+      if (current) lines.push(current)
+      // Hard-break words that are wider than the column on their own
+      let remainder = word
+      while (font.widthOfTextAtSize(remainder, size) > maxWidth) {
+        let cut = remainder.length - 1
+        while (
+          cut > 1 &&
+          font.widthOfTextAtSize(remainder.slice(0, cut), size) > maxWidth
+        ) {
+          cut--
+        }
+        lines.push(remainder.slice(0, cut))
+        remainder = remainder.slice(cut)
+      }
+      current = remainder
+    }
+    lines.push(current)
+  }
+
+  return lines
+}
+
+function detectImageType(bytes: Uint8Array): 'png' | 'jpg' | null {
+  if (
+    bytes[0] === 0x89 &&
+    bytes[1] === 0x50 &&
+    bytes[2] === 0x4e &&
+    bytes[3] === 0x47
+  ) {
+    return 'png'
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return 'jpg'
+  }
+  return null
+}
+
+export function getPresentationTheme(name?: string | null): PresentationTheme {
+  return (
+    PRESENTATION_THEMES.find((theme) => theme.name === name) ||
+    PRESENTATION_THEMES[0]
+  )
+}
+
+/**
+ * Builds a paginated, print-ready PDF spec sheet for a project:
+ * every item and version, its images with numbered annotation
+ * markers, and a part table with finish/color/texture/notes.
+ */
+export class PDFSpecSheetGenerator {
+  private project: Project
+  private theme: PresentationTheme
+  private doc!: PDFDocument
+  private fonts!: Fonts
+  private page!: PDFPage
+  private cursorY = 0
+  private imageQuality: ImageQuality
+  private imageCache = new Map<string, PDFImage | null>()
+
+  constructor(
+    project: Project,
+    theme: PresentationTheme,
+    imageQuality: ImageQuality = 'high'
+  ) {
+    this.project = project
+    this.theme = theme
+    this.imageQuality = imageQuality
+  }
+
+  async generate(): Promise<Uint8Array> {
+    this.doc = await PDFDocument.create()
+    this.doc.setTitle(sanitize(this.project.title))
+    this.doc.setSubject(`${sanitize(this.project.retailer)} spec sheet`)
+    this.doc.setProducer('Core Home Render Portal')
+    this.doc.setCreator('Core Home Render Portal')
+
+    // Standard fonts can't embed the theme's web fonts, so pick the closest family
+    const isSerif = /(^|[^-])serif/.test(this.theme.fonts.title)
+    this.fonts = {
+      regular: await this.doc.embedFont(
+        isSerif ? StandardFonts.TimesRoman : StandardFonts.Helvetica
+      ),
+      bold: await this.doc.embedFont(
+        isSerif ? StandardFonts.TimesRomanBold : StandardFonts.HelveticaBold
+      ),
+    }
+
+    this.addPage()
+    this.drawSummary()
+
+    for (const item of this.project.items || []) {
+      await this.drawItem(item)
+    }
+
+    this.drawFooters()
+
+    return this.doc.save()
+  }
+
+  private get colors() {
+    return {
+      primary: hexToRgb(this.theme.colors.primary),
+      accent: hexToRgb(this.theme.colors.accent),
+      text: hexToRgb(this.theme.colors.text),
+      textLight: hexToRgb(this.theme.colors.textLight, rgb(0.4, 0.4, 0.4)),
+      border: hexToRgb(this.theme.colors.border, rgb(0.85, 0.85, 0.85)),
+      background: hexToRgb(this.theme.colors.background, rgb(1, 1, 1)),
+    }
+  }
+
+  private addPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+
+    this.page.drawRectangle({
+      x: 0,
+      y: PAGE_HEIGHT - HEADER_HEIGHT,
+      width: PAGE_WIDTH,
+      height: HEADER_HEIGHT,
+      color: this.colors.primary,
+    })
+
+    this.page.drawText(
+      this.truncate(
+        this.project.title,
+        this.fonts.bold,
+        16,
+        CONTENT_WIDTH - 160
+      ),
+      {
+        x: MARGIN,
+        y: PAGE_HEIGHT - 34,
+        size: 16,
+        font: this.fonts.bold,
+        color: rgb(1, 1, 1),
+      }
+    )
+
+    const retailer = this.truncate(
+      this.project.retailer,
+      this.fonts.regular,
+      10,
+      150
+    )
+    this.page.drawText(retailer, {
+      x:
+        PAGE_WIDTH -
+        MARGIN -
+        this.fonts.regular.widthOfTextAtSize(retailer, 10),
+      y: PAGE_HEIGHT - 32,
+      size: 10,
+      font: this.fonts.regular,
+      color: rgb(1, 1, 1),
+    })
+
+    this.cursorY = PAGE_HEIGHT - HEADER_HEIGHT - 24
+  }
+
+  /**
+   * Start a new page when the next block won't fit above the footer
+   */
+  private ensureSpace(height: number): boolean {
+    if (this.cursorY - height < MARGIN + FOOTER_HEIGHT) {
+      this.addPage()
+      return true
+    }
+    return false
+  }
+
+  private truncate(
+    text: string,
+    font: PDFFont,
+    size: number,
+    maxWidth: number
+  ): string {
+    let value = sanitize(text)
+    if (font.widthOfTextAtSize(value, size) <= maxWidth) return value
+    while (
+      value.length > 1 &&
+      font.widthOfTextAtSize(`${value}...`, size) > maxWidth
+    ) {
+      value = value.slice(0, -1)
+    }
+    return `${value}...`
+  }
+
+  private getPartSections(item: Item): PartSection[] {
+    if (item.versions && item.versions.length > 0) {
+      return item.versions.map((version) => ({
+        label: version.versionName
+          ? `Version ${version.versionNumber} - ${version.versionName}`
+          : `Version ${version.versionNumber}`,
+        parts: version.parts || [],
+        images: getVersionImages(item, version),
+      }))
+    }
+    return [{ label: '', parts: item.parts || [], images: getItemImages(item) }]
+  }
+
+  private drawSummary() {
+    const items = this.project.items || []
+    const sections = items.flatMap((item) => this.getPartSections(item))
+    const versionCount = items.reduce(
+      (sum, item) => sum + (item.versions?.length || 0),
+      0
+    )
+    const partCount = sections.reduce((sum, s) => sum + s.parts.length, 0)
+
+    this.page.drawText('Render Specification Sheet', {
+      x: MARGIN,
+      y: this.cursorY,
+      size: 20,
+      font: this.fonts.bold,
+      color: this.colors.text,
+    })
+    this.cursorY -= 28
+
+    const rows: [string, string][] = [
+      ['Retailer', this.project.retailer || 'Not specified'],
+      [
+        'Due Date',
+        this.project.due_date
+          ? new Date(this.project.due_date).toLocaleDateString('en-US')
+          : 'Not set',
+      ],
+      ['Items', String(items.length)],
+      ['Versions', String(versionCount)],
+      ['Parts', String(partCount)],
+      [
+        'Last Updated',
+        new Date(this.project.updated_at).toLocaleDateString('en-US'),
+      ],
+    ]
+
+    for (const [label, value] of rows) {
+      this.page.drawText(`${label}:`, {
+        x: MARGIN,
+        y: this.cursorY,
+        size: 10,
+        font: this.fonts.bold,
+        color: this.colors.textLight,
+      })
+      this.page.drawText(sanitize(value), {
+        x: MARGIN + 90,
+        y: this.cursorY,
+        size: 10,
+        font: this.fonts.regular,
+        color: this.colors.text,
+      })
+      this.cursorY -= 15
+    }
+
+    this.cursorY -= 12
+  }
+
+  private async drawItem(item: Item) {
+    this.ensureSpace(80)
+
+    this.page.drawRectangle({
+      x: MARGIN,
+      y: this.cursorY - 8,
+      width: 4,
+      height: 24,
+      color: this.colors.accent,
+    })
+    this.page.drawText(
+      this.truncate(
+        item.name || 'Unnamed Item',
+        this.fonts.bold,
+        15,
+        CONTENT_WIDTH - 12
+      ),
+      {
+        x: MARGIN + 12,
+        y: this.cursorY,
+        size: 15,
+        font: this.fonts.bold,
+        color: this.colors.text,
+      }
+    )
+    this.cursorY -= 28
+
+    this.drawItemDetails(item)
+
+    for (const section of this.getPartSections(item)) {
+      if (section.label) {
+        this.ensureSpace(40)
+        this.page.drawText(
+          sanitize(`${section.label} (${section.parts.length} parts)`),
+          {
+            x: MARGIN,
+            y: this.cursorY,
+            size: 11,
+            font: this.fonts.bold,
+            color: this.colors.primary,
+          }
+        )
+        this.cursorY -= 18
+      }
+
+      for (const image of section.images) {
+        await this.drawSectionImage(section, image)
+      }
+
+      this.drawPartsTable(section.parts, item.groups)
+      this.cursorY -= 16
+    }
+  }
+
+  /**
+   * Packaging, logo and notes under the item title
+   */
+  private drawItemDetails(item: Item) {
+    const rows = getItemDetailRows(item)
+    if (rows.length === 0) return
+
+    for (const { label, value } of rows) {
+      const lines = wrapText(value, this.fonts.regular, 10, CONTENT_WIDTH - 90)
+      this.ensureSpace(lines.length * 13)
+
+      this.page.drawText(`${label}:`, {
+        x: MARGIN,
+        y: this.cursorY,
+        size: 10,
+        font: this.fonts.bold,
+        color: this.colors.textLight,
+      })
+      for (const line of lines) {
+        this.page.drawText(line, {
+          x: MARGIN + 90,
+          y: this.cursorY,
+          size: 10,
+          font: this.fonts.regular,
+          color: this.colors.text,
+        })
+        this.cursorY -= 13
+      }
+      this.cursorY -= 2
+    }
+
+    this.cursorY -= 10
+  }
+
+  private async loadImage(url: string): Promise<PDFImage | null> {
+    if (this.imageCache.has(url)) {
+      return this.imageCache.get(url) || null
+    }
+
+    let image: PDFImage | null = null
+    try {
+      // Image URLs come from project data, so private addresses are refused
+      const response = await fetchPublicUrl(url, {
+        signal: AbortSignal.timeout(15000),
+      })
+      if (response.ok) {
+        const bytes = new Uint8Array(await response.arrayBuffer())
+        const type = detectImageType(bytes)
+        if (type === 'png') image = await this.doc.embedPng(bytes)
+        if (type === 'jpg') image = await this.doc.embedJpg(bytes)
+      }
+    } catch (error) {
+      console.error('Failed to load image for PDF:', url, error)
+    }
+
+    this.imageCache.set(url, image)
+    return image
+  }
+
+  private async drawSectionImage(
+    section: PartSection,
+    sectionImage: ItemImage
+  ) {
+    const image = await this.loadImage(
+      getExportImageUrl(sectionImage, this.imageQuality)
+    )
+    // Name the angle once there's more than one to tell apart
+    const caption = section.images.length > 1 ? getImageLabel(sectionImage) : ''
+
+    if (caption) {
+      this.ensureSpace(40)
+      this.page.drawText(sanitize(caption), {
+        x: MARGIN,
+        y: this.cursorY,
+        size: 9,
+        font: this.fonts.bold,
+        color: this.colors.textLight,
+      })
+      this.cursorY -= 14
+    }
+
+    if (!image) {
+      this.ensureSpace(40)
+      this.page.drawRectangle({
+        x: MARGIN,
+        y: this.cursorY - 28,
+        width: CONTENT_WIDTH,
+        height: 32,
+        borderColor: this.colors.border,
+        borderWidth: 1,
+      })
+      this.page.drawText(
+        'Image unavailable (only PNG and JPEG can be embedded)',
+        {
+          x: MARGIN + 10,
+          y: this.cursorY - 16,
+          size: 9,
+          font: this.fonts.regular,
+          color: this.colors.textLight,
+        }
+      )
+      this.cursorY -= 44
+      return
+    }
+
+    const scale = Math.min(
+      CONTENT_WIDTH / image.width,
+      MAX_IMAGE_HEIGHT / image.height,
+      1
+    )
+    const width = image.width * scale
+    const height = image.height * scale
+
+    this.ensureSpace(height + 12)
+
+    const x = MARGIN + (CONTENT_WIDTH - width) / 2
+    const y = this.cursorY - height
+
+    this.page.drawImage(image, { x, y, width, height })
+    this.page.drawRectangle({
+      x,
+      y,
+      width,
+      height,
+      borderColor: this.colors.border,
+      borderWidth: 0.5,
+    })
+
+    // Annotation coordinates are percentages from the top-left corner
+    section.parts.forEach((part, index) => {
+      const point = getPartAnnotation(part, section.images, sectionImage.id)
+      if (!point) return
+      const markerX = x + (width * point.x) / 100
+      const markerY = y + height - (height * point.y) / 100
+      const label = String(index + 1)
+
+      this.page.drawCircle({
+        x: markerX,
+        y: markerY,
+        size: MARKER_RADIUS,
+        color: hexToRgb(part.color, this.colors.primary),
+        borderColor: rgb(1, 1, 1),
+        borderWidth: 1.5,
+      })
+      this.page.drawText(label, {
+        x: markerX - this.fonts.bold.widthOfTextAtSize(label, 8) / 2,
+        y: markerY - 3,
+        size: 8,
+        font: this.fonts.bold,
+        color: rgb(1, 1, 1),
+      })
+    })
+
+    this.cursorY = y - 12
+  }
+
+  private getCellText(
+    key: ColumnKey,
+    part: Part,
+    index: number,
+    groups?: PartGroup[]
+  ): string {
+    switch (key) {
+      case 'index':
+        return String(index + 1)
+      case 'name':
+        return part.name || 'Unnamed'
+      case 'group':
+        return groups?.find((g) => g.id === part.groupId)?.name || '-'
+      case 'notes':
+        return part.notes || ''
+      default:
+        return part[key] || 'Not specified'
+    }
+  }
+
+  private drawTableHeader() {
+    const height = TABLE_LINE_HEIGHT + CELL_PADDING * 2
+    this.page.drawRectangle({
+      x: MARGIN,
+      y: this.cursorY - height,
+      width: CONTENT_WIDTH,
+      height,
+      color: this.colors.primary,
+    })
+
+    let x = MARGIN
+    for (const column of TABLE_COLUMNS) {
+      this.page.drawText(column.label, {
+        x: x + CELL_PADDING,
+        y: this.cursorY - CELL_PADDING - TABLE_FONT_SIZE,
+        size: TABLE_FONT_SIZE,
+        font: this.fonts.bold,
+        color: rgb(1, 1, 1),
+      })
+      x += column.width
+    }
+
+    this.cursorY -= height
+  }
+
+  private drawPartsTable(parts: Part[], groups?: PartGroup[]) {
+    if (parts.length === 0) {
+      this.ensureSpace(20)
+      this.page.drawText('No parts defined', {
+        x: MARGIN,
+        y: this.cursorY - 10,
+        size: 9,
+        font: this.fonts.regular,
+        color: this.colors.textLight,
+      })
+      this.cursorY -= 20
+      return
+    }
+
+    this.ensureSpace(TABLE_LINE_HEIGHT * 3 + CELL_PADDING * 4)
+    this.drawTableHeader()
+
+    parts.forEach((part, index) => {
+      const cells = TABLE_COLUMNS.map((column) => {
+        const swatch = column.key === 'color' && !!parseHex(part.color)
+        const textWidth = column.width - CELL_PADDING * 2 - (swatch ? 12 : 0)
+        return {
+          column,
+          swatch,
+          lines: wrapText(
+            this.getCellText(column.key, part, index, groups),
+            column.key === 'name' ? this.fonts.bold : this.fonts.regular,
+            TABLE_FONT_SIZE,
+            textWidth
+          ),
+        }
+      })
+
+      const rowHeight =
+        Math.max(...cells.map((cell) => cell.lines.length)) *
+          TABLE_LINE_HEIGHT +
+        CELL_PADDING * 2
+
+      // Repeat the header at the top of every continuation page
+      if (this.ensureSpace(rowHeight)) {
+        this.drawTableHeader()
+      }
+
+      const rowTop = this.cursorY
+      if (index % 2 === 1) {
+        this.page.drawRectangle({
+          x: MARGIN,
+          y: rowTop - rowHeight,
+          width: CONTENT_WIDTH,
+          height: rowHeight,
+          color: this.colors.background,
+        })
+      }
+
+      let x = MARGIN
+      for (const cell of cells) {
+        let textX = x + CELL_PADDING
+        if (cell.swatch) {
+          this.page.drawRectangle({
+            x: textX,
+            y: rowTop - CELL_PADDING - 9,
+            width: 9,
+            height: 9,
+            color: hexToRgb(part.color),
+            borderColor: this.colors.border,
+            borderWidth: 0.5,
+          })
+          textX += 12
+        }
+
+        cell.lines.forEach((line, lineIndex) => {
+          this.page.drawText(line, {
+            x: textX,
+            y:
+              rowTop -
+              CELL_PADDING -
+              TABLE_FONT_SIZE -
+              lineIndex * TABLE_LINE_HEIGHT,
+            size: TABLE_FONT_SIZE,
+            font:
+              cell.column.key === 'name' ? this.fonts.bold : this.fonts.regular,
+            color: this.colors.text,
+          })
+        })
+        x += cell.column.width
+      }
+
+      this.page.drawLine({
+        start: { x: MARGIN, y: rowTop - rowHeight },
+        end: { x: MARGIN + CONTENT_WIDTH, y: rowTop - rowHeight },
+        thickness: 0.5,
+        color: this.colors.border,
+      })
+
+      this.cursorY -= rowHeight
+    })
+  }
+
+  private drawFooters() {
+    const pages = this.doc.getPages()
+    const generated = `Generated ${new Date().toLocaleDateString('en-US')} - Core Home Render Portal`
+
+    pages.forEach((page, index) => {
+      const pageLabel = `Page ${index + 1} of ${pages.length}`
+      page.drawLine({
+        start: { x: MARGIN, y: MARGIN + 12 },
+        end: { x: PAGE_WIDTH - MARGIN, y: MARGIN + 12 },
+        thickness: 0.5,
+        color: this.colors.border,
+      })
+      page.drawText(generated, {
+        x: MARGIN,
+        y: MARGIN,
+        size: 8,
+        font: this.fonts.regular,
+        color: this.colors.textLight,
+      })
+      page.drawText(pageLabel, {
+        x:
+          PAGE_WIDTH -
+          MARGIN -
+          this.fonts.regular.widthOfTextAtSize(pageLabel, 8),
+        y: MARGIN,
+        size: 8,
+        font: this.fonts.regular,
+        color: this.colors.textLight,
+      })
+    })
+  }
+}
+
+export function generatePDFSpecSheet(
+  project: Project,
+  theme: PresentationTheme,
+  imageQuality?: ImageQuality
+): Promise<Uint8Array> {
+  const generator = new PDFSpecSheetGenerator(project, theme, imageQuality)
+  return generator.generate()
+}
@@ -0,0 +1,123 @@
+import { createHash, randomBytes } from 'crypto'
+import { supabaseAdmin } from './supaAdmin'
+import { PersonalAccessToken, TokenScope } from '../types'
+
+/**
+ * Personal access tokens let scripts call the API without a browser
+ * session. Only the SHA-256 hash is stored; the plaintext token is
+ * returned once, when it is created.
+ */
+export const TOKEN_PREFIX = 'crp_'
+
+const TOKEN_COLUMNS =
+  'id, user_id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at'
+
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(TOKEN_PREFIX)
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export async function createPersonalAccessToken(
+  userId: string,
+  name: string,
+  scopes: TokenScope[],
+  expiresInDays: number
+): Promise<{ token: string; record: PersonalAccessToken }> {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+
+  const { data, error } = await supabaseAdmin
+    .from('personal_access_tokens')
+    .insert([
+      {
+        user_id: userId,
+        name,
+        token_hash: hashToken(token),
+        // Enough to recognise the token in the list without revealing it
+        token_prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+        scopes,
+        expires_at: expiresAt.toISOString(),
+      },
+    ])
+    .select(TOKEN_COLUMNS)
+    .single()
+
+  if (error) throw error
+
+  return { token, record: data as PersonalAccessToken }
+}
+
+export async function listPersonalAccessTokens(
+  userId: string
+): Promise<PersonalAccessToken[]> {
+  const { data, error } = await supabaseAdmin
+    .from('personal_access_tokens')
+    .select(TOKEN_COLUMNS)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  return (data || []) as PersonalAccessToken[]
+}
+
+/**
+ * Revoke one of the user's tokens. Returns false when no active token
+ * with that id belongs to the user.
+ */
+export async function revokePersonalAccessToken(
+  userId: string,
+  tokenId: string
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('personal_access_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id')
+
+  if (error) throw error
+
+  return !!data && data.length > 0
+}
+
+/**
+ * Look up an active token by its hash. Returns null when the token is
+ * unknown, revoked or expired.
+ */
+export async function verifyPersonalAccessToken(
+  token: string
+): Promise<PersonalAccessToken | null> {
+  const { data, error } = await supabaseAdmin
+    .from('personal_access_tokens')
+    .select(TOKEN_COLUMNS)
+    .eq('token_hash', hashToken(token))
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error verifying personal access token:', error)
+    return null
+  }
+
+  if (!data || data.revoked_at || new Date(data.expires_at) <= new Date()) {
+    return null
+  }
+
+  // Recording last use shouldn't hold up the request
+  supabaseAdmin
+    .from('personal_access_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id)
+    .then(({ error: updateError }) => {
+      if (updateError) {
+        console.error('Error updating token last_used_at:', updateError)
+      }
+    })
+
+  return data as PersonalAccessToken
+}
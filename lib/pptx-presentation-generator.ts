@@ -0,0 +1,789 @@
+import PptxGenJS from 'pptxgenjs'
+import { ExportOptions } from '../components/project/export-project-modal'
+import {
+  Project,
+  Item,
+  Part,
+  PartGroup,
+  ProjectWithCollaboration,
+  ItemImage,
+} from '../types'
+import { supabase } from './supaClient'
+import { PRESENTATION_THEMES, PresentationTheme } from './presentation-themes'
+import { fetchImageAsDataURL } from './excalidraw-utils'
+import { getExportImageUrl } from './image-derivatives'
+import {
+  getItemDetailRows,
+  getLogoLabel,
+  getPackagingLabel,
+} from './item-details'
+import {
+  getImageLabel,
+  getItemImages,
+  getPartAnnotation,
+  getVersionImages,
+} from './item-images'
+
+// 16:9 widescreen layout, all positions below are in inches
+const SLIDE_WIDTH = 13.33
+const SLIDE_HEIGHT = 7.5
+const MARGIN = 0.5
+const TITLE_HEIGHT = 0.8
+const PARTS_PER_TABLE_SLIDE = 10
+const MARKER_SIZE = 0.32
+
+export interface PptxProgress {
+  completed: number
+  total: number
+  step: string
+}
+
+type SlideTask = {
+  label: string
+  run: () => Promise<void> | void
+}
+
+interface PartSection {
+  label: string
+  parts: Part[]
+  images: ItemImage[] // The version's images, or the item's
+}
+
+/**
+ * Strip the leading '#' from a CSS hex color, pptxgenjs wants bare hex.
+ * Returns undefined for anything that isn't a hex color (e.g. "Red").
+ */
+function toHex(color?: string): string | undefined {
+  if (!color) return undefined
+  const match = color.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i)
+  if (!match) return undefined
+  const hex = match[1]
+  return hex.length === 3
+    ? hex
+        .split('')
+        .map((c) => c + c)
+        .join('')
+        .toUpperCase()
+    : hex.toUpperCase()
+}
+
+/**
+ * Take the first family out of a CSS font stack ("'Inter', sans-serif" → "Inter")
+ */
+function firstFontFamily(stack: string): string {
+  return stack.split(',')[0].replace(/['"]/g, '').trim()
+}
+
+function loadImageSize(
+  dataURL: string
+): Promise<{ width: number; height: number } | null> {
+  return new Promise((resolve) => {
+    const img = new Image()
+    img.onload = () =>
+      resolve({ width: img.naturalWidth, height: img.naturalHeight })
+    img.onerror = () => resolve(null)
+    img.src = dataURL
+  })
+}
+
+/**
+ * Fit an image of the given pixel size inside a box, keeping aspect ratio
+ */
+function containRect(
+  size: { width: number; height: number },
+  box: { x: number; y: number; w: number; h: number }
+) {
+  const scale = Math.min(box.w / size.width, box.h / size.height)
+  const w = size.width * scale
+  const h = size.height * scale
+  return { x: box.x + (box.w - w) / 2, y: box.y + (box.h - h) / 2, w, h }
+}
+
+export class PptxPresentationGenerator {
+  private options: ExportOptions
+  private project: Project
+  private theme: PresentationTheme
+  private pptx: PptxGenJS
+  private onProgress?: (progress: PptxProgress) => void
+
+  constructor(
+    project: Project,
+    options: ExportOptions,
+    onProgress?: (progress: PptxProgress) => void
+  ) {
+    this.options = options
+    this.project = project
+    this.onProgress = onProgress
+    this.theme =
+      PRESENTATION_THEMES.find((theme) => theme.name === options.theme) ||
+      PRESENTATION_THEMES[0]
+    this.pptx = new PptxGenJS()
+  }
+
+  async generate(): Promise<Blob> {
+    const title = this.options.customTitle || this.project.title
+
+    this.pptx.layout = 'LAYOUT_WIDE'
+    this.pptx.title = title
+    this.pptx.subject = `${this.project.retailer} render specifications`
+    this.pptx.company = 'Core Home'
+    this.pptx.author = 'Core Home Render Portal'
+    this.pptx.theme = {
+      headFontFace: firstFontFamily(this.theme.fonts.title),
+      bodyFontFace: firstFontFamily(this.theme.fonts.body),
+    }
+
+    const tasks = this.collectTasks()
+    // One extra step for packaging the zip at the end
+    const total = tasks.length + 1
+
+    for (let i = 0; i < tasks.length; i++) {
+      this.reportProgress(i, total, tasks[i].label)
+      await tasks[i].run()
+    }
+
+    this.reportProgress(tasks.length, total, 'Packaging .pptx file...')
+    const blob = (await this.pptx.write({
+      outputType: 'blob',
+      compression: true,
+    })) as Blob
+    this.reportProgress(total, total, 'PowerPoint presentation ready!')
+
+    return blob
+  }
+
+  private reportProgress(completed: number, total: number, step: string) {
+    this.onProgress?.({ completed, total, step })
+  }
+
+  /**
+   * Build the list of slides up front so progress can report
+   * real "n of total" numbers while each slide is rendered.
+   */
+  private collectTasks(): SlideTask[] {
+    const tasks: SlideTask[] = []
+    const items = this.project.items || []
+
+    if (this.options.includeProjectOverview) {
+      tasks.push({
+        label: 'Creating title slide...',
+        run: () => this.addTitleSlide(),
+      })
+      tasks.push({
+        label: 'Creating project overview...',
+        run: () => this.addOverviewSlide(),
+      })
+    }
+
+    if (this.options.includeAnnotatedImages) {
+      items.forEach((item) => {
+        this.getPartSections(item).forEach((section) => {
+          section.images.forEach((image) => {
+            tasks.push({
+              label: `Adding ${getImageLabel(image).toLowerCase()} image for ${item.name || 'item'}${section.label ? ` (${section.label})` : ''}...`,
+              run: () => this.addImageSlide(item, section, image),
+            })
+          })
+        })
+      })
+    }
+
+    if (this.options.includePartDetails) {
+      const itemsWithDetails = items.filter(
+        (item) =>
+          getItemDetailRows(item, { includeNotes: this.options.includeNotes })
+            .length > 0
+      )
+      if (itemsWithDetails.length > 0) {
+        tasks.push({
+          label: 'Adding item requirements...',
+          run: () => this.addItemRequirementsSlide(itemsWithDetails),
+        })
+      }
+
+      items.forEach((item) => {
+        this.getPartSections(item).forEach((section) => {
+          for (
+            let start = 0;
+            start < section.parts.length;
+            start += PARTS_PER_TABLE_SLIDE
+          ) {
+            const chunk = section.parts.slice(
+              start,
+              start + PARTS_PER_TABLE_SLIDE
+            )
+            tasks.push({
+              label: `Adding part specifications for ${item.name || 'item'}...`,
+              run: () =>
+                this.addPartDetailsSlide(
+                  item,
+                  section,
+                  chunk,
+                  start,
+                  section.parts.length
+                ),
+            })
+          }
+        })
+      })
+    }
+
+    if (this.options.includePartGroups) {
+      items.forEach((item) => {
+        if (!item.groups || item.groups.length === 0) return
+        tasks.push({
+          label: `Adding part groups for ${item.name || 'item'}...`,
+          run: () => this.addGroupSlide(item),
+        })
+      })
+    }
+
+    if (this.options.includeTeamInfo) {
+      tasks.push({
+        label: 'Adding team information...',
+        run: () => this.addTeamInfoSlide(),
+      })
+    }
+
+    if (this.options.includeNotes) {
+      tasks.push({
+        label: 'Adding project notes...',
+        run: () => this.addNotesSlide(),
+      })
+    }
+
+    return tasks
+  }
+
+  /**
+   * Split an item's parts per version, or a single unnamed section for the legacy format
+   */
+  private getPartSections(item: Item): PartSection[] {
+    if (item.versions && item.versions.length > 0) {
+      return item.versions.map((version) => ({
+        label: version.versionName || `Version ${version.versionNumber}`,
+        parts: version.parts || [],
+        images: getVersionImages(item, version),
+      }))
+    }
+    return [{ label: '', parts: item.parts || [], images: getItemImages(item) }]
+  }
+
+  private addContentSlide(title: string): PptxGenJS.Slide {
+    const slide = this.pptx.addSlide()
+    slide.background = { color: toHex(this.theme.colors.card) || 'FFFFFF' }
+
+    if (this.options.slideLayout !== 'minimal') {
+      slide.addShape('rect', {
+        x: 0,
+        y: 0,
+        w: SLIDE_WIDTH,
+        h: 0.12,
+        fill: { color: toHex(this.theme.colors.primary) },
+        line: { type: 'none' },
+      })
+    }
+
+    slide.addText(title, {
+      x: MARGIN,
+      y: 0.3,
+      w: SLIDE_WIDTH - MARGIN * 2,
+      h: TITLE_HEIGHT,
+      fontFace: firstFontFamily(this.theme.fonts.title),
+      fontSize: 28,
+      bold: true,
+      color: toHex(this.theme.colors.text),
+    })
+
+    if (this.options.slideLayout === 'professional') {
+      slide.addText('Generated by Core Home Render Portal', {
+        x: MARGIN,
+        y: SLIDE_HEIGHT - 0.45,
+        w: SLIDE_WIDTH - MARGIN * 2,
+        h: 0.3,
+        fontSize: 9,
+        align: 'right',
+        color: toHex(this.theme.colors.textLight),
+      })
+    }
+
+    return slide
+  }
+
+  private addTitleSlide() {
+    const slide = this.pptx.addSlide()
+    const isPlain = this.options.slideLayout === 'minimal'
+    const textColor = isPlain ? toHex(this.theme.colors.text) : 'FFFFFF'
+
+    slide.background = {
+      color: isPlain
+        ? toHex(this.theme.colors.background) || 'FFFFFF'
+        : toHex(this.theme.colors.primary) || '2E5BBA',
+    }
+
+    slide.addText(this.options.customTitle || this.project.title, {
+      x: MARGIN,
+      y: 2.4,
+      w: SLIDE_WIDTH - MARGIN * 2,
+      h: 1.4,
+      align: 'center',
+      fontFace: firstFontFamily(this.theme.fonts.title),
+      fontSize: 44,
+      bold: true,
+      color: textColor,
+    })
+
+    slide.addText(`Generated on ${new Date().toLocaleDateString()}`, {
+      x: MARGIN,
+      y: 3.8,
+      w: SLIDE_WIDTH - MARGIN * 2,
+      h: 0.5,
+      align: 'center',
+      fontSize: 16,
+      color: textColor,
+    })
+
+    if (this.project.retailer) {
+      slide.addText(`Retailer: ${this.project.retailer}`, {
+        x: MARGIN,
+        y: 4.4,
+        w: SLIDE_WIDTH - MARGIN * 2,
+        h: 0.5,
+        align: 'center',
+        fontSize: 18,
+        color: isPlain ? toHex(this.theme.colors.accent) : textColor,
+      })
+    }
+  }
+
+  private addOverviewSlide() {
+    const slide = this.addContentSlide('Project Overview')
+    const items = this.project.items || []
+    const totalParts = items.reduce(
+      (sum, item) =>
+        sum +
+        this.getPartSections(item).reduce(
+          (count, section) => count + section.parts.length,
+          0
+        ),
+      0
+    )
+    const totalGroups = items.reduce(
+      (sum, item) => sum + (item.groups?.length || 0),
+      0
+    )
+
+    const rows: [string, string][] = [
+      ['Project Name', this.project.title],
+      ['Retailer', this.project.retailer || 'Not specified'],
+      ['Created', new Date(this.project.created_at).toLocaleDateString()],
+      ['Last Updated', new Date(this.project.updated_at).toLocaleDateString()],
+      [
+        'Due Date',
+        this.project.due_date
+          ? new Date(this.project.due_date).toLocaleDateString()
+          : 'Not set',
+      ],
+      ['Items', String(items.length)],
+      ['Total Parts', String(totalParts)],
+    ]
+    if (totalGroups > 0) rows.push(['Part Groups', String(totalGroups)])
+
+    slide.addTable(
+      rows.map(([label, value]) => [
+        { text: label, options: { bold: true } },
+        { text: value },
+      ]),
+      {
+        x: MARGIN,
+        y: 1.4,
+        w: 7,
+        colW: [2.5, 4.5],
+        fontSize: 14,
+        color: toHex(this.theme.colors.text),
+        border: {
+          type: 'solid',
+          pt: 1,
+          color: toHex(this.theme.colors.border),
+        },
+        fill: { color: toHex(this.theme.colors.card) || 'FFFFFF' },
+      }
+    )
+  }
+
+  private async addImageSlide(
+    item: Item,
+    section: PartSection,
+    sectionImage: ItemImage
+  ) {
+    const name = section.label
+      ? `${item.name || 'Unnamed Item'} — ${section.label}`
+      : item.name || 'Unnamed Item'
+    // Name the angle once there's more than one to tell apart
+    const title =
+      section.images.length > 1
+        ? `${name} (${getImageLabel(sectionImage)})`
+        : name
+    const slide = this.addContentSlide(title)
+
+    const imageBox = {
+      x: MARGIN,
+      y: 1.3,
+      w: 8.2,
+      h: SLIDE_HEIGHT - 1.3 - 0.7,
+    }
+
+    const image = await fetchImageAsDataURL(
+      getExportImageUrl(sectionImage, this.options.imageQuality)
+    )
+    const size = image ? await loadImageSize(image.dataURL) : null
+
+    if (!image || !size) {
+      slide.addText('Image could not be loaded', {
+        ...imageBox,
+        align: 'center',
+        valign: 'middle',
+        fontSize: 14,
+        color: toHex(this.theme.colors.textLight),
+        fill: { color: toHex(this.theme.colors.background) || 'F8FAFC' },
+      })
+    } else {
+      const rect = containRect(size, imageBox)
+      slide.addImage({ data: image.dataURL, ...rect, altText: item.name })
+
+      // Markers are native shapes so they stay movable in PowerPoint
+      section.parts.forEach((part, index) => {
+        const point = getPartAnnotation(part, section.images, sectionImage.id)
+        if (!point) return
+        const { x, y } = point
+        slide.addText(String(index + 1), {
+          shape: 'ellipse',
+          x: rect.x + (rect.w * x) / 100 - MARKER_SIZE / 2,
+          y: rect.y + (rect.h * y) / 100 - MARKER_SIZE / 2,
+          w: MARKER_SIZE,
+          h: MARKER_SIZE,
+          align: 'center',
+          valign: 'middle',
+          fontSize: 10,
+          bold: true,
+          color: 'FFFFFF',
+          fill: {
+            color:
+              toHex(part.color) || toHex(this.theme.colors.primary) || '3B82F6',
+          },
+          line: { color: 'FFFFFF', width: 1.5 },
+        })
+      })
+    }
+
+    const legend = section.parts.map((part, index) => ({
+      text: `${index + 1}. ${part.name || 'Unnamed'}`,
+      options: {
+        bullet: false,
+        breakLine: true,
+        bold: true,
+        fontSize: 12,
+        color: toHex(this.theme.colors.text),
+      },
+    }))
+
+    slide.addText(
+      legend.length > 0
+        ? legend
+        : [{ text: 'No parts defined', options: { fontSize: 12 } }],
+      {
+        x: imageBox.x + imageBox.w + 0.3,
+        y: imageBox.y,
+        w: SLIDE_WIDTH - imageBox.x - imageBox.w - 0.3 - MARGIN,
+        h: imageBox.h,
+        valign: 'top',
+        color: toHex(this.theme.colors.text),
+      }
+    )
+  }
+
+  private addPartDetailsSlide(
+    item: Item,
+    section: PartSection,
+    parts: Part[],
+    startIndex: number,
+    totalParts: number
+  ) {
+    const range = `${startIndex + 1}-${startIndex + parts.length} of ${totalParts}`
+    const title = `${item.name || 'Unnamed Item'}${section.label ? ` — ${section.label}` : ''}: Parts ${range}`
+    const slide = this.addContentSlide(title)
+
+    const headerOptions = {
+      bold: true,
+      color: 'FFFFFF',
+      fill: { color: toHex(this.theme.colors.primary) || '2E5BBA' },
+    }
+    const header = ['#', 'Part', 'Finish', 'Color', 'Texture', 'Group', 'Notes']
+
+    const rows: PptxGenJS.TableRow[] = [
+      header.map((text) => ({ text, options: headerOptions })),
+      ...parts.map((part, index) => [
+        { text: String(startIndex + index + 1) },
+        { text: part.name || 'Unnamed', options: { bold: true } },
+        { text: part.finish || 'Not specified' },
+        {
+          text: part.color || 'Not specified',
+          options: toHex(part.color)
+            ? { fill: { color: toHex(part.color) } }
+            : undefined,
+        },
+        { text: part.texture || 'Not specified' },
+        { text: this.getGroupName(part, item.groups) },
+        { text: this.options.includeNotes ? part.notes || '' : '' },
+      ]),
+    ]
+
+    slide.addTable(rows, {
+      x: MARGIN,
+      y: 1.3,
+      w: SLIDE_WIDTH - MARGIN * 2,
+      colW: [0.5, 2.3, 1.9, 1.7, 1.7, 1.6, 2.63],
+      fontSize: 11,
+      color: toHex(this.theme.colors.text),
+      border: { type: 'solid', pt: 1, color: toHex(this.theme.colors.border) },
+      valign: 'middle',
+    })
+  }
+
+  /**
+   * Packaging, logo and notes for every item that has any of them
+   */
+  private addItemRequirementsSlide(items: Item[]) {
+    const slide = this.addContentSlide('Item Requirements')
+
+    const headerOptions = {
+      bold: true,
+      color: 'FFFFFF',
+      fill: { color: toHex(this.theme.colors.primary) || '2E5BBA' },
+    }
+    const header = ['Item', 'Packaging', 'Logo', 'Notes']
+
+    const rows: PptxGenJS.TableRow[] = [
+      header.map((text) => ({ text, options: headerOptions })),
+      ...items.map((item) => [
+        { text: item.name || 'Unnamed Item', options: { bold: true } },
+        {
+          text: item.needs_packaging
+            ? getPackagingLabel(item.packaging_type) || 'Required'
+            : 'None',
+        },
+        { text: item.needs_logo ? getLogoLabel(item) : 'None' },
+        { text: this.options.includeNotes ? item.notes || '' : '' },
+      ]),
+    ]
+
+    slide.addTable(rows, {
+      x: MARGIN,
+      y: 1.3,
+      w: SLIDE_WIDTH - MARGIN * 2,
+      colW: [3, 2, 2, 5.33],
+      fontSize: 11,
+      color: toHex(this.theme.colors.text),
+      border: { type: 'solid', pt: 1, color: toHex(this.theme.colors.border) },
+      valign: 'middle',
+      autoPage: true,
+    })
+  }
+
+  private getGroupName(part: Part, groups?: PartGroup[]): string {
+    return groups?.find((g) => g.id === part.groupId)?.name || 'None'
+  }
+
+  private addGroupSlide(item: Item) {
+    const slide = this.addContentSlide(
+      `${item.name || 'Unnamed Item'}: Part Groups`
+    )
+    const allParts = this.getPartSections(item).flatMap(
+      (section) => section.parts
+    )
+
+    const rows: PptxGenJS.TableRow[] = [
+      ['Group', 'Description', 'Parts'].map((text) => ({
+        text,
+        options: {
+          bold: true,
+          color: 'FFFFFF',
+          fill: { color: toHex(this.theme.colors.primary) || '2E5BBA' },
+        },
+      })),
+      ...(item.groups || []).map((group) => {
+        const groupParts = allParts.filter((part) => part.groupId === group.id)
+        return [
+          {
+            text: group.name,
+            options: {
+              bold: true,
+              color: toHex(group.color) || toHex(this.theme.colors.text),
+            },
+          },
+          { text: group.description || '' },
+          {
+            text:
+              groupParts.length > 0
+                ? groupParts.map((part) => part.name).join(', ')
+                : 'No parts',
+          },
+        ]
+      }),
+    ]
+
+    slide.addTable(rows, {
+      x: MARGIN,
+      y: 1.3,
+      w: SLIDE_WIDTH - MARGIN * 2,
+      colW: [2.5, 4, 5.83],
+      fontSize: 12,
+      color: toHex(this.theme.colors.text),
+      border: { type: 'solid', pt: 1, color: toHex(this.theme.colors.border) },
+    })
+  }
+
+  /**
+   * The owner's profile display name, else their name or email when they're
+   * the one exporting. The owner isn't one of the collaborators, whose rows
+   * come with names and emails already.
+   */
+  private async getOwnerName(): Promise<string> {
+    const ownerId = this.project.user_id
+    if (!ownerId) return 'Unknown'
+
+    try {
+      const { data: profile } = await supabase
+        .from('user_profiles')
+        .select('display_name')
+        .eq('user_id', ownerId)
+        .maybeSingle()
+      if (profile?.display_name) return profile.display_name
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      if (session?.user.id === ownerId) {
+        const name: string | undefined =
+          session.user.user_metadata?.full_name || session.user.email
+        if (name) return name
+      }
+    } catch (error) {
+      // Names are nice to have; the slide still says who owns the project
+      console.error('Failed to load the project owner:', error)
+    }
+    return 'Project owner'
+  }
+
+  private async addTeamInfoSlide() {
+    const slide = this.addContentSlide('Team & Collaboration')
+    const collaborators =
+      (this.project as ProjectWithCollaboration).collaborators || []
+
+    const rows: PptxGenJS.TableRow[] = [
+      [
+        { text: 'Project Owner', options: { bold: true } },
+        { text: await this.getOwnerName() },
+      ],
+      ...collaborators.map((collaborator) => [
+        {
+          text:
+            collaborator.user_full_name ||
+            collaborator.user?.full_name ||
+            collaborator.user_email ||
+            collaborator.user?.email ||
+            collaborator.user_id,
+          options: { bold: true },
+        },
+        { text: `Permission: ${collaborator.permission_level}` },
+      ]),
+    ]
+
+    slide.addTable(rows, {
+      x: MARGIN,
+      y: 1.4,
+      w: 8,
+      colW: [3.5, 4.5],
+      fontSize: 14,
+      color: toHex(this.theme.colors.text),
+      border: { type: 'solid', pt: 1, color: toHex(this.theme.colors.border) },
+    })
+
+    if (collaborators.length === 0) {
+      slide.addText(
+        'This project may have collaborators with various permission levels',
+        {
+          x: MARGIN,
+          y: 2.4,
+          w: 8,
+          h: 0.5,
+          italic: true,
+          fontSize: 12,
+          color: toHex(this.theme.colors.textLight),
+        }
+      )
+    }
+  }
+
+  private addNotesSlide() {
+    const slide = this.addContentSlide('Project Notes & Next Steps')
+
+    const itemNotes = (this.project.items || [])
+      .filter((item) => item.notes?.trim())
+      .map((item) => ({
+        text: `${item.name || 'Item'}: ${item.notes!.trim()}`,
+        options: { bullet: true, breakLine: true },
+      }))
+
+    const partNotes = (this.project.items || []).flatMap((item) =>
+      this.getPartSections(item).flatMap((section) =>
+        section.parts
+          .filter((part) => part.notes)
+          .map((part) => ({
+            text: `${item.name || 'Item'} / ${part.name}: ${part.notes}`,
+            options: { bullet: true, breakLine: true },
+          }))
+      )
+    )
+
+    const actionItems = [
+      'Review project specifications',
+      'Finalize part details',
+      'Schedule project review',
+      'Prepare for production',
+    ].map((text) => ({ text, options: { bullet: true, breakLine: true } }))
+
+    const heading = (text: string) => ({
+      text,
+      options: { bold: true, breakLine: true, fontSize: 16 },
+    })
+    const sections = [
+      ...(itemNotes.length > 0 ? [heading('Item Notes'), ...itemNotes] : []),
+      ...(partNotes.length > 0 ? [heading('Part Notes'), ...partNotes] : []),
+    ]
+
+    slide.addText(
+      sections.length > 0
+        ? sections
+        : [heading('Action Items'), ...actionItems],
+      {
+        x: MARGIN,
+        y: 1.3,
+        w: SLIDE_WIDTH - MARGIN * 2,
+        h: SLIDE_HEIGHT - 2.1,
+        valign: 'top',
+        fontSize: 14,
+        color: toHex(this.theme.colors.text),
+      }
+    )
+  }
+}
+
+export function generatePptxPresentation(
+  project: Project,
+  options: ExportOptions,
+  onProgress?: (progress: PptxProgress) => void
+): Promise<Blob> {
+  const generator = new PptxPresentationGenerator(project, options, onProgress)
+  return generator.generate()
+}
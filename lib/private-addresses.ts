@@ -0,0 +1,130 @@
+/**
+ * Addresses the server must never be made to request on a user's behalf:
+ * loopback, private networks, link-local (which includes the cloud
+ * metadata service at 169.254.169.254) and other reserved ranges. Used to
+ * vet webhook URLs and images fetched for exports; see
+ * lib/outbound-fetch.ts for the DNS-resolving check.
+ */
+
+// [first address, prefix length]
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, cloud metadata
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // Documentation
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24], // Documentation
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved, broadcast
+]
+
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal']
+const BLOCKED_SUFFIXES = ['.localhost', '.local', '.internal']
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.')
+  if (parts.length !== 4) return null
+  let value = 0
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null
+    value = value * 256 + Number(part)
+  }
+  return value
+}
+
+function isPrivateIpv4(value: number): boolean {
+  return PRIVATE_IPV4_RANGES.some(([first, prefix]) => {
+    const size = 2 ** (32 - prefix)
+    return Math.floor(value / size) === Math.floor(parseIpv4(first)! / size)
+  })
+}
+
+// The eight 16-bit groups of an IPv6 address, or null if it isn't one
+function parseIpv6(address: string): number[] | null {
+  let text = address
+    .replace(/^\[|\]$/g, '')
+    .split('%')[0]
+    .toLowerCase()
+  if (!text.includes(':')) return null
+
+  // An embedded IPv4 tail, e.g. ::ffff:127.0.0.1
+  const tail = text.match(/:(\d+\.\d+\.\d+\.\d+)$/)
+  if (tail) {
+    const ipv4 = parseIpv4(tail[1])
+    if (ipv4 === null) return null
+    const high = Math.floor(ipv4 / 65536).toString(16)
+    const low = (ipv4 % 65536).toString(16)
+    text = `${text.slice(0, -tail[1].length)}${high}:${low}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(':') : []
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - rest.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+
+  const groups = [
+    ...head,
+    ...Array(halves.length === 2 ? missing : 0).fill('0'),
+    ...rest,
+  ]
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null
+  return groups.map((group) => parseInt(group, 16))
+}
+
+function isPrivateIpv6(groups: number[]): boolean {
+  const [first] = groups
+  const upperZero = groups.slice(0, 5).every((group) => group === 0)
+
+  // Unspecified (::) and loopback (::1)
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) {
+    return true
+  }
+  // IPv4-mapped (::ffff:0:0/96), and NAT64 (64:ff9b::/96): check the IPv4 part
+  if (
+    (upperZero && groups[5] === 0xffff) ||
+    (first === 0x64 &&
+      groups[1] === 0xff9b &&
+      groups.slice(2, 6).every((g) => g === 0))
+  ) {
+    return isPrivateIpv4(groups[6] * 65536 + groups[7])
+  }
+  return (
+    (first & 0xfe00) === 0xfc00 || // Unique local, incl. AWS metadata fd00:ec2::254
+    (first & 0xffc0) === 0xfe80 || // Link-local
+    (first & 0xff00) === 0xff00 || // Multicast
+    (first === 0x2001 && groups[1] === 0x0db8) // Documentation
+  )
+}
+
+/**
+ * Whether an IP address (v4 or v6) is loopback, private, link-local or
+ * otherwise not on the public internet. Anything that isn't an IP address
+ * is false.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address)
+  if (ipv4 !== null) return isPrivateIpv4(ipv4)
+  const ipv6 = parseIpv6(address)
+  return ipv6 !== null && isPrivateIpv6(ipv6)
+}
+
+/**
+ * Whether a URL's hostname is known to be internal without resolving it:
+ * a private IP literal or a local-only name
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+  return (
+    isPrivateAddress(host) ||
+    BLOCKED_HOSTNAMES.includes(host) ||
+    BLOCKED_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  )
+}
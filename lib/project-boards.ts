@@ -0,0 +1,260 @@
+import { supabaseAdmin } from './supaAdmin'
+import { ApiError } from './api-errors'
+import {
+  AccessibleProject,
+  AuthenticatedUser,
+  ProjectPermission,
+  hasPermission,
+  requireProjectAccess,
+} from './api-auth'
+import {
+  BoardEditPermission,
+  BoardList,
+  BoardViewPermission,
+  ProjectBoard,
+} from '../types'
+
+/**
+ * A project's whiteboards (see docs/add-multiple-boards.sql). Every project
+ * has a main board, whose board id is the project's id; it is created the
+ * first time the project's boards are asked for, and can't be deleted.
+ * More boards can be added, renamed, reordered and deleted. Each board
+ * names the least project permission needed to open it and to edit it;
+ * boards a user can't open are left out of their list and are "not found".
+ */
+
+export type BoardRecord = Omit<
+  ProjectBoard,
+  'board_snapshot' | 'last_seq' | 'snapshot_seq'
+>
+
+const BOARD_COLUMNS =
+  'id, project_id, name, position, view_permission, edit_permission, created_by, created_at, updated_at'
+
+const MAIN_BOARD_NAME = 'Main board'
+
+export function isMainBoard(board: Pick<ProjectBoard, 'id' | 'project_id'>) {
+  return board.id === board.project_id
+}
+
+export function canAccessBoard(
+  permission: ProjectPermission,
+  board: Pick<ProjectBoard, 'view_permission' | 'edit_permission'>,
+  required: 'view' | 'edit'
+): boolean {
+  return hasPermission(
+    permission,
+    required === 'view' ? board.view_permission : board.edit_permission
+  )
+}
+
+async function getBoards(projectId: string): Promise<BoardRecord[]> {
+  const { data, error } = await supabaseAdmin
+    .from('project_boards')
+    .select(BOARD_COLUMNS)
+    .eq('project_id', projectId)
+    .order('position')
+    .order('created_at')
+
+  if (error) throw error
+  return (data || []) as BoardRecord[]
+}
+
+async function getBoard(
+  projectId: string,
+  boardId: string
+): Promise<BoardRecord | null> {
+  const { data, error } = await supabaseAdmin
+    .from('project_boards')
+    .select(BOARD_COLUMNS)
+    .eq('id', boardId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as BoardRecord | null
+}
+
+// Two requests creating it at once make one board: the id is the project's
+async function createMainBoard(projectId: string) {
+  const { error } = await supabaseAdmin.from('project_boards').upsert(
+    {
+      id: projectId,
+      project_id: projectId,
+      name: MAIN_BOARD_NAME,
+      board_snapshot: {},
+    },
+    { onConflict: 'id', ignoreDuplicates: true }
+  )
+
+  if (error) throw error
+}
+
+/**
+ * The boards a user with `permission` on the project can open, in order
+ */
+export async function listBoards(
+  projectId: string,
+  permission: ProjectPermission
+): Promise<BoardList> {
+  let boards = await getBoards(projectId)
+  if (!boards.some(isMainBoard)) {
+    await createMainBoard(projectId)
+    boards = await getBoards(projectId)
+  }
+
+  return {
+    permission,
+    boards: boards
+      .filter((board) => canAccessBoard(permission, board, 'view'))
+      .map((board) => ({
+        ...board,
+        can_edit: canAccessBoard(permission, board, 'edit'),
+      })),
+  }
+}
+
+/**
+ * Load a board of a project the caller can access, checking the board's
+ * own permission as well as the project's
+ */
+export async function requireBoardAccess(
+  auth: AuthenticatedUser,
+  projectId: string,
+  boardId: string,
+  required: 'view' | 'edit' = 'view'
+): Promise<AccessibleProject & { board: BoardRecord }> {
+  const accessible = await requireProjectAccess(auth, projectId, 'view')
+
+  let board = await getBoard(projectId, boardId)
+  if (!board && boardId === projectId) {
+    await createMainBoard(projectId)
+    board = await getBoard(projectId, boardId)
+  }
+  if (!board || !canAccessBoard(accessible.permission, board, 'view')) {
+    throw new ApiError('not_found', 'Board not found or access denied')
+  }
+  if (
+    required === 'edit' &&
+    !canAccessBoard(accessible.permission, board, 'edit')
+  ) {
+    throw new ApiError(
+      'forbidden',
+      `Editing this board requires ${board.edit_permission} permission on the project`
+    )
+  }
+
+  return { ...accessible, board }
+}
+
+/**
+ * Add a board after the project's others
+ */
+export async function createBoard(
+  projectId: string,
+  userId: string,
+  name: string
+): Promise<BoardRecord> {
+  const boards = await getBoards(projectId)
+  const position =
+    boards.length > 0
+      ? Math.max(...boards.map((board) => board.position)) + 1
+      : 0
+
+  const { data, error } = await supabaseAdmin
+    .from('project_boards')
+    .insert({
+      project_id: projectId,
+      name,
+      position,
+      created_by: userId,
+      board_snapshot: {},
+    })
+    .select(BOARD_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return data as BoardRecord
+}
+
+/**
+ * Rename a board or change who can open and edit it
+ */
+export async function updateBoard(
+  board: BoardRecord,
+  changes: {
+    name?: string
+    view_permission?: BoardViewPermission
+    edit_permission?: BoardEditPermission
+  }
+): Promise<BoardRecord> {
+  const viewPermission = changes.view_permission || board.view_permission
+  const editPermission = changes.edit_permission || board.edit_permission
+  if (!hasPermission(editPermission, viewPermission)) {
+    throw new ApiError(
+      'validation_failed',
+      'Everyone who can edit a board must be able to open it'
+    )
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('project_boards')
+    .update(changes)
+    .eq('id', board.id)
+    .select(BOARD_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return data as BoardRecord
+}
+
+/**
+ * Put the listed boards in the given order. Boards left out, such as ones
+ * the user can't open, keep their places.
+ */
+export async function reorderBoards(
+  projectId: string,
+  boardIds: string[]
+): Promise<void> {
+  const boards = await getBoards(projectId)
+  const listed = new Set(boardIds)
+  const known = new Set(boards.map((board) => board.id))
+  const unknown = boardIds.find((id) => !known.has(id))
+  if (unknown || listed.size !== boardIds.length) {
+    throw new ApiError('validation_failed', 'Unknown or repeated board', {
+      board_id: unknown,
+    })
+  }
+
+  let next = 0
+  const order = boards.map((board) =>
+    listed.has(board.id) ? boardIds[next++] : board.id
+  )
+
+  const results = await Promise.all(
+    order.map((id, position) =>
+      boards.find((board) => board.id === id)!.position === position
+        ? null
+        : supabaseAdmin.from('project_boards').update({ position }).eq('id', id)
+    )
+  )
+  const failed = results.find((result) => result?.error)
+  if (failed?.error) throw failed.error
+}
+
+/**
+ * Delete a board with its operations and history. Its images stay in
+ * storage until the asset garbage collection finds them unused.
+ */
+export async function deleteBoard(board: BoardRecord): Promise<void> {
+  if (isMainBoard(board)) {
+    throw new ApiError('conflict', "The project's main board can't be deleted")
+  }
+
+  const { error } = await supabaseAdmin
+    .from('project_boards')
+    .delete()
+    .eq('id', board.id)
+
+  if (error) throw error
+}
@@ -0,0 +1,246 @@
+import { randomUUID } from 'crypto'
+import { supabaseAdmin } from './supaAdmin'
+import { ApiError } from './api-errors'
+import { AuthenticatedUser, ProjectPermission } from './api-auth'
+import { newId } from './project-tree'
+import {
+  collectItemAssetUrls,
+  copyProjectItems,
+  replaceStrings,
+} from './project-copy'
+import { isDerivativePath } from './image-derivatives'
+import { isContentPath, parseStorageUrl } from './asset-references'
+import { getBoardSnapshot } from './board-operations'
+import { canAccessBoard } from './project-boards'
+import { remapBoardLink } from './board-links'
+import { BoardElement, Project, ProjectBoard, UploadBucket } from '../types'
+
+/**
+ * "Create from existing project": a deep copy of a project and the boards
+ * the caller can see, owned by the caller. Content-addressed files are shared, garbage
+ * collection keeps them while either project uses them. Older files in the
+ * project-files and board-assets buckets are copied to paths under the new
+ * project so deleting either project never breaks the other.
+ */
+
+export interface CloneOverrides {
+  title: string
+  retailer: string
+  due_date: string | null
+}
+
+export interface CloneResult {
+  project: Project
+  /** Assets that couldn't be copied and still point at the source */
+  failedAssets: string[]
+}
+
+function collectStrings(value: unknown, into: Set<string>): Set<string> {
+  if (typeof value === 'string') into.add(value)
+  else if (Array.isArray(value)) value.forEach((v) => collectStrings(v, into))
+  else if (value && typeof value === 'object') {
+    Object.values(value).forEach((v) => collectStrings(v, into))
+  }
+  return into
+}
+
+function getTargetPath(
+  bucket: UploadBucket,
+  path: string,
+  projectId: string
+): string {
+  // Derivatives follow their original: derivatives/{original path}/{size}.{format}
+  if (isDerivativePath(path)) {
+    const segments = path.split('/')
+    const file = segments.pop()
+    const original = segments.slice(1).join('/')
+    return `derivatives/${getTargetPath(bucket, original, projectId)}/${file}`
+  }
+
+  const filename = path.split('/').pop()
+  // board-assets are organized as {projectId}/{filename} already
+  return bucket === 'board-assets'
+    ? `${projectId}/${filename}`
+    : `projects/${projectId}/${filename}`
+}
+
+/**
+ * Copy each storage asset to the new project's folder. Returns a map from
+ * old to new public URL; assets that fail to copy are left out of the map.
+ */
+async function copyAssets(
+  urls: string[],
+  projectId: string,
+  failed: string[]
+): Promise<Map<string, string>> {
+  const urlMap = new Map<string, string>()
+
+  for (const url of urls) {
+    const source = parseStorageUrl(url)
+    if (!source || isContentPath(source.path)) continue
+
+    const targetPath = getTargetPath(source.bucket, source.path, projectId)
+
+    const { error } = await supabaseAdmin.storage
+      .from(source.bucket)
+      .copy(source.path, targetPath)
+
+    if (error) {
+      console.error(`Failed to copy ${source.bucket}/${source.path}:`, error)
+      failed.push(url)
+      continue
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabaseAdmin.storage.from(source.bucket).getPublicUrl(targetPath)
+    urlMap.set(url, publicUrl)
+  }
+
+  return urlMap
+}
+
+/**
+ * The boards the caller can view, with their edits folded in so operations
+ * not yet compacted aren't left behind. The source boards themselves are
+ * only read: the caller may not be allowed to edit them.
+ */
+async function getSourceBoards(
+  projectId: string,
+  permission: ProjectPermission
+): Promise<
+  Pick<
+    ProjectBoard,
+    | 'id'
+    | 'name'
+    | 'position'
+    | 'view_permission'
+    | 'edit_permission'
+    | 'board_snapshot'
+  >[]
+> {
+  const { data, error } = await supabaseAdmin
+    .from('project_boards')
+    .select('id, name, position, view_permission, edit_permission')
+    .eq('project_id', projectId)
+
+  if (error) throw error
+
+  const boards = []
+  for (const board of data || []) {
+    if (!canAccessBoard(permission, board, 'view')) continue
+    boards.push({
+      ...board,
+      board_snapshot: { ...(await getBoardSnapshot(board.id)) },
+    })
+  }
+  return boards
+}
+
+function remapSnapshotLinks(
+  snapshot: Record<string, unknown>,
+  ids: Map<string, string>
+): Record<string, unknown> {
+  if (!Array.isArray(snapshot?.elements)) return snapshot
+  return {
+    ...snapshot,
+    elements: (snapshot.elements as BoardElement[]).map((element) =>
+      typeof element.link === 'string'
+        ? { ...element, link: remapBoardLink(element.link, ids) }
+        : element
+    ),
+  }
+}
+
+export async function cloneProject(
+  auth: AuthenticatedUser,
+  source: Project,
+  permission: ProjectPermission,
+  overrides: CloneOverrides
+): Promise<CloneResult> {
+  const projectId = randomUUID()
+  const failedAssets: string[] = []
+
+  const { items, idMap } = copyProjectItems(source.items, {
+    createId: newId,
+  })
+
+  const boards = await getSourceBoards(source.id, permission)
+  // The main board keeps the project's id as its id
+  const boardIds = new Map(
+    boards.map((board) => [
+      board.id,
+      board.id === source.id ? projectId : randomUUID(),
+    ])
+  )
+
+  const boardUrls = Array.from(
+    collectStrings(
+      boards.map((board) => board.board_snapshot),
+      new Set()
+    )
+  ).filter((value) => parseStorageUrl(value) !== null)
+
+  const urlMap = await copyAssets(
+    Array.from(new Set([...collectItemAssetUrls(items), ...boardUrls])),
+    projectId,
+    failedAssets
+  )
+
+  const { data: project, error } = await supabaseAdmin
+    .from('projects')
+    .insert([
+      {
+        id: projectId,
+        title: overrides.title,
+        retailer: overrides.retailer,
+        due_date: overrides.due_date,
+        items: replaceStrings(items, urlMap),
+        user_id: auth.user.id,
+      },
+    ])
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Supabase error:', error)
+    throw new ApiError('internal_error', 'Failed to create project')
+  }
+
+  if (boards.length > 0) {
+    // Board cards can reference item, version and part ids as well as assets
+    const replacements = new Map(
+      Array.from(idMap.entries()).concat(Array.from(urlMap.entries()))
+    )
+    // Links between boards and to items point into the copy
+    const linkIds = new Map(
+      Array.from(idMap.entries())
+        .concat(Array.from(boardIds.entries()))
+        .concat([[source.id, projectId]])
+    )
+    const { error: insertBoardError } = await supabaseAdmin
+      .from('project_boards')
+      .insert(
+        boards.map((board) => ({
+          id: boardIds.get(board.id),
+          project_id: projectId,
+          name: board.name,
+          position: board.position,
+          view_permission: board.view_permission,
+          edit_permission: board.edit_permission,
+          created_by: auth.user.id,
+          board_snapshot: remapSnapshotLinks(
+            replaceStrings(board.board_snapshot, replacements),
+            linkIds
+          ),
+        }))
+      )
+
+    if (insertBoardError) {
+      // The project itself is usable; the boards can be rebuilt from it
+      console.error('Failed to copy project boards:', insertBoardError)
+    }
+  }
+
+  return { project, failedAssets }
+}
@@ -0,0 +1,182 @@
+import { Item, ItemImage, Part, PartGroup, Version } from '../types'
+import { getDerivativeUrls } from './image-derivatives'
+
+/**
+ * Copy a project's items with fresh ids for items, versions, parts, groups
+ * and annotation points, keeping every reference between them (a part's
+ * `groupId`, an annotation that shares its part's id) pointing at the copy.
+ *
+ * Used for project templates (skeleton copies) and "create from existing
+ * project" clones. Ids come from the caller so the same code runs in the
+ * browser and on the server.
+ */
+
+export type CopyIdPrefix = 'item' | 'version' | 'part' | 'group' | 'annotation'
+
+export interface CopyItemsOptions {
+  createId: (prefix: CopyIdPrefix) => string
+  /**
+   * Keep only the structure: names, versions, part lists and groups.
+   * Images, files and annotation positions are left out.
+   */
+  skeleton?: boolean
+}
+
+export interface CopiedItems {
+  items: Item[]
+  /** Old id to new id, for rewriting references outside the items */
+  idMap: Map<string, string>
+}
+
+// A copy starts its own review cycle
+function withoutStatus<T extends Part | Version>(entry: T): T {
+  delete entry.status
+  delete entry.status_updated_at
+  delete entry.status_updated_by
+  return entry
+}
+
+export function copyProjectItems(
+  items: Item[],
+  { createId, skeleton = false }: CopyItemsOptions
+): CopiedItems {
+  const idMap = new Map<string, string>()
+  const now = new Date().toISOString()
+
+  const mapId = (oldId: string | undefined, prefix: CopyIdPrefix) => {
+    if (!oldId) return createId(prefix)
+    const existing = idMap.get(oldId)
+    if (existing) return existing
+    const id = createId(prefix)
+    idMap.set(oldId, id)
+    return id
+  }
+
+  // Groups first so parts can point at the new group ids
+  const copyGroups = (groups: PartGroup[]) =>
+    groups.map((group) => ({
+      ...group,
+      id: mapId(group.id, 'group'),
+      created_at: now,
+    }))
+
+  const copyPart = (part: Part): Part => {
+    const copy: Part = withoutStatus({ ...part, id: mapId(part.id, 'part') })
+
+    if (part.groupId) {
+      copy.groupId = idMap.get(part.groupId) || part.groupId
+    }
+
+    if (skeleton) {
+      delete copy.annotation_data
+      delete copy.image_annotations
+      delete copy.x
+      delete copy.y
+      copy.files = []
+    } else {
+      if (part.annotation_data) {
+        copy.annotation_data = {
+          ...part.annotation_data,
+          id: mapId(part.annotation_data.id, 'annotation'),
+        }
+      }
+      // Image ids are local to the item, so only the points change
+      if (part.image_annotations) {
+        const points = part.image_annotations
+        copy.image_annotations = {}
+        Object.keys(points).forEach((imageId) => {
+          copy.image_annotations![imageId] = {
+            ...points[imageId],
+            id: mapId(points[imageId].id, 'annotation'),
+          }
+        })
+      }
+    }
+
+    return copy
+  }
+
+  const copyVersion = (version: Version): Version => {
+    const copy = withoutStatus({
+      ...version,
+      id: mapId(version.id, 'version'),
+      created_at: now,
+      parts: (version.parts || []).map(copyPart),
+    })
+    if (skeleton) delete copy.images
+    return copy
+  }
+
+  const copied = items.map((item) => {
+    const copy: Item = { ...item, id: mapId(item.id, 'item') }
+    if (item.groups) copy.groups = copyGroups(item.groups)
+    if (item.parts) copy.parts = item.parts.map(copyPart)
+    if (item.versions) copy.versions = item.versions.map(copyVersion)
+    if (skeleton) {
+      copy.hero_image = ''
+      delete copy.images
+      delete copy.custom_logo
+    }
+    return copy
+  })
+
+  return { items: copied, idMap }
+}
+
+/**
+ * Replace every string in a JSON value that's a key of `replacements`,
+ * e.g. asset URLs and element ids inside a board snapshot
+ */
+export function replaceStrings<T>(
+  value: T,
+  replacements: Map<string, string>
+): T {
+  if (replacements.size === 0) return value
+
+  const walk = (node: unknown): unknown => {
+    if (typeof node === 'string') return replacements.get(node) ?? node
+    if (Array.isArray(node)) return node.map(walk)
+    if (node && typeof node === 'object') {
+      const copy: Record<string, unknown> = {}
+      Object.keys(node).forEach((key) => {
+        copy[key] = walk((node as Record<string, unknown>)[key])
+      })
+      return copy
+    }
+    return node
+  }
+
+  return walk(value) as T
+}
+
+/**
+ * Every image and file URL referenced by the items
+ */
+export function collectItemAssetUrls(items: Item[]): string[] {
+  const urls = new Set<string>()
+  const addParts = (parts: Part[] | undefined) =>
+    (parts || []).forEach((part) =>
+      (part.files || []).forEach((url) => url && urls.add(url))
+    )
+
+  const addImages = (images: ItemImage[] | undefined) =>
+    (images || []).forEach((image) => {
+      urls.add(image.url)
+      if (image.derivatives) {
+        getDerivativeUrls(image.derivatives).forEach((url) => urls.add(url))
+      }
+    })
+
+  items.forEach((item) => {
+    if (item.hero_image) urls.add(item.hero_image)
+    addImages(item.images)
+    if (item.custom_logo) urls.add(item.custom_logo)
+    addParts(item.parts)
+    ;(item.versions || []).forEach((version) => {
+      addImages(version.images)
+      addParts(version.parts)
+    })
+  })
+
+  return Array.from(urls)
+}
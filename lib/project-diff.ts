@@ -0,0 +1,687 @@
+import {
+  Item,
+  ItemImage,
+  Part,
+  PartAnnotation,
+  PartGroup,
+  Project,
+  Version,
+} from '../types'
+import { getStatus, statusLabel } from './status-workflow'
+import { getImageLabel, getItemImages } from './item-images'
+import { getLogoLabel, getPackagingLabel } from './item-details'
+
+/**
+ * Structured diff between two Project snapshots (e.g. the
+ * `previous_data` / `new_data` of a project log). Compares item → version →
+ * part, matching entries by id first and falling back to name or version
+ * number for older data saved without ids.
+ */
+
+export type DiffKind = 'added' | 'removed' | 'modified' | 'unchanged'
+
+export interface FieldChange {
+  field: string
+  label: string
+  from: string | null
+  to: string | null
+}
+
+export interface PartDiff {
+  key: string
+  kind: DiffKind
+  before: Part | null
+  after: Part | null
+  changes: FieldChange[]
+  /** Reordered relative to the other parts in the version */
+  moved: boolean
+}
+
+export interface VersionDiff {
+  key: string
+  kind: DiffKind
+  label: string
+  before: Version | null
+  after: Version | null
+  changes: FieldChange[]
+  parts: PartDiff[]
+}
+
+export interface GroupDiff {
+  key: string
+  kind: DiffKind
+  before: PartGroup | null
+  after: PartGroup | null
+  changes: FieldChange[]
+}
+
+export interface ItemDiff {
+  key: string
+  kind: DiffKind
+  name: string
+  before: Item | null
+  after: Item | null
+  changes: FieldChange[]
+  versions: VersionDiff[]
+  groups: GroupDiff[]
+}
+
+export interface DiffStats {
+  itemsAdded: number
+  itemsRemoved: number
+  itemsModified: number
+  versionsAdded: number
+  versionsRemoved: number
+  partsAdded: number
+  partsRemoved: number
+  partsModified: number
+  partsMoved: number
+}
+
+export interface ProjectDiff {
+  changes: FieldChange[]
+  items: ItemDiff[]
+  stats: DiffStats
+}
+
+// Annotation markers are stored as percentages; ignore sub-0.1% jitter
+const ANNOTATION_TOLERANCE = 0.1
+
+type KeyFn<T> = (entry: T, index: number) => string | undefined
+
+/**
+ * Pair up entries of two lists. Each key function is tried in turn on the
+ * entries still unmatched. Returns [beforeIndex, afterIndex] pairs in a
+ * display order that follows `after`, with removed entries placed after
+ * their former neighbour.
+ */
+function matchEntries<T>(
+  before: T[],
+  after: T[],
+  keyFns: KeyFn<T>[]
+): [number | null, number | null][] {
+  const afterForBefore = new Map<number, number>()
+  const matchedAfter = new Set<number>()
+
+  for (const keyFn of keyFns) {
+    const available = new Map<string, number[]>()
+    after.forEach((entry, j) => {
+      if (matchedAfter.has(j)) return
+      const key = keyFn(entry, j)
+      if (!key) return
+      available.set(key, [...(available.get(key) || []), j])
+    })
+
+    before.forEach((entry, i) => {
+      if (afterForBefore.has(i)) return
+      const key = keyFn(entry, i)
+      const candidates = key ? available.get(key) : undefined
+      if (!candidates || candidates.length === 0) return
+      const j = candidates.shift()!
+      afterForBefore.set(i, j)
+      matchedAfter.add(j)
+    })
+  }
+
+  const pairs: [number | null, number | null][] = after.map((_, j) => {
+    const entry = Array.from(afterForBefore.entries()).find(
+      ([, matched]) => matched === j
+    )
+    return [entry ? entry[0] : null, j]
+  })
+
+  before.forEach((_, i) => {
+    if (afterForBefore.has(i)) return
+    // Insert after the closest earlier entry that still exists
+    let anchor = -1
+    for (let k = i - 1; k >= 0; k--) {
+      if (afterForBefore.has(k)) {
+        anchor = pairs.findIndex(([b]) => b === k)
+        break
+      }
+      const removedAt = pairs.findIndex(([b, a]) => b === k && a === null)
+      if (removedAt !== -1) {
+        anchor = removedAt
+        break
+      }
+    }
+    pairs.splice(anchor + 1, 0, [i, null])
+  })
+
+  return pairs
+}
+
+/**
+ * Indexes (into `sequence`) that are not part of its longest increasing
+ * subsequence, i.e. the smallest set of entries that must have moved
+ */
+function outOfOrder(sequence: number[]): Set<number> {
+  const tails: number[] = []
+  const tailIndex: number[] = []
+  const previous: number[] = new Array(sequence.length).fill(-1)
+
+  sequence.forEach((value, i) => {
+    let lo = 0
+    let hi = tails.length
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (tails[mid] < value) lo = mid + 1
+      else hi = mid
+    }
+    tails[lo] = value
+    tailIndex[lo] = i
+    previous[i] = lo > 0 ? tailIndex[lo - 1] : -1
+  })
+
+  const inOrder = new Set<number>()
+  let k = tails.length > 0 ? tailIndex[tails.length - 1] : -1
+  while (k !== -1) {
+    inOrder.add(k)
+    k = previous[k]
+  }
+
+  return new Set(sequence.map((_, i) => i).filter((i) => !inOrder.has(i)))
+}
+
+function fieldChange(
+  field: string,
+  label: string,
+  from: string | null | undefined,
+  to: string | null | undefined
+): FieldChange | null {
+  const a = from ?? null
+  const b = to ?? null
+  return (a || null) === (b || null) ? null : { field, label, from: a, to: b }
+}
+
+function compact(changes: (FieldChange | null)[]): FieldChange[] {
+  return changes.filter((change): change is FieldChange => change !== null)
+}
+
+function formatPoint(point: PartAnnotation | undefined): string | null {
+  if (!point) return null
+  return `${point.x.toFixed(1)}%, ${point.y.toFixed(1)}%`
+}
+
+function samePoint(
+  a: PartAnnotation | undefined,
+  b: PartAnnotation | undefined
+): boolean {
+  if (!a || !b) return !a && !b
+  return (
+    Math.abs(a.x - b.x) < ANNOTATION_TOLERANCE &&
+    Math.abs(a.y - b.y) < ANNOTATION_TOLERANCE
+  )
+}
+
+function annotationChange(before: Part, after: Part): FieldChange | null {
+  if (samePoint(before.annotation_data, after.annotation_data)) return null
+  return {
+    field: 'annotation',
+    label: 'Annotation',
+    from: formatPoint(before.annotation_data),
+    to: formatPoint(after.annotation_data),
+  }
+}
+
+function formatImageAnnotations(
+  points: Record<string, PartAnnotation> | undefined,
+  imageIds: string[]
+): string | null {
+  const placed = imageIds.filter((imageId) => points?.[imageId])
+  if (placed.length === 0) return null
+  return placed
+    .map((imageId) => `${imageId}: ${formatPoint(points![imageId])}`)
+    .join('; ')
+}
+
+// Markers on the images other than the primary one
+function imageAnnotationsChange(before: Part, after: Part): FieldChange | null {
+  const imageIds = Array.from(
+    new Set([
+      ...Object.keys(before.image_annotations || {}),
+      ...Object.keys(after.image_annotations || {}),
+    ])
+  ).sort()
+  if (
+    imageIds.every((imageId) =>
+      samePoint(
+        before.image_annotations?.[imageId],
+        after.image_annotations?.[imageId]
+      )
+    )
+  ) {
+    return null
+  }
+  return {
+    field: 'image_annotations',
+    label: 'Other image markers',
+    from: formatImageAnnotations(before.image_annotations, imageIds),
+    to: formatImageAnnotations(after.image_annotations, imageIds),
+  }
+}
+
+function groupName(groups: PartGroup[] | undefined, groupId?: string) {
+  if (!groupId) return null
+  return groups?.find((group) => group.id === groupId)?.name || groupId
+}
+
+function diffPart(
+  before: Part,
+  after: Part,
+  beforeGroups: PartGroup[] | undefined,
+  afterGroups: PartGroup[] | undefined
+): FieldChange[] {
+  return compact([
+    fieldChange('name', 'Name', before.name, after.name),
+    fieldChange('finish', 'Finish', before.finish, after.finish),
+    fieldChange('color', 'Color', before.color, after.color),
+    fieldChange('texture', 'Texture', before.texture, after.texture),
+    fieldChange(
+      'material_id',
+      'Material',
+      before.material_id,
+      after.material_id
+    ),
+    fieldChange('notes', 'Notes', before.notes, after.notes),
+    fieldChange(
+      'status',
+      'Status',
+      statusLabel(getStatus(before)),
+      statusLabel(getStatus(after))
+    ),
+    fieldChange(
+      'group',
+      'Group',
+      groupName(beforeGroups, before.groupId),
+      groupName(afterGroups, after.groupId)
+    ),
+    fieldChange(
+      'files',
+      'Files',
+      before.files?.length ? `${before.files.length} file(s)` : null,
+      after.files?.length ? `${after.files.length} file(s)` : null
+    ),
+    annotationChange(before, after),
+    imageAnnotationsChange(before, after),
+  ])
+}
+
+function partKey(part: Part | null, fallback: string): string {
+  return part?.id || fallback
+}
+
+function diffParts(
+  beforeParts: Part[],
+  afterParts: Part[],
+  beforeGroups: PartGroup[] | undefined,
+  afterGroups: PartGroup[] | undefined
+): PartDiff[] {
+  const pairs = matchEntries(beforeParts, afterParts, [
+    (part) => part.id,
+    (part) => part.annotation_data?.id,
+    (part) => part.name?.trim().toLowerCase() || undefined,
+  ])
+
+  const matched = pairs.filter(
+    (pair): pair is [number, number] => pair[0] !== null && pair[1] !== null
+  )
+  const moved = outOfOrder(
+    [...matched].sort((x, y) => x[0] - y[0]).map(([, j]) => j)
+  )
+  const movedAfterIndexes = new Set(
+    [...matched]
+      .sort((x, y) => x[0] - y[0])
+      .filter((_, index) => moved.has(index))
+      .map(([, j]) => j)
+  )
+
+  return pairs.map(([i, j], index) => {
+    const before = i !== null ? beforeParts[i] : null
+    const after = j !== null ? afterParts[j] : null
+    const key = partKey(after || before, `part-${index}`)
+
+    if (!before) {
+      return { key, kind: 'added', before, after, changes: [], moved: false }
+    }
+    if (!after) {
+      return { key, kind: 'removed', before, after, changes: [], moved: false }
+    }
+
+    const changes = diffPart(before, after, beforeGroups, afterGroups)
+    const isMoved = movedAfterIndexes.has(j!)
+    return {
+      key,
+      kind: changes.length > 0 || isMoved ? 'modified' : 'unchanged',
+      before,
+      after,
+      changes,
+      moved: isMoved,
+    }
+  })
+}
+
+/**
+ * Part-by-part comparison of two versions of the same item, e.g. V1 against
+ * the V2 renders
+ */
+export function compareVersions(
+  before: Version,
+  after: Version,
+  groups?: PartGroup[]
+): PartDiff[] {
+  return diffParts(before.parts || [], after.parts || [], groups, groups)
+}
+
+function formatImages(images: ItemImage[] | undefined): string | null {
+  if (!images || images.length === 0) return null
+  return images
+    .map((image) => `${getImageLabel(image)} (${image.url.split('/').pop()})`)
+    .join(', ')
+}
+
+/**
+ * Legacy items keep parts on the item; treat them as version 1 so they
+ * line up with the same item after it was migrated to versions
+ */
+export function itemVersions(item: Item): Version[] {
+  if (item.versions && item.versions.length > 0) return item.versions
+  if (item.parts && item.parts.length > 0) {
+    return [{ id: '', versionNumber: 1, parts: item.parts }]
+  }
+  return []
+}
+
+function versionLabel(version: Version): string {
+  return version.versionName
+    ? `Version ${version.versionNumber} — ${version.versionName}`
+    : `Version ${version.versionNumber}`
+}
+
+function diffVersions(before: Item | null, after: Item | null): VersionDiff[] {
+  const beforeVersions = before ? itemVersions(before) : []
+  const afterVersions = after ? itemVersions(after) : []
+
+  const pairs = matchEntries(beforeVersions, afterVersions, [
+    (version) => version.id || undefined,
+    (version) => String(version.versionNumber),
+  ])
+
+  return pairs.map(([i, j], index) => {
+    const beforeVersion = i !== null ? beforeVersions[i] : null
+    const afterVersion = j !== null ? afterVersions[j] : null
+    const version = (afterVersion || beforeVersion)!
+    const parts = diffParts(
+      beforeVersion?.parts || [],
+      afterVersion?.parts || [],
+      before?.groups,
+      after?.groups
+    )
+    const changes =
+      beforeVersion && afterVersion
+        ? compact([
+            fieldChange(
+              'versionName',
+              'Name',
+              beforeVersion.versionName,
+              afterVersion.versionName
+            ),
+            fieldChange(
+              'status',
+              'Status',
+              statusLabel(getStatus(beforeVersion)),
+              statusLabel(getStatus(afterVersion))
+            ),
+            fieldChange(
+              'images',
+              'Images',
+              formatImages(beforeVersion.images),
+              formatImages(afterVersion.images)
+            ),
+          ])
+        : []
+
+    let kind: DiffKind = 'unchanged'
+    if (!beforeVersion) kind = 'added'
+    else if (!afterVersion) kind = 'removed'
+    else if (
+      changes.length > 0 ||
+      parts.some((part) => part.kind !== 'unchanged')
+    ) {
+      kind = 'modified'
+    }
+
+    return {
+      key: version.id || `version-${version.versionNumber}-${index}`,
+      kind,
+      label: versionLabel(version),
+      before: beforeVersion,
+      after: afterVersion,
+      changes,
+      parts,
+    }
+  })
+}
+
+function diffGroups(before: Item | null, after: Item | null): GroupDiff[] {
+  const beforeGroups = before?.groups || []
+  const afterGroups = after?.groups || []
+
+  const pairs = matchEntries(beforeGroups, afterGroups, [
+    (group) => group.id,
+    (group) => group.name,
+  ])
+
+  return pairs.map(([i, j]) => {
+    const beforeGroup = i !== null ? beforeGroups[i] : null
+    const afterGroup = j !== null ? afterGroups[j] : null
+    const changes =
+      beforeGroup && afterGroup
+        ? compact([
+            fieldChange('name', 'Name', beforeGroup.name, afterGroup.name),
+            fieldChange('color', 'Color', beforeGroup.color, afterGroup.color),
+            fieldChange(
+              'description',
+              'Description',
+              beforeGroup.description,
+              afterGroup.description
+            ),
+          ])
+        : []
+
+    return {
+      key: (afterGroup || beforeGroup)!.id,
+      kind: !beforeGroup
+        ? 'added'
+        : !afterGroup
+          ? 'removed'
+          : changes.length > 0
+            ? 'modified'
+            : 'unchanged',
+      before: beforeGroup,
+      after: afterGroup,
+      changes,
+    }
+  })
+}
+
+function formatPackaging(item: Item): string | null {
+  if (!item.needs_packaging) return null
+  return getPackagingLabel(item.packaging_type) || 'Required'
+}
+
+// Packaging, logo and notes (lib/item-details.ts)
+function diffItemDetails(before: Item, after: Item): (FieldChange | null)[] {
+  return [
+    fieldChange(
+      'packaging',
+      'Packaging',
+      formatPackaging(before),
+      formatPackaging(after)
+    ),
+    fieldChange(
+      'logo',
+      'Logo',
+      before.needs_logo ? getLogoLabel(before) : null,
+      after.needs_logo ? getLogoLabel(after) : null
+    ),
+    fieldChange(
+      'custom_logo',
+      'Custom logo',
+      before.custom_logo,
+      after.custom_logo
+    ),
+    fieldChange('notes', 'Notes', before.notes, after.notes),
+  ]
+}
+
+function diffItem(
+  before: Item | null,
+  after: Item | null,
+  index: number
+): ItemDiff {
+  const versions = diffVersions(before, after)
+  const groups = diffGroups(before, after)
+  const changes =
+    before && after
+      ? compact([
+          fieldChange('name', 'Name', before.name, after.name),
+          fieldChange(
+            'images',
+            'Images',
+            formatImages(getItemImages(before)),
+            formatImages(getItemImages(after))
+          ),
+          ...diffItemDetails(before, after),
+        ])
+      : []
+
+  let kind: DiffKind = 'unchanged'
+  if (!before) kind = 'added'
+  else if (!after) kind = 'removed'
+  else if (
+    changes.length > 0 ||
+    versions.some((version) => version.kind !== 'unchanged') ||
+    groups.some((group) => group.kind !== 'unchanged')
+  ) {
+    kind = 'modified'
+  }
+
+  const item = (after || before)!
+  return {
+    key: item.id || `item-${index}`,
+    kind,
+    name: item.name || 'Untitled item',
+    before,
+    after,
+    changes,
+    versions,
+    groups,
+  }
+}
+
+function countStats(items: ItemDiff[]): DiffStats {
+  const stats: DiffStats = {
+    itemsAdded: 0,
+    itemsRemoved: 0,
+    itemsModified: 0,
+    versionsAdded: 0,
+    versionsRemoved: 0,
+    partsAdded: 0,
+    partsRemoved: 0,
+    partsModified: 0,
+    partsMoved: 0,
+  }
+
+  for (const item of items) {
+    if (item.kind === 'added') stats.itemsAdded++
+    if (item.kind === 'removed') stats.itemsRemoved++
+    if (item.kind === 'modified') stats.itemsModified++
+    // Parts inside an added or removed item are counted with the item
+    if (item.kind !== 'modified') continue
+
+    for (const version of item.versions) {
+      if (version.kind === 'added') stats.versionsAdded++
+      if (version.kind === 'removed') stats.versionsRemoved++
+      if (version.kind !== 'modified') continue
+
+      for (const part of version.parts) {
+        if (part.kind === 'added') stats.partsAdded++
+        if (part.kind === 'removed') stats.partsRemoved++
+        if (part.kind === 'modified' && part.changes.length > 0) {
+          stats.partsModified++
+        }
+        if (part.moved) stats.partsMoved++
+      }
+    }
+  }
+
+  return stats
+}
+
+export function diffProjects(before: Project, after: Project): ProjectDiff {
+  const beforeItems = before.items || []
+  const afterItems = after.items || []
+
+  const pairs = matchEntries(beforeItems, afterItems, [
+    (item) => item.id,
+    (item) => item.name?.trim().toLowerCase() || undefined,
+  ])
+
+  const items = pairs.map(([i, j], index) =>
+    diffItem(
+      i !== null ? beforeItems[i] : null,
+      j !== null ? afterItems[j] : null,
+      index
+    )
+  )
+
+  return {
+    changes: compact([
+      fieldChange('title', 'Title', before.title, after.title),
+      fieldChange('retailer', 'Retailer', before.retailer, after.retailer),
+      fieldChange('due_date', 'Due date', before.due_date, after.due_date),
+    ]),
+    items,
+    stats: countStats(items),
+  }
+}
+
+export function hasDifferences(diff: ProjectDiff): boolean {
+  return (
+    diff.changes.length > 0 ||
+    diff.items.some((item) => item.kind !== 'unchanged')
+  )
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * One-line summary for the history list, e.g. "2 parts added, 1 part edited"
+ */
+export function summarizeDiff(diff: ProjectDiff): string {
+  const { stats } = diff
+  const parts = [
+    ...diff.changes.map((change) => `${change.label} changed`),
+    stats.itemsAdded && `${plural(stats.itemsAdded, 'item')} added`,
+    stats.itemsRemoved && `${plural(stats.itemsRemoved, 'item')} removed`,
+    stats.versionsAdded && `${plural(stats.versionsAdded, 'version')} added`,
+    stats.versionsRemoved &&
+      `${plural(stats.versionsRemoved, 'version')} removed`,
+    stats.partsAdded && `${plural(stats.partsAdded, 'part')} added`,
+    stats.partsRemoved && `${plural(stats.partsRemoved, 'part')} removed`,
+    stats.partsModified && `${plural(stats.partsModified, 'part')} edited`,
+    stats.partsMoved && `${plural(stats.partsMoved, 'part')} reordered`,
+  ].filter(Boolean) as string[]
+
+  if (parts.length === 0) {
+    // Only item-level fields such as names, images, details or groups changed
+    return stats.itemsModified > 0
+      ? `${plural(stats.itemsModified, 'item')} edited`
+      : 'No differences'
+  }
+
+  return parts.join(', ')
+}
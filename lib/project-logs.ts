@@ -0,0 +1,43 @@
+import { Project, ProjectLog } from '../types'
+
+/**
+ * Whether an update touched anything recorded by a `project_updated` log.
+ * Due date changes are logged separately as `due_date_updated`.
+ */
+export function hasContentChanges(previous: Project, next: Project): boolean {
+  return (
+    previous.title !== next.title ||
+    previous.retailer !== next.retailer ||
+    JSON.stringify(previous.items) !== JSON.stringify(next.items)
+  )
+}
+
+/**
+ * Details for a `project_updated` log entry. The full snapshots make the
+ * entry restorable from Project History.
+ */
+export function buildProjectUpdateDetails(
+  previous: Project,
+  next: Project
+): ProjectLog['details'] {
+  return {
+    previous_data: previous,
+    new_data: next,
+    changes: {
+      ...(previous.title !== next.title
+        ? { title: { from: previous.title, to: next.title } }
+        : {}),
+      ...(previous.retailer !== next.retailer
+        ? { retailer: { from: previous.retailer, to: next.retailer } }
+        : {}),
+      ...(previous.items.length !== next.items.length
+        ? {
+            items_count: {
+              from: previous.items.length,
+              to: next.items.length,
+            },
+          }
+        : {}),
+    },
+  }
+}
@@ -0,0 +1,232 @@
+import { Item, Part, Project, Version } from '../types'
+
+/**
+ * Versioned project document schema. `projects.items` has been saved in
+ * several shapes over time (parts directly on the item, missing ids, legacy
+ * `x`/`y` annotation positions). Stored JSON is upgraded on read by running
+ * every migration above the document's `schema_version`, so the rest of the
+ * app only sees the current shape. `npm run backfill-schema` writes the
+ * upgraded documents back (see docs/add-project-schema-version.sql).
+ *
+ * Migrations are pure and deterministic: the same stored document always
+ * upgrades to the same ids, so reading a project twice before it's saved
+ * doesn't change what comments, approvals or links point at. Saves stamp
+ * `schema_version` with CURRENT_SCHEMA_VERSION (lib/project-store.ts), so
+ * stored rows are only upgraded once. Snapshots in `project_logs` carry no
+ * version and are upgraded from version 1 when restored, so each step must
+ * also leave documents already in its shape unchanged.
+ */
+
+export interface Migration {
+  /** Schema version the documents are at after this step */
+  version: number
+  description: string
+  up: (items: Item[]) => Item[]
+}
+
+/** Items as stored; documents before version 2 may lack ids */
+export type StoredItem = Omit<Item, 'id'> & { id?: string }
+
+/** Documents without a `schema_version` were saved before versioning */
+export const INITIAL_SCHEMA_VERSION = 1
+
+function mapParts(item: Item, update: (parts: Part[]) => Part[]): Item {
+  return {
+    ...item,
+    ...(item.parts && { parts: update(item.parts) }),
+    ...(item.versions && {
+      versions: item.versions.map((version) => ({
+        ...version,
+        parts: update(version.parts || []),
+      })),
+    }),
+  }
+}
+
+/**
+ * 1 → 2: every item, version and part has an id. Ids are derived from the
+ * position in the document so they're stable until the project is saved.
+ */
+function assignIds(items: StoredItem[]): Item[] {
+  return items.map((item, itemIndex) => {
+    const itemId = item.id || `item-legacy-${itemIndex + 1}`
+    const withPartIds = (prefix: string) => (parts: Part[]) =>
+      parts.map((part, partIndex) =>
+        part.id ? part : { ...part, id: `${prefix}-part-${partIndex + 1}` }
+      )
+
+    return {
+      ...item,
+      id: itemId,
+      ...(item.parts && { parts: withPartIds(itemId)(item.parts) }),
+      ...(item.versions && {
+        versions: item.versions.map((version, versionIndex) => {
+          const versionId =
+            version.id || `${itemId}-version-${versionIndex + 1}`
+          return {
+            ...version,
+            id: versionId,
+            parts: withPartIds(versionId)(version.parts || []),
+          }
+        }),
+      }),
+    }
+  })
+}
+
+/**
+ * 2 → 3: parts live in versions. Legacy `item.parts` become "Version 1";
+ * when an item has both, consumers only ever showed the versions, so the
+ * legacy list is dropped.
+ */
+function moveLegacyParts(items: Item[]): Item[] {
+  return items.map((item) => {
+    const { parts, ...rest } = item
+    if (item.versions && item.versions.length > 0) return rest
+    if (!parts || parts.length === 0) return { ...rest, versions: [] }
+
+    const version: Version = {
+      id: `${item.id}-version-1`,
+      versionNumber: 1,
+      parts,
+    }
+    return { ...rest, versions: [version] }
+  })
+}
+
+/**
+ * 3 → 4: annotation positions live in `annotation_data`. Parts placed
+ * before it existed kept `x`/`y` (percentages) on the part itself.
+ */
+function moveAnnotationPositions(items: Item[]): Item[] {
+  return items.map((item) =>
+    mapParts(item, (parts) =>
+      parts.map((part) => {
+        if (part.x === undefined && part.y === undefined) return part
+        const { x, y, ...rest } = part
+        if (
+          rest.annotation_data ||
+          typeof x !== 'number' ||
+          typeof y !== 'number'
+        ) {
+          return rest
+        }
+        return { ...rest, annotation_data: { x, y, id: rest.id! } }
+      })
+    )
+  )
+}
+
+/**
+ * 4 → 5: versions without their own images inherit the item's, so a
+ * version annotated on the hero image keeps resolving to it and its
+ * `annotation_data` stays valid. Earlier builds of this step copied the
+ * hero image into every version; those copies are dropped again so the
+ * version follows the item's image set.
+ */
+function inheritHeroImages(items: Item[]): Item[] {
+  return items.map((item) => {
+    if (!item.hero_image || !item.versions) return item
+    return {
+      ...item,
+      versions: item.versions.map((version) => {
+        const [image, ...others] = version.images || []
+        const isHeroCopy =
+          image &&
+          others.length === 0 &&
+          image.id === `${version.id}-image-1` &&
+          image.url === item.hero_image
+        if (!isHeroCopy) return version
+        const { images: _images, ...rest } = version
+        return rest
+      }),
+    }
+  })
+}
+
+/**
+ * 5 → 6: items have an ordered set of images. The hero image becomes the
+ * first (front) one, which versions without images of their own inherit.
+ */
+function addItemImages(items: Item[]): Item[] {
+  return items.map((item) =>
+    item.images || !item.hero_image
+      ? item
+      : {
+          ...item,
+          images: [
+            { id: `${item.id}-image-1`, url: item.hero_image, angle: 'front' },
+          ],
+        }
+  )
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Assign ids to items, versions and parts',
+    up: assignIds,
+  },
+  {
+    version: 3,
+    description: 'Move legacy item parts into versions',
+    up: moveLegacyParts,
+  },
+  {
+    version: 4,
+    description: 'Move part x/y into annotation_data',
+    up: moveAnnotationPositions,
+  },
+  {
+    version: 5,
+    description: 'Let versions inherit the item hero image',
+    up: inheritHeroImages,
+  },
+  {
+    version: 6,
+    description: 'Turn the item hero image into an image set',
+    up: addItemImages,
+  },
+]
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+export function getSchemaVersion(document: {
+  schema_version?: number | null
+}): number {
+  return document.schema_version ?? INITIAL_SCHEMA_VERSION
+}
+
+export function needsMigration(document: {
+  schema_version?: number | null
+}): boolean {
+  return getSchemaVersion(document) < CURRENT_SCHEMA_VERSION
+}
+
+/**
+ * Upgrade stored items from `fromVersion` to the current schema. Documents
+ * from a newer schema than this build knows are returned unchanged.
+ */
+export function migrateItems(
+  items: StoredItem[] | null | undefined,
+  fromVersion: number = INITIAL_SCHEMA_VERSION
+): Item[] {
+  return MIGRATIONS.filter(
+    (migration) => migration.version > fromVersion
+  ).reduce(
+    (current, migration) => migration.up(current),
+    // Missing ids are filled in by the first migration
+    (Array.isArray(items) ? items : []) as Item[]
+  )
+}
+
+export function migrateProject<
+  T extends Pick<Project, 'items'> & { schema_version?: number | null },
+>(project: T): T & { schema_version: number } {
+  const fromVersion = getSchemaVersion(project)
+  return {
+    ...project,
+    items: migrateItems(project.items, fromVersion),
+    schema_version: Math.max(fromVersion, CURRENT_SCHEMA_VERSION),
+  }
+}
@@ -0,0 +1,231 @@
+import {
+  Item,
+  Part,
+  PartGroup,
+  Project,
+  RestoreScopeDetails,
+  Version,
+} from '../types'
+import { itemVersions } from './project-diff'
+
+/**
+ * Partial restore: copy a single item, version or part from a history
+ * snapshot into the current project and leave everything else as it is
+ * now. Scopes point into the snapshot by position; the entry they replace
+ * in the current project is matched by id, then by version number, or by
+ * name for items and parts saved without ids. An item or part whose id is
+ * gone is added back rather than written over another one with its name.
+ */
+export type RestoreScope =
+  | { type: 'item'; itemIndex: number }
+  | { type: 'version'; itemIndex: number; versionIndex: number }
+  | {
+      type: 'part'
+      itemIndex: number
+      versionIndex: number
+      partIndex: number
+    }
+
+interface ResolvedScope {
+  item: Item
+  version?: Version
+  part?: Part
+}
+
+function resolveScope(snapshot: Project, scope: RestoreScope): ResolvedScope {
+  const item = snapshot.items?.[scope.itemIndex]
+  if (!item) throw new Error('Item not found in this snapshot')
+  if (scope.type === 'item') return { item }
+
+  const version = itemVersions(item)[scope.versionIndex]
+  if (!version) throw new Error('Version not found in this snapshot')
+  if (scope.type === 'version') return { item, version }
+
+  const part = version.parts?.[scope.partIndex]
+  if (!part) throw new Error('Part not found in this snapshot')
+  return { item, version, part }
+}
+
+function findItemIndex(items: Item[], target: Item): number {
+  const byId = items.findIndex((item) => target.id && item.id === target.id)
+  if (byId !== -1) return byId
+  const name = target.name?.trim().toLowerCase()
+  return items.findIndex(
+    (item) =>
+      (!target.id || !item.id) &&
+      !!name &&
+      item.name?.trim().toLowerCase() === name
+  )
+}
+
+function findVersionIndex(versions: Version[], target: Version): number {
+  const byId = versions.findIndex(
+    (version) => target.id && version.id === target.id
+  )
+  if (byId !== -1) return byId
+  return versions.findIndex(
+    (version) => version.versionNumber === target.versionNumber
+  )
+}
+
+function findPartIndex(parts: Part[], target: Part): number {
+  const byId = parts.findIndex((part) => target.id && part.id === target.id)
+  if (byId !== -1) return byId
+  const annotationId = target.annotation_data?.id
+  const byAnnotation = parts.findIndex(
+    (part) => !!annotationId && part.annotation_data?.id === annotationId
+  )
+  if (byAnnotation !== -1) return byAnnotation
+  const name = target.name?.trim().toLowerCase()
+  return parts.findIndex(
+    (part) =>
+      (!target.id || !part.id) &&
+      !!name &&
+      part.name?.trim().toLowerCase() === name
+  )
+}
+
+/**
+ * Write versions back onto an item. Items that were still in the legacy
+ * parts-only format stay that way unless a real version is restored into
+ * them.
+ */
+function withVersions(item: Item, versions: Version[]): Item {
+  const isLegacy = !item.versions || item.versions.length === 0
+  if (isLegacy && versions.length === 1 && !versions[0].id) {
+    return { ...item, parts: versions[0].parts }
+  }
+
+  return {
+    ...item,
+    parts: undefined,
+    versions: versions.map((version) =>
+      version.id
+        ? version
+        : { ...version, id: `version-${crypto.randomUUID()}` }
+    ),
+  }
+}
+
+/**
+ * Restored parts may belong to groups that were deleted since; bring
+ * those groups back from the snapshot item
+ */
+function withReferencedGroups(
+  item: Item,
+  snapshotItem: Item,
+  parts: Part[]
+): Item {
+  const groups = [...(item.groups || [])]
+  const missing = new Map<string, PartGroup>()
+
+  for (const part of parts) {
+    if (!part.groupId || groups.some((group) => group.id === part.groupId)) {
+      continue
+    }
+    const group = snapshotItem.groups?.find((g) => g.id === part.groupId)
+    if (group) missing.set(group.id, group)
+  }
+
+  if (missing.size === 0) return item
+  return { ...item, groups: [...groups, ...Array.from(missing.values())] }
+}
+
+/**
+ * The current project with the entry at `scope` copied from `snapshot`
+ */
+export function applyPartialRestore(
+  current: Project,
+  snapshot: Project,
+  scope: RestoreScope
+): Project {
+  const { item, version, part } = structuredClone(resolveScope(snapshot, scope))
+  const items = [...(current.items || [])]
+  const itemIndex = findItemIndex(items, item)
+
+  if (scope.type === 'item') {
+    if (itemIndex === -1) {
+      items.splice(Math.min(scope.itemIndex, items.length), 0, item)
+    } else {
+      items[itemIndex] = item
+    }
+    return { ...current, items }
+  }
+
+  if (itemIndex === -1) {
+    throw new Error(
+      `"${item.name}" no longer exists in the project. Restore the whole item instead.`
+    )
+  }
+
+  const currentItem = items[itemIndex]
+  const versions = [...itemVersions(currentItem)]
+  const versionIndex = findVersionIndex(versions, version!)
+
+  if (scope.type === 'version') {
+    if (versionIndex === -1) {
+      versions.push(version!)
+      versions.sort((a, b) => a.versionNumber - b.versionNumber)
+    } else {
+      versions[versionIndex] = version!
+    }
+    items[itemIndex] = withReferencedGroups(
+      withVersions(currentItem, versions),
+      item,
+      version!.parts || []
+    )
+    return { ...current, items }
+  }
+
+  if (versionIndex === -1) {
+    throw new Error(
+      `Version ${version!.versionNumber} of "${item.name}" no longer exists. Restore the whole version instead.`
+    )
+  }
+
+  const parts = [...(versions[versionIndex].parts || [])]
+  const partIndex = findPartIndex(parts, part!)
+  if (partIndex === -1) {
+    parts.splice(Math.min(scope.partIndex, parts.length), 0, part!)
+  } else {
+    parts[partIndex] = part!
+  }
+  versions[versionIndex] = { ...versions[versionIndex], parts }
+
+  items[itemIndex] = withReferencedGroups(
+    withVersions(currentItem, versions),
+    item,
+    [part!]
+  )
+  return { ...current, items }
+}
+
+export function getRestoreScopeDetails(
+  snapshot: Project,
+  scope: RestoreScope
+): RestoreScopeDetails {
+  const { item, version, part } = resolveScope(snapshot, scope)
+  return {
+    type: scope.type,
+    item_id: item.id || undefined,
+    item_name: item.name,
+    version_id: version?.id || undefined,
+    version_number: version?.versionNumber,
+    part_id: part?.id,
+    part_name: part?.name,
+  }
+}
+
+export function describeRestoreScope(details: RestoreScopeDetails): string {
+  const item = `"${details.item_name || 'Untitled item'}"`
+  const version = `Version ${details.version_number}`
+
+  switch (details.type) {
+    case 'item':
+      return `item ${item}`
+    case 'version':
+      return `${version} of ${item}`
+    case 'part':
+      return `part "${details.part_name || 'Unnamed part'}" (${item}, ${version})`
+  }
+}
@@ -0,0 +1,310 @@
+import { supabaseAdmin } from './supaAdmin'
+import { ApiError } from './api-errors'
+import {
+  AuthenticatedUser,
+  createUserClient,
+  ProjectPermission,
+} from './api-auth'
+import { buildProjectUpdateDetails, hasContentChanges } from './project-logs'
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateItems,
+  StoredItem,
+} from './project-migrations'
+import { keepWorkflowStatus } from './status-workflow'
+import { Item, Project } from '../types'
+
+export interface ProjectSummary extends Project {
+  permission: ProjectPermission
+}
+
+export interface ProjectChanges {
+  title?: string
+  retailer?: string
+  due_date?: string | null
+  items?: Item[]
+}
+
+// A row of the get_user_projects RPC (docs/add-project-schema-version.sql)
+interface UserProjectRow {
+  project_id: string
+  project_title: string
+  project_retailer: string
+  project_items: StoredItem[] | null
+  due_date: string | null
+  project_created_at: string
+  project_updated_at: string
+  permission_level: ProjectPermission
+  is_owner: boolean
+  schema_version: number
+}
+
+/**
+ * List every project the caller owns or collaborates on
+ */
+export async function listProjects(
+  auth: AuthenticatedUser
+): Promise<ProjectSummary[]> {
+  if (auth.method === 'personal_token') {
+    return listProjectsForToken(auth.user.id)
+  }
+
+  const userClient = createUserClient(auth.token)
+
+  const { data, error } = await userClient.rpc('get_user_projects')
+  if (error) throw error
+
+  return ((data || []) as UserProjectRow[]).map((p) => ({
+    id: p.project_id,
+    title: p.project_title,
+    retailer: p.project_retailer,
+    due_date: p.due_date || undefined,
+    items: migrateItems(p.project_items, p.schema_version),
+    created_at: p.project_created_at,
+    updated_at: p.project_updated_at,
+    permission: p.is_owner ? 'owner' : p.permission_level,
+  }))
+}
+
+async function listProjectsForToken(userId: string): Promise<ProjectSummary[]> {
+  const { data: memberships, error: membershipError } = await supabaseAdmin
+    .from('project_collaborators')
+    .select('project_id, permission_level')
+    .eq('user_id', userId)
+
+  if (membershipError) throw membershipError
+
+  const permissionById = new Map<string, ProjectPermission>(
+    (memberships || []).map((m) => [m.project_id, m.permission_level])
+  )
+
+  let query = supabaseAdmin
+    .from('projects')
+    .select('*')
+    .order('updated_at', { ascending: false })
+
+  query =
+    permissionById.size > 0
+      ? query.or(
+          `user_id.eq.${userId},id.in.(${Array.from(permissionById.keys()).join(',')})`
+        )
+      : query.eq('user_id', userId)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return (data || []).map((p) => ({
+    id: p.id,
+    title: p.title,
+    retailer: p.retailer,
+    due_date: p.due_date || undefined,
+    items: migrateItems(p.items, p.schema_version),
+    user_id: p.user_id,
+    created_at: p.created_at,
+    updated_at: p.updated_at,
+    permission:
+      p.user_id === userId ? 'owner' : permissionById.get(p.id) || 'view',
+  }))
+}
+
+export interface SaveOptions {
+  /**
+   * Write the usual `project_updated` entry. Callers that log a more
+   * specific action themselves turn this off.
+   */
+  logUpdate?: boolean
+  /**
+   * Write workflow statuses as given. Only changeWorkflowStatus sets this,
+   * after checking the transition; other saves keep the stored statuses.
+   */
+  workflow?: boolean
+}
+
+/**
+ * Persist changes through the `update_user_project` RPC as the caller,
+ * so the same owner/edit/admin check applies as in the edit form.
+ * Unchanged fields are sent through as-is because the RPC overwrites
+ * every column it receives.
+ *
+ * Personal access tokens can't call the RPC as the user, so their writes
+ * go through the admin client; requireProjectAccess has already checked
+ * edit permission by then. So do workflow saves, because the database
+ * keeps the stored statuses on every update made as a user (see
+ * docs/protect-workflow-status.sql).
+ */
+export async function saveProject(
+  auth: AuthenticatedUser,
+  project: Project,
+  changes: ProjectChanges,
+  { logUpdate = true, workflow = false }: SaveOptions = {}
+): Promise<Project> {
+  // API clients may still send items in an older shape
+  if (changes.items) {
+    const items = migrateItems(changes.items)
+    changes = {
+      ...changes,
+      items: workflow ? items : keepWorkflowStatus(project.items, items),
+    }
+  }
+
+  const updated =
+    auth.method === 'personal_token' || workflow
+      ? await saveProjectAsAdmin(project, changes)
+      : await saveProjectAsUser(auth, project, changes)
+
+  if (logUpdate) {
+    await logProjectUpdate(auth, project, updated)
+  }
+
+  return updated
+}
+
+/**
+ * Write the same `project_updated` / `due_date_updated` entries the edit
+ * form does, so API changes show in Project History and reach webhooks
+ */
+async function logProjectUpdate(
+  auth: AuthenticatedUser,
+  previous: Project,
+  updated: Project
+): Promise<void> {
+  const changedBy = auth.user.email || auth.user.id
+  const timestamp = new Date().toISOString()
+  const logs = []
+
+  if (hasContentChanges(previous, updated)) {
+    logs.push({
+      project_id: previous.id,
+      user_id: auth.user.id,
+      action: 'project_updated',
+      details: {
+        ...buildProjectUpdateDetails(previous, updated),
+        changed_by: changedBy,
+      },
+      timestamp,
+    })
+  }
+
+  if ((previous.due_date || null) !== (updated.due_date || null)) {
+    logs.push({
+      project_id: previous.id,
+      user_id: auth.user.id,
+      action: 'due_date_updated',
+      details: {
+        previous_due_date: previous.due_date || null,
+        new_due_date: updated.due_date || null,
+        changed_by: changedBy,
+      },
+      timestamp,
+    })
+  }
+
+  if (logs.length === 0) return
+
+  const { error } = await supabaseAdmin.from('project_logs').insert(logs)
+  if (error) {
+    // The update succeeded; logging is secondary
+    console.error('Failed to log project update:', error)
+  }
+}
+
+async function saveProjectAsUser(
+  auth: AuthenticatedUser,
+  project: Project,
+  changes: ProjectChanges
+): Promise<Project> {
+  const userClient = createUserClient(auth.token)
+
+  const { data, error } = await userClient.rpc('update_user_project', {
+    p_project_id: project.id,
+    p_title: changes.title ?? project.title,
+    p_retailer: changes.retailer ?? project.retailer,
+    p_due_date:
+      changes.due_date !== undefined
+        ? changes.due_date
+        : project.due_date || null,
+    p_items: changes.items ?? project.items,
+    // Items are upgraded on read and by saveProject
+    p_schema_version: CURRENT_SCHEMA_VERSION,
+  })
+
+  if (error) {
+    if (error.message?.includes('permission') || error.code === 'P0001') {
+      throw new ApiError('forbidden', error.message)
+    }
+    throw error
+  }
+
+  if (!data || data.length === 0) {
+    throw new ApiError('not_found', 'Project not found or access denied')
+  }
+
+  const row = data[0]
+  return {
+    id: row.id,
+    title: row.title,
+    retailer: row.retailer,
+    due_date: row.due_date || undefined,
+    items: row.items || [],
+    user_id: row.user_id,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+async function saveProjectAsAdmin(
+  project: Project,
+  changes: ProjectChanges
+): Promise<Project> {
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .update({
+      title: changes.title ?? project.title,
+      retailer: changes.retailer ?? project.retailer,
+      due_date:
+        changes.due_date !== undefined
+          ? changes.due_date
+          : project.due_date || null,
+      items: changes.items ?? project.items,
+      schema_version: CURRENT_SCHEMA_VERSION,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', project.id)
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return {
+    id: data.id,
+    title: data.title,
+    retailer: data.retailer,
+    due_date: data.due_date || undefined,
+    items: data.items || [],
+    user_id: data.user_id,
+    created_at: data.created_at,
+    updated_at: data.updated_at,
+  }
+}
+
+export async function saveProjectItems(
+  auth: AuthenticatedUser,
+  project: Project,
+  items: Item[],
+  options?: SaveOptions
+): Promise<Project> {
+  return saveProject(auth, project, { items }, options)
+}
+
+/**
+ * Delete a project. Only the owner may do this; callers must check
+ * permission before calling since this goes through the admin client.
+ */
+export async function deleteProject(projectId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('projects')
+    .delete()
+    .eq('id', projectId)
+
+  if (error) throw error
+}
@@ -0,0 +1,124 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import { supabase } from './supaClient'
+import { authorizedFetch } from './api-client'
+import { CopyIdPrefix, copyProjectItems } from './project-copy'
+import { formatDateForInput, isValidDate } from './date-utils'
+import { Item, Project, ProjectTemplate } from '../types'
+import { ProjectTemplateFormData } from '../types/schemas'
+
+/**
+ * Project templates and "create from existing project". A template keeps
+ * the structure of a project (see docs/create-project-templates.sql); a
+ * clone copies everything, including images, through
+ * POST /api/v1/projects/:id/clone.
+ */
+
+function browserId(prefix: CopyIdPrefix): string {
+  return `${prefix}-${crypto.randomUUID()}`
+}
+
+/**
+ * Days between the project's creation and its due date, so a template can
+ * set the same lead time on new projects
+ */
+export function getDueInDays(project: Project): number | null {
+  if (!project.due_date || !isValidDate(project.due_date)) return null
+  if (!project.created_at || !isValidDate(project.created_at)) return null
+  return Math.max(
+    0,
+    differenceInCalendarDays(
+      parseISO(project.due_date),
+      parseISO(project.created_at)
+    )
+  )
+}
+
+export function buildTemplateItems(items: Item[]): Item[] {
+  return copyProjectItems(items, { createId: browserId, skeleton: true }).items
+}
+
+/**
+ * Wizard fields for a new project started from a template. The due date is
+ * a date input value (YYYY-MM-DD), counted from today.
+ */
+export function applyProjectTemplate(template: ProjectTemplate): {
+  retailer: string
+  due_date: string
+  items: Item[]
+} {
+  const dueDate =
+    template.due_in_days !== null
+      ? new Date(Date.now() + template.due_in_days * 24 * 60 * 60 * 1000)
+      : null
+
+  return {
+    retailer: template.retailer,
+    due_date: dueDate ? formatDateForInput(dueDate.toISOString()) : '',
+    items: copyProjectItems(template.items, { createId: browserId }).items,
+  }
+}
+
+export async function fetchProjectTemplates(): Promise<ProjectTemplate[]> {
+  // RLS returns global templates, the user's own and their team's
+  const { data, error } = await supabase
+    .from('project_templates')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function createProjectTemplate(
+  userId: string,
+  team: string | null,
+  project: Project,
+  values: ProjectTemplateFormData
+): Promise<ProjectTemplate> {
+  if (values.scope === 'team' && !team) {
+    throw new Error('Set up your team in Settings to share templates with it')
+  }
+
+  const { data, error } = await supabase
+    .from('project_templates')
+    .insert({
+      ...values,
+      owner_id: userId,
+      team,
+      items: buildTemplateItems(project.items),
+      source_project_id: project.id,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function deleteProjectTemplate(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('project_templates')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+export interface CloneProjectResponse extends Project {
+  failed_assets: string[]
+}
+
+export async function createProjectFromExisting(
+  sourceId: string,
+  values: { title: string; retailer: string; due_date: string | null }
+): Promise<CloneProjectResponse> {
+  const response = await authorizedFetch(`/api/v1/projects/${sourceId}/clone`, {
+    method: 'POST',
+    body: JSON.stringify(values),
+  })
+  const body = await response.json()
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to copy project')
+  }
+  return body
+}
@@ -0,0 +1,88 @@
+import { randomUUID } from 'crypto'
+import { Item, Part, Version } from '../types'
+import { ApiError } from './api-errors'
+
+/**
+ * Helpers for addressing items, versions and parts inside the
+ * `projects.items` JSON document from the /api/v1 routes.
+ *
+ * Older items and parts were saved without ids, so a purely numeric
+ * reference falls back to the array index when no id matches.
+ */
+function findIndexByRef<T extends { id?: string }>(
+  list: T[],
+  ref: string
+): number {
+  const byId = list.findIndex((entry) => entry.id === ref)
+  if (byId !== -1) return byId
+  if (/^\d+$/.test(ref)) {
+    const index = Number(ref)
+    if (index < list.length) return index
+  }
+  return -1
+}
+
+export function newId(
+  prefix: 'item' | 'version' | 'part' | 'group' | 'annotation'
+): string {
+  return `${prefix}-${randomUUID()}`
+}
+
+export function getItemIndex(items: Item[], itemRef: string): number {
+  const index = findIndexByRef(items, itemRef)
+  if (index === -1) {
+    throw new ApiError('not_found', `Item ${itemRef} not found`)
+  }
+  return index
+}
+
+export function getVersionIndex(item: Item, versionRef: string): number {
+  const index = findIndexByRef(item.versions || [], versionRef)
+  if (index === -1) {
+    throw new ApiError('not_found', `Version ${versionRef} not found`)
+  }
+  return index
+}
+
+export function getPartIndex(version: Version, partRef: string): number {
+  const index = findIndexByRef(version.parts || [], partRef)
+  if (index === -1) {
+    throw new ApiError('not_found', `Part ${partRef} not found`)
+  }
+  return index
+}
+
+/**
+ * Legacy items keep parts directly on the item. Before versions can be
+ * added or edited, move those parts into a "Version 1".
+ */
+export function ensureVersions(item: Item): Item {
+  if (item.versions && item.versions.length > 0) return item
+  if (!item.parts || item.parts.length === 0) {
+    return { ...item, versions: [] }
+  }
+
+  const { parts, ...rest } = item
+  return {
+    ...rest,
+    versions: [
+      {
+        id: newId('version'),
+        versionNumber: 1,
+        parts,
+        created_at: new Date().toISOString(),
+      },
+    ],
+  }
+}
+
+export function nextVersionNumber(item: Item): number {
+  const versions = item.versions || []
+  return versions.length > 0
+    ? Math.max(...versions.map((v) => v.versionNumber)) + 1
+    : 1
+}
+
+export function withPartId(part: Part): Part {
+  return part.id ? part : { ...part, id: newId('part') }
+}
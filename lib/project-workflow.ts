@@ -0,0 +1,140 @@
+import { supabaseAdmin } from './supaAdmin'
+import { ApiError } from './api-errors'
+import { AuthenticatedUser, requireProjectAccess } from './api-auth'
+import { saveProjectItems } from './project-store'
+import { getItemIndex, getPartIndex, getVersionIndex } from './project-tree'
+import {
+  allowedTransitions,
+  canTransition,
+  getStatus,
+  statusLabel,
+} from './status-workflow'
+import {
+  Part,
+  Project,
+  StatusChangeDetails,
+  Version,
+  WorkflowStatus,
+} from '../types'
+
+export interface StatusTarget {
+  itemId: string
+  versionId: string
+  /** Omit to change the status of the version itself */
+  partId?: string
+}
+
+/**
+ * Move a version or part to a new workflow status. The caller's project
+ * permission must allow the transition; the change is recorded in
+ * project_logs as `status_changed`, or `approval_recorded` for sign-offs.
+ */
+export async function changeWorkflowStatus(
+  auth: AuthenticatedUser,
+  projectId: string,
+  target: StatusTarget,
+  to: WorkflowStatus,
+  comment?: string
+): Promise<Version | Part> {
+  const { project, permission } = await requireProjectAccess(
+    auth,
+    projectId,
+    'edit'
+  )
+
+  const itemIndex = getItemIndex(project.items, target.itemId)
+  const item = project.items[itemIndex]
+  const versionIndex = getVersionIndex(item, target.versionId)
+  const version = item.versions![versionIndex]
+  const partIndex =
+    target.partId !== undefined ? getPartIndex(version, target.partId) : null
+  const current = partIndex !== null ? version.parts[partIndex] : version
+
+  const from = getStatus(current)
+  if (from === to) {
+    throw new ApiError('conflict', `Already ${statusLabel(to).toLowerCase()}`)
+  }
+  if (!canTransition(from, to, permission)) {
+    const allowed = allowedTransitions(from, permission).map((transition) =>
+      statusLabel(transition.to)
+    )
+    throw new ApiError(
+      'forbidden',
+      `Your ${permission} permission can't move ${statusLabel(from)} to ${statusLabel(to)}`,
+      { allowed }
+    )
+  }
+
+  const stamp = {
+    status: to,
+    status_updated_at: new Date().toISOString(),
+    status_updated_by: auth.user.id,
+  }
+
+  let updated: Version | Part
+  let nextVersion: Version
+  if (partIndex !== null) {
+    updated = { ...version.parts[partIndex], ...stamp }
+    const parts = [...version.parts]
+    parts[partIndex] = updated
+    nextVersion = { ...version, parts }
+  } else {
+    nextVersion = { ...version, ...stamp }
+    updated = nextVersion
+  }
+
+  const versions = [...item.versions!]
+  versions[versionIndex] = nextVersion
+  const items = [...project.items]
+  items[itemIndex] = { ...item, versions }
+
+  const saved = await saveProjectItems(auth, project, items, {
+    logUpdate: false,
+    workflow: true,
+  })
+
+  const change: StatusChangeDetails = {
+    target: partIndex !== null ? 'part' : 'version',
+    item_id: item.id,
+    item_name: item.name,
+    version_id: version.id,
+    version_number: version.versionNumber,
+    ...(partIndex !== null
+      ? {
+          part_id: version.parts[partIndex].id,
+          part_name: version.parts[partIndex].name,
+        }
+      : {}),
+    from,
+    to,
+    ...(comment ? { comment } : {}),
+  }
+  await logStatusChange(auth, project, saved, change)
+
+  return updated
+}
+
+async function logStatusChange(
+  auth: AuthenticatedUser,
+  previous: Project,
+  updated: Project,
+  change: StatusChangeDetails
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('project_logs').insert({
+    project_id: previous.id,
+    user_id: auth.user.id,
+    action: change.to === 'approved' ? 'approval_recorded' : 'status_changed',
+    details: {
+      status_change: change,
+      previous_data: previous,
+      new_data: updated,
+      changed_by: auth.user.email || auth.user.id,
+    },
+    timestamp: new Date().toISOString(),
+  })
+
+  if (error) {
+    // The status was saved; logging is secondary
+    console.error('Failed to log status change:', error)
+  }
+}
@@ -0,0 +1,140 @@
+import path from 'path'
+import sharp, { Sharp } from 'sharp'
+import { IMAGE_SIZES } from './image-derivatives'
+import { RenderFormat, toRgba8, toneMapToRgba8 } from './render-formats'
+
+/**
+ * Decoders for the render formats sharp can't read (see
+ * lib/render-formats.ts). Each turns the original into an upright sharp
+ * image for the derivative pipeline. The decoders are large, so they are
+ * loaded on first use rather than with every upload route.
+ */
+
+interface RgbaImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+function fromRgba({ width, height, data }: RgbaImage): Sharp {
+  return sharp(data, { raw: { width, height, channels: 4 } })
+}
+
+let psdCanvasReady = false
+
+/**
+ * The flattened composite Photoshop stores with every PSD. Layers are
+ * skipped; without "Maximize compatibility" the composite is blank.
+ */
+async function decodePsd(input: Buffer): Promise<Sharp> {
+  const { initializeCanvas, readPsd } = await import('ag-psd')
+  if (!psdCanvasReady) {
+    const { createCanvas } = await import('@napi-rs/canvas')
+    initializeCanvas(
+      createCanvas as unknown as Parameters<typeof initializeCanvas>[0],
+      (width, height) =>
+        ({
+          width,
+          height,
+          data: new Uint8ClampedArray(width * height * 4),
+        }) as ImageData
+    )
+    psdCanvasReady = true
+  }
+
+  const psd = readPsd(input, {
+    skipLayerImageData: true,
+    skipThumbnail: true,
+    useImageData: true,
+  })
+  if (!psd.imageData) throw new Error('PSD has no composite image')
+
+  return fromRgba({
+    width: psd.imageData.width,
+    height: psd.imageData.height,
+    data: toRgba8(psd.imageData.data),
+  })
+}
+
+/**
+ * The beauty pass of an EXR, tone mapped from linear light to sRGB
+ */
+async function decodeExr(input: Buffer): Promise<Sharp> {
+  const { default: parseExr } = await import('parse-exr')
+  const bytes = input.buffer.slice(
+    input.byteOffset,
+    input.byteOffset + input.byteLength
+  ) as ArrayBuffer
+  // 1015: full floats, so there's no half-float unpacking to do here
+  const exr = parseExr(bytes, 1015)
+
+  // parse-exr returns rows bottom to top, as WebGL textures expect
+  return fromRgba({
+    width: exr.width,
+    height: exr.height,
+    data: toneMapToRgba8(exr.data as Float32Array, exr.format === 1023 ? 4 : 1),
+  }).flip()
+}
+
+async function decodeHeic(input: Buffer): Promise<Sharp> {
+  const { default: decode } = await import('heic-decode')
+  return fromRgba(await decode({ buffer: input }))
+}
+
+/**
+ * The first page of a PDF, rendered on white at the full derivative size
+ */
+async function decodePdf(input: Buffer): Promise<Sharp> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs')
+  const { createCanvas } = await import('@napi-rs/canvas')
+
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(input),
+    isEvalSupported: false,
+    // Text in the 14 standard fonts is drawn with these when not embedded
+    standardFontDataUrl: path.join(
+      process.cwd(),
+      'node_modules/pdfjs-dist/standard_fonts/'
+    ),
+  }).promise
+
+  try {
+    const page = await pdf.getPage(1)
+    const { width, height } = page.getViewport({ scale: 1 })
+    const viewport = page.getViewport({
+      scale: IMAGE_SIZES.full / Math.max(width, height),
+    })
+    const canvas = createCanvas(
+      Math.round(viewport.width),
+      Math.round(viewport.height)
+    )
+
+    await page.render({
+      canvas: canvas as unknown as HTMLCanvasElement,
+      canvasContext: canvas.getContext(
+        '2d'
+      ) as unknown as CanvasRenderingContext2D,
+      viewport,
+    }).promise
+
+    return sharp(await canvas.encode('png'))
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+export function decodeRender(
+  format: RenderFormat,
+  input: Buffer
+): Promise<Sharp> {
+  switch (format) {
+    case 'psd':
+      return decodePsd(input)
+    case 'exr':
+      return decodeExr(input)
+    case 'heic':
+      return decodeHeic(input)
+    case 'pdf':
+      return decodePdf(input)
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Professional render formats the derivative pipeline can't hand straight
+ * to sharp: layered PSDs, OpenEXR passes, HEIC photos and PDF drawings.
+ * The server decodes them to pixels first (lib/render-decoders.ts); TIFF,
+ * 16-bit included, sharp reads on its own.
+ *
+ * Formats are recognised by their bytes rather than the upload's content
+ * type, which browsers leave empty for most of them.
+ */
+
+export type RenderFormat = 'psd' | 'exr' | 'heic' | 'pdf'
+
+// ISO base media brands of HEIF images; AVIF shares the container
+const HEIC_BRANDS = [
+  'heic',
+  'heix',
+  'hevc',
+  'hevx',
+  'heim',
+  'heis',
+  'mif1',
+  'msf1',
+]
+const AVIF_BRANDS = ['avif', 'avis']
+
+function readAscii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode.apply(
+    null,
+    Array.prototype.slice.call(bytes, start, start + length)
+  )
+}
+
+/**
+ * Brands listed in an ISO base media `ftyp` box, or none
+ */
+function readFileTypeBrands(bytes: Uint8Array): string[] {
+  if (bytes.length < 16 || readAscii(bytes, 4, 4) !== 'ftyp') return []
+
+  const boxSize =
+    ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0
+  const end = Math.min(boxSize, bytes.length)
+  // Major brand, then the compatible brands after the minor version
+  const brands = [readAscii(bytes, 8, 4)]
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    brands.push(readAscii(bytes, offset, 4))
+  }
+  return brands
+}
+
+/**
+ * The render format of a file from its first bytes, or null when sharp can
+ * decode it directly
+ */
+export function detectRenderFormat(bytes: Uint8Array): RenderFormat | null {
+  if (readAscii(bytes, 0, 4) === '8BPS') return 'psd'
+  if (
+    bytes[0] === 0x76 &&
+    bytes[1] === 0x2f &&
+    bytes[2] === 0x31 &&
+    bytes[3] === 0x01
+  ) {
+    return 'exr'
+  }
+  if (readAscii(bytes, 0, 5) === '%PDF-') return 'pdf'
+
+  const brands = readFileTypeBrands(bytes)
+  if (brands.some((brand) => AVIF_BRANDS.indexOf(brand) !== -1)) return null
+  if (brands.some((brand) => HEIC_BRANDS.indexOf(brand) !== -1)) return 'heic'
+
+  return null
+}
+
+// ACES filmic curve (Narkowicz fit): rolls highlights off instead of clipping
+function acesFilmic(value: number): number {
+  const mapped =
+    (value * (2.51 * value + 0.03)) / (value * (2.43 * value + 0.59) + 0.14)
+  return Math.min(1, Math.max(0, mapped))
+}
+
+function encodeSrgb(linear: number): number {
+  const encoded =
+    linear <= 0.0031308
+      ? 12.92 * linear
+      : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055
+  return Math.round(encoded * 255)
+}
+
+function clampUnit(value: number): number {
+  // NaN as well as out-of-range values
+  return value > 0 ? Math.min(1, value) : 0
+}
+
+/**
+ * Tone map linear HDR pixels (EXR passes, 32-bit PSDs) to 8-bit sRGBA.
+ * Single-channel passes such as depth or masks come out grey.
+ */
+export function toneMapToRgba8(
+  data: Float32Array,
+  channels: 1 | 4
+): Uint8ClampedArray {
+  const pixels = data.length / channels
+  const output = new Uint8ClampedArray(pixels * 4)
+
+  for (let pixel = 0; pixel < pixels; pixel++) {
+    const source = pixel * channels
+    const target = pixel * 4
+    for (let channel = 0; channel < 3; channel++) {
+      const linear = data[source + (channels === 4 ? channel : 0)]
+      output[target + channel] = encodeSrgb(acesFilmic(linear > 0 ? linear : 0))
+    }
+    output[target + 3] =
+      channels === 4 ? Math.round(clampUnit(data[source + 3]) * 255) : 255
+  }
+
+  return output
+}
+
+/**
+ * 8-bit RGBA from RGBA pixels of any bit depth: 16-bit values are scaled
+ * down, 32-bit floats are linear and tone mapped
+ */
+export function toRgba8(
+  data: Uint8Array | Uint8ClampedArray | Uint16Array | Float32Array
+): Uint8ClampedArray {
+  if (data instanceof Float32Array) return toneMapToRgba8(data, 4)
+  if (data instanceof Uint16Array) {
+    const output = new Uint8ClampedArray(data.length)
+    for (let index = 0; index < data.length; index++) {
+      output[index] = Math.round(data[index] / 257)
+    }
+    return output
+  }
+  return new Uint8ClampedArray(data.buffer, data.byteOffset, data.length)
+}
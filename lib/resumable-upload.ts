@@ -0,0 +1,412 @@
+import { supabase } from './supaClient'
+import { authorizedFetch } from './api-client'
+import { Sha256 } from './checksum'
+import { getUploadContentType } from './upload-files'
+import { CompletedUpload, UploadBucket, UploadSession } from '../types'
+
+/**
+ * Chunked, resumable uploads for large render files. The API reserves a
+ * session (see lib/upload-sessions.ts), the bytes go straight to Supabase
+ * Storage's tus endpoint one chunk at a time, and the API verifies the
+ * SHA-256 computed here once the last chunk is in.
+ *
+ * A failed chunk is retried with backoff after asking the server how much
+ * it actually received. Sessions are remembered in localStorage, so the
+ * same file picked again after a reload continues where it stopped.
+ */
+
+// Supabase's tus endpoint only accepts 6MB chunks
+export const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024
+export const MAX_CHUNK_RETRIES = 5
+const RETRY_DELAYS = [1000, 3000, 5000, 10000, 20000]
+const TUS_VERSION = '1.0.0'
+const STORAGE_KEY_PREFIX = 'resumable-upload:'
+
+export type ResumableUploadStatus =
+  | 'idle'
+  | 'uploading'
+  | 'paused'
+  | 'verifying'
+  | 'completed'
+  | 'error'
+
+export interface ResumableUploadOptions {
+  bucket?: UploadBucket
+  folder?: string
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void
+  onStatusChange?: (status: ResumableUploadStatus) => void
+  onChunkRetry?: (attempt: number, error: Error) => void
+}
+
+interface SessionResponse extends UploadSession {
+  upload_endpoint: string
+}
+
+interface StoredSession {
+  sessionId: string
+  uploadUrl: string
+}
+
+class UploadRequestError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'UploadRequestError'
+    this.status = status
+  }
+
+  // Network failures, server errors and offset conflicts are worth retrying
+  get retryable(): boolean {
+    return this.status === 0 || this.status === 409 || this.status >= 500
+  }
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function readJson<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new UploadRequestError(
+      response.status,
+      body.error || `Upload request failed (${response.status})`
+    )
+  }
+  return body as T
+}
+
+export class ResumableUpload {
+  readonly file: File
+  readonly contentType: string
+  status: ResumableUploadStatus = 'idle'
+  bytesUploaded = 0
+
+  private options: ResumableUploadOptions
+  private session: StoredSession | null = null
+  private hash = new Sha256()
+  private hashedBytes = 0
+  private request: XMLHttpRequest | null = null
+  private promise: Promise<CompletedUpload> | null = null
+  private paused = false
+  private aborted = false
+  private onResume: (() => void) | null = null
+
+  constructor(file: File, options: ResumableUploadOptions = {}) {
+    this.file = file
+    this.contentType = getUploadContentType(file)
+    this.options = options
+  }
+
+  /**
+   * Upload the file. The promise stays pending while the upload is paused
+   * and settles once it's verified, has failed or was aborted.
+   */
+  start(): Promise<CompletedUpload> {
+    if (!this.promise) {
+      this.promise = this.run().catch((error) => {
+        this.promise = null
+        this.setStatus('error')
+        throw error
+      })
+    }
+    return this.promise
+  }
+
+  pause() {
+    if (this.status !== 'uploading') return
+    this.paused = true
+    this.request?.abort()
+    this.setStatus('paused')
+  }
+
+  resume() {
+    if (!this.paused) return
+    this.paused = false
+    this.setStatus('uploading')
+    this.onResume?.()
+    this.onResume = null
+  }
+
+  /**
+   * Stop for good and discard what was uploaded so far
+   */
+  async abort() {
+    this.aborted = true
+    this.paused = false
+    this.request?.abort()
+    this.onResume?.()
+
+    const session = this.session || this.loadStoredSession()
+    this.clearStoredSession()
+    if (session) {
+      await authorizedFetch(`/api/upload/sessions/${session.sessionId}`, {
+        method: 'DELETE',
+      }).catch((error) => console.warn('Failed to abort upload:', error))
+    }
+  }
+
+  private async run(): Promise<CompletedUpload> {
+    this.setStatus('uploading')
+    const size = this.file.size
+
+    let offset = await this.openSession()
+    await this.hashUpTo(offset)
+    this.reportProgress(offset)
+
+    while (offset < size) {
+      await this.waitWhilePaused()
+      this.checkAborted()
+
+      const end = Math.min(offset + UPLOAD_CHUNK_SIZE, size)
+      const chunk = new Uint8Array(
+        await this.file.slice(offset, end).arrayBuffer()
+      )
+      const next = await this.sendChunk(offset, chunk)
+
+      if (next === end && this.hashedBytes === offset) {
+        this.hash.update(chunk)
+        this.hashedBytes = end
+      }
+      await this.hashUpTo(next)
+      offset = next
+      this.reportProgress(offset)
+    }
+
+    this.setStatus('verifying')
+    const result = await readJson<CompletedUpload>(
+      await authorizedFetch(
+        `/api/upload/sessions/${this.session!.sessionId}/complete`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ checksum: this.hash.digest() }),
+        }
+      )
+    )
+
+    this.clearStoredSession()
+    this.setStatus('completed')
+    return result
+  }
+
+  /**
+   * Continue a stored session for this file, or start a new one. Returns
+   * the offset to continue from.
+   */
+  private async openSession(): Promise<number> {
+    const stored = this.loadStoredSession()
+    if (stored) {
+      this.session = stored
+      try {
+        return await this.fetchOffset()
+      } catch (error) {
+        // Expired or finished elsewhere; start over
+        console.warn('Could not resume upload, starting over:', error)
+        this.clearStoredSession()
+      }
+    }
+
+    const session = await readJson<SessionResponse>(
+      await authorizedFetch('/api/upload/sessions', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: this.file.name,
+          size: this.file.size,
+          type: this.contentType,
+          bucket: this.options.bucket,
+          folder: this.options.folder,
+        }),
+      })
+    )
+
+    const response = await fetch(session.upload_endpoint, {
+      method: 'POST',
+      headers: {
+        ...(await this.tusHeaders()),
+        'Upload-Length': String(this.file.size),
+        'Upload-Metadata': [
+          ['bucketName', session.bucket],
+          ['objectName', session.path],
+          ['contentType', this.contentType],
+          ['cacheControl', '3600'],
+        ]
+          .map(([key, value]) => `${key} ${btoa(value)}`)
+          .join(','),
+        'x-upsert': 'false',
+      },
+    })
+    const location = response.headers.get('Location')
+    if (!response.ok || !location) {
+      throw new UploadRequestError(
+        response.status,
+        `Could not start the upload (${response.status})`
+      )
+    }
+
+    this.session = {
+      sessionId: session.id,
+      uploadUrl: new URL(location, session.upload_endpoint).toString(),
+    }
+    this.storeSession()
+    return 0
+  }
+
+  private async fetchOffset(): Promise<number> {
+    const response = await fetch(this.session!.uploadUrl, {
+      method: 'HEAD',
+      headers: await this.tusHeaders(),
+    })
+    const offset = response.headers.get('Upload-Offset')
+    if (!response.ok || offset === null) {
+      throw new UploadRequestError(
+        response.status,
+        `Could not read the upload offset (${response.status})`
+      )
+    }
+    return Number(offset)
+  }
+
+  /**
+   * PATCH one chunk, retrying with backoff. Returns the server's offset
+   * afterwards, which may be short of the chunk end.
+   */
+  private async sendChunk(offset: number, chunk: Uint8Array): Promise<number> {
+    let failures = 0
+    for (;;) {
+      try {
+        return await this.patch(offset, chunk)
+      } catch (error) {
+        this.checkAborted()
+        // Pausing aborts the request; that doesn't count as a failure
+        if (this.paused) {
+          await this.waitWhilePaused()
+          this.checkAborted()
+        } else {
+          const retryable =
+            error instanceof UploadRequestError && error.retryable
+          if (!retryable || failures >= MAX_CHUNK_RETRIES) throw error
+          failures++
+          this.options.onChunkRetry?.(failures, error as Error)
+          await delay(RETRY_DELAYS[failures - 1])
+        }
+      }
+
+      // The chunk may have arrived even though the response didn't
+      const serverOffset = await this.fetchOffset()
+      if (serverOffset !== offset) return serverOffset
+    }
+  }
+
+  private async patch(offset: number, chunk: Uint8Array): Promise<number> {
+    const headers = await this.tusHeaders()
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest()
+      this.request = xhr
+      xhr.open('PATCH', this.session!.uploadUrl)
+      Object.keys(headers).forEach((name) =>
+        xhr.setRequestHeader(name, headers[name])
+      )
+      xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream')
+      xhr.setRequestHeader('Upload-Offset', String(offset))
+
+      xhr.upload.onprogress = (event) =>
+        this.reportProgress(offset + event.loaded)
+      xhr.onload = () => {
+        this.request = null
+        const next = xhr.getResponseHeader('Upload-Offset')
+        if (xhr.status >= 200 && xhr.status < 300 && next !== null) {
+          resolve(Number(next))
+        } else {
+          reject(new UploadRequestError(xhr.status, xhr.responseText))
+        }
+      }
+      xhr.onerror = () => {
+        this.request = null
+        reject(new UploadRequestError(0, 'Network error'))
+      }
+      xhr.onabort = () => {
+        this.request = null
+        reject(new UploadRequestError(0, 'Upload request aborted'))
+      }
+      // The chunk was read into its own buffer, so send that as a whole
+      xhr.send(chunk.buffer as ArrayBuffer)
+    })
+  }
+
+  /**
+   * Hash the file up to `offset`, reading back bytes that were uploaded
+   * before a reload or whose response got lost
+   */
+  private async hashUpTo(offset: number) {
+    while (this.hashedBytes < offset) {
+      this.checkAborted()
+      const end = Math.min(this.hashedBytes + UPLOAD_CHUNK_SIZE, offset)
+      const bytes = await this.file.slice(this.hashedBytes, end).arrayBuffer()
+      this.hash.update(new Uint8Array(bytes))
+      this.hashedBytes = end
+    }
+  }
+
+  private async tusHeaders(): Promise<Record<string, string>> {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+
+    return {
+      Authorization: `Bearer ${session?.access_token ?? ''}`,
+      apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      'Tus-Resumable': TUS_VERSION,
+    }
+  }
+
+  private waitWhilePaused(): Promise<void> {
+    if (!this.paused) return Promise.resolve()
+    return new Promise((resolve) => {
+      this.onResume = resolve
+    })
+  }
+
+  private checkAborted() {
+    if (this.aborted) throw new Error('Upload cancelled')
+  }
+
+  private reportProgress(bytesUploaded: number) {
+    this.bytesUploaded = Math.min(bytesUploaded, this.file.size)
+    this.options.onProgress?.(this.bytesUploaded, this.file.size)
+  }
+
+  private setStatus(status: ResumableUploadStatus) {
+    this.status = status
+    this.options.onStatusChange?.(status)
+  }
+
+  private get storageKey(): string {
+    const { name, size, lastModified } = this.file
+    return `${STORAGE_KEY_PREFIX}${this.options.bucket || 'project-files'}:${this.options.folder || 'uploads'}:${name}:${size}:${lastModified}`
+  }
+
+  private loadStoredSession(): StoredSession | null {
+    try {
+      const stored = localStorage.getItem(this.storageKey)
+      return stored ? (JSON.parse(stored) as StoredSession) : null
+    } catch {
+      return null
+    }
+  }
+
+  private storeSession() {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.session))
+    } catch {
+      // Private browsing: the upload still works, it just can't survive a reload
+    }
+  }
+
+  private clearStoredSession() {
+    try {
+      localStorage.removeItem(this.storageKey)
+    } catch {
+      // Nothing stored
+    }
+  }
+}
@@ -0,0 +1,289 @@
+import {
+  Item,
+  Part,
+  Project,
+  StatusChangeDetails,
+  Version,
+  WorkflowStamp,
+  WorkflowStatus,
+} from '../types'
+
+/**
+ * Review workflow for versions and parts:
+ *
+ *   draft → in review → changes requested → approved → rendered
+ *
+ * Which moves are allowed, and for whom, is data rather than code so teams
+ * can adjust it in one place. Roles are the caller's permission on the
+ * project (`owner` or the collaborator's `permission_level`).
+ */
+export type WorkflowRole = 'owner' | 'admin' | 'edit' | 'view'
+
+export interface WorkflowTransition {
+  from: WorkflowStatus
+  to: WorkflowStatus
+  roles: WorkflowRole[]
+  label: string
+}
+
+export interface WorkflowConfig {
+  statuses: { status: WorkflowStatus; label: string; progress: number }[]
+  transitions: WorkflowTransition[]
+}
+
+const EDITORS: WorkflowRole[] = ['owner', 'admin', 'edit']
+const REVIEWERS: WorkflowRole[] = ['owner', 'admin']
+
+export const DEFAULT_WORKFLOW: WorkflowConfig = {
+  // `progress` is how far along the workflow a status counts as (0-1)
+  statuses: [
+    { status: 'draft', label: 'Draft', progress: 0 },
+    { status: 'in_review', label: 'In Review', progress: 0.5 },
+    { status: 'changes_requested', label: 'Changes Requested', progress: 0.25 },
+    { status: 'approved', label: 'Approved', progress: 0.75 },
+    { status: 'rendered', label: 'Rendered', progress: 1 },
+  ],
+  transitions: [
+    {
+      from: 'draft',
+      to: 'in_review',
+      roles: EDITORS,
+      label: 'Submit for review',
+    },
+    { from: 'in_review', to: 'draft', roles: EDITORS, label: 'Withdraw' },
+    {
+      from: 'in_review',
+      to: 'changes_requested',
+      roles: REVIEWERS,
+      label: 'Request changes',
+    },
+    { from: 'in_review', to: 'approved', roles: REVIEWERS, label: 'Approve' },
+    {
+      from: 'changes_requested',
+      to: 'in_review',
+      roles: EDITORS,
+      label: 'Resubmit',
+    },
+    {
+      from: 'changes_requested',
+      to: 'draft',
+      roles: EDITORS,
+      label: 'Back to draft',
+    },
+    {
+      from: 'approved',
+      to: 'rendered',
+      roles: EDITORS,
+      label: 'Mark rendered',
+    },
+    {
+      from: 'approved',
+      to: 'changes_requested',
+      roles: REVIEWERS,
+      label: 'Reopen',
+    },
+    {
+      from: 'rendered',
+      to: 'changes_requested',
+      roles: REVIEWERS,
+      label: 'Reopen',
+    },
+  ],
+}
+
+export const WORKFLOW_STATUSES: WorkflowStatus[] =
+  DEFAULT_WORKFLOW.statuses.map((entry) => entry.status)
+
+export function isWorkflowStatus(value: unknown): value is WorkflowStatus {
+  return WORKFLOW_STATUSES.includes(value as WorkflowStatus)
+}
+
+export function getStatus(entry: Version | Part): WorkflowStatus {
+  return isWorkflowStatus(entry.status) ? entry.status : 'draft'
+}
+
+export function statusLabel(
+  status: WorkflowStatus,
+  config: WorkflowConfig = DEFAULT_WORKFLOW
+): string {
+  return (
+    config.statuses.find((entry) => entry.status === status)?.label || status
+  )
+}
+
+/**
+ * Moves available from `from` to someone with the given role
+ */
+export function allowedTransitions(
+  from: WorkflowStatus,
+  role: WorkflowRole | null | undefined,
+  config: WorkflowConfig = DEFAULT_WORKFLOW
+): WorkflowTransition[] {
+  if (!role) return []
+  return config.transitions.filter(
+    (transition) => transition.from === from && transition.roles.includes(role)
+  )
+}
+
+export function canTransition(
+  from: WorkflowStatus,
+  to: WorkflowStatus,
+  role: WorkflowRole | null | undefined,
+  config: WorkflowConfig = DEFAULT_WORKFLOW
+): boolean {
+  return allowedTransitions(from, role, config).some(
+    (transition) => transition.to === to
+  )
+}
+
+function withWorkflowFields<T extends WorkflowStamp>(
+  entry: T,
+  stored: WorkflowStamp | undefined
+): T {
+  const {
+    status: _status,
+    status_updated_at: _updatedAt,
+    status_updated_by: _updatedBy,
+    ...rest
+  } = entry
+  if (!stored?.status) return rest as T
+  const { status, status_updated_at, status_updated_by } = stored
+  return { ...rest, status, status_updated_at, status_updated_by } as T
+}
+
+/**
+ * Statuses only move through changeWorkflowStatus (lib/project-workflow.ts),
+ * which checks the transition. Every other save keeps the stored workflow
+ * fields of each version and part, matched by id; ones that weren't stored
+ * yet start as drafts.
+ */
+export function keepWorkflowStatus(stored: Item[], items: Item[]): Item[] {
+  const versions = new Map<string, Version>()
+  const parts = new Map<string, Part>()
+  for (const item of stored) {
+    for (const version of item.versions || []) {
+      versions.set(version.id, version)
+      for (const part of version.parts || []) {
+        if (part.id) parts.set(`${version.id}/${part.id}`, part)
+      }
+    }
+  }
+
+  return items.map((item) =>
+    item.versions
+      ? {
+          ...item,
+          versions: item.versions.map((version) =>
+            withWorkflowFields(
+              {
+                ...version,
+                parts: (version.parts || []).map((part) =>
+                  withWorkflowFields(
+                    part,
+                    part.id ? parts.get(`${version.id}/${part.id}`) : undefined
+                  )
+                ),
+              },
+              versions.get(version.id)
+            )
+          ),
+        }
+      : item
+  )
+}
+
+export type StatusCounts = Record<WorkflowStatus, number>
+
+export interface CompletionSummary {
+  /** 0-100, weighted by each status' progress */
+  percent: number
+  counts: StatusCounts
+  total: number
+}
+
+function emptyCounts(): StatusCounts {
+  return {
+    draft: 0,
+    in_review: 0,
+    changes_requested: 0,
+    approved: 0,
+    rendered: 0,
+  }
+}
+
+/**
+ * The version being worked on; earlier versions are superseded and don't
+ * count towards completion
+ */
+export function getCurrentVersion(item: Item): Version | null {
+  if (!item.versions || item.versions.length === 0) return null
+  return item.versions.reduce((latest, version) =>
+    version.versionNumber > latest.versionNumber ? version : latest
+  )
+}
+
+/**
+ * Statuses that count towards an item's completion: the parts of its
+ * current version, or the version itself while it has no parts. Legacy
+ * items without versions count their parts as drafts.
+ */
+function itemStatuses(item: Item): WorkflowStatus[] {
+  const version = getCurrentVersion(item)
+  if (!version) return (item.parts || []).map(getStatus)
+  if (version.parts.length === 0) return [getStatus(version)]
+  return version.parts.map(getStatus)
+}
+
+export function summarizeStatuses(
+  statuses: WorkflowStatus[],
+  config: WorkflowConfig = DEFAULT_WORKFLOW
+): CompletionSummary {
+  const counts = emptyCounts()
+  let progress = 0
+
+  for (const status of statuses) {
+    counts[status]++
+    progress +=
+      config.statuses.find((entry) => entry.status === status)?.progress || 0
+  }
+
+  return {
+    percent:
+      statuses.length > 0 ? Math.round((progress / statuses.length) * 100) : 0,
+    counts,
+    total: statuses.length,
+  }
+}
+
+export function getItemCompletion(
+  item: Item,
+  config: WorkflowConfig = DEFAULT_WORKFLOW
+): CompletionSummary {
+  return summarizeStatuses(itemStatuses(item), config)
+}
+
+export function getProjectCompletion(
+  project: Pick<Project, 'items'>,
+  config: WorkflowConfig = DEFAULT_WORKFLOW
+): CompletionSummary {
+  return summarizeStatuses(
+    (project.items || []).flatMap((item) => itemStatuses(item)),
+    config
+  )
+}
+
+/**
+ * A project is complete once everything in it has been rendered
+ */
+export function isProjectComplete(project: Pick<Project, 'items'>): boolean {
+  const { counts, total } = getProjectCompletion(project)
+  return total > 0 && counts.rendered === total
+}
+
+export function describeStatusChange(change: StatusChangeDetails): string {
+  const target =
+    change.target === 'part'
+      ? `"${change.part_name || 'Unnamed part'}" (${change.item_name}, Version ${change.version_number})`
+      : `Version ${change.version_number} of "${change.item_name}"`
+  return `${target}: ${statusLabel(change.from)} → ${statusLabel(change.to)}`
+}
@@ -0,0 +1,78 @@
+/**
+ * File types accepted for upload, shared by the upload hooks and the
+ * upload session routes
+ */
+
+// Browsers leave File.type empty for most render formats
+const RENDER_FILE_TYPES: Record<string, string> = {
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  psd: 'image/vnd.adobe.photoshop',
+  psb: 'image/vnd.adobe.photoshop',
+  exr: 'image/x-exr',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  pdf: 'application/pdf',
+}
+
+// Shown through their derivatives, see lib/render-formats.ts
+export const RENDER_CONTENT_TYPES = [
+  'image/tiff',
+  'image/vnd.adobe.photoshop',
+  'image/x-exr',
+  'image/heic',
+  'image/heif',
+  'application/pdf',
+]
+
+export const IMAGE_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/svg+xml',
+]
+
+// For `accept` attributes: file pickers filter these by extension only
+export const RENDER_FILE_EXTENSIONS = Object.keys(RENDER_FILE_TYPES).map(
+  (extension) => `.${extension}`
+)
+
+export const UPLOAD_ACCEPT = ['image/*', ...RENDER_FILE_EXTENSIONS].join(',')
+
+const TYPE_LABELS: Record<string, string> = {
+  'image/svg+xml': 'SVG',
+  'image/tiff': 'TIFF',
+  'image/vnd.adobe.photoshop': 'PSD',
+  'image/x-exr': 'EXR',
+  'application/pdf': 'PDF',
+}
+
+export function getContentTypeLabel(type: string): string {
+  return TYPE_LABELS[type] || (type.split('/')[1] || type).toUpperCase()
+}
+
+export function getFileExtension(name: string): string {
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : ''
+}
+
+/**
+ * The file's MIME type, falling back to its extension for render formats.
+ * Multipart bodies send files of unknown type as application/octet-stream.
+ */
+export function getUploadContentType(file: {
+  name: string
+  type: string
+}): string {
+  const type = file.type === 'application/octet-stream' ? '' : file.type
+  return (
+    type ||
+    RENDER_FILE_TYPES[getFileExtension(file.name)] ||
+    'application/octet-stream'
+  )
+}
+
+export function isUploadableType(type: string): boolean {
+  return type.startsWith('image/') || RENDER_CONTENT_TYPES.includes(type)
+}
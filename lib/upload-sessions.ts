@@ -0,0 +1,213 @@
+import { createHash } from 'crypto'
+import { supabaseAdmin } from './supaAdmin'
+import { ApiError } from './api-errors'
+import { getFileExtension, isUploadableType } from './upload-files'
+import { getStoredFile, promoteUpload } from './asset-storage'
+import { CompletedUpload, UploadBucket, UploadSession } from '../types'
+
+/**
+ * Server side of resumable uploads. A session reserves a storage path for
+ * one file; the browser then sends the bytes straight to Supabase Storage's
+ * resumable (tus) endpoint in chunks, so large renders never pass through
+ * an API route. On completion the stored object is hashed and compared
+ * with the checksum the browser computed while reading the file.
+ */
+
+const SESSION_COLUMNS =
+  'id, user_id, bucket, path, name, content_type, size, checksum, status, created_at, completed_at'
+
+function storageUrl(path: string): string {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/${path}`
+}
+
+export function getResumableEndpoint(): string {
+  return storageUrl('upload/resumable')
+}
+
+export async function createUploadSession(
+  userId: string,
+  file: {
+    name: string
+    size: number
+    type: string
+    bucket: UploadBucket
+    folder: string
+  }
+): Promise<UploadSession> {
+  if (!isUploadableType(file.type)) {
+    throw new ApiError(
+      'validation_failed',
+      `File type ${file.type} is not supported`
+    )
+  }
+
+  // Staging path; completion moves the file to its content path
+  const extension = getFileExtension(file.name) || 'bin'
+  const randomId = Math.random().toString(36).substring(2)
+  const path = `${file.folder}/${Date.now()}-${randomId}.${extension}`
+
+  const { data, error } = await supabaseAdmin
+    .from('upload_sessions')
+    .insert([
+      {
+        user_id: userId,
+        bucket: file.bucket,
+        path,
+        name: file.name,
+        content_type: file.type,
+        size: file.size,
+        status: 'uploading',
+      },
+    ])
+    .select(SESSION_COLUMNS)
+    .single()
+
+  if (error) throw error
+
+  return data as UploadSession
+}
+
+export async function getUploadSession(
+  userId: string,
+  sessionId: string
+): Promise<UploadSession> {
+  const { data, error } = await supabaseAdmin
+    .from('upload_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new ApiError('not_found', 'Upload session not found')
+
+  return data as UploadSession
+}
+
+/**
+ * Stream the stored object through SHA-256 without holding it in memory.
+ * Returns null when the object doesn't exist (yet).
+ */
+async function hashStoredObject(
+  session: UploadSession
+): Promise<{ checksum: string; size: number } | null> {
+  const response = await fetch(
+    storageUrl(`object/authenticated/${session.bucket}/${session.path}`),
+    {
+      headers: {
+        Authorization: `Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY}`,
+      },
+    }
+  )
+  if (response.status === 400 || response.status === 404) return null
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to read uploaded file: ${response.status}`)
+  }
+
+  const hash = createHash('sha256')
+  const reader = response.body.getReader()
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    hash.update(value)
+    size += value.length
+  }
+
+  return { checksum: hash.digest('hex'), size }
+}
+
+async function setStatus(
+  session: UploadSession,
+  changes: Partial<UploadSession>
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('upload_sessions')
+    .update(changes)
+    .eq('id', session.id)
+
+  if (error) throw error
+}
+
+/**
+ * Verify an upload once every chunk is in. A file whose size or checksum
+ * doesn't match is deleted, so a corrupted render is never linked. Verified
+ * files move to their content path, where a render uploaded before is
+ * reused with its derivatives.
+ */
+export async function completeUploadSession(
+  session: UploadSession,
+  checksum: string
+): Promise<CompletedUpload> {
+  if (session.status === 'failed') {
+    throw new ApiError('conflict', 'This upload failed verification')
+  }
+
+  const result = {
+    bucket: session.bucket,
+    name: session.name,
+    type: session.content_type,
+    size: session.size,
+  }
+
+  // Completing twice (e.g. a retried request) is fine with the same checksum
+  if (session.status === 'completed') {
+    if (session.checksum !== checksum) {
+      throw new ApiError('conflict', 'Checksum does not match the upload')
+    }
+    return {
+      ...result,
+      ...(await getStoredFile(session.bucket, {
+        name: session.name,
+        checksum,
+      })),
+    }
+  }
+
+  const stored = await hashStoredObject(session)
+  if (!stored) {
+    throw new ApiError('conflict', 'The upload has not finished yet')
+  }
+
+  if (stored.size !== session.size || stored.checksum !== checksum) {
+    await supabaseAdmin.storage.from(session.bucket).remove([session.path])
+    await setStatus(session, { status: 'failed' })
+    throw new ApiError(
+      'conflict',
+      'Checksum verification failed; the file was discarded',
+      { expected: checksum, actual: stored.checksum, size: stored.size }
+    )
+  }
+
+  // The session path is only a staging area, the file moves to its content path
+  const file = await promoteUpload(session.bucket, session.path, {
+    name: session.name,
+    checksum,
+  })
+
+  await setStatus(session, {
+    status: 'completed',
+    checksum,
+    completed_at: new Date().toISOString(),
+  })
+
+  return { ...result, ...file }
+}
+
+/**
+ * Give up on an upload: remove whatever was stored and the session
+ */
+export async function abortUploadSession(
+  session: UploadSession
+): Promise<void> {
+  if (session.status !== 'completed') {
+    await supabaseAdmin.storage.from(session.bucket).remove([session.path])
+  }
+
+  const { error } = await supabaseAdmin
+    .from('upload_sessions')
+    .delete()
+    .eq('id', session.id)
+
+  if (error) throw error
+}
@@ -1,42 +1,7 @@
-import { Project, Item, Part, hasVersions, getAllItemParts } from '../types'
-
-// Extended interfaces for visual editor
-interface ExtendedItem extends Omit<Item, 'parts' | 'versions'> {
-  needs_packaging?: boolean
-  needs_logo?: boolean
-  packaging_type?: string
-  custom_logo?: string
-  notes?: string
-  parts?: Array<{
-    name: string
-    finish: string
-    color: string
-    texture: string
-    notes?: string
-    annotation_data?: {
-      x: number
-      y: number
-      id: string
-    }
-  }>
-  versions?: Array<{
-    id: string
-    versionNumber: number
-    versionName?: string
-    parts: Array<{
-      name: string
-      finish: string
-      color: string
-      texture: string
-      notes?: string
-      annotation_data?: {
-        x: number
-        y: number
-        id: string
-      }
-    }>
-  }>
-}
+import { Project, Item, ItemImage, Part, getItemParts } from '../types'
+import { getLogoLabel, getPackagingLabel } from './item-details'
+import { getImageLabel, getPartAnnotation, getVersionImages } from './item-images'
+import { getImageUrl } from './image-derivatives'
 
 export interface VisualEditorExportOptions {
   title: string
@@ -51,11 +16,11 @@ export interface VisualEditorExportOptions {
 }
 
 export class VisualEditorHTMLGenerator {
-  private project: Project & { items?: ExtendedItem[] }
+  private project: Project
   private options: VisualEditorExportOptions
 
   constructor(project: Project, options: VisualEditorExportOptions) {
-    this.project = project as Project & { items?: ExtendedItem[] }
+    this.project = project
     this.options = options
   }
 
@@ -219,6 +184,42 @@ export class VisualEditorHTMLGenerator {
             transform: scale(1.02);
         }
 
+        .image-view {
+            position: absolute;
+            inset: 20px;
+            display: none;
+            align-items: center;
+            justify-content: center;
+        }
+
+        .image-view.active {
+            display: flex;
+        }
+
+        .angle-tabs {
+            position: absolute;
+            bottom: 12px;
+            left: 50%;
+            transform: translateX(-50%);
+            display: flex;
+            gap: 6px;
+            z-index: 2;
+        }
+
+        .angle-tab {
+            padding: 4px 12px;
+            border: none;
+            border-radius: 999px;
+            background: rgba(0, 0, 0, 0.5);
+            color: white;
+            font-size: 12px;
+            cursor: pointer;
+        }
+
+        .angle-tab.active {
+            background: #3b82f6;
+        }
+
         .annotation-overlay {
             position: absolute;
             top: 0;
@@ -551,29 +552,41 @@ export class VisualEditorHTMLGenerator {
     return this.project.items.map((item, index) => this.generateItemSlide(item, index)).join('')
   }
 
-  private generateItemSlide(item: ExtendedItem, index: number): string {
-    const hasImage = item.hero_image
-    // Get parts from versions or legacy format
-    const itemWithVersions = item as Item
-    const parts = hasVersions(itemWithVersions)
-      ? (itemWithVersions.versions?.[0]?.parts || [])
-      : (item.parts || [])
-    const annotations = this.generateAnnotations(parts)
+  private generateItemSlide(item: Item, index: number): string {
+    // Markers are placed on the images of the version getItemParts reads
+    const images = getVersionImages(item, item.versions?.[0])
+    const parts = getItemParts(item)
 
     return `
         <div class="slide ${index === 0 ? 'active' : ''}" data-slide="${index}">
             <div class="slide-content">
                 <div class="image-section">
-                    ${hasImage ? `
-                        <img 
-                            src="${item.hero_image}" 
-                            alt="${item.name}" 
-                            class="item-image"
-                            id="item-image-${index}"
-                        />
-                        ${this.options.showAnnotations && annotations ? `
-                            <div class="annotation-overlay">
-                                ${annotations}
+                    ${images.length > 0 ? `
+                        ${images.map((image, imageIndex) => {
+                          const annotations = this.generateAnnotations(parts, images, image.id)
+                          return `
+                            <div class="image-view ${imageIndex === 0 ? 'active' : ''}" data-view="${imageIndex}">
+                                <img 
+                                    src="${getImageUrl(image, 'full')}" 
+                                    alt="${item.name} (${getImageLabel(image)})" 
+                                    class="item-image"
+                                    id="item-image-${index}-${imageIndex}"
+                                />
+                                ${this.options.showAnnotations && annotations ? `
+                                    <div class="annotation-overlay">
+                                        ${annotations}
+                                    </div>
+                                ` : ''}
+                            </div>
+                          `
+                        }).join('')}
+                        ${images.length > 1 ? `
+                            <div class="angle-tabs">
+                                ${images.map((image, imageIndex) => `
+                                    <button class="angle-tab ${imageIndex === 0 ? 'active' : ''}" onclick="showImageView(${index}, ${imageIndex})">
+                                        ${getImageLabel(image)}
+                                    </button>
+                                `).join('')}
                             </div>
                         ` : ''}
                     ` : `
@@ -599,13 +612,19 @@ export class VisualEditorHTMLGenerator {
                             <span class="info-value">${parts.length}</span>
                         </div>
                         <div class="info-row">
-                            <span class="info-label">Has Packaging:</span>
-                            <span class="info-value">${item.needs_packaging ? 'Yes' : 'No'}</span>
+                            <span class="info-label">Packaging:</span>
+                            <span class="info-value">${item.needs_packaging ? getPackagingLabel(item.packaging_type) || 'Yes' : 'No'}</span>
+                        </div>
+                        <div class="info-row">
+                            <span class="info-label">Logo:</span>
+                            <span class="info-value">${item.needs_logo ? getLogoLabel(item) : 'No'}</span>
                         </div>
+                        ${item.notes ? `
                         <div class="info-row">
-                            <span class="info-label">Has Logo:</span>
-                            <span class="info-value">${item.needs_logo ? 'Yes' : 'No'}</span>
+                            <span class="info-label">Notes:</span>
+                            <span class="info-value">${item.notes}</span>
                         </div>
+                        ` : ''}
                     </div>
                     
                     ${this.options.showPartDetails && parts.length > 0 ? `
@@ -620,14 +639,15 @@ export class VisualEditorHTMLGenerator {
     `
   }
 
-  private generateAnnotations(parts: ExtendedItem['parts']): string {
+  private generateAnnotations(parts: Part[], images: ItemImage[], imageId: string): string {
     if (!parts || parts.length === 0) {
       return ''
     }
     return parts
-      .filter(part => part.annotation_data)
-      .map((part, index) => {
-        const { x, y } = part.annotation_data!
+      .map(part => ({ part, point: getPartAnnotation(part, images, imageId) }))
+      .filter(({ point }) => point)
+      .map(({ part, point }, index) => {
+        const { x, y } = point!
         const color = part.color || '#3b82f6'
         
         return `
@@ -650,7 +670,7 @@ export class VisualEditorHTMLGenerator {
       .join('')
   }
 
-  private generatePartDetails(part: NonNullable<ExtendedItem['parts']>[0], index: number): string {
+  private generatePartDetails(part: Part, index: number): string {
     return `
         <div class="part-item">
             <div class="part-header">
@@ -753,6 +773,17 @@ export class VisualEditorHTMLGenerator {
             }
         }
 
+        function showImageView(slideIndex, viewIndex) {
+            const slide = document.querySelector('.slide[data-slide="' + slideIndex + '"]');
+            if (!slide) return;
+            slide.querySelectorAll('.image-view').forEach(view => {
+                view.classList.toggle('active', view.dataset.view === String(viewIndex));
+            });
+            slide.querySelectorAll('.angle-tab').forEach((tab, tabIndex) => {
+                tab.classList.toggle('active', tabIndex === viewIndex);
+            });
+        }
+
         function changeImageFit(value) {
             document.querySelectorAll('.item-image').forEach(img => {
                 img.style.objectFit = value;
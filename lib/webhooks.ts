@@ -0,0 +1,438 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto'
+import { supabaseAdmin } from './supaAdmin'
+import { ApiError } from './api-errors'
+import {
+  AuthenticatedUser,
+  ProjectPermission,
+  requireProjectAccess,
+} from './api-auth'
+import { BlockedUrlError, fetchPublicUrl } from './outbound-fetch'
+import {
+  ProjectLog,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookPayload,
+} from '../types'
+
+/**
+ * Outgoing webhooks. Every project_logs insert is forwarded here (see
+ * docs/create-webhooks.sql) and fanned out to the project's webhooks and
+ * the webhooks of the project owner's team. A webhook only receives a
+ * project's events while its creator can access the project, and a team
+ * webhook only while its creator administers the team. Endpoints must be
+ * on the public internet (lib/outbound-fetch.ts); their responses are not
+ * stored, only the status code.
+ */
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'project_created',
+  'project_updated',
+  'project_restored',
+  'due_date_updated',
+  'collaborator_joined',
+  'export_completed',
+  'status_changed',
+  'approval_recorded',
+]
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature'
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp'
+
+/** Delay before each retry; a delivery fails for good after the last one */
+const RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+]
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1
+const REQUEST_TIMEOUT_MS = 10 * 1000
+
+export const WEBHOOK_COLUMNS =
+  'id, project_id, team, url, events, active, created_by, created_at, updated_at'
+
+export const DELIVERY_COLUMNS =
+  'id, webhook_id, project_id, log_id, event, payload, status, attempts, response_status, error, next_attempt_at, delivered_at, created_at'
+
+type LogEntry = Pick<
+  ProjectLog,
+  'project_id' | 'user_id' | 'action' | 'details' | 'timestamp'
+> & { id?: string }
+
+export function isWebhookEvent(action: string): action is WebhookEvent {
+  return (WEBHOOK_EVENTS as string[]).includes(action)
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`. Receivers should recompute it
+ * with their secret and reject old timestamps to prevent replays.
+ */
+export function signPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')
+  return `sha256=${digest}`
+}
+
+export async function getUserTeam(userId: string): Promise<string | null> {
+  const { data: profile } = await supabaseAdmin
+    .from('user_profiles')
+    .select('team')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return profile?.team || null
+}
+
+/**
+ * Team admins are assigned in the team_admins table by the portal's
+ * operators; picking a team in Settings doesn't make anyone an admin
+ */
+export async function isTeamAdmin(
+  userId: string,
+  team: string
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('team_admins')
+    .select('user_id')
+    .eq('team', team)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return !!data
+}
+
+async function getProjectPermission(
+  userId: string,
+  projectId: string
+): Promise<ProjectPermission | null> {
+  const { data: project } = await supabaseAdmin
+    .from('projects')
+    .select('user_id')
+    .eq('id', projectId)
+    .maybeSingle()
+
+  if (!project) return null
+  if (project.user_id === userId) return 'owner'
+
+  const { data: collaborator } = await supabaseAdmin
+    .from('project_collaborators')
+    .select('permission_level')
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return collaborator?.permission_level || null
+}
+
+/**
+ * Whether a webhook may receive a project's events now: its creator must
+ * still have access to the project, and for a team webhook still be an
+ * admin of the team
+ */
+async function canReceiveProjectEvents(
+  webhook: Pick<Webhook, 'team' | 'created_by'>,
+  projectId: string
+): Promise<boolean> {
+  if (!webhook.created_by) return false
+  if (webhook.team && !(await isTeamAdmin(webhook.created_by, webhook.team))) {
+    return false
+  }
+  return (await getProjectPermission(webhook.created_by, projectId)) !== null
+}
+
+/**
+ * The team a project's webhooks are shared with is its owner's team
+ */
+export async function getProjectTeam(
+  projectId: string
+): Promise<string | null> {
+  const { data: project } = await supabaseAdmin
+    .from('projects')
+    .select('user_id')
+    .eq('id', projectId)
+    .maybeSingle()
+
+  if (!project) return null
+
+  return getUserTeam(project.user_id)
+}
+
+/**
+ * Webhooks registered on the project itself or on the owner's team
+ */
+export async function getWebhooksForProject(
+  projectId: string
+): Promise<Webhook[]> {
+  const team = await getProjectTeam(projectId)
+
+  let query = supabaseAdmin
+    .from('webhooks')
+    .select(WEBHOOK_COLUMNS)
+    .order('created_at', { ascending: true })
+
+  query = team
+    ? query.or(`project_id.eq.${projectId},team.eq.${team}`)
+    : query.eq('project_id', projectId)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return (data || []) as Webhook[]
+}
+
+/**
+ * Queue a delivery for every active webhook subscribed to this log's
+ * action, then attempt each one right away
+ */
+export async function dispatchProjectLog(log: LogEntry): Promise<number> {
+  if (!isWebhookEvent(log.action)) return 0
+
+  const event = log.action
+  const subscribed = (await getWebhooksForProject(log.project_id)).filter(
+    (webhook) => webhook.active && webhook.events.includes(event)
+  )
+  const allowed = await Promise.all(
+    subscribed.map((webhook) =>
+      canReceiveProjectEvents(webhook, log.project_id)
+    )
+  )
+  const webhooks = subscribed.filter((_, index) => allowed[index])
+
+  if (webhooks.length === 0) return 0
+
+  const deliveries = webhooks.map((webhook) => {
+    const id = randomUUID()
+    const payload: WebhookPayload = {
+      id,
+      event,
+      project_id: log.project_id,
+      log_id: log.id || null,
+      user_id: log.user_id || null,
+      timestamp: log.timestamp,
+      details: log.details || {},
+    }
+    return {
+      id,
+      webhook_id: webhook.id,
+      project_id: log.project_id,
+      log_id: log.id || null,
+      event,
+      payload,
+      status: 'pending',
+      next_attempt_at: new Date().toISOString(),
+    }
+  })
+
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .insert(deliveries)
+    .select(DELIVERY_COLUMNS)
+
+  if (error) throw error
+
+  await Promise.all(
+    (data as WebhookDelivery[]).map((delivery) => attemptDelivery(delivery))
+  )
+
+  return deliveries.length
+}
+
+/**
+ * POST one delivery and record the outcome. Failures are rescheduled with
+ * backoff until MAX_ATTEMPTS is reached.
+ */
+export async function attemptDelivery(
+  delivery: WebhookDelivery
+): Promise<WebhookDelivery> {
+  const { data: webhook, error: webhookError } = await supabaseAdmin
+    .from('webhooks')
+    .select('url, secret, active, team, created_by')
+    .eq('id', delivery.webhook_id)
+    .single()
+
+  if (webhookError || !webhook) {
+    return recordAttempt(delivery, {
+      error: 'Webhook no longer exists',
+      final: true,
+    })
+  }
+
+  if (!webhook.active) {
+    return recordAttempt(delivery, {
+      error: 'Webhook is disabled',
+      final: true,
+    })
+  }
+
+  // Access may have been revoked since the delivery was queued
+  if (
+    delivery.project_id &&
+    !(await canReceiveProjectEvents(webhook, delivery.project_id))
+  ) {
+    return recordAttempt(delivery, {
+      error: 'Webhook creator no longer has access to the project',
+      final: true,
+    })
+  }
+
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+
+  try {
+    const response = await fetchPublicUrl(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'CoreRenderPortal-Webhooks/1.0',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+
+    // Only the status is kept; the body is never read
+    await response.body?.cancel()
+
+    return recordAttempt(delivery, {
+      responseStatus: response.status,
+      succeeded: response.ok,
+      error: response.ok
+        ? null
+        : response.status >= 300 && response.status < 400
+          ? `Endpoint redirected (${response.status}); redirects aren't followed`
+          : `Endpoint responded with ${response.status}`,
+    })
+  } catch (error) {
+    // A blocked address won't become public by retrying
+    return recordAttempt(delivery, {
+      error:
+        error instanceof BlockedUrlError
+          ? error.message
+          : error instanceof Error && error.name === 'TimeoutError'
+            ? 'Request timed out'
+            : 'Request failed',
+      final: error instanceof BlockedUrlError,
+    })
+  }
+}
+
+async function recordAttempt(
+  delivery: WebhookDelivery,
+  outcome: {
+    responseStatus?: number
+    succeeded?: boolean
+    error?: string | null
+    final?: boolean
+  }
+): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1
+  const now = new Date()
+
+  let status: WebhookDelivery['status'] = 'pending'
+  let nextAttemptAt: string | null = null
+
+  if (outcome.succeeded) {
+    status = 'succeeded'
+  } else if (outcome.final || attempts >= MAX_ATTEMPTS) {
+    status = 'failed'
+  } else {
+    nextAttemptAt = new Date(
+      now.getTime() + RETRY_DELAYS_MS[attempts - 1]
+    ).toISOString()
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update({
+      status,
+      attempts,
+      response_status: outcome.responseStatus ?? null,
+      error: outcome.error ?? null,
+      next_attempt_at: nextAttemptAt,
+      delivered_at: outcome.succeeded ? now.toISOString() : null,
+    })
+    .eq('id', delivery.id)
+    .select(DELIVERY_COLUMNS)
+    .single()
+
+  if (error) throw error
+
+  return data as WebhookDelivery
+}
+
+/**
+ * Retry every pending delivery whose backoff has elapsed. Called by the
+ * cron route.
+ */
+export async function retryDueDeliveries(limit = 50): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .select(DELIVERY_COLUMNS)
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit)
+
+  if (error) throw error
+
+  const due = (data || []) as WebhookDelivery[]
+  for (const delivery of due) {
+    await attemptDelivery(delivery)
+  }
+
+  return due.length
+}
+
+/**
+ * Send a delivery again from the delivery log. Resets its attempts so a
+ * failed delivery gets a fresh round of retries.
+ */
+export async function redeliver(
+  delivery: WebhookDelivery
+): Promise<WebhookDelivery> {
+  return attemptDelivery({ ...delivery, attempts: 0 })
+}
+
+/**
+ * Project webhooks can be managed by project owners and admins; team
+ * webhooks by admins of that team
+ */
+export async function requireWebhookAccess(
+  auth: AuthenticatedUser,
+  webhookId: string
+): Promise<Webhook> {
+  const { data, error } = await supabaseAdmin
+    .from('webhooks')
+    .select(WEBHOOK_COLUMNS)
+    .eq('id', webhookId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) {
+    throw new ApiError('not_found', 'Webhook not found')
+  }
+
+  const webhook = data as Webhook
+
+  if (webhook.project_id) {
+    await requireProjectAccess(auth, webhook.project_id, 'admin')
+  } else if (!(await isTeamAdmin(auth.user.id, webhook.team!))) {
+    throw new ApiError('not_found', 'Webhook not found')
+  }
+
+  return webhook
+}
@@ -5,6 +5,10 @@ const nextConfig = {
   },
   // Transpile Excalidraw packages for proper module resolution
   transpilePackages: ['@excalidraw/excalidraw'],
+  experimental: {
+    // Render format decoders ship native and WASM binaries; load them from node_modules
+    serverComponentsExternalPackages: ['pdfjs-dist', '@napi-rs/canvas', 'heic-decode', 'libheif-js'],
+  },
   webpack: (config, { isServer }) => {
     if (!isServer) {
       // Handle Node.js polyfills for client-side
@@ -0,0 +1,112 @@
+/**
+ * Rewrite every stored project in the current document schema.
+ *
+ *   npm run backfill-schema              # upgrade and save
+ *   npm run backfill-schema -- --dry-run # only report what would change
+ *
+ * Needs docs/add-project-schema-version.sql to have been run. Projects are
+ * upgraded with the same pipeline the app uses on read, so running this is
+ * optional but keeps stored JSON and exports free of legacy shapes.
+ */
+import { createClient } from '@supabase/supabase-js'
+import { config } from 'dotenv'
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  migrateItems,
+} from '../lib/project-migrations'
+
+config({ path: '.env.local' })
+
+const PAGE_SIZE = 100
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+const dryRun = process.argv.includes('--dry-run')
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('❌ Missing Supabase environment variables')
+  console.error('Please ensure your .env.local file contains:')
+  console.error('NEXT_PUBLIC_SUPABASE_URL=your_supabase_url')
+  console.error('SUPABASE_SERVICE_ROLE_KEY=your_service_role_key')
+  process.exit(1)
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+async function backfillProjectSchema() {
+  console.log(
+    `🚀 Upgrading projects to schema version ${CURRENT_SCHEMA_VERSION}${
+      dryRun ? ' (dry run)' : ''
+    }...\n`
+  )
+
+  let upgraded = 0
+  let unchanged = 0
+  let failed = 0
+
+  // Page by id: upgraded rows drop out of the filter, so offsets would skip rows
+  let lastId: string | null = null
+  for (;;) {
+    let query = supabase
+      .from('projects')
+      .select('id, title, items, schema_version')
+      .lt('schema_version', CURRENT_SCHEMA_VERSION)
+      .order('id')
+      .limit(PAGE_SIZE)
+    if (lastId) query = query.gt('id', lastId)
+
+    const { data: projects, error } = await query
+
+    if (error) {
+      console.error('❌ Error loading projects:', error.message)
+      process.exit(1)
+    }
+    if (!projects || projects.length === 0) break
+
+    for (const project of projects) {
+      const fromVersion = getSchemaVersion(project)
+      const items = migrateItems(project.items, fromVersion)
+      const changed = JSON.stringify(items) !== JSON.stringify(project.items)
+
+      if (changed) {
+        upgraded++
+        console.log(
+          `🔁 ${project.title} (${project.id}): v${fromVersion} → v${CURRENT_SCHEMA_VERSION}`
+        )
+      } else {
+        unchanged++
+      }
+
+      if (dryRun) continue
+
+      const { error: updateError } = await supabase
+        .from('projects')
+        .update({
+          ...(changed && { items }),
+          schema_version: CURRENT_SCHEMA_VERSION,
+        })
+        .eq('id', project.id)
+
+      if (updateError) {
+        failed++
+        console.error(`❌ ${project.id}: ${updateError.message}`)
+      }
+    }
+
+    lastId = projects[projects.length - 1].id
+    if (projects.length < PAGE_SIZE) break
+  }
+
+  console.log(
+    `\n✅ ${dryRun ? 'Would upgrade' : 'Upgraded'} ${upgraded} project${
+      upgraded !== 1 ? 's' : ''
+    }, ${unchanged} already in the current shape`
+  )
+  if (failed > 0) {
+    console.error(`❌ ${failed} project${failed !== 1 ? 's' : ''} failed`)
+    process.exit(1)
+  }
+}
+
+backfillProjectSchema()
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { fakeSupabase, apiRequest } from './supabase-fake'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { ApiError } from '@/lib/api-errors'
+
+vi.mock('@/lib/supaAdmin', async () => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return { supabaseAdmin: fakeSupabase.admin }
+})
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return {
+    ...(await importOriginal<object>()),
+    createClient: (_url: string, _key: string, options?: any) =>
+      fakeSupabase.clientFor(options?.global?.headers?.Authorization),
+  }
+})
+
+async function sessionFor(userId: string) {
+  const token = fakeSupabase.signIn(userId)
+  return requireAuth(apiRequest('/api/v1/projects', token))
+}
+
+describe('requireProjectAccess with a session', () => {
+  beforeEach(() => {
+    fakeSupabase.reset()
+    fakeSupabase.tables.projects = [
+      {
+        id: 'project-1',
+        user_id: 'owner-1',
+        title: 'Lobby',
+        retailer: 'Acme',
+        items: [],
+        schema_version: 6,
+      },
+    ]
+    fakeSupabase.tables.project_collaborators = [
+      {
+        project_id: 'project-1',
+        user_id: 'editor-1',
+        permission_level: 'edit',
+      },
+      {
+        project_id: 'project-1',
+        user_id: 'viewer-1',
+        permission_level: 'view',
+      },
+    ]
+  })
+
+  it('lets the owner past an edit gate', async () => {
+    const auth = await sessionFor('owner-1')
+    const { permission, project } = await requireProjectAccess(
+      auth,
+      'project-1',
+      'edit'
+    )
+    expect(permission).toBe('owner')
+    expect(project.title).toBe('Lobby')
+  })
+
+  it("uses a collaborator's permission level", async () => {
+    const auth = await sessionFor('editor-1')
+    const { permission } = await requireProjectAccess(auth, 'project-1', 'edit')
+    expect(permission).toBe('edit')
+    await expect(
+      requireProjectAccess(auth, 'project-1', 'admin')
+    ).rejects.toMatchObject({ code: 'forbidden' })
+  })
+
+  it('keeps viewers out of edit gates', async () => {
+    const auth = await sessionFor('viewer-1')
+    await expect(
+      requireProjectAccess(auth, 'project-1', 'edit')
+    ).rejects.toBeInstanceOf(ApiError)
+    const { permission } = await requireProjectAccess(auth, 'project-1')
+    expect(permission).toBe('view')
+  })
+
+  it("hides projects the user isn't part of", async () => {
+    const auth = await sessionFor('stranger-1')
+    await expect(requireProjectAccess(auth, 'project-1')).rejects.toMatchObject(
+      { code: 'not_found' }
+    )
+  })
+})
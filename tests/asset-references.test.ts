@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest'
+import {
+  collectJsonReferences,
+  collectProjectReferences,
+  findOrphanedObjects,
+  getContentChecksum,
+  getContentPath,
+  isContentPath,
+  isExistingObjectError,
+  parseStorageUrl,
+} from '@/lib/asset-references'
+import { ImageDerivatives, Item, StorageObject } from '@/types'
+
+const SHA = 'ab'.repeat(32)
+const BASE = 'https://example.supabase.co/storage/v1/object/public'
+const url = (bucket: string, path: string) => `${BASE}/${bucket}/${path}`
+
+const DERIVATIVE_FILES = ['thumb', 'preview', 'full'].reduce<string[]>(
+  (files, size) =>
+    files.concat([`${size}.avif`, `${size}.webp`, `${size}.jpg`]),
+  []
+)
+
+const derivatives = (base: string): ImageDerivatives => {
+  const rendition = (size: string) => ({
+    width: 10,
+    height: 10,
+    avif: url('project-files', `derivatives/${base}/${size}.avif`),
+    webp: url('project-files', `derivatives/${base}/${size}.webp`),
+    jpeg: url('project-files', `derivatives/${base}/${size}.jpg`),
+  })
+  return {
+    width: 10,
+    height: 10,
+    blurhash: '',
+    sizes: {
+      thumb: rendition('thumb'),
+      preview: rendition('preview'),
+      full: rendition('full'),
+    },
+  }
+}
+
+const object = (
+  path: string,
+  created_at = '2024-01-01T00:00:00Z',
+  bucket: StorageObject['bucket'] = 'project-files'
+): StorageObject => ({ bucket, path, size: 10, created_at })
+
+describe('content paths', () => {
+  it('names objects by checksum', () => {
+    const path = getContentPath(SHA, 'PNG')
+    expect(path).toBe(`objects/ab/${SHA}.png`)
+    expect(getContentChecksum(path)).toBe(SHA)
+    expect(isContentPath(path)).toBe(true)
+    expect(isContentPath(`derivatives/objects/ab/${SHA}/thumb.webp`)).toBe(true)
+    expect(isContentPath('uploads/1700-render.png')).toBe(false)
+    expect(getContentChecksum('uploads/1700-render.png')).toBeNull()
+  })
+
+  it('treats a refused overwrite as already stored', () => {
+    expect(
+      isExistingObjectError({ message: 'Duplicate', statusCode: '409' })
+    ).toBe(true)
+    expect(
+      isExistingObjectError({ message: 'The resource already exists' })
+    ).toBe(true)
+    expect(isExistingObjectError({ message: 'Payload too large' })).toBe(false)
+  })
+})
+
+describe('parseStorageUrl', () => {
+  it('reads bucket and path of our public URLs', () => {
+    expect(parseStorageUrl(url('board-assets', 'p1/a%20b.png'))).toEqual({
+      bucket: 'board-assets',
+      path: 'p1/a b.png',
+    })
+    expect(parseStorageUrl(url('avatars', 'me.png'))).toBeNull()
+    expect(parseStorageUrl('https://example.com/image.png')).toBeNull()
+    expect(parseStorageUrl('not a url')).toBeNull()
+  })
+})
+
+describe('collectProjectReferences', () => {
+  it('attributes files to the item, version or part holding them', () => {
+    const items = [
+      {
+        id: 'item-1',
+        hero_image: url('project-files', 'hero.png'),
+        images: [
+          {
+            id: 'image-1',
+            url: url('project-files', 'front.png'),
+            derivatives: derivatives('front'),
+          },
+        ],
+        parts: [{ id: 'part-1', files: [url('project-files', 'part.stl')] }],
+        versions: [
+          {
+            id: 'version-1',
+            images: [{ id: 'image-2', url: url('project-files', 'v1.png') }],
+          },
+        ],
+      },
+    ] as unknown as Item[]
+
+    const references = collectProjectReferences({ id: 'project-1', items })
+    const owners = references.map(
+      (entry) => `${entry.owner}:${entry.owner_id}:${entry.path}`
+    )
+
+    expect(owners).toEqual([
+      'item:item-1:hero.png',
+      'item:item-1:front.png',
+      ...DERIVATIVE_FILES.map(
+        (file) => `item:item-1:derivatives/front/${file}`
+      ),
+      'part:part-1:part.stl',
+      'version:version-1:v1.png',
+    ])
+    expect(references.every((entry) => entry.project_id === 'project-1')).toBe(
+      true
+    )
+  })
+
+  it('finds storage URLs anywhere in JSON', () => {
+    const snapshot = {
+      store: { 'asset:1': { props: { src: url('board-assets', 'a.png') } } },
+      list: ['text', url('project-files', 'b.png')],
+    }
+    expect(
+      collectJsonReferences(snapshot, 'board', 'p1').map((entry) => entry.path)
+    ).toEqual(['a.png', 'b.png'])
+  })
+})
+
+describe('findOrphanedObjects', () => {
+  const cutoff = new Date('2024-06-01T00:00:00Z')
+
+  it('keeps referenced and recent objects with their derivatives', () => {
+    const objects = [
+      object('kept.png'),
+      object('derivatives/kept/thumb.webp'),
+      object('orphan.png'),
+      object('derivatives/orphan/thumb.webp'),
+      object('recent.png', '2024-07-01T00:00:00Z'),
+      object('kept.png', '2024-01-01T00:00:00Z', 'board-assets'),
+    ]
+    const references = [
+      {
+        bucket: 'project-files' as const,
+        path: 'kept.png',
+        owner: 'item' as const,
+        owner_id: 'item-1',
+      },
+    ]
+
+    expect(
+      findOrphanedObjects(objects, references, cutoff).map(
+        (entry) => `${entry.bucket}/${entry.path}`
+      )
+    ).toEqual([
+      'project-files/orphan.png',
+      'project-files/derivatives/orphan/thumb.webp',
+      'board-assets/kept.png',
+    ])
+  })
+})
@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyBoardEdits,
+  countStaleCards,
+  getBinding,
+  getBoardEdits,
+  getWriteBackRequest,
+  revertBoardEdits,
+  syncBoardWithProject,
+} from '@/lib/board-bindings'
+import { mergeElements } from '@/lib/board-sync'
+import {
+  generateProjectBoardLayout,
+  mergeProjectLayout,
+} from '@/lib/excalidraw-utils'
+import { BoardElement, Part, Project } from '@/types'
+
+const part = (id: string, name: string, color = '#ff0000'): Part => ({
+  id,
+  name,
+  finish: 'Matte',
+  color,
+  texture: '',
+})
+
+const project = (parts: Part[] = [part('p1', 'Handle')]): Project => ({
+  id: 'project-1',
+  title: 'Kettle',
+  retailer: 'Acme',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  items: [
+    {
+      id: 'i1',
+      name: 'Kettle',
+      versions: [{ id: 'v1', versionNumber: 1, parts }],
+    },
+  ],
+})
+
+const find = (
+  elements: readonly BoardElement[],
+  field: string,
+  partId = 'p1'
+) =>
+  elements.find((element) => {
+    const binding = getBinding(element)
+    return binding?.partId === partId && binding.field === field
+  })!
+
+const edit = (
+  elements: BoardElement[],
+  target: BoardElement,
+  changes: Partial<BoardElement>
+) =>
+  elements.map((element) =>
+    element.id === target.id
+      ? { ...element, ...changes, version: element.version + 1 }
+      : element
+  )
+
+describe('generateProjectBoardLayout', () => {
+  it('binds cards to the item, version and part they show', () => {
+    const elements = generateProjectBoardLayout(project())
+
+    expect(getBinding(find(elements, 'name'))).toEqual({
+      kind: 'part',
+      itemId: 'i1',
+      versionId: 'v1',
+      partId: 'p1',
+      field: 'name',
+      value: 'Handle',
+    })
+    expect(find(elements, 'color').backgroundColor).toBe('#ff0000')
+    expect(elements.every((element) => getBinding(element))).toBe(true)
+  })
+})
+
+describe('syncBoardWithProject', () => {
+  it('updates cards whose project value changed', () => {
+    const elements = generateProjectBoardLayout(project())
+    const renamed = project([part('p1', 'Spout', '#00ff00')])
+
+    const changed = syncBoardWithProject(elements, renamed)
+    const merged = mergeElements(elements, changed)
+
+    expect(find(merged, 'name').text).toBe('Spout')
+    expect(getBinding(find(merged, 'name'))!.value).toBe('Spout')
+    expect(find(merged, 'color').backgroundColor).toBe('#00ff00')
+    expect(syncBoardWithProject(merged, renamed)).toEqual([])
+  })
+
+  it('flags cards of removed parts as stale, and clears the flag', () => {
+    const elements = generateProjectBoardLayout(project())
+    const stale = mergeElements(
+      elements,
+      syncBoardWithProject(elements, project([]))
+    )
+
+    expect(find(stale, 'card').opacity).toBe(40)
+    expect(countStaleCards(stale)).toBe(1)
+
+    const restored = mergeElements(
+      stale,
+      syncBoardWithProject(stale, project())
+    )
+    expect(find(restored, 'card').opacity).toBe(100)
+    expect(countStaleCards(restored)).toBe(0)
+  })
+
+  it('lets the project win over a board edit of the same value', () => {
+    const elements = generateProjectBoardLayout(project())
+    const edited = edit(elements, find(elements, 'name'), {
+      text: 'Lid',
+      originalText: 'Lid',
+    })
+    const renamed = project([part('p1', 'Spout')])
+
+    expect(getBoardEdits(edited, renamed)).toEqual([])
+    const merged = mergeElements(edited, syncBoardWithProject(edited, renamed))
+    expect(find(merged, 'name').text).toBe('Spout')
+  })
+})
+
+describe('getBoardEdits', () => {
+  it('finds renames and recolors made on the board', () => {
+    const elements = generateProjectBoardLayout(project())
+    let edited = edit(elements, find(elements, 'name'), {
+      text: 'Lid ',
+      originalText: 'Lid ',
+    })
+    edited = edit(edited, find(edited, 'color'), { backgroundColor: '#0000ff' })
+
+    const edits = getBoardEdits(edited, project())
+    expect(
+      edits.map(({ binding, projectValue, boardValue }) => [
+        binding.field,
+        projectValue,
+        boardValue,
+      ])
+    ).toEqual([
+      ['name', 'Handle', 'Lid'],
+      ['color', '#ff0000', '#0000ff'],
+    ])
+  })
+
+  it('ignores text being typed and empty names', () => {
+    const elements = generateProjectBoardLayout(project())
+    const name = find(elements, 'name')
+
+    const typing = edit(elements, name, { text: 'Li', originalText: 'Li' })
+    expect(getBoardEdits(typing, project(), name.id)).toEqual([])
+
+    const emptied = edit(elements, name, { text: '', originalText: '' })
+    expect(getBoardEdits(emptied, project())).toEqual([])
+  })
+
+  it('does not report colors the swatch cannot show', () => {
+    const elements = generateProjectBoardLayout(
+      project([part('p1', 'Handle', 'Brushed steel')])
+    )
+    expect(
+      getBoardEdits(elements, project([part('p1', 'Handle', 'Brushed steel')]))
+    ).toEqual([])
+  })
+})
+
+describe('writing edits back', () => {
+  const elements = generateProjectBoardLayout(project())
+  const edited = edit(elements, find(elements, 'name'), {
+    text: 'Lid',
+    originalText: 'Lid',
+  })
+  const edits = getBoardEdits(edited, project())
+
+  it('addresses the part in the v1 API', () => {
+    expect(getWriteBackRequest('project-1', edits[0])).toEqual({
+      path: '/api/v1/projects/project-1/items/i1/versions/v1/parts/p1',
+      body: { name: 'Lid' },
+    })
+  })
+
+  it('applies edits to the project, after which nothing is pending', () => {
+    const updated = applyBoardEdits(project(), edits)
+    expect(updated.items[0].versions![0].parts[0].name).toBe('Lid')
+
+    const synced = mergeElements(edited, syncBoardWithProject(edited, updated))
+    expect(getBoardEdits(synced, updated)).toEqual([])
+  })
+
+  it('reverts edits to the project value', () => {
+    const reverted = mergeElements(edited, revertBoardEdits(edited, edits))
+    expect(find(reverted, 'name').text).toBe('Handle')
+    expect(getBoardEdits(reverted, project())).toEqual([])
+  })
+})
+
+describe('mergeProjectLayout', () => {
+  it('adds cards for new parts next to their version card', () => {
+    const existing = generateProjectBoardLayout(project()).map((element) => ({
+      ...element,
+      x: element.x + 500,
+    }))
+    const generated = generateProjectBoardLayout(
+      project([part('p1', 'Handle'), part('p2', 'Lid')])
+    )
+
+    const added = mergeProjectLayout(existing, generated)
+
+    expect(added.map((element) => getBinding(element)!.partId)).toEqual(
+      expect.arrayContaining(['p2'])
+    )
+    expect(added.every((element) => getBinding(element)!.partId === 'p2')).toBe(
+      true
+    )
+    expect(find(added, 'card', 'p2').x).toBe(
+      (find(generated, 'card', 'p2').x as number) + 500
+    )
+    // Linked to the version card already on the board
+    const link = find(added, 'link', 'p2')
+    const versionCard = existing.find(
+      (element) =>
+        getBinding(element)!.kind === 'version' &&
+        getBinding(element)!.field === 'card'
+    )!
+    expect(link.startBinding).toMatchObject({ elementId: versionCard.id })
+  })
+
+  it('does not bring back cards deleted from the board', () => {
+    const existing = generateProjectBoardLayout(project()).map((element) =>
+      getBinding(element)!.partId === 'p1'
+        ? { ...element, isDeleted: true }
+        : element
+    )
+    expect(
+      mergeProjectLayout(existing, generateProjectBoardLayout(project()))
+    ).toEqual([])
+  })
+
+  it('places a layout below boards without bound cards', () => {
+    const existing = [
+      { id: 'note', type: 'text', x: 0, y: 0, width: 100, height: 900 },
+    ] as unknown as BoardElement[]
+    const generated = generateProjectBoardLayout(project())
+
+    const added = mergeProjectLayout(existing, generated)
+
+    expect(added).toHaveLength(generated.length)
+    expect(
+      Math.min(...added.map((element) => element.y as number))
+    ).toBeGreaterThan(900)
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getBoardLink,
+  getItemLink,
+  parseBoardLink,
+  remapBoardLink,
+  setElementLinks,
+} from '@/lib/board-links'
+import { BoardElement } from '@/types'
+
+describe('parseBoardLink', () => {
+  it('reads board and item links', () => {
+    expect(parseBoardLink(getBoardLink('p1', 'b2'))).toEqual({
+      type: 'board',
+      projectId: 'p1',
+      boardId: 'b2',
+    })
+    expect(parseBoardLink(getItemLink('p1', 'item 3'))).toEqual({
+      type: 'item',
+      projectId: 'p1',
+      itemId: 'item 3',
+    })
+  })
+
+  it('accepts absolute links on the portal only', () => {
+    const origin = 'https://portal.example.com'
+    expect(
+      parseBoardLink(`${origin}${getBoardLink('p1', 'b2')}`, origin)
+    ).toMatchObject({ type: 'board', boardId: 'b2' })
+    expect(
+      parseBoardLink(
+        `https://other.example.com${getBoardLink('p1', 'b2')}`,
+        origin
+      )
+    ).toBeNull()
+  })
+
+  it('ignores other links', () => {
+    expect(parseBoardLink('https://example.com')).toBeNull()
+    expect(parseBoardLink('/project/p1/whiteboard')).toBeNull()
+    expect(parseBoardLink('/project/p1')).toBeNull()
+    expect(parseBoardLink(null)).toBeNull()
+  })
+})
+
+describe('remapBoardLink', () => {
+  const ids = new Map([
+    ['p1', 'p9'],
+    ['b2', 'b8'],
+    ['i3', 'i7'],
+  ])
+
+  it('replaces the ids of copied projects, boards and items', () => {
+    expect(remapBoardLink(getBoardLink('p1', 'b2'), ids)).toBe(
+      getBoardLink('p9', 'b8')
+    )
+    expect(remapBoardLink(getItemLink('p1', 'i3'), ids)).toBe(
+      getItemLink('p9', 'i7')
+    )
+  })
+
+  it('keeps other links', () => {
+    expect(remapBoardLink('https://example.com/p1', ids)).toBe(
+      'https://example.com/p1'
+    )
+  })
+})
+
+describe('setElementLinks', () => {
+  const elements = [
+    { id: 'a', version: 1, versionNonce: 1 },
+    { id: 'b', version: 3, versionNonce: 1, link: '/project/p1#item-i3' },
+    { id: 'c', version: 1, versionNonce: 1, isDeleted: true },
+  ] as BoardElement[]
+
+  it('links the selected elements as new versions', () => {
+    const linked = setElementLinks(elements, ['a', 'b', 'c'], '/x')
+    expect(linked.map(({ id, version, link }) => [id, version, link])).toEqual([
+      ['a', 2, '/x'],
+      ['b', 4, '/x'],
+    ])
+  })
+
+  it('skips elements that already have the link', () => {
+    expect(setElementLinks(elements, ['a'], null)).toEqual([])
+    expect(setElementLinks(elements, ['b'], null)[0].link).toBeNull()
+  })
+})
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyBoardChanges,
+  copyElements,
+  deleteElements,
+  getChangedElements,
+  getElementVersions,
+  getRestoreElements,
+  getSharedAppState,
+  mergeElements,
+  toBoardSnapshot,
+} from '@/lib/board-sync'
+import { BoardElement } from '@/types'
+
+const element = (
+  id: string,
+  version: number,
+  versionNonce = 1,
+  extra: Partial<BoardElement> = {}
+): BoardElement => ({ id, version, versionNonce, ...extra })
+
+const summary = (elements: BoardElement[]) =>
+  elements.map((entry) => `${entry.id}@${entry.version}`)
+
+describe('mergeElements', () => {
+  it('keeps the higher version of each element', () => {
+    const merged = mergeElements(
+      [element('a', 2), element('b', 1)],
+      [element('a', 1), element('b', 3), element('c', 1)]
+    )
+    expect(summary(merged)).toEqual(['a@2', 'b@3', 'c@1'])
+  })
+
+  it('converges whatever order concurrent edits arrive in', () => {
+    const base = [element('a', 1), element('b', 1)]
+    const mine = [element('a', 2, 50, { x: 10 }), element('b', 2, 7)]
+    const theirs = [element('a', 2, 20, { x: 99 }), element('c', 1)]
+
+    const here = mergeElements(mergeElements(base, mine), theirs)
+    const there = mergeElements(mergeElements(base, theirs), mine)
+
+    expect(here).toEqual(there)
+    // Equal versions go to the lower nonce
+    expect(here.find((entry) => entry.id === 'a')?.x).toBe(99)
+    expect(mergeElements(here, theirs)).toEqual(here)
+  })
+
+  it('orders by fractional index and protects local edits', () => {
+    const merged = mergeElements(
+      [
+        element('a', 1, 1, { index: 'a1' }),
+        element('b', 1, 1, { index: 'a0' }),
+      ],
+      [
+        element('a', 5, 1, { index: 'a1' }),
+        element('c', 1, 1, { index: 'Zz' }),
+      ],
+      (id) => id === 'a'
+    )
+    expect(summary(merged)).toEqual(['c@1', 'b@1', 'a@1'])
+  })
+
+  it('lets deletions win over older edits', () => {
+    const [deleted] = deleteElements([element('a', 3)])
+    expect(deleted.isDeleted).toBe(true)
+    expect(mergeElements([element('a', 3)], [deleted])[0].isDeleted).toBe(true)
+    expect(mergeElements([deleted], [element('a', 3)])[0].isDeleted).toBe(true)
+  })
+})
+
+describe('getChangedElements', () => {
+  it('finds elements edited since the known versions', () => {
+    const known = getElementVersions([element('a', 1), element('b', 1)])
+    expect(
+      summary(
+        getChangedElements(
+          [element('a', 1), element('b', 2), element('c', 1)],
+          known
+        )
+      )
+    ).toEqual(['b@2', 'c@1'])
+  })
+})
+
+describe('applyBoardChanges', () => {
+  it('merges elements, adds files and takes the latest settings', () => {
+    const snapshot = applyBoardChanges(
+      toBoardSnapshot({
+        elements: [element('a', 1)],
+        appState: { viewBackgroundColor: '#fff' },
+        files: { f1: { id: 'f1', dataURL: 'first' } },
+      }),
+      [
+        {
+          elements: [element('a', 2)],
+          files: { f1: { id: 'f1', dataURL: 'second' } },
+        },
+        { elements: [], app_state: { viewBackgroundColor: '#000' } },
+      ]
+    )
+
+    expect(summary(snapshot.elements)).toEqual(['a@2'])
+    expect(snapshot.files.f1.dataURL).toBe('first')
+    expect(snapshot.appState.viewBackgroundColor).toBe('#000')
+  })
+
+  it('starts legacy boards empty and shares only board settings', () => {
+    const legacy = toBoardSnapshot({ store: { shape: {} } })
+    expect(legacy.elements).toEqual([])
+    expect(legacy).toHaveProperty('store')
+    expect(
+      getSharedAppState({ viewBackgroundColor: '#fff', zoom: { value: 2 } })
+    ).toEqual({ viewBackgroundColor: '#fff' })
+  })
+})
+
+describe('getRestoreElements', () => {
+  it('brings back the version over the current board', () => {
+    const version = [element('a', 2, 1, { x: 0 }), element('b', 1)]
+    const current = [
+      element('a', 5, 1, { x: 100 }),
+      element('b', 2, 1, { isDeleted: true }),
+      element('c', 1),
+    ]
+
+    const restored = mergeElements(
+      current,
+      getRestoreElements(current, version)
+    )
+    const byId = new Map(restored.map((entry) => [entry.id, entry]))
+
+    expect(byId.get('a')).toMatchObject({ version: 6, x: 0 })
+    expect(byId.get('b')).toMatchObject({ version: 3 })
+    expect(byId.get('b')!.isDeleted).toBeFalsy()
+    expect(byId.get('c')!.isDeleted).toBe(true)
+  })
+
+  it('leaves unchanged elements alone', () => {
+    const elements = [element('a', 2), element('b', 1, 1, { isDeleted: true })]
+    expect(getRestoreElements(elements, elements)).toEqual([])
+  })
+})
+
+describe('copyElements', () => {
+  it('gives copies new ids and keeps references between them', () => {
+    let next = 0
+    const createId = () => `copy-${++next}`
+    const copies = copyElements(
+      [
+        element('box', 4, 1, {
+          x: 0,
+          y: 0,
+          groupIds: ['g1'],
+          boundElements: [{ id: 'label', type: 'text' }],
+          index: 'a0',
+        }),
+        element('label', 2, 1, { x: 10, y: 10, containerId: 'box' }),
+        element('gone', 3, 1, { x: 0, y: 0, isDeleted: true }),
+      ],
+      { x: 100, y: 50 },
+      createId
+    )
+
+    expect(copies.map((copy) => copy.id)).toEqual(['copy-1', 'copy-2'])
+    expect(copies[0]).toMatchObject({
+      x: 100,
+      y: 50,
+      version: 1,
+      groupIds: ['copy-3'],
+      boundElements: [{ id: 'copy-2', type: 'text' }],
+    })
+    expect(copies[0]).not.toHaveProperty('index')
+    expect(copies[1]).toMatchObject({ x: 110, y: 60, containerId: 'copy-1' })
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { createHash } from 'crypto'
+import { Sha256 } from '@/lib/checksum'
+
+const bytes = (length: number) =>
+  Uint8Array.from({ length }, (_, i) => (i * 31 + 7) % 256)
+
+const nodeDigest = (data: Uint8Array) =>
+  createHash('sha256').update(data).digest('hex')
+
+describe('Sha256', () => {
+  it('matches known digests', () => {
+    expect(new Sha256().digest()).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    )
+    expect(new Sha256().update(new TextEncoder().encode('abc')).digest()).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    )
+  })
+
+  it('matches node for lengths around the padding boundary', () => {
+    ;[55, 56, 63, 64, 65, 119, 120, 1000].forEach((length) => {
+      const data = bytes(length)
+      expect(new Sha256().update(data).digest()).toBe(nodeDigest(data))
+    })
+  })
+
+  it('gives the same digest however the input is split', () => {
+    const data = bytes(10_000)
+    const cuts = [0, 1, 64, 128, 129, 1129, 4129, data.length]
+    const hash = new Sha256()
+    cuts.slice(1).forEach((end, i) => hash.update(data.subarray(cuts[i], end)))
+
+    expect(hash.digest()).toBe(nodeDigest(data))
+  })
+
+  it('can be read more than once', () => {
+    const hash = new Sha256().update(bytes(100))
+    expect(hash.digest()).toBe(hash.digest())
+    expect(() => hash.update(bytes(1))).toThrow()
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { fakeSupabase, apiRequest } from './supabase-fake'
+import { POST as sendInvitation } from '@/app/api/send-invitation/route'
+import { POST as notifyCollaborators } from '@/app/api/notify-collaborators/route'
+import { POST as upload, DELETE as removeUpload } from '@/app/api/upload/route'
+
+const { sendEmail } = vi.hoisted(() => ({
+  sendEmail: vi.fn(async () => ({ id: 'email-1' })),
+}))
+
+vi.mock('resend', () => ({
+  Resend: class {
+    emails = { send: sendEmail }
+  },
+}))
+
+vi.mock('@/lib/supaAdmin', async () => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return { supabaseAdmin: fakeSupabase.admin }
+})
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return {
+    ...(await importOriginal<object>()),
+    createClient: (_url: string, _key: string, options?: any) =>
+      fakeSupabase.clientFor(options?.global?.headers?.Authorization),
+  }
+})
+
+const invitation = {
+  projectId: 'project-1',
+  to: 'guest@example.com',
+  invitationUrl: 'https://portal.example.com/project/invite/token-1',
+  permissionLevel: 'edit',
+}
+
+function invite(userId: string, body: Record<string, unknown> = invitation) {
+  const token = fakeSupabase.signIn(userId)
+  return sendInvitation(
+    apiRequest('/api/send-invitation', token, { method: 'POST', body })
+  )
+}
+
+beforeEach(() => {
+  fakeSupabase.reset()
+  sendEmail.mockClear()
+  fakeSupabase.tables.projects = [
+    { id: 'project-1', title: 'Spring Catalog', user_id: 'owner', items: [] },
+  ]
+  fakeSupabase.tables.project_collaborators = [
+    { project_id: 'project-1', user_id: 'editor', permission_level: 'edit' },
+    { project_id: 'project-1', user_id: 'admin', permission_level: 'admin' },
+  ]
+  fakeSupabase.tables.project_invitations = [
+    {
+      project_id: 'project-1',
+      invited_email: 'guest@example.com',
+      accepted_at: null,
+      expires_at: new Date(Date.now() + 86400000).toISOString(),
+    },
+  ]
+})
+
+describe('POST /api/send-invitation', () => {
+  it('rejects requests without a session', async () => {
+    const response = await sendInvitation(
+      apiRequest('/api/send-invitation', 'not-a-session', {
+        method: 'POST',
+        body: invitation,
+      })
+    )
+
+    expect(response.status).toBe(401)
+    expect(sendEmail).not.toHaveBeenCalled()
+  })
+
+  it('only lets owners and admins send invitations', async () => {
+    expect((await invite('editor')).status).toBe(403)
+    expect((await invite('stranger')).status).toBe(404)
+    expect(sendEmail).not.toHaveBeenCalled()
+  })
+
+  it('only emails addresses with a pending invitation', async () => {
+    const response = await invite('admin', {
+      ...invitation,
+      to: 'someone-else@example.com',
+    })
+
+    expect(response.status).toBe(404)
+    expect(sendEmail).not.toHaveBeenCalled()
+  })
+
+  it('sends the invitation with the stored project title', async () => {
+    const response = await invite('owner', {
+      ...invitation,
+      projectTitle: 'Something else',
+    })
+
+    expect(response.status).toBe(200)
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: ['guest@example.com'],
+        subject: 'Project Collaboration Invitation: Spring Catalog',
+      })
+    )
+  })
+})
+
+describe('POST /api/notify-collaborators', () => {
+  it('needs edit permission on the project', async () => {
+    const token = fakeSupabase.signIn('viewer')
+    fakeSupabase.table('project_collaborators').push({
+      project_id: 'project-1',
+      user_id: 'viewer',
+      permission_level: 'view',
+    })
+
+    const response = await notifyCollaborators(
+      apiRequest('/api/notify-collaborators', token, {
+        method: 'POST',
+        body: { projectId: 'project-1', action: 'Updated', changedBy: 'V' },
+      })
+    )
+
+    expect(response.status).toBe(403)
+    expect(sendEmail).not.toHaveBeenCalled()
+  })
+})
+
+describe('/api/upload', () => {
+  it('rejects uploads and deletes without a session', async () => {
+    const post = await upload(
+      apiRequest('/api/upload', 'not-a-session', { method: 'POST' })
+    )
+    const remove = await removeUpload(
+      apiRequest('/api/upload?path=renders/a.png', 'not-a-session', {
+        method: 'DELETE',
+      })
+    )
+
+    expect(post.status).toBe(401)
+    expect(remove.status).toBe(401)
+  })
+})
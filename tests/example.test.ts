@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import { render, screen } from '@testing-library/react'
 import { createProjectSchema } from '@/types/schemas'
 
@@ -39,6 +39,40 @@ describe('Core Render Portal', () => {
     expect(result.success).toBe(false)
   })
 
+  it('should validate item packaging, logo and notes', () => {
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'https://abc.supabase.co')
+    const project = {
+      title: 'Test Project',
+      retailer: 'Test Retailer',
+      items: [
+        {
+          name: 'Test Item',
+          needs_packaging: true,
+          packaging_type: 'box',
+          needs_logo: true,
+          logo_source: 'url',
+          custom_logo:
+            'https://abc.supabase.co/storage/v1/object/public/project-files/logo.png',
+          notes: 'Ship flat',
+        },
+      ],
+    }
+
+    const result = createProjectSchema.safeParse(project)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.items[0].packaging_type).toBe('box')
+      expect(result.data.items[0].notes).toBe('Ship flat')
+    }
+
+    const invalid = createProjectSchema.safeParse({
+      ...project,
+      items: [{ name: 'Test Item', packaging_type: 'crate' }],
+    })
+    expect(invalid.success).toBe(false)
+    vi.unstubAllEnvs()
+  })
+
   it('should require at least one item', () => {
     const projectWithoutItems = {
       title: 'Test Project',
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getDerivativePath,
+  getDerivativePaths,
+  getDerivativeUrls,
+  getExportImageUrl,
+  getImageSrcSet,
+  getImageUrl,
+  pickImageSize,
+} from '@/lib/image-derivatives'
+import { ImageDerivatives, ImageRendition, ItemImage } from '@/types'
+
+const rendition = (size: string, width: number, height: number) =>
+  ({
+    width,
+    height,
+    webp: `https://cdn.test/${size}.webp`,
+    avif: `https://cdn.test/${size}.avif`,
+    jpeg: `https://cdn.test/${size}.jpg`,
+  }) satisfies ImageRendition
+
+const derivatives: ImageDerivatives = {
+  width: 3000,
+  height: 2000,
+  blurhash: 'L8M,b.|xfQ|x=1o1fQo1fQfQfQfQ',
+  sizes: {
+    thumb: rendition('thumb', 480, 320),
+    preview: rendition('preview', 1600, 1067),
+    full: rendition('full', 3000, 2000),
+  },
+}
+
+const processed: ItemImage = {
+  id: 'front',
+  url: 'https://cdn.test/original.tif',
+  angle: 'front',
+  derivatives,
+}
+const legacy: ItemImage = {
+  id: 'side',
+  url: 'https://cdn.test/side.png',
+  angle: 'side',
+}
+
+describe('getDerivativePath', () => {
+  it('stores derivatives under the original path without its extension', () => {
+    expect(getDerivativePath('uploads/1700-abc.png', 'thumb', 'webp')).toBe(
+      'derivatives/uploads/1700-abc/thumb.webp'
+    )
+    expect(getDerivativePath('uploads/render.v2.tif', 'full', 'jpeg')).toBe(
+      'derivatives/uploads/render.v2/full.jpg'
+    )
+  })
+
+  it('lists every size and format', () => {
+    const paths = getDerivativePaths('uploads/a.png')
+    expect(paths).toHaveLength(9)
+    expect(paths).toContain('derivatives/uploads/a/preview.avif')
+  })
+})
+
+describe('getImageUrl', () => {
+  it('picks the requested size and format', () => {
+    expect(getImageUrl(processed, 'thumb')).toBe('https://cdn.test/thumb.webp')
+    expect(getImageUrl(processed, 'full', 'avif')).toBe(
+      'https://cdn.test/full.avif'
+    )
+  })
+
+  it('falls back to the original without derivatives', () => {
+    expect(getImageUrl(legacy, 'thumb')).toBe(legacy.url)
+    expect(getImageUrl(undefined, 'thumb')).toBe('')
+  })
+
+  it('maps export quality to JPEG sizes', () => {
+    expect(getExportImageUrl(processed, 'high')).toBe(
+      'https://cdn.test/full.jpg'
+    )
+    expect(getExportImageUrl(processed, 'medium')).toBe(
+      'https://cdn.test/preview.jpg'
+    )
+    expect(getExportImageUrl(processed, 'low')).toBe(
+      'https://cdn.test/thumb.jpg'
+    )
+    expect(getExportImageUrl(legacy, 'low')).toBe(legacy.url)
+  })
+})
+
+describe('pickImageSize', () => {
+  it('picks the smallest size that is wide enough', () => {
+    expect(pickImageSize(derivatives, 200)).toBe('thumb')
+    expect(pickImageSize(derivatives, 480)).toBe('thumb')
+    expect(pickImageSize(derivatives, 481)).toBe('preview')
+    expect(pickImageSize(derivatives, 5000)).toBe('full')
+  })
+})
+
+describe('getImageSrcSet', () => {
+  it('lists sizes up to the cap with their widths', () => {
+    expect(getImageSrcSet(derivatives, 'webp', 'preview')).toBe(
+      'https://cdn.test/thumb.webp 480w, https://cdn.test/preview.webp 1600w'
+    )
+    expect(getImageSrcSet(derivatives, 'avif').split(', ')).toHaveLength(3)
+  })
+
+  it('collects every derivative URL', () => {
+    expect(getDerivativeUrls(derivatives)).toHaveLength(9)
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import {
+  HERO_IMAGE_ID,
+  getItemImages,
+  getPartAnnotation,
+  getVersionImages,
+  setItemImages,
+  setPartAnnotation,
+  setVersionImages,
+} from '@/lib/item-images'
+import { Item, Part, Version, ItemImage } from '@/types'
+
+const front: ItemImage = {
+  id: 'front',
+  url: 'https://example.com/front.jpg',
+  angle: 'front',
+}
+const side: ItemImage = {
+  id: 'side',
+  url: 'https://example.com/side.jpg',
+  angle: 'side',
+}
+
+const seat: Part = {
+  id: 'p-1',
+  name: 'Seat',
+  finish: 'Matte',
+  color: '#ffffff',
+  texture: 'Smooth',
+  annotation_data: { x: 10, y: 20, id: 'a-1' },
+  image_annotations: { side: { x: 30, y: 40, id: 'a-2' } },
+}
+
+const version: Version = {
+  id: 'v-1',
+  versionNumber: 1,
+  parts: [seat],
+  images: [front, side],
+}
+
+describe('item images', () => {
+  const item: Item = {
+    id: 'item-1',
+    name: 'Chair',
+    hero_image: front.url,
+    images: [front, side],
+    versions: [{ ...version, images: undefined }],
+  }
+
+  it('fall back to the hero image for items saved without any', () => {
+    expect(getItemImages({ hero_image: front.url })).toEqual([
+      { id: HERO_IMAGE_ID, url: front.url, angle: 'front' },
+    ])
+    expect(getItemImages({})).toEqual([])
+  })
+
+  it('are shown by versions without images of their own', () => {
+    expect(getVersionImages(item, item.versions![0])).toEqual([front, side])
+    expect(getVersionImages(item, version)).toBe(version.images)
+  })
+
+  it('keep the hero image in sync with the first image', () => {
+    expect(setItemImages(item, [side, front]).hero_image).toBe(side.url)
+    expect(setItemImages(item, []).hero_image).toBeUndefined()
+  })
+
+  it('move the markers of versions that use them', () => {
+    const updated = setItemImages(
+      { ...item, versions: [item.versions![0], version] },
+      [side]
+    )
+    const [inherited, own] = updated.versions!
+
+    expect(inherited.parts[0].annotation_data).toEqual({
+      x: 30,
+      y: 40,
+      id: 'a-2',
+    })
+    expect(own.parts[0]).toBe(seat)
+  })
+})
+
+describe('version images', () => {
+  it('fall back to the item hero image', () => {
+    expect(
+      getVersionImages(
+        { hero_image: 'https://example.com/hero.jpg' },
+        { ...version, images: undefined }
+      )
+    ).toEqual([
+      {
+        id: HERO_IMAGE_ID,
+        url: 'https://example.com/hero.jpg',
+        angle: 'front',
+      },
+    ])
+  })
+
+  it('keep the primary marker in annotation_data', () => {
+    const images = [front, side]
+    expect(getPartAnnotation(seat, images, 'front')).toEqual(
+      seat.annotation_data
+    )
+    expect(getPartAnnotation(seat, images, 'side')).toEqual({
+      x: 30,
+      y: 40,
+      id: 'a-2',
+    })
+
+    const moved = setPartAnnotation(seat, images, 'side', undefined)
+    expect(moved.image_annotations).toBeUndefined()
+    expect(moved.annotation_data).toEqual(seat.annotation_data)
+  })
+
+  it('move markers along when the primary image is removed', () => {
+    const [part] = setVersionImages(version, [side]).parts
+
+    expect(part.annotation_data).toEqual({ x: 30, y: 40, id: 'a-2' })
+    expect(part.image_annotations).toBeUndefined()
+  })
+
+  it('keep markers with their image when reordered', () => {
+    const [part] = setVersionImages(version, [side, front]).parts
+
+    expect(part.annotation_data).toEqual({ x: 30, y: 40, id: 'a-2' })
+    expect(part.image_annotations).toEqual({
+      front: { x: 10, y: 20, id: 'a-1' },
+    })
+  })
+
+  it('keep markers placed on inherited item images', () => {
+    const [part] = setVersionImages(
+      { ...version, images: undefined },
+      [side],
+      [front, side]
+    ).parts
+
+    expect(part.annotation_data).toEqual({ x: 30, y: 40, id: 'a-2' })
+  })
+
+  it('hand hero image markers to the first image added', () => {
+    const heroVersion = { ...version, images: undefined }
+    const [part] = setVersionImages(heroVersion, [front, side]).parts
+
+    expect(part.annotation_data).toEqual(seat.annotation_data)
+  })
+})
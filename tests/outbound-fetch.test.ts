@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { lookup } from 'dns/promises'
+import { BlockedUrlError, fetchPublicUrl } from '@/lib/outbound-fetch'
+
+vi.mock('dns/promises', () => ({ lookup: vi.fn() }))
+
+// Loopback stands in for a public host so the test can run a server
+vi.mock('@/lib/private-addresses', () => ({
+  isPrivateHostname: () => false,
+  isPrivateAddress: (address: string) => address === '10.0.0.1',
+}))
+
+const lookupMock = vi.mocked(lookup) as unknown as ReturnType<typeof vi.fn>
+
+describe('fetchPublicUrl', () => {
+  let server: Server
+  let port: number
+  const received: { host?: string; body: string }[] = []
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = ''
+      request.on('data', (chunk) => (body += chunk))
+      request.on('end', () => {
+        received.push({ host: request.headers.host, body })
+        response.writeHead(201, { 'X-Seen': 'yes' })
+        response.end('ok')
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  it('connects to the address it checked, keeping the Host header', async () => {
+    // A second lookup would get a private address
+    lookupMock
+      .mockResolvedValueOnce([{ address: '127.0.0.1', family: 4 }])
+      .mockResolvedValue([{ address: '10.0.0.1', family: 4 }])
+
+    const response = await fetchPublicUrl(
+      `http://hooks.example.test:${port}/events`,
+      { method: 'POST', body: '{"ok":true}' }
+    )
+
+    expect(response.status).toBe(201)
+    expect(response.headers.get('x-seen')).toBe('yes')
+    expect(await response.text()).toBe('ok')
+    expect(received.at(-1)).toEqual({
+      host: `hooks.example.test:${port}`,
+      body: '{"ok":true}',
+    })
+    expect(lookupMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses hosts that resolve to a private address', async () => {
+    lookupMock.mockResolvedValueOnce([{ address: '10.0.0.1', family: 4 }])
+
+    await expect(
+      fetchPublicUrl(`http://internal.example.test:${port}/`)
+    ).rejects.toBeInstanceOf(BlockedUrlError)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { isPrivateAddress, isPrivateHostname } from '@/lib/private-addresses'
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private, link-local and metadata IPv4', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '172.31.255.255',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true)
+    }
+  })
+
+  it('allows public IPv4', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '1.1.1.1']) {
+      expect(isPrivateAddress(address), address).toBe(false)
+    }
+  })
+
+  it('flags private IPv6, including mapped IPv4', () => {
+    for (const address of [
+      '::1',
+      '::',
+      '[::1]',
+      'fe80::1%eth0',
+      'fd00:ec2::254',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true)
+    }
+  })
+
+  it('allows public IPv6', () => {
+    expect(isPrivateAddress('2606:4700:4700::1111')).toBe(false)
+    expect(isPrivateAddress('::ffff:8.8.8.8')).toBe(false)
+  })
+
+  it('ignores anything that is not an address', () => {
+    expect(isPrivateAddress('example.com')).toBe(false)
+    expect(isPrivateAddress('1.2.3.256')).toBe(false)
+  })
+})
+
+describe('isPrivateHostname', () => {
+  it('flags local-only names and private literals', () => {
+    for (const host of [
+      'localhost',
+      'api.localhost',
+      'printer.local',
+      'metadata.google.internal',
+      'LOCALHOST.',
+      '127.0.0.1',
+    ]) {
+      expect(isPrivateHostname(host), host).toBe(true)
+    }
+  })
+
+  it('allows public names', () => {
+    expect(isPrivateHostname('hooks.slack.com')).toBe(false)
+  })
+})
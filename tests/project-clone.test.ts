@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { fakeSupabase, apiRequest } from './supabase-fake'
+import { POST as cloneProject } from '@/app/api/v1/projects/[id]/clone/route'
+
+vi.mock('@/lib/supaAdmin', async () => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return { supabaseAdmin: fakeSupabase.admin }
+})
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return {
+    ...(await importOriginal<object>()),
+    createClient: (_url: string, _key: string, options?: any) =>
+      fakeSupabase.clientFor(options?.global?.headers?.Authorization),
+  }
+})
+
+function board(id: string, viewPermission: string, elements: unknown[]) {
+  return {
+    id,
+    project_id: 'project-1',
+    name: id,
+    position: 0,
+    view_permission: viewPermission,
+    edit_permission: 'admin',
+    board_snapshot: { elements, files: {} },
+    last_seq: 1,
+    snapshot_seq: 0,
+  }
+}
+
+describe('POST /api/v1/projects/[id]/clone', () => {
+  beforeEach(() => {
+    fakeSupabase.reset()
+    fakeSupabase.tables.projects = [
+      {
+        id: 'project-1',
+        user_id: 'owner-1',
+        title: 'Lobby',
+        retailer: 'Acme',
+        schema_version: 6,
+        items: [],
+      },
+    ]
+    fakeSupabase.tables.project_collaborators = [
+      {
+        project_id: 'project-1',
+        user_id: 'viewer-1',
+        permission_level: 'view',
+      },
+    ]
+    fakeSupabase.tables.project_boards = [
+      board('project-1', 'view', []),
+      board('board-private', 'admin', []),
+    ]
+    fakeSupabase.tables.project_board_operations = [
+      {
+        board_id: 'project-1',
+        seq: 1,
+        id: 'op-1',
+        elements: [{ id: 'note-1', version: 1, type: 'text', text: 'Hi' }],
+        files: {},
+      },
+    ]
+  })
+
+  async function clone(userId: string) {
+    const token = fakeSupabase.signIn(userId)
+    return cloneProject(
+      apiRequest('/api/v1/projects/project-1/clone', token, {
+        method: 'POST',
+        body: { title: 'Copy', retailer: 'Acme', due_date: null },
+      }),
+      { params: { id: 'project-1' } }
+    )
+  }
+
+  it('only copies the boards a viewer can see, without compacting them', async () => {
+    const response = await clone('viewer-1')
+    expect(response.status).toBe(201)
+    const { id } = await response.json()
+
+    const copies = fakeSupabase
+      .table('project_boards')
+      .filter((row) => row.project_id === id)
+    expect(copies.map((row) => row.id)).toEqual([id])
+    expect(copies[0].board_snapshot.elements).toMatchObject([
+      { id: 'note-1', text: 'Hi' },
+    ])
+
+    const source = fakeSupabase
+      .table('project_boards')
+      .find((row) => row.id === 'project-1')!
+    expect(source.snapshot_seq).toBe(0)
+    expect(fakeSupabase.table('project_board_operations')).toHaveLength(1)
+  })
+
+  it('copies every board for the owner', async () => {
+    const { id } = await (await clone('owner-1')).json()
+    const copies = fakeSupabase
+      .table('project_boards')
+      .filter((row) => row.project_id === id)
+    expect(copies).toHaveLength(2)
+  })
+})
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest'
+import { diffProjects, summarizeDiff } from '@/lib/project-diff'
+import { Item, Part, Project } from '@/types'
+
+function part(id: string, changes: Partial<Part> = {}): Part {
+  return {
+    id,
+    name: id,
+    finish: 'Matte',
+    color: 'Oak',
+    texture: 'Grain',
+    files: [],
+    ...changes,
+  }
+}
+
+function item(id: string, parts: Part[], changes: Partial<Item> = {}): Item {
+  return {
+    id,
+    name: id,
+    versions: [{ id: `${id}-v1`, versionNumber: 1, parts }],
+    ...changes,
+  }
+}
+
+function project(items: Item[]): Project {
+  return {
+    id: 'project-1',
+    title: 'Lobby',
+    retailer: 'Acme',
+    items,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  }
+}
+
+function fields(changes: { field: string }[]) {
+  return changes.map((change) => change.field)
+}
+
+describe('diffProjects', () => {
+  it('reports added and removed items', () => {
+    const diff = diffProjects(
+      project([item('chair', [part('seat')])]),
+      project([item('table', [part('top')])])
+    )
+
+    expect(diff.items.map((entry) => [entry.key, entry.kind])).toEqual([
+      // Removed entries stay where they were
+      ['chair', 'removed'],
+      ['table', 'added'],
+    ])
+    expect(diff.stats).toMatchObject({ itemsAdded: 1, itemsRemoved: 1 })
+    expect(summarizeDiff(diff)).toBe('1 item added, 1 item removed')
+  })
+
+  it('reports added, removed and changed parts', () => {
+    const diff = diffProjects(
+      project([item('chair', [part('seat'), part('legs')])]),
+      project([
+        item('chair', [part('seat', { color: 'Walnut' }), part('arms')]),
+      ])
+    )
+
+    const [version] = diff.items[0].versions
+    expect(version.parts.map((entry) => [entry.key, entry.kind])).toEqual([
+      ['seat', 'modified'],
+      ['legs', 'removed'],
+      ['arms', 'added'],
+    ])
+    expect(version.parts[0].changes).toEqual([
+      { field: 'color', label: 'Color', from: 'Oak', to: 'Walnut' },
+    ])
+    expect(summarizeDiff(diff)).toBe(
+      '1 part added, 1 part removed, 1 part edited'
+    )
+  })
+
+  it('reports material changes', () => {
+    const diff = diffProjects(
+      project([item('chair', [part('seat', { material_id: 'oak' })])]),
+      project([item('chair', [part('seat', { material_id: 'walnut' })])])
+    )
+
+    expect(diff.items[0].versions[0].parts[0].changes).toEqual([
+      { field: 'material_id', label: 'Material', from: 'oak', to: 'walnut' },
+    ])
+  })
+
+  it('reports markers moved on other images, within tolerance', () => {
+    const marker = (x: number, y: number) => ({
+      image_annotations: { back: { id: 'seat', x, y } },
+    })
+    const before = project([item('chair', [part('seat', marker(10, 20))])])
+
+    const jitter = diffProjects(
+      before,
+      project([item('chair', [part('seat', marker(10.05, 20))])])
+    )
+    expect(jitter.items[0].kind).toBe('unchanged')
+
+    const moved = diffProjects(
+      before,
+      project([item('chair', [part('seat', marker(40, 20))])])
+    )
+    expect(moved.items[0].versions[0].parts[0].changes).toEqual([
+      {
+        field: 'image_annotations',
+        label: 'Other image markers',
+        from: 'back: 10.0%, 20.0%',
+        to: 'back: 40.0%, 20.0%',
+      },
+    ])
+
+    const removed = diffProjects(
+      before,
+      project([item('chair', [part('seat')])])
+    )
+    expect(fields(removed.items[0].versions[0].parts[0].changes)).toEqual([
+      'image_annotations',
+    ])
+  })
+
+  it('reports item details and images', () => {
+    const diff = diffProjects(
+      project([item('chair', [part('seat')])]),
+      project([
+        item('chair', [part('seat')], {
+          needs_packaging: true,
+          packaging_type: 'box',
+          needs_logo: true,
+          custom_logo: 'https://example.com/logo.png',
+          notes: 'Fragile',
+          images: [
+            {
+              id: 'front',
+              url: 'https://example.com/front.jpg',
+              angle: 'front',
+            },
+          ],
+        }),
+      ])
+    )
+
+    const [chair] = diff.items
+    expect(chair.kind).toBe('modified')
+    expect(chair.changes).toEqual([
+      {
+        field: 'images',
+        label: 'Images',
+        from: null,
+        to: 'Front (front.jpg)',
+      },
+      { field: 'packaging', label: 'Packaging', from: null, to: 'Box' },
+      { field: 'logo', label: 'Logo', from: null, to: 'Custom logo' },
+      {
+        field: 'custom_logo',
+        label: 'Custom logo',
+        from: null,
+        to: 'https://example.com/logo.png',
+      },
+      { field: 'notes', label: 'Notes', from: null, to: 'Fragile' },
+    ])
+    expect(summarizeDiff(diff)).toBe('1 item edited')
+  })
+
+  it('leaves identical projects unchanged', () => {
+    const items = [
+      item('chair', [part('seat', { material_id: 'oak' })], {
+        needs_packaging: true,
+      }),
+    ]
+    const diff = diffProjects(project(items), project(structuredClone(items)))
+    expect(diff.items[0].kind).toBe('unchanged')
+    expect(summarizeDiff(diff)).toBe('No differences')
+  })
+})
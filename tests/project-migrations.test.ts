@@ -0,0 +1,373 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  migrateItems,
+  migrateProject,
+  needsMigration,
+} from '@/lib/project-migrations'
+import { getVersionImages } from '@/lib/item-images'
+import { Item } from '@/types'
+
+const step = (version: number) => {
+  const migration = MIGRATIONS.find((m) => m.version === version)
+  if (!migration) throw new Error(`No migration to version ${version}`)
+  return migration.up
+}
+
+const part = (name: string, extra = {}) => ({
+  name,
+  finish: 'Matte',
+  color: '#ffffff',
+  texture: 'Smooth',
+  ...extra,
+})
+
+// A document as saved before schema versioning
+const legacyItems = [
+  {
+    name: 'Chair',
+    hero_image: 'https://example.com/chair.jpg',
+    parts: [part('Seat', { x: 25, y: 40 }), part('Legs', { id: 'part-legs' })],
+  },
+] as unknown as Item[]
+
+describe('project migrations', () => {
+  it('are ordered and end at the current schema version', () => {
+    const versions = MIGRATIONS.map((m) => m.version)
+    expect(versions).toEqual([...versions].sort((a, b) => a - b))
+    expect(new Set(versions).size).toBe(versions.length)
+    expect(versions[versions.length - 1]).toBe(CURRENT_SCHEMA_VERSION)
+  })
+
+  describe('1 → 2: assign ids', () => {
+    it('gives items, versions and parts ids derived from their position', () => {
+      const items = [
+        { name: 'Chair', parts: [part('Seat')] },
+        {
+          name: 'Table',
+          versions: [{ versionNumber: 1, parts: [part('Top')] }],
+        },
+      ] as unknown as Item[]
+
+      const [chair, table] = step(2)(items)
+
+      expect(chair.id).toBe('item-legacy-1')
+      expect(chair.parts![0].id).toBe('item-legacy-1-part-1')
+      expect(table.versions![0].id).toBe('item-legacy-2-version-1')
+      expect(table.versions![0].parts[0].id).toBe(
+        'item-legacy-2-version-1-part-1'
+      )
+    })
+
+    it('keeps existing ids', () => {
+      const [item] = step(2)([
+        { id: 'item-1', name: 'Chair', parts: [part('Seat', { id: 'p-1' })] },
+      ] as Item[])
+
+      expect(item.id).toBe('item-1')
+      expect(item.parts![0].id).toBe('p-1')
+    })
+
+    it('returns the same ids every time', () => {
+      expect(step(2)(legacyItems)).toEqual(step(2)(legacyItems))
+    })
+  })
+
+  describe('2 → 3: move legacy parts into versions', () => {
+    it('turns item parts into version 1', () => {
+      const [item] = step(3)([
+        { id: 'item-1', name: 'Chair', parts: [part('Seat', { id: 'p-1' })] },
+      ] as Item[])
+
+      expect(item.parts).toBeUndefined()
+      expect(item.versions).toEqual([
+        {
+          id: 'item-1-version-1',
+          versionNumber: 1,
+          parts: [part('Seat', { id: 'p-1' })],
+        },
+      ])
+    })
+
+    it('keeps existing versions and drops the unused legacy list', () => {
+      const versions = [{ id: 'v-2', versionNumber: 2, parts: [] }]
+      const [item] = step(3)([
+        { id: 'item-1', name: 'Chair', parts: [part('Old')], versions },
+      ] as Item[])
+
+      expect(item.parts).toBeUndefined()
+      expect(item.versions).toEqual(versions)
+    })
+
+    it('gives items without parts an empty version list', () => {
+      const [item] = step(3)([{ id: 'item-1', name: 'Chair' }])
+      expect(item.versions).toEqual([])
+    })
+  })
+
+  describe('3 → 4: move annotation positions', () => {
+    it('moves x/y into annotation_data keyed by the part id', () => {
+      const [item] = step(4)([
+        {
+          id: 'item-1',
+          name: 'Chair',
+          versions: [
+            {
+              id: 'v-1',
+              versionNumber: 1,
+              parts: [part('Seat', { id: 'p-1', x: 25, y: 40 })],
+            },
+          ],
+        },
+      ])
+
+      const seat = item.versions![0].parts[0]
+      expect(seat.x).toBeUndefined()
+      expect(seat.y).toBeUndefined()
+      expect(seat.annotation_data).toEqual({ x: 25, y: 40, id: 'p-1' })
+    })
+
+    it('prefers an existing annotation_data', () => {
+      const annotation = { x: 10, y: 20, id: 'annotation-1' }
+      const [item] = step(4)([
+        {
+          id: 'item-1',
+          name: 'Chair',
+          versions: [
+            {
+              id: 'v-1',
+              versionNumber: 1,
+              parts: [
+                part('Seat', {
+                  id: 'p-1',
+                  x: 25,
+                  y: 40,
+                  annotation_data: annotation,
+                }),
+              ],
+            },
+          ],
+        },
+      ])
+
+      const seat = item.versions![0].parts[0]
+      expect(seat.x).toBeUndefined()
+      expect(seat.annotation_data).toEqual(annotation)
+    })
+  })
+
+  describe('4 → 5: versions inherit the hero image', () => {
+    it("doesn't copy the hero image into versions", () => {
+      const [item] = step(5)([
+        {
+          id: 'item-1',
+          name: 'Chair',
+          hero_image: 'https://example.com/chair.jpg',
+          versions: [
+            { id: 'v-1', versionNumber: 1, parts: [] },
+            { id: 'v-2', versionNumber: 2, parts: [] },
+          ],
+        },
+      ])
+
+      expect(item.versions!.map((version) => version.images)).toEqual([
+        undefined,
+        undefined,
+      ])
+    })
+
+    it('drops hero copies made by earlier builds', () => {
+      const [item] = step(5)([
+        {
+          id: 'item-1',
+          name: 'Chair',
+          hero_image: 'https://example.com/chair.jpg',
+          versions: [
+            {
+              id: 'v-1',
+              versionNumber: 1,
+              parts: [],
+              images: [
+                {
+                  id: 'v-1-image-1',
+                  url: 'https://example.com/chair.jpg',
+                  angle: 'front',
+                },
+              ],
+            },
+          ],
+        },
+      ])
+
+      expect(item.versions![0]).toEqual({
+        id: 'v-1',
+        versionNumber: 1,
+        parts: [],
+      })
+    })
+
+    it('keeps versions that already have images', () => {
+      const images = [
+        {
+          id: 'image-1',
+          url: 'https://example.com/v2.jpg',
+          angle: 'side' as const,
+        },
+      ]
+      const [item] = step(5)([
+        {
+          id: 'item-1',
+          name: 'Chair',
+          hero_image: 'https://example.com/chair.jpg',
+          versions: [{ id: 'v-1', versionNumber: 1, parts: [], images }],
+        },
+      ])
+
+      expect(item.versions![0].images).toBe(images)
+    })
+
+    it('leaves versions that inherit the item images alone', () => {
+      const images = [
+        { id: 'a', url: 'https://example.com/a.jpg', angle: 'front' as const },
+        { id: 'b', url: 'https://example.com/b.jpg', angle: 'back' as const },
+      ]
+      const saved = [
+        {
+          id: 'item-1',
+          name: 'Chair',
+          hero_image: 'https://example.com/a.jpg',
+          images,
+          versions: [
+            { id: 'v1', versionNumber: 1, parts: [] },
+            { id: 'v2', versionNumber: 2, parts: [] },
+          ],
+        },
+      ]
+
+      const [item] = migrateItems(saved, 1)
+      expect(item.images).toBe(images)
+      expect(item.versions!.map((version) => version.images)).toEqual([
+        undefined,
+        undefined,
+      ])
+    })
+  })
+
+  describe('5 → 6: turn the hero image into an image set', () => {
+    it('makes the hero image the first item image', () => {
+      const [item] = step(6)([
+        {
+          id: 'item-1',
+          name: 'Chair',
+          hero_image: 'https://example.com/chair.jpg',
+          versions: [],
+        },
+      ])
+
+      expect(item.images).toEqual([
+        {
+          id: 'item-1-image-1',
+          url: 'https://example.com/chair.jpg',
+          angle: 'front',
+        },
+      ])
+      expect(item.hero_image).toBe('https://example.com/chair.jpg')
+    })
+
+    it('keeps items that already have images or no hero image', () => {
+      const images = [
+        {
+          id: 'image-1',
+          url: 'https://example.com/back.jpg',
+          angle: 'back' as const,
+        },
+      ]
+      const [withImages, withoutHero] = step(6)([
+        {
+          id: 'item-1',
+          name: 'Chair',
+          hero_image: 'https://example.com/chair.jpg',
+          images,
+        },
+        { id: 'item-2', name: 'Table' },
+      ])
+
+      expect(withImages.images).toBe(images)
+      expect(withoutHero.images).toBeUndefined()
+    })
+  })
+
+  describe('migrateItems', () => {
+    it('upgrades a legacy document to the current shape', () => {
+      const [item] = migrateItems(legacyItems)
+
+      expect(item.id).toBe('item-legacy-1')
+      expect(item.parts).toBeUndefined()
+      expect(item.versions).toHaveLength(1)
+      expect(item.versions![0].parts.map((p) => p.id)).toEqual([
+        'item-legacy-1-part-1',
+        'part-legs',
+      ])
+      expect(item.versions![0].parts[0].annotation_data).toEqual({
+        x: 25,
+        y: 40,
+        id: 'item-legacy-1-part-1',
+      })
+      expect(item.versions![0].images).toBeUndefined()
+      expect(getVersionImages(item, item.versions![0])).toBe(item.images)
+      expect(item.images).toEqual([
+        {
+          id: 'item-legacy-1-image-1',
+          url: 'https://example.com/chair.jpg',
+          angle: 'front',
+        },
+      ])
+    })
+
+    it('is idempotent', () => {
+      const once = migrateItems(legacyItems)
+      expect(migrateItems(once)).toEqual(once)
+    })
+
+    it('does not modify the stored document', () => {
+      const stored = JSON.parse(JSON.stringify(legacyItems))
+      migrateItems(stored)
+      expect(stored).toEqual(legacyItems)
+    })
+
+    it('only runs migrations above the given version', () => {
+      const items = [{ name: 'Chair', parts: [part('Seat')] }] as Item[]
+      expect(migrateItems(items, CURRENT_SCHEMA_VERSION)).toBe(items)
+    })
+
+    it('treats missing items as empty', () => {
+      expect(migrateItems(null)).toEqual([])
+    })
+  })
+
+  describe('migrateProject', () => {
+    it('stamps the current schema version', () => {
+      const project = { id: 'project-1', items: legacyItems, schema_version: 1 }
+      expect(needsMigration(project)).toBe(true)
+
+      const migrated = migrateProject(project)
+      expect(migrated.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+      expect(needsMigration(migrated)).toBe(false)
+    })
+
+    it("doesn't re-migrate a project the RPCs return as current", () => {
+      // As get_user_project returns it, after the backfill
+      const row = { id: 'project-1', items: legacyItems, schema_version: 6 }
+      expect(CURRENT_SCHEMA_VERSION).toBe(6)
+      expect(needsMigration(row)).toBe(false)
+      expect(migrateItems(row.items, row.schema_version)).toBe(row.items)
+      expect(migrateProject(row).items).toBe(row.items)
+    })
+
+    it('leaves documents from a newer schema alone', () => {
+      const project = { items: legacyItems, schema_version: 99 }
+      expect(migrateProject(project)).toEqual(project)
+    })
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest'
+import { applyPartialRestore } from '@/lib/project-restore'
+import { Item, Part, Project } from '@/types'
+
+function part(id: string, changes: Partial<Part> = {}): Part {
+  return {
+    id,
+    name: id,
+    finish: 'Matte',
+    color: 'Oak',
+    texture: 'Grain',
+    files: [],
+    ...changes,
+  }
+}
+
+function item(id: string, parts: Part[], changes: Partial<Item> = {}): Item {
+  return {
+    id,
+    name: id,
+    versions: [{ id: `${id}-v1`, versionNumber: 1, parts }],
+    ...changes,
+  }
+}
+
+function project(items: Item[]): Project {
+  return {
+    id: 'project-1',
+    title: 'Lobby',
+    retailer: 'Acme',
+    items,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  }
+}
+
+function partsOf(result: Project, itemIndex = 0) {
+  return result.items[itemIndex].versions![0].parts
+}
+
+describe('applyPartialRestore', () => {
+  const snapshot = project([
+    item('chair', [part('seat', { color: 'Oak', groupId: 'frame' })], {
+      groups: [{ id: 'frame', name: 'Frame', color: '#000' }],
+    }),
+    item('table', [part('top')]),
+  ])
+
+  describe('a single item', () => {
+    it('replaces the item with the same id and leaves the others', () => {
+      const current = project([
+        item('chair', [part('seat', { color: 'Walnut' })]),
+        item('table', [part('top', { color: 'Walnut' })]),
+      ])
+
+      const result = applyPartialRestore(current, snapshot, {
+        type: 'item',
+        itemIndex: 0,
+      })
+
+      expect(result.items.map((entry) => entry.id)).toEqual(['chair', 'table'])
+      expect(partsOf(result)[0].color).toBe('Oak')
+      expect(partsOf(result, 1)[0].color).toBe('Walnut')
+    })
+
+    it('adds a deleted item back where it was', () => {
+      const current = project([item('table', [part('top')])])
+
+      const result = applyPartialRestore(current, snapshot, {
+        type: 'item',
+        itemIndex: 0,
+      })
+
+      expect(result.items.map((entry) => entry.id)).toEqual(['chair', 'table'])
+    })
+
+    it("doesn't write over another item that took its name", () => {
+      const current = project([
+        item('chair-2', [part('cushion')], { name: 'chair' }),
+      ])
+
+      const result = applyPartialRestore(current, snapshot, {
+        type: 'item',
+        itemIndex: 0,
+      })
+
+      expect(result.items.map((entry) => entry.id)).toEqual([
+        'chair',
+        'chair-2',
+      ])
+    })
+
+    it("doesn't share objects with the snapshot", () => {
+      const result = applyPartialRestore(project([]), snapshot, {
+        type: 'item',
+        itemIndex: 0,
+      })
+
+      partsOf(result)[0].color = 'Teak'
+      expect(snapshot.items[0].versions![0].parts[0].color).toBe('Oak')
+    })
+  })
+
+  describe('a single part', () => {
+    const scope = {
+      type: 'part' as const,
+      itemIndex: 0,
+      versionIndex: 0,
+      partIndex: 0,
+    }
+
+    it('replaces the part with the same id in place', () => {
+      const current = project([
+        item('chair', [part('legs'), part('seat', { color: 'Walnut' })], {
+          groups: [{ id: 'frame', name: 'Frame', color: '#000' }],
+        }),
+      ])
+
+      const result = applyPartialRestore(current, snapshot, scope)
+
+      expect(partsOf(result).map((entry) => [entry.id, entry.color])).toEqual([
+        ['legs', 'Oak'],
+        ['seat', 'Oak'],
+      ])
+    })
+
+    it('adds a deleted part back, with its deleted group', () => {
+      const current = project([item('chair', [part('legs')])])
+
+      const result = applyPartialRestore(current, snapshot, scope)
+
+      expect(partsOf(result).map((entry) => entry.id)).toEqual(['seat', 'legs'])
+      expect(result.items[0].groups).toEqual([
+        { id: 'frame', name: 'Frame', color: '#000' },
+      ])
+    })
+
+    it("doesn't write over another part that took its name", () => {
+      const current = project([
+        item('chair', [part('seat-2', { name: 'seat', color: 'Teak' })]),
+      ])
+
+      const result = applyPartialRestore(current, snapshot, scope)
+
+      expect(partsOf(result).map((entry) => [entry.id, entry.color])).toEqual([
+        ['seat', 'Oak'],
+        ['seat-2', 'Teak'],
+      ])
+    })
+
+    it('matches parts saved without ids by name', () => {
+      const current = project([
+        item('chair', [{ ...part('seat', { color: 'Teak' }), id: undefined }]),
+      ])
+
+      const result = applyPartialRestore(current, snapshot, scope)
+
+      expect(partsOf(result)).toHaveLength(1)
+      expect(partsOf(result)[0]).toMatchObject({ id: 'seat', color: 'Oak' })
+    })
+
+    it('refuses when the item was deleted', () => {
+      const current = project([item('table', [part('top')])])
+
+      expect(() => applyPartialRestore(current, snapshot, scope)).toThrow(
+        '"chair" no longer exists in the project'
+      )
+    })
+
+    it('refuses when the version was deleted', () => {
+      const current = project([{ id: 'chair', name: 'chair', versions: [] }])
+
+      expect(() => applyPartialRestore(current, snapshot, scope)).toThrow(
+        'Version 1 of "chair" no longer exists'
+      )
+    })
+
+    it('refuses scopes outside the snapshot', () => {
+      expect(() =>
+        applyPartialRestore(snapshot, snapshot, { ...scope, partIndex: 5 })
+      ).toThrow('Part not found in this snapshot')
+    })
+  })
+})
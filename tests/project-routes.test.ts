@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { fakeSupabase, apiRequest } from './supabase-fake'
+import * as projectRoute from '@/app/api/v1/projects/[id]/route'
+import * as itemsRoute from '@/app/api/v1/projects/[id]/items/route'
+import * as itemRoute from '@/app/api/v1/projects/[id]/items/[itemId]/route'
+import * as versionsRoute from '@/app/api/v1/projects/[id]/items/[itemId]/versions/route'
+import * as versionRoute from '@/app/api/v1/projects/[id]/items/[itemId]/versions/[versionId]/route'
+import * as partsRoute from '@/app/api/v1/projects/[id]/items/[itemId]/versions/[versionId]/parts/route'
+import * as partRoute from '@/app/api/v1/projects/[id]/items/[itemId]/versions/[versionId]/parts/[partId]/route'
+
+vi.mock('@/lib/supaAdmin', async () => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return { supabaseAdmin: fakeSupabase.admin }
+})
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return {
+    ...(await importOriginal<object>()),
+    createClient: (_url: string, _key: string, options?: any) =>
+      fakeSupabase.clientFor(options?.global?.headers?.Authorization),
+  }
+})
+
+const seat = {
+  id: 'part-1',
+  name: 'Seat',
+  finish: 'Matte',
+  color: 'Oak',
+  texture: 'Grain',
+  files: [],
+}
+
+const params = {
+  id: 'project-1',
+  itemId: 'item-1',
+  versionId: 'version-1',
+  partId: 'part-1',
+}
+
+type Handler = (
+  request: any,
+  context: { params: typeof params }
+) => Promise<Response>
+
+function send(
+  handler: Handler,
+  userId: string,
+  method: string,
+  body?: unknown
+): Promise<Response> {
+  const token = fakeSupabase.signIn(userId)
+  return handler(
+    apiRequest('/api/v1/projects/project-1', token, { method, body }),
+    { params }
+  )
+}
+
+function stored() {
+  return fakeSupabase.table('projects')[0]
+}
+
+function storedVersion() {
+  return stored().items[0].versions[0]
+}
+
+// Every write route, with a body it accepts
+const WRITES: [string, Handler, string, unknown?][] = [
+  ['PATCH project', projectRoute.PATCH, 'PATCH', { title: 'Lobby refit' }],
+  ['POST items', itemsRoute.POST, 'POST', { name: 'Table' }],
+  [
+    'PATCH items',
+    itemsRoute.PATCH,
+    'PATCH',
+    { item_ids: ['item-1'], changes: { notes: 'Fragile' } },
+  ],
+  ['PATCH item', itemRoute.PATCH, 'PATCH', { name: 'Armchair' }],
+  ['DELETE item', itemRoute.DELETE, 'DELETE'],
+  ['POST versions', versionsRoute.POST, 'POST', { versionName: 'Darker' }],
+  ['PATCH version', versionRoute.PATCH, 'PATCH', { versionName: 'First' }],
+  ['DELETE version', versionRoute.DELETE, 'DELETE'],
+  ['POST parts', partsRoute.POST, 'POST', { ...seat, id: undefined }],
+  ['PATCH part', partRoute.PATCH, 'PATCH', { color: 'Walnut' }],
+  ['DELETE part', partRoute.DELETE, 'DELETE'],
+]
+
+describe('v1 project write routes with a session', () => {
+  beforeEach(() => {
+    fakeSupabase.reset()
+    fakeSupabase.tables.projects = [
+      {
+        id: 'project-1',
+        user_id: 'owner-1',
+        title: 'Lobby',
+        retailer: 'Acme',
+        schema_version: 6,
+        items: [
+          {
+            id: 'item-1',
+            name: 'Chair',
+            versions: [{ id: 'version-1', versionNumber: 1, parts: [seat] }],
+          },
+        ],
+      },
+    ]
+    fakeSupabase.tables.project_collaborators = [
+      {
+        project_id: 'project-1',
+        user_id: 'editor-1',
+        permission_level: 'edit',
+      },
+      {
+        project_id: 'project-1',
+        user_id: 'viewer-1',
+        permission_level: 'view',
+      },
+    ]
+  })
+
+  it.each(WRITES)(
+    '%s lets the owner write',
+    async (_, handler, method, body) => {
+      const response = await send(handler, 'owner-1', method, body)
+      expect(response.status).toBeLessThan(300)
+    }
+  )
+
+  it.each(WRITES)('%s keeps viewers out', async (_, handler, method, body) => {
+    const before = structuredClone(stored())
+    const response = await send(handler, 'viewer-1', method, body)
+    expect(response.status).toBe(403)
+    expect(stored()).toEqual(before)
+  })
+
+  it('PATCH project saves an editor’s changes', async () => {
+    const response = await send(projectRoute.PATCH, 'editor-1', 'PATCH', {
+      title: 'Lobby refit',
+    })
+    expect(response.status).toBe(200)
+    expect(stored().title).toBe('Lobby refit')
+  })
+
+  it('DELETE project is for the owner only', async () => {
+    const response = await send(projectRoute.DELETE, 'editor-1', 'DELETE')
+    expect(response.status).toBe(403)
+
+    const deleted = await send(projectRoute.DELETE, 'owner-1', 'DELETE')
+    expect(deleted.status).toBe(200)
+    expect(fakeSupabase.table('projects')).toHaveLength(0)
+  })
+
+  it('POST items adds an item', async () => {
+    const response = await send(itemsRoute.POST, 'editor-1', 'POST', {
+      name: 'Table',
+    })
+    expect(response.status).toBe(201)
+    expect(stored().items.map((item: any) => item.name)).toEqual([
+      'Chair',
+      'Table',
+    ])
+  })
+
+  it('PATCH items sets details on several items', async () => {
+    const response = await send(itemsRoute.PATCH, 'editor-1', 'PATCH', {
+      item_ids: ['item-1'],
+      changes: { notes: 'Fragile' },
+    })
+    expect(response.status).toBe(200)
+    expect(stored().items[0].notes).toBe('Fragile')
+  })
+
+  it('PATCH item renames it and DELETE item removes it', async () => {
+    await send(itemRoute.PATCH, 'editor-1', 'PATCH', { name: 'Armchair' })
+    expect(stored().items[0].name).toBe('Armchair')
+
+    await send(itemRoute.DELETE, 'editor-1', 'DELETE')
+    expect(stored().items).toEqual([])
+  })
+
+  it('POST versions adds the next version', async () => {
+    const response = await send(versionsRoute.POST, 'editor-1', 'POST', {
+      versionName: 'Darker',
+    })
+    expect(response.status).toBe(201)
+    expect(stored().items[0].versions[1]).toMatchObject({
+      versionNumber: 2,
+      versionName: 'Darker',
+    })
+  })
+
+  it('PATCH version renames it and DELETE version removes it', async () => {
+    await send(versionRoute.PATCH, 'editor-1', 'PATCH', {
+      versionName: 'First',
+    })
+    expect(storedVersion().versionName).toBe('First')
+
+    await send(versionRoute.DELETE, 'editor-1', 'DELETE')
+    expect(stored().items[0].versions).toEqual([])
+  })
+
+  it('POST parts adds a part with a new id', async () => {
+    const response = await send(partsRoute.POST, 'editor-1', 'POST', {
+      ...seat,
+      id: undefined,
+      name: 'Legs',
+    })
+    expect(response.status).toBe(201)
+    const [, legs] = storedVersion().parts
+    expect(legs.name).toBe('Legs')
+    expect(legs.id).not.toBe('part-1')
+  })
+
+  it('PATCH part updates it and DELETE part removes it', async () => {
+    await send(partRoute.PATCH, 'editor-1', 'PATCH', { color: 'Walnut' })
+    expect(storedVersion().parts[0].color).toBe('Walnut')
+
+    await send(partRoute.DELETE, 'editor-1', 'DELETE')
+    expect(storedVersion().parts).toEqual([])
+  })
+})
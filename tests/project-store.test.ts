@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { fakeSupabase, apiRequest } from './supabase-fake'
+import { requireAuth, requireProjectAccess } from '@/lib/api-auth'
+import { CURRENT_SCHEMA_VERSION } from '@/lib/project-migrations'
+import { saveProject } from '@/lib/project-store'
+
+vi.mock('@/lib/supaAdmin', async () => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return { supabaseAdmin: fakeSupabase.admin }
+})
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return {
+    ...(await importOriginal<object>()),
+    createClient: (_url: string, _key: string, options?: any) =>
+      fakeSupabase.clientFor(options?.global?.headers?.Authorization),
+  }
+})
+
+describe('saveProject', () => {
+  beforeEach(() => {
+    fakeSupabase.reset()
+    fakeSupabase.tables.projects = [
+      {
+        id: 'project-1',
+        user_id: 'owner-1',
+        title: 'Lobby',
+        retailer: 'Acme',
+        // Saved before versioning
+        schema_version: 1,
+        items: [{ name: 'Chair', parts: [{ name: 'Seat' }] }],
+      },
+    ]
+  })
+
+  async function load() {
+    const token = fakeSupabase.signIn('owner-1')
+    const auth = await requireAuth(apiRequest('/api/v1/projects', token))
+    const { project } = await requireProjectAccess(auth, 'project-1', 'edit')
+    return { auth, project }
+  }
+
+  it('stamps the current schema version when saving as the user', async () => {
+    const { auth, project } = await load()
+    await saveProject(auth, project, { title: 'Lobby refit' })
+
+    const [stored] = fakeSupabase.table('projects')
+    expect(stored.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+    expect(stored.items[0].versions[0].parts[0].id).toBe('item-legacy-1-part-1')
+  })
+
+  it('stamps the current schema version on the admin path', async () => {
+    const { auth, project } = await load()
+    await saveProject(
+      { ...auth, method: 'personal_token', scopes: ['parts:write'] },
+      project,
+      { title: 'Lobby refit' }
+    )
+
+    expect(fakeSupabase.table('projects')[0].schema_version).toBe(
+      CURRENT_SCHEMA_VERSION
+    )
+  })
+})
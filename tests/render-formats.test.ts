@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import {
+  detectRenderFormat,
+  toRgba8,
+  toneMapToRgba8,
+} from '@/lib/render-formats'
+import { getUploadContentType, isUploadableType } from '@/lib/upload-files'
+
+const bytes = (...parts: (string | number[])[]) =>
+  new Uint8Array(
+    parts.reduce<number[]>(
+      (all, part) =>
+        all.concat(
+          typeof part === 'string'
+            ? part.split('').map((char) => char.charCodeAt(0))
+            : part
+        ),
+      []
+    )
+  )
+
+// An ISO base media `ftyp` box with a major and compatible brands
+const fileType = (...brands: string[]) =>
+  bytes(
+    [0, 0, 0, 8 + 4 * (brands.length + 1)],
+    'ftyp',
+    brands[0],
+    [0, 0, 0, 0],
+    brands.slice(1).join('')
+  )
+
+describe('detectRenderFormat', () => {
+  it('recognises render formats by their signature', () => {
+    expect(detectRenderFormat(bytes('8BPS', [0, 1]))).toBe('psd')
+    expect(detectRenderFormat(bytes([0x76, 0x2f, 0x31, 0x01, 2]))).toBe('exr')
+    expect(detectRenderFormat(bytes('%PDF-1.7\n'))).toBe('pdf')
+    expect(detectRenderFormat(fileType('heic', 'mif1', 'heic'))).toBe('heic')
+  })
+
+  it('leaves formats sharp reads to sharp', () => {
+    expect(detectRenderFormat(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBeNull()
+    expect(detectRenderFormat(bytes('II*', [0]))).toBeNull()
+    // AVIF shares the HEIF container and its mif1 brand
+    expect(detectRenderFormat(fileType('avif', 'mif1', 'miaf'))).toBeNull()
+  })
+})
+
+describe('toneMapToRgba8', () => {
+  it('maps linear light to sRGB without clipping highlights', () => {
+    const [black, mid, bright, alpha] = [0, 0.18, 16, 0.5]
+    const output = toneMapToRgba8(
+      new Float32Array([black, mid, bright, alpha]),
+      4
+    )
+    expect(output[0]).toBe(0)
+    expect(output[1]).toBeGreaterThan(100)
+    expect(output[1]).toBeLessThan(160)
+    expect(output[2]).toBeGreaterThan(250)
+    expect(output[3]).toBe(128)
+  })
+
+  it('turns single-channel passes grey and opaque', () => {
+    const output = toneMapToRgba8(new Float32Array([1, NaN]), 1)
+    expect(output[0]).toBe(output[1])
+    expect(output[1]).toBe(output[2])
+    expect(output[3]).toBe(255)
+    expect(Array.from(output.slice(4))).toEqual([0, 0, 0, 255])
+  })
+})
+
+describe('toRgba8', () => {
+  it('scales 16-bit pixels down', () => {
+    expect(
+      Array.from(toRgba8(new Uint16Array([0, 257, 32896, 65535])))
+    ).toEqual([0, 1, 128, 255])
+  })
+})
+
+describe('getUploadContentType', () => {
+  it('types render files by extension when the browser did not', () => {
+    expect(getUploadContentType({ name: 'drawing.PDF', type: '' })).toBe(
+      'application/pdf'
+    )
+    expect(
+      getUploadContentType({
+        name: 'beauty.exr',
+        type: 'application/octet-stream',
+      })
+    ).toBe('image/x-exr')
+    expect(isUploadableType('application/pdf')).toBe(true)
+    expect(isUploadableType('application/zip')).toBe(false)
+  })
+})
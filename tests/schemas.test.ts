@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { itemDetailsSchema } from '@/types/schemas'
+
+const STORAGE = 'https://abc.supabase.co/storage/v1/object/public'
+
+function logoError(custom_logo: string) {
+  const result = itemDetailsSchema.safeParse({ custom_logo })
+  return result.success ? null : result.error.issues[0].message
+}
+
+describe('itemDetailsSchema custom_logo', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'https://abc.supabase.co')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('accepts files in our storage buckets', () => {
+    expect(logoError(`${STORAGE}/project-files/objects/9f/logo.png`)).toBe(null)
+    expect(logoError(`${STORAGE}/board-assets/logo.svg`)).toBe(null)
+  })
+
+  it('rejects other schemes, hosts and buckets', () => {
+    for (const url of [
+      'javascript:alert(1)',
+      'data:image/svg+xml;base64,PHN2Zz48L3N2Zz4=',
+      `http://abc.supabase.co/storage/v1/object/public/project-files/logo.png`,
+      'https://example.com/storage/v1/object/public/project-files/logo.png',
+      'https://abc.supabase.co.example.com/storage/v1/object/public/project-files/logo.png',
+      `${STORAGE}/avatars/logo.png`,
+      'https://abc.supabase.co/logo.png',
+    ]) {
+      expect(logoError(url), url).not.toBe(null)
+    }
+  })
+
+  it('rejects everything when storage is not configured', () => {
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', '')
+    expect(logoError(`${STORAGE}/project-files/logo.png`)).not.toBe(null)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { keepWorkflowStatus } from '@/lib/status-workflow'
+import { Item, Part, Version } from '@/types'
+
+const part = (id: string, extra: Partial<Part> = {}): Part => ({
+  id,
+  name: `Part ${id}`,
+  finish: '',
+  color: '',
+  texture: '',
+  ...extra,
+})
+
+const version = (id: string, parts: Part[], extra: Partial<Version> = {}) =>
+  ({ id, versionNumber: 1, parts, ...extra }) as Version
+
+const item = (versions: Version[]): Item => ({
+  id: 'item-1',
+  name: 'Chair',
+  versions,
+})
+
+describe('keepWorkflowStatus', () => {
+  const stored = [
+    item([
+      version('v1', [part('p1', { status: 'in_review' }), part('p2')], {
+        status: 'in_review',
+        status_updated_at: '2024-06-01T12:00:00.000Z',
+        status_updated_by: 'user-1',
+      }),
+    ]),
+  ]
+
+  it('keeps stored statuses over the ones sent', () => {
+    const sent = [
+      item([
+        version(
+          'v1',
+          [
+            part('p1', { status: 'approved', name: 'Renamed' }),
+            part('p2', { status: 'rendered' }),
+          ],
+          { status: 'approved', status_updated_by: 'user-2' }
+        ),
+      ]),
+    ]
+
+    const [{ versions }] = keepWorkflowStatus(stored, sent)
+    expect(versions![0]).toMatchObject({
+      status: 'in_review',
+      status_updated_at: '2024-06-01T12:00:00.000Z',
+      status_updated_by: 'user-1',
+    })
+    expect(versions![0].parts[0]).toMatchObject({
+      status: 'in_review',
+      name: 'Renamed',
+    })
+    expect(versions![0].parts[1].status).toBeUndefined()
+  })
+
+  it('starts new versions and parts as drafts', () => {
+    const sent = [
+      item([
+        ...stored[0].versions!,
+        version('v2', [part('p3', { status: 'approved' })], {
+          status: 'approved',
+        }),
+      ]),
+    ]
+
+    const [{ versions }] = keepWorkflowStatus(stored, sent)
+    expect(versions![1].status).toBeUndefined()
+    expect(versions![1].parts[0].status).toBeUndefined()
+  })
+})
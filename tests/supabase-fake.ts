@@ -0,0 +1,299 @@
+import { randomUUID } from 'crypto'
+import { NextRequest } from 'next/server'
+
+/**
+ * In-memory stand-in for the Supabase clients, enough for route handlers:
+ * table queries with eq/gt/in/order/limit filters, inserts, updates, upserts
+ * and deletes, `auth.getUser` for session tokens and the project RPCs.
+ * Tests mock `@/lib/supaAdmin` with `fakeSupabase.admin` and
+ * `createClient` with `fakeSupabase.clientFor`, see tests/api-auth.test.ts.
+ */
+
+type Row = Record<string, any>
+type Filter = (row: Row) => boolean
+
+interface Result {
+  data: any
+  error: { message: string; code?: string } | null
+}
+
+type Rpc = (args: Record<string, any>, userId: string | null) => any
+
+class FakeQuery implements PromiseLike<Result> {
+  private filters: Filter[] = []
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' =
+    'select'
+  private payload: Row[] = []
+  private changes: Row = {}
+  private sort: { column: string; ascending: boolean } | null = null
+  private max: number | null = null
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(
+    private db: FakeSupabase,
+    private table: string
+  ) {}
+
+  select() {
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.action = 'insert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  upsert(rows: Row | Row[]) {
+    this.action = 'upsert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  update(changes: Row) {
+    this.action = 'update'
+    this.changes = changes
+    return this
+  }
+
+  delete() {
+    this.action = 'delete'
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] !== value)
+    return this
+  }
+
+  gt(column: string, value: any) {
+    this.filters.push((row) => row[column] > value)
+    return this
+  }
+
+  lt(column: string, value: any) {
+    this.filters.push((row) => row[column] < value)
+    return this
+  }
+
+  lte(column: string, value: any) {
+    this.filters.push((row) => row[column] <= value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]))
+    return this
+  }
+
+  is(column: string, value: unknown) {
+    this.filters.push((row) => (row[column] ?? null) === value)
+    return this
+  }
+
+  order(column: string, { ascending = true } = {}) {
+    this.sort = { column, ascending }
+    return this
+  }
+
+  limit(count: number) {
+    this.max = count
+    return this
+  }
+
+  single() {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  then<T1 = Result, T2 = never>(
+    onFulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => this.run())
+      .then(onFulfilled, onRejected)
+  }
+
+  private run(): Result {
+    const rows = this.db.table(this.table)
+    const matches = (row: Row) => this.filters.every((filter) => filter(row))
+    let result: Row[]
+
+    switch (this.action) {
+      case 'insert':
+        result = this.payload.map((row) => ({ id: randomUUID(), ...row }))
+        rows.push(...result)
+        break
+      case 'upsert':
+        result = this.payload.map((row) => {
+          const existing = rows.find((entry) => entry.id === row.id)
+          if (existing) return Object.assign(existing, row)
+          const inserted = { id: randomUUID(), ...row }
+          rows.push(inserted)
+          return inserted
+        })
+        break
+      case 'update':
+        result = rows.filter(matches)
+        result.forEach((row) => Object.assign(row, this.changes))
+        break
+      case 'delete':
+        result = rows.filter(matches)
+        this.db.tables[this.table] = rows.filter((row) => !matches(row))
+        break
+      default:
+        result = rows.filter(matches)
+    }
+
+    if (this.sort) {
+      const { column, ascending } = this.sort
+      result = [...result].sort(
+        (a, b) => (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+      )
+    }
+    if (this.max !== null) result = result.slice(0, this.max)
+
+    const data = structuredClone(result)
+    if (this.mode === 'many') return { data, error: null }
+    if (data.length === 0 && this.mode === 'single') {
+      return { data: null, error: { message: 'No rows', code: 'PGRST116' } }
+    }
+    return { data: data[0] ?? null, error: null }
+  }
+}
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {}
+  /** Session tokens to the users they belong to */
+  sessions: Record<string, Row> = {}
+  rpcs: Record<string, Rpc> = {}
+
+  reset() {
+    this.tables = {}
+    this.sessions = {}
+    this.rpcs = { ...PROJECT_RPCS }
+  }
+
+  table(name: string): Row[] {
+    return (this.tables[name] ||= [])
+  }
+
+  /** A session token for a user */
+  signIn(userId: string, email = `${userId}@example.com`): string {
+    const token = `session-${userId}`
+    this.sessions[token] = { id: userId, email }
+    return token
+  }
+
+  private client(userId: string | null) {
+    return {
+      from: (table: string) => new FakeQuery(this, table),
+      rpc: async (name: string, args: Record<string, any> = {}) => {
+        const rpc = this.rpcs[name]
+        if (!rpc) return { data: null, error: { message: `No RPC ${name}` } }
+        try {
+          return { data: structuredClone(rpc(args, userId)), error: null }
+        } catch (error) {
+          return {
+            data: null,
+            error: { message: (error as Error).message, code: 'P0001' },
+          }
+        }
+      },
+      auth: {
+        getUser: async (token: string) => {
+          const user = this.sessions[token]
+          return user
+            ? { data: { user }, error: null }
+            : { data: { user: null }, error: { message: 'Invalid JWT' } }
+        },
+      },
+    }
+  }
+
+  /** The service-role client */
+  get admin() {
+    return this.client(null)
+  }
+
+  /** What createClient returns for a caller's `Authorization` header */
+  clientFor(authorization: string | undefined) {
+    const token = (authorization || '').replace('Bearer ', '')
+    return this.client(this.sessions[token]?.id ?? null)
+  }
+}
+
+function canRead(db: FakeSupabase, projectId: string, userId: string | null) {
+  const project = db.table('projects').find((row) => row.id === projectId)
+  if (!project || !userId) return null
+  const isMember =
+    project.user_id === userId ||
+    db
+      .table('project_collaborators')
+      .some((row) => row.project_id === projectId && row.user_id === userId)
+  return isMember ? project : null
+}
+
+// The shapes docs/add-project-schema-version.sql returns
+const PROJECT_RPCS: Record<string, Rpc> = {
+  get_user_project({ p_project_id }, userId) {
+    const project = canRead(fakeSupabase, p_project_id, userId)
+    return project ? [project] : []
+  },
+  update_user_project(args, userId) {
+    const project = canRead(fakeSupabase, args.p_project_id, userId)
+    const canEdit =
+      project &&
+      (project.user_id === userId ||
+        fakeSupabase
+          .table('project_collaborators')
+          .some(
+            (row) =>
+              row.project_id === project.id &&
+              row.user_id === userId &&
+              ['edit', 'admin'].includes(row.permission_level)
+          ))
+    if (!canEdit) {
+      throw new Error('You do not have permission to update this project')
+    }
+    Object.assign(project, {
+      title: args.p_title,
+      retailer: args.p_retailer,
+      due_date: args.p_due_date,
+      items: args.p_items,
+      schema_version: args.p_schema_version ?? project.schema_version,
+      updated_at: new Date().toISOString(),
+    })
+    return [project]
+  },
+}
+
+export const fakeSupabase = new FakeSupabase()
+fakeSupabase.reset()
+
+/** A route handler request sent with a bearer token */
+export function apiRequest(
+  url: string,
+  token: string,
+  { method = 'GET', body }: { method?: string; body?: unknown } = {}
+): NextRequest {
+  return new NextRequest(new URL(url, 'http://localhost'), {
+    method,
+    headers: {
+      authorization: `Bearer ${token}`,
+      ...(body !== undefined ? { 'content-type': 'application/json' } : {}),
+    },
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  })
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { TLSocketRoom } from '@tldraw/sync-core'
+import { createTLSchema, TLRecord } from '@tldraw/tlschema'
+import {
+  getStoredSnapshot,
+  toStoreSnapshot,
+} from '../tldraw-sync-server/src/snapshot'
+
+const schema = createTLSchema()
+
+describe('getStoredSnapshot', () => {
+  it('reads the tldraw document and ignores the Excalidraw board', () => {
+    const stored = { store: { 'page:a': { id: 'page:a' } }, schema: {} }
+    expect(getStoredSnapshot({ ...stored, elements: [], files: {} })).toEqual(
+      stored
+    )
+  })
+
+  it('returns null for boards never opened in tldraw', () => {
+    expect(getStoredSnapshot(null)).toBeNull()
+    expect(getStoredSnapshot({})).toBeNull()
+    expect(getStoredSnapshot({ elements: [], appState: {} })).toBeNull()
+  })
+})
+
+describe('toStoreSnapshot', () => {
+  it('round-trips a room through project_boards', () => {
+    const room = new TLSocketRoom<TLRecord>({ schema })
+    const saved = toStoreSnapshot(room.getCurrentSnapshot())
+    expect(Object.keys(saved.store).length).toBeGreaterThan(0)
+
+    const reopened = new TLSocketRoom<TLRecord>({
+      schema,
+      initialSnapshot: getStoredSnapshot(JSON.parse(JSON.stringify(saved)))!,
+    })
+    expect(toStoreSnapshot(reopened.getCurrentSnapshot())).toEqual(saved)
+    room.close()
+    reopened.close()
+  })
+})
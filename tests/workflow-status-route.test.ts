@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { fakeSupabase, apiRequest } from './supabase-fake'
+import { POST as changeVersionStatus } from '@/app/api/v1/projects/[id]/items/[itemId]/versions/[versionId]/status/route'
+import { POST as changePartStatus } from '@/app/api/v1/projects/[id]/items/[itemId]/versions/[versionId]/parts/[partId]/status/route'
+
+vi.mock('@/lib/supaAdmin', async () => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return { supabaseAdmin: fakeSupabase.admin }
+})
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => {
+  const { fakeSupabase } = await import('./supabase-fake')
+  return {
+    ...(await importOriginal<object>()),
+    createClient: (_url: string, _key: string, options?: any) =>
+      fakeSupabase.clientFor(options?.global?.headers?.Authorization),
+  }
+})
+
+const params = { id: 'project-1', itemId: 'item-1', versionId: 'version-1' }
+const url = '/api/v1/projects/project-1/items/item-1/versions/version-1'
+
+function storedVersion() {
+  return fakeSupabase.table('projects')[0].items[0].versions[0]
+}
+
+describe('workflow status routes with a session', () => {
+  beforeEach(() => {
+    fakeSupabase.reset()
+    fakeSupabase.tables.projects = [
+      {
+        id: 'project-1',
+        user_id: 'owner-1',
+        title: 'Lobby',
+        retailer: 'Acme',
+        schema_version: 6,
+        items: [
+          {
+            id: 'item-1',
+            name: 'Chair',
+            versions: [
+              {
+                id: 'version-1',
+                versionNumber: 1,
+                parts: [{ id: 'part-1', name: 'Seat' }],
+              },
+            ],
+          },
+        ],
+      },
+    ]
+    fakeSupabase.tables.project_collaborators = [
+      {
+        project_id: 'project-1',
+        user_id: 'editor-1',
+        permission_level: 'edit',
+      },
+      {
+        project_id: 'project-1',
+        user_id: 'viewer-1',
+        permission_level: 'view',
+      },
+    ]
+  })
+
+  it('lets the owner submit a version for review', async () => {
+    const token = fakeSupabase.signIn('owner-1')
+    const response = await changeVersionStatus(
+      apiRequest(`${url}/status`, token, {
+        method: 'POST',
+        body: { status: 'in_review' },
+      }),
+      { params }
+    )
+
+    expect(response.status).toBe(200)
+    expect(storedVersion()).toMatchObject({
+      status: 'in_review',
+      status_updated_by: 'owner-1',
+    })
+    expect(fakeSupabase.table('project_logs')[0]).toMatchObject({
+      action: 'status_changed',
+      user_id: 'owner-1',
+    })
+  })
+
+  it('lets an editor submit a part for review', async () => {
+    const token = fakeSupabase.signIn('editor-1')
+    const response = await changePartStatus(
+      apiRequest(`${url}/parts/part-1/status`, token, {
+        method: 'POST',
+        body: { status: 'in_review', comment: 'Ready' },
+      }),
+      { params: { ...params, partId: 'part-1' } }
+    )
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      id: 'part-1',
+      status: 'in_review',
+    })
+    expect(storedVersion().parts[0].status).toBe('in_review')
+  })
+
+  it("doesn't let an editor approve", async () => {
+    storedVersion().status = 'in_review'
+    const token = fakeSupabase.signIn('editor-1')
+    const response = await changeVersionStatus(
+      apiRequest(`${url}/status`, token, {
+        method: 'POST',
+        body: { status: 'approved' },
+      }),
+      { params }
+    )
+
+    expect(response.status).toBe(403)
+    expect(storedVersion().status).toBe('in_review')
+  })
+
+  it('keeps viewers out', async () => {
+    const token = fakeSupabase.signIn('viewer-1')
+    const response = await changeVersionStatus(
+      apiRequest(`${url}/status`, token, {
+        method: 'POST',
+        body: { status: 'in_review' },
+      }),
+      { params }
+    )
+
+    expect(response.status).toBe(403)
+    expect(storedVersion().status).toBeUndefined()
+  })
+})
@@ -0,0 +1,127 @@
+import { isAuthRetryableFetchError } from '@supabase/supabase-js'
+import { supabaseAdmin } from './supabase'
+
+/**
+ * Who may join a board's room. Mirrors requireBoardAccess in the portal's
+ * lib/project-boards.ts: a room is a project's main board, whose id is the
+ * project's, so the user needs the board's view_permission on the project
+ * to get in and its edit_permission to join other than read-only.
+ */
+
+export type ProjectPermission = 'owner' | 'admin' | 'edit' | 'view'
+
+const PERMISSION_RANK: Record<ProjectPermission, number> = {
+  view: 1,
+  edit: 2,
+  admin: 3,
+  owner: 4,
+}
+
+interface BoardPermissions {
+  view_permission: ProjectPermission
+  edit_permission: ProjectPermission
+}
+
+// A main board that hasn't been created yet has the defaults
+const DEFAULT_BOARD_PERMISSIONS: BoardPermissions = {
+  view_permission: 'view',
+  edit_permission: 'edit',
+}
+
+export interface RoomAccess {
+  userId: string
+  permission: ProjectPermission
+  isReadonly: boolean
+}
+
+/**
+ * Refused before the WebSocket upgrade; `status` is the HTTP response
+ */
+export class ConnectionError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'ConnectionError'
+    this.status = status
+  }
+}
+
+async function getProjectPermission(
+  userId: string,
+  projectId: string
+): Promise<ProjectPermission | null> {
+  const { data: project, error } = await supabaseAdmin
+    .from('projects')
+    .select('id, user_id')
+    .eq('id', projectId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!project) return null
+  if (project.user_id === userId) return 'owner'
+
+  const { data: collaborator, error: collaboratorError } = await supabaseAdmin
+    .from('project_collaborators')
+    .select('permission_level')
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (collaboratorError) throw collaboratorError
+  return collaborator
+    ? (collaborator.permission_level as ProjectPermission)
+    : null
+}
+
+async function getBoardPermissions(
+  projectId: string
+): Promise<BoardPermissions> {
+  const { data, error } = await supabaseAdmin
+    .from('project_boards')
+    .select('view_permission, edit_permission')
+    .eq('id', projectId)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data as BoardPermissions | null) || DEFAULT_BOARD_PERMISSIONS
+}
+
+/**
+ * Check a Supabase session JWT, sent as `?token=` because browsers can't
+ * set headers on a WebSocket, against the project's collaborators
+ */
+export async function authorizeConnection(
+  token: string | null,
+  projectId: string
+): Promise<RoomAccess> {
+  if (!token) throw new ConnectionError(401, 'Missing token')
+
+  const {
+    data: { user },
+    error,
+  } = await supabaseAdmin.auth.getUser(token)
+  // Supabase being unreachable isn't the token's fault
+  if (error && isAuthRetryableFetchError(error)) throw error
+  if (error || !user) throw new ConnectionError(401, 'Invalid token')
+
+  const [permission, board] = await Promise.all([
+    getProjectPermission(user.id, projectId),
+    getBoardPermissions(projectId),
+  ])
+  // Same answer for a missing project or a board the user can't open, so
+  // room ids can't be probed
+  if (
+    !permission ||
+    PERMISSION_RANK[permission] < PERMISSION_RANK[board.view_permission]
+  ) {
+    throw new ConnectionError(403, 'No access to this board')
+  }
+
+  return {
+    userId: user.id,
+    permission,
+    isReadonly:
+      PERMISSION_RANK[permission] < PERMISSION_RANK[board.edit_permission],
+  }
+}
@@ -0,0 +1,169 @@
+import { TLSocketRoom, WebSocketMinimal } from '@tldraw/sync-core'
+import { createTLSchema, TLRecord, TLStoreSnapshot } from '@tldraw/tlschema'
+import { supabaseAdmin } from './supabase'
+import { getStoredSnapshot, toStoreSnapshot } from './snapshot'
+
+/**
+ * One tldraw room per project, kept in memory while anyone is connected.
+ * A room is loaded from project_boards when its first client connects,
+ * saved a few seconds after each change and once more when its last
+ * client leaves, and only then closed. A room whose save fails stays open
+ * and keeps retrying, so edits are never dropped with it.
+ */
+
+// Edits within this window are saved together
+const SAVE_DELAY = 2000
+const RETRY_DELAY = 10000
+
+// The default shapes and bindings, as the portal's <Tldraw> uses
+const schema = createTLSchema()
+
+export class BoardRoom {
+  readonly projectId: string
+  readonly socketRoom: TLSocketRoom<TLRecord>
+  private savedClock: number
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+  private saving: Promise<boolean> = Promise.resolve(true)
+
+  constructor(projectId: string, initialSnapshot: TLStoreSnapshot | null) {
+    this.projectId = projectId
+    this.socketRoom = new TLSocketRoom<TLRecord>({
+      schema,
+      initialSnapshot: initialSnapshot || undefined,
+      onDataChange: () => this.scheduleSave(SAVE_DELAY),
+      onSessionRemoved: (_room, { numSessionsRemaining }) => {
+        if (numSessionsRemaining === 0) this.save()
+      },
+      log: { warn: console.warn, error: console.error },
+    })
+    this.savedClock = this.socketRoom.getCurrentDocumentClock()
+  }
+
+  get isClosed(): boolean {
+    return this.socketRoom.isClosed()
+  }
+
+  /**
+   * Add a client. False when the room closed after its last client left
+   * while this one was connecting; loading it again picks up its edits.
+   */
+  join(session: {
+    sessionId: string
+    socket: WebSocketMinimal
+    isReadonly: boolean
+  }): boolean {
+    if (this.isClosed) return false
+    this.socketRoom.handleSocketConnect(session)
+    return true
+  }
+
+  /**
+   * Save now, then close the room if everyone has left. Resolves false
+   * when the save failed; a retry is scheduled.
+   */
+  save(): Promise<boolean> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = null
+    }
+    // One save at a time, so an older document never lands last
+    this.saving = this.saving.then(async () => {
+      try {
+        await this.write()
+      } catch (error) {
+        console.error('Failed to save board:', this.projectId, error)
+        this.scheduleSave(RETRY_DELAY)
+        return false
+      }
+      if (this.socketRoom.getNumActiveSessions() === 0) this.close()
+      return true
+    })
+    return this.saving
+  }
+
+  close() {
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.saveTimer = null
+    if (rooms.get(this.projectId) === this) rooms.delete(this.projectId)
+    if (!this.isClosed) this.socketRoom.close()
+  }
+
+  private scheduleSave(delay: number) {
+    if (this.saveTimer || this.isClosed) return
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null
+      this.save()
+    }, delay)
+  }
+
+  private async write() {
+    const clock = this.socketRoom.getCurrentDocumentClock()
+    if (clock === this.savedClock) return
+
+    const { store, schema } = toStoreSnapshot(
+      this.socketRoom.getCurrentSnapshot()
+    )
+    const { error } = await supabaseAdmin.rpc('save_tldraw_board', {
+      p_project_id: this.projectId,
+      p_store: store,
+      p_schema: schema,
+    })
+
+    if (error) throw error
+    this.savedClock = clock
+  }
+}
+
+const rooms = new Map<string, BoardRoom>()
+const loads = new Map<string, Promise<BoardRoom>>()
+
+async function loadRoom(projectId: string): Promise<BoardRoom> {
+  const { data, error } = await supabaseAdmin
+    .from('project_boards')
+    .select('board_snapshot')
+    // The project's main board has the project's id
+    .eq('id', projectId)
+    .maybeSingle()
+
+  // Opening an empty room instead would save it over the stored board
+  if (error) throw error
+  return new BoardRoom(projectId, getStoredSnapshot(data?.board_snapshot))
+}
+
+/**
+ * The open room for a project, loading it when nobody is connected.
+ * Clients joining while the room loads share the one load.
+ */
+export async function getRoom(projectId: string): Promise<BoardRoom> {
+  const open = rooms.get(projectId)
+  if (open) return open
+
+  let loading = loads.get(projectId)
+  if (!loading) {
+    loading = loadRoom(projectId)
+      .then((room) => {
+        rooms.set(projectId, room)
+        return room
+      })
+      .finally(() => loads.delete(projectId))
+    loads.set(projectId, loading)
+  }
+  return loading
+}
+
+export function getOpenRoomCount(): number {
+  return rooms.size
+}
+
+/**
+ * Save every room and disconnect its clients, before the process exits.
+ * Clients reconnect to the next instance.
+ */
+export async function closeAllRooms(): Promise<void> {
+  await Promise.all(
+    Array.from(rooms.values()).map(async (room) => {
+      await room.save()
+      room.close()
+    })
+  )
+}
@@ -0,0 +1,109 @@
+import { createServer, IncomingMessage, STATUS_CODES } from 'http'
+import { Duplex } from 'stream'
+import { WebSocketServer } from 'ws'
+import { authorizeConnection, ConnectionError } from './auth'
+import { closeAllRooms, getOpenRoomCount, getRoom } from './rooms'
+
+/**
+ * tldraw sync server for project boards, speaking the protocol `useSync`
+ * from @tldraw/sync expects:
+ *
+ *   GET /health
+ *   WebSocket /connect/{projectId}?token={supabase access token}
+ *
+ * `useSync` adds `sessionId` and `storeId` to the URL itself.
+ */
+
+const PORT = Number(process.env.PORT) || 5858
+const CONNECT_PATH = /^\/connect\/([0-9a-f-]{36})$/i
+// Close code asking the client to reconnect
+const SERVICE_RESTART = 1012
+
+const wss = new WebSocketServer({ noServer: true })
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.end(
+    `HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\n` +
+      'Connection: close\r\n' +
+      'Content-Type: text/plain\r\n' +
+      `Content-Length: ${Buffer.byteLength(message)}\r\n\r\n` +
+      message
+  )
+}
+
+async function handleUpgrade(
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+) {
+  const url = new URL(request.url || '/', 'http://localhost')
+  const match = CONNECT_PATH.exec(url.pathname)
+  const sessionId = url.searchParams.get('sessionId')
+  if (!match || !sessionId) {
+    rejectUpgrade(socket, 404, 'Not found')
+    return
+  }
+  const projectId = match[1].toLowerCase()
+
+  try {
+    const access = await authorizeConnection(
+      url.searchParams.get('token'),
+      projectId
+    )
+    // Loaded before the upgrade: the client's first message comes as soon
+    // as the socket opens
+    const room = await getRoom(projectId)
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      const joined = room.join({
+        sessionId,
+        socket: ws,
+        isReadonly: access.isReadonly,
+      })
+      if (!joined) ws.close(SERVICE_RESTART, 'Room reloading')
+    })
+  } catch (error) {
+    if (error instanceof ConnectionError) {
+      rejectUpgrade(socket, error.status, error.message)
+      return
+    }
+    console.error('Failed to open board room:', projectId, error)
+    rejectUpgrade(socket, 500, 'Board unavailable')
+  }
+}
+
+const server = createServer((request, response) => {
+  if (request.method === 'GET' && request.url === '/health') {
+    response.writeHead(200, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify({ status: 'ok', rooms: getOpenRoomCount() }))
+    return
+  }
+  response.writeHead(404, { 'Content-Type': 'text/plain' })
+  response.end('Not found')
+})
+
+server.on('upgrade', (request, socket, head) => {
+  handleUpgrade(request, socket, head)
+})
+
+server.listen(PORT, () => {
+  console.log(`Board sync server listening on port ${PORT}`)
+})
+
+let shuttingDown = false
+
+async function shutdown(signal: string) {
+  if (shuttingDown) return
+  shuttingDown = true
+  console.log(`${signal} received, saving boards`)
+
+  server.close()
+  try {
+    await closeAllRooms()
+  } finally {
+    process.exit(0)
+  }
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+process.on('SIGINT', () => shutdown('SIGINT'))
@@ -0,0 +1,35 @@
+import type { RoomSnapshot } from '@tldraw/sync-core'
+import type { TLStoreSnapshot } from '@tldraw/tlschema'
+
+/**
+ * Rooms are stored in project_boards.board_snapshot in the same
+ * `{ store, schema }` shape the portal's useProjectBoard saves, so a board
+ * opens the same with or without the sync server. Other keys of
+ * board_snapshot (the Excalidraw board's `elements`, `appState`, `files`)
+ * belong to the Excalidraw editor and are left alone.
+ */
+
+/**
+ * The tldraw document in a stored board_snapshot, or null when the board
+ * has never been drawn on with tldraw
+ */
+export function getStoredSnapshot(
+  boardSnapshot: unknown
+): TLStoreSnapshot | null {
+  if (!boardSnapshot || typeof boardSnapshot !== 'object') return null
+  const { store, schema } = boardSnapshot as Partial<TLStoreSnapshot>
+  if (!store || typeof store !== 'object' || !schema) return null
+  return { store, schema }
+}
+
+/**
+ * A room's current document as a store snapshot. Tombstones are dropped:
+ * a client that reconnects after a restart gets the whole document anyway.
+ */
+export function toStoreSnapshot(room: RoomSnapshot): TLStoreSnapshot {
+  const store: Record<string, unknown> = {}
+  room.documents.forEach(({ state }) => {
+    store[state.id] = state
+  })
+  return { store, schema: room.schema } as TLStoreSnapshot
+}
@@ -0,0 +1,21 @@
+import { createClient } from '@supabase/supabase-js'
+
+// NEXT_PUBLIC_SUPABASE_URL lets the server run from the portal's .env.local
+const supabaseUrl =
+  process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  console.error('Missing Supabase environment variables:', {
+    url: supabaseUrl ? 'SET' : 'MISSING',
+    serviceKey: supabaseServiceRoleKey ? 'SET' : 'MISSING',
+  })
+  throw new Error('Missing required Supabase environment variables')
+}
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+  },
+})
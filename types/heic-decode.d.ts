@@ -0,0 +1,14 @@
+declare module 'heic-decode' {
+  interface DecodedImage {
+    width: number
+    height: number
+    /** RGBA, 8 bits per channel */
+    data: Uint8ClampedArray
+  }
+
+  function decode(options: {
+    buffer: ArrayBuffer | Uint8Array
+  }): Promise<DecodedImage>
+
+  export default decode
+}
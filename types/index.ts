@@ -7,6 +7,7 @@ export interface Project {
   user_id?: string
   created_at: string
   updated_at: string
+  schema_version?: number  // See lib/project-migrations.ts
 }
 
 export interface PartGroup {
@@ -17,39 +18,112 @@ export interface PartGroup {
   created_at?: string
 }
 
-export interface Version {
+// Review lifecycle of versions and parts, see lib/status-workflow.ts
+export type WorkflowStatus =
+  | 'draft'
+  | 'in_review'
+  | 'changes_requested'
+  | 'approved'
+  | 'rendered'
+
+// Where a version or part is in the workflow; only the /status routes set it
+export interface WorkflowStamp {
+  status?: WorkflowStatus  // Missing means 'draft'
+  status_updated_at?: string
+  status_updated_by?: string
+}
+
+// Camera angle of a render, see lib/item-images.ts
+export type ImageAngle =
+  | 'front'
+  | 'three_quarter'
+  | 'side'
+  | 'back'
+  | 'top'
+  | 'detail'
+  | 'lifestyle'
+
+export interface ItemImage {
+  id: string  // Unique within the item; keys Part.image_annotations
+  url: string
+  angle: ImageAngle
+  label?: string
+  derivatives?: ImageDerivatives  // Missing for images uploaded before processing
+}
+
+// Resized copies of an uploaded image, see lib/image-derivatives.ts
+export type ImageSize = 'thumb' | 'preview' | 'full'
+export type ImageFormat = 'webp' | 'avif' | 'jpeg'
+export type ImageQuality = 'high' | 'medium' | 'low'
+
+export interface ImageRendition {
+  width: number
+  height: number
+  webp: string
+  avif: string
+  jpeg: string  // For exporters that can't embed WebP or AVIF
+}
+
+export interface ImageDerivatives {
+  width: number  // Of the original, upright
+  height: number
+  blurhash: string
+  sizes: Record<ImageSize, ImageRendition>
+}
+
+export interface Version extends WorkflowStamp {
   id: string
   versionNumber: number
   versionName?: string  // Optional custom name
   parts: Part[]
+  images?: ItemImage[]  // Own renders; falls back to Item.images
   created_at?: string
 }
 
-export interface Item {
+export type PackagingType = 'box' | 'bag' | 'envelope' | 'tube' | 'custom'
+
+export type LogoSource = 'upload' | 'url'
+
+// Item-level requirements, see lib/item-details.ts
+export interface ItemDetails {
+  needs_packaging?: boolean
+  packaging_type?: PackagingType  // Only used while needs_packaging is set
+  needs_logo?: boolean
+  logo_source?: LogoSource
+  custom_logo?: string  // Logo URL; falls back to the project logo
+  notes?: string
+}
+
+export interface Item extends ItemDetails {
   id: string
   name: string
-  hero_image?: string
-  parts?: Part[]  // Old format - keep for backward compatibility
+  hero_image?: string  // Cover image, kept in sync with the first of `images`
+  images?: ItemImage[]  // Ordered; the first one is the primary image
+  parts?: Part[]  // Old format - moved into versions on read, see lib/project-migrations.ts
   versions?: Version[]  // New format
   groups?: PartGroup[]
 }
 
-export interface Part {
+export interface Part extends WorkflowStamp {
   id?: string  // Optional for backward compatibility
   name: string
   finish: string
   color: string
   texture: string
   files?: string[]  // Optional for backward compatibility
-  x?: number
+  x?: number  // Old format - moved into annotation_data on read
   y?: number
   notes?: string
   groupId?: string
-  annotation_data?: {
-    x: number
-    y: number
-    id: string
-  }
+  annotation_data?: PartAnnotation  // Position on the version's primary image
+  image_annotations?: Record<string, PartAnnotation>  // Other images, by ItemImage id
+  material_id?: string | null  // Materials library entry; finish/color are the fallback
+}
+
+export interface PartAnnotation {
+  x: number  // Percentages of the image size
+  y: number
+  id: string
 }
 
 export interface CreateProjectData {
@@ -74,6 +148,8 @@ export interface ProjectLog {
     previous_data?: Project
     new_data?: Project
     restored_from_log_id?: string
+    // Partial restores record which entry was copied back
+    restore_scope?: RestoreScopeDetails
     changes?: {
       title?: { from: string; to: string }
       retailer?: { from: string; to: string }
@@ -83,10 +159,46 @@ export interface ProjectLog {
     previous_due_date?: string | null
     new_due_date?: string | null
     changed_by?: string
+    // Collaborator joined fields
+    collaborator?: {
+      user_id: string
+      permission_level: 'view' | 'edit' | 'admin'
+      invited_by?: string | null
+    }
+    // Status changed / approval fields
+    status_change?: StatusChangeDetails
+    // Export completed fields
+    export?: {
+      format: 'pptx' | 'pdf' | 'html'
+      filename?: string
+    }
   }
   timestamp: string
 }
 
+export interface StatusChangeDetails {
+  target: 'version' | 'part'
+  item_id: string
+  item_name: string
+  version_id: string
+  version_number: number
+  part_id?: string
+  part_name?: string
+  from: WorkflowStatus
+  to: WorkflowStatus
+  comment?: string
+}
+
+export interface RestoreScopeDetails {
+  type: 'item' | 'version' | 'part'
+  item_id?: string
+  item_name: string
+  version_id?: string
+  version_number?: number
+  part_id?: string
+  part_name?: string
+}
+
 // Project Collaboration Types
 export interface ProjectCollaborator {
   id: string
@@ -130,6 +242,306 @@ export interface InviteUserData {
   permission_level: 'view' | 'edit' | 'admin'
 }
 
+// Materials library
+export type MaterialSheen =
+  | 'flat'
+  | 'matte'
+  | 'eggshell'
+  | 'satin'
+  | 'semi_gloss'
+  | 'gloss'
+  | 'high_gloss'
+
+export interface Material {
+  id: string
+  team: 'product_development' | 'industrial_design'
+  name: string
+  swatch_color: string
+  texture_image_url: string | null
+  vendor_code: string | null
+  sheen: MaterialSheen | null
+  notes: string | null
+  archived: boolean
+  created_by: string | null
+  updated_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Part templates
+export type PartTemplateScope = 'user' | 'team' | 'global'
+
+// Icon names map to lucide icons in lib/part-templates.ts
+export type PartTemplateIcon =
+  | 'package'
+  | 'layers'
+  | 'zap'
+  | 'star'
+  | 'settings'
+  | 'plus'
+  | 'lamp'
+  | 'armchair'
+  | 'shirt'
+  | 'box'
+
+export interface PartTemplatePart {
+  name: string
+  finish: string
+  color: string
+  texture: string
+  notes?: string
+  material_id?: string | null
+  // Offset in % of the image from where the template is dropped
+  offset_x?: number
+  offset_y?: number
+}
+
+/**
+ * A template drops one part, or several at once when it's a kit
+ */
+export interface PartTemplate {
+  id: string
+  name: string
+  category: string
+  description: string
+  icon: PartTemplateIcon
+  tags: string[]
+  parts: PartTemplatePart[]
+}
+
+export interface PartTemplateSet {
+  id: string
+  name: string
+  description: string | null
+  scope: PartTemplateScope
+  owner_id: string | null
+  team: string | null
+  templates: PartTemplate[]
+  version: number
+  created_at: string
+  updated_at: string
+}
+
+export interface PartTemplateSetVersion {
+  id: string
+  set_id: string
+  version: number
+  name: string
+  templates: PartTemplate[]
+  created_by: string | null
+  created_at: string
+}
+
+// Project templates, see lib/project-templates.ts
+export interface ProjectTemplate {
+  id: string
+  name: string
+  description: string | null
+  scope: PartTemplateScope
+  owner_id: string | null
+  team: string | null
+  retailer: string
+  // Due date as days after the project is created
+  due_in_days: number | null
+  // Item skeletons: names, versions, part lists and groups without images
+  items: Item[]
+  source_project_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Comment threads
+export type CommentThreadStatus = 'open' | 'resolved'
+
+/**
+ * Where a thread is pinned: an annotation point (`annotation_id` of a
+ * part's annotation_data) or a spot on the item's hero image (x/y in %)
+ */
+export interface CommentAnchor {
+  item_id: string
+  version_id?: string | null
+  part_id?: string | null
+  annotation_id?: string | null
+  image_url?: string | null
+  x?: number | null
+  y?: number | null
+}
+
+export interface CommentThread extends CommentAnchor {
+  id: string
+  project_id: string
+  status: CommentThreadStatus
+  created_by: string | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ThreadComment {
+  id: string
+  thread_id: string
+  project_id: string
+  user_id: string | null
+  /** Mentions are written inline as @[Name](user_id) */
+  body: string
+  mentions: string[]
+  created_at: string
+  updated_at: string
+}
+
+// Personal API tokens
+export type TokenScope = 'projects:read' | 'parts:write' | 'export'
+
+export interface PersonalAccessToken {
+  id: string
+  user_id: string
+  name: string
+  token_prefix: string
+  scopes: TokenScope[]
+  expires_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+// Resumable uploads (see lib/upload-sessions.ts)
+export type UploadBucket = 'project-files' | 'board-assets'
+export type UploadSessionStatus = 'uploading' | 'completed' | 'failed'
+
+export interface UploadSession {
+  id: string
+  user_id: string
+  bucket: UploadBucket
+  path: string
+  name: string
+  content_type: string
+  size: number
+  checksum: string | null // SHA-256 hex, set once verified
+  status: UploadSessionStatus
+  created_at: string
+  completed_at: string | null
+}
+
+export interface CompletedUpload {
+  url: string
+  path: string
+  bucket: UploadBucket
+  name: string
+  type: string
+  size: number
+  checksum: string
+  derivatives: ImageDerivatives | null
+  deduplicated: boolean // The same bytes were already stored
+}
+
+// Content-addressed storage (see lib/asset-storage.ts)
+export interface StoredAsset {
+  bucket: UploadBucket
+  path: string // objects/{2 hex}/{sha256}.{ext}
+  checksum: string
+  derivatives: ImageDerivatives | null
+  created_at: string
+  last_stored_at: string // Latest upload of these bytes
+}
+
+// What holds a storage URL, see lib/asset-references.ts
+export type AssetOwnerType =
+  | 'item'
+  | 'version'
+  | 'part'
+  | 'board'
+  | 'log'
+  | 'template'
+  | 'part_template'
+  | 'material'
+  | 'comment'
+  | 'profile'
+  | 'upload'
+
+export interface AssetReference {
+  bucket: UploadBucket
+  path: string
+  owner: AssetOwnerType
+  owner_id: string
+  project_id?: string
+}
+
+export interface StorageObject {
+  bucket: UploadBucket
+  path: string
+  size: number
+  created_at: string
+}
+
+export interface AssetGcBucketSummary {
+  scanned: number
+  referenced: number
+  orphaned: number
+  orphaned_bytes: number
+}
+
+export interface AssetGcReport {
+  dry_run: boolean
+  cutoff: string // Objects created after this are never collected
+  buckets: Record<UploadBucket, AssetGcBucketSummary>
+  orphans: StorageObject[]
+  deleted: number
+}
+
+// Webhooks
+export type WebhookEvent =
+  | 'project_created'
+  | 'project_updated'
+  | 'project_restored'
+  | 'due_date_updated'
+  | 'collaborator_joined'
+  | 'export_completed'
+  | 'status_changed'
+  | 'approval_recorded'
+
+export interface Webhook {
+  id: string
+  project_id: string | null
+  team: string | null
+  url: string
+  events: WebhookEvent[]
+  active: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface WebhookDelivery {
+  id: string
+  webhook_id: string
+  project_id: string | null
+  log_id: string | null
+  event: WebhookEvent
+  payload: WebhookPayload
+  status: 'pending' | 'succeeded' | 'failed'
+  attempts: number
+  response_status: number | null
+  error: string | null
+  next_attempt_at: string | null
+  delivered_at: string | null
+  created_at: string
+}
+
+/**
+ * Body POSTed to webhook endpoints. `details` is the ProjectLog details
+ * of the log entry that triggered the event.
+ */
+export interface WebhookPayload {
+  id: string
+  event: WebhookEvent
+  project_id: string
+  log_id: string | null
+  user_id: string | null
+  timestamp: string
+  details: ProjectLog['details']
+}
+
 /**
  * Helper function to get parts from an item, supporting both legacy (parts) and new (versions) formats
  * For versions format, returns parts from the first version
@@ -169,9 +581,118 @@ export interface CollaborationStats {
 }
 
 // Whiteboard Types
+// Least project permission needed to open or edit a board (see lib/project-boards.ts)
+export type BoardViewPermission = 'view' | 'edit' | 'admin'
+export type BoardEditPermission = 'edit' | 'admin' | 'owner'
+
 export interface ProjectBoard {
+  id: string  // The project's main board has the project's id
   project_id: string
+  name: string
+  position: number  // Order in the board switcher
+  view_permission: BoardViewPermission
+  edit_permission: BoardEditPermission
+  created_by: string | null
   board_snapshot: Record<string, unknown>
+  last_seq: number  // Latest board operation
+  snapshot_seq: number  // Latest operation folded into board_snapshot
   created_at: string
   updated_at: string
 }
+
+// A board as listed for the current user
+export interface BoardSummary
+  extends Omit<ProjectBoard, 'board_snapshot' | 'last_seq' | 'snapshot_seq'> {
+  can_edit: boolean
+}
+
+export interface BoardList {
+  boards: BoardSummary[]
+  permission: 'owner' | 'admin' | 'edit' | 'view'  // The user's, on the project
+}
+
+// Whiteboard sync (see lib/board-sync.ts)
+export interface BoardElement {
+  id: string
+  version: number  // Goes up with every edit
+  versionNonce: number  // Random, breaks ties between equal versions
+  isDeleted?: boolean
+  index?: string | null  // Fractional z-order
+  [key: string]: unknown
+}
+
+export type BoardFiles = Record<string, Record<string, unknown>>
+
+export interface BoardSnapshot {
+  elements: BoardElement[]
+  appState: Record<string, unknown>
+  files: BoardFiles
+}
+
+// One client's edits: changed elements, new files and board settings
+export interface BoardChange {
+  id: string  // Chosen by the client; a retried send is ignored
+  elements: BoardElement[]
+  files?: BoardFiles
+  app_state?: Record<string, unknown>
+}
+
+export interface BoardOperation extends BoardChange {
+  project_id: string
+  board_id: string
+  seq: number
+  client_id: string
+  user_id: string | null
+  created_at: string
+}
+
+export interface BoardSyncState {
+  seq: number
+  snapshot: BoardSnapshot | null  // Only when the client is behind board_snapshot
+  operations: BoardOperation[]
+}
+
+// A past state of a whiteboard, see lib/board-history.ts
+export interface BoardVersion {
+  id: string
+  project_id: string
+  board_id: string
+  seq: number  // Latest operation included
+  name: string | null  // Set for named checkpoints
+  created_by: string | null
+  contributors: string[]  // Users whose saves went into it
+  created_at: string
+}
+
+export interface BoardVersionWithSnapshot extends BoardVersion {
+  snapshot: BoardSnapshot  // With the board files its images use
+}
+
+// Board elements generated from project data (see lib/board-bindings.ts)
+export type BoardBindingKind = 'project' | 'item' | 'version' | 'part'
+
+export type BoardBindingField =
+  | 'name'  // Title text; renaming it on the board offers a write-back
+  | 'details'  // Summary text, only ever updated from the project
+  | 'color'  // Part color swatch; recoloring it offers a write-back
+  | 'card'  // Card background
+  | 'image'  // Item image
+  | 'link'  // Arrow from the parent card
+
+export interface BoardBinding {
+  kind: BoardBindingKind
+  itemId?: string
+  versionId?: string
+  partId?: string
+  field: BoardBindingField
+  value?: string  // Project value the element last showed
+  stale?: boolean  // Its item, version or part is gone from the project
+}
+
+// A name or color changed on the board but not yet in the project
+export interface BoardEdit {
+  binding: BoardBinding
+  elementIds: string[]
+  projectValue: string
+  boardValue: string
+}
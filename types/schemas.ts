@@ -1,15 +1,79 @@
 import { z } from 'zod'
+import { isPrivateHostname } from '../lib/private-addresses'
+import { parseStorageUrl } from '../lib/asset-references'
 
 export const projectSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   retailer: z.string().min(1, 'Retailer is required'),
 })
 
-export const itemSchema = z.object({
-  name: z.string().min(1, 'Item name is required'),
-  hero_image: z.string().optional(),
+export const packagingTypeSchema = z.enum([
+  'box',
+  'bag',
+  'envelope',
+  'tube',
+  'custom',
+])
+
+export const logoSourceSchema = z.enum(['upload', 'url'])
+
+// Logos are shown to every collaborator and embedded in exports, so only
+// https URLs of files in our own storage buckets are accepted
+function isStoredFileUrl(url: string): boolean {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  if (!supabaseUrl) return false
+  try {
+    const parsed = new URL(url)
+    return (
+      parsed.protocol === 'https:' &&
+      parsed.origin === new URL(supabaseUrl).origin &&
+      parseStorageUrl(url) !== null
+    )
+  } catch {
+    return false
+  }
+}
+
+// Item-level requirements, see lib/item-details.ts
+export const itemDetailsSchema = z.object({
+  needs_packaging: z.boolean().optional(),
+  packaging_type: packagingTypeSchema.optional(),
+  needs_logo: z.boolean().optional(),
+  logo_source: logoSourceSchema.optional(),
+  custom_logo: z
+    .string()
+    .url('Logo must be a valid URL')
+    .refine(isStoredFileUrl, 'Logo must be an image uploaded to the portal')
+    .optional(),
+  notes: z.string().max(2000, 'Notes are too long').optional(),
 })
 
+export const imageAngleSchema = z.enum([
+  'front',
+  'three_quarter',
+  'side',
+  'back',
+  'top',
+  'detail',
+  'lifestyle',
+])
+
+// Item and version images, see lib/item-images.ts
+export const itemImageSchema = z.object({
+  id: z.string(),
+  url: z.string().url('Image must be a valid URL'),
+  angle: imageAngleSchema,
+  label: z.string().optional(),
+})
+
+export const itemSchema = z
+  .object({
+    name: z.string().min(1, 'Item name is required'),
+    hero_image: z.string().optional(),
+    images: z.array(itemImageSchema).optional(),
+  })
+  .merge(itemDetailsSchema)
+
 export const partSchema = z.object({
   name: z.string().min(1, 'Part name is required'),
   finish: z.string().min(1, 'Finish is required'),
@@ -18,29 +82,42 @@ export const partSchema = z.object({
   files: z.array(z.string()).default([]),
 })
 
+export const annotationDataSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  id: z.string(),
+})
+
+// Full part shape as stored inside project items
+export const partDataSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1, 'Part name is required'),
+  finish: z.string().min(1, 'Finish is required'),
+  color: z.string().min(1, 'Color is required'),
+  texture: z.string().min(1, 'Texture is required'),
+  files: z.array(z.string()).default([]),
+  notes: z.string().optional(),
+  groupId: z.string().optional(),
+  annotation_data: annotationDataSchema.optional(),
+  image_annotations: z.record(annotationDataSchema).optional(),
+  material_id: z.string().uuid().nullable().optional(),
+})
+
+export const partGroupSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, 'Group name is required'),
+  description: z.string().optional(),
+  color: z.string().optional(),
+  created_at: z.string().optional(),
+})
+
 // Version schema for the new versions system
 export const versionSchema = z.object({
   id: z.string(),
   versionNumber: z.number(),
   versionName: z.string().optional(),
-  parts: z
-    .array(
-      z.object({
-        id: z.string().optional(),
-        name: z.string().min(1, 'Part name is required'),
-        finish: z.string().min(1, 'Finish is required'),
-        color: z.string().min(1, 'Color is required'),
-        texture: z.string().min(1, 'Texture is required'),
-        files: z.array(z.string()).default([]),
-        notes: z.string().optional(),
-        annotation_data: z.object({
-          x: z.number(),
-          y: z.number(),
-          id: z.string(),
-        }).optional(),
-      })
-    )
-    .default([]),
+  parts: z.array(partDataSchema).default([]),
+  images: z.array(itemImageSchema).optional(),
   created_at: z.string().optional(),
 })
 
@@ -48,36 +125,336 @@ export const createProjectSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   retailer: z.string().min(1, 'Retailer is required'),
   items: z
+    .array(
+      z
+        .object({
+          name: z.string().min(1, 'Item name is required'),
+          hero_image: z.string().optional(),
+          images: z.array(itemImageSchema).optional(),
+          // Support both legacy parts and new versions format
+          parts: z.array(partDataSchema).default([]).optional(),
+          versions: z.array(versionSchema).optional(),
+        })
+        .merge(itemDetailsSchema)
+    )
+    .min(1, 'At least one item is required'),
+})
+
+// Partial update schemas used by the /api/v1 resource routes
+export const updateProjectSchema = z
+  .object({
+    title: z.string().min(1, 'Title is required'),
+    retailer: z.string().min(1, 'Retailer is required'),
+    due_date: z.string().datetime({ offset: true }).nullable(),
+  })
+  .partial()
+
+export const createItemSchema = z
+  .object({
+    name: z.string().min(1, 'Item name is required'),
+    hero_image: z.string().optional(),
+    images: z.array(itemImageSchema).optional(),
+    parts: z.array(partDataSchema).optional(),
+    versions: z.array(versionSchema).optional(),
+    groups: z.array(partGroupSchema).optional(),
+  })
+  .merge(itemDetailsSchema)
+
+export const updateItemSchema = z
+  .object({
+    name: z.string().min(1, 'Item name is required'),
+    hero_image: z.string().nullable(),
+    images: z.array(itemImageSchema),
+    groups: z.array(partGroupSchema),
+  })
+  .merge(itemDetailsSchema)
+  .partial()
+
+// Same details for several items at once
+export const bulkUpdateItemsSchema = z.object({
+  item_ids: z.array(z.string()).min(1, 'Select at least one item'),
+  changes: itemDetailsSchema,
+})
+
+export const createVersionSchema = z.object({
+  versionName: z.string().optional(),
+  parts: z.array(partDataSchema).default([]),
+  images: z.array(itemImageSchema).optional(),
+})
+
+export const updateVersionSchema = z
+  .object({
+    versionName: z.string().nullable(),
+    images: z.array(itemImageSchema),
+  })
+  .partial()
+
+export const updatePartSchema = partDataSchema.omit({ id: true }).partial()
+
+export const workflowStatusSchema = z.enum([
+  'draft',
+  'in_review',
+  'changes_requested',
+  'approved',
+  'rendered',
+])
+
+export const statusChangeSchema = z.object({
+  status: workflowStatusSchema,
+  comment: z.string().trim().max(1000).optional(),
+})
+
+export const tokenScopeSchema = z.enum([
+  'projects:read',
+  'parts:write',
+  'export',
+])
+
+export const createTokenSchema = z.object({
+  name: z.string().min(1, 'Token name is required').max(100),
+  scopes: z.array(tokenScopeSchema).min(1, 'Select at least one scope'),
+  expires_in_days: z.union([
+    z.literal(7),
+    z.literal(30),
+    z.literal(90),
+    z.literal(365),
+  ]),
+})
+
+export const uploadBucketSchema = z.enum(['project-files', 'board-assets'])
+
+export const createUploadSessionSchema = z.object({
+  name: z.string().trim().min(1, 'File name is required').max(255),
+  size: z
+    .number()
+    .int()
+    .positive('File is empty')
+    .max(2 * 1024 * 1024 * 1024, 'Files can be at most 2GB'),
+  type: z.string().min(1, 'File type is required'),
+  bucket: uploadBucketSchema.default('project-files'),
+  folder: z
+    .string()
+    .regex(/^[\w-]+(\/[\w-]+)*$/, 'Invalid folder')
+    .default('uploads'),
+})
+
+export const completeUploadSessionSchema = z.object({
+  checksum: z.string().regex(/^[0-9a-f]{64}$/, 'Expected a SHA-256 hex digest'),
+})
+
+export const imageQualitySchema = z.enum(['high', 'medium', 'low'])
+
+// Query of the storage garbage collection cron; deleting takes dry_run=false
+export const assetGcQuerySchema = z.object({
+  dry_run: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
+  grace_hours: z.coerce
+    .number()
+    .int()
+    .min(1, 'Keep at least an hour of uploads')
+    .default(24),
+})
+
+// Whiteboard elements are Excalidraw's; only what merging needs is checked
+const boardElementSchema = z
+  .object({
+    id: z.string().min(1),
+    version: z.number().int(),
+    versionNonce: z.number().int(),
+    isDeleted: z.boolean().optional(),
+    index: z.string().nullable().optional(),
+  })
+  .passthrough()
+
+export const boardOperationsSchema = z.object({
+  client_id: z.string().min(1).max(100),
+  operations: z
     .array(
       z.object({
-        name: z.string().min(1, 'Item name is required'),
-        hero_image: z.string().optional(),
-        // Support both legacy parts and new versions format
-        parts: z
-          .array(
-            z.object({
-              id: z.string().optional(),
-              name: z.string().min(1, 'Part name is required'),
-              finish: z.string().min(1, 'Finish is required'),
-              color: z.string().min(1, 'Color is required'),
-              texture: z.string().min(1, 'Texture is required'),
-              files: z.array(z.string()).default([]),
-              notes: z.string().optional(),
-              annotation_data: z.object({
-                x: z.number(),
-                y: z.number(),
-                id: z.string(),
-              }).optional(),
-            })
-          )
-          .default([])
-          .optional(),
-        versions: z.array(versionSchema).optional(),
+        id: z.string().uuid(),
+        elements: z.array(boardElementSchema),
+        files: z.record(z.record(z.unknown())).optional(),
+        app_state: z.record(z.unknown()).optional(),
       })
     )
-    .min(1, 'At least one item is required'),
+    .min(1)
+    .max(50),
+})
+
+export const boardSyncQuerySchema = z.object({
+  since: z.coerce.number().int().min(0).optional(),
+})
+
+export const boardCheckpointSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+})
+
+const boardNameSchema = z.string().trim().min(1, 'Name is required').max(100)
+
+export const createBoardSchema = z.object({
+  name: boardNameSchema,
+})
+
+export const updateBoardSchema = z
+  .object({
+    name: boardNameSchema.optional(),
+    view_permission: z.enum(['view', 'edit', 'admin']).optional(),
+    edit_permission: z.enum(['edit', 'admin', 'owner']).optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0, 'Nothing to update')
+
+export const boardOrderSchema = z.object({
+  board_ids: z.array(z.string().uuid()).min(1).max(100),
+})
+
+export const createImageDerivativesSchema = z.object({
+  bucket: uploadBucketSchema,
+  path: z
+    .string()
+    .regex(/^[\w-]+(\/[\w.-]+)*$/, 'Invalid path')
+    .refine((path) => !path.includes('..'), 'Invalid path')
+    .refine(
+      (path) => !path.startsWith('derivatives/'),
+      'Derivatives have no derivatives'
+    ),
+})
+
+export const webhookEventSchema = z.enum([
+  'project_created',
+  'project_updated',
+  'project_restored',
+  'due_date_updated',
+  'collaborator_joined',
+  'export_completed',
+  'status_changed',
+  'approval_recorded',
+])
+
+// Catches private IP literals and local names; lib/outbound-fetch.ts also
+// checks what the hostname resolves to before each delivery
+function isPublicHostUrl(url: string): boolean {
+  try {
+    return !isPrivateHostname(new URL(url).hostname)
+  } catch {
+    return false
+  }
+}
+
+const webhookUrlSchema = z
+  .string()
+  .url('Enter a valid URL')
+  .refine((url) => /^https?:\/\//i.test(url), 'URL must use http or https')
+  .refine(isPublicHostUrl, 'URL must point to a public address')
+
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(webhookEventSchema).min(1, 'Select at least one event'),
+  scope: z.enum(['project', 'team']).default('project'),
+})
+
+export const updateWebhookSchema = z
+  .object({
+    url: webhookUrlSchema,
+    events: z.array(webhookEventSchema).min(1, 'Select at least one event'),
+    active: z.boolean(),
+  })
+  .partial()
+
+export const materialSheenSchema = z.enum([
+  'flat',
+  'matte',
+  'eggshell',
+  'satin',
+  'semi_gloss',
+  'gloss',
+  'high_gloss',
+])
+
+export const materialSchema = z.object({
+  name: z.string().trim().min(1, 'Material name is required').max(100),
+  swatch_color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, 'Swatch must be a hex color like #a1a1a1'),
+  texture_image_url: z.string().url('Enter a valid URL').nullable(),
+  vendor_code: z.string().trim().max(100).nullable(),
+  sheen: materialSheenSchema.nullable(),
+  notes: z.string().trim().max(1000).nullable(),
+})
+
+export const partTemplateIconSchema = z.enum([
+  'package',
+  'layers',
+  'zap',
+  'star',
+  'settings',
+  'plus',
+  'lamp',
+  'armchair',
+  'shirt',
+  'box',
+])
+
+export const partTemplatePartSchema = z.object({
+  name: z.string().trim().min(1, 'Part name is required'),
+  finish: z.string().default(''),
+  color: z.string().default('#3b82f6'),
+  texture: z.string().default(''),
+  notes: z.string().optional(),
+  material_id: z.string().uuid().nullable().optional(),
+  offset_x: z.number().min(-100).max(100).optional(),
+  offset_y: z.number().min(-100).max(100).optional(),
+})
+
+export const partTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Template name is required'),
+  category: z.string().trim().min(1).default('Other'),
+  description: z.string().default(''),
+  icon: partTemplateIconSchema.catch('package'),
+  tags: z.array(z.string()).default([]),
+  parts: z
+    .array(partTemplatePartSchema)
+    .min(1, 'A template needs at least one part'),
+})
+
+export const partTemplateScopeSchema = z.enum(['user', 'team', 'global'])
+
+export const partTemplateSetSchema = z.object({
+  name: z.string().trim().min(1, 'Set name is required').max(100),
+  description: z.string().trim().max(500).nullable().default(null),
+  scope: partTemplateScopeSchema,
+  templates: z.array(partTemplateSchema),
+})
+
+// JSON files written by "Export" and accepted by "Import"
+export const partTemplateSetFileSchema = z.object({
+  type: z.literal('part-template-set'),
+  format_version: z.literal(1),
+  name: z.string().trim().min(1, 'Set name is required').max(100),
+  description: z.string().nullable().optional(),
+  templates: z.array(partTemplateSchema),
+})
+
+export const cloneProjectSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  retailer: z.string().min(1, 'Retailer is required'),
+  due_date: z.string().datetime({ offset: true }).nullable().default(null),
+})
+
+export const projectTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100),
+  description: z.string().trim().max(500).nullable().default(null),
+  scope: partTemplateScopeSchema,
+  retailer: z.string().default(''),
+  due_in_days: z.number().int().min(0).max(3650).nullable().default(null),
 })
 
 export type ProjectFormData = z.infer<typeof createProjectSchema>
 export type ItemFormData = z.infer<typeof itemSchema>
 export type PartFormData = z.infer<typeof partSchema>
+export type MaterialFormData = z.infer<typeof materialSchema>
+export type PartTemplateSetFormData = z.infer<typeof partTemplateSetSchema>
+export type PartTemplateSetFile = z.infer<typeof partTemplateSetFileSchema>
+export type ProjectTemplateFormData = z.infer<typeof projectTemplateSchema>